@@ -15,6 +15,7 @@ jest.mock('next/server', () => ({
     redirect: jest.fn((url: string) => ({
       status: 302,
       headers: new Headers({ Location: url }),
+      cookies: { set: jest.fn(), delete: jest.fn() },
     })),
   },
   NextRequest: class MockNextRequest {
@@ -37,21 +38,206 @@ jest.mock('next/server', () => ({
   },
 }));
 
+jest.mock('@/lib/shops', () => ({
+  saveShopInstallation: jest.fn(),
+}));
+
+jest.mock('@/lib/members', () => ({
+  getUserFromAccessToken: jest.fn(),
+  claimShopOwnership: jest.fn(),
+}));
+
+import crypto from 'crypto';
 import { GET } from '@/app/api/auth/callback/route';
+import { GET as START } from '@/app/api/auth/route';
 import { NextResponse } from 'next/server';
+import { createOAuthState } from '@/lib/shopify';
+import { saveShopInstallation } from '@/lib/shops';
+import { claimShopOwnership, getUserFromAccessToken } from '@/lib/members';
+
+const SHOP = 'test-shop.myshopify.com';
+
+// Build a callback URL signed the way Shopify signs it
+function signedCallbackUrl(params: Record<string, string>): string {
+  const message = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+  const hmac = crypto.createHmac('sha256', 'test-secret').update(message).digest('hex');
+  return `http://localhost/api/auth/callback?${new URLSearchParams({ ...params, hmac })}`;
+}
+
+// Route handlers read cookies through NextRequest; plain Requests need them attached
+function withCookies(request: Request, cookies: Record<string, string> = {}) {
+  return Object.assign(request, {
+    cookies: { get: (name: string) => (name in cookies ? { name, value: cookies[name] } : undefined) },
+  });
+}
+
+// A callback from the browser that started the install, which holds its state
+function callbackRequest(params: Record<string, string>, cookies: Record<string, string> = {}) {
+  return withCookies(new Request(signedCallbackUrl(params)), { 'qg-oauth-state': params.state, ...cookies });
+}
 
 describe('Auth Callback API', () => {
+  const originalEnv = process.env;
+
   beforeEach(() => {
     jest.clearAllMocks();
+    process.env = {
+      ...originalEnv,
+      SHOPIFY_API_KEY: 'test-key',
+      SHOPIFY_API_SECRET: 'test-secret',
+      NEXT_PUBLIC_APP_URL: 'https://app.quotegen.app',
+    };
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: jest.fn().mockResolvedValue({ access_token: 'shpat_123', scope: 'read_products,write_products' }),
+    });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('GET /api/auth', () => {
+    it('should redirect to the Shopify consent screen with a signed state', async () => {
+      const request = new Request(`http://localhost/api/auth?shop=${SHOP}`);
+      const response = await START(request as any);
+      const location = new URL(response.headers.get('Location') as string);
+
+      expect(response.status).toBe(302);
+      expect(location.origin).toBe(`https://${SHOP}`);
+      expect(location.pathname).toBe('/admin/oauth/authorize');
+      expect(location.searchParams.get('client_id')).toBe('test-key');
+      expect(location.searchParams.get('state')).toMatch(/^[0-9a-f]{32}\.\d+\.[0-9a-f]{64}$/);
+      expect(response.cookies.set).toHaveBeenCalledWith(
+        'qg-oauth-state',
+        location.searchParams.get('state'),
+        expect.objectContaining({ httpOnly: true, sameSite: 'lax', path: '/api/auth/callback' })
+      );
+    });
+
+    it('should reject invalid shop domains', async () => {
+      const request = new Request('http://localhost/api/auth?shop=evil.example.com');
+      await START(request as any);
+
+      expect(NextResponse.json).toHaveBeenCalledWith(
+        { error: 'Invalid shop domain' },
+        { status: 400 }
+      );
+    });
   });
 
   describe('GET /api/auth/callback', () => {
-    it('should redirect to dashboard with valid params', async () => {
-      const request = new Request('http://localhost/api/auth/callback?shop=test-shop.myshopify.com&code=auth-code-123');
+    const validParams = () => ({
+      code: 'auth-code-123',
+      shop: SHOP,
+      state: createOAuthState(SHOP),
+      timestamp: '1700000000',
+    });
+
+    it('should exchange the code, store the token and redirect to dashboard', async () => {
+      const request = callbackRequest(validParams());
+      const response = await GET(request as any);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `https://${SHOP}/admin/oauth/access_token`,
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(saveShopInstallation).toHaveBeenCalledWith(SHOP, 'shpat_123', 'read_products,write_products');
+      expect(response.status).toBe(302);
+      expect(response.headers.get('Location')).toBe(`https://app.quotegen.app/dashboard?shop=${SHOP}`);
+      expect(claimShopOwnership).not.toHaveBeenCalled();
+      expect(response.cookies.delete).toHaveBeenCalledWith({ name: 'qg-oauth-state', path: '/api/auth/callback' });
+    });
+
+    it('should make the signed-in user the owner of the installed shop', async () => {
+      const user = { id: 'user-1', email: 'owner@example.com' };
+      (getUserFromAccessToken as jest.Mock).mockResolvedValue(user);
+
+      const request = callbackRequest(validParams(), { 'qg-access-token': 'jwt-123' });
+      const response = await GET(request as any);
+
+      expect(getUserFromAccessToken).toHaveBeenCalledWith('jwt-123');
+      expect(claimShopOwnership).toHaveBeenCalledWith(SHOP, user);
+      expect(response.status).toBe(302);
+    });
+
+    it('should not claim the shop for an invalid session', async () => {
+      (getUserFromAccessToken as jest.Mock).mockResolvedValue(null);
+
+      const request = callbackRequest(validParams(), { 'qg-access-token': 'expired' });
       const response = await GET(request as any);
 
+      expect(claimShopOwnership).not.toHaveBeenCalled();
       expect(response.status).toBe(302);
-      expect(response.headers.get('Location')).toContain('/dashboard');
+    });
+
+    it('should use SHOPIFY_ADMIN_ORIGIN for the token exchange when set', async () => {
+      process.env.SHOPIFY_ADMIN_ORIGIN = 'http://localhost:4010';
+
+      const request = callbackRequest(validParams());
+      await GET(request as any);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:4010/admin/oauth/access_token',
+        expect.any(Object)
+      );
+    });
+
+    it('should reject a tampered query string', async () => {
+      const url = signedCallbackUrl(validParams()).replace('auth-code-123', 'other-code');
+      await GET(new Request(url) as any);
+
+      expect(NextResponse.json).toHaveBeenCalledWith({ error: 'Invalid HMAC' }, { status: 401 });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should not claim the shop from a browser that did not start the install', async () => {
+      (getUserFromAccessToken as jest.Mock).mockResolvedValue({ id: 'user-1', email: 'owner@example.com' });
+
+      // A callback URL from someone else's install, opened in a signed-in browser
+      const request = withCookies(new Request(signedCallbackUrl(validParams())), {
+        'qg-access-token': 'jwt-123',
+        'qg-oauth-state': createOAuthState(SHOP),
+      });
+      await GET(request as any);
+
+      expect(NextResponse.json).toHaveBeenCalledWith({ error: 'Invalid state' }, { status: 403 });
+      expect(saveShopInstallation).not.toHaveBeenCalled();
+      expect(claimShopOwnership).not.toHaveBeenCalled();
+    });
+
+    it('should reject a state issued for another shop', async () => {
+      const request = callbackRequest({
+        ...validParams(),
+        state: createOAuthState('other-shop.myshopify.com'),
+      });
+      await GET(request as any);
+
+      expect(NextResponse.json).toHaveBeenCalledWith({ error: 'Invalid state' }, { status: 403 });
+      expect(saveShopInstallation).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired state', async () => {
+      const request = callbackRequest({
+        ...validParams(),
+        state: createOAuthState(SHOP, Date.now() - 11 * 60 * 1000),
+      });
+      await GET(request as any);
+
+      expect(NextResponse.json).toHaveBeenCalledWith({ error: 'Invalid state' }, { status: 403 });
+    });
+
+    it('should fail when the token exchange fails', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: false, status: 400 });
+
+      const request = callbackRequest(validParams());
+      await GET(request as any);
+
+      expect(NextResponse.json).toHaveBeenCalledWith({ error: 'Authentication failed' }, { status: 500 });
+      expect(saveShopInstallation).not.toHaveBeenCalled();
     });
 
     it('should handle missing code parameter', async () => {
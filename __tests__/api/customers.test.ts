@@ -8,49 +8,98 @@ import { GET, POST } from '@/app/api/customers/route';
 // Mock Supabase client - use a module-level mock that doesn't rely on external variables
 jest.mock('@supabase/supabase-js', () => {
   const mockSupabaseFrom = jest.fn();
+  const mockSupabaseRpc = jest.fn();
   return {
     createClient: jest.fn(() => ({
       from: mockSupabaseFrom,
+      rpc: mockSupabaseRpc,
       auth: {
         getUser: jest.fn(),
       },
     })),
     __mockSupabaseFrom: mockSupabaseFrom,
+    __mockSupabaseRpc: mockSupabaseRpc,
   };
 });
 
-// Import the mocked module to access the mock function
-const { __mockSupabaseFrom: mockSupabaseFrom } = jest.requireMock('@supabase/supabase-js');
+// Import the mocked module to access the mock functions
+const {
+  __mockSupabaseFrom: mockSupabaseFrom,
+  __mockSupabaseRpc: mockSupabaseRpc,
+} = jest.requireMock('@supabase/supabase-js');
 
 describe('Customers API', () => {
   const mockCustomers = [
     {
       id: 'cust-1',
+      shop_id: 'test-shop.myshopify.com',
       email: 'john@example.com',
-      companyName: 'Acme Corp',
-      contactName: 'John Doe',
+      company_name: 'Acme Corp',
+      contact_name: 'John Doe',
       status: 'active',
-      createdAt: '2024-01-01T00:00:00Z',
-      updatedAt: '2024-01-01T00:00:00Z',
-      customerSince: '2024-01-01T00:00:00Z',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      customer_since: '2024-01-01T00:00:00Z',
       tags: [],
+      contacts: [
+        {
+          id: 'contact-1',
+          customer_id: 'cust-1',
+          name: 'Fay Finance',
+          email: 'ap@acme.com',
+          phone: null,
+          title: null,
+          roles: ['finance'],
+          is_primary: false,
+          notify_quotes: true,
+          preferred_channel: 'email',
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        },
+        {
+          id: 'contact-2',
+          customer_id: 'cust-1',
+          name: 'John Doe',
+          email: 'john@example.com',
+          phone: '555-0100',
+          title: 'Buyer',
+          roles: ['purchasing', 'approver'],
+          is_primary: true,
+          notify_quotes: true,
+          preferred_channel: 'phone',
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        },
+      ],
     },
     {
       id: 'cust-2',
+      shop_id: 'test-shop.myshopify.com',
       email: 'jane@example.com',
-      companyName: 'Tech Inc',
-      contactName: 'Jane Smith',
+      company_name: 'Tech Inc',
+      contact_name: 'Jane Smith',
       status: 'active',
-      createdAt: '2024-01-02T00:00:00Z',
-      updatedAt: '2024-01-02T00:00:00Z',
-      customerSince: '2024-01-02T00:00:00Z',
+      created_at: '2024-01-02T00:00:00Z',
+      updated_at: '2024-01-02T00:00:00Z',
+      customer_since: '2024-01-02T00:00:00Z',
       tags: [],
     },
   ];
 
-  const mockQuotes = [
-    { customerId: 'cust-1', status: 'accepted', total: 1000, createdAt: '2024-01-03T00:00:00Z' },
-    { customerId: 'cust-1', status: 'pending', total: 500, createdAt: '2024-01-04T00:00:00Z' },
+  // customer_stats rows; customers without quotes still get a row
+  const mockStatsRows = [
+    {
+      customer_id: 'cust-1',
+      currency: 'USD',
+      total_quotes: 2,
+      accepted_quotes: 1,
+      declined_quotes: 0,
+      pending_quotes: 1,
+      total_revenue: '1000.00',
+      avg_quote_value: '750.00',
+      first_quote_at: '2024-01-03T00:00:00Z',
+      last_quote_at: '2024-01-04T00:00:00Z',
+    },
   ];
 
   beforeEach(() => {
@@ -80,21 +129,13 @@ describe('Customers API', () => {
             })),
           };
         }
-        if (table === 'quotes') {
-          return {
-            select: jest.fn(() => ({
-              in: jest.fn().mockResolvedValue({
-                data: mockQuotes,
-                error: null,
-              }),
-            })),
-          };
-        }
         return {
           insert: jest.fn().mockResolvedValue({ data: null, error: null }),
         };
       });
 
+      mockSupabaseRpc.mockResolvedValue({ data: mockStatsRows, error: null });
+
       const request = new Request('http://localhost/api/customers?page=1&limit=10');
       const response = await GET(request);
       const json = await response.json();
@@ -102,15 +143,36 @@ describe('Customers API', () => {
       expect(response.status).toBe(200);
       expect(json.success).toBe(true);
       expect(json.data.customers).toHaveLength(2);
+      expect(json.data.customers[0]).toEqual(expect.objectContaining({
+        companyName: 'Acme Corp',
+        contactName: 'John Doe',
+      }));
+      expect(new Date(json.data.customers[0].createdAt).toISOString()).toBe('2024-01-01T00:00:00.000Z');
       expect(json.data.pagination).toBeDefined();
+      expect(mockSupabaseRpc).toHaveBeenCalledWith('customer_stats', { p_customer_ids: ['cust-1', 'cust-2'] });
+      expect(json.data.customers[0].stats).toEqual(expect.objectContaining({
+        totalQuotes: 2,
+        totalRevenue: 1000,
+        avgQuoteValue: 750,
+        conversionRate: 50,
+      }));
+      expect(json.data.customers[1].stats.totalQuotes).toBe(0);
+      expect(json.data.customers[0].contacts.map((contact: { id: string }) => contact.id)).toEqual(['contact-2', 'contact-1']);
+      expect(json.data.customers[0].contacts[0]).toEqual(expect.objectContaining({
+        isPrimary: true,
+        roles: ['purchasing', 'approver'],
+        preferredChannel: 'phone',
+      }));
+      expect(json.data.customers[1].contacts).toEqual([]);
     });
 
     it('should handle search query', async () => {
+      const mockOr = jest.fn();
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === 'customers') {
           return {
             select: jest.fn(() => ({
-              or: jest.fn(() => ({
+              or: mockOr.mockImplementation(() => ({
                 order: jest.fn(() => ({
                   range: jest.fn().mockResolvedValue({
                     data: [mockCustomers[0]],
@@ -122,25 +184,61 @@ describe('Customers API', () => {
             })),
           };
         }
-        if (table === 'quotes') {
-          return {
-            select: jest.fn(() => ({
-              in: jest.fn().mockResolvedValue({
-                data: [],
-                error: null,
-              }),
-            })),
-          };
-        }
         return { insert: jest.fn().mockResolvedValue({ data: null, error: null }) };
       });
 
+      mockSupabaseRpc.mockResolvedValue({ data: [], error: null });
+
       const request = new Request('http://localhost/api/customers?search=acme');
       const response = await GET(request);
       const json = await response.json();
 
       expect(response.status).toBe(200);
       expect(json.success).toBe(true);
+      expect(mockOr).toHaveBeenCalledWith('company_name.ilike.%acme%,contact_name.ilike.%acme%,email.ilike.%acme%');
+    });
+
+    it('should filter and sort on the customers columns', async () => {
+      const builder = {
+        gte: jest.fn().mockReturnThis(),
+        lte: jest.fn().mockReturnThis(),
+        order: jest.fn().mockReturnThis(),
+        range: jest.fn().mockResolvedValue({ data: mockCustomers, error: null, count: 2 }),
+      };
+      mockSupabaseFrom.mockImplementation(() => ({ select: jest.fn(() => builder) }));
+      mockSupabaseRpc.mockResolvedValue({ data: [], error: null });
+
+      const request = new Request(
+        'http://localhost/api/customers?dateFrom=2024-01-01&dateTo=2024-02-01&sortBy=company&sortOrder=asc'
+      );
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      expect(builder.gte).toHaveBeenCalledWith('created_at', '2024-01-01');
+      expect(builder.lte).toHaveBeenCalledWith('created_at', '2024-02-01');
+      expect(builder.order).toHaveBeenCalledWith('company_name', { ascending: true });
+    });
+
+    it('should sort the page by quote stats', async () => {
+      const builder = {
+        order: jest.fn().mockReturnThis(),
+        range: jest.fn().mockResolvedValue({ data: mockCustomers, error: null, count: 2 }),
+      };
+      mockSupabaseFrom.mockImplementation(() => ({ select: jest.fn(() => builder) }));
+      mockSupabaseRpc.mockResolvedValue({
+        data: [
+          mockStatsRows[0],
+          { ...mockStatsRows[0], customer_id: 'cust-2', total_revenue: '5000.00' },
+        ],
+        error: null,
+      });
+
+      const request = new Request('http://localhost/api/customers?sortBy=totalRevenue&sortOrder=desc');
+      const response = await GET(request);
+      const json = await response.json();
+
+      expect(builder.order).toHaveBeenCalledWith('created_at', { ascending: false });
+      expect(json.data.customers.map((customer: { id: string }) => customer.id)).toEqual(['cust-2', 'cust-1']);
     });
   });
 
@@ -152,6 +250,8 @@ describe('Customers API', () => {
         contactName: 'New Contact',
       };
 
+      const mockCustomerInsert = jest.fn();
+      const mockActivityInsert = jest.fn().mockResolvedValue({ data: null, error: null });
       mockSupabaseFrom.mockImplementation((table: string) => {
         if (table === 'customers') {
           return {
@@ -160,16 +260,19 @@ describe('Customers API', () => {
                 maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
               })),
             })),
-            insert: jest.fn(() => ({
+            insert: mockCustomerInsert.mockImplementation(() => ({
               select: jest.fn(() => ({
                 single: jest.fn().mockResolvedValue({
                   data: {
                     id: 'cust-3',
-                    ...newCustomer,
+                    shop_id: 'test-shop.myshopify.com',
+                    email: newCustomer.email,
+                    company_name: newCustomer.companyName,
+                    contact_name: newCustomer.contactName,
                     status: 'active',
-                    createdAt: '2024-01-03T00:00:00Z',
-                    updatedAt: '2024-01-03T00:00:00Z',
-                    customerSince: '2024-01-03T00:00:00Z',
+                    created_at: '2024-01-03T00:00:00Z',
+                    updated_at: '2024-01-03T00:00:00Z',
+                    customer_since: '2024-01-03T00:00:00Z',
                     tags: [],
                   },
                   error: null,
@@ -178,12 +281,7 @@ describe('Customers API', () => {
             })),
           };
         }
-        if (table === 'customerActivity') {
-          return {
-            insert: jest.fn().mockResolvedValue({ data: null, error: null }),
-          };
-        }
-        return { insert: jest.fn().mockResolvedValue({ data: null, error: null }) };
+        return { insert: mockActivityInsert };
       });
 
       const request = new Request('http://localhost/api/customers', {
@@ -196,6 +294,20 @@ describe('Customers API', () => {
 
       expect(response.status).toBe(201);
       expect(json.success).toBe(true);
+      expect(mockCustomerInsert).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'new@example.com',
+        company_name: 'New Corp',
+        contact_name: 'New Contact',
+        status: 'active',
+      }));
+      expect(json.data).toEqual(expect.objectContaining({ id: 'cust-3', companyName: 'New Corp' }));
+      expect(new Date(json.data.createdAt).toISOString()).toBe('2024-01-03T00:00:00.000Z');
+      expect(mockSupabaseFrom).toHaveBeenCalledWith('activities');
+      expect(mockActivityInsert).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'customer_added',
+        customer_id: 'cust-3',
+        customer_name: 'New Corp',
+      }));
     });
 
     it('should validate required fields', async () => {
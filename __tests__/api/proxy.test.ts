@@ -0,0 +1,122 @@
+/**
+ * API Middleware Tests
+ * Resolving the signed-in member for API routes
+ * @module __tests__/api/proxy
+ */
+
+jest.mock('@/lib/members', () => ({
+  getUserFromAccessToken: jest.fn(),
+  resolveShopMember: jest.fn(),
+}));
+
+import { NextRequest, NextResponse } from 'next/server';
+import { proxy } from '@/proxy';
+import { getUserFromAccessToken, resolveShopMember } from '@/lib/members';
+import { MemberRole } from '@/types/quote';
+
+const SHOP = 'test-shop.myshopify.com';
+
+const member = (role: MemberRole) => ({
+  id: 'member-1',
+  shopId: SHOP,
+  userId: 'user-1',
+  email: 'jane@example.com',
+  name: 'Jane Müller',
+  role,
+  createdAt: new Date(),
+});
+
+// The request headers the last NextResponse.next() call forwarded to the route
+const forwardedHeader = (name: string): string | null => {
+  const calls = (NextResponse.next as jest.Mock).mock.calls;
+  return (calls[calls.length - 1][0].request.headers as Headers).get(name);
+};
+
+describe('API middleware', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getUserFromAccessToken as jest.Mock).mockResolvedValue({ id: 'user-1' });
+    (resolveShopMember as jest.Mock).mockResolvedValue(member(MemberRole.SALES));
+  });
+
+  it('should pass the resolved member to the route', async () => {
+    const request = new NextRequest(`http://localhost/api/quotes?shop=${SHOP}`, {
+      method: 'POST',
+      headers: { authorization: 'Bearer jwt-123' },
+    });
+
+    await proxy(request);
+
+    expect(getUserFromAccessToken).toHaveBeenCalledWith('jwt-123');
+    expect(resolveShopMember).toHaveBeenCalledWith('user-1', SHOP);
+    expect(forwardedHeader('x-user-id')).toBe('user-1');
+    expect(forwardedHeader('x-user-name')).toBe(encodeURIComponent('Jane Müller'));
+    expect(forwardedHeader('x-shop-id')).toBe(SHOP);
+    expect(forwardedHeader('x-member-role')).toBe('sales');
+  });
+
+  it('should read the access token from the session cookie', async () => {
+    const request = new NextRequest('http://localhost/api/customers', {
+      headers: { cookie: 'qg-access-token=jwt-cookie' },
+    });
+
+    await proxy(request);
+
+    expect(getUserFromAccessToken).toHaveBeenCalledWith('jwt-cookie');
+  });
+
+  it('should reject requests without a session', async () => {
+    const response = await proxy(new NextRequest('http://localhost/api/quotes'));
+
+    expect(response.status).toBe(401);
+    expect(getUserFromAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('should reject expired sessions', async () => {
+    (getUserFromAccessToken as jest.Mock).mockResolvedValue(null);
+
+    const response = await proxy(new NextRequest('http://localhost/api/quotes', {
+      headers: { authorization: 'Bearer expired' },
+    }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject users who are not members of the shop', async () => {
+    (resolveShopMember as jest.Mock).mockResolvedValue(null);
+
+    const response = await proxy(new NextRequest(`http://localhost/api/quotes?shop_id=${SHOP}`, {
+      headers: { authorization: 'Bearer jwt-123' },
+    }));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error.code).toBe('NOT_A_MEMBER');
+  });
+
+  it('should keep viewers read-only', async () => {
+    (resolveShopMember as jest.Mock).mockResolvedValue(member(MemberRole.VIEWER));
+
+    await proxy(new NextRequest('http://localhost/api/quotes', {
+      headers: { authorization: 'Bearer jwt-123' },
+    }));
+    expect(forwardedHeader('x-member-role')).toBe('viewer');
+
+    const write = await proxy(new NextRequest('http://localhost/api/quotes', {
+      method: 'POST',
+      headers: { authorization: 'Bearer jwt-123' },
+    }));
+    expect(write.status).toBe(403);
+  });
+
+  it('should let public routes through without a session and drop spoofed identity headers', async () => {
+    const response = await proxy(new NextRequest('http://localhost/api/public/quotes/token-1', {
+      method: 'POST',
+      headers: { 'x-user-id': 'spoofed', 'x-member-role': 'owner' },
+    }));
+
+    expect(response.status).toBe(200);
+    expect(getUserFromAccessToken).not.toHaveBeenCalled();
+    expect(forwardedHeader('x-user-id')).toBeNull();
+    expect(forwardedHeader('x-member-role')).toBeNull();
+  });
+});
@@ -3,92 +3,454 @@
  * @module __tests__/api/quotes
  */
 
-import { GET, POST, PATCH } from '@/app/api/quotes/route';
-import { createQuote, getQuotes, updateQuoteStatus, getShopSettings } from '@/lib/supabase';
-import { sendEmail } from '@/lib/email';
+import { GET, POST } from '@/app/api/quotes/route';
+import { POST as POST_REQUEST } from '@/app/api/quotes/request/route';
+import { createQuote, getShopSettings } from '@/lib/supabase';
+import { getSenderIdentity, newQuoteEmailTemplate, sendEmail } from '@/lib/email';
+import { priceLineItemsFromCatalog } from '@/lib/products';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
 
 // Mock the lib modules
 jest.mock('@/lib/supabase', () => ({
   createQuote: jest.fn(),
   getQuotes: jest.fn(),
-  updateQuoteStatus: jest.fn(),
   getShopSettings: jest.fn(),
 }));
 
 jest.mock('@/lib/email', () => ({
   sendEmail: jest.fn(),
+  getSenderIdentity: jest.fn(),
   newQuoteEmailTemplate: jest.fn(),
-  quoteStatusUpdateEmailTemplate: jest.fn(),
 }));
 
+// Line items come back as sent unless a test prices them from the catalog
+jest.mock('@/lib/products', () => ({
+  priceLineItemsFromCatalog: jest.fn(async (_shop: string, items: unknown[]) => items),
+}));
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
 describe('Quotes API', () => {
-  const mockQuotes = [
-    {
-      id: 'quote-1',
-      quote_number: 'QT-001',
-      shop_id: 'shop-1',
-      product_id: 'prod-1',
-      product_title: 'Test Product 1',
-      customer_email: 'john@example.com',
-      customer_name: 'John Doe',
-      status: 'pending',
-      created_at: '2024-01-01T00:00:00Z',
-      updated_at: '2024-01-01T00:00:00Z',
-    },
-    {
-      id: 'quote-2',
-      quote_number: 'QT-002',
-      shop_id: 'shop-1',
-      product_id: 'prod-2',
-      product_title: 'Test Product 2',
-      customer_email: 'jane@example.com',
-      customer_name: 'Jane Smith',
-      status: 'quoted',
-      created_at: '2024-01-02T00:00:00Z',
-      updated_at: '2024-01-02T00:00:00Z',
-    },
-  ];
+  const customerRow = {
+    id: 'cust-1',
+    shop_id: 'shop-1',
+    email: 'john@example.com',
+    company_name: 'Acme Corp',
+    contact_name: 'John Doe',
+    tags: [],
+    status: 'active',
+    customer_since: '2024-01-01T00:00:00Z',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+
+  const lineItemRow = {
+    id: 'li-1',
+    quote_id: 'quote-1',
+    position: 0,
+    product_id: 'prod-1',
+    title: 'Widget',
+    sku: 'W-1',
+    quantity: 2,
+    unit_price: 50,
+    discount_amount: 0,
+    tax_rate: 0,
+    tax_amount: 0,
+    subtotal: 100,
+    total: 100,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+
+  const quoteRow = {
+    id: 'quote-1',
+    shop_id: 'shop-1',
+    quote_number: 'QT-001',
+    customer_id: 'cust-1',
+    customer_email: 'john@example.com',
+    customer_name: 'John Doe',
+    title: 'Widgets',
+    priority: 'medium',
+    status: 'draft',
+    subtotal: 100,
+    discount_total: 0,
+    tax_rate: 10,
+    tax_total: 10,
+    shipping_total: 0,
+    total: 110,
+    currency: 'USD',
+    terms: { paymentTerms: 'Net 30' },
+    metadata: { source: 'web' },
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
+    resetQueryResults();
   });
 
   describe('GET /api/quotes', () => {
-    it('should return all quotes for a shop', async () => {
-      (getQuotes as jest.Mock).mockResolvedValue(mockQuotes);
+    it('should return quotes with customer, line items and pagination', async () => {
+      queueResult('quotes', {
+        data: [{ ...quoteRow, customer: customerRow, line_items: [lineItemRow] }],
+        error: null,
+        count: 1,
+      });
 
       const request = new Request('http://localhost/api/quotes?shop_id=shop-1');
       const response = await GET(request);
       const json = await response.json();
 
       expect(response.status).toBe(200);
-      expect(json).toEqual(mockQuotes);
-      expect(getQuotes).toHaveBeenCalledWith('shop-1');
+      expect(json.success).toBe(true);
+      expect(json.data.quotes).toHaveLength(1);
+      expect(json.data.quotes[0]).toMatchObject({
+        id: 'quote-1',
+        quoteNumber: 'QT-001',
+        total: 110,
+        itemsCount: 1,
+        customer: { id: 'cust-1', companyName: 'Acme Corp' },
+        lineItems: [{ id: 'li-1', title: 'Widget', unitPrice: 50 }],
+      });
+      expect(json.data.pagination).toEqual({ page: 1, limit: 20, total: 1, totalPages: 1 });
+      expect(mockBuilders.quotes[0].eq).toHaveBeenCalledWith('shop_id', 'shop-1');
     });
 
-    it('should return 400 if shop_id is missing', async () => {
+    it('should apply QuoteFilters parameters', async () => {
+      queueResult('quotes', { data: [], error: null, count: 0 });
+
+      const request = new Request(
+        'http://localhost/api/quotes?status=sent&status=viewed&min=100&max=500&sort=total&order=asc&page=2&limit=10'
+      );
+      await GET(request);
+
+      const builder = mockBuilders.quotes[0];
+      expect(builder.in).toHaveBeenCalledWith('status', ['sent', 'viewed']);
+      expect(builder.gte).toHaveBeenCalledWith('total', 100);
+      expect(builder.lte).toHaveBeenCalledWith('total', 500);
+      expect(builder.order).toHaveBeenCalledWith('total', { ascending: true });
+      expect(builder.range).toHaveBeenCalledWith(10, 19);
+    });
+
+    it('should handle database errors', async () => {
+      queueResult('quotes', { data: null, error: { message: 'Database error' }, count: null });
+
       const request = new Request('http://localhost/api/quotes');
       const response = await GET(request);
       const json = await response.json();
 
+      expect(response.status).toBe(500);
+      expect(json.error.code).toBe('FETCH_ERROR');
+    });
+  });
+
+  describe('POST /api/quotes', () => {
+    const validQuote = {
+      shopId: 'shop-1',
+      customerId: 'cust-1',
+      title: 'Widgets',
+      lineItems: [
+        { productId: 'prod-1', title: 'Widget', sku: 'W-1', quantity: 2, unitPrice: 50, discountPercentage: 10 },
+      ],
+      discountTotal: 5,
+      taxRate: 10,
+      shippingTotal: 20,
+      // Client-supplied totals are ignored
+      total: 1,
+    };
+
+    it('should create a quote with server-calculated totals', async () => {
+      queueResult('customers', { data: customerRow, error: null });
+      queueResult('quotes', { data: { ...quoteRow, id: 'quote-2' }, error: null });
+      queueResult('quote_line_items', { data: [{ ...lineItemRow, quote_id: 'quote-2' }], error: null });
+
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify(validQuote),
+      });
+
+      const response = await POST(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(json.success).toBe(true);
+      expect(json.data.id).toBe('quote-2');
+
+      // 2 x 50 less 10% = 90, less 5 discount = 85, +10% tax = 93.5, +20 shipping
+      expect(mockBuilders.quotes[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        shop_id: 'shop-1',
+        customer_id: 'cust-1',
+        status: 'draft',
+        subtotal: 90,
+        discount_total: 5,
+        tax_total: 8.5,
+        shipping_total: 20,
+        total: 113.5,
+      }));
+      expect(mockBuilders.quote_line_items[0].insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          quote_id: 'quote-2',
+          position: 0,
+          subtotal: 100,
+          discount_amount: 10,
+          total: 90,
+        }),
+      ]);
+    });
+
+    it('should take list prices and costs from the catalog, not the client', async () => {
+      (priceLineItemsFromCatalog as jest.Mock).mockImplementationOnce(async (_shop, items) =>
+        items.map((item: object) => ({ ...item, originalPrice: 60, unitCost: 30 }))
+      );
+      queueResult('customers', { data: customerRow, error: null });
+      queueResult('quotes', { data: { ...quoteRow, id: 'quote-2' }, error: null });
+      queueResult('quote_line_items', { data: [lineItemRow], error: null });
+
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...validQuote,
+          lineItems: [{ ...validQuote.lineItems[0], variantId: 'gid://shopify/ProductVariant/11', originalPrice: 50, unitCost: 1 }],
+        }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      const [shop, items] = (priceLineItemsFromCatalog as jest.Mock).mock.calls[0];
+      expect(shop).toBe('shop-1');
+      expect(items[0]).not.toHaveProperty('originalPrice');
+      expect(items[0]).not.toHaveProperty('unitCost');
+      expect(mockBuilders.quote_line_items[0].insert).toHaveBeenCalledWith([
+        expect.objectContaining({ variant_id: 'gid://shopify/ProductVariant/11', original_price: 60, unit_cost: 30 }),
+      ]);
+    });
+
+    it('should return 502 when the catalog prices cannot be loaded', async () => {
+      (priceLineItemsFromCatalog as jest.Mock).mockRejectedValueOnce(new Error('Shopify is down'));
+
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify(validQuote),
+      });
+
+      const response = await POST(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(502);
+      expect(json.error.code).toBe('SHOPIFY_ERROR');
+      expect(mockBuilders.quotes).toBeUndefined();
+    });
+
+    it('should tax at the rule for the customer shipping address', async () => {
+      queueResult('customers', {
+        data: { ...customerRow, shipping_address: { street: '1 Main St', city: 'Fresno', state: 'CA', zipCode: '93701', country: 'US' } },
+        error: null,
+      });
+      queueResult('tax_rules', {
+        data: [{
+          id: 'rule-1',
+          shop_id: 'shop-1',
+          name: 'California',
+          country: 'US',
+          region: 'CA',
+          rate: '8.000',
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        }],
+        error: null,
+      });
+      queueResult('quotes', { data: { ...quoteRow, id: 'quote-2' }, error: null });
+      queueResult('quote_line_items', { data: [lineItemRow], error: null });
+
+      const response = await POST(new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify(validQuote),
+      }));
+
+      expect(response.status).toBe(201);
+      // 85 taxable at the California 8% rather than the 10% sent
+      expect(mockBuilders.quotes[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        tax_rate: 8,
+        tax_exempt: false,
+        prices_include_tax: false,
+        tax_total: 6.8,
+        total: 111.8,
+      }));
+    });
+
+    it('should not tax a new customer with a tax ID', async () => {
+      queueResult('customers', { data: null, error: null });
+      queueResult('customers', { data: { ...customerRow, id: 'cust-new', tax_id: 'EIN-1' }, error: null });
+      queueResult('quotes', { data: { ...quoteRow, id: 'quote-3', customer_id: 'cust-new' }, error: null });
+      queueResult('quote_line_items', { data: [lineItemRow], error: null });
+
+      const { customerId: _customerId, ...rest } = validQuote;
+      const response = await POST(new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...rest,
+          customer: { email: 'buyer@example.com', contactName: 'Buyer', taxId: 'EIN-1' },
+        }),
+      }));
+
+      expect(response.status).toBe(201);
+      expect(mockBuilders.customers[1].insert).toHaveBeenCalledWith(expect.objectContaining({ tax_id: 'EIN-1' }));
+      expect(mockBuilders.quotes[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        tax_exempt: true,
+        tax_total: 0,
+        total: 105,
+      }));
+    });
+
+    it('should create the customer when only contact details are given', async () => {
+      queueResult('customers', { data: null, error: null });
+      queueResult('customers', { data: { ...customerRow, id: 'cust-new' }, error: null });
+      queueResult('quotes', { data: { ...quoteRow, id: 'quote-3', customer_id: 'cust-new' }, error: null });
+      queueResult('quote_line_items', { data: [lineItemRow], error: null });
+
+      const { customerId: _customerId, ...rest } = validQuote;
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...rest,
+          customer: { email: 'New@Example.com', contactName: 'New Buyer' },
+        }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      expect(mockBuilders.customers[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+        shop_id: 'shop-1',
+        email: 'new@example.com',
+        contact_name: 'New Buyer',
+      }));
+    });
+
+    it('should record the template the quote was started from', async () => {
+      queueResult('customers', { data: customerRow, error: null });
+      queueResult('quotes', { data: { ...quoteRow, id: 'quote-4' }, error: null });
+      queueResult('quote_line_items', { data: [lineItemRow], error: null });
+
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...validQuote,
+          templateId: '7b0c1c4e-52c4-4f7a-9a55-0d3c9e4f7a10',
+          pdfTemplate: 'classic',
+          footerText: 'See you soon',
+        }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      expect(mockBuilders.quotes[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        template_id: '7b0c1c4e-52c4-4f7a-9a55-0d3c9e4f7a10',
+        pdf_template: 'classic',
+        header_text: null,
+        footer_text: 'See you soon',
+      }));
+    });
+
+    it('should validate the quote payload', async () => {
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify({ shopId: 'shop-1', title: 'Empty', lineItems: [] }),
+      });
+
+      const response = await POST(request);
+      const json = await response.json();
+
       expect(response.status).toBe(400);
-      expect(json.error).toBe('Shop ID required');
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(json.error.details.lineItems).toBeDefined();
     });
 
-    it('should handle database errors', async () => {
-      (getQuotes as jest.Mock).mockRejectedValue(new Error('Database error'));
+    it('should address the quote to the picked contact', async () => {
+      const contactId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+      queueResult('customers', { data: customerRow, error: null });
+      queueResult('customer_contacts', {
+        data: { id: contactId, customer_id: 'cust-1', name: 'Fay Finance', email: 'ap@example.com', phone: null },
+        error: null,
+      });
+      queueResult('quotes', { data: { ...quoteRow, id: 'quote-5', contact_id: contactId }, error: null });
+      queueResult('quote_line_items', { data: [{ ...lineItemRow, quote_id: 'quote-5' }], error: null });
 
-      const request = new Request('http://localhost/api/quotes?shop_id=shop-1');
-      const response = await GET(request);
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify({ ...validQuote, contactId }),
+      });
+
+      const response = await POST(request);
       const json = await response.json();
 
+      expect(response.status).toBe(201);
+      expect(mockBuilders.customer_contacts[0].eq).toHaveBeenCalledWith('customer_id', 'cust-1');
+      expect(mockBuilders.quotes[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        customer_id: 'cust-1',
+        contact_id: contactId,
+        customer_email: 'ap@example.com',
+        customer_name: 'Fay Finance',
+        customer_phone: null,
+      }));
+      expect(json.data.contactId).toBe(contactId);
+    });
+
+    it('should return 404 for a contact of another customer', async () => {
+      queueResult('customers', { data: customerRow, error: null });
+      queueResult('customer_contacts', { data: null, error: null });
+
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify({ ...validQuote, contactId: '7c9e6679-7425-40de-944b-e07fc1f90ae7' }),
+      });
+
+      const response = await POST(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(json.error.message).toBe('Contact not found');
+      expect(mockBuilders.quotes).toBeUndefined();
+    });
+
+    it('should return 404 for an unknown customer', async () => {
+      queueResult('customers', { data: null, error: null });
+
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify(validQuote),
+      });
+
+      const response = await POST(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(json.error.code).toBe('NOT_FOUND');
+    });
+
+    it('should remove the quote when line items fail to save', async () => {
+      queueResult('customers', { data: customerRow, error: null });
+      queueResult('quotes', { data: { ...quoteRow, id: 'quote-4' }, error: null });
+      queueResult('quote_line_items', { data: null, error: { message: 'insert failed' } });
+
+      const request = new Request('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify(validQuote),
+      });
+
+      const response = await POST(request);
+
       expect(response.status).toBe(500);
-      expect(json.error).toBe('Failed to fetch quotes');
+      expect(mockBuilders.quotes[1].delete).toHaveBeenCalled();
+      expect(mockBuilders.quotes[1].eq).toHaveBeenCalledWith('id', 'quote-4');
     });
   });
 
-  describe('POST /api/quotes', () => {
-    it('should create a new quote', async () => {
+  describe('POST /api/quotes/request', () => {
+    it('should create a new quote request', async () => {
       const newQuote = {
         shop_id: 'shop-1',
         product_id: 'prod-1',
@@ -109,12 +471,12 @@ describe('Quotes API', () => {
       (createQuote as jest.Mock).mockResolvedValue(createdQuote);
       (getShopSettings as jest.Mock).mockResolvedValue({ email_notifications: false });
 
-      const request = new Request('http://localhost/api/quotes', {
+      const request = new Request('http://localhost/api/quotes/request', {
         method: 'POST',
         body: JSON.stringify(newQuote),
       });
 
-      const response = await POST(request);
+      const response = await POST_REQUEST(request);
       const json = await response.json();
 
       expect(response.status).toBe(201);
@@ -123,16 +485,38 @@ describe('Quotes API', () => {
         shop_id: 'shop-1',
         product_id: 'prod-1',
         customer_email: 'test@example.com',
+      }), expect.anything());
+    });
+
+    it('should notify the merchant at the shop reply-to address', async () => {
+      (createQuote as jest.Mock).mockResolvedValue({ id: 'quote-3', status: 'pending' });
+      (getShopSettings as jest.Mock).mockResolvedValue({ email_notifications: true });
+      (getSenderIdentity as jest.Mock).mockResolvedValue({ name: 'Shop', email: 'noreply@shop.com', replyTo: 'owner@shop.com' });
+      (newQuoteEmailTemplate as jest.Mock).mockReturnValue({ subject: 'New quote request', html: '<p>Quote</p>' });
+
+      const request = new Request('http://localhost/api/quotes/request', {
+        method: 'POST',
+        body: JSON.stringify({ shop_id: 'shop-1', product_id: 'prod-1', customer_email: 'test@example.com' }),
+      });
+
+      const response = await POST_REQUEST(request);
+
+      expect(response.status).toBe(201);
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'owner@shop.com',
+        type: 'quote_request',
+        shopId: 'shop-1',
+        quoteId: 'quote-3',
       }));
     });
 
     it('should validate required fields', async () => {
-      const request = new Request('http://localhost/api/quotes', {
+      const request = new Request('http://localhost/api/quotes/request', {
         method: 'POST',
         body: JSON.stringify({ customer_name: 'Test' }),
       });
 
-      const response = await POST(request);
+      const response = await POST_REQUEST(request);
       const json = await response.json();
 
       expect(response.status).toBe(400);
@@ -140,7 +524,7 @@ describe('Quotes API', () => {
     });
 
     it('should validate email format', async () => {
-      const request = new Request('http://localhost/api/quotes', {
+      const request = new Request('http://localhost/api/quotes/request', {
         method: 'POST',
         body: JSON.stringify({
           shop_id: 'shop-1',
@@ -149,64 +533,11 @@ describe('Quotes API', () => {
         }),
       });
 
-      const response = await POST(request);
+      const response = await POST_REQUEST(request);
       const json = await response.json();
 
       expect(response.status).toBe(400);
       expect(json.error).toBe('Invalid email format');
     });
   });
-
-  describe('PATCH /api/quotes', () => {
-    it('should update quote status', async () => {
-      const updatedQuote = {
-        id: 'quote-1',
-        status: 'quoted',
-        quote_amount: 1000,
-      };
-
-      (updateQuoteStatus as jest.Mock).mockResolvedValue({
-        ...mockQuotes[0],
-        status: 'quoted',
-        quote_amount: 1000,
-      });
-
-      const request = new Request('http://localhost/api/quotes', {
-        method: 'PATCH',
-        body: JSON.stringify(updatedQuote),
-      });
-
-      const response = await PATCH(request);
-      const json = await response.json();
-
-      expect(response.status).toBe(200);
-      expect(json.status).toBe('quoted');
-    });
-
-    it('should validate required fields', async () => {
-      const request = new Request('http://localhost/api/quotes', {
-        method: 'PATCH',
-        body: JSON.stringify({ status: 'quoted' }),
-      });
-
-      const response = await PATCH(request);
-      const json = await response.json();
-
-      expect(response.status).toBe(400);
-      expect(json.error).toBe('Quote ID and status required');
-    });
-
-    it('should validate status value', async () => {
-      const request = new Request('http://localhost/api/quotes', {
-        method: 'PATCH',
-        body: JSON.stringify({ id: 'quote-1', status: 'invalid' }),
-      });
-
-      const response = await PATCH(request);
-      const json = await response.json();
-
-      expect(response.status).toBe(400);
-      expect(json.error).toBe('Invalid status');
-    });
-  });
 });
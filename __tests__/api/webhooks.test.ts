@@ -4,14 +4,31 @@
  */
 
 import { POST } from '@/app/api/webhooks/shopify/route';
-import { supabase } from '@/lib/supabase';
 import { verifyShopifyWebhook } from '@/lib/shopify';
+import { runComplianceRequest } from '@/lib/compliance';
+import {
+  beginWebhookDelivery,
+  completeWebhookDelivery,
+  handleAppUninstalled,
+  handleCustomerDeleted,
+  handleCustomerUpdate,
+  handleOrderCreated,
+  handleProductUpdate,
+} from '@/lib/webhooks';
+
+jest.mock('@/lib/compliance', () => ({
+  runComplianceRequest: jest.fn(),
+}));
 
-// Mock Supabase
-jest.mock('@/lib/supabase', () => ({
-  supabase: {
-    from: jest.fn(),
-  },
+// Mock webhook handlers
+jest.mock('@/lib/webhooks', () => ({
+  beginWebhookDelivery: jest.fn(),
+  completeWebhookDelivery: jest.fn(),
+  handleAppUninstalled: jest.fn(),
+  handleProductUpdate: jest.fn(),
+  handleOrderCreated: jest.fn(),
+  handleCustomerUpdate: jest.fn(),
+  handleCustomerDeleted: jest.fn(),
 }));
 
 // Mock Shopify module
@@ -39,8 +56,22 @@ describe('Shopify Webhooks API', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     process.env.SHOPIFY_API_SECRET = 'test-secret';
+    (beginWebhookDelivery as jest.Mock).mockResolvedValue('new');
+    (completeWebhookDelivery as jest.Mock).mockResolvedValue(undefined);
   });
 
+  const createWebhookRequest = (topic: string, webhookId: string, body: unknown = mockWebhookPayload) =>
+    new Request('http://localhost/api/webhooks/shopify', {
+      method: 'POST',
+      headers: {
+        'X-Shopify-Topic': topic,
+        'X-Shopify-Hmac-Sha256': 'valid-signature',
+        'X-Shopify-Shop-Domain': 'test-shop.myshopify.com',
+        'X-Shopify-Webhook-Id': webhookId,
+      },
+      body: JSON.stringify(body),
+    });
+
   describe('POST /api/webhooks/shopify', () => {
     it('should process order created webhook', async () => {
       (verifyShopifyWebhook as jest.Mock).mockReturnValue(true);
@@ -130,5 +161,93 @@ describe('Shopify Webhooks API', () => {
 
       expect(response.status).toBe(200);
     });
+
+    it('should convert accepted quotes on orders/create', async () => {
+      (verifyShopifyWebhook as jest.Mock).mockReturnValue(true);
+      (handleOrderCreated as jest.Mock).mockResolvedValue('quote-1');
+
+      const response = await POST(createWebhookRequest('orders/create', 'wh-1'));
+
+      expect(response.status).toBe(200);
+      expect(beginWebhookDelivery).toHaveBeenCalledWith('wh-1', 'test-shop.myshopify.com', 'orders/create');
+      expect(handleOrderCreated).toHaveBeenCalledWith('test-shop.myshopify.com', mockWebhookPayload);
+      expect(completeWebhookDelivery).toHaveBeenCalledWith('wh-1');
+    });
+
+    it('should revoke the shop on app/uninstalled', async () => {
+      (verifyShopifyWebhook as jest.Mock).mockReturnValue(true);
+
+      const response = await POST(createWebhookRequest('app/uninstalled', 'wh-2', { id: 1 }));
+
+      expect(response.status).toBe(200);
+      expect(handleAppUninstalled).toHaveBeenCalledWith('test-shop.myshopify.com');
+    });
+
+    it('should refresh products on products/update', async () => {
+      (verifyShopifyWebhook as jest.Mock).mockReturnValue(true);
+      const product = { id: 1, title: 'Widget', variants: [] };
+
+      const response = await POST(createWebhookRequest('products/update', 'wh-3', product));
+
+      expect(response.status).toBe(200);
+      expect(handleProductUpdate).toHaveBeenCalledWith('test-shop.myshopify.com', product);
+    });
+
+    it.each(['customers/create', 'customers/update'])('should sync the customer on %s', async (topic) => {
+      (verifyShopifyWebhook as jest.Mock).mockReturnValue(true);
+      const customer = { id: 7, email: 'buyer@acme.com', first_name: 'Ann', tags: 'wholesale' };
+
+      const response = await POST(createWebhookRequest(topic, `wh-${topic}`, customer));
+
+      expect(response.status).toBe(200);
+      expect(handleCustomerUpdate).toHaveBeenCalledWith('test-shop.myshopify.com', customer);
+    });
+
+    it('should unlink the customer on customers/delete', async () => {
+      (verifyShopifyWebhook as jest.Mock).mockReturnValue(true);
+
+      const response = await POST(createWebhookRequest('customers/delete', 'wh-4', { id: 7 }));
+
+      expect(response.status).toBe(200);
+      expect(handleCustomerDeleted).toHaveBeenCalledWith('test-shop.myshopify.com', { id: 7 });
+      expect(runComplianceRequest).not.toHaveBeenCalled();
+    });
+
+    it('should acknowledge duplicate deliveries without processing them', async () => {
+      (verifyShopifyWebhook as jest.Mock).mockReturnValue(true);
+      (beginWebhookDelivery as jest.Mock).mockResolvedValue('duplicate');
+
+      const response = await POST(createWebhookRequest('orders/create', 'wh-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.duplicate).toBe(true);
+      expect(handleOrderCreated).not.toHaveBeenCalled();
+      expect(completeWebhookDelivery).not.toHaveBeenCalled();
+    });
+
+    it('should record failures and return 500 so Shopify retries', async () => {
+      (verifyShopifyWebhook as jest.Mock).mockReturnValue(true);
+      const failure = new Error('database unavailable');
+      (handleOrderCreated as jest.Mock).mockRejectedValue(failure);
+
+      const response = await POST(createWebhookRequest('orders/create', 'wh-4'));
+
+      expect(response.status).toBe(500);
+      expect(completeWebhookDelivery).toHaveBeenCalledWith('wh-4', failure);
+    });
+
+    it.each(['customers/data_request', 'customers/redact', 'shop/redact'])(
+      'should run the %s compliance job',
+      async (topic) => {
+        (verifyShopifyWebhook as jest.Mock).mockReturnValue(true);
+        const payload = { shop_domain: 'test-shop.myshopify.com', customer: { id: 1, email: 'customer@example.com' } };
+
+        const response = await POST(createWebhookRequest(topic, `wh-${topic}`, payload));
+
+        expect(response.status).toBe(200);
+        expect(runComplianceRequest).toHaveBeenCalledWith('test-shop.myshopify.com', topic, payload);
+      }
+    );
   });
 });
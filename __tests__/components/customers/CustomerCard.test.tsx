@@ -139,7 +139,7 @@ describe('CustomerCard', () => {
 
       expect(screen.getByText('15')).toBeInTheDocument(); // totalQuotes
       expect(screen.getByText('76%')).toBeInTheDocument(); // conversionRate rounded
-      expect(screen.getByText('$50.0k')).toBeInTheDocument(); // totalRevenue formatted
+      expect(screen.getByText('$50K')).toBeInTheDocument(); // totalRevenue formatted
     });
 
     it('renders customer status badge', () => {
@@ -212,6 +212,46 @@ describe('CustomerCard', () => {
     });
   });
 
+  // ==========================================================================
+  // Contacts Display
+  // ==========================================================================
+
+  describe('contacts display', () => {
+    const contact = (id: string, name: string, isPrimary = false) => ({
+      id,
+      customerId: 'cust-1',
+      name,
+      email: `${id}@example.com`,
+      roles: [],
+      isPrimary,
+      notifyQuotes: true,
+      preferredChannel: 'email' as const,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    });
+
+    it('lists the contacts and marks the primary one', () => {
+      render(
+        <CustomerCard
+          customer={{ ...mockCustomer, contacts: [contact('c1', 'Ann Buyer', true), contact('c2', 'Fay Finance')] }}
+        />
+      );
+
+      expect(screen.getByText('Ann Buyer')).toBeInTheDocument();
+      expect(screen.getByText('Fay Finance')).toBeInTheDocument();
+      expect(screen.getAllByText('Primary')).toHaveLength(1);
+    });
+
+    it('shows limited contacts when there are many', () => {
+      const contacts = ['Ann', 'Ben', 'Cam', 'Dee', 'Eve'].map((name, index) => contact(`c${index}`, name));
+      render(<CustomerCard customer={{ ...mockCustomer, contacts }} />);
+
+      expect(screen.getByText('Cam')).toBeInTheDocument();
+      expect(screen.queryByText('Dee')).not.toBeInTheDocument();
+      expect(screen.getByText('+2 more')).toBeInTheDocument();
+    });
+  });
+
   // ==========================================================================
   // Tags Display
   // ==========================================================================
@@ -293,7 +333,7 @@ describe('CustomerCard', () => {
       };
       render(<CustomerCard customer={customerWithLargeRevenue} />);
 
-      expect(screen.getByText('$150.0k')).toBeInTheDocument();
+      expect(screen.getByText('$150K')).toBeInTheDocument();
     });
 
     it('formats small revenue values correctly', () => {
@@ -306,7 +346,21 @@ describe('CustomerCard', () => {
       };
       render(<CustomerCard customer={customerWithSmallRevenue} />);
 
-      expect(screen.getByText('$0.5k')).toBeInTheDocument();
+      expect(screen.getByText('$500')).toBeInTheDocument();
+    });
+
+    it('formats revenue in the currency of the stats', () => {
+      const customerInEuros: CustomerWithStats = {
+        ...mockCustomer,
+        stats: {
+          ...mockCustomer.stats,
+          totalRevenue: 2500,
+          currency: 'EUR',
+        },
+      };
+      render(<CustomerCard customer={customerInEuros} />);
+
+      expect(screen.getByText('€2.5K')).toBeInTheDocument();
     });
 
     it('rounds conversion rate correctly', () => {
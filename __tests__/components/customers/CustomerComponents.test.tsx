@@ -87,7 +87,7 @@ describe('CustomerCard', () => {
     
     expect(screen.getByText('15')).toBeInTheDocument(); // totalQuotes
     expect(screen.getByText('76%')).toBeInTheDocument(); // conversionRate rounded
-    expect(screen.getByText('$50.0k')).toBeInTheDocument(); // totalRevenue
+    expect(screen.getByText('$50K')).toBeInTheDocument(); // totalRevenue
   });
 
   it('displays tags', () => {
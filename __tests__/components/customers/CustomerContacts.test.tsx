@@ -0,0 +1,150 @@
+/**
+ * CustomerContacts Component Tests
+ * @module __tests__/components/customers/CustomerContacts
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CustomerContacts } from '@/components/customers/CustomerContacts';
+import type { CustomerContact } from '@/types/quote';
+
+// Mock framer-motion
+jest.mock('framer-motion', () => ({
+  motion: {
+    div: ({ children, ...props }: any) => {
+      const { initial, animate, transition, ...rest } = props;
+      return <div {...rest}>{children}</div>;
+    },
+  },
+  AnimatePresence: ({ children }: any) => <>{children}</>,
+}));
+
+// Mock toast helpers
+jest.mock('@/components/ui/Toast', () => ({
+  useToastHelpers: () => ({
+    success: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+// Mock Modal component
+jest.mock('@/components/ui/Modal', () => ({
+  Modal: ({ children, isOpen, title }: any) =>
+    isOpen ? (
+      <div role="dialog" aria-label={title}>
+        <h2>{title}</h2>
+        {children}
+      </div>
+    ) : null,
+}));
+
+const mockCreateContact = jest.fn();
+const mockUpdateContact = jest.fn();
+const mockDeleteContact = jest.fn();
+let mockContacts: CustomerContact[] = [];
+
+jest.mock('@/hooks/useCustomers', () => ({
+  useCustomerContacts: () => ({ contacts: mockContacts, isLoading: false }),
+  useCreateCustomerContact: () => ({ createContact: mockCreateContact, isCreating: false }),
+  useUpdateCustomerContact: () => ({ updateContact: mockUpdateContact, isUpdating: false }),
+  useDeleteCustomerContact: () => ({ deleteContact: mockDeleteContact, isDeleting: false }),
+}));
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const buyer: CustomerContact = {
+  id: 'contact-1',
+  customerId: 'cust-1',
+  name: 'Ann Buyer',
+  email: 'ann@acme.com',
+  title: 'Purchasing Manager',
+  roles: ['purchasing', 'approver'],
+  isPrimary: true,
+  notifyQuotes: true,
+  preferredChannel: 'email',
+  createdAt: '2024-03-01T00:00:00Z',
+  updatedAt: '2024-03-01T00:00:00Z',
+};
+
+const finance: CustomerContact = {
+  ...buyer,
+  id: 'contact-2',
+  name: 'Fay Finance',
+  email: 'ap@acme.com',
+  phone: '555-0100',
+  title: undefined,
+  roles: ['finance'],
+  isPrimary: false,
+  notifyQuotes: false,
+  preferredChannel: 'phone',
+};
+
+describe('CustomerContacts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockContacts = [buyer, finance];
+  });
+
+  it('lists the contacts with their roles and preferences', () => {
+    render(<CustomerContacts customerId="cust-1" />);
+
+    expect(screen.getByText('Ann Buyer')).toBeInTheDocument();
+    expect(screen.getByText('Purchasing Manager')).toBeInTheDocument();
+    expect(screen.getByText('Primary')).toBeInTheDocument();
+    expect(screen.getByText('Approver')).toBeInTheDocument();
+    expect(screen.getByText('Finance')).toBeInTheDocument();
+    expect(screen.getByText('Prefers phone')).toBeInTheDocument();
+    expect(screen.getByText('No quote emails')).toBeInTheDocument();
+  });
+
+  it('shows an empty state without contacts', () => {
+    mockContacts = [];
+    render(<CustomerContacts customerId="cust-1" />);
+
+    expect(screen.getByText(/No contacts yet/)).toBeInTheDocument();
+  });
+
+  it('makes a contact the primary contact', async () => {
+    render(<CustomerContacts customerId="cust-1" />);
+
+    // Only the contact who is not primary yet can be made primary
+    expect(screen.queryByLabelText('Make Ann Buyer the primary contact')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Make Fay Finance the primary contact'));
+
+    await waitFor(() => {
+      expect(mockUpdateContact).toHaveBeenCalledWith('cust-1', 'contact-2', { isPrimary: true });
+    });
+  });
+
+  it('adds a contact', async () => {
+    render(<CustomerContacts customerId="cust-1" />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Add$/ }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Pat Approver' } });
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'pat@acme.com' } });
+    fireEvent.click(screen.getByLabelText('Approver'));
+    fireEvent.click(screen.getByRole('button', { name: 'Add Contact' }));
+
+    await waitFor(() => {
+      expect(mockCreateContact).toHaveBeenCalledWith('cust-1', expect.objectContaining({
+        name: 'Pat Approver',
+        email: 'pat@acme.com',
+        roles: ['approver'],
+        isPrimary: false,
+        notifyQuotes: true,
+      }));
+    });
+  });
+
+  it('removes a contact', async () => {
+    render(<CustomerContacts customerId="cust-1" />);
+
+    fireEvent.click(screen.getByLabelText('Remove Fay Finance'));
+
+    await waitFor(() => {
+      expect(mockDeleteContact).toHaveBeenCalledWith('cust-1', 'contact-2');
+    });
+  });
+});
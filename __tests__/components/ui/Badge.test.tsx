@@ -6,7 +6,7 @@
 import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { Badge, StatusBadge, PriorityBadge } from '@/components/ui/Badge';
-import { QuoteStatus } from '@/types/quote';
+import { QuoteStatus, QuoteStatusLabels } from '@/types/quote';
 
 // Mock framer-motion
 jest.mock('framer-motion', () => ({
@@ -122,8 +122,7 @@ describe('StatusBadge', () => {
       
       statuses.forEach((status) => {
         const { unmount } = render(<StatusBadge status={status} />);
-        const label = status.charAt(0).toUpperCase() + status.slice(1);
-        expect(screen.getByText(label)).toBeInTheDocument();
+        expect(screen.getByText(QuoteStatusLabels[status])).toBeInTheDocument();
         unmount();
       });
     });
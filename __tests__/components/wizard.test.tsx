@@ -39,6 +39,12 @@ jest.mock('framer-motion', () => ({
 
 import CustomerInfoStep from '@/components/wizard/steps/CustomerInfoStep';
 
+const mockCustomerContacts: { contacts: any[] } = { contacts: [] };
+
+jest.mock('@/hooks/useCustomers', () => ({
+  useCustomerContacts: () => mockCustomerContacts,
+}));
+
 describe('CustomerInfoStep', () => {
   const mockData = {
     email: '',
@@ -52,6 +58,7 @@ describe('CustomerInfoStep', () => {
 
   beforeEach(() => {
     mockOnUpdate.mockClear();
+    mockCustomerContacts.contacts = [];
   });
 
   it('renders step title and description', () => {
@@ -93,6 +100,37 @@ describe('CustomerInfoStep', () => {
     expect(mockOnUpdate).toHaveBeenCalledWith({ email: 'test@example.com' });
   });
 
+  it('picks which of the customer\'s contacts the quote is sent to', () => {
+    mockCustomerContacts.contacts = [
+      { id: 'contact-1', name: 'Ann Buyer', email: 'ann@acme.com', roles: ['purchasing'], isPrimary: true, notifyQuotes: true },
+      { id: 'contact-2', name: 'Pat Approver', email: 'pat@acme.com', phone: '555-0101', roles: ['approver'], isPrimary: false, notifyQuotes: true },
+      { id: 'contact-3', name: 'Fay Finance', email: 'ap@acme.com', roles: ['finance'], isPrimary: false, notifyQuotes: true },
+    ];
+    const selected = {
+      ...mockData,
+      customer: { id: 'cust-1', companyName: 'Acme', contactName: 'Ann Buyer', email: 'ann@acme.com' } as any,
+      customerId: 'cust-1',
+      contactId: 'contact-1',
+      companyName: 'Acme',
+      contactName: 'Ann Buyer',
+      email: 'ann@acme.com',
+      isExistingCustomer: true,
+    };
+
+    render(<CustomerInfoStep data={selected} onUpdate={mockOnUpdate} />);
+
+    expect(screen.getByText('Copied in: Fay Finance')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByTestId('customer-contact-select'), { target: { value: 'contact-2' } });
+
+    expect(mockOnUpdate).toHaveBeenCalledWith({
+      contactId: 'contact-2',
+      email: 'pat@acme.com',
+      contactName: 'Pat Approver',
+      phone: '555-0101',
+    });
+  });
+
   it('displays error message when error prop is provided', () => {
     render(
       <CustomerInfoStep data={mockData} onUpdate={mockOnUpdate} error="Test error message" />
@@ -313,6 +351,12 @@ jest.mock('@/hooks/useQuoteWizard', () => ({
         internalNotes: '',
       },
     },
+    formData: {
+      customer: { name: '', email: '', phone: '', company: '' },
+      line_items: [],
+      title: '',
+      discount_total: 0,
+    },
     nextStep: jest.fn(),
     previousStep: jest.fn(),
     goToStep: jest.fn(),
@@ -4,7 +4,8 @@
  */
 
 import { renderHook, waitFor } from '@testing-library/react';
-import useSWR from 'swr';
+import useSWR, { mutate } from 'swr';
+import useSWRMutation from 'swr/mutation';
 import {
   useCustomersList,
   useCustomer,
@@ -17,6 +18,12 @@ import {
   useAddCustomerNote,
   useBulkUpdateCustomers,
   useBulkDeleteCustomers,
+  useRunCustomerImport,
+  useCustomerDuplicates,
+  useMergeCustomers,
+  useUndoCustomerMerge,
+  useCustomerContacts,
+  useUpdateCustomerContact,
 } from '@/hooks/useCustomers';
 
 // Mock SWR
@@ -465,4 +472,141 @@ describe('useCustomers Hooks', () => {
       expect(typeof result.current.isDeleting).toBe('boolean');
     });
   });
+
+  describe('useRunCustomerImport', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should start the import and poll it until it completes', async () => {
+      jest.useFakeTimers();
+      const mockTrigger = jest.fn()
+        .mockResolvedValueOnce({ import: { id: 'import-1', status: 'processing', nextRow: 0 } })
+        .mockResolvedValueOnce({ import: { id: 'import-1', status: 'processing', nextRow: 100 } })
+        .mockResolvedValueOnce({ import: { id: 'import-1', status: 'completed', nextRow: 150 } });
+      jest.mocked(useSWRMutation).mockReturnValue({
+        trigger: mockTrigger,
+        isMutating: false,
+        error: undefined,
+      } as unknown as ReturnType<typeof useSWRMutation>);
+
+      const onProgress = jest.fn();
+      const { result } = renderHook(() => useRunCustomerImport());
+      const running = result.current.runImport('import-1', onProgress);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockTrigger).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1000);
+      const finished = await running;
+
+      expect(mockTrigger).toHaveBeenCalledTimes(3);
+      expect(mockTrigger).toHaveBeenCalledWith('import-1');
+      expect(onProgress.mock.calls.map(([job]) => job.nextRow)).toEqual([0, 100, 150]);
+      expect(finished.status).toBe('completed');
+      expect(mutate).toHaveBeenCalled();
+    });
+  });
+
+  describe('useCustomerDuplicates', () => {
+    it('should fetch the customer\'s possible duplicates', () => {
+      const duplicates = [{ customer: mockCustomer, score: 65, reasons: ['emailDomain', 'companyName'] }];
+      mockUseSWR.mockReturnValue({
+        data: { duplicates },
+        error: undefined,
+        isLoading: false,
+        isValidating: false,
+        mutate: jest.fn(),
+      } as any);
+
+      const { result } = renderHook(() => useCustomerDuplicates('cust-1'));
+
+      expect(result.current.duplicates).toEqual(duplicates);
+      expect(mockUseSWR).toHaveBeenCalledWith('/api/customers/cust-1/duplicates', expect.any(Function), expect.any(Object));
+    });
+  });
+
+  describe('useMergeCustomers', () => {
+    it('should merge and revalidate the customers', async () => {
+      const mockTrigger = jest.fn().mockResolvedValue({ merge: { id: 'merge-1' }, customer: mockCustomer });
+      jest.mocked(useSWRMutation).mockReturnValue({
+        trigger: mockTrigger,
+        isMutating: false,
+        error: undefined,
+      } as unknown as ReturnType<typeof useSWRMutation>);
+
+      const { result } = renderHook(() => useMergeCustomers());
+      const merged = await result.current.mergeCustomers('cust-1', { duplicateIds: ['cust-2'], selection: {} });
+
+      expect(mockTrigger).toHaveBeenCalledWith({
+        customerId: 'cust-1',
+        data: { duplicateIds: ['cust-2'], selection: {} },
+      });
+      expect(merged.merge.id).toBe('merge-1');
+      expect(mutate).toHaveBeenCalled();
+    });
+  });
+
+  describe('useUndoCustomerMerge', () => {
+    it('should undo the merge and return the restored customer', async () => {
+      const mockTrigger = jest.fn().mockResolvedValue({ customer: mockCustomer });
+      jest.mocked(useSWRMutation).mockReturnValue({
+        trigger: mockTrigger,
+        isMutating: false,
+        error: undefined,
+      } as unknown as ReturnType<typeof useSWRMutation>);
+
+      const { result } = renderHook(() => useUndoCustomerMerge());
+
+      await expect(result.current.undoMerge('merge-1')).resolves.toEqual(mockCustomer);
+      expect(mockTrigger).toHaveBeenCalledWith('merge-1');
+    });
+  });
+
+  describe('useCustomerContacts', () => {
+    it('should fetch the customer\'s contacts', () => {
+      const contacts = [{ id: 'contact-1', name: 'Fay Finance', roles: ['finance'], isPrimary: true }];
+      mockUseSWR.mockReturnValue({
+        data: { contacts },
+        error: undefined,
+        isLoading: false,
+        isValidating: false,
+        mutate: jest.fn(),
+      } as any);
+
+      const { result } = renderHook(() => useCustomerContacts('cust-1'));
+
+      expect(result.current.contacts).toEqual(contacts);
+      expect(mockUseSWR).toHaveBeenCalledWith('/api/customers/cust-1/contacts', expect.any(Function));
+    });
+
+    it('should not fetch without a customer', () => {
+      mockUseSWR.mockReturnValue({ data: undefined, error: undefined, isLoading: false } as any);
+
+      const { result } = renderHook(() => useCustomerContacts(null));
+
+      expect(result.current.contacts).toEqual([]);
+      expect(mockUseSWR).toHaveBeenCalledWith(null, expect.any(Function));
+    });
+  });
+
+  describe('useUpdateCustomerContact', () => {
+    it('should update the contact and revalidate the customers', async () => {
+      const mockTrigger = jest.fn().mockResolvedValue({ id: 'contact-1', isPrimary: true });
+      jest.mocked(useSWRMutation).mockReturnValue({
+        trigger: mockTrigger,
+        isMutating: false,
+        error: undefined,
+      } as unknown as ReturnType<typeof useSWRMutation>);
+
+      const { result } = renderHook(() => useUpdateCustomerContact());
+      await result.current.updateContact('cust-1', 'contact-1', { isPrimary: true });
+
+      expect(mockTrigger).toHaveBeenCalledWith({
+        customerId: 'cust-1',
+        contactId: 'contact-1',
+        data: { isPrimary: true },
+      });
+      expect(mutate).toHaveBeenCalled();
+    });
+  });
 });
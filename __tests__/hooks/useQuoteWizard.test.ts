@@ -4,8 +4,8 @@
  */
 
 import { renderHook, act } from '@testing-library/react';
-import { useQuoteWizard, calculateQuoteTotals } from '@/hooks/useQuoteWizard';
-import { WIZARD_STEPS } from '@/types/quote';
+import { useQuoteWizard, calculateQuoteTotals, getTemplateFormData } from '@/hooks/useQuoteWizard';
+import { WIZARD_STEPS, type QuoteTemplate } from '@/types/quote';
 
 // Mock console methods
 const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
@@ -499,6 +499,51 @@ describe('useQuoteWizard', () => {
       expect(result.current.formData.customer.name).toBe('Test User');
     });
 
+    it('should keep the picked customer and recipient contact', () => {
+      const { result } = renderHook(() => useQuoteWizard());
+
+      act(() => {
+        result.current.updateCustomerInfo({
+          customer: { id: 'cust-1', email: 'buyer@acme.com', companyName: 'Acme', contactName: 'Ann Buyer' } as any,
+          customerId: 'cust-1',
+          contactId: 'contact-1',
+          email: 'buyer@acme.com',
+          contactName: 'Ann Buyer',
+          isExistingCustomer: true,
+        });
+      });
+
+      expect(result.current.formData.customer).toEqual(expect.objectContaining({
+        customer_id: 'cust-1',
+        contact_id: 'contact-1',
+      }));
+      expect(result.current.data.customerInfo).toEqual(expect.objectContaining({
+        customerId: 'cust-1',
+        contactId: 'contact-1',
+        isExistingCustomer: true,
+      }));
+
+      // Sending to someone else keeps the customer
+      act(() => {
+        result.current.updateCustomerInfo({ contactId: 'contact-2', email: 'ap@acme.com', contactName: 'Fay Finance' });
+      });
+
+      expect(result.current.formData.customer).toEqual(expect.objectContaining({
+        customer_id: 'cust-1',
+        contact_id: 'contact-2',
+        email: 'ap@acme.com',
+      }));
+
+      // Clearing the customer drops the contact too
+      act(() => {
+        result.current.updateCustomerInfo({ customer: undefined, customerId: undefined, email: '' });
+      });
+
+      expect(result.current.formData.customer.customer_id).toBeUndefined();
+      expect(result.current.formData.customer.contact_id).toBeUndefined();
+      expect(result.current.data.customerInfo.isExistingCustomer).toBe(false);
+    });
+
     it('should provide data transformation', () => {
       const { result } = renderHook(() => useQuoteWizard());
 
@@ -510,6 +555,92 @@ describe('useQuoteWizard', () => {
       expect(result.current.data.customerInfo.email).toBe('john@example.com');
       expect(result.current.data.lineItems.items).toHaveLength(1);
     });
+
+    it('should keep other terms when one field is updated', () => {
+      const { result } = renderHook(() =>
+        useQuoteWizard({ initialData: { terms: 'Net 15', notes: 'Thanks!' } })
+      );
+
+      act(() => {
+        result.current.updateTermsNotes({ deliveryTerms: 'FOB Origin' });
+      });
+
+      expect(result.current.data.termsNotes).toEqual(expect.objectContaining({
+        paymentTerms: 'Net 15',
+        deliveryTerms: 'FOB Origin',
+        notes: 'Thanks!',
+      }));
+    });
+  });
+
+  describe('templates', () => {
+    const template: QuoteTemplate = {
+      id: 'tmpl-1',
+      shopId: 'shop-1',
+      name: 'Service Quote',
+      category: 'Service',
+      isDefault: false,
+      pdfTemplate: 'classic',
+      headerText: 'Scope of work below',
+      termsDefault: { paymentTerms: 'Due on receipt', depositRequired: true, depositPercentage: 50, validityPeriod: 10 },
+      lineItems: [{ title: 'Consulting hour', quantity: 8, unitPrice: 150, taxRate: 20 }],
+      usageCount: 0,
+      createdAt: new Date('2024-02-01'),
+      updatedAt: new Date('2024-02-01'),
+    };
+
+    it('should map a template to form data, leaving unset terms alone', () => {
+      const data = getTemplateFormData(template, new Date('2024-03-01T12:00:00Z'));
+
+      expect(data).toEqual(expect.objectContaining({
+        template_id: 'tmpl-1',
+        pdf_template: 'classic',
+        header_text: 'Scope of work below',
+        footer_text: '',
+        terms: 'Due on receipt',
+        deposit_required: true,
+        deposit_percentage: 50,
+        valid_until: '2024-03-11',
+      }));
+      expect(data.line_items).toEqual([
+        expect.objectContaining({ name: 'Consulting hour', quantity: 8, unit_price: 150, tax_rate: 20 }),
+      ]);
+      expect(data).not.toHaveProperty('notes');
+      expect(data).not.toHaveProperty('currency');
+    });
+
+    it('should prefill terms, line items and branding from a template', () => {
+      const { result } = renderHook(() => useQuoteWizard({ initialData: { notes: 'Shop note', currency: 'EUR' } }));
+
+      act(() => {
+        result.current.applyTemplate(template);
+      });
+
+      expect(result.current.formData.line_items).toHaveLength(1);
+      expect(result.current.formData.template_id).toBe('tmpl-1');
+      expect(result.current.data.termsNotes).toEqual(expect.objectContaining({
+        paymentTerms: 'Due on receipt',
+        depositRequired: true,
+        depositPercentage: 50,
+        notes: 'Shop note',
+        currency: 'EUR',
+      }));
+    });
+
+    it('should clear the template for a blank quote', () => {
+      const { result } = renderHook(() => useQuoteWizard());
+
+      act(() => {
+        result.current.applyTemplate(template);
+      });
+      act(() => {
+        result.current.applyTemplate(null);
+      });
+
+      expect(result.current.formData.template_id).toBeUndefined();
+      expect(result.current.formData.line_items).toEqual([]);
+      expect(result.current.formData.header_text).toBe('');
+    });
   });
 });
 
@@ -585,4 +716,99 @@ describe('calculateQuoteTotals', () => {
     expect(result.taxTotal).toBe(20);
     expect(result.total).toBe(220);
   });
+
+  it('should tax items at their own rate and break tax down by rate', () => {
+    const items = [
+      { name: 'Item 1', quantity: 1, unit_price: 100, discount_percent: 0 },
+      { name: 'Item 2', quantity: 1, unit_price: 100, discount_percent: 0, tax_rate: 20 },
+      { name: 'Item 3', quantity: 1, unit_price: 100, discount_percent: 0, tax_rate: 0 },
+    ];
+
+    // The 30 discount comes off each item in proportion: 90 taxable apiece
+    const result = calculateQuoteTotals(items as any, 30, { rate: 10, pricesIncludeTax: false, exempt: false });
+
+    expect(result.taxBreakdown).toEqual([
+      { rate: 10, taxableAmount: 90, taxAmount: 9 },
+      { rate: 20, taxableAmount: 90, taxAmount: 18 },
+    ]);
+    expect(result.taxTotal).toBe(27);
+    expect(result.total).toBe(297);
+  });
+
+  it('should take tax out of tax-inclusive prices', () => {
+    const items = [
+      { name: 'Item', quantity: 2, unit_price: 60, discount_percent: 0 },
+    ];
+
+    const result = calculateQuoteTotals(items as any, 0, { rate: 20, pricesIncludeTax: true, exempt: false }, 10);
+
+    expect(result.subtotal).toBe(120);
+    expect(result.taxTotal).toBe(20);
+    expect(result.total).toBe(130);
+    expect(result.pricesIncludeTax).toBe(true);
+  });
+
+  it('should not tax exempt customers', () => {
+    const items = [
+      { name: 'Item', quantity: 1, unit_price: 100, discount_percent: 0 },
+    ];
+
+    const result = calculateQuoteTotals(items as any, 0, { rate: 20, pricesIncludeTax: false, exempt: true });
+
+    expect(result.taxTotal).toBe(0);
+    expect(result.taxBreakdown).toEqual([]);
+    expect(result.taxExempt).toBe(true);
+    expect(result.total).toBe(100);
+  });
+});
+
+describe('useQuoteWizard tax', () => {
+  const taxRules = [
+    { id: 'rule-1', name: 'California', country: 'US', region: 'CA', rate: 8.25, updatedAt: new Date() },
+  ];
+  const customer = {
+    id: 'cust-1',
+    email: 'buyer@example.com',
+    companyName: 'Acme',
+    contactName: 'Ann Buyer',
+    shippingAddress: { street: '1 Main St', city: 'Fresno', state: 'CA', zipCode: '93701', country: 'US' },
+  };
+
+  it('should tax at the rate for the customer shipping address', () => {
+    const { result } = renderHook(() => useQuoteWizard({
+      taxRules,
+      initialData: {
+        tax_rate: 5,
+        line_items: [{ name: 'Item', quantity: 1, unit_price: 100, discount_percent: 0 }],
+      },
+    }));
+
+    expect(result.current.calculations.taxTotal).toBe(5);
+
+    act(() => {
+      result.current.updateCustomerInfo({ customer: customer as any });
+    });
+
+    expect(result.current.formData.customer.address).toEqual(expect.objectContaining({ state: 'CA', zip: '93701' }));
+    expect(result.current.calculations.taxRate).toBe(8.25);
+    expect(result.current.calculations.taxTotal).toBe(8.25);
+  });
+
+  it('should not tax a customer with a tax ID', () => {
+    const { result } = renderHook(() => useQuoteWizard({
+      taxRules,
+      initialData: {
+        tax_rate: 5,
+        line_items: [{ name: 'Item', quantity: 1, unit_price: 100, discount_percent: 0 }],
+      },
+    }));
+
+    act(() => {
+      result.current.updateCustomerInfo({ customer: { ...customer, taxId: 'EIN-12-3456789' } as any });
+    });
+
+    expect(result.current.formData.customer.tax_id).toBe('EIN-12-3456789');
+    expect(result.current.calculations.taxExempt).toBe(true);
+    expect(result.current.calculations.total).toBe(100);
+  });
 });
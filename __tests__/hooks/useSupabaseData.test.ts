@@ -265,6 +265,42 @@ describe('useSupabaseData Hooks', () => {
       expect(stats?.conversionRate).toBe(50);
     });
 
+    it('should add up quotes in the shop base currency', async () => {
+      const mockQuotes = [
+        { id: 'q1', shop_id: 'shop-1', status: 'accepted', total: 100, currency: 'USD' },
+        // Sent at 0.8 EUR to the dollar
+        { id: 'q2', shop_id: 'shop-1', status: 'accepted', total: 80, currency: 'EUR', base_currency: 'USD', exchange_rate: '0.8' },
+        // Never sent, so converted at today's rate
+        { id: 'q3', shop_id: 'shop-1', status: 'accepted', total: 150, currency: 'GBP' },
+      ];
+
+      (supabase.from as jest.Mock) = jest.fn((table: string) => {
+        if (table === 'merchant_settings') {
+          return {
+            select: jest.fn().mockReturnThis(),
+            eq: jest.fn().mockReturnThis(),
+            maybeSingle: jest.fn().mockResolvedValue({ data: { base_currency: 'USD' }, error: null }),
+          };
+        }
+        if (table === 'exchange_rates') {
+          return {
+            select: jest.fn().mockReturnThis(),
+            eq: jest.fn().mockResolvedValue({ data: [{ currency: 'GBP', rate: '0.75' }], error: null }),
+          };
+        }
+        return { select: jest.fn().mockResolvedValue({ data: mockQuotes, error: null }) };
+      });
+
+      const { result } = renderHook(() => useQuoteStats());
+
+      await waitFor(() => {
+        expect(result.current.data).toBeTruthy();
+      });
+
+      expect(result.current.data?.currency).toBe('USD');
+      expect(result.current.data?.totalRevenue).toBe(400);
+    });
+
     it('should handle period filtering', async () => {
       const mockFrom = jest.fn(() => ({
         select: jest.fn().mockReturnThis(),
@@ -22,6 +22,7 @@ module.exports = {
     'src/**/*.{ts,tsx}',
     '!src/**/*.d.ts',
     '!src/app/layout.tsx',
+    '!src/test-utils/**',
   ],
   transform: {
     '^.+\\.tsx?$': ['ts-jest', {
@@ -84,6 +84,8 @@ jest.mock('next/server', () => ({
     })),
     next: jest.fn(() => ({ status: 200 })),
   },
+  // Tasks are not run; tests call the scheduled task themselves
+  after: jest.fn(),
   NextRequest: class MockNextRequest {
     url: string;
     method: string;
@@ -111,6 +113,17 @@ jest.mock('next/server', () => ({
     text() {
       return Promise.resolve(String(this.body || ''));
     }
+
+    get cookies() {
+      const cookies = new Map(
+        (this.headers.get('cookie') || '')
+          .split(';')
+          .map((pair) => pair.trim().split('='))
+          .filter(([name]) => name)
+          .map(([name, ...value]) => [name, { name, value: value.join('=') }])
+      );
+      return { get: (name: string) => cookies.get(name) };
+    }
   },
 }));
 
@@ -0,0 +1,101 @@
+/**
+ * Shopify OAuth Stand-in
+ * Local replacement for a shop's /admin/oauth endpoints so the install flow
+ * can be exercised end to end without a real store.
+ *
+ * Usage:
+ *   SHOPIFY_API_KEY=key SHOPIFY_API_SECRET=secret node scripts/shopify-oauth-stub.mjs
+ *   # then run the app with SHOPIFY_ADMIN_ORIGIN=http://localhost:4010 and open
+ *   # /api/auth?shop=dev-store.myshopify.com
+ *
+ * @module scripts/shopify-oauth-stub
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+
+const PORT = Number(process.env.PORT || 4010);
+const SHOP = process.env.STUB_SHOP || 'dev-store.myshopify.com';
+const API_KEY = process.env.SHOPIFY_API_KEY || '';
+const API_SECRET = process.env.SHOPIFY_API_SECRET || '';
+
+const issuedCodes = new Map();
+
+function signQuery(params) {
+  const message = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+  return crypto.createHmac('sha256', API_SECRET).update(message).digest('hex');
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// Consent screen: approve immediately and bounce back with a signed callback
+function handleAuthorize(url, res) {
+  const redirectUri = url.searchParams.get('redirect_uri');
+  if (url.searchParams.get('client_id') !== API_KEY || !redirectUri) {
+    return sendJson(res, 400, { error: 'invalid_request' });
+  }
+
+  const code = crypto.randomBytes(12).toString('hex');
+  issuedCodes.set(code, url.searchParams.get('scope') || '');
+
+  const params = {
+    code,
+    shop: SHOP,
+    state: url.searchParams.get('state') || '',
+    timestamp: Math.floor(Date.now() / 1000).toString(),
+  };
+  const callback = new URL(redirectUri);
+  Object.entries({ ...params, hmac: signQuery(params) }).forEach(([key, value]) => {
+    callback.searchParams.set(key, value);
+  });
+
+  res.writeHead(302, { Location: callback.toString() });
+  res.end();
+}
+
+// Token endpoint: single-use codes, client credentials must match
+function handleAccessToken(req, res) {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    let payload;
+    try {
+      payload = JSON.parse(body || '{}');
+    } catch {
+      return sendJson(res, 400, { error: 'invalid_request' });
+    }
+
+    const scope = issuedCodes.get(payload.code);
+    if (payload.client_id !== API_KEY || payload.client_secret !== API_SECRET || scope === undefined) {
+      return sendJson(res, 400, { error: 'invalid_request' });
+    }
+
+    issuedCodes.delete(payload.code);
+    sendJson(res, 200, {
+      access_token: `shpat_${crypto.randomBytes(16).toString('hex')}`,
+      scope,
+    });
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && url.pathname === '/admin/oauth/authorize') {
+    return handleAuthorize(url, res);
+  }
+  if (req.method === 'POST' && url.pathname === '/admin/oauth/access_token') {
+    return handleAccessToken(req, res);
+  }
+  sendJson(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`🛍️  Shopify OAuth stand-in for ${SHOP} listening on http://localhost:${PORT}`);
+});
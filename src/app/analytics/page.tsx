@@ -5,7 +5,8 @@
 
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
 import {
   CalendarIcon,
@@ -18,6 +19,9 @@ import { Card, CardContent, CardHeader } from '@/components/ui/Card';
 import { StatCard } from '@/components/ui/StatCard';
 import { AnalyticsDashboard } from '@/components/analytics/AnalyticsDashboard';
 import { ChartSkeleton, StatCardSkeleton } from '@/components/ui/Skeleton';
+import { useMerchantSettings } from '@/hooks/useSettings';
+import { DEFAULT_MERCHANT_SETTINGS } from '@/lib/settings';
+import { formatCurrency } from '@/lib/utils';
 
 // Mock analytics data
 const mockRevenueData = [
@@ -52,7 +56,11 @@ const mockTopProducts = [
   { productId: 'prod_5', title: 'Training Sessions', quantity: 25, revenue: 37500 },
 ];
 
-export default function AnalyticsPage() {
+function AnalyticsPageContent() {
+  const searchParams = useSearchParams();
+  const { settings } = useMerchantSettings(searchParams.get('shop') || process.env.NEXT_PUBLIC_SHOP_DOMAIN || undefined);
+  // Quotes in other currencies are converted, so everything reports in the base currency
+  const baseCurrency = settings?.quotes.baseCurrency ?? DEFAULT_MERCHANT_SETTINGS.quotes.baseCurrency;
   const [dateRange, setDateRange] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
   const [isLoading, setIsLoading] = useState(false);
 
@@ -185,6 +193,7 @@ export default function AnalyticsPage() {
               statusData: mockStatusData,
               topProducts: mockTopProducts,
             }}
+            currency={baseCurrency}
           />
         </motion.div>
       )}
@@ -279,7 +288,7 @@ export default function AnalyticsPage() {
                     <p className="text-sm text-slate-500">{customer.quotes} quotes</p>
                   </div>
                   <p className="font-medium text-slate-200">
-                    ${(customer.value / 1000).toFixed(0)}k
+                    {formatCurrency(customer.value, baseCurrency, { compact: true })}
                   </p>
                 </div>
               ))}
@@ -290,3 +299,12 @@ export default function AnalyticsPage() {
     </DashboardLayout>
   );
 }
+
+// useSearchParams needs a Suspense boundary for the page to prerender
+export default function AnalyticsPage() {
+  return (
+    <Suspense>
+      <AnalyticsPageContent />
+    </Suspense>
+  );
+}
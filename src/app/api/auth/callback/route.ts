@@ -1,5 +1,15 @@
 // Authentication callback handler
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  isValidShopDomain,
+  OAUTH_STATE_COOKIE,
+  verifyOAuthState,
+  verifyShopifyAuth,
+  verifyShopifyQueryHmac,
+} from '@/lib/shopify';
+import { saveShopInstallation } from '@/lib/shops';
+import { claimShopOwnership, getUserFromAccessToken } from '@/lib/members';
+import { ACCESS_TOKEN_COOKIE } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
@@ -7,27 +17,46 @@ export async function GET(request: NextRequest) {
     const shop = searchParams.get('shop');
     const code = searchParams.get('code');
     const state = searchParams.get('state');
-    const timestamp = searchParams.get('timestamp');
-    const hmac = searchParams.get('hmac');
-    
+
     // Validate required params
     if (!shop || !code) {
       return NextResponse.json({ error: 'Missing required parameters' }, { status: 400 });
     }
-    
-    // Verify HMAC (simplified - full implementation in production)
-    // TODO: Implement full HMAC verification
-    
-    // TODO: Exchange code for access token via Shopify OAuth
-    // const authData = await verifyShopifyAuth(shop, code);
-    
-    // Store access token securely (in production, use encrypted storage)
-    // TODO: Store in database with encryption
-    
-    // Redirect to app dashboard
-    return NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/dashboard?shop=${shop}`);
+
+    if (!isValidShopDomain(shop)) {
+      return NextResponse.json({ error: 'Invalid shop domain' }, { status: 400 });
+    }
+
+    // Verify the request came from Shopify
+    if (!verifyShopifyQueryHmac(searchParams)) {
+      return NextResponse.json({ error: 'Invalid HMAC' }, { status: 401 });
+    }
+
+    // Verify the install was started by us, for this shop, recently, and in
+    // this browser: the shop goes to whoever is signed in here
+    if (!state || state !== request.cookies.get(OAUTH_STATE_COOKIE)?.value || !verifyOAuthState(state, shop)) {
+      return NextResponse.json({ error: 'Invalid state' }, { status: 403 });
+    }
+
+    // Exchange the authorization code for an offline access token
+    const authData = await verifyShopifyAuth(shop, code);
+
+    // Store the token encrypted, together with the granted scopes
+    await saveShopInstallation(shop, authData.access_token, authData.scope);
+
+    // Whoever is signed in to the app while installing owns a shop without members
+    const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+    const user = accessToken ? await getUserFromAccessToken(accessToken) : null;
+    if (user) {
+      await claimShopOwnership(shop, user);
+    }
+
+    // Redirect to app dashboard; the state is spent
+    const response = NextResponse.redirect(`${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/dashboard?shop=${shop}`);
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/callback' });
+    return response;
   } catch (error) {
     console.error('Auth callback error:', error);
     return NextResponse.json({ error: 'Authentication failed' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+// Install entry point - redirects the merchant to Shopify's consent screen
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createOAuthState,
+  generateInstallUrl,
+  isValidShopDomain,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_TTL_MS,
+  verifyShopifyQueryHmac,
+} from '@/lib/shopify';
+
+// GET /api/auth?shop=<shop>.myshopify.com - Start OAuth flow
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const shop = searchParams.get('shop');
+
+  if (!shop) {
+    return NextResponse.json({ error: 'Shop parameter required' }, { status: 400 });
+  }
+
+  if (!isValidShopDomain(shop)) {
+    return NextResponse.json({ error: 'Invalid shop domain' }, { status: 400 });
+  }
+
+  // Installs launched from the Shopify admin are signed; reject tampered ones
+  if (searchParams.has('hmac') && !verifyShopifyQueryHmac(searchParams)) {
+    return NextResponse.json({ error: 'Invalid HMAC' }, { status: 401 });
+  }
+
+  const state = createOAuthState(shop);
+  const response = NextResponse.redirect(generateInstallUrl(shop, state));
+
+  // Shopify sends the merchant back with a top-level GET, which carries lax cookies
+  response.cookies.set(OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/auth/callback',
+    maxAge: OAUTH_STATE_TTL_MS / 1000,
+  });
+
+  return response;
+}
@@ -35,6 +35,7 @@ const mockUpdate = jest.fn(() => ({
     select: jest.fn(() => ({
       single: mockSingle,
     })),
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve({ data: null, error: null }).then(resolve),
   })),
 }));
 
@@ -44,6 +45,14 @@ const mockDelete = jest.fn(() => ({
 
 const mockInsert = jest.fn(() => Promise.resolve({ data: null, error: null }));
 
+const mockCustomerQuotes: { data: unknown[] | null; error: unknown } = { data: [], error: null };
+const mockQuotesEq = jest.fn(() => ({
+  order: jest.fn(() => ({
+    limit: jest.fn(() => Promise.resolve({ data: [], error: null })),
+  })),
+  limit: jest.fn(() => Promise.resolve(mockCustomerQuotes)),
+}));
+
 const mockFrom = jest.fn((table: string) => {
   if (table === 'customers') {
     return {
@@ -56,16 +65,11 @@ const mockFrom = jest.fn((table: string) => {
   if (table === 'quotes') {
     return {
       select: jest.fn(() => ({
-        eq: jest.fn(() => ({
-          order: jest.fn(() => ({
-            limit: jest.fn(() => Promise.resolve({ data: [], error: null })),
-          })),
-          limit: jest.fn(() => Promise.resolve({ data: [], error: null })),
-        })),
+        eq: mockQuotesEq,
       })),
     };
   }
-  if (table === 'customerActivity') {
+  if (table === 'activities') {
     return {
       select: jest.fn(() => ({
         eq: jest.fn(() => ({
@@ -80,39 +84,56 @@ const mockFrom = jest.fn((table: string) => {
   return { insert: mockInsert };
 });
 
+const mockRpc = jest.fn().mockResolvedValue({ data: [], error: null });
+
 jest.mock('@supabase/supabase-js', () => ({
   createClient: jest.fn(() => ({
     from: mockFrom,
+    rpc: mockRpc,
     auth: { getUser: jest.fn() },
   })),
 }));
 
+const mockGetShopAccessToken = jest.fn();
+const mockPushCustomerToShopify = jest.fn();
+
+jest.mock('@/lib/shops', () => ({
+  getShopAccessToken: (shop: string) => mockGetShopAccessToken(shop),
+}));
+
+jest.mock('@/lib/shopifyCustomers', () => ({
+  pushCustomerToShopify: (...args: unknown[]) => mockPushCustomerToShopify(...args),
+}));
+
 // Import after mocks are set up
 import { GET, PATCH, DELETE } from '@/app/api/customers/[id]/route';
 
 describe('Customer Detail API', () => {
   const mockCustomer = {
     id: 'cust-1',
+    shop_id: 'test-shop.myshopify.com',
     email: 'john@example.com',
-    companyName: 'Acme Corp',
-    contactName: 'John Doe',
+    company_name: 'Acme Corp',
+    contact_name: 'John Doe',
     phone: '+1 555-0123',
     status: CustomerStatus.ACTIVE,
     tags: ['vip'],
-    billingAddress: { street: '123 Main St', city: 'New York', state: 'NY', zipCode: '10001', country: 'USA' },
-    shippingAddress: { street: '123 Main St', city: 'New York', state: 'NY', zipCode: '10001', country: 'USA' },
-    taxId: 'TAX-123',
+    billing_address: { street: '123 Main St', city: 'New York', state: 'NY', zipCode: '10001', country: 'USA' },
+    shipping_address: { street: '123 Main St', city: 'New York', state: 'NY', zipCode: '10001', country: 'USA' },
+    tax_id: 'TAX-123',
     notes: 'Important customer',
-    logoUrl: 'https://example.com/logo.png',
-    customerSince: '2023-01-01T00:00:00Z',
-    createdAt: '2023-01-01T00:00:00Z',
-    updatedAt: '2024-01-15T00:00:00Z',
+    logo_url: 'https://example.com/logo.png',
+    customer_since: '2023-01-01T00:00:00Z',
+    created_at: '2023-01-01T00:00:00Z',
+    updated_at: '2024-01-15T00:00:00Z',
   };
 
   beforeEach(() => {
     jest.clearAllMocks();
     mockSingleResults.length = 0;
     mockSingleIndex = 0;
+    mockCustomerQuotes.data = [];
+    mockCustomerQuotes.error = null;
   });
 
   // ============================================================================
@@ -129,7 +150,55 @@ describe('Customer Detail API', () => {
 
       expect(response.status).toBe(200);
       expect(json.success).toBe(true);
-      expect(json.data.customer).toBeDefined();
+      expect(json.data.customer).toEqual(expect.objectContaining({
+        id: 'cust-1',
+        companyName: 'Acme Corp',
+        contactName: 'John Doe',
+        taxId: 'TAX-123',
+        billingAddress: mockCustomer.billing_address,
+      }));
+      expect(new Date(json.data.customer.customerSince).toISOString()).toBe('2023-01-01T00:00:00.000Z');
+      expect(new Date(json.data.customer.updatedAt).toISOString()).toBe('2024-01-15T00:00:00.000Z');
+    });
+
+    it('should take the stats from the customer_stats function', async () => {
+      mockSingleResults.push({ data: mockCustomer, error: null });
+      mockRpc.mockResolvedValueOnce({
+        data: [{
+          customer_id: 'cust-1',
+          currency: 'EUR',
+          total_quotes: 4,
+          accepted_quotes: 1,
+          declined_quotes: 1,
+          pending_quotes: 2,
+          total_revenue: '1200.50',
+          avg_quote_value: '610.25',
+          first_quote_at: '2024-01-02T00:00:00Z',
+          last_quote_at: '2024-02-01T00:00:00Z',
+        }],
+        error: null,
+      });
+
+      const request = new Request('http://localhost/api/customers/cust-1');
+      const response = await GET(request, { params: Promise.resolve({ id: 'cust-1' }) });
+      const json = await response.json();
+
+      expect(mockRpc).toHaveBeenCalledWith('customer_stats', { p_customer_ids: ['cust-1'] });
+      expect(mockFrom).not.toHaveBeenCalledWith('quotes');
+      const { firstQuoteDate, lastQuoteDate, ...counts } = json.data.customer.stats;
+      expect(counts).toEqual({
+        currency: 'EUR',
+        totalQuotes: 4,
+        totalRevenue: 1200.5,
+        avgQuoteValue: 610.25,
+        acceptedQuotes: 1,
+        declinedQuotes: 1,
+        pendingQuotes: 2,
+        conversionRate: 25,
+      });
+      expect(new Date(firstQuoteDate).toISOString()).toBe('2024-01-02T00:00:00.000Z');
+      expect(new Date(lastQuoteDate).toISOString()).toBe('2024-02-01T00:00:00.000Z');
+      expect(json.data.customer.quotesCount).toBe(4);
     });
 
     it('should return 400 when customer ID is missing', async () => {
@@ -204,6 +273,83 @@ describe('Customer Detail API', () => {
       expect(response.status).toBe(404);
       expect(json.error.code).toBe('NOT_FOUND');
     });
+
+    it('should push the edit to the linked Shopify customer', async () => {
+      const updatedRow = {
+        ...mockCustomer,
+        shopify_customer_id: 'gid://shopify/Customer/7',
+      };
+      mockSingleResults.push({ data: { id: 'cust-1' }, error: null }, { data: updatedRow, error: null });
+      mockGetShopAccessToken.mockResolvedValue('shpat_123');
+      mockPushCustomerToShopify.mockResolvedValue(true);
+
+      const request = new Request('http://localhost/api/customers/cust-1', {
+        method: 'PATCH',
+        body: JSON.stringify(updateData),
+      });
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: 'cust-1' }) });
+
+      expect(response.status).toBe(200);
+      expect(mockPushCustomerToShopify).toHaveBeenCalledWith('test-shop.myshopify.com', 'shpat_123', updatedRow);
+    });
+
+    it('should keep the edit when Shopify rejects it', async () => {
+      mockSingleResults.push(
+        { data: { id: 'cust-1' }, error: null },
+        { data: { ...mockCustomer, shopify_customer_id: 'gid://shopify/Customer/7' }, error: null }
+      );
+      mockGetShopAccessToken.mockResolvedValue('shpat_123');
+      mockPushCustomerToShopify.mockRejectedValue(new Error('Shopify rejected the customer update: phone: is invalid'));
+
+      const request = new Request('http://localhost/api/customers/cust-1', {
+        method: 'PATCH',
+        body: JSON.stringify(updateData),
+      });
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: 'cust-1' }) });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should not push customers that are not linked to Shopify', async () => {
+      mockSingleResults.push({ data: { id: 'cust-1' }, error: null }, { data: mockCustomer, error: null });
+
+      const request = new Request('http://localhost/api/customers/cust-1', {
+        method: 'PATCH',
+        body: JSON.stringify(updateData),
+      });
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: 'cust-1' }) });
+
+      expect(response.status).toBe(200);
+      expect(mockGetShopAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should write the changes to the customers columns', async () => {
+      mockSingleResults.push(
+        { data: { id: 'cust-1' }, error: null },
+        { data: { ...mockCustomer, contact_name: 'Jane Doe', phone: '+1 555-0199' }, error: null }
+      );
+
+      const request = new Request('http://localhost/api/customers/cust-1', {
+        method: 'PATCH',
+        body: JSON.stringify({ ...updateData, taxId: 'TAX-9', billingAddress: null }),
+      });
+
+      const response = await PATCH(request, { params: Promise.resolve({ id: 'cust-1' }) });
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockUpdate).toHaveBeenCalledWith({
+        contact_name: 'Jane Doe',
+        phone: '+1 555-0199',
+        tax_id: 'TAX-9',
+        updated_at: expect.any(String),
+      });
+      expect(json.data).toEqual(expect.objectContaining({ contactName: 'Jane Doe', phone: '+1 555-0199' }));
+      expect(new Date(json.data.createdAt).toISOString()).toBe('2023-01-01T00:00:00.000Z');
+    });
   });
 
   // ============================================================================
@@ -211,9 +357,36 @@ describe('Customer Detail API', () => {
   // ============================================================================
 
   describe('DELETE /api/customers/[id]', () => {
+    const adminHeaders = { 'x-user-id': 'user-1', 'x-member-role': 'admin' };
+
+    it('should return 403 for members who may not delete customers', async () => {
+      const request = new Request('http://localhost/api/customers/cust-1', {
+        method: 'DELETE',
+        headers: { 'x-user-id': 'user-2', 'x-member-role': 'sales' },
+      });
+
+      const response = await DELETE(request, { params: Promise.resolve({ id: 'cust-1' }) });
+      const json = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(json.error.code).toBe('FORBIDDEN');
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
+
+    it('should return 401 without a signed-in member', async () => {
+      const request = new Request('http://localhost/api/customers/cust-1', {
+        method: 'DELETE',
+      });
+
+      const response = await DELETE(request, { params: Promise.resolve({ id: 'cust-1' }) });
+
+      expect(response.status).toBe(401);
+    });
+
     it('should return 400 when customer ID is missing', async () => {
       const request = new Request('http://localhost/api/customers/', {
         method: 'DELETE',
+        headers: adminHeaders,
       });
 
       const response = await DELETE(request, { params: Promise.resolve({ id: '' }) });
@@ -228,6 +401,7 @@ describe('Customer Detail API', () => {
 
       const request = new Request('http://localhost/api/customers/non-existent', {
         method: 'DELETE',
+        headers: adminHeaders,
       });
 
       const response = await DELETE(request, { params: Promise.resolve({ id: 'non-existent' }) });
@@ -236,5 +410,40 @@ describe('Customer Detail API', () => {
       expect(response.status).toBe(404);
       expect(json.error.code).toBe('NOT_FOUND');
     });
+
+    it('should delete a customer without quotes', async () => {
+      mockSingleResults.push({ data: { id: 'cust-1' }, error: null });
+
+      const request = new Request('http://localhost/api/customers/cust-1', {
+        method: 'DELETE',
+        headers: adminHeaders,
+      });
+
+      const response = await DELETE(request, { params: Promise.resolve({ id: 'cust-1' }) });
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data).toEqual({ deleted: true });
+      expect(mockQuotesEq).toHaveBeenCalledWith('customer_id', 'cust-1');
+      expect(mockDelete).toHaveBeenCalled();
+    });
+
+    it('should archive a customer with quotes', async () => {
+      mockSingleResults.push({ data: { id: 'cust-1' }, error: null });
+      mockCustomerQuotes.data = [{ id: 'quote-1' }];
+
+      const request = new Request('http://localhost/api/customers/cust-1', {
+        method: 'DELETE',
+        headers: adminHeaders,
+      });
+
+      const response = await DELETE(request, { params: Promise.resolve({ id: 'cust-1' }) });
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.archived).toBe(true);
+      expect(mockUpdate).toHaveBeenCalledWith({ status: CustomerStatus.ARCHIVED, updated_at: expect.any(String) });
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
   });
 });
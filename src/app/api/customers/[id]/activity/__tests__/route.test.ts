@@ -0,0 +1,98 @@
+/**
+ * API Integration Tests - Customer Activity Route
+ * Tests for GET /api/customers/[id]/activity
+ * @module src/app/api/customers/[id]/activity/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/customers/[id]/activity/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Customer Activity API', () => {
+  const activityRow = {
+    id: 'act-1',
+    type: 'note_added',
+    quote_id: null,
+    quote_number: null,
+    customer_id: 'cust-1',
+    customer_name: 'Acme Corp',
+    user_id: 'user-1',
+    user_name: 'Sam Sales',
+    description: 'Called about the spring order',
+    metadata: {},
+    created_at: '2024-02-01T10:00:00Z',
+  };
+
+  const getActivity = (query = '') =>
+    GET(new NextRequest(`http://localhost/api/customers/cust-1/activity${query}`), {
+      params: Promise.resolve({ id: 'cust-1' }),
+    });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  it('should page through the customer activity, newest first', async () => {
+    queueResult('customers', { data: { id: 'cust-1' }, error: null });
+    queueResult('activities', { data: [activityRow], error: null, count: 21 });
+
+    const response = await getActivity('?page=2&limit=10');
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    const [query] = mockBuilders.activities;
+    expect(query.eq).toHaveBeenCalledWith('customer_id', 'cust-1');
+    expect(query.order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(query.range).toHaveBeenCalledWith(10, 19);
+    expect(json.data.activities).toEqual([expect.objectContaining({
+      id: 'act-1',
+      customerId: 'cust-1',
+      type: 'note_added',
+      description: 'Called about the spring order',
+      createdBy: 'Sam Sales',
+    })]);
+    expect(new Date(json.data.activities[0].createdAt).toISOString()).toBe('2024-02-01T10:00:00.000Z');
+    expect(json.data.pagination).toEqual({ page: 2, limit: 10, total: 21, totalPages: 3 });
+  });
+
+  it('should cap the page size', async () => {
+    queueResult('customers', { data: { id: 'cust-1' }, error: null });
+    queueResult('activities', { data: [], error: null, count: 0 });
+
+    const response = await getActivity('?limit=1000');
+
+    expect(response.status).toBe(200);
+    expect(mockBuilders.activities[0].range).toHaveBeenCalledWith(0, 99);
+  });
+
+  it('should return 404 when customer not found', async () => {
+    queueResult('customers', { data: null, error: null });
+
+    const response = await getActivity();
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.code).toBe('NOT_FOUND');
+    expect(mockBuilders.activities).toBeUndefined();
+  });
+
+  it('should report database failures', async () => {
+    queueResult('customers', { data: { id: 'cust-1' }, error: null });
+    queueResult('activities', { data: null, error: { message: 'connection reset' } });
+    const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+    const response = await getActivity();
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error.code).toBe('FETCH_ERROR');
+    mockConsoleError.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Customer Activity API Route
+ * GET /api/customers/[id]/activity - The customer's activity feed, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { mapCustomerActivityRow } from '@/lib/customers';
+import type { ActivityRow } from '@/lib/quotes';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, CustomerActivity } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - List Customer Activity
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Customer ID is required');
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Pagination
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100);
+    const offset = (page - 1) * limit;
+
+    // Check if customer exists
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (customerError) {
+      console.error('Error fetching customer:', customerError);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch customer');
+    }
+
+    if (!customer) {
+      return errorResponse(404, 'NOT_FOUND', 'Customer not found');
+    }
+
+    const { data, error, count } = await supabase
+      .from('activities')
+      .select('*', { count: 'exact' })
+      .eq('customer_id', id)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('Error fetching customer activity:', error);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch customer activity');
+    }
+
+    const total = count || 0;
+
+    return NextResponse.json<ApiResponse<{
+      activities: CustomerActivity[];
+      pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        totalPages: number;
+      };
+    }>>({
+      success: true,
+      data: {
+        activities: ((data || []) as ActivityRow[]).map(mapCustomerActivityRow),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/customers/[id]/activity:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
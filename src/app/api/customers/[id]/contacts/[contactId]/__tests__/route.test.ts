@@ -0,0 +1,115 @@
+/**
+ * API Integration Tests - Customer Contact Route
+ * Tests for PATCH and DELETE /api/customers/[id]/contacts/[contactId]
+ * @module src/app/api/customers/[id]/contacts/[contactId]/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { DELETE, PATCH } from '@/app/api/customers/[id]/contacts/[contactId]/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Customer Contact API', () => {
+  const params = { params: Promise.resolve({ id: 'cust-1', contactId: 'contact-1' }) };
+
+  const contactRow = {
+    id: 'contact-1',
+    shop_id: 'test-shop.myshopify.com',
+    customer_id: 'cust-1',
+    name: 'Fay Finance',
+    email: 'ap@acme.com',
+    phone: null,
+    title: null,
+    roles: ['finance'],
+    is_primary: true,
+    notify_quotes: false,
+    preferred_channel: 'phone',
+    created_at: '2024-03-01T00:00:00Z',
+    updated_at: '2024-03-02T00:00:00Z',
+  };
+
+  const createRequest = (method: string, body?: unknown, role = 'sales') =>
+    new NextRequest('http://localhost/api/customers/cust-1/contacts/contact-1', {
+      method,
+      headers: { 'x-user-id': 'user-1', 'x-user-name': 'Sam Sales', 'x-member-role': role },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('PATCH', () => {
+    it('should update the contact\'s preferences and make them primary', async () => {
+      queueResult('customer_contacts', { data: contactRow, error: null });
+
+      const response = await PATCH(createRequest('PATCH', {
+        isPrimary: true,
+        notifyQuotes: false,
+        preferredChannel: 'phone',
+      }), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.customer_contacts[0].update).toHaveBeenCalledWith({
+        is_primary: true,
+        notify_quotes: false,
+        preferred_channel: 'phone',
+      });
+      expect(mockBuilders.customer_contacts[0].eq).toHaveBeenCalledWith('customer_id', 'cust-1');
+      expect(json.data).toEqual(expect.objectContaining({ isPrimary: true, notifyQuotes: false }));
+    });
+
+    it('should reject an update without fields', async () => {
+      const response = await PATCH(createRequest('PATCH', {}), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('NO_CHANGES');
+    });
+
+    it('should return 404 for a contact of another customer', async () => {
+      queueResult('customer_contacts', { data: null, error: null });
+
+      const response = await PATCH(createRequest('PATCH', { name: 'Fay' }), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should remove the contact', async () => {
+      queueResult('customer_contacts', { data: [{ id: 'contact-1' }], error: null });
+
+      const response = await DELETE(createRequest('DELETE'), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data).toEqual({ deleted: true });
+      expect(mockBuilders.customer_contacts[0].eq).toHaveBeenCalledWith('id', 'contact-1');
+    });
+
+    it('should return 404 when nothing was removed', async () => {
+      queueResult('customer_contacts', { data: [], error: null });
+
+      const response = await DELETE(createRequest('DELETE'), params);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should not let viewers remove contacts', async () => {
+      const response = await DELETE(createRequest('DELETE', undefined, 'viewer'), params);
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.customer_contacts).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Customer Contact API Route
+ * PATCH /api/customers/[id]/contacts/[contactId] - Update a contact, or make them the primary contact
+ * DELETE /api/customers/[id]/contacts/[contactId] - Remove a contact
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  customerContactUpdateSchema,
+  mapCustomerContactRow,
+  toCustomerContactColumns,
+  type CustomerContactRow,
+} from '@/lib/customerContacts';
+import { requirePermission } from '@/lib/members';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, CustomerContact } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// PATCH Handler - Update Contact
+// ============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contactId: string }> }
+) {
+  const denied = requirePermission(request, 'customers:write');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const { id, contactId } = await params;
+
+    if (!id || !contactId) {
+      return errorResponse(400, 'MISSING_ID', 'Customer and contact IDs are required');
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = customerContactUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid contact',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const columns = toCustomerContactColumns(validationResult.data);
+
+    if (Object.keys(columns).length === 0) {
+      return errorResponse(400, 'NO_CHANGES', 'No contact fields to update');
+    }
+
+    const { data: contact, error } = await supabase.from('customer_contacts')
+      .update(columns)
+      .eq('id', contactId)
+      .eq('customer_id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating customer contact:', error);
+      return errorResponse(500, 'UPDATE_ERROR', 'Failed to update contact');
+    }
+
+    if (!contact) {
+      return errorResponse(404, 'NOT_FOUND', 'Contact not found');
+    }
+
+    return NextResponse.json<ApiResponse<CustomerContact>>({
+      success: true,
+      data: mapCustomerContactRow(contact as CustomerContactRow),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/customers/[id]/contacts/[contactId]:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// DELETE Handler - Remove Contact
+// ============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contactId: string }> }
+) {
+  const denied = requirePermission(request, 'customers:write');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const { id, contactId } = await params;
+
+    if (!id || !contactId) {
+      return errorResponse(400, 'MISSING_ID', 'Customer and contact IDs are required');
+    }
+
+    // Quotes sent to the contact keep their address; their contact_id is cleared
+    const { data: deleted, error } = await supabase
+      .from('customer_contacts')
+      .delete()
+      .eq('id', contactId)
+      .eq('customer_id', id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting customer contact:', error);
+      return errorResponse(500, 'DELETE_ERROR', 'Failed to delete contact');
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return errorResponse(404, 'NOT_FOUND', 'Contact not found');
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted: true },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/customers/[id]/contacts/[contactId]:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * API Integration Tests - Customer Contacts Route
+ * Tests for GET and POST /api/customers/[id]/contacts
+ * @module src/app/api/customers/[id]/contacts/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/customers/[id]/contacts/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Customer Contacts API', () => {
+  const params = { params: Promise.resolve({ id: 'cust-1' }) };
+
+  const contactRow = {
+    id: 'contact-1',
+    shop_id: 'test-shop.myshopify.com',
+    customer_id: 'cust-1',
+    name: 'Fay Finance',
+    email: 'ap@acme.com',
+    phone: null,
+    title: 'Controller',
+    roles: ['finance'],
+    is_primary: false,
+    notify_quotes: true,
+    preferred_channel: 'email',
+    created_at: '2024-03-01T00:00:00Z',
+    updated_at: '2024-03-01T00:00:00Z',
+  };
+
+  const createRequest = (body: unknown, role = 'sales') =>
+    new NextRequest('http://localhost/api/customers/cust-1/contacts', {
+      method: 'POST',
+      headers: { 'x-user-id': 'user-1', 'x-user-name': 'Sam Sales', 'x-member-role': role },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('GET', () => {
+    it('should list the customer\'s contacts, primary contact first', async () => {
+      queueResult('customers', { data: { id: 'cust-1' }, error: null });
+      queueResult('customer_contacts', {
+        data: [contactRow, { ...contactRow, id: 'contact-2', name: 'Ann Buyer', is_primary: true }],
+        error: null,
+      });
+
+      const response = await GET(new NextRequest('http://localhost/api/customers/cust-1/contacts'), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.customer_contacts[0].eq).toHaveBeenCalledWith('customer_id', 'cust-1');
+      expect(json.data.contacts.map((contact: { id: string }) => contact.id)).toEqual(['contact-2', 'contact-1']);
+      expect(json.data.contacts[1]).toEqual(expect.objectContaining({
+        customerId: 'cust-1',
+        roles: ['finance'],
+        notifyQuotes: true,
+        preferredChannel: 'email',
+      }));
+    });
+
+    it('should return 404 when customer not found', async () => {
+      queueResult('customers', { data: null, error: null });
+
+      const response = await GET(new NextRequest('http://localhost/api/customers/cust-1/contacts'), params);
+
+      expect(response.status).toBe(404);
+      expect(mockBuilders.customer_contacts).toBeUndefined();
+    });
+  });
+
+  describe('POST', () => {
+    it('should add the contact', async () => {
+      queueResult('customers', { data: { id: 'cust-1' }, error: null });
+      queueResult('customer_contacts', { data: contactRow, error: null });
+
+      const response = await POST(createRequest({
+        name: 'Fay Finance',
+        email: 'AP@acme.com',
+        title: 'Controller',
+        roles: ['finance'],
+      }), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(mockBuilders.customer_contacts[0].insert).toHaveBeenCalledWith({
+        customer_id: 'cust-1',
+        name: 'Fay Finance',
+        email: 'ap@acme.com',
+        title: 'Controller',
+        roles: ['finance'],
+      });
+      expect(json.data).toEqual(expect.objectContaining({ id: 'contact-1', name: 'Fay Finance', isPrimary: false }));
+    });
+
+    it('should validate the contact', async () => {
+      const response = await POST(createRequest({ name: '', email: 'not-an-email' }), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(Object.keys(json.error.details)).toEqual(['name', 'email']);
+      expect(mockBuilders.customer_contacts).toBeUndefined();
+    });
+
+    it('should return 404 when customer not found', async () => {
+      queueResult('customers', { data: null, error: null });
+
+      const response = await POST(createRequest({ name: 'Fay', email: 'ap@acme.com' }), params);
+
+      expect(response.status).toBe(404);
+      expect(mockBuilders.customer_contacts).toBeUndefined();
+    });
+
+    it('should not let viewers add contacts', async () => {
+      const response = await POST(createRequest({ name: 'Fay', email: 'ap@acme.com' }, 'viewer'), params);
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.customers).toBeUndefined();
+    });
+  });
+});
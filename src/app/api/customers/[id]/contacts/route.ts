@@ -0,0 +1,153 @@
+/**
+ * Customer Contacts API Route
+ * GET /api/customers/[id]/contacts - The people at the customer, primary contact first
+ * POST /api/customers/[id]/contacts - Add a contact
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  customerContactSchema,
+  listCustomerContacts,
+  mapCustomerContactRow,
+  toCustomerContactColumns,
+  type CustomerContactRow,
+} from '@/lib/customerContacts';
+import { requirePermission } from '@/lib/members';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, CustomerContact } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - List Contacts
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Customer ID is required');
+    }
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching customer:', error);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch customer');
+    }
+
+    if (!customer) {
+      return errorResponse(404, 'NOT_FOUND', 'Customer not found');
+    }
+
+    const contacts = await listCustomerContacts(supabase, id);
+
+    return NextResponse.json<ApiResponse<{ contacts: CustomerContact[] }>>({
+      success: true,
+      data: { contacts },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/customers/[id]/contacts:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// POST Handler - Add Contact
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'customers:write');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Customer ID is required');
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = customerContactSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid contact',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (customerError) {
+      console.error('Error fetching customer:', customerError);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch customer');
+    }
+
+    if (!customer) {
+      return errorResponse(404, 'NOT_FOUND', 'Customer not found');
+    }
+
+    // shop_id is stamped from the customer, and a new primary contact
+    // replaces the previous one, by triggers
+    const { data: contact, error } = await supabase.from('customer_contacts')
+      .insert({
+        customer_id: id,
+        ...toCustomerContactColumns(validationResult.data),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding customer contact:', error);
+      return errorResponse(500, 'CREATE_ERROR', 'Failed to add contact');
+    }
+
+    return NextResponse.json<ApiResponse<CustomerContact>>({
+      success: true,
+      data: mapCustomerContactRow(contact as CustomerContactRow),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/customers/[id]/contacts:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Customer Duplicates API Route
+ * GET /api/customers/[id]/duplicates - Customers that may be the same business,
+ * scored by email domain, company name, phone and address
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findCustomerDuplicates } from '@/lib/customerMerge';
+import { mapCustomerRow } from '@/lib/quotes';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, CustomerDuplicate, SupabaseCustomer } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - Find Duplicates
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Customer ID is required');
+    }
+
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching customer:', error);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch customer');
+    }
+
+    if (!customer) {
+      return errorResponse(404, 'NOT_FOUND', 'Customer not found');
+    }
+
+    const duplicates = await findCustomerDuplicates(supabase, mapCustomerRow(customer as SupabaseCustomer));
+
+    return NextResponse.json<ApiResponse<{ duplicates: CustomerDuplicate[] }>>({
+      success: true,
+      data: { duplicates },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/customers/[id]/duplicates:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * API Integration Tests - Customer Merges Route
+ * Tests for GET and POST /api/customers/[id]/merges
+ * @module src/app/api/customers/[id]/merges/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: jest.fn(() => ({ from: jest.fn(), rpc: jest.fn() })),
+}));
+
+const mockMergeCustomers = jest.fn();
+const mockListCustomerMerges = jest.fn();
+
+jest.mock('@/lib/customerMerge', () => ({
+  ...jest.requireActual('@/lib/customerMerge'),
+  mergeCustomers: (...args: unknown[]) => mockMergeCustomers(...args),
+  listCustomerMerges: (...args: unknown[]) => mockListCustomerMerges(...args),
+}));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/customers/[id]/merges/route';
+
+const SURVIVOR_ID = '11111111-1111-4111-8111-111111111111';
+const DUPLICATE_ID = '22222222-2222-4222-8222-222222222222';
+const OTHER_ID = '33333333-3333-4333-8333-333333333333';
+
+describe('Customer Merges API', () => {
+  const params = { params: Promise.resolve({ id: SURVIVOR_ID }) };
+
+  const merge = (body: unknown, role = 'admin') =>
+    POST(new NextRequest(`http://localhost/api/customers/${SURVIVOR_ID}/merges`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-user-id': 'user-1',
+        'x-user-name': 'Alice Admin',
+        'x-member-role': role,
+      },
+      body: JSON.stringify(body),
+    }), params);
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/customers/[id]/merges', () => {
+    it('should list the merges into the customer', async () => {
+      mockListCustomerMerges.mockResolvedValue([{ id: 'merge-1', survivorId: SURVIVOR_ID, mergedCustomers: [] }]);
+
+      const response = await GET(new NextRequest(`http://localhost/api/customers/${SURVIVOR_ID}/merges`), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.merges).toHaveLength(1);
+      expect(mockListCustomerMerges).toHaveBeenCalledWith(expect.anything(), SURVIVOR_ID);
+    });
+  });
+
+  describe('POST /api/customers/[id]/merges', () => {
+    it('should merge the duplicates with the picked values', async () => {
+      mockMergeCustomers.mockResolvedValue({
+        status: 'merged',
+        merge: { id: 'merge-1', survivorId: SURVIVOR_ID, mergedCustomers: [{ id: DUPLICATE_ID }] },
+        customer: { id: SURVIVOR_ID, email: 'ap@acme.com' },
+      });
+
+      const response = await merge({
+        duplicateIds: [DUPLICATE_ID, DUPLICATE_ID],
+        selection: { email: DUPLICATE_ID },
+      });
+      const json = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(json.data.merge.id).toBe('merge-1');
+      expect(mockMergeCustomers).toHaveBeenCalledWith(expect.anything(), {
+        survivorId: SURVIVOR_ID,
+        duplicateIds: [DUPLICATE_ID],
+        selection: { email: DUPLICATE_ID },
+      });
+    });
+
+    it('should not let sales members merge customers', async () => {
+      const response = await merge({ duplicateIds: [DUPLICATE_ID] }, 'sales');
+
+      expect(response.status).toBe(403);
+      expect(mockMergeCustomers).not.toHaveBeenCalled();
+    });
+
+    it('should require at least one duplicate', async () => {
+      const response = await merge({ duplicateIds: [] });
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(json.error.details.duplicateIds).toBeDefined();
+    });
+
+    it('should not merge a customer into itself', async () => {
+      const response = await merge({ duplicateIds: [SURVIVOR_ID] });
+
+      expect(response.status).toBe(400);
+      expect(mockMergeCustomers).not.toHaveBeenCalled();
+    });
+
+    it('should only keep values from the customers being merged', async () => {
+      const response = await merge({ duplicateIds: [DUPLICATE_ID], selection: { phone: OTHER_ID } });
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.message).toMatch(/customers being merged/);
+      expect(mockMergeCustomers).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when a customer is not in the shop', async () => {
+      mockMergeCustomers.mockResolvedValue({ status: 'not_found' });
+
+      const response = await merge({ duplicateIds: [DUPLICATE_ID] });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
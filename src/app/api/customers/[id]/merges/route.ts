@@ -0,0 +1,158 @@
+/**
+ * Customer Merges API Routes
+ * GET /api/customers/[id]/merges - Merges into this customer, newest first
+ * POST /api/customers/[id]/merges - Merge duplicates into this customer
+ * (owners and admins, as merging deletes the duplicates)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  listCustomerMerges,
+  MAX_CUSTOMER_DUPLICATES,
+  mergeCustomers,
+} from '@/lib/customerMerge';
+import { requirePermission } from '@/lib/members';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, Customer, CustomerMerge } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const customerIdSchema = z.string().uuid('Invalid customer ID');
+
+const mergeSchema = z.object({
+  duplicateIds: z.array(customerIdSchema)
+    .min(1, 'Select at least one duplicate')
+    .max(MAX_CUSTOMER_DUPLICATES, `Merge at most ${MAX_CUSTOMER_DUPLICATES} customers at once`)
+    .transform((ids) => [...new Set(ids)]),
+  // Which customer each field's value is kept from
+  selection: z.object({
+    email: customerIdSchema.optional(),
+    companyName: customerIdSchema.optional(),
+    contactName: customerIdSchema.optional(),
+    phone: customerIdSchema.optional(),
+    billingAddress: customerIdSchema.optional(),
+    shippingAddress: customerIdSchema.optional(),
+    taxId: customerIdSchema.optional(),
+    logoUrl: customerIdSchema.optional(),
+  }).default({}),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - List Merges
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Customer ID is required');
+    }
+
+    const merges = await listCustomerMerges(createRequestClient(request), id);
+
+    return NextResponse.json<ApiResponse<{ merges: CustomerMerge[] }>>({
+      success: true,
+      data: { merges },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/customers/[id]/merges:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// POST Handler - Merge Duplicates
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'customers:delete');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Customer ID is required');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, 'INVALID_BODY', 'Invalid JSON in request body');
+    }
+
+    const validationResult = mergeSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid merge',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const { duplicateIds, selection } = validationResult.data;
+
+    if (duplicateIds.includes(id)) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'A customer cannot be merged into itself');
+    }
+
+    const allowedSources = new Set([id, ...duplicateIds]);
+    if (Object.values(selection).some((sourceId) => sourceId && !allowedSources.has(sourceId))) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Field values must come from the customers being merged');
+    }
+
+    const result = await mergeCustomers(createRequestClient(request), {
+      survivorId: id,
+      duplicateIds,
+      selection,
+    });
+
+    if (result.status === 'not_found') {
+      return errorResponse(404, 'NOT_FOUND', 'Customer not found');
+    }
+    if (result.status === 'forbidden') {
+      return errorResponse(403, 'FORBIDDEN', 'Only owners and admins can merge customers');
+    }
+
+    return NextResponse.json<ApiResponse<{ merge: CustomerMerge; customer: Customer }>>({
+      success: true,
+      data: { merge: result.merge, customer: result.customer },
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/customers/[id]/merges:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
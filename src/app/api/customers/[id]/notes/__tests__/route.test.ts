@@ -0,0 +1,98 @@
+/**
+ * API Integration Tests - Customer Notes Route
+ * Tests for POST /api/customers/[id]/notes
+ * @module src/app/api/customers/[id]/notes/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/customers/[id]/notes/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Customer Notes API', () => {
+  const createRequest = (body: unknown, role = 'sales') =>
+    new NextRequest('http://localhost/api/customers/cust-1/notes', {
+      method: 'POST',
+      headers: { 'x-user-id': 'user-1', 'x-user-name': 'Sam Sales', 'x-member-role': role },
+      body: JSON.stringify(body),
+    });
+
+  const addNote = (body: unknown, role?: string) =>
+    POST(createRequest(body, role), { params: Promise.resolve({ id: 'cust-1' }) });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  it('should add the note to the activity feed', async () => {
+    queueResult('customers', { data: { id: 'cust-1', company_name: 'Acme Corp' }, error: null });
+    queueResult('activities', {
+      data: {
+        id: 'act-1',
+        type: 'note_added',
+        customer_id: 'cust-1',
+        customer_name: 'Acme Corp',
+        user_id: 'user-1',
+        user_name: 'Sam Sales',
+        description: 'Wants net 60 terms',
+        metadata: {},
+        created_at: '2024-02-01T10:00:00Z',
+      },
+      error: null,
+    });
+
+    const response = await addNote({ content: '  Wants net 60 terms ' });
+    const json = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(mockBuilders.activities[0].insert).toHaveBeenCalledWith({
+      type: 'note_added',
+      customer_id: 'cust-1',
+      customer_name: 'Acme Corp',
+      user_id: 'user-1',
+      user_name: 'Sam Sales',
+      description: 'Wants net 60 terms',
+    });
+    expect(json.data).toEqual(expect.objectContaining({
+      id: 'act-1',
+      customerId: 'cust-1',
+      type: 'note_added',
+      description: 'Wants net 60 terms',
+      createdBy: 'Sam Sales',
+    }));
+  });
+
+  it('should reject empty notes', async () => {
+    const response = await addNote({ content: '   ' });
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error.code).toBe('VALIDATION_ERROR');
+    expect(json.error.details).toEqual({ content: ['Note cannot be empty'] });
+    expect(mockBuilders.activities).toBeUndefined();
+  });
+
+  it('should return 404 when customer not found', async () => {
+    queueResult('customers', { data: null, error: null });
+
+    const response = await addNote({ content: 'Hello' });
+
+    expect(response.status).toBe(404);
+    expect(mockBuilders.activities).toBeUndefined();
+  });
+
+  it('should not let viewers add notes', async () => {
+    const response = await addNote({ content: 'Hello' }, 'viewer');
+
+    expect(response.status).toBe(403);
+    expect(mockBuilders.customers).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Customer Notes API Route
+ * POST /api/customers/[id]/notes - Add a note to the customer's activity feed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { mapCustomerActivityRow } from '@/lib/customers';
+import { requirePermission } from '@/lib/members';
+import { getRequestActor } from '@/lib/permissions';
+import type { ActivityRow } from '@/lib/quotes';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { ActivityType } from '@/types/quote';
+import type { ApiResponse, CustomerActivity } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const noteSchema = z.object({
+  content: z.string().trim().min(1, 'Note cannot be empty').max(5000, 'Note is too long'),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Add Note
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'customers:write');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Customer ID is required');
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = noteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid note',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('id, company_name')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (customerError) {
+      console.error('Error fetching customer:', customerError);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch customer');
+    }
+
+    if (!customer) {
+      return errorResponse(404, 'NOT_FOUND', 'Customer not found');
+    }
+
+    const actor = getRequestActor(request);
+
+    // shop_id is stamped from the customer by its trigger
+    const { data: activity, error } = await supabase.from('activities')
+      .insert({
+        type: ActivityType.NOTE_ADDED,
+        customer_id: id,
+        customer_name: (customer as { company_name: string }).company_name,
+        user_id: actor.id,
+        user_name: actor.name,
+        description: validationResult.data.content,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding customer note:', error);
+      return errorResponse(500, 'CREATE_ERROR', 'Failed to add note');
+    }
+
+    return NextResponse.json<ApiResponse<CustomerActivity>>({
+      success: true,
+      data: mapCustomerActivityRow(activity as ActivityRow),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/customers/[id]/notes:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * API Integration Tests - Customer Quotes Route
+ * Tests for GET /api/customers/[id]/quotes
+ * @module src/app/api/customers/[id]/quotes/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { GET } from '@/app/api/customers/[id]/quotes/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Customer Quotes API', () => {
+  const params = { params: Promise.resolve({ id: 'cust-1' }) };
+
+  const quoteRow = {
+    id: 'quote-1',
+    quote_number: 'QT-001',
+    title: 'Widgets',
+    status: 'sent',
+    total: '250.00',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-02T00:00:00Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  it('should list the customer\'s quotes', async () => {
+    queueResult('customers', { data: { id: 'cust-1', company_name: 'Acme Corp', contact_name: 'John Doe' }, error: null });
+    queueResult('quotes', { data: [quoteRow], error: null, count: 1 });
+
+    const response = await GET(new Request('http://localhost/api/customers/cust-1/quotes'), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data.customer).toEqual({ id: 'cust-1', companyName: 'Acme Corp', contactName: 'John Doe' });
+    expect(json.data.quotes).toEqual([{
+      id: 'quote-1',
+      quoteNumber: 'QT-001',
+      title: 'Widgets',
+      status: 'sent',
+      total: 250,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-02T00:00:00Z',
+    }]);
+    expect(json.data.pagination).toEqual({ page: 1, limit: 10, total: 1, totalPages: 1 });
+    expect(mockBuilders.quotes[0].eq).toHaveBeenCalledWith('customer_id', 'cust-1');
+    expect(mockBuilders.quotes[0].order).toHaveBeenCalledWith('created_at', { ascending: false });
+  });
+
+  it('should filter and sort on the quotes columns', async () => {
+    queueResult('customers', { data: { id: 'cust-1', company_name: 'Acme Corp', contact_name: 'John Doe' }, error: null });
+    queueResult('quotes', { data: [], error: null, count: 0 });
+
+    const response = await GET(
+      new Request('http://localhost/api/customers/cust-1/quotes?dateFrom=2024-01-01&dateTo=2024-02-01&sortBy=updatedAt&sortOrder=asc'),
+      params
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockBuilders.quotes[0].gte).toHaveBeenCalledWith('created_at', '2024-01-01');
+    expect(mockBuilders.quotes[0].lte).toHaveBeenCalledWith('created_at', '2024-02-01');
+    expect(mockBuilders.quotes[0].order).toHaveBeenCalledWith('updated_at', { ascending: true });
+  });
+
+  it('should return 404 when the customer does not exist', async () => {
+    queueResult('customers', { data: null, error: { code: 'PGRST116', message: 'not found' } });
+
+    const response = await GET(new Request('http://localhost/api/customers/cust-1/quotes'), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(json.error.code).toBe('NOT_FOUND');
+    expect(mockBuilders.quotes).toBeUndefined();
+  });
+});
@@ -4,25 +4,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import type { ApiResponse, Quote, QuoteStatus } from '@/types/quote';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, SupabaseCustomer, SupabaseQuote } from '@/types/quote';
 
-// Initialize Supabase client lazily to avoid build-time errors
-let supabase: ReturnType<typeof createClient> | null = null;
-
-function getSupabaseClient() {
-  if (!supabase) {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
-    
-    if (!supabaseUrl || !supabaseKey) {
-      throw new Error('Supabase environment variables are not configured');
-    }
-    
-    supabase = createClient(supabaseUrl, supabaseKey);
-  }
-  return supabase;
-}
+// Sortable quotes columns, by the sortBy parameter
+const SORT_COLUMNS: Record<string, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  total: 'total',
+  status: 'status',
+  title: 'title',
+};
 
 // ============================================================================
 // GET Handler - Get Customer Quotes
@@ -33,6 +25,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const supabase = createRequestClient(request);
     const { id } = await params;
     
     if (!id) {
@@ -64,9 +57,9 @@ export async function GET(
     const sortOrder = (searchParams.get('sortOrder') || 'desc') as 'asc' | 'desc';
     
     // Check if customer exists
-    const { data: customerData, error: customerError } = await getSupabaseClient()
+    const { data: customerData, error: customerError } = await supabase
       .from('customers')
-      .select('id, companyName, contactName')
+      .select('id, company_name, contact_name')
       .eq('id', id)
       .single();
     
@@ -80,13 +73,13 @@ export async function GET(
       }, { status: 404 });
     }
     
-    const customer = customerData as { id: string; companyName: string; contactName: string };
+    const customer = customerData as Pick<SupabaseCustomer, 'id' | 'company_name' | 'contact_name'>;
     
     // Build query
-    let query = getSupabaseClient()
+    let query = supabase
       .from('quotes')
-      .select('*', { count: 'exact' })
-      .eq('customerId', id);
+      .select('id, quote_number, title, status, total, created_at, updated_at', { count: 'exact' })
+      .eq('customer_id', id);
     
     // Apply filters
     if (status?.length) {
@@ -94,11 +87,11 @@ export async function GET(
     }
     
     if (dateFrom) {
-      query = query.gte('createdAt', dateFrom);
+      query = query.gte('created_at', dateFrom);
     }
     
     if (dateTo) {
-      query = query.lte('createdAt', dateTo);
+      query = query.lte('created_at', dateTo);
     }
     
     if (minValue) {
@@ -110,15 +103,7 @@ export async function GET(
     }
     
     // Apply sorting
-    const sortColumnMap: Record<string, string> = {
-      createdAt: 'createdAt',
-      updatedAt: 'updatedAt',
-      total: 'total',
-      status: 'status',
-      title: 'title',
-    };
-    
-    const sortColumn = sortColumnMap[sortBy] || 'createdAt';
+    const sortColumn = SORT_COLUMNS[sortBy] || 'created_at';
     query = query.order(sortColumn, { ascending: sortOrder === 'asc' });
     
     // Apply pagination
@@ -139,22 +124,16 @@ export async function GET(
     }
     
     // Format quotes for response
-    const formattedQuotes = ((quotes || []) as Array<{
-      id: string;
-      quoteNumber: string;
-      title: string;
-      status: string;
-      total: number;
-      createdAt: string;
-      updatedAt: string;
-    }>).map((quote) => ({
+    const formattedQuotes = ((quotes || []) as Array<
+      Pick<SupabaseQuote, 'id' | 'quote_number' | 'title' | 'status' | 'total' | 'created_at' | 'updated_at'>
+    >).map((quote) => ({
       id: quote.id,
-      quoteNumber: quote.quoteNumber,
+      quoteNumber: quote.quote_number,
       title: quote.title,
       status: quote.status,
-      total: quote.total,
-      createdAt: quote.createdAt,
-      updatedAt: quote.updatedAt,
+      total: Number(quote.total),
+      createdAt: quote.created_at,
+      updatedAt: quote.updated_at,
     }));
     
     const totalPages = Math.ceil((count || 0) / limit);
@@ -177,8 +156,8 @@ export async function GET(
       data: {
         customer: {
           id: customer.id,
-          companyName: customer.companyName,
-          contactName: customer.contactName,
+          companyName: customer.company_name,
+          contactName: customer.contact_name,
         },
         quotes: formattedQuotes,
         pagination: {
@@ -2,31 +2,20 @@
  * Customer Detail API Routes
  * GET /api/customers/[id] - Get customer details
  * PATCH /api/customers/[id] - Update customer
- * DELETE /api/customers/[id] - Delete customer
+ * DELETE /api/customers/[id] - Delete customer (owners and admins)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
-import type { ApiResponse, Customer, CustomerWithStats, CustomerStats, CustomerActivity } from '@/types/quote';
-import { CustomerStatus } from '@/types/quote';
-
-// Initialize Supabase client lazily to avoid build-time errors
-let supabase: ReturnType<typeof createClient> | null = null;
-
-function getSupabaseClient() {
-  if (!supabase) {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
-    
-    if (!supabaseUrl || !supabaseKey) {
-      throw new Error('Supabase environment variables are not configured');
-    }
-    
-    supabase = createClient(supabaseUrl, supabaseKey);
-  }
-  return supabase;
-}
+import type { ApiResponse, Customer, CustomerWithStats, SupabaseCustomer } from '@/types/quote';
+import { ActivityType, CustomerStatus } from '@/types/quote';
+import { EMPTY_CUSTOMER_STATS, getCustomerStats, mapCustomerActivityRow, toCustomerColumns } from '@/lib/customers';
+import { requirePermission } from '@/lib/members';
+import { getRequestActor } from '@/lib/permissions';
+import { mapCustomerRow, type ActivityRow } from '@/lib/quotes';
+import { pushCustomerToShopify } from '@/lib/shopifyCustomers';
+import { getShopAccessToken } from '@/lib/shops';
+import { createRequestClient } from '@/lib/supabaseServer';
 
 // ============================================================================
 // Validation Schema
@@ -55,7 +44,7 @@ const updateCustomerSchema = z.object({
   tags: z.array(z.string()).optional(),
   notes: z.string().optional().or(z.literal('')),
   logoUrl: z.string().url().optional().or(z.literal('')),
-  status: z.enum(['active', 'inactive', 'archived']).optional(),
+  status: z.enum(CustomerStatus).optional(),
 });
 
 // ============================================================================
@@ -67,6 +56,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const supabase = createRequestClient(request);
     const { id } = await params;
     
     if (!id) {
@@ -80,7 +70,7 @@ export async function GET(
     }
     
     // Fetch customer
-    const { data: customer, error } = await getSupabaseClient()
+    const { data: customer, error } = await supabase
       .from('customers')
       .select('*')
       .eq('id', id)
@@ -107,63 +97,23 @@ export async function GET(
       }, { status: 500 });
     }
     
-    // Fetch customer quotes for stats
-    const { data: quotesData } = await getSupabaseClient()
-      .from('quotes')
-      .select('id, status, total, createdAt')
-      .eq('customerId', id)
-      .order('createdAt', { ascending: false });
-    
-    // Type assertion for quotes
-    const quotes = (quotesData || []) as Array<{ id: string; status: string; total: number; createdAt: string }>;
-    
-    // Calculate stats
-    const acceptedQuotes = quotes.filter(q => q.status === 'accepted');
-    const declinedQuotes = quotes.filter(q => q.status === 'declined');
-    const pendingQuotes = quotes.filter(q => ['draft', 'pending', 'sent'].includes(q.status));
-    
-    const totalRevenue = acceptedQuotes.reduce((sum, q) => sum + (q.total || 0), 0);
-    const avgQuoteValue = quotes.length > 0 
-      ? quotes.reduce((sum, q) => sum + (q.total || 0), 0) / quotes.length 
-      : 0;
-    
-    const conversionRate = quotes.length > 0
-      ? (acceptedQuotes.length / quotes.length) * 100
-      : 0;
-    
-    const stats: CustomerStats = {
-      totalQuotes: quotes?.length || 0,
-      totalRevenue,
-      avgQuoteValue,
-      acceptedQuotes: acceptedQuotes.length,
-      declinedQuotes: declinedQuotes.length,
-      pendingQuotes: pendingQuotes.length,
-      conversionRate,
-      lastQuoteDate: quotes[0] ? new Date(quotes[0].createdAt) : undefined,
-      firstQuoteDate: quotes[quotes.length - 1] ? new Date(quotes[quotes.length - 1].createdAt) : undefined,
-    };
+    const stats = (await getCustomerStats(supabase, [id])).get(id) ?? EMPTY_CUSTOMER_STATS;
     
     // Fetch recent activity
-    const { data: activities } = await getSupabaseClient()
-      .from('customerActivity')
+    const { data: activities } = await supabase
+      .from('activities')
       .select('*')
-      .eq('customerId', id)
-      .order('createdAt', { ascending: false })
+      .eq('customer_id', id)
+      .order('created_at', { ascending: false })
       .limit(20);
     
-    const recentActivity: CustomerActivity[] = (activities || []).map((activity: any) => ({
-      ...activity,
-      createdAt: new Date(activity.createdAt),
-    }));
+    const recentActivity = ((activities || []) as ActivityRow[]).map(mapCustomerActivityRow);
     
     const customerWithStats: CustomerWithStats = {
-      ...(customer as any),
-      customerSince: new Date((customer as any).customerSince || (customer as any).createdAt),
-      createdAt: new Date((customer as any).createdAt),
-      updatedAt: new Date((customer as any).updatedAt),
+      ...mapCustomerRow(customer as SupabaseCustomer),
       stats,
       recentActivity,
-      quotesCount: quotes?.length || 0,
+      quotesCount: stats.totalQuotes,
     };
     
     return NextResponse.json<ApiResponse<{ customer: CustomerWithStats }>>({
@@ -192,6 +142,7 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const supabase = createRequestClient(request);
     const { id } = await params;
     
     if (!id) {
@@ -230,7 +181,7 @@ export async function PATCH(
     const data = validationResult.data;
     
     // Check if customer exists
-    const { data: existingCustomer, error: fetchError } = await getSupabaseClient()
+    const { data: existingCustomer, error: fetchError } = await supabase
       .from('customers')
       .select('id')
       .eq('id', id)
@@ -248,7 +199,7 @@ export async function PATCH(
     
     // Check for duplicate email if updating email
     if (data.email) {
-      const { data: duplicateCustomer } = await getSupabaseClient()
+      const { data: duplicateCustomer } = await supabase
         .from('customers')
         .select('id')
         .eq('email', data.email)
@@ -266,20 +217,13 @@ export async function PATCH(
       }
     }
     
-    // Update customer
-    const updateData: any = {
-      ...data,
-      updatedAt: new Date().toISOString(),
-    };
-    
-    // Remove null values for optional fields
-    Object.keys(updateData).forEach((key) => {
-      if (updateData[key] === null) delete updateData[key];
-    });
-    
-    const { data: updatedCustomer, error } = await (getSupabaseClient()
-      .from('customers') as any)
-      .update(updateData as any)
+    // Update customer; null addresses leave the current ones
+    const { data: updatedRow, error } = await supabase
+      .from('customers')
+      .update({
+        ...toCustomerColumns(data),
+        updated_at: new Date().toISOString(),
+      })
       .eq('id', id)
       .select()
       .single();
@@ -295,23 +239,35 @@ export async function PATCH(
       }, { status: 500 });
     }
     
+    const updatedCustomer = updatedRow as SupabaseCustomer;
+    
     // Log activity
-    await (getSupabaseClient().from('customerActivity') as any).insert({
-      customerId: id,
-      type: 'customer_updated',
+    const actor = getRequestActor(request);
+    await supabase.from('activities').insert({
+      type: ActivityType.CUSTOMER_UPDATED,
+      customer_id: id,
+      customer_name: updatedCustomer.company_name,
+      user_id: actor.id,
+      user_name: actor.name,
       description: 'Customer information updated',
       metadata: { updatedFields: Object.keys(data) },
-      createdAt: new Date().toISOString(),
     });
     
+    // Customers linked to Shopify carry the edit back; a failed push keeps the local change
+    if (updatedCustomer.shopify_customer_id) {
+      try {
+        const accessToken = await getShopAccessToken(updatedCustomer.shop_id);
+        if (accessToken) {
+          await pushCustomerToShopify(updatedCustomer.shop_id, accessToken, updatedCustomer);
+        }
+      } catch (pushError) {
+        console.error('Error pushing customer to Shopify:', pushError);
+      }
+    }
+    
     return NextResponse.json<ApiResponse<Customer>>({
       success: true,
-      data: {
-        ...updatedCustomer,
-        customerSince: new Date(updatedCustomer.customerSince),
-        createdAt: new Date(updatedCustomer.createdAt),
-        updatedAt: new Date(updatedCustomer.updatedAt),
-      },
+      data: mapCustomerRow(updatedCustomer),
     });
     
   } catch (error) {
@@ -334,7 +290,13 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = requirePermission(request, 'customers:delete');
+  if (denied) {
+    return denied;
+  }
+
   try {
+    const supabase = createRequestClient(request);
     const { id } = await params;
     
     if (!id) {
@@ -348,7 +310,7 @@ export async function DELETE(
     }
     
     // Check if customer exists
-    const { data: existingCustomer, error: fetchError } = await getSupabaseClient()
+    const { data: existingCustomer, error: fetchError } = await supabase
       .from('customers')
       .select('id')
       .eq('id', id)
@@ -365,10 +327,10 @@ export async function DELETE(
     }
     
     // Check if customer has quotes
-    const { data: quotes, error: quotesError } = await getSupabaseClient()
+    const { data: quotes, error: quotesError } = await supabase
       .from('quotes')
       .select('id')
-      .eq('customerId', id)
+      .eq('customer_id', id)
       .limit(1);
     
     if (quotesError) {
@@ -384,11 +346,11 @@ export async function DELETE(
     
     if (quotes && quotes.length > 0) {
       // Soft delete - archive the customer instead
-      const { error: archiveError } = await (getSupabaseClient()
-        .from('customers') as any)
+      const { error: archiveError } = await supabase
+        .from('customers')
         .update({ 
           status: CustomerStatus.ARCHIVED,
-          updatedAt: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
         })
         .eq('id', id);
       
@@ -410,7 +372,7 @@ export async function DELETE(
     }
     
     // Hard delete - no quotes exist
-    const { error: deleteError } = await getSupabaseClient()
+    const { error: deleteError } = await supabase
       .from('customers')
       .delete()
       .eq('id', id);
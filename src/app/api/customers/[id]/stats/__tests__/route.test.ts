@@ -0,0 +1,94 @@
+/**
+ * API Integration Tests - Customer Stats Route
+ * Tests for GET /api/customers/[id]/stats
+ * @module src/app/api/customers/[id]/stats/__tests__/route.test
+ */
+
+const mockRpc = jest.fn();
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: jest.fn(() => ({
+    rpc: mockRpc,
+  })),
+}));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/customers/[id]/stats/route';
+
+describe('Customer Stats API', () => {
+  const statsRow = {
+    customer_id: 'cust-1',
+    currency: 'USD',
+    total_quotes: 3,
+    accepted_quotes: 2,
+    declined_quotes: 0,
+    pending_quotes: 1,
+    total_revenue: '2500.00',
+    avg_quote_value: '1000.00',
+    first_quote_at: '2024-01-01T00:00:00Z',
+    last_quote_at: '2024-03-01T00:00:00Z',
+  };
+
+  const getStats = (id: string) =>
+    GET(new NextRequest(`http://localhost/api/customers/${id}/stats`), { params: Promise.resolve({ id }) });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the stats worked out in the database', async () => {
+    mockRpc.mockResolvedValue({ data: [statsRow], error: null });
+
+    const response = await getStats('cust-1');
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockRpc).toHaveBeenCalledWith('customer_stats', { p_customer_ids: ['cust-1'] });
+    const { firstQuoteDate, lastQuoteDate, ...counts } = json.data.stats;
+    expect(counts).toEqual({
+      currency: 'USD',
+      totalQuotes: 3,
+      totalRevenue: 2500,
+      avgQuoteValue: 1000,
+      acceptedQuotes: 2,
+      declinedQuotes: 0,
+      pendingQuotes: 1,
+      conversionRate: 66.7,
+    });
+    expect(new Date(firstQuoteDate).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(new Date(lastQuoteDate).toISOString()).toBe('2024-03-01T00:00:00.000Z');
+  });
+
+  it('should return 404 for customers the member cannot see', async () => {
+    mockRpc.mockResolvedValue({ data: [], error: null });
+
+    const response = await getStats('cust-other-shop');
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.code).toBe('NOT_FOUND');
+  });
+
+  it('should require a customer ID', async () => {
+    const response = await getStats('');
+
+    expect(response.status).toBe(400);
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('should report database failures', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'connection reset' } });
+    const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+    const response = await getStats('cust-1');
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error.code).toBe('INTERNAL_ERROR');
+    mockConsoleError.mockRestore();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Customer Stats API Route
+ * GET /api/customers/[id]/stats - Quote counts and revenue for a customer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCustomerStats } from '@/lib/customers';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, CustomerStats } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - Get Customer Stats
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Customer ID is required');
+    }
+
+    const stats = (await getCustomerStats(createRequestClient(request), [id])).get(id);
+
+    if (!stats) {
+      return errorResponse(404, 'NOT_FOUND', 'Customer not found');
+    }
+
+    return NextResponse.json<ApiResponse<{ stats: CustomerStats }>>({
+      success: true,
+      data: { stats },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/customers/[id]/stats:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
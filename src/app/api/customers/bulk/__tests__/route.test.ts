@@ -0,0 +1,128 @@
+/**
+ * API Integration Tests - Bulk Customer Routes
+ * Tests for PATCH/DELETE /api/customers/bulk
+ * @module src/app/api/customers/bulk/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { DELETE, PATCH } from '@/app/api/customers/bulk/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Bulk Customers API', () => {
+  const createRequest = (method: string, body: unknown, role = 'admin') =>
+    new NextRequest('http://localhost/api/customers/bulk', {
+      method,
+      headers: { 'x-user-id': 'user-1', 'x-user-name': 'Alice Admin', 'x-member-role': role },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('PATCH /api/customers/bulk', () => {
+    it('should update the selected customers and log it', async () => {
+      queueResult('customers', {
+        data: [{ id: 'cust-1', company_name: 'Acme Corp' }, { id: 'cust-2', company_name: 'Tech Inc' }],
+        error: null,
+      });
+
+      const response = await PATCH(createRequest('PATCH', {
+        ids: ['cust-1', 'cust-2'],
+        data: { status: 'inactive', tags: ['wholesale'] },
+      }, 'sales'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data).toEqual({ updated: 2 });
+      const [update] = mockBuilders.customers;
+      expect(update.update).toHaveBeenCalledWith({ status: 'inactive', tags: ['wholesale'] });
+      expect(update.in).toHaveBeenCalledWith('id', ['cust-1', 'cust-2']);
+      expect(mockBuilders.activities[0].insert).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'customer_updated', customer_id: 'cust-1', user_name: 'Alice Admin' }),
+        expect.objectContaining({ type: 'customer_updated', customer_id: 'cust-2', customer_name: 'Tech Inc' }),
+      ]);
+    });
+
+    it('should only change fields that can be shared between customers', async () => {
+      const response = await PATCH(createRequest('PATCH', {
+        ids: ['cust-1', 'cust-2'],
+        data: { email: 'same@example.com' },
+      }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(json.error.details).toEqual({
+        data: ['Only status and tags can be changed for several customers at once'],
+      });
+      expect(mockBuilders.customers).toBeUndefined();
+    });
+
+    it('should need customers and something to change', async () => {
+      const response = await PATCH(createRequest('PATCH', { ids: [], data: {} }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.details).toEqual({
+        ids: ['Select at least one customer'],
+        data: ['Nothing to update'],
+      });
+    });
+
+    it('should not let viewers update customers', async () => {
+      const response = await PATCH(createRequest('PATCH', { ids: ['cust-1'], data: { status: 'active' } }, 'viewer'));
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.customers).toBeUndefined();
+    });
+  });
+
+  describe('DELETE /api/customers/bulk', () => {
+    it('should archive customers with quotes and delete the rest', async () => {
+      queueResult('quotes', { data: [{ customer_id: 'cust-1' }, { customer_id: 'cust-1' }], error: null });
+      queueResult('customers', { data: [{ id: 'cust-1' }], error: null });
+      queueResult('customers', { data: [{ id: 'cust-2' }, { id: 'cust-3' }], error: null });
+
+      const response = await DELETE(createRequest('DELETE', { ids: ['cust-1', 'cust-2', 'cust-3', 'cust-2'] }));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data).toEqual({ deleted: 2, archived: 1 });
+      expect(mockBuilders.quotes[0].in).toHaveBeenCalledWith('customer_id', ['cust-1', 'cust-2', 'cust-3']);
+      const [archive, removal] = mockBuilders.customers;
+      expect(archive.update).toHaveBeenCalledWith({ status: 'archived' });
+      expect(archive.in).toHaveBeenCalledWith('id', ['cust-1']);
+      expect(removal.delete).toHaveBeenCalled();
+      expect(removal.in).toHaveBeenCalledWith('id', ['cust-2', 'cust-3']);
+    });
+
+    it('should only let owners and admins delete customers', async () => {
+      const response = await DELETE(createRequest('DELETE', { ids: ['cust-1'] }, 'sales'));
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.quotes).toBeUndefined();
+    });
+
+    it('should report database failures', async () => {
+      queueResult('quotes', { data: [], error: null });
+      queueResult('customers', { data: null, error: { message: 'connection reset' } });
+      const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await DELETE(createRequest('DELETE', { ids: ['cust-1'] }));
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.code).toBe('DELETE_ERROR');
+      mockConsoleError.mockRestore();
+    });
+  });
+});
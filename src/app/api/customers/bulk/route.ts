@@ -0,0 +1,220 @@
+/**
+ * Bulk Customer API Routes
+ * PATCH /api/customers/bulk - Set the status or tags of several customers
+ * DELETE /api/customers/bulk - Delete several customers (owners and admins)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/members';
+import { getRequestActor } from '@/lib/permissions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { ActivityType, CustomerStatus } from '@/types/quote';
+import type { ApiResponse } from '@/types/quote';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const idsSchema = z.array(z.string().min(1))
+  .min(1, 'Select at least one customer')
+  .max(500, 'Select at most 500 customers');
+
+// Fields that are unique to each customer (email, names, addresses) are
+// edited one customer at a time
+const bulkUpdateSchema = z.object({
+  ids: idsSchema,
+  data: z.strictObject({
+    status: z.enum(['active', 'inactive', 'archived']).optional(),
+    tags: z.array(z.string().trim().min(1)).optional(),
+  }, { error: 'Only status and tags can be changed for several customers at once' }).refine(
+    (data) => data.status !== undefined || data.tags !== undefined,
+    { message: 'Nothing to update' }
+  ),
+});
+
+const bulkDeleteSchema = z.object({
+  ids: idsSchema,
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// PATCH Handler - Bulk Update
+// ============================================================================
+
+export async function PATCH(request: NextRequest) {
+  const denied = requirePermission(request, 'customers:write');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = bulkUpdateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid customer update',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const { ids, data } = validationResult.data;
+
+    const { data: updated, error } = await supabase.from('customers')
+      .update(data)
+      .in('id', ids)
+      .select('id, company_name');
+
+    if (error) {
+      console.error('Error updating customers:', error);
+      return errorResponse(500, 'UPDATE_ERROR', 'Failed to update customers');
+    }
+
+    const updatedCustomers = (updated || []) as Array<{ id: string; company_name: string }>;
+    const actor = getRequestActor(request);
+
+    // Log activity; the update has already gone through, so a failure here
+    // does not fail the request
+    if (updatedCustomers.length > 0) {
+      const { error: activityError } = await supabase.from('activities').insert(
+        updatedCustomers.map((customer) => ({
+          type: ActivityType.CUSTOMER_UPDATED,
+          customer_id: customer.id,
+          customer_name: customer.company_name,
+          user_id: actor.id,
+          user_name: actor.name,
+          description: 'Customer information updated',
+          metadata: { updatedFields: Object.keys(data), bulk: true },
+        }))
+      );
+
+      if (activityError) {
+        console.error('Error logging customer activity:', activityError);
+      }
+    }
+
+    return NextResponse.json<ApiResponse<{ updated: number }>>({
+      success: true,
+      data: { updated: updatedCustomers.length },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/customers/bulk:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// DELETE Handler - Bulk Delete
+// ============================================================================
+
+export async function DELETE(request: NextRequest) {
+  const denied = requirePermission(request, 'customers:delete');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = bulkDeleteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid customer selection',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const ids = [...new Set(validationResult.data.ids)];
+
+    // Customers with quotes are archived instead, as a single delete does
+    const { data: quotes, error: quotesError } = await supabase
+      .from('quotes')
+      .select('customer_id')
+      .in('customer_id', ids);
+
+    if (quotesError) {
+      console.error('Error checking customer quotes:', quotesError);
+      return errorResponse(500, 'CHECK_ERROR', 'Failed to check customer quotes');
+    }
+
+    const withQuotes = new Set(
+      ((quotes || []) as Array<{ customer_id: string }>).map((quote) => quote.customer_id)
+    );
+    const toArchive = ids.filter((id) => withQuotes.has(id));
+    const toDelete = ids.filter((id) => !withQuotes.has(id));
+
+    let archived = 0;
+    if (toArchive.length > 0) {
+      const { data, error: archiveError } = await supabase.from('customers')
+        .update({ status: CustomerStatus.ARCHIVED })
+        .in('id', toArchive)
+        .select('id');
+
+      if (archiveError) {
+        console.error('Error archiving customers:', archiveError);
+        return errorResponse(500, 'ARCHIVE_ERROR', 'Failed to archive customers');
+      }
+      archived = (data || []).length;
+    }
+
+    let deleted = 0;
+    if (toDelete.length > 0) {
+      const { data, error: deleteError } = await supabase
+        .from('customers')
+        .delete()
+        .in('id', toDelete)
+        .select('id');
+
+      if (deleteError) {
+        console.error('Error deleting customers:', deleteError);
+        return errorResponse(500, 'DELETE_ERROR', 'Failed to delete customers');
+      }
+      deleted = (data || []).length;
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: number; archived: number }>>({
+      success: true,
+      data: { deleted, archived },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/customers/bulk:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
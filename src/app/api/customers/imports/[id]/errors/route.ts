@@ -0,0 +1,63 @@
+/**
+ * Customer Import Errors API Route
+ * GET /api/customers/imports/[id]/errors - Download the rows that failed as CSV, to fix and upload again
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildCustomerImportErrorReport, type CustomerImportRow } from '@/lib/customerImport';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - Download Error Report
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Import ID is required');
+    }
+
+    const { data, error } = await supabase
+      .from('customer_imports')
+      .select('file_name, headers, rows, errors')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching customer import:', error);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch import');
+    }
+
+    if (!data) {
+      return errorResponse(404, 'NOT_FOUND', 'Import not found');
+    }
+
+    const job = data as Pick<CustomerImportRow, 'file_name' | 'headers' | 'rows' | 'errors'>;
+    const baseName = job.file_name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '-') || 'customers';
+
+    return new NextResponse(buildCustomerImportErrorReport(job), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${baseName}-errors.csv"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/customers/imports/[id]/errors:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Customer Import API Routes
+ * GET /api/customers/imports/[id] - An import, with a preview while it is a draft
+ * PATCH /api/customers/imports/[id] - Change a draft's column mapping or duplicate choices
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  CUSTOMER_IMPORT_FIELDS,
+  mapCustomerImportRow,
+  previewCustomerImport,
+  type CustomerImportRow,
+} from '@/lib/customerImport';
+import { requirePermission } from '@/lib/members';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, CustomerImport, CustomerImportField, CustomerImportPreview } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const duplicateActionSchema = z.enum(['skip', 'merge', 'overwrite']);
+
+const updateImportSchema = z.object({
+  mapping: z.partialRecord(
+    z.enum(CUSTOMER_IMPORT_FIELDS.map(({ field }) => field) as [CustomerImportField, ...CustomerImportField[]]),
+    z.number().int().min(0)
+  ).optional(),
+  duplicateAction: duplicateActionSchema.optional(),
+  // Keyed by the row number shown in the preview
+  rowActions: z.record(z.string().regex(/^\d+$/, 'Rows are numbered'), duplicateActionSchema).optional(),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - Fetch Import
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Import ID is required');
+    }
+
+    const { data, error } = await supabase
+      .from('customer_imports')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching customer import:', error);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch import');
+    }
+
+    if (!data) {
+      return errorResponse(404, 'NOT_FOUND', 'Import not found');
+    }
+
+    const job = data as CustomerImportRow;
+    const preview = job.status === 'draft' ? await previewCustomerImport(supabase, job) : undefined;
+
+    return NextResponse.json<ApiResponse<{ import: CustomerImport; preview?: CustomerImportPreview }>>({
+      success: true,
+      data: { import: mapCustomerImportRow(job), preview },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/customers/imports/[id]:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// PATCH Handler - Update Mapping
+// ============================================================================
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'customers:write');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Import ID is required');
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateImportSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid import settings',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('customer_imports')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching customer import:', fetchError);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch import');
+    }
+
+    if (!existing) {
+      return errorResponse(404, 'NOT_FOUND', 'Import not found');
+    }
+
+    const job = existing as CustomerImportRow;
+
+    // Rows already imported were imported with the settings they had
+    if (job.status !== 'draft') {
+      return errorResponse(409, 'IMPORT_STARTED', 'The import has already started');
+    }
+
+    const { mapping, duplicateAction, rowActions } = validationResult.data;
+
+    if (mapping && Object.values(mapping).some((column) => column !== undefined && column >= job.headers.length)) {
+      return errorResponse(400, 'INVALID_MAPPING', 'The mapping refers to a column the file does not have');
+    }
+
+    const update: Partial<CustomerImportRow> = {};
+    if (mapping) update.mapping = mapping;
+    if (duplicateAction) update.duplicate_action = duplicateAction;
+    if (rowActions) update.row_actions = rowActions;
+
+    // Only a draft is changed, in case a run started since it was read
+    const { data: updated, error } = await supabase.from('customer_imports')
+      .update(update)
+      .eq('id', id)
+      .eq('status', 'draft')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating customer import:', error);
+      return errorResponse(500, 'UPDATE_ERROR', 'Failed to update import');
+    }
+
+    if (!updated) {
+      return errorResponse(409, 'IMPORT_STARTED', 'The import has already started');
+    }
+
+    const preview = await previewCustomerImport(supabase, updated as CustomerImportRow);
+
+    return NextResponse.json<ApiResponse<{ import: CustomerImport; preview: CustomerImportPreview }>>({
+      success: true,
+      data: { import: mapCustomerImportRow(updated as CustomerImportRow), preview },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in PATCH /api/customers/imports/[id]:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
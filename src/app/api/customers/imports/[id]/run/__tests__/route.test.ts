@@ -0,0 +1,207 @@
+/**
+ * API Integration Tests - Customer Import Run Route
+ * Tests for POST /api/customers/imports/[id]/run
+ * @module src/app/api/customers/imports/[id]/run/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { after, NextRequest } from 'next/server';
+import { POST } from '@/app/api/customers/imports/[id]/run/route';
+import { mockBuilders, mockRpc, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const rows = Array.from({ length: 150 }, (_, index) => [`c${index}@example.com`, `Company ${index}`, 'Name']);
+
+const importRow = {
+  id: 'import-1',
+  shop_id: 'shop-1',
+  file_name: 'customers.csv',
+  status: 'draft',
+  headers: ['Email', 'Company', 'Contact'],
+  rows,
+  mapping: { email: 0, companyName: 1, contactName: 2 },
+  duplicate_action: 'skip',
+  row_actions: {},
+  total_rows: 150,
+  next_row: 0,
+  created_count: 0,
+  updated_count: 0,
+  skipped_count: 0,
+  error_count: 0,
+  errors: [],
+  created_by: 'user-1',
+  created_at: '2024-03-01T10:00:00Z',
+  updated_at: '2024-03-01T10:00:00Z',
+  completed_at: null,
+};
+
+const createdCustomers = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({ id: `cust-${index}`, company_name: `Company ${index}` }));
+
+describe('Customer Import Run API', () => {
+  const runImport = (role = 'sales') =>
+    POST(
+      new NextRequest('http://localhost/api/customers/imports/import-1/run', {
+        method: 'POST',
+        headers: { 'x-user-id': 'user-1', 'x-user-name': 'Sam Sales', 'x-member-role': role },
+      }),
+      { params: Promise.resolve({ id: 'import-1' }) }
+    );
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+    mockRpc.mockResolvedValue({ data: [], error: null });
+  });
+
+  const scheduledRun = () => jest.mocked(after).mock.calls[0][0] as () => Promise<void>;
+
+  it('should start the import on the server and return straight away', async () => {
+    queueResult('customer_imports', { data: importRow, error: null });
+    queueResult('customer_imports', {
+      data: { ...importRow, status: 'processing', updated_at: '2024-03-01T10:01:00Z' },
+      error: null,
+    });
+
+    const response = await runImport();
+    const json = await response.json();
+
+    expect(response.status).toBe(202);
+    const claim = mockBuilders.customer_imports[1];
+    expect(claim.update).toHaveBeenCalledWith({ status: 'processing' });
+    expect(claim.eq).toHaveBeenCalledWith('updated_at', '2024-03-01T10:00:00Z');
+    expect(json.data.import).toMatchObject({ status: 'processing', nextRow: 0 });
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(mockBuilders.customers).toBeUndefined();
+  });
+
+  it('should import batch by batch until the import completes', async () => {
+    queueResult('customer_imports', { data: importRow, error: null });
+    queueResult('customer_imports', { data: { ...importRow, status: 'processing' }, error: null });
+    await runImport();
+
+    queueResult('customers', { data: createdCustomers(100), error: null });
+    queueResult('customer_imports', {
+      data: { ...importRow, status: 'processing', next_row: 100, created_count: 100 },
+      error: null,
+    });
+    queueResult('customers', { data: createdCustomers(50), error: null });
+    queueResult('customer_imports', {
+      data: { ...importRow, status: 'completed', next_row: 150, created_count: 150, completed_at: '2024-03-01T10:05:00Z' },
+      error: null,
+    });
+    await scheduledRun()();
+
+    expect(mockBuilders.customers.map((builder) => builder.insert.mock.calls[0][0].length)).toEqual([100, 50]);
+    const [, , first, last] = mockBuilders.customer_imports;
+    expect(first.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'processing',
+      next_row: 100,
+      created_count: 100,
+      completed_at: null,
+    }));
+    expect(first.eq).toHaveBeenCalledWith('next_row', 0);
+    expect(last.update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'completed',
+      next_row: 150,
+      created_count: 150,
+      completed_at: expect.any(String),
+    }));
+    expect(last.eq).toHaveBeenCalledWith('next_row', 100);
+  });
+
+  it('should stop when another run saved the batch first', async () => {
+    queueResult('customer_imports', { data: importRow, error: null });
+    queueResult('customer_imports', { data: { ...importRow, status: 'processing' }, error: null });
+    await runImport();
+
+    queueResult('customers', { data: createdCustomers(100), error: null });
+    queueResult('customer_imports', { data: null, error: null });
+    await scheduledRun()();
+
+    expect(mockBuilders.customers).toHaveLength(1);
+    expect(mockBuilders.customer_imports).toHaveLength(3);
+  });
+
+  it('should return the progress of an import that is running', async () => {
+    queueResult('customer_imports', {
+      data: { ...importRow, status: 'processing', next_row: 100, updated_at: new Date().toISOString() },
+      error: null,
+    });
+
+    const response = await runImport();
+    const json = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(json.data.import.nextRow).toBe(100);
+    expect(mockBuilders.customer_imports).toHaveLength(1);
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it('should pick up an import whose run stopped', async () => {
+    const stalled = { ...importRow, status: 'processing', next_row: 100, created_count: 100 };
+    queueResult('customer_imports', { data: stalled, error: null });
+    queueResult('customer_imports', { data: { ...stalled, updated_at: '2024-03-01T11:00:00Z' }, error: null });
+
+    const response = await runImport();
+    queueResult('customers', { data: createdCustomers(50), error: null });
+    queueResult('customer_imports', { data: { ...stalled, status: 'completed', next_row: 150 }, error: null });
+    await scheduledRun()();
+
+    expect(response.status).toBe(202);
+    expect(mockBuilders.customers[0].insert.mock.calls[0][0]).toHaveLength(50);
+    expect(mockBuilders.customer_imports[2].update).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'completed',
+      created_count: 150,
+    }));
+  });
+
+  it('should not start a second run when another request started it first', async () => {
+    queueResult('customer_imports', { data: importRow, error: null });
+    queueResult('customer_imports', { data: null, error: null });
+    queueResult('customer_imports', { data: { ...importRow, status: 'processing', next_row: 100 }, error: null });
+
+    const response = await runImport();
+    const json = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(json.data.import.nextRow).toBe(100);
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it('should not start without a column for each required field', async () => {
+    queueResult('customer_imports', { data: { ...importRow, mapping: { email: 0 } }, error: null });
+
+    const response = await runImport();
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error).toEqual({ code: 'MAPPING_INCOMPLETE', message: 'Choose a column for companyName, contactName' });
+    expect(mockBuilders.customers).toBeUndefined();
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it('should leave completed imports alone', async () => {
+    queueResult('customer_imports', { data: { ...importRow, status: 'completed', next_row: 150 }, error: null });
+
+    const response = await runImport();
+    const json = await response.json();
+
+    expect(json.data.import.status).toBe('completed');
+    expect(mockBuilders.customer_imports).toHaveLength(1);
+  });
+
+  it('should return 404 for imports the member cannot see', async () => {
+    queueResult('customer_imports', { data: null, error: null });
+
+    const response = await runImport();
+
+    expect(response.status).toBe(404);
+  });
+});
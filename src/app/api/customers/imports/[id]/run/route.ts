@@ -0,0 +1,133 @@
+/**
+ * Customer Import Run API Route
+ * POST /api/customers/imports/[id]/run - Start an import on the server and
+ * return its progress. While it runs, calling it again only returns the
+ * progress; an import whose run stopped is picked up where it left off.
+ */
+
+import { after, NextRequest, NextResponse } from 'next/server';
+import {
+  CUSTOMER_IMPORT_SUMMARY_COLUMNS,
+  getMissingImportFields,
+  isCustomerImportRunning,
+  mapCustomerImportRow,
+  runCustomerImport,
+  type CustomerImportRow,
+} from '@/lib/customerImport';
+import { requirePermission } from '@/lib/members';
+import { getRequestActor } from '@/lib/permissions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, CustomerImport } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+function importResponse(job: Omit<CustomerImportRow, 'rows' | 'errors'>, status = 200) {
+  return NextResponse.json<ApiResponse<{ import: CustomerImport }>>({
+    success: true,
+    data: { import: mapCustomerImportRow(job) },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Start Import
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'customers:write');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Import ID is required');
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('customer_imports')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching customer import:', fetchError);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch import');
+    }
+
+    if (!data) {
+      return errorResponse(404, 'NOT_FOUND', 'Import not found');
+    }
+
+    const job = data as CustomerImportRow;
+
+    if (job.status === 'completed') {
+      return importResponse(job);
+    }
+
+    if (isCustomerImportRunning(job)) {
+      return importResponse(job, 202);
+    }
+
+    const missing = getMissingImportFields(job.mapping);
+    if (missing.length > 0) {
+      return errorResponse(400, 'MAPPING_INCOMPLETE', `Choose a column for ${missing.join(', ')}`);
+    }
+
+    // Claims the import only as it was read, so two requests cannot both
+    // start a run; saving it stamps a new updated_at, which marks it running
+    const { data: claimed, error } = await supabase
+      .from('customer_imports')
+      .update({ status: 'processing' })
+      .eq('id', id)
+      .eq('updated_at', job.updated_at)
+      .select(CUSTOMER_IMPORT_SUMMARY_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error starting customer import:', error);
+      return errorResponse(500, 'UPDATE_ERROR', 'Failed to start the import');
+    }
+
+    if (!claimed) {
+      const { data: current, error: refetchError } = await supabase
+        .from('customer_imports')
+        .select(CUSTOMER_IMPORT_SUMMARY_COLUMNS)
+        .eq('id', id)
+        .single();
+
+      if (refetchError) {
+        console.error('Error fetching customer import:', refetchError);
+        return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch import');
+      }
+
+      return importResponse(current as unknown as CustomerImportRow, 202);
+    }
+
+    const started: CustomerImportRow = { ...job, ...(claimed as unknown as CustomerImportRow), errors: job.errors };
+    const actor = getRequestActor(request);
+
+    // Runs once the response is sent; the client polls this route for progress
+    after(() =>
+      runCustomerImport(supabase, started, actor).catch((runError) => {
+        console.error(`Customer import ${id} stopped:`, runError);
+      })
+    );
+
+    return importResponse(started, 202);
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/customers/imports/[id]/run:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * API Integration Tests - Customer Import Routes
+ * Tests for GET/POST /api/customers/imports
+ * @module src/app/api/customers/imports/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/customers/imports/route';
+import { mockBuilders, mockRpc, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const importRow = {
+  id: 'import-1',
+  shop_id: 'shop-1',
+  file_name: 'customers.csv',
+  status: 'draft',
+  headers: ['Email', 'Company', 'Contact'],
+  mapping: { email: 0, companyName: 1, contactName: 2 },
+  duplicate_action: 'skip',
+  row_actions: {},
+  total_rows: 2,
+  next_row: 0,
+  created_count: 0,
+  updated_count: 0,
+  skipped_count: 0,
+  error_count: 0,
+  created_by: 'user-1',
+  created_at: '2024-03-01T10:00:00Z',
+  updated_at: '2024-03-01T10:00:00Z',
+  completed_at: null,
+};
+
+describe('Customer Imports API', () => {
+  const createRequest = (body: unknown, role = 'sales') =>
+    new NextRequest('http://localhost/api/customers/imports', {
+      method: 'POST',
+      headers: { 'x-user-id': 'user-1', 'x-user-name': 'Sam Sales', 'x-member-role': role, 'x-shop-id': 'shop-1' },
+      body: JSON.stringify(body),
+    });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+    mockRpc.mockResolvedValue({ data: [], error: null });
+  });
+
+  describe('POST /api/customers/imports', () => {
+    it('should save the file as a draft with a suggested mapping and preview', async () => {
+      queueResult('customer_imports', { data: importRow, error: null });
+
+      const response = await POST(createRequest({
+        fileName: 'customers.csv',
+        content: 'Email,Company,Contact\nbuyer@acme.com,Acme Corp,Ann Buyer\nbad,Beta,Bo\n\n',
+      }));
+      const json = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(mockBuilders.customer_imports[0].insert).toHaveBeenCalledWith({
+        shop_id: 'shop-1',
+        file_name: 'customers.csv',
+        headers: ['Email', 'Company', 'Contact'],
+        rows: [['buyer@acme.com', 'Acme Corp', 'Ann Buyer'], ['bad', 'Beta', 'Bo']],
+        mapping: { email: 0, companyName: 1, contactName: 2 },
+        total_rows: 2,
+        created_by: 'user-1',
+      });
+      expect(json.data.import).toMatchObject({ id: 'import-1', fileName: 'customers.csv', totalRows: 2 });
+      expect(json.data.preview).toMatchObject({
+        validRows: 1,
+        invalidRows: 1,
+        errors: [{ row: 3, field: 'email', message: 'Invalid email address' }],
+        duplicates: [],
+      });
+    });
+
+    it('should read base64 encoded XLSX files', async () => {
+      const response = await POST(createRequest({
+        fileName: 'customers.xlsx',
+        content: Buffer.from('not a zip').toString('base64'),
+        encoding: 'base64',
+      }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error).toEqual({ code: 'INVALID_FILE', message: 'The file is not an XLSX workbook' });
+      expect(mockBuilders.customer_imports).toBeUndefined();
+    });
+
+    it('should reject files without customers', async () => {
+      const response = await POST(createRequest({ fileName: 'customers.csv', content: 'Email,Company\n' }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('EMPTY_FILE');
+    });
+
+    it('should reject other file types', async () => {
+      const response = await POST(createRequest({ fileName: 'customers.pdf', content: '%PDF' }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('UNSUPPORTED_FILE');
+    });
+
+    it('should not let viewers import', async () => {
+      const response = await POST(createRequest({ fileName: 'customers.csv', content: 'Email\na@b.com' }, 'viewer'));
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/customers/imports', () => {
+    it('should list recent imports without their rows', async () => {
+      queueResult('customer_imports', { data: [{ ...importRow, status: 'processing', next_row: 100 }], error: null });
+
+      const response = await GET(new NextRequest('http://localhost/api/customers/imports'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.customer_imports[0].select).toHaveBeenCalledWith(expect.not.stringMatching(/\b(rows|errors)\b/));
+      expect(json.data.imports).toEqual([expect.objectContaining({ status: 'processing', nextRow: 100 })]);
+    });
+  });
+});
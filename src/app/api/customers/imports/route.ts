@@ -0,0 +1,185 @@
+/**
+ * Customer Imports API Routes
+ * GET /api/customers/imports - Recent imports, newest first
+ * POST /api/customers/imports - Upload a CSV or XLSX file of customers as a draft import
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  CUSTOMER_IMPORT_SUMMARY_COLUMNS,
+  MAX_IMPORT_ROWS,
+  mapCustomerImportRow,
+  parseCsv,
+  previewCustomerImport,
+  suggestCustomerImportMapping,
+  type CustomerImportRow,
+} from '@/lib/customerImport';
+import { requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { readXlsxRows } from '@/lib/xlsx';
+import type { ApiResponse, CustomerImport, CustomerImportPreview } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+// 5MB of file, which is a third larger once base64 encoded
+const MAX_CONTENT_LENGTH = Math.ceil((5 * 1024 * 1024 * 4) / 3);
+
+const uploadSchema = z.object({
+  fileName: z.string().trim().min(1, 'File name is required').max(255),
+  content: z.string().min(1, 'The file is empty').max(MAX_CONTENT_LENGTH, 'The file is larger than 5MB'),
+  // XLSX files are binary, so the browser sends them base64 encoded
+  encoding: z.enum(['text', 'base64']).default('text'),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+/**
+ * The file's rows, header row first, without trailing blank rows
+ */
+function readImportFile({ fileName, content, encoding }: z.infer<typeof uploadSchema>): string[][] {
+  const bytes = encoding === 'base64' ? Buffer.from(content, 'base64') : null;
+  const rows = /\.xlsx$/i.test(fileName)
+    ? readXlsxRows(bytes ?? Buffer.from(content, 'utf8'))
+    : parseCsv(bytes ? bytes.toString('utf8') : content);
+
+  while (rows.length > 0 && rows[rows.length - 1].every((cell) => (cell ?? '').trim() === '')) {
+    rows.pop();
+  }
+  return rows;
+}
+
+// ============================================================================
+// GET Handler - List Imports
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createRequestClient(request);
+
+    const { data, error } = await supabase
+      .from('customer_imports')
+      .select(CUSTOMER_IMPORT_SUMMARY_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error('Error fetching customer imports:', error);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch imports');
+    }
+
+    return NextResponse.json<ApiResponse<{ imports: CustomerImport[] }>>({
+      success: true,
+      data: { imports: ((data ?? []) as unknown as CustomerImportRow[]).map(mapCustomerImportRow) },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/customers/imports:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// POST Handler - Upload File
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, 'customers:write');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = uploadSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid import file',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const { fileName } = validationResult.data;
+    if (!/\.(csv|txt|xlsx)$/i.test(fileName)) {
+      return errorResponse(400, 'UNSUPPORTED_FILE', 'Upload a .csv or .xlsx file');
+    }
+
+    let fileRows: string[][];
+    try {
+      fileRows = readImportFile(validationResult.data);
+    } catch (error) {
+      return errorResponse(400, 'INVALID_FILE', error instanceof Error ? error.message : 'The file could not be read');
+    }
+
+    const [headerRow = [], ...rows] = fileRows;
+    const headers = headerRow.map((header) => (header ?? '').trim());
+
+    if (rows.length === 0 || headers.every((header) => header === '')) {
+      return errorResponse(400, 'EMPTY_FILE', 'The file needs a header row and at least one customer');
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return errorResponse(400, 'TOO_MANY_ROWS', `Import at most ${MAX_IMPORT_ROWS} customers at a time`);
+    }
+
+    const member = getRequestMember(request);
+    const mapping = suggestCustomerImportMapping(headers);
+
+    const { data: job, error } = await supabase.from('customer_imports')
+      .insert({
+        shop_id: member?.shopId,
+        file_name: fileName,
+        headers,
+        rows,
+        mapping,
+        total_rows: rows.length,
+        created_by: member?.userId,
+      })
+      .select(CUSTOMER_IMPORT_SUMMARY_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating customer import:', error);
+      return errorResponse(500, 'CREATE_ERROR', 'Failed to save the import');
+    }
+
+    const preview = await previewCustomerImport(supabase, {
+      rows,
+      mapping,
+      duplicate_action: 'skip',
+      row_actions: {},
+    });
+
+    return NextResponse.json<ApiResponse<{ import: CustomerImport; preview: CustomerImportPreview }>>({
+      success: true,
+      data: { import: mapCustomerImportRow(job as unknown as CustomerImportRow), preview },
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/customers/imports:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
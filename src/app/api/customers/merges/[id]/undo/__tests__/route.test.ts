@@ -0,0 +1,77 @@
+/**
+ * API Integration Tests - Customer Merge Undo Route
+ * Tests for POST /api/customers/merges/[id]/undo
+ * @module src/app/api/customers/merges/[id]/undo/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: jest.fn(() => ({ from: jest.fn(), rpc: jest.fn() })),
+}));
+
+const mockUndoCustomerMerge = jest.fn();
+
+jest.mock('@/lib/customerMerge', () => ({
+  undoCustomerMerge: (...args: unknown[]) => mockUndoCustomerMerge(...args),
+}));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/customers/merges/[id]/undo/route';
+
+describe('Customer Merge Undo API', () => {
+  const undo = (role = 'owner') =>
+    POST(new NextRequest('http://localhost/api/customers/merges/merge-1/undo', {
+      method: 'POST',
+      headers: { 'x-user-id': 'user-1', 'x-user-name': 'Olive Owner', 'x-member-role': role },
+    }), { params: Promise.resolve({ id: 'merge-1' }) });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should undo the merge and return the restored customer', async () => {
+    mockUndoCustomerMerge.mockResolvedValue({ status: 'undone', customer: { id: 'cust-1', email: 'buyer@acme.com' } });
+
+    const response = await undo();
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data.customer.email).toBe('buyer@acme.com');
+    expect(mockUndoCustomerMerge).toHaveBeenCalledWith(expect.anything(), 'merge-1');
+  });
+
+  it('should not let sales members undo merges', async () => {
+    const response = await undo('sales');
+
+    expect(response.status).toBe(403);
+    expect(mockUndoCustomerMerge).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['not_found', 404, 'NOT_FOUND'],
+    ['already_undone', 409, 'ALREADY_UNDONE'],
+    ['expired', 410, 'UNDO_EXPIRED'],
+  ])('should map %s to %i', async (status, httpStatus, code) => {
+    mockUndoCustomerMerge.mockResolvedValue({ status });
+
+    const response = await undo();
+    const json = await response.json();
+
+    expect(response.status).toBe(httpStatus);
+    expect(json.error.code).toBe(code);
+  });
+
+  it('should report a restored email now in use as a conflict', async () => {
+    mockUndoCustomerMerge.mockResolvedValue({ status: 'conflict', message: 'duplicate key value' });
+
+    const response = await undo();
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).error.code).toBe('CONFLICT');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Customer Merge Undo API Route
+ * POST /api/customers/merges/[id]/undo - Split a merge back into the original
+ * customers, within the undo window (owners and admins)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { undoCustomerMerge } from '@/lib/customerMerge';
+import { requirePermission } from '@/lib/members';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, Customer } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Undo Merge
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'customers:delete');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Merge ID is required');
+    }
+
+    const result = await undoCustomerMerge(createRequestClient(request), id);
+
+    switch (result.status) {
+      case 'not_found':
+        return errorResponse(404, 'NOT_FOUND', 'Customer merge not found');
+      case 'forbidden':
+        return errorResponse(403, 'FORBIDDEN', 'Only owners and admins can undo customer merges');
+      case 'already_undone':
+        return errorResponse(409, 'ALREADY_UNDONE', 'This merge was already undone');
+      case 'expired':
+        return errorResponse(410, 'UNDO_EXPIRED', 'This merge can no longer be undone');
+      case 'conflict':
+        return errorResponse(409, 'CONFLICT', 'A merged customer\'s email or Shopify link now belongs to another customer');
+      default:
+        return NextResponse.json<ApiResponse<{ customer: Customer }>>({
+          success: true,
+          data: { customer: result.customer },
+        });
+    }
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/customers/merges/[id]/undo:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -5,56 +5,28 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { z } from 'zod';
-import type { ApiResponse, Customer, CustomerWithStats, CustomerStats, CustomerActivity } from '@/types/quote';
-import { CustomerStatus } from '@/types/quote';
+import { mapCustomerContactRow, sortCustomerContacts, type CustomerContactRow } from '@/lib/customerContacts';
+import { EMPTY_CUSTOMER_STATS, customerSchema, getCustomerStats, toCustomerColumns } from '@/lib/customers';
+import { getRequestActor, getRequestMember } from '@/lib/permissions';
+import { mapCustomerRow } from '@/lib/quotes';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, Customer, CustomerWithStats, SupabaseCustomer } from '@/types/quote';
+import { ActivityType, CustomerStatus } from '@/types/quote';
 
-// Initialize Supabase client lazily to avoid build-time errors
-let supabase: ReturnType<typeof createClient> | null = null;
+type CustomerListRow = SupabaseCustomer & { contacts?: CustomerContactRow[] | null };
 
-function getSupabaseClient() {
-  if (!supabase) {
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
-    
-    if (!supabaseUrl || !supabaseKey) {
-      throw new Error('Supabase environment variables are not configured');
-    }
-    
-    supabase = createClient(supabaseUrl, supabaseKey);
-  }
-  return supabase;
-}
+// Sortable customers columns; the quote stats are only known per page
+const SORT_COLUMNS: Record<string, string> = {
+  name: 'contact_name',
+  company: 'company_name',
+  dateAdded: 'created_at',
+  lastActivity: 'updated_at',
+};
 
-// ============================================================================
-// Validation Schema
-// ============================================================================
-
-const customerSchema = z.object({
-  email: z.string().email('Invalid email address'),
-  companyName: z.string().min(1, 'Company name is required').max(200),
-  contactName: z.string().min(1, 'Contact name is required').max(200),
-  phone: z.string().optional(),
-  billingAddress: z.object({
-    street: z.string().min(1, 'Street is required'),
-    city: z.string().min(1, 'City is required'),
-    state: z.string().min(1, 'State is required'),
-    zipCode: z.string().min(1, 'ZIP code is required'),
-    country: z.string().min(1, 'Country is required'),
-  }).optional(),
-  shippingAddress: z.object({
-    street: z.string().min(1, 'Street is required'),
-    city: z.string().min(1, 'City is required'),
-    state: z.string().min(1, 'State is required'),
-    zipCode: z.string().min(1, 'ZIP code is required'),
-    country: z.string().min(1, 'Country is required'),
-  }).optional(),
-  taxId: z.string().optional(),
-  tags: z.array(z.string()).default([]),
-  notes: z.string().optional(),
-  logoUrl: z.string().url().optional().or(z.literal('')),
-});
+const STAT_SORTS: Record<string, (customer: CustomerWithStats) => number> = {
+  totalQuotes: (customer) => customer.stats.totalQuotes,
+  totalRevenue: (customer) => customer.stats.totalRevenue,
+};
 
 // ============================================================================
 // GET Handler - List Customers
@@ -85,14 +57,14 @@ export async function GET(request: NextRequest) {
     const sortOrder = (searchParams.get('sortOrder') || 'desc') as 'asc' | 'desc';
     
     // Build base query
-    const supabaseClient = getSupabaseClient();
+    const supabaseClient = createRequestClient(request);
     let query = supabaseClient
       .from('customers')
-      .select('*', { count: 'exact' });
+      .select('*, contacts:customer_contacts(*)', { count: 'exact' });
     
     // Apply filters
     if (search) {
-      query = query.or(`companyName.ilike.%${search}%,contactName.ilike.%${search}%,email.ilike.%${search}%`);
+      query = query.or(`company_name.ilike.%${search}%,contact_name.ilike.%${search}%,email.ilike.%${search}%`);
     }
     
     if (status?.length) {
@@ -105,31 +77,23 @@ export async function GET(request: NextRequest) {
     }
     
     if (dateFrom) {
-      query = query.gte('createdAt', dateFrom);
+      query = query.gte('created_at', dateFrom);
     }
     
     if (dateTo) {
-      query = query.lte('createdAt', dateTo);
+      query = query.lte('created_at', dateTo);
     }
     
     // Apply sorting
-    const sortColumnMap: Record<string, string> = {
-      name: 'contactName',
-      company: 'companyName',
-      dateAdded: 'createdAt',
-      totalQuotes: 'quotesCount',
-      totalRevenue: 'totalRevenue',
-      lastActivity: 'updatedAt',
-    };
-    
-    const sortColumn = sortColumnMap[sortBy] || 'createdAt';
+    const sortColumn = SORT_COLUMNS[sortBy] || 'created_at';
     query = query.order(sortColumn, { ascending: sortOrder === 'asc' });
     
     // Apply pagination
     query = query.range(offset, offset + limit - 1);
     
     // Execute query
-    const { data: customers, error, count } = await query as { data: any[] | null; error: any; count: number | null };
+    const { data, error, count } = await query;
+    const customers = data as CustomerListRow[] | null;
     
     if (error) {
       console.error('Error fetching customers:', error);
@@ -143,52 +107,20 @@ export async function GET(request: NextRequest) {
     }
     
     // Get stats for each customer
-    const customerIds = customers?.map((c: any) => c.id) || [];
-    const { data: statsData } = await (getSupabaseClient()
-      .from('quotes') as any)
-      .select('customerId, status, total, createdAt')
-      .in('customerId', customerIds);
+    const customerIds = customers?.map((customer) => customer.id) || [];
+    const statsByCustomer = await getCustomerStats(supabaseClient, customerIds);
     
-    // Calculate stats for each customer
     const customersWithStats: CustomerWithStats[] = (customers || []).map((customer): CustomerWithStats => {
-      const customerQuotes = (statsData as any[])?.filter((q: any) => q.customerId === (customer as any).id) || [];
-      const acceptedQuotes = customerQuotes.filter(q => q.status === 'accepted');
-      const declinedQuotes = customerQuotes.filter(q => q.status === 'declined');
-      const pendingQuotes = customerQuotes.filter(q => ['draft', 'pending', 'sent'].includes(q.status));
-      
-      const totalRevenue = acceptedQuotes.reduce((sum, q) => sum + (q.total || 0), 0);
-      const avgQuoteValue = customerQuotes.length > 0 
-        ? customerQuotes.reduce((sum, q) => sum + (q.total || 0), 0) / customerQuotes.length 
-        : 0;
-      
-      const conversionRate = customerQuotes.length > 0
-        ? (acceptedQuotes.length / customerQuotes.length) * 100
-        : 0;
-      
-      const sortedQuotes = [...customerQuotes].sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-      
-      const stats: CustomerStats = {
-        totalQuotes: customerQuotes.length,
-        totalRevenue,
-        avgQuoteValue,
-        acceptedQuotes: acceptedQuotes.length,
-        declinedQuotes: declinedQuotes.length,
-        pendingQuotes: pendingQuotes.length,
-        conversionRate,
-        lastQuoteDate: sortedQuotes[0] ? new Date(sortedQuotes[0].createdAt) : undefined,
-        firstQuoteDate: sortedQuotes[sortedQuotes.length - 1] ? new Date(sortedQuotes[sortedQuotes.length - 1].createdAt) : undefined,
-      };
+      const stats = statsByCustomer.get(customer.id) ?? EMPTY_CUSTOMER_STATS;
       
       return {
-        ...customer,
-        customerSince: new Date(customer.customerSince || customer.createdAt),
-        createdAt: new Date(customer.createdAt),
-        updatedAt: new Date(customer.updatedAt),
+        ...mapCustomerRow(customer),
         stats,
         recentActivity: [], // Will be fetched separately if needed
-        quotesCount: customerQuotes.length,
+        quotesCount: stats.totalQuotes,
+        contacts: sortCustomerContacts(
+          ((customer.contacts ?? []) as CustomerContactRow[]).map(mapCustomerContactRow)
+        ),
       };
     });
     
@@ -211,6 +143,12 @@ export async function GET(request: NextRequest) {
       filteredCustomers = filteredCustomers.filter(c => c.stats.totalRevenue <= parseFloat(maxRevenue));
     }
     
+    const statSort = STAT_SORTS[sortBy];
+    if (statSort) {
+      const direction = sortOrder === 'asc' ? 1 : -1;
+      filteredCustomers = [...filteredCustomers].sort((a, b) => (statSort(a) - statSort(b)) * direction);
+    }
+    
     const totalPages = Math.ceil((count || 0) / limit);
     
     return NextResponse.json<ApiResponse<{
@@ -252,6 +190,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = createRequestClient(request);
     const body = await request.json();
     
     // Validate input
@@ -276,9 +215,10 @@ export async function POST(request: NextRequest) {
     }
     
     const data = validationResult.data;
+    const member = getRequestMember(request);
     
-    // Check for duplicate email
-    const { data: existingCustomer } = await getSupabaseClient()
+    // Check for duplicate email (RLS limits this to the member's shop)
+    const { data: existingCustomer } = await supabase
       .from('customers')
       .select('id')
       .eq('email', data.email)
@@ -295,15 +235,11 @@ export async function POST(request: NextRequest) {
     }
     
     // Create customer
-    const now = new Date().toISOString();
-    const { data: newCustomer, error } = await (getSupabaseClient()
-      .from('customers') as any)
+    const { data: newCustomer, error } = await supabase
+      .from('customers')
       .insert({
-        ...data,
-        status: CustomerStatus.ACTIVE,
-        customerSince: now,
-        createdAt: now,
-        updatedAt: now,
+        ...toCustomerColumns({ ...data, status: CustomerStatus.ACTIVE }),
+        shop_id: member?.shopId,
       })
       .select()
       .single();
@@ -319,22 +255,22 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
     
+    const customer = mapCustomerRow(newCustomer as SupabaseCustomer);
+    
     // Log activity
-    await (getSupabaseClient().from('customerActivity') as any).insert({
-      customerId: newCustomer.id,
-      type: 'customer_updated',
+    const actor = getRequestActor(request);
+    await supabase.from('activities').insert({
+      type: ActivityType.CUSTOMER_ADDED,
+      customer_id: customer.id,
+      customer_name: customer.companyName,
+      user_id: actor.id,
+      user_name: actor.name,
       description: 'Customer created',
-      createdAt: now,
     });
     
     return NextResponse.json<ApiResponse<Customer>>({
       success: true,
-      data: {
-        ...newCustomer,
-        customerSince: new Date(newCustomer.customerSince),
-        createdAt: new Date(newCustomer.createdAt),
-        updatedAt: new Date(newCustomer.updatedAt),
-      },
+      data: customer,
     }, { status: 201 });
     
   } catch (error) {
@@ -0,0 +1,101 @@
+/**
+ * API Integration Tests - Shopify Customer Sync Route
+ * Tests for POST /api/customers/shopify-sync
+ * @module src/app/api/customers/shopify-sync/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: jest.fn(() => ({ from: jest.fn() })),
+}));
+
+const mockGetShopAccessToken = jest.fn();
+const mockSyncShopifyCustomersPage = jest.fn();
+
+jest.mock('@/lib/shops', () => ({
+  getShopAccessToken: (shop: string) => mockGetShopAccessToken(shop),
+}));
+
+jest.mock('@/lib/shopifyCustomers', () => ({
+  syncShopifyCustomersPage: (...args: unknown[]) => mockSyncShopifyCustomersPage(...args),
+}));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/customers/shopify-sync/route';
+
+describe('Shopify Customer Sync API', () => {
+  const sync = (body: unknown, role = 'admin') =>
+    POST(new NextRequest('http://localhost/api/customers/shopify-sync', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-user-id': 'user-1',
+        'x-member-role': role,
+        'x-shop-id': 'test-shop.myshopify.com',
+      },
+      body: JSON.stringify(body),
+    }));
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetShopAccessToken.mockResolvedValue('shpat_123');
+  });
+
+  it('should sync the requested page of the member\'s shop', async () => {
+    mockSyncShopifyCustomersPage.mockResolvedValue({ created: 2, updated: 1, skipped: 0, nextCursor: 'cursor-2' });
+
+    const response = await sync({ resource: 'companies', cursor: 'cursor-1' });
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data).toEqual({ resource: 'companies', created: 2, updated: 1, skipped: 0, nextCursor: 'cursor-2' });
+    expect(mockSyncShopifyCustomersPage).toHaveBeenCalledWith(
+      expect.anything(),
+      'test-shop.myshopify.com',
+      'shpat_123',
+      'companies',
+      'cursor-1'
+    );
+  });
+
+  it('should reject unknown resources', async () => {
+    const response = await sync({ resource: 'orders' });
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error.code).toBe('VALIDATION_ERROR');
+    expect(json.error.details.resource).toBeDefined();
+  });
+
+  it('should require permission to edit customers', async () => {
+    const response = await sync({ resource: 'customers' }, 'viewer');
+
+    expect(response.status).toBe(403);
+    expect(mockSyncShopifyCustomersPage).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the app is not installed', async () => {
+    mockGetShopAccessToken.mockResolvedValue(null);
+
+    const response = await sync({ resource: 'customers' });
+    const json = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(json.error.code).toBe('SHOP_NOT_INSTALLED');
+  });
+
+  it('should return 502 when Shopify fails', async () => {
+    mockSyncShopifyCustomersPage.mockRejectedValue(new Error('Shopify GraphQL error: Access denied'));
+
+    const response = await sync({ resource: 'customers' });
+    const json = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(json.error.code).toBe('SHOPIFY_ERROR');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Shopify Customer Sync API Route
+ * POST /api/customers/shopify-sync - Import the next page of the shop's Shopify
+ * customers or B2B companies; the client calls it with each returned cursor
+ * until there is none
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import { syncShopifyCustomersPage, type ShopifySyncPageResult } from '@/lib/shopifyCustomers';
+import { getShopAccessToken } from '@/lib/shops';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse } from '@/types/quote';
+
+const shopifySyncSchema = z.object({
+  resource: z.enum(['customers', 'companies']),
+  cursor: z.string().min(1).nullish(),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Sync Next Page
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, 'customers:write');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, 'INVALID_BODY', 'Invalid JSON in request body');
+    }
+
+    const validationResult = shopifySyncSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid sync request',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const shop = getRequestMember(request)?.shopId;
+    const accessToken = shop ? await getShopAccessToken(shop) : null;
+    if (!shop || !accessToken) {
+      return errorResponse(404, 'SHOP_NOT_INSTALLED', 'The app is not installed on this shop');
+    }
+
+    const { resource, cursor } = validationResult.data;
+
+    let page: ShopifySyncPageResult;
+    try {
+      page = await syncShopifyCustomersPage(createRequestClient(request), shop, accessToken, resource, cursor ?? null);
+    } catch (error) {
+      console.error('Error syncing Shopify customers:', error);
+      return errorResponse(502, 'SHOPIFY_ERROR', error instanceof Error ? error.message : 'Failed to sync with Shopify');
+    }
+
+    return NextResponse.json<ApiResponse<ShopifySyncPageResult & { resource: typeof resource }>>({
+      success: true,
+      data: { resource, ...page },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/customers/shopify-sync:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Shop Member API Route
+ * DELETE /api/members/[id] - Remove a member from the shop (owners and admins)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { removeShopMember, requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import type { ApiResponse } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// DELETE Handler - Remove Member
+// ============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'members:manage');
+  if (denied) {
+    return denied;
+  }
+
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Member ID is required');
+    }
+
+    const removed = await removeShopMember(member.shopId, id);
+    if (!removed) {
+      return errorResponse(404, 'NOT_FOUND', 'Member not found, or is the shop owner');
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted: true },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/members/[id]:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to remove member');
+  }
+}
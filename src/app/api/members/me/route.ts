@@ -0,0 +1,43 @@
+/**
+ * Current Member API Route
+ * GET /api/members/me - The signed-in user's membership of the current shop
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveShopMember } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import type { ApiResponse, ShopMember } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - Current Member
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const current = await resolveShopMember(member.userId, member.shopId);
+    if (!current) {
+      return errorResponse(403, 'NOT_A_MEMBER', 'You are not a member of this shop');
+    }
+
+    return NextResponse.json<ApiResponse<ShopMember>>({
+      success: true,
+      data: current,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/members/me:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to load member');
+  }
+}
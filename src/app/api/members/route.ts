@@ -0,0 +1,109 @@
+/**
+ * Shop Members API Routes
+ * GET  /api/members - List the members of the current member's shop
+ * POST /api/members - Invite a member (owners and admins)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { inviteShopMember, listShopMembers, requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import { MemberRole, type ApiResponse, type ShopMember } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const inviteMemberSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  name: z.string().max(200).optional(),
+  // Ownership is only ever claimed at install, never handed out by invite
+  role: z.enum([MemberRole.ADMIN, MemberRole.SALES, MemberRole.VIEWER]),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - List Members
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const members = await listShopMembers(member.shopId);
+
+    return NextResponse.json<ApiResponse<ShopMember[]>>({
+      success: true,
+      data: members,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/members:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to load members');
+  }
+}
+
+// ============================================================================
+// POST Handler - Invite Member
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, 'members:manage');
+  if (denied) {
+    return denied;
+  }
+
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = inviteMemberSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid member data',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const invited = await inviteShopMember(member.shopId, validationResult.data, member.userId);
+
+    return NextResponse.json<ApiResponse<ShopMember>>({
+      success: true,
+      data: invited,
+    }, { status: 201 });
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to invite member';
+    if (message.endsWith('is already a member')) {
+      return errorResponse(409, 'ALREADY_MEMBER', message);
+    }
+    console.error('Unexpected error in POST /api/members:', error);
+    return errorResponse(500, 'INVITE_FAILED', 'Failed to invite member');
+  }
+}
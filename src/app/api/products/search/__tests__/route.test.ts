@@ -0,0 +1,100 @@
+/**
+ * API Integration Tests - Product Search Route
+ * Tests for GET /api/products/search
+ * @module src/app/api/products/search/__tests__/route.test
+ */
+
+const mockGetShopAccessToken = jest.fn();
+const mockGetShopScopes = jest.fn();
+const mockSearchProducts = jest.fn();
+
+jest.mock('@/lib/shops', () => ({
+  getShopAccessToken: (shop: string) => mockGetShopAccessToken(shop),
+  getShopScopes: (shop: string) => mockGetShopScopes(shop),
+}));
+
+jest.mock('@/lib/products', () => ({
+  searchProducts: (...args: unknown[]) => mockSearchProducts(...args),
+}));
+
+// Import after mocks are set up
+import { GET } from '@/app/api/products/search/route';
+
+describe('Product Search API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetShopScopes.mockResolvedValue(['read_products']);
+  });
+
+  it('should search the shop catalog with the stored token', async () => {
+    mockGetShopAccessToken.mockResolvedValue('shpat_123');
+    mockSearchProducts.mockResolvedValue({
+      products: [{ id: 'gid://shopify/Product/1', title: 'Widget' }],
+      pageInfo: { hasNextPage: true, endCursor: 'cursor-1' },
+    });
+
+    const request = new Request(
+      'http://localhost/api/products/search?shop=test-shop.myshopify.com&q=widget&first=10&after=cursor-0'
+    );
+    const response = await GET(request);
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data.products).toHaveLength(1);
+    expect(json.data.pageInfo.endCursor).toBe('cursor-1');
+    expect(mockSearchProducts).toHaveBeenCalledWith('test-shop.myshopify.com', 'shpat_123', {
+      query: 'widget',
+      first: 10,
+      after: 'cursor-0',
+      withCost: false,
+    });
+  });
+
+  it('should ask for variant costs when the shop granted read_inventory', async () => {
+    mockGetShopAccessToken.mockResolvedValue('shpat_123');
+    mockGetShopScopes.mockResolvedValue(['read_products', 'read_inventory']);
+    mockSearchProducts.mockResolvedValue({ products: [], pageInfo: { hasNextPage: false, endCursor: null } });
+
+    const response = await GET(new Request('http://localhost/api/products/search?shop=test-shop.myshopify.com'));
+
+    expect(response.status).toBe(200);
+    expect(mockSearchProducts).toHaveBeenCalledWith(
+      'test-shop.myshopify.com',
+      'shpat_123',
+      expect.objectContaining({ withCost: true })
+    );
+  });
+
+  it('should require a valid shop domain', async () => {
+    const request = new Request('http://localhost/api/products/search?shop=example.com&q=widget');
+    const response = await GET(request);
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error.code).toBe('VALIDATION_ERROR');
+    expect(mockGetShopAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the app is not installed', async () => {
+    mockGetShopAccessToken.mockResolvedValue(null);
+
+    const request = new Request('http://localhost/api/products/search?shop=test-shop.myshopify.com');
+    const response = await GET(request);
+    const json = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(json.error.code).toBe('SHOP_NOT_INSTALLED');
+  });
+
+  it('should return 502 when Shopify fails', async () => {
+    mockGetShopAccessToken.mockResolvedValue('shpat_123');
+    mockSearchProducts.mockRejectedValue(new Error('Shopify GraphQL error: Throttled'));
+
+    const request = new Request('http://localhost/api/products/search?shop=test-shop.myshopify.com&q=widget');
+    const response = await GET(request);
+    const json = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(json.error.code).toBe('SHOPIFY_ERROR');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Product Search API Route
+ * GET /api/products/search - Search the shop's Shopify catalog
+ *
+ * Query parameters: shop (required), q, first, after (cursor)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidShopDomain } from '@/lib/shopify';
+import { getShopAccessToken, getShopScopes } from '@/lib/shops';
+import { searchProducts, type ProductSearchResult } from '@/lib/products';
+import type { ApiResponse } from '@/types/quote';
+
+// ============================================================================
+// GET Handler - Search Products
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const shop = searchParams.get('shop');
+
+    if (!shop || !isValidShopDomain(shop)) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'A valid shop domain is required',
+        },
+      }, { status: 400 });
+    }
+
+    const accessToken = await getShopAccessToken(shop);
+
+    if (!accessToken) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'SHOP_NOT_INSTALLED',
+          message: 'The app is not installed on this shop',
+        },
+      }, { status: 404 });
+    }
+
+    const first = parseInt(searchParams.get('first') || '', 10);
+    // Shops installed before read_inventory was requested have no variant costs
+    const withCost = (await getShopScopes(shop)).includes('read_inventory');
+
+    let result: ProductSearchResult;
+    try {
+      result = await searchProducts(shop, accessToken, {
+        query: searchParams.get('q') || undefined,
+        first: Number.isNaN(first) ? undefined : first,
+        after: searchParams.get('after') || undefined,
+        withCost,
+      });
+    } catch (error) {
+      console.error('Error searching Shopify products:', error);
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'SHOPIFY_ERROR',
+          message: 'Failed to search products',
+        },
+      }, { status: 502 });
+    }
+
+    return NextResponse.json<ApiResponse<ProductSearchResult>>({
+      success: true,
+      data: result,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/products/search:', error);
+    return NextResponse.json<ApiResponse<never>>({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+      },
+    }, { status: 500 });
+  }
+}
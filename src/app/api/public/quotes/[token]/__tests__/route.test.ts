@@ -0,0 +1,229 @@
+/**
+ * API Integration Tests - Public Quote Route
+ * Tests for GET/POST /api/public/quotes/[token]
+ * @module src/app/api/public/quotes/[token]/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+const mockResolveQuoteAccessToken = jest.fn();
+
+jest.mock('@/lib/quoteAccess', () => ({
+  ...jest.requireActual('@/lib/quoteAccess'),
+  resolveQuoteAccessToken: (token: string) => mockResolveQuoteAccessToken(token),
+  touchQuoteAccessToken: jest.fn(),
+}));
+
+// Import after mocks are set up
+import { GET, POST } from '@/app/api/public/quotes/[token]/route';
+import { mockBuilders, mockRpc, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Public Quote API', () => {
+  const quoteRow = {
+    id: 'quote-1',
+    shop_id: 'test-shop.myshopify.com',
+    quote_number: 'QT-001',
+    customer_id: 'cust-1',
+    customer_email: 'john@example.com',
+    customer_name: 'John Doe',
+    title: 'Widgets',
+    status: 'sent',
+    subtotal: 100,
+    discount_total: 0,
+    tax_total: 0,
+    shipping_total: 0,
+    total: 100,
+    terms: { internalNotes: 'secret' },
+    metadata: { createdBy: 'user-1', createdByName: 'Alice', source: 'web' },
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    line_items: [],
+  };
+
+  // A shop workflow where buyers answer straight from sent, without a viewed step
+  const workflowRow = {
+    shop_id: 'test-shop.myshopify.com',
+    statuses: [],
+    transitions: [
+      { from: ['draft'], to: 'sent', action: 'Send' },
+      { from: ['sent'], to: 'accepted', action: 'Accept' },
+    ],
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+
+  const params = { params: Promise.resolve({ token: 'secret-token' }) };
+
+  const createRequest = (method: 'GET' | 'POST', body?: unknown) =>
+    new Request('http://localhost/api/public/quotes/secret-token', {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+        'user-agent': 'Mozilla/5.0',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const withQuote = (overrides: Record<string, unknown> = {}) =>
+    mockResolveQuoteAccessToken.mockResolvedValue({
+      status: 'valid',
+      tokenId: 'tok-1',
+      quote: { ...quoteRow, ...overrides },
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('GET', () => {
+    it('should record the first view with the buyer IP and user agent', async () => {
+      withQuote();
+      mockRpc.mockResolvedValueOnce({ data: { ...quoteRow, status: 'viewed', line_items: undefined }, error: null });
+
+      const response = await GET(createRequest('GET'), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.status).toBe('viewed');
+      expect(json.data.terms).not.toHaveProperty('internalNotes');
+      expect(mockRpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+        p_quote_id: 'quote-1',
+        p_from_status: 'sent',
+        p_to_status: 'viewed',
+        p_changed_by: 'customer',
+        p_activity_type: 'quote_viewed',
+        p_changes: {
+          metadata: expect.objectContaining({ ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0', createdBy: 'user-1' }),
+        },
+      }));
+      expect(mockBuilders.quotes).toBeUndefined();
+    });
+
+    it('should not record a transition on later views', async () => {
+      withQuote({ status: 'viewed' });
+
+      const response = await GET(createRequest('GET'), params);
+
+      expect(response.status).toBe(200);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should not record a view the shop workflow has no step for', async () => {
+      withQuote();
+      queueResult('quote_workflows', { data: workflowRow, error: null });
+
+      const response = await GET(createRequest('GET'), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.status).toBe('sent');
+      expect(mockBuilders.quote_workflows[0].eq).toHaveBeenCalledWith('shop_id', 'test-shop.myshopify.com');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['not_found', 404, 'NOT_FOUND'],
+      ['revoked', 410, 'LINK_REVOKED'],
+      ['expired', 410, 'QUOTE_EXPIRED'],
+    ])('should reject %s links', async (status, httpStatus, code) => {
+      mockResolveQuoteAccessToken.mockResolvedValue({ status });
+
+      const response = await GET(createRequest('GET'), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(httpStatus);
+      expect(json.error.code).toBe(code);
+    });
+  });
+
+  describe('POST', () => {
+    it('should accept the quote with the typed signature', async () => {
+      withQuote({ status: 'viewed' });
+      mockRpc.mockResolvedValueOnce({ data: { ...quoteRow, status: 'accepted' }, error: null });
+
+      const response = await POST(createRequest('POST', { action: 'accept', signatureName: ' Jane Buyer ' }), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.status).toBe('accepted');
+      expect(mockRpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+        p_from_status: 'viewed',
+        p_to_status: 'accepted',
+        p_changed_by_name: 'Jane Buyer',
+        p_metadata: expect.objectContaining({ signatureName: 'Jane Buyer', signedAt: expect.any(String) }),
+        p_changes: {
+          metadata: expect.objectContaining({ signatureName: 'Jane Buyer', ipAddress: '203.0.113.7' }),
+        },
+      }));
+    });
+
+    it('should reject the quote with a reason', async () => {
+      withQuote({ status: 'viewed' });
+      mockRpc.mockResolvedValueOnce({ data: { ...quoteRow, status: 'rejected' }, error: null });
+
+      const response = await POST(createRequest('POST', { action: 'reject', rejectionReason: 'Too expensive' }), params);
+
+      expect(response.status).toBe(200);
+      // The rejection reason is stored from the transition comment
+      expect(mockRpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+        p_to_status: 'rejected',
+        p_comment: 'Too expensive',
+        p_changes: {},
+      }));
+    });
+
+    it('should require a signature to accept', async () => {
+      const response = await POST(createRequest('POST', { action: 'accept', signatureName: ' ' }), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(mockResolveQuoteAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should not answer a quote twice', async () => {
+      withQuote({ status: 'accepted' });
+
+      const response = await POST(createRequest('POST', { action: 'reject', rejectionReason: 'Changed my mind' }), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(json.error.code).toBe('INVALID_TRANSITION');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should follow the shop workflow', async () => {
+      withQuote();
+      queueResult('quote_workflows', { data: workflowRow, error: null });
+      mockRpc.mockResolvedValueOnce({ data: { ...quoteRow, status: 'accepted' }, error: null });
+
+      const accepted = await POST(createRequest('POST', { action: 'accept', signatureName: 'Jane Buyer' }), params);
+
+      expect(accepted.status).toBe(200);
+      expect(mockRpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+        p_from_status: 'sent',
+        p_to_status: 'accepted',
+      }));
+
+      queueResult('quote_workflows', { data: workflowRow, error: null });
+
+      const rejected = await POST(createRequest('POST', { action: 'reject', rejectionReason: 'Too expensive' }), params);
+
+      expect(rejected.status).toBe(409);
+      expect((await rejected.json()).error.code).toBe('INVALID_TRANSITION');
+    });
+
+    it('should report a concurrent status change', async () => {
+      withQuote({ status: 'viewed' });
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: 'PT409', message: 'Quote quote-1 is no longer viewed' } });
+
+      const response = await POST(createRequest('POST', { action: 'accept', signatureName: 'Jane Buyer' }), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(json.error.code).toBe('STATUS_CHANGED');
+    });
+  });
+});
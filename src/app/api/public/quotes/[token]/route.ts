@@ -0,0 +1,219 @@
+/**
+ * Public Quote API Route
+ * GET  /api/public/quotes/[token] - Buyer view of a quote; records the first view
+ * POST /api/public/quotes/[token] - Buyer accepts or rejects the quote
+ * Unauthenticated: access is granted by the token alone
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  resolveQuoteAccessToken,
+  touchQuoteAccessToken,
+  toPublicQuote,
+  type PublicQuote,
+  type QuoteAccessResult,
+} from '@/lib/quoteAccess';
+import { transitionQuoteStatus } from '@/lib/quoteTransitions';
+import { validateTransition } from '@/lib/quoteWorkflow';
+import type { QuoteRowWithRelations } from '@/lib/quotes';
+import { getServiceClient } from '@/lib/supabaseServer';
+import { getShopWorkflow } from '@/lib/workflows';
+import type { ApiResponse } from '@/types/quote';
+import { QuoteStatus } from '@/types/quote';
+
+const BUYER_ID = 'customer';
+
+const respondSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('accept'),
+    signatureName: z.string().trim().min(2, 'Type your full name to accept').max(200),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    rejectionReason: z.string().trim().min(1, 'A reason is required').max(1000),
+  }),
+]);
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+function accessErrorResponse(status: Exclude<QuoteAccessResult['status'], 'valid'>) {
+  switch (status) {
+    case 'revoked':
+      return errorResponse(410, 'LINK_REVOKED', 'This quote link is no longer active');
+    case 'expired':
+      return errorResponse(410, 'QUOTE_EXPIRED', 'This quote has expired');
+    default:
+      return errorResponse(404, 'NOT_FOUND', 'Quote not found');
+  }
+}
+
+function getClientInfo(request: NextRequest) {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return {
+    ipAddress: forwardedFor || request.headers.get('x-real-ip') || undefined,
+    userAgent: request.headers.get('user-agent') || undefined,
+  };
+}
+
+/**
+ * Move a quote to a new status on behalf of the buyer.
+ * The transition only applies if the status is unchanged since it was read;
+ * returns null when another change got there first.
+ */
+async function applyBuyerTransition(
+  row: QuoteRowWithRelations,
+  toStatus: QuoteStatus,
+  buyerName: string,
+  changes: Record<string, unknown>,
+  historyMetadata: Record<string, unknown>,
+  comment?: string
+): Promise<QuoteRowWithRelations | null> {
+  const result = await transitionQuoteStatus(getServiceClient(), {
+    quoteId: row.id,
+    fromStatus: row.status,
+    toStatus,
+    changedBy: BUYER_ID,
+    changedByName: buyerName,
+    comment,
+    metadata: historyMetadata,
+    description: `Quote ${row.quote_number} ${toStatus} by ${buyerName}`,
+    changes,
+  });
+
+  // Buyers never send a quote, so the only other outcomes are a conflict or a
+  // quote deleted since it was read
+  if (result.status !== 'applied') {
+    return null;
+  }
+
+  // Only the quote's own columns change; its line items and customer are as read
+  return { ...row, ...result.quote } as QuoteRowWithRelations;
+}
+
+// ============================================================================
+// GET Handler - View Quote
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const access = await resolveQuoteAccessToken(token);
+    if (access.status !== 'valid') {
+      return accessErrorResponse(access.status);
+    }
+
+    let row = access.quote;
+    await touchQuoteAccessToken(access.tokenId);
+
+    // Only the first view after sending moves the quote along, where the shop's workflow has that step
+    const workflow = await getShopWorkflow(getServiceClient(), row.shop_id);
+    if (validateTransition(row.status, QuoteStatus.VIEWED, { workflow }).success) {
+      const clientInfo = getClientInfo(request);
+      const viewedRow = await applyBuyerTransition(
+        row,
+        QuoteStatus.VIEWED,
+        row.customer_name || row.customer_email,
+        { metadata: { ...(row.metadata ?? {}), ...clientInfo } },
+        clientInfo
+      );
+      row = viewedRow ?? row;
+    }
+
+    return NextResponse.json<ApiResponse<PublicQuote>>({
+      success: true,
+      data: toPublicQuote(row),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/public/quotes/[token]:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// POST Handler - Accept or Reject Quote
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, 'INVALID_BODY', 'Invalid JSON in request body');
+    }
+
+    const parsed = respondSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse(400, 'VALIDATION_ERROR', parsed.error.issues[0]?.message || 'Invalid request data');
+    }
+
+    const access = await resolveQuoteAccessToken(token);
+    if (access.status !== 'valid') {
+      return accessErrorResponse(access.status);
+    }
+
+    const row = access.quote;
+    const input = parsed.data;
+    const toStatus = input.action === 'accept' ? QuoteStatus.ACCEPTED : QuoteStatus.REJECTED;
+
+    const workflow = await getShopWorkflow(getServiceClient(), row.shop_id);
+    const validation = validateTransition(row.status, toStatus, { workflow });
+    if (!validation.success) {
+      return errorResponse(409, 'INVALID_TRANSITION', validation.error || 'This quote can no longer be answered');
+    }
+
+    const clientInfo = getClientInfo(request);
+    let updatedRow: QuoteRowWithRelations | null;
+
+    if (input.action === 'accept') {
+      const signature = { signatureName: input.signatureName, signedAt: new Date().toISOString() };
+      updatedRow = await applyBuyerTransition(
+        row,
+        QuoteStatus.ACCEPTED,
+        input.signatureName,
+        { metadata: { ...(row.metadata ?? {}), ...clientInfo, ...signature } },
+        { ...clientInfo, ...signature }
+      );
+    } else {
+      updatedRow = await applyBuyerTransition(
+        row,
+        QuoteStatus.REJECTED,
+        row.customer_name || row.customer_email,
+        {},
+        clientInfo,
+        input.rejectionReason
+      );
+    }
+
+    if (!updatedRow) {
+      return errorResponse(409, 'STATUS_CHANGED', 'This quote was updated in the meantime. Reload the page and try again.');
+    }
+
+    await touchQuoteAccessToken(access.tokenId);
+
+    return NextResponse.json<ApiResponse<PublicQuote>>({
+      success: true,
+      data: toPublicQuote(updatedRow),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/public/quotes/[token]:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * API Integration Tests - Quote Detail Routes
+ * Tests for GET, PUT, DELETE /api/quotes/[id]
+ * @module src/app/api/quotes/[id]/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Approver emails are covered with the status route
+jest.mock('@/lib/quoteNotifications', () => ({
+  ...jest.requireActual('@/lib/quoteNotifications'),
+  notifyApprovers: jest.fn().mockResolvedValue(1),
+}));
+
+// Line items come back as sent unless a test prices them from the catalog
+jest.mock('@/lib/products', () => ({
+  priceLineItemsFromCatalog: jest.fn(async (_shop: string, items: unknown[]) => items),
+}));
+
+// Import after mocks are set up
+import { GET, PUT, DELETE } from '@/app/api/quotes/[id]/route';
+import { priceLineItemsFromCatalog } from '@/lib/products';
+import { mockBuilders, mockRpc, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Quote Detail API', () => {
+  const lineItemRow = {
+    id: 'li-1',
+    quote_id: 'quote-1',
+    position: 0,
+    product_id: 'prod-1',
+    title: 'Widget',
+    sku: 'W-1',
+    quantity: 2,
+    unit_price: 50,
+    discount_amount: 0,
+    tax_rate: 0,
+    tax_amount: 0,
+    subtotal: 100,
+    total: 100,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+
+  const quoteRow = {
+    id: 'quote-1',
+    shop_id: 'shop-1',
+    quote_number: 'QT-001',
+    customer_id: 'cust-1',
+    customer_email: 'john@example.com',
+    customer_name: 'John Doe',
+    title: 'Widgets',
+    priority: 'medium',
+    status: 'draft',
+    subtotal: 100,
+    discount_total: 0,
+    tax_rate: 10,
+    tax_total: 10,
+    shipping_total: 0,
+    total: 110,
+    currency: 'USD',
+    terms: { paymentTerms: 'Net 30' },
+    metadata: { createdBy: 'user-1' },
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    line_items: [lineItemRow],
+  };
+
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  // ============================================================================
+  // GET Tests
+  // ============================================================================
+
+  describe('GET /api/quotes/[id]', () => {
+    it('should return the quote with history and activity', async () => {
+      queueResult('quotes', { data: quoteRow, error: null });
+      queueResult('quote_status_history', {
+        data: [{
+          id: 'h-1',
+          quote_id: 'quote-1',
+          from_status: 'draft',
+          to_status: 'sent',
+          changed_by: 'user-1',
+          changed_by_name: 'Jane',
+          changed_at: '2024-01-02T00:00:00Z',
+        }],
+        error: null,
+      });
+      queueResult('activities', { data: [], error: null });
+
+      const request = new Request('http://localhost/api/quotes/quote-1');
+      const response = await GET(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.id).toBe('quote-1');
+      expect(json.data.lineItems).toHaveLength(1);
+      expect(json.data.customer.email).toBe('john@example.com');
+      expect(json.data.statusHistory[0]).toMatchObject({ fromStatus: 'draft', toStatus: 'sent' });
+    });
+
+    it('should return 404 when the quote does not exist', async () => {
+      queueResult('quotes', { data: null, error: { code: 'PGRST116', message: 'No rows' } });
+
+      const request = new Request('http://localhost/api/quotes/missing');
+      const response = await GET(request, params('missing'));
+      const json = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(json.error.code).toBe('NOT_FOUND');
+    });
+
+    it('should return 400 when quote ID is missing', async () => {
+      const request = new Request('http://localhost/api/quotes/');
+      const response = await GET(request, params(''));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  // ============================================================================
+  // PUT Tests
+  // ============================================================================
+
+  describe('PUT /api/quotes/[id]', () => {
+    it('should replace line items and recompute totals', async () => {
+      queueResult('quotes', { data: quoteRow, error: null });
+      mockRpc.mockResolvedValueOnce({ data: { ...quoteRow, subtotal: 150 }, error: null });
+      queueResult('quotes', {
+        data: { ...quoteRow, subtotal: 150, line_items: [{ ...lineItemRow, id: 'li-2', quantity: 3, subtotal: 150, total: 150 }] },
+        error: null,
+      });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', {
+        method: 'PUT',
+        body: JSON.stringify({
+          lineItems: [{ productId: 'prod-1', title: 'Widget', quantity: 3, unitPrice: 50 }],
+        }),
+      });
+
+      const response = await PUT(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.success).toBe(true);
+      expect(mockRpc).toHaveBeenCalledWith('save_quote_edit', expect.objectContaining({
+        p_quote_id: 'quote-1',
+        p_expected_status: 'draft',
+        p_changes: expect.objectContaining({ subtotal: 150, tax_rate: 10, tax_total: 15, total: 165 }),
+        p_line_items: [expect.objectContaining({ quote_id: 'quote-1', quantity: 3, subtotal: 150 })],
+        p_snapshot: null,
+      }));
+      expect(json.data.lineItems[0].id).toBe('li-2');
+    });
+
+    it('should save edits to a sent quote as its next revision', async () => {
+      const sentRow = { ...quoteRow, status: 'sent', revision: 1, sent_at: '2024-01-02T00:00:00Z' };
+      queueResult('quotes', { data: sentRow, error: null });
+      mockRpc.mockResolvedValueOnce({ data: { ...sentRow, title: 'Widgets v2', revision: 2 }, error: null });
+      queueResult('quotes', { data: { ...sentRow, title: 'Widgets v2', revision: 2 }, error: null });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', {
+        method: 'PUT',
+        body: JSON.stringify({ title: 'Widgets v2' }),
+      });
+
+      const response = await PUT(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.revision).toBe(2);
+
+      // The sent version is frozen and replaced in one call
+      expect(mockRpc).toHaveBeenCalledWith('save_quote_edit', expect.objectContaining({
+        p_changes: expect.objectContaining({ title: 'Widgets v2' }),
+        p_line_items: null,
+        p_snapshot: expect.objectContaining({
+          quote_id: 'quote-1',
+          revision: 1,
+          title: 'Widgets',
+          status: 'sent',
+          total: 110,
+          line_items: [expect.objectContaining({ title: 'Widget' })],
+        }),
+        p_expected_status: 'sent',
+        p_to_status: 'sent',
+        p_activity_type: 'quote_revised',
+        p_activity_description: 'Quote QT-001 rev 2 replaces rev 1',
+        p_metadata: { revision: 2, previousRevision: 1 },
+      }));
+      expect(mockBuilders.quote_revisions).toBeUndefined();
+      expect(mockBuilders.quote_status_history).toBeUndefined();
+    });
+
+    it('should hold a revision past the discount limits for approval', async () => {
+      const sentRow = { ...quoteRow, status: 'sent', revision: 1, sent_at: '2024-01-02T00:00:00Z' };
+      queueResult('quotes', { data: sentRow, error: null });
+      queueResult('merchant_settings', { data: { shop_id: 'shop-1', approval_max_line_discount: 20 }, error: null });
+      mockRpc.mockResolvedValueOnce({ data: { ...sentRow, status: 'pending_approval', revision: 2 }, error: null });
+      queueResult('quotes', { data: { ...sentRow, status: 'pending_approval', revision: 2 }, error: null });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', {
+        method: 'PUT',
+        body: JSON.stringify({
+          lineItems: [{ productId: 'prod-1', title: 'Widget', quantity: 2, unitPrice: 50, discountPercentage: 30 }],
+        }),
+      });
+
+      const response = await PUT(request, params('quote-1'));
+
+      expect(response.status).toBe(200);
+      expect(mockRpc).toHaveBeenCalledWith('save_quote_edit', expect.objectContaining({
+        p_expected_status: 'sent',
+        p_to_status: 'pending_approval',
+        p_metadata: expect.objectContaining({
+          approval: { reasons: [expect.objectContaining({ code: 'line_discount', actual: 30 })] },
+        }),
+      }));
+
+      const { notifyApprovers } = jest.requireMock('@/lib/quoteNotifications');
+      expect(notifyApprovers).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'quote-1' }),
+        [expect.objectContaining({ code: 'line_discount' })],
+        expect.any(String)
+      );
+    });
+
+    it('should measure a revision discount from the catalog price, not the client one', async () => {
+      const sentRow = { ...quoteRow, status: 'sent', revision: 1, sent_at: '2024-01-02T00:00:00Z' };
+      queueResult('quotes', { data: sentRow, error: null });
+      queueResult('merchant_settings', { data: { shop_id: 'shop-1', approval_max_line_discount: 20 }, error: null });
+      (priceLineItemsFromCatalog as jest.Mock).mockImplementationOnce(async (_shop, items) =>
+        items.map((item: object) => ({ ...item, originalPrice: 100 }))
+      );
+      mockRpc.mockResolvedValueOnce({ data: { ...sentRow, status: 'pending_approval', revision: 2 }, error: null });
+      queueResult('quotes', { data: { ...sentRow, status: 'pending_approval', revision: 2 }, error: null });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', {
+        method: 'PUT',
+        body: JSON.stringify({
+          lineItems: [{
+            productId: 'prod-1',
+            variantId: 'gid://shopify/ProductVariant/11',
+            title: 'Widget',
+            quantity: 2,
+            unitPrice: 50,
+            originalPrice: 50,
+          }],
+        }),
+      });
+
+      const response = await PUT(request, params('quote-1'));
+
+      expect(response.status).toBe(200);
+      expect((priceLineItemsFromCatalog as jest.Mock).mock.calls[0][1][0]).not.toHaveProperty('originalPrice');
+      expect(mockRpc).toHaveBeenCalledWith('save_quote_edit', expect.objectContaining({
+        p_line_items: [expect.objectContaining({ original_price: 100 })],
+        p_to_status: 'pending_approval',
+        p_metadata: expect.objectContaining({
+          approval: { reasons: [expect.objectContaining({ code: 'line_discount', actual: 50 })] },
+        }),
+      }));
+    });
+
+    it('should return 409 when the quote was revised concurrently', async () => {
+      const viewedRow = { ...quoteRow, status: 'viewed', revision: 2 };
+      queueResult('quotes', { data: viewedRow, error: null });
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: 'PT409', message: 'Quote is no longer revision 2' } });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', {
+        method: 'PUT',
+        body: JSON.stringify({ title: 'Changed' }),
+      });
+
+      const response = await PUT(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(json.error.code).toBe('CONFLICT');
+      expect(mockRpc).toHaveBeenCalledWith('save_quote_edit', expect.objectContaining({
+        p_snapshot: expect.objectContaining({ revision: 2 }),
+      }));
+      expect(mockBuilders.quotes).toHaveLength(1);
+    });
+
+    it('should return 409 when a draft changed status before the edit saved', async () => {
+      queueResult('quotes', { data: quoteRow, error: null });
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: 'PT409', message: 'Quote is no longer draft' } });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', {
+        method: 'PUT',
+        body: JSON.stringify({ title: 'Changed' }),
+      });
+
+      const response = await PUT(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(json.error.code).toBe('CONFLICT');
+      expect(mockRpc).toHaveBeenCalledWith('save_quote_edit', expect.objectContaining({
+        p_expected_status: 'draft',
+        p_snapshot: null,
+      }));
+    });
+
+    it('should return 422 when a revision needs an exchange rate the shop does not have', async () => {
+      queueResult('quotes', { data: { ...quoteRow, status: 'sent', revision: 1, currency: 'EUR' }, error: null });
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: 'PT422', message: 'No USD to EUR exchange rate' } });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', {
+        method: 'PUT',
+        body: JSON.stringify({ title: 'Changed' }),
+      });
+
+      const response = await PUT(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(422);
+      expect(json.error.code).toBe('MISSING_EXCHANGE_RATE');
+    });
+
+    it('should reject edits to quotes that are no longer editable', async () => {
+      queueResult('quotes', { data: { ...quoteRow, status: 'accepted' }, error: null });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', {
+        method: 'PUT',
+        body: JSON.stringify({ title: 'Changed' }),
+      });
+
+      const response = await PUT(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(json.error.code).toBe('NOT_EDITABLE');
+      expect(mockBuilders.quotes).toHaveLength(1);
+    });
+
+    it('should validate the update payload', async () => {
+      const request = new Request('http://localhost/api/quotes/quote-1', {
+        method: 'PUT',
+        body: JSON.stringify({ lineItems: [{ title: 'Widget', quantity: 0, unitPrice: 10 }] }),
+      });
+
+      const response = await PUT(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 400 for a malformed body', async () => {
+      const request = new Request('http://localhost/api/quotes/quote-1', { method: 'PUT', body: '{"title":' });
+
+      const response = await PUT(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('INVALID_BODY');
+      expect(mockBuilders.quotes).toBeUndefined();
+    });
+  });
+
+  // ============================================================================
+  // DELETE Tests
+  // ============================================================================
+
+  describe('DELETE /api/quotes/[id]', () => {
+    it('should delete a draft quote', async () => {
+      queueResult('quotes', { data: { id: 'quote-1', status: 'draft' }, error: null });
+      queueResult('quotes', { data: null, error: null });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', { method: 'DELETE' });
+      const response = await DELETE(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.deleted).toBe(true);
+      expect(mockBuilders.quotes[1].delete).toHaveBeenCalled();
+    });
+
+    it('should refuse to delete accepted quotes', async () => {
+      queueResult('quotes', { data: { id: 'quote-1', status: 'accepted' }, error: null });
+
+      const request = new Request('http://localhost/api/quotes/quote-1', { method: 'DELETE' });
+      const response = await DELETE(request, params('quote-1'));
+      const json = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(json.error.code).toBe('NOT_DELETABLE');
+    });
+
+    it('should return 404 when the quote does not exist', async () => {
+      queueResult('quotes', { data: null, error: { code: 'PGRST116', message: 'No rows' } });
+
+      const request = new Request('http://localhost/api/quotes/missing', { method: 'DELETE' });
+      const response = await DELETE(request, params('missing'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit Tests for Quote Approval API Route
+ * @module app/api/quotes/[id]/approval/__tests__/route
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { QuoteStatus } from '@/types/quote';
+
+// Mock the request-scoped Supabase client
+const mockSupabase = { from: jest.fn(), rpc: jest.fn() };
+
+jest.mock('@/lib/supabaseServer', () => ({
+  createRequestClient: jest.fn(() => mockSupabase),
+}));
+
+// Mock email module
+jest.mock('@/lib/email', () => ({
+  ...jest.requireActual('@/lib/email'),
+  sendEmail: jest.fn().mockResolvedValue({ id: 'email-123' }),
+}));
+
+// Mock buyer links
+jest.mock('@/lib/quoteAccess', () => ({
+  createPublicQuoteUrl: jest.fn().mockResolvedValue('http://localhost:3000/q/test-token'),
+}));
+
+describe('Quote Approval API', () => {
+  const pendingQuote = {
+    id: 'quote-123',
+    shop_id: 'shop-1',
+    quote_number: 'QT-001',
+    status: QuoteStatus.PENDING_APPROVAL,
+    customer_email: 'test@example.com',
+  };
+
+  const mockQuote = (quote: object | null, error: unknown = null) => {
+    const chain: Record<string, jest.Mock> = {
+      select: jest.fn(() => chain),
+      eq: jest.fn(() => chain),
+      single: jest.fn(() => Promise.resolve({ data: quote, error })),
+    };
+    mockSupabase.from.mockReturnValue(chain);
+    mockSupabase.rpc.mockImplementation((_fn: string, args: { p_to_status: string }) =>
+      Promise.resolve({ data: { ...quote, status: args.p_to_status, updated_at: '2024-02-26T10:00:00Z' }, error: null }));
+  };
+
+  const createRequest = (body: object, role = 'admin') => {
+    return new NextRequest('http://localhost:3000/api/quotes/quote-123/approval', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: {
+        'Content-Type': 'application/json',
+        'x-user-id': 'user-1',
+        'x-user-name': 'Jane Admin',
+        'x-member-role': role,
+      },
+    });
+  };
+
+  const params = { params: Promise.resolve({ id: 'quote-123' }) };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should approve and send the quote', async () => {
+    mockQuote(pendingQuote);
+
+    const response = await POST(createRequest({ decision: 'approve' }), params);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.data.quote.status).toBe(QuoteStatus.SENT);
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+      p_from_status: QuoteStatus.PENDING_APPROVAL,
+      p_to_status: QuoteStatus.SENT,
+      p_metadata: { approval: { decision: 'approved', decidedBy: 'user-1', decidedByName: 'Jane Admin' } },
+      p_activity_description: 'Discounts approved by Jane Admin',
+    }));
+
+    const { sendEmail } = jest.requireMock('@/lib/email');
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'test@example.com',
+      type: 'quote_sent',
+    }));
+  });
+
+  it('should reject the quote back to draft with the comment', async () => {
+    mockQuote(pendingQuote);
+
+    const response = await POST(createRequest({ decision: 'reject', comment: 'Margin too thin' }), params);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.data.quote.status).toBe(QuoteStatus.DRAFT);
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+      p_to_status: QuoteStatus.DRAFT,
+      p_comment: 'Margin too thin',
+      p_metadata: { approval: expect.objectContaining({ decision: 'rejected' }) },
+    }));
+
+    const { sendEmail } = jest.requireMock('@/lib/email');
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should require a comment to reject', async () => {
+    const response = await POST(createRequest({ decision: 'reject', comment: '  ' }), params);
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.code).toBe('VALIDATION_ERROR');
+    expect(body.error.details.comment).toEqual(['Say why the quote is rejected']);
+  });
+
+  it('should return 403 for members who may not approve', async () => {
+    const response = await POST(createRequest({ decision: 'approve' }, 'sales'), params);
+
+    expect(response.status).toBe(403);
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when the quote is not waiting for approval', async () => {
+    mockQuote({ ...pendingQuote, status: QuoteStatus.DRAFT });
+
+    const response = await POST(createRequest({ decision: 'approve' }), params);
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.code).toBe('NOT_PENDING_APPROVAL');
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for a missing quote', async () => {
+    mockQuote(null, { code: 'PGRST116' });
+
+    const response = await POST(createRequest({ decision: 'approve' }), params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 409 when someone else decided first', async () => {
+    mockQuote(pendingQuote);
+    mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: 'PT409', message: 'Quote status changed' } });
+
+    const response = await POST(createRequest({ decision: 'approve' }), params);
+
+    expect(response.status).toBe(409);
+    const body = await response.json();
+    expect(body.error.code).toBe('CONFLICT');
+  });
+
+  it('should return 403 when the database refuses the decision', async () => {
+    mockQuote(pendingQuote);
+    mockSupabase.rpc.mockResolvedValue({
+      data: null,
+      error: { code: 'PT403', message: 'Only owners and admins can decide on quotes pending approval' },
+    });
+
+    const response = await POST(createRequest({ decision: 'approve' }), params);
+
+    expect(response.status).toBe(403);
+    const body = await response.json();
+    expect(body.error.code).toBe('FORBIDDEN');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Quote Approval API Route
+ * POST /api/quotes/[id]/approval - Approve a quote held back for its discounts,
+ *                                  which sends it, or reject it back to draft
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { ApprovalMetadata } from '@/lib/approvals';
+import { requirePermission } from '@/lib/members';
+import { getRequestActor } from '@/lib/permissions';
+import { sendStatusNotification } from '@/lib/quoteNotifications';
+import { transitionQuoteStatus, type QuoteTransitionResult } from '@/lib/quoteTransitions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { StatusChangeRecord } from '@/lib/quoteWorkflow';
+import type { ApiResponse, SupabaseQuote } from '@/types/quote';
+import { QuoteStatus } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const approvalSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  comment: z.string().trim().max(1000).optional(),
+}).refine((body) => body.decision === 'approve' || !!body.comment, {
+  message: 'Say why the quote is rejected',
+  path: ['comment'],
+});
+
+interface ApprovalResult {
+  quote: SupabaseQuote;
+  transition: StatusChangeRecord;
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Decide on Approval
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'quotes:approve');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Quote ID is required');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, 'INVALID_BODY', 'Invalid JSON in request body');
+    }
+
+    // Validate input
+    const validationResult = approvalSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid approval decision',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const { decision, comment } = validationResult.data;
+
+    const { data: quote, error: fetchError } = await supabase
+      .from('quotes')
+      .select('id, status')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !quote) {
+      if (fetchError?.code === 'PGRST116') {
+        return errorResponse(404, 'NOT_FOUND', 'Quote not found');
+      }
+      console.error('Error fetching quote:', fetchError);
+      return errorResponse(500, 'DATABASE_ERROR', 'Failed to fetch quote');
+    }
+
+    if ((quote as { status: string }).status !== QuoteStatus.PENDING_APPROVAL) {
+      return errorResponse(400, 'NOT_PENDING_APPROVAL', 'This quote is not waiting for approval');
+    }
+
+    const actor = getRequestActor(request);
+    const approval: ApprovalMetadata = {
+      decision: decision === 'approve' ? 'approved' : 'rejected',
+      decidedBy: actor.id,
+      decidedByName: actor.name,
+    };
+
+    // The decision is recorded with the transition, in one transaction
+    let result: QuoteTransitionResult;
+    try {
+      result = await transitionQuoteStatus(supabase, {
+        quoteId: id,
+        fromStatus: QuoteStatus.PENDING_APPROVAL,
+        toStatus: decision === 'approve' ? QuoteStatus.SENT : QuoteStatus.DRAFT,
+        changedBy: actor.id,
+        changedByName: actor.name,
+        comment: comment || undefined,
+        metadata: { approval },
+        description: decision === 'approve'
+          ? `Discounts approved by ${actor.name}`
+          : `Discounts rejected by ${actor.name}`,
+      });
+    } catch (error) {
+      console.error('Error recording approval decision:', error);
+      return errorResponse(500, 'UPDATE_ERROR', 'Failed to record the decision');
+    }
+
+    if (result.status === 'not_found') {
+      return errorResponse(404, 'NOT_FOUND', 'Quote not found');
+    }
+
+    if (result.status === 'forbidden') {
+      return errorResponse(403, 'FORBIDDEN', result.message);
+    }
+
+    if (result.status === 'missing_rate') {
+      return errorResponse(422, 'MISSING_EXCHANGE_RATE', `${result.message}; add it under Settings before approving`);
+    }
+
+    if (result.status !== 'applied') {
+      return errorResponse(409, 'CONFLICT', 'Someone else decided on this quote in the meantime; reload to see it');
+    }
+
+    if (decision === 'approve') {
+      try {
+        await sendStatusNotification(supabase, result.quote, QuoteStatus.SENT);
+      } catch (error) {
+        console.error('Error sending notification:', error);
+        // The quote is sent either way; it can be emailed again from the quote page
+      }
+    }
+
+    return NextResponse.json<ApiResponse<ApprovalResult>>({
+      success: true,
+      data: { quote: result.quote, transition: result.transition },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/quotes/[id]/approval:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * API Integration Tests - Quote Conversion Route
+ * Tests for POST /api/quotes/[id]/convert
+ * @module src/app/api/quotes/[id]/convert/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+const mockGetShopAccessToken = jest.fn();
+const mockCreateDraftOrder = jest.fn();
+const mockResolveShopifyPurchaser = jest.fn();
+
+jest.mock('@/lib/shops', () => ({
+  getShopAccessToken: (shop: string) => mockGetShopAccessToken(shop),
+}));
+
+jest.mock('@/lib/draftOrders', () => ({
+  createDraftOrder: (...args: unknown[]) => mockCreateDraftOrder(...args),
+}));
+
+jest.mock('@/lib/shopifyCustomers', () => ({
+  resolveShopifyPurchaser: (...args: unknown[]) => mockResolveShopifyPurchaser(...args),
+}));
+
+// Import after mocks are set up
+import { POST } from '@/app/api/quotes/[id]/convert/route';
+import { mockBuilders, mockRpc, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Quote Conversion API', () => {
+  const quoteRow = {
+    id: 'quote-1',
+    shop_id: 'test-shop.myshopify.com',
+    quote_number: 'QT-001',
+    customer_id: 'cust-1',
+    customer_email: 'john@example.com',
+    customer_name: 'John Doe',
+    title: 'Widgets',
+    priority: 'medium',
+    status: 'accepted',
+    subtotal: 100,
+    discount_total: 0,
+    tax_rate: 0,
+    tax_total: 0,
+    shipping_total: 0,
+    total: 100,
+    currency: 'USD',
+    terms: {},
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    line_items: [],
+  };
+
+  const draftOrder = {
+    id: 'gid://shopify/DraftOrder/1',
+    name: '#D1',
+    invoiceUrl: 'https://test-shop.myshopify.com/invoices/abc',
+  };
+
+  const params = { params: Promise.resolve({ id: 'quote-1' }) };
+
+  const createRequest = (body?: unknown) =>
+    new Request('http://localhost/api/quotes/quote-1/convert', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-user-id': 'user-1', 'x-user-name': 'Alice' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+    mockGetShopAccessToken.mockResolvedValue('shpat_123');
+    mockCreateDraftOrder.mockResolvedValue(draftOrder);
+    mockResolveShopifyPurchaser.mockResolvedValue(undefined);
+  });
+
+  it('should create a draft order and convert the quote', async () => {
+    queueResult('quotes', { data: quoteRow, error: null });
+    mockRpc.mockResolvedValueOnce({
+      data: {
+        ...quoteRow,
+        line_items: undefined,
+        status: 'converted',
+        shopify_draft_order_id: draftOrder.id,
+        shopify_draft_order_name: draftOrder.name,
+        shopify_invoice_url: draftOrder.invoiceUrl,
+      },
+      error: null,
+    });
+
+    const response = await POST(createRequest({ comment: 'PO received' }), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data.status).toBe('converted');
+    expect(json.data.shopifyInvoiceUrl).toBe(draftOrder.invoiceUrl);
+    expect(mockCreateDraftOrder).toHaveBeenCalledWith(
+      'test-shop.myshopify.com',
+      'shpat_123',
+      expect.objectContaining({ id: 'quote-1', quoteNumber: 'QT-001' }),
+      undefined
+    );
+    expect(mockRpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+      p_quote_id: 'quote-1',
+      p_from_status: 'accepted',
+      p_to_status: 'converted',
+      p_changed_by: 'user-1',
+      p_activity_type: 'quote_converted',
+      p_comment: 'PO received',
+      p_metadata: { draftOrderId: draftOrder.id, draftOrderName: '#D1' },
+      p_changes: {
+        shopify_draft_order_id: draftOrder.id,
+        shopify_draft_order_name: draftOrder.name,
+        shopify_invoice_url: draftOrder.invoiceUrl,
+      },
+    }));
+    expect(mockBuilders.quotes).toHaveLength(1);
+  });
+
+  it('should return 409 when the quote changed while the draft order was created', async () => {
+    queueResult('quotes', { data: quoteRow, error: null });
+    mockRpc.mockResolvedValueOnce({ data: null, error: { code: 'PT409', message: 'Quote quote-1 is no longer accepted' } });
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(json.error.code).toBe('CONFLICT');
+  });
+
+  it('should place the draft order for the customer\'s Shopify company location', async () => {
+    const customer = { id: 'cust-1', email: 'john@example.com', shopify_company_location_id: 'gid://shopify/CompanyLocation/2' };
+    const purchasingEntity = {
+      purchasingCompany: {
+        companyId: 'gid://shopify/Company/1',
+        companyLocationId: 'gid://shopify/CompanyLocation/2',
+        companyContactId: 'gid://shopify/CompanyContact/3',
+      },
+    };
+    queueResult('quotes', { data: { ...quoteRow, customer }, error: null });
+    mockRpc.mockResolvedValueOnce({ data: { ...quoteRow, status: 'converted' }, error: null });
+    mockResolveShopifyPurchaser.mockResolvedValue(purchasingEntity);
+
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(200);
+    expect(mockResolveShopifyPurchaser).toHaveBeenCalledWith(expect.anything(), 'test-shop.myshopify.com', 'shpat_123', customer);
+    expect(mockCreateDraftOrder).toHaveBeenCalledWith('test-shop.myshopify.com', 'shpat_123', expect.anything(), purchasingEntity);
+  });
+
+  it('should still convert when the Shopify customer cannot be found', async () => {
+    queueResult('quotes', { data: { ...quoteRow, customer: { id: 'cust-1', email: 'john@example.com' } }, error: null });
+    mockRpc.mockResolvedValueOnce({ data: { ...quoteRow, status: 'converted' }, error: null });
+    mockResolveShopifyPurchaser.mockRejectedValue(new Error('Shopify GraphQL error: Access denied'));
+
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(200);
+    expect(mockCreateDraftOrder).toHaveBeenCalledWith('test-shop.myshopify.com', 'shpat_123', expect.anything(), undefined);
+  });
+
+  it('should accept a request without a body', async () => {
+    queueResult('quotes', { data: quoteRow, error: null });
+    mockRpc.mockResolvedValueOnce({ data: { ...quoteRow, status: 'converted' }, error: null });
+
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should return 404 when the quote does not exist', async () => {
+    queueResult('quotes', { data: null, error: { code: 'PGRST116', message: 'not found' } });
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(json.error.code).toBe('NOT_FOUND');
+  });
+
+  it('should only convert accepted quotes', async () => {
+    queueResult('quotes', { data: { ...quoteRow, status: 'sent' }, error: null });
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error.code).toBe('INVALID_TRANSITION');
+    expect(mockCreateDraftOrder).not.toHaveBeenCalled();
+  });
+
+  it('should only let the roles the shop workflow names convert', async () => {
+    queueResult('quotes', { data: quoteRow, error: null });
+    queueResult('quote_workflows', {
+      data: {
+        shop_id: 'test-shop.myshopify.com',
+        statuses: [],
+        transitions: [{ from: ['accepted'], to: 'converted', action: 'Convert', allowedRoles: ['owner'] }],
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      },
+      error: null,
+    });
+    const request = createRequest();
+    request.headers.set('x-member-role', 'sales');
+
+    const response = await POST(request, params);
+    const json = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(json.error.code).toBe('FORBIDDEN');
+    expect(mockBuilders.quote_workflows[0].eq).toHaveBeenCalledWith('shop_id', 'test-shop.myshopify.com');
+    expect(mockCreateDraftOrder).not.toHaveBeenCalled();
+  });
+
+  it('should not create a second draft order', async () => {
+    queueResult('quotes', {
+      data: { ...quoteRow, status: 'converted', shopify_draft_order_id: draftOrder.id },
+      error: null,
+    });
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(json.error.code).toBe('ALREADY_CONVERTED');
+    expect(mockCreateDraftOrder).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the app is not installed', async () => {
+    queueResult('quotes', { data: quoteRow, error: null });
+    mockGetShopAccessToken.mockResolvedValue(null);
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(json.error.code).toBe('SHOP_NOT_INSTALLED');
+  });
+
+  it('should return 502 and leave the quote unchanged when Shopify fails', async () => {
+    queueResult('quotes', { data: quoteRow, error: null });
+    mockCreateDraftOrder.mockRejectedValue(new Error('Shopify rejected the draft order: email: is invalid'));
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(json.error.code).toBe('SHOPIFY_ERROR');
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Quote Conversion API Route
+ * POST /api/quotes/[id]/convert - Create a Shopify draft order from an accepted quote
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createDraftOrder, type DraftOrder } from '@/lib/draftOrders';
+import { getRequestActor, getRequestMember } from '@/lib/permissions';
+import { transitionQuoteStatus } from '@/lib/quoteTransitions';
+import { validateTransition } from '@/lib/quoteWorkflow';
+import { QUOTE_SELECT, mapQuoteRow, type QuoteRowWithRelations } from '@/lib/quotes';
+import { resolveShopifyPurchaser, type ShopifyPurchasingEntity } from '@/lib/shopifyCustomers';
+import { getShopAccessToken } from '@/lib/shops';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { getShopWorkflow } from '@/lib/workflows';
+import type { ApiResponse, QuoteWithRelations } from '@/types/quote';
+import { QuoteStatus } from '@/types/quote';
+
+const convertQuoteSchema = z.object({
+  comment: z.string().max(1000).optional(),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Convert Quote to Draft Order
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Quote ID is required');
+    }
+
+    // The body is optional; an empty request converts without a comment
+    const rawBody = await request.text();
+    let body: unknown = {};
+    try {
+      body = rawBody ? JSON.parse(rawBody) : {};
+    } catch {
+      return errorResponse(400, 'INVALID_BODY', 'Invalid JSON in request body');
+    }
+
+    const parsed = convertQuoteSchema.safeParse(body);
+    if (!parsed.success) {
+      return errorResponse(400, 'VALIDATION_ERROR', 'Invalid request data');
+    }
+
+    const client = createRequestClient(request);
+
+    const { data, error: fetchError } = await client
+      .from('quotes')
+      .select(QUOTE_SELECT)
+      .eq('id', id)
+      .single();
+
+    const row = data as QuoteRowWithRelations | null;
+
+    if (fetchError || !row) {
+      if (!fetchError || (fetchError as { code?: string }).code === 'PGRST116') {
+        return errorResponse(404, 'NOT_FOUND', 'Quote not found');
+      }
+      console.error('Error fetching quote:', fetchError);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch quote');
+    }
+
+    if (row.shopify_draft_order_id) {
+      return errorResponse(409, 'ALREADY_CONVERTED', `Quote was already converted to draft order ${row.shopify_draft_order_name || row.shopify_draft_order_id}`);
+    }
+
+    const workflow = await getShopWorkflow(client, row.shop_id);
+    const validation = validateTransition(row.status, QuoteStatus.CONVERTED, {
+      userRole: getRequestMember(request)?.role ?? undefined,
+      comment: parsed.data.comment,
+      workflow,
+    });
+    if (!validation.success) {
+      return validation.reason === 'forbidden'
+        ? errorResponse(403, 'FORBIDDEN', validation.error || 'You do not have permission to perform this action')
+        : validation.reason === 'comment_required'
+          ? errorResponse(400, 'COMMENT_REQUIRED', validation.error || 'A comment is required')
+          : errorResponse(400, 'INVALID_TRANSITION', 'Only accepted quotes can be converted to a draft order');
+    }
+
+    const accessToken = await getShopAccessToken(row.shop_id);
+    if (!accessToken) {
+      return errorResponse(404, 'SHOP_NOT_INSTALLED', 'The app is not installed on this shop');
+    }
+
+    const quote = mapQuoteRow(row);
+
+    // Without a Shopify customer the draft order still carries the email
+    let purchasingEntity: ShopifyPurchasingEntity | undefined;
+    if (row.customer) {
+      try {
+        purchasingEntity = await resolveShopifyPurchaser(client, row.shop_id, accessToken, row.customer);
+      } catch (error) {
+        console.error('Error resolving Shopify customer:', error);
+      }
+    }
+
+    let draftOrder: DraftOrder;
+    try {
+      draftOrder = await createDraftOrder(row.shop_id, accessToken, quote, purchasingEntity);
+    } catch (error) {
+      console.error('Error creating draft order:', error);
+      return errorResponse(502, 'SHOPIFY_ERROR', error instanceof Error ? error.message : 'Failed to create draft order');
+    }
+
+    const { id: userId, name: userName } = getRequestActor(request);
+    const draftOrderMetadata = { draftOrderId: draftOrder.id, draftOrderName: draftOrder.name };
+
+    // Store the draft order with the status so a retry cannot create a second one
+    const result = await transitionQuoteStatus(client, {
+      quoteId: id,
+      fromStatus: row.status,
+      toStatus: QuoteStatus.CONVERTED,
+      changedBy: userId,
+      changedByName: userName,
+      comment: parsed.data.comment,
+      metadata: draftOrderMetadata,
+      description: `Quote ${row.quote_number} converted to draft order ${draftOrder.name}`,
+      changes: {
+        shopify_draft_order_id: draftOrder.id,
+        shopify_draft_order_name: draftOrder.name,
+        shopify_invoice_url: draftOrder.invoiceUrl,
+      },
+    });
+
+    if (result.status !== 'applied') {
+      console.error(`Quote ${id} changed while draft order ${draftOrder.name} was created:`, result.status);
+      return errorResponse(409, 'CONFLICT', 'The quote status changed in the meantime; reload and try again');
+    }
+
+    return NextResponse.json<ApiResponse<QuoteWithRelations>>({
+      success: true,
+      data: mapQuoteRow({ ...row, ...result.quote } as QuoteRowWithRelations),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/quotes/[id]/convert:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * API Integration Tests - Quote Email Route
+ * Tests for POST /api/quotes/[id]/email
+ * @module src/app/api/quotes/[id]/email/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+const mockSendEmail = jest.fn();
+
+jest.mock('@/lib/email', () => ({
+  ...jest.requireActual('@/lib/email'),
+  sendEmail: (...args: unknown[]) => mockSendEmail(...args),
+}));
+
+jest.mock('@/lib/quoteAccess', () => ({
+  createPublicQuoteUrl: jest.fn().mockResolvedValue('http://localhost:3000/q/test-token'),
+}));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/quotes/[id]/email/route';
+import { queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('Quote Email API', () => {
+  const quoteRow = {
+    id: 'quote-1',
+    shop_id: 'test-shop.myshopify.com',
+    quote_number: 'QT-001',
+    title: 'Widgets',
+    status: 'viewed',
+    customer_email: 'john@example.com',
+  };
+
+  const params = { params: Promise.resolve({ id: 'quote-1' }) };
+  const createRequest = () => new NextRequest('http://localhost/api/quotes/quote-1/email', { method: 'POST' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  it('should email the buyer link with the quote PDF attached', async () => {
+    queueResult('quotes', { data: quoteRow, error: null });
+    mockSendEmail.mockResolvedValue({ id: 'msg-1' });
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data.messageId).toBe('msg-1');
+    expect(mockSendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'john@example.com',
+      subject: 'Quote QT-001 - Ready for Review',
+      html: expect.stringContaining('href="http://localhost:3000/q/test-token"'),
+      type: 'quote_sent',
+      shopId: 'test-shop.myshopify.com',
+      quoteId: 'quote-1',
+      attachQuotePdf: true,
+    }));
+  });
+
+  it('should copy in the customer\'s finance contacts', async () => {
+    queueResult('quotes', { data: { ...quoteRow, customer_id: 'cust-1' }, error: null });
+    queueResult('customer_contacts', {
+      data: [{ email: 'AP@example.com' }, { email: 'john@example.com' }],
+      error: null,
+    });
+    mockSendEmail.mockResolvedValue({ id: 'msg-2' });
+
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(200);
+    expect(mockSendEmail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'john@example.com',
+      cc: ['ap@example.com'],
+    }));
+  });
+
+  it('should not email a quote that has not been sent', async () => {
+    queueResult('quotes', { data: { ...quoteRow, status: 'draft' }, error: null });
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error.code).toBe('QUOTE_NOT_SENT');
+    expect(mockSendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown quote', async () => {
+    queueResult('quotes', { data: null, error: { code: 'PGRST116', message: 'No rows' } });
+
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should report transport failures', async () => {
+    queueResult('quotes', { data: quoteRow, error: null });
+    mockSendEmail.mockRejectedValue(new Error('Connection refused'));
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(json.error.code).toBe('EMAIL_FAILED');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Quote Email API Route
+ * POST /api/quotes/[id]/email - Email the quote to the customer with a buyer link and the PDF
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuoteCcAddresses } from '@/lib/customerContacts';
+import { quoteNotificationEmailTemplate, sendEmail } from '@/lib/email';
+import { getRequestActor } from '@/lib/permissions';
+import { createPublicQuoteUrl } from '@/lib/quoteAccess';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse } from '@/types/quote';
+import { QuoteStatus } from '@/types/quote';
+
+// Quotes the buyer has not been sent yet have no link they could open
+const UNSENT_STATUSES: string[] = [QuoteStatus.DRAFT, QuoteStatus.PENDING, QuoteStatus.PENDING_APPROVAL];
+
+interface QuoteEmailRow {
+  id: string;
+  shop_id: string;
+  quote_number: string;
+  title: string;
+  status: string;
+  customer_id: string | null;
+  customer_email: string | null;
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Send Quote Email
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Quote ID is required');
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('quotes')
+      .select('id, shop_id, quote_number, title, status, customer_id, customer_email')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !data) {
+      if (fetchError?.code === 'PGRST116') {
+        return errorResponse(404, 'NOT_FOUND', 'Quote not found');
+      }
+      console.error('Error fetching quote:', fetchError);
+      return errorResponse(500, 'DATABASE_ERROR', 'Failed to fetch quote');
+    }
+
+    const quote = data as QuoteEmailRow;
+
+    if (UNSENT_STATUSES.includes(quote.status)) {
+      return errorResponse(400, 'QUOTE_NOT_SENT', 'Send the quote before emailing it to the customer');
+    }
+
+    if (!quote.customer_email) {
+      return errorResponse(400, 'MISSING_EMAIL', 'Quote has no customer email');
+    }
+
+    const { id: userId } = getRequestActor(request);
+    const { subject, html } = quoteNotificationEmailTemplate({
+      status: QuoteStatus.SENT,
+      quoteTitle: quote.title,
+      quoteNumber: quote.quote_number,
+      viewUrl: await createPublicQuoteUrl(quote.id, userId),
+    });
+
+    const { id: messageId } = await sendEmail({
+      to: quote.customer_email,
+      cc: await getQuoteCcAddresses(supabase, quote),
+      subject,
+      html,
+      type: 'quote_sent',
+      shopId: quote.shop_id,
+      quoteId: quote.id,
+      attachQuotePdf: true,
+    });
+
+    return NextResponse.json<ApiResponse<{ messageId: string }>>({
+      success: true,
+      data: { messageId },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/quotes/[id]/email:', error);
+    return errorResponse(500, 'EMAIL_FAILED', 'Failed to send quote email');
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Quote PDF API Route
+ * GET /api/quotes/[id]/pdf - Download the quote as a PDF, branded with the shop's company details
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { renderQuotePdfAttachment } from '@/lib/quotePdf';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - Download Quote PDF
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Quote ID is required');
+    }
+
+    // Rendering reads as the service role, so check the member can see the quote first
+    const { error: fetchError } = await supabase
+      .from('quotes')
+      .select('id')
+      .eq('id', id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return errorResponse(404, 'NOT_FOUND', 'Quote not found');
+      }
+      console.error('Error fetching quote:', fetchError);
+      return errorResponse(500, 'DATABASE_ERROR', 'Failed to fetch quote');
+    }
+
+    const pdf = await renderQuotePdfAttachment(id);
+
+    return new NextResponse(new Uint8Array(pdf.content), {
+      headers: {
+        'Content-Type': pdf.contentType ?? 'application/pdf',
+        'Content-Disposition': `attachment; filename="${pdf.filename}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/quotes/[id]/pdf:', error);
+    return errorResponse(500, 'PDF_FAILED', 'Failed to render quote PDF');
+  }
+}
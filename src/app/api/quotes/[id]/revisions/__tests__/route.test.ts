@@ -0,0 +1,85 @@
+/**
+ * API Integration Tests - Quote Revisions Route
+ * Tests for GET /api/quotes/[id]/revisions
+ * @module src/app/api/quotes/[id]/revisions/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { GET } from '@/app/api/quotes/[id]/revisions/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+describe('GET /api/quotes/[id]/revisions', () => {
+  const quoteRow = {
+    id: 'quote-1',
+    shop_id: 'shop-1',
+    quote_number: 'QT-001',
+    customer_email: 'john@example.com',
+    title: 'Widgets v2',
+    status: 'sent',
+    revision: 2,
+    subtotal: 150,
+    discount_total: 0,
+    tax_rate: 0,
+    tax_total: 0,
+    shipping_total: 0,
+    total: 150,
+    currency: 'USD',
+    terms: {},
+    metadata: {},
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-03T00:00:00Z',
+    line_items: [],
+  };
+
+  const revisionRow = {
+    id: 'rev-1',
+    quote_id: 'quote-1',
+    shop_id: 'shop-1',
+    revision: 1,
+    title: 'Widgets',
+    status: 'viewed',
+    line_items: [],
+    terms: {},
+    currency: 'USD',
+    subtotal: 100,
+    discount_total: 0,
+    tax_rate: 0,
+    tax_total: 0,
+    shipping_total: 0,
+    total: 100,
+    superseded_by_name: 'Jane',
+    superseded_at: '2024-01-03T00:00:00Z',
+  };
+
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  it('should list frozen revisions followed by the current version', async () => {
+    queueResult('quotes', { data: quoteRow, error: null });
+    queueResult('quote_revisions', { data: [revisionRow], error: null });
+
+    const response = await GET(new Request('http://localhost/api/quotes/quote-1/revisions'), params('quote-1'));
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data).toHaveLength(2);
+    expect(json.data[0]).toMatchObject({ revision: 1, isCurrent: false, title: 'Widgets', total: 100 });
+    expect(json.data[1]).toMatchObject({ revision: 2, isCurrent: true, title: 'Widgets v2', total: 150 });
+    expect(mockBuilders.quote_revisions[0].order).toHaveBeenCalledWith('revision', { ascending: true });
+  });
+
+  it('should return 404 when the quote does not exist', async () => {
+    queueResult('quotes', { data: null, error: null });
+
+    const response = await GET(new Request('http://localhost/api/quotes/missing/revisions'), params('missing'));
+
+    expect(response.status).toBe(404);
+    expect(mockBuilders.quote_revisions).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Quote Revisions API Route
+ * GET /api/quotes/[id]/revisions - Every version of a quote, oldest first;
+ *                                  the last entry is the live quote
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { QUOTE_SELECT, mapQuoteRow, type QuoteRowWithRelations } from '@/lib/quotes';
+import { mapRevisionRow, toCurrentRevision, type QuoteRevisionRow } from '@/lib/quoteRevisions';
+import type { ApiResponse, QuoteRevision } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - List Revisions
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const client = createRequestClient(request);
+
+    const { data: quoteRow, error: quoteError } = await client
+      .from('quotes')
+      .select(QUOTE_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (quoteError) {
+      console.error('Error fetching quote:', quoteError);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch quote');
+    }
+
+    if (!quoteRow) {
+      return errorResponse(404, 'NOT_FOUND', 'Quote not found');
+    }
+
+    const { data: revisionRows, error } = await client
+      .from('quote_revisions')
+      .select('*')
+      .eq('quote_id', id)
+      .order('revision', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching quote revisions:', error);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch quote revisions');
+    }
+
+    return NextResponse.json<ApiResponse<QuoteRevision[]>>({
+      success: true,
+      data: [
+        ...((revisionRows || []) as QuoteRevisionRow[]).map(mapRevisionRow),
+        toCurrentRevision(mapQuoteRow(quoteRow as QuoteRowWithRelations)),
+      ],
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/quotes/[id]/revisions:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,529 @@
+/**
+ * Quote Detail API Routes
+ * GET /api/quotes/[id] - Get a quote with customer, line items, history and activity
+ * PUT /api/quotes/[id] - Update quote content and line items; sent and viewed
+ *                        quotes are saved as their next revision, which waits
+ *                        for approval when it is past the shop's discount limits
+ * DELETE /api/quotes/[id] - Delete a quote
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { evaluateQuoteApproval, type ApprovalCheck } from '@/lib/approvals';
+import { canEditQuote, canReviseQuote } from '@/lib/quoteWorkflow';
+import { notifyApprovers } from '@/lib/quoteNotifications';
+import { priceLineItemsFromCatalog } from '@/lib/products';
+import { saveQuoteEdit } from '@/lib/quoteEdits';
+import { buildRevisionSnapshot } from '@/lib/quoteRevisions';
+import { getRequestActor } from '@/lib/permissions';
+import { getMerchantSettings } from '@/lib/settings';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { getQuoteTaxContext, listTaxRules, resolveTaxContext } from '@/lib/tax';
+import {
+  QUOTE_SELECT,
+  buildLineItemRows,
+  calculateQuoteTotals,
+  formatQuoteNumber,
+  mapQuoteRow,
+  toLineItemInput,
+  type ActivityRow,
+  type LineItemDraft,
+  type QuoteRowWithRelations,
+  type StatusHistoryRow,
+} from '@/lib/quotes';
+import type { ApiResponse, QuoteWithRelations, SupabaseCustomer } from '@/types/quote';
+import { ActivityType, QuotePriority, QuoteStatus } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const lineItemSchema = z.object({
+  productId: z.string().optional(),
+  variantId: z.string().optional(),
+  title: z.string().min(1, 'Item title is required').max(500),
+  variantTitle: z.string().optional(),
+  sku: z.string().optional(),
+  quantity: z.number().int().positive('Quantity must be greater than 0'),
+  unitPrice: z.number().nonnegative('Unit price cannot be negative'),
+  discountPercentage: z.number().min(0).max(100).optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  imageUrl: z.string().optional(),
+  notes: z.string().optional(),
+  customFields: z.record(z.string(), z.string()).optional(),
+});
+
+const updateQuoteSchema = z.object({
+  customerId: z.string().optional(),
+  title: z.string().min(1, 'Title is required').max(200).optional(),
+  priority: z.enum(QuotePriority).optional(),
+  lineItems: z.array(lineItemSchema).min(1, 'At least one line item is required').optional(),
+  discountTotal: z.number().nonnegative().optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  shippingTotal: z.number().nonnegative().optional(),
+  terms: z.object({
+    paymentTerms: z.string(),
+    deliveryTerms: z.string(),
+    validityPeriod: z.number().int().positive(),
+    depositRequired: z.boolean(),
+    depositPercentage: z.number().min(0).max(100).optional(),
+    currency: z.string().regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code').toUpperCase(),
+    notes: z.string().optional(),
+    internalNotes: z.string().optional(),
+  }).partial().optional(),
+  expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function fetchQuoteRow(client: SupabaseClient, id: string) {
+  const { data, error } = await client
+    .from('quotes')
+    .select(QUOTE_SELECT)
+    .eq('id', id)
+    .single();
+
+  return {
+    row: data as QuoteRowWithRelations | null,
+    error: error as { code?: string; message: string } | null,
+  };
+}
+
+function notFound() {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: {
+      code: 'NOT_FOUND',
+      message: 'Quote not found',
+    },
+  }, { status: 404 });
+}
+
+// ============================================================================
+// GET Handler - Get Quote Details
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'MISSING_ID',
+          message: 'Quote ID is required',
+        },
+      }, { status: 400 });
+    }
+
+    const { row, error } = await fetchQuoteRow(supabase, id);
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return notFound();
+      }
+
+      console.error('Error fetching quote:', error);
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch quote',
+        },
+      }, { status: 500 });
+    }
+
+    if (!row) {
+      return notFound();
+    }
+
+    // Fetch status history and recent activity
+    const { data: history } = await supabase
+      .from('quote_status_history')
+      .select('*')
+      .eq('quote_id', id)
+      .order('changed_at', { ascending: false });
+
+    const { data: activities } = await supabase
+      .from('activities')
+      .select('*')
+      .eq('quote_id', id)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    return NextResponse.json<ApiResponse<QuoteWithRelations>>({
+      success: true,
+      data: mapQuoteRow(
+        row,
+        (history || []) as StatusHistoryRow[],
+        (activities || []) as ActivityRow[]
+      ),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/quotes/[id]:', error);
+    return NextResponse.json<ApiResponse<never>>({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+      },
+    }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// PUT Handler - Update Quote
+// ============================================================================
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'MISSING_ID',
+          message: 'Quote ID is required',
+        },
+      }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'INVALID_BODY',
+          message: 'Invalid JSON in request body',
+        },
+      }, { status: 400 });
+    }
+
+    // Validate input
+    const validationResult = updateQuoteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid quote data',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const data = validationResult.data;
+    const client = createRequestClient(request);
+
+    const { row: existing } = await fetchQuoteRow(client, id);
+
+    if (!existing) {
+      return notFound();
+    }
+
+    // Editing a quote the customer already has produces its next revision
+    const isRevision = canReviseQuote(existing.status);
+    const revision = existing.revision ?? 1;
+
+    if (!isRevision && !canEditQuote(existing.status)) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'NOT_EDITABLE',
+          message: `Quotes in ${existing.status} status cannot be edited`,
+        },
+      }, { status: 409 });
+    }
+
+    // Re-point the quote to another customer of the same shop
+    let customer = existing.customer ?? null;
+
+    if (data.customerId && data.customerId !== existing.customer_id) {
+      const { data: nextCustomer } = await client
+        .from('customers')
+        .select('*')
+        .eq('id', data.customerId)
+        .eq('shop_id', existing.shop_id)
+        .maybeSingle();
+
+      if (!nextCustomer) {
+        return NextResponse.json<ApiResponse<never>>({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Customer not found',
+          },
+        }, { status: 404 });
+      }
+      customer = nextCustomer as SupabaseCustomer;
+    }
+
+    // Recompute totals from the resulting line items. Replaced items take
+    // their list price and cost from the catalog, never from the client.
+    const quote = mapQuoteRow(existing);
+    let lineItems: LineItemDraft[] = quote.lineItems;
+    if (data.lineItems) {
+      try {
+        lineItems = await priceLineItemsFromCatalog(existing.shop_id, data.lineItems);
+      } catch (error) {
+        console.error('Error loading catalog prices:', error);
+        return NextResponse.json<ApiResponse<never>>({
+          success: false,
+          error: {
+            code: 'SHOPIFY_ERROR',
+            message: 'Failed to load catalog prices',
+          },
+        }, { status: 502 });
+      }
+    }
+    const discountTotal = data.discountTotal ?? quote.discountTotal;
+    const shippingTotal = data.shippingTotal ?? quote.shippingTotal;
+
+    // The quote keeps the tax it was priced with, unless it moves to a
+    // customer elsewhere or without the same exemption
+    let tax = getQuoteTaxContext(quote);
+    if (customer && customer.id !== existing.customer_id) {
+      const [settings, taxRules] = await Promise.all([
+        getMerchantSettings(existing.shop_id, client),
+        listTaxRules(client, existing.shop_id),
+      ]);
+      tax = resolveTaxContext({
+        rules: taxRules,
+        shippingAddress: customer.shipping_address,
+        taxId: customer.tax_id,
+        taxExempt: customer.tax_exempt,
+        fallbackRate: data.taxRate ?? settings.quotes.taxRate,
+        pricesIncludeTax: tax.pricesIncludeTax,
+      });
+    } else if (data.taxRate !== undefined) {
+      tax = { ...tax, rate: data.taxRate };
+    }
+
+    const totals = calculateQuoteTotals(
+      lineItems.map(toLineItemInput),
+      discountTotal,
+      tax,
+      shippingTotal
+    );
+    const terms = { ...existing.terms, ...data.terms };
+
+    const actor = getRequestActor(request);
+    const changes: Record<string, unknown> = {
+      subtotal: totals.subtotal,
+      discount_total: totals.discountTotal,
+      tax_rate: tax.rate,
+      tax_exempt: tax.exempt,
+      tax_total: totals.taxTotal,
+      shipping_total: shippingTotal,
+      total: totals.total,
+      terms,
+      currency: terms.currency || existing.currency,
+      metadata: {
+        ...existing.metadata,
+        updatedBy: actor.id,
+        updatedByName: actor.name,
+      },
+    };
+
+    if (data.title !== undefined) changes.title = data.title;
+    if (data.priority !== undefined) changes.priority = data.priority;
+    if (data.expiresAt !== undefined) changes.expires_at = data.expiresAt;
+    // Re-saving the line items re-prices the quote, which resolves any drift
+    if (data.lineItems) changes.price_drift_detected_at = null;
+    if (customer && customer.id !== existing.customer_id) {
+      changes.customer_id = customer.id;
+      changes.customer_email = customer.email;
+      changes.customer_name = customer.contact_name;
+      changes.customer_phone = customer.phone || null;
+    }
+
+    // A revision goes out like a send, so it is held back the same way
+    let approval: ApprovalCheck | undefined;
+    if (isRevision) {
+      const { approvals } = await getMerchantSettings(existing.shop_id, client);
+      const check = evaluateQuoteApproval({ lineItems: lineItems.map(toLineItemInput), discountTotal }, approvals);
+      approval = check.required ? check : undefined;
+    }
+    const nextRevision = revision + 1;
+
+    // The current version is frozen, and the new one replaces it on the
+    // customer link, in the same transaction as the edit
+    const result = await saveQuoteEdit(client, {
+      quoteId: id,
+      expectedStatus: existing.status,
+      changes,
+      lineItems: data.lineItems && buildLineItemRows(id, lineItems, tax),
+      revision: isRevision
+        ? {
+          snapshot: buildRevisionSnapshot(existing, actor),
+          toStatus: approval ? QuoteStatus.PENDING_APPROVAL : QuoteStatus.SENT,
+          changedBy: actor.id,
+          changedByName: actor.name,
+          activityType: ActivityType.QUOTE_REVISED,
+          description: `Quote ${formatQuoteNumber(existing.quote_number, nextRevision)} replaces rev ${revision}`,
+          comment: `Revised as rev ${nextRevision}`,
+          metadata: approval
+            ? { revision: nextRevision, previousRevision: revision, approval: { reasons: approval.reasons } }
+            : { revision: nextRevision, previousRevision: revision },
+        }
+        : undefined,
+    });
+
+    if (result.status === 'not_found') {
+      return notFound();
+    }
+
+    // Someone else revised the quote, or changed its status, in the meantime
+    if (result.status === 'conflict') {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'CONFLICT',
+          message: 'This quote has been changed by someone else; reload to see the latest version',
+        },
+      }, { status: 409 });
+    }
+
+    // A revision is sent again, at the current rate, which the shop may not have
+    if (result.status === 'missing_rate') {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'MISSING_EXCHANGE_RATE',
+          message: `${result.message}; add it under Settings before sending`,
+        },
+      }, { status: 422 });
+    }
+
+    if (approval) {
+      try {
+        await notifyApprovers(result.quote, approval.reasons, actor.name);
+      } catch (error) {
+        console.error('Error notifying approvers:', error);
+      }
+    }
+
+    // Read the saved quote back with its new line items
+    const { row: saved } = await fetchQuoteRow(client, id);
+
+    if (!saved) {
+      return notFound();
+    }
+
+    return NextResponse.json<ApiResponse<QuoteWithRelations>>({
+      success: true,
+      data: mapQuoteRow(saved),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in PUT /api/quotes/[id]:', error);
+    return NextResponse.json<ApiResponse<never>>({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+      },
+    }, { status: 500 });
+  }
+}
+
+// ============================================================================
+// DELETE Handler - Delete Quote
+// ============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = createRequestClient(request);
+    const { id } = await params;
+
+    if (!id) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'MISSING_ID',
+          message: 'Quote ID is required',
+        },
+      }, { status: 400 });
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('quotes')
+      .select('id, status')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !existing) {
+      return notFound();
+    }
+
+    // Accepted and converted quotes are part of the sales record
+    const status = (existing as { status: QuoteStatus }).status;
+    if (status === QuoteStatus.ACCEPTED || status === QuoteStatus.CONVERTED) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'NOT_DELETABLE',
+          message: `Quotes in ${status} status cannot be deleted`,
+        },
+      }, { status: 409 });
+    }
+
+    // Line items cascade with the quote
+    const { error: deleteError } = await supabase
+      .from('quotes')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      console.error('Error deleting quote:', deleteError);
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'DELETE_ERROR',
+          message: 'Failed to delete quote',
+        },
+      }, { status: 500 });
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted: true },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/quotes/[id]:', error);
+    return NextResponse.json<ApiResponse<never>>({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+      },
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Quote Share Link API Route
+ * POST   /api/quotes/[id]/share - Create a buyer link for the quote
+ * DELETE /api/quotes/[id]/share - Revoke every buyer link for the quote
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestActor } from '@/lib/permissions';
+import { createPublicQuoteUrl, revokeQuoteAccessTokens } from '@/lib/quoteAccess';
+import type { ApiResponse } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Create Link
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Quote ID is required');
+    }
+
+    const { id: userId } = getRequestActor(request);
+    const url = await createPublicQuoteUrl(id, userId);
+
+    return NextResponse.json<ApiResponse<{ url: string }>>({
+      success: true,
+      data: { url },
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/quotes/[id]/share:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to create quote link');
+  }
+}
+
+// ============================================================================
+// DELETE Handler - Revoke Links
+// ============================================================================
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!id) {
+      return errorResponse(400, 'MISSING_ID', 'Quote ID is required');
+    }
+
+    const revoked = await revokeQuoteAccessTokens(id);
+
+    return NextResponse.json<ApiResponse<{ revoked: number }>>({
+      success: true,
+      data: { revoked },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/quotes/[id]/share:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'Failed to revoke quote links');
+  }
+}
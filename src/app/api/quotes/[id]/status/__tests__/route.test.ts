@@ -5,29 +5,44 @@
 
 import { NextRequest } from 'next/server';
 import { GET, PATCH } from '../route';
-import { supabase } from '@/lib/supabase';
 import { QuoteStatus } from '@/types/quote';
 
-// Mock Supabase
-jest.mock('@/lib/supabase', () => ({
-  supabase: {
-    from: jest.fn(),
-  },
+// Mock the request-scoped Supabase client
+const mockSupabase = { from: jest.fn(), rpc: jest.fn() };
+
+jest.mock('@/lib/supabaseServer', () => ({
+  createRequestClient: jest.fn(() => mockSupabase),
 }));
 
 // Mock email module
 jest.mock('@/lib/email', () => ({
+  ...jest.requireActual('@/lib/email'),
   sendEmail: jest.fn().mockResolvedValue({ id: 'email-123' }),
   newQuoteEmailTemplate: jest.fn().mockReturnValue({ subject: 'Test', html: '<p>Test</p>' }),
   quoteStatusUpdateEmailTemplate: jest.fn().mockReturnValue({ subject: 'Test', html: '<p>Test</p>' }),
 }));
 
+// Mock buyer links
+jest.mock('@/lib/quoteAccess', () => ({
+  createPublicQuoteUrl: jest.fn().mockResolvedValue('http://localhost:3000/q/test-token'),
+}));
+
+// Mock the member list approvers are taken from
+jest.mock('@/lib/members', () => ({
+  ...jest.requireActual('@/lib/members'),
+  listShopMembers: jest.fn().mockResolvedValue([
+    { id: 'member-1', userId: 'owner-1', email: 'owner@example.com', role: 'owner' },
+    { id: 'member-2', userId: 'sales-1', email: 'sales@example.com', role: 'sales' },
+  ]),
+}));
+
 describe('Quote Status API', () => {
   // Helper to create a mock chain builder
   const createMockChain = (overrides: {
     single?: () => Promise<{ data: unknown; error: unknown }>;
     order?: () => Promise<{ data: unknown; error: unknown }>;
     insert?: () => Promise<{ error: unknown }>;
+    maybeSingle?: () => Promise<{ data: unknown; error: unknown }>;
   } = {}) => {
     const chain: Record<string, jest.Mock> = {
       select: jest.fn(() => chain),
@@ -39,6 +54,8 @@ describe('Quote Status API', () => {
       }),
       update: jest.fn(() => chain),
       eq: jest.fn(() => chain),
+      // Finance contacts copied in on the customer notice
+      contains: jest.fn(() => Promise.resolve({ data: [{ email: 'ap@example.com' }], error: null })),
       order: jest.fn(() => {
         if (overrides.order) {
           return overrides.order();
@@ -51,6 +68,13 @@ describe('Quote Status API', () => {
         }
         return Promise.resolve({ data: null, error: null });
       }),
+      // Shop workflow lookup; no row means the default workflow
+      maybeSingle: jest.fn(() => {
+        if (overrides.maybeSingle) {
+          return overrides.maybeSingle();
+        }
+        return Promise.resolve({ data: null, error: null });
+      }),
     };
     return chain;
   };
@@ -99,7 +123,7 @@ describe('Quote Status API', () => {
 
       // First call is for quotes, second for history
       let callCount = 0;
-      (supabase.from as jest.Mock).mockImplementation((table: string) => {
+      (mockSupabase.from as jest.Mock).mockImplementation((table: string) => {
         callCount++;
         if (callCount === 1) {
           // Quote query - uses .single()
@@ -124,7 +148,7 @@ describe('Quote Status API', () => {
     });
 
     test('should return 404 if quote not found', async () => {
-      (supabase.from as jest.Mock).mockImplementation(() => {
+      (mockSupabase.from as jest.Mock).mockImplementation(() => {
         return createMockChain({
           single: () => Promise.resolve({ data: null, error: null }),
         });
@@ -139,7 +163,7 @@ describe('Quote Status API', () => {
     });
 
     test('should handle database errors', async () => {
-      (supabase.from as jest.Mock).mockImplementation(() => {
+      (mockSupabase.from as jest.Mock).mockImplementation(() => {
         return createMockChain({
           single: () => Promise.resolve({ 
             data: null, 
@@ -157,7 +181,7 @@ describe('Quote Status API', () => {
     });
 
     test('should handle generic database errors with 500', async () => {
-      (supabase.from as jest.Mock).mockImplementation(() => {
+      (mockSupabase.from as jest.Mock).mockImplementation(() => {
         return createMockChain({
           single: () => Promise.resolve({ 
             data: null, 
@@ -217,7 +241,7 @@ describe('Quote Status API', () => {
         status: QuoteStatus.DRAFT,
       };
 
-      (supabase.from as jest.Mock).mockImplementation(() => {
+      (mockSupabase.from as jest.Mock).mockImplementation(() => {
         return createMockChain({
           single: () => Promise.resolve({ data: mockQuote, error: null }),
         });
@@ -247,27 +271,10 @@ describe('Quote Status API', () => {
         updated_at: '2024-01-15T10:00:00Z',
       };
 
-      // Track which call we're on: 1=select quote, 2=insert history, 3=update quote
-      let callCount = 0;
-      (supabase.from as jest.Mock).mockImplementation((table: string) => {
-        callCount++;
-        if (callCount === 1) {
-          // First select - fetch current quote
-          return createMockChain({
-            single: () => Promise.resolve({ data: mockQuote, error: null }),
-          });
-        } else if (callCount === 2) {
-          // Insert history - returns promise directly
-          return createMockChain({
-            insert: () => Promise.resolve({ error: null }),
-          });
-        } else {
-          // Update quote - returns chain with select().single()
-          return createMockChain({
-            single: () => Promise.resolve({ data: updatedQuote, error: null }),
-          });
-        }
-      });
+      (mockSupabase.from as jest.Mock).mockImplementation(() => createMockChain({
+        single: () => Promise.resolve({ data: mockQuote, error: null }),
+      }));
+      mockSupabase.rpc.mockResolvedValue({ data: updatedQuote, error: null });
 
       const request = createRequest('quote-123', { 
         status: QuoteStatus.SENT,
@@ -284,6 +291,30 @@ describe('Quote Status API', () => {
       const body = await response.json();
       expect(body.success).toBe(true);
       expect(body.data.quote.status).toBe(QuoteStatus.SENT);
+      expect(body.data.transition.changedAt).toBe('2024-01-15T10:00:00Z');
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+        p_quote_id: 'quote-123',
+        p_from_status: QuoteStatus.DRAFT,
+        p_to_status: QuoteStatus.SENT,
+        p_changed_by: 'user-1',
+        p_changed_by_name: 'John Doe',
+        p_comment: 'Sent to customer',
+        p_activity_type: 'quote_sent',
+      }));
+      // Nothing is written outside the database function
+      expect(mockSupabase.from.mock.calls.map(([table]) => table))
+        .toEqual(['quotes', 'quote_workflows', 'merchant_settings', 'customer_contacts']);
+
+      const { sendEmail } = jest.requireMock('@/lib/email');
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'test@example.com',
+        cc: ['ap@example.com'],
+        subject: 'Quote QT-001 - Ready for Review',
+        html: expect.stringContaining('href="http://localhost:3000/q/test-token"'),
+        type: 'quote_sent',
+        quoteId: 'quote-123',
+        attachQuotePdf: true,
+      }));
     });
 
     test('should set correct timestamp fields based on status', async () => {
@@ -295,31 +326,61 @@ describe('Quote Status API', () => {
         customer_id: 'cust-1',
       };
 
-      let callCount = 0;
-      (supabase.from as jest.Mock).mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          return createMockChain({
-            single: () => Promise.resolve({ data: mockQuote, error: null }),
-          });
-        } else if (callCount === 2) {
-          return createMockChain({
-            insert: () => Promise.resolve({ error: null }),
-          });
-        } else {
-          return createMockChain({
-            single: () => Promise.resolve({ 
-              data: { ...mockQuote, status: QuoteStatus.ACCEPTED, accepted_at: new Date().toISOString() },
-              error: null 
-            }),
-          });
-        }
+      (mockSupabase.from as jest.Mock).mockImplementation(() => createMockChain({
+        single: () => Promise.resolve({ data: mockQuote, error: null }),
+      }));
+      mockSupabase.rpc.mockResolvedValue({
+        data: { ...mockQuote, status: QuoteStatus.ACCEPTED, accepted_at: '2024-01-15T10:00:00Z' },
+        error: null,
       });
 
       const request = createRequest('quote-123', { status: QuoteStatus.ACCEPTED });
       const response = await PATCH(request, { params: Promise.resolve({ id: 'quote-123' }) });
 
       expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.data.quote.accepted_at).toBe('2024-01-15T10:00:00Z');
+    });
+
+    test('should return 409 when the status changed concurrently', async () => {
+      (mockSupabase.from as jest.Mock).mockImplementation(() => createMockChain({
+        single: () => Promise.resolve({ data: { id: 'quote-123', status: QuoteStatus.SENT }, error: null }),
+      }));
+      mockSupabase.rpc.mockResolvedValue({
+        data: null,
+        error: { code: 'PT409', message: 'Quote quote-123 is no longer sent' },
+      });
+
+      const request = createRequest('quote-123', { status: QuoteStatus.ACCEPTED, notifyCustomer: true });
+      const response = await PATCH(request, { params: Promise.resolve({ id: 'quote-123' }) });
+
+      expect(response.status).toBe(409);
+      const body = await response.json();
+      expect(body.error.code).toBe('CONFLICT');
+
+      const { sendEmail } = jest.requireMock('@/lib/email');
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    test('should return 422 when the quote currency has no exchange rate', async () => {
+      (mockSupabase.from as jest.Mock).mockImplementation(() => createMockChain({
+        single: () => Promise.resolve({ data: { id: 'quote-123', status: QuoteStatus.DRAFT }, error: null }),
+      }));
+      mockSupabase.rpc.mockResolvedValue({
+        data: null,
+        error: { code: 'PT422', message: 'No exchange rate from USD to EUR' },
+      });
+
+      const request = createRequest('quote-123', { status: QuoteStatus.SENT, notifyCustomer: true });
+      const response = await PATCH(request, { params: Promise.resolve({ id: 'quote-123' }) });
+
+      expect(response.status).toBe(422);
+      const body = await response.json();
+      expect(body.error.code).toBe('MISSING_EXCHANGE_RATE');
+      expect(body.error.message).toBe('No exchange rate from USD to EUR; add it under Settings before sending');
+
+      const { sendEmail } = jest.requireMock('@/lib/email');
+      expect(sendEmail).not.toHaveBeenCalled();
     });
 
     test('should handle database errors gracefully', async () => {
@@ -328,27 +389,18 @@ describe('Quote Status API', () => {
         status: QuoteStatus.DRAFT,
       };
 
-      let callCount = 0;
-      (supabase.from as jest.Mock).mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          return createMockChain({
-            single: () => Promise.resolve({ data: mockQuote, error: null }),
-          });
-        } else {
-          // Insert history fails
-          return createMockChain({
-            insert: () => Promise.resolve({ error: { message: 'Insert failed' } }),
-          });
-        }
-      });
+      (mockSupabase.from as jest.Mock).mockImplementation(() => createMockChain({
+        single: () => Promise.resolve({ data: mockQuote, error: null }),
+      }));
+      // The function rolls back as a whole, e.g. when the history insert fails
+      mockSupabase.rpc.mockResolvedValue({ data: null, error: { code: '23502', message: 'Insert failed' } });
 
       const request = createRequest('quote-123', { status: QuoteStatus.SENT });
       const response = await PATCH(request, { params: Promise.resolve({ id: 'quote-123' }) });
 
       expect(response.status).toBe(500);
       const body = await response.json();
-      expect(body.error.code).toBe('HISTORY_ERROR');
+      expect(body.error.code).toBe('UPDATE_ERROR');
     });
 
     test('should handle invalid JSON body', async () => {
@@ -374,37 +426,288 @@ describe('Quote Status API', () => {
         customer_name: 'Test Customer',
       };
 
-      let callCount = 0;
-      (supabase.from as jest.Mock).mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          return createMockChain({
-            single: () => Promise.resolve({ data: mockQuote, error: null }),
-          });
-        } else if (callCount === 2) {
-          return createMockChain({
-            insert: () => Promise.resolve({ error: null }),
-          });
-        } else if (callCount === 3) {
-          return createMockChain({
-            single: () => Promise.resolve({ 
-              data: { ...mockQuote, status: QuoteStatus.SENT },
-              error: null 
-            }),
-          });
-        } else {
-          // Activity insert (best-effort, wrapped in try-catch)
-          return createMockChain({
-            insert: () => Promise.resolve({ error: null }),
-          });
-        }
-      });
+      (mockSupabase.from as jest.Mock).mockImplementation(() => createMockChain({
+        single: () => Promise.resolve({ data: mockQuote, error: null }),
+      }));
+      mockSupabase.rpc.mockResolvedValue({ data: { ...mockQuote, status: QuoteStatus.SENT }, error: null });
 
       const request = createRequest('quote-123', { status: QuoteStatus.SENT });
       const response = await PATCH(request, { params: Promise.resolve({ id: 'quote-123' }) });
 
-      // Verify the request was successful (activity creation is best-effort)
       expect(response.status).toBe(200);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+        p_activity_type: 'quote_sent',
+        p_activity_description: 'Quote status changed to sent',
+      }));
+    });
+
+    describe('shop workflow', () => {
+      const workflowRow = {
+        shop_id: 'shop-1',
+        statuses: [{
+          key: 'awaiting_approval',
+          label: 'Awaiting approval',
+          description: 'A manager has to sign off',
+          color: 'bg-amber-500',
+          icon: 'ClockIcon',
+          isFinal: false,
+          canEdit: false,
+        }],
+        transitions: [
+          { from: ['draft'], to: 'awaiting_approval', action: 'Request Approval' },
+          { from: ['awaiting_approval'], to: 'sent', action: 'Approve and Send', allowedRoles: ['owner', 'admin'] },
+          { from: ['awaiting_approval'], to: 'draft', action: 'Send Back', requiresComment: true },
+        ],
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      };
+
+      const mockWorkflowQuote = (status: string) => {
+        const quote = { id: 'quote-123', shop_id: 'shop-1', quote_number: 'QT-001', status };
+        (mockSupabase.from as jest.Mock).mockImplementation((table: string) => createMockChain(
+          table === 'quote_workflows'
+            ? { maybeSingle: () => Promise.resolve({ data: workflowRow, error: null }) }
+            : { single: () => Promise.resolve({ data: quote, error: null }) }
+        ));
+        mockSupabase.rpc.mockImplementation((_fn: string, args: { p_to_status: string }) =>
+          Promise.resolve({ data: { ...quote, status: args.p_to_status }, error: null }));
+      };
+
+      const createMemberRequest = (body: object, role: string) => {
+        const request = createRequest('quote-123', body);
+        request.headers.set('x-user-id', 'user-1');
+        request.headers.set('x-member-role', role);
+        return request;
+      };
+
+      test('should move a quote into a custom status', async () => {
+        mockWorkflowQuote(QuoteStatus.DRAFT);
+
+        const response = await PATCH(
+          createMemberRequest({ status: 'awaiting_approval' }, 'sales'),
+          { params: Promise.resolve({ id: 'quote-123' }) }
+        );
+
+        expect(response.status).toBe(200);
+        expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+          p_to_status: 'awaiting_approval',
+          p_activity_type: 'status_changed',
+        }));
+      });
+
+      test('should refuse transitions the shop workflow does not have', async () => {
+        mockWorkflowQuote(QuoteStatus.DRAFT);
+
+        const response = await PATCH(
+          createMemberRequest({ status: QuoteStatus.SENT }, 'owner'),
+          { params: Promise.resolve({ id: 'quote-123' }) }
+        );
+
+        expect(response.status).toBe(400);
+        const body = await response.json();
+        expect(body.error.code).toBe('INVALID_TRANSITION');
+      });
+
+      test('should return 400 for statuses the workflow does not define', async () => {
+        mockWorkflowQuote(QuoteStatus.DRAFT);
+
+        const response = await PATCH(
+          createMemberRequest({ status: 'negotiating' }, 'owner'),
+          { params: Promise.resolve({ id: 'quote-123' }) }
+        );
+
+        expect(response.status).toBe(400);
+        const body = await response.json();
+        expect(body.error.code).toBe('INVALID_STATUS');
+      });
+
+      test('should return 403 when the role may not take the transition', async () => {
+        mockWorkflowQuote('awaiting_approval');
+
+        const response = await PATCH(
+          createMemberRequest({ status: QuoteStatus.SENT }, 'sales'),
+          { params: Promise.resolve({ id: 'quote-123' }) }
+        );
+
+        expect(response.status).toBe(403);
+        const body = await response.json();
+        expect(body.error.code).toBe('FORBIDDEN');
+        expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      });
+
+      test('should require a comment where the workflow asks for one', async () => {
+        mockWorkflowQuote('awaiting_approval');
+        const params = { params: Promise.resolve({ id: 'quote-123' }) };
+
+        const missing = await PATCH(createMemberRequest({ status: QuoteStatus.DRAFT, comment: ' ' }, 'admin'), params);
+        expect(missing.status).toBe(400);
+        expect((await missing.json()).error.code).toBe('COMMENT_REQUIRED');
+
+        const given = await PATCH(
+          createMemberRequest({ status: QuoteStatus.DRAFT, comment: 'Discount too deep' }, 'admin'),
+          { params: Promise.resolve({ id: 'quote-123' }) }
+        );
+        expect(given.status).toBe(200);
+      });
+    });
+
+    describe('discount approval', () => {
+      const settingsRow = {
+        shop_id: 'shop-1',
+        approval_max_line_discount: 20,
+        approval_max_total_discount: null,
+        approval_min_margin: null,
+      };
+
+      const mockDiscountedQuote = (discountPercent: number) => {
+        const quote = {
+          id: 'quote-123',
+          shop_id: 'shop-1',
+          quote_number: 'QT-001',
+          title: 'Spring order',
+          status: QuoteStatus.DRAFT,
+          customer_email: 'test@example.com',
+          discount_total: 0,
+          line_items: [{
+            id: 'li-1',
+            product_id: 'prod-1',
+            title: 'Widget',
+            quantity: 1,
+            unit_price: 100,
+            original_price: 100,
+            discount_percentage: discountPercent,
+          }],
+        };
+        (mockSupabase.from as jest.Mock).mockImplementation((table: string) => createMockChain(
+          table === 'merchant_settings'
+            ? { maybeSingle: () => Promise.resolve({ data: settingsRow, error: null }) }
+            : { single: () => Promise.resolve({ data: quote, error: null }) }
+        ));
+        mockSupabase.rpc.mockImplementation((_fn: string, args: { p_to_status: string }) =>
+          Promise.resolve({ data: { ...quote, status: args.p_to_status }, error: null }));
+      };
+
+      test('should hold a quote past the limits for approval instead of sending it', async () => {
+        mockDiscountedQuote(35);
+
+        const request = createRequest('quote-123', { status: QuoteStatus.SENT });
+        request.headers.set('x-user-id', 'user-1');
+        request.headers.set('x-user-name', 'John Doe');
+        const response = await PATCH(request, { params: Promise.resolve({ id: 'quote-123' }) });
+
+        expect(response.status).toBe(200);
+        const body = await response.json();
+        expect(body.data.quote.status).toBe(QuoteStatus.PENDING_APPROVAL);
+        expect(body.data.approval.reasons).toEqual([expect.objectContaining({
+          code: 'line_discount',
+          actual: 35,
+          limit: 20,
+        })]);
+        expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+          p_to_status: QuoteStatus.PENDING_APPROVAL,
+          p_metadata: expect.objectContaining({
+            approval: { reasons: body.data.approval.reasons },
+          }),
+          p_activity_description: 'Quote held for discount approval',
+        }));
+
+        // Approvers hear about it, the customer does not
+        const { sendEmail } = jest.requireMock('@/lib/email');
+        expect(sendEmail).toHaveBeenCalledTimes(1);
+        expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+          to: 'owner@example.com',
+          type: 'quote_approval',
+          subject: 'Approval needed: Quote QT-001',
+          html: expect.stringContaining('http://localhost:3000/quotes/quote-123'),
+        }));
+      });
+
+      test('should send a quote within the limits', async () => {
+        mockDiscountedQuote(10);
+
+        const response = await PATCH(
+          createRequest('quote-123', { status: QuoteStatus.SENT }),
+          { params: Promise.resolve({ id: 'quote-123' }) }
+        );
+
+        expect(response.status).toBe(200);
+        const body = await response.json();
+        expect(body.data.quote.status).toBe(QuoteStatus.SENT);
+        expect(body.data.approval).toBeUndefined();
+      });
+    });
+
+    describe('forced reopen of a final status', () => {
+      const rejectedQuote = {
+        id: 'quote-123',
+        status: QuoteStatus.REJECTED,
+        quote_number: 'QT-001',
+        customer_id: 'cust-1',
+      };
+
+      const mockReopen = () => {
+        (mockSupabase.from as jest.Mock).mockImplementation(() => createMockChain({
+          single: () => Promise.resolve({ data: rejectedQuote, error: null }),
+        }));
+        mockSupabase.rpc.mockResolvedValue({ data: { ...rejectedQuote, status: QuoteStatus.SENT }, error: null });
+      };
+
+      const createForcedRequest = (role?: string) => {
+        const request = createRequest('quote-123', { status: QuoteStatus.SENT, force: true });
+        if (role) {
+          request.headers.set('x-user-id', 'user-1');
+          request.headers.set('x-user-name', 'Jane%20Admin');
+          request.headers.set('x-member-role', role);
+        }
+        return request;
+      };
+
+      test('should let admins move a quote out of a final status', async () => {
+        mockReopen();
+
+        const response = await PATCH(createForcedRequest('admin'), { params: Promise.resolve({ id: 'quote-123' }) });
+
+        expect(response.status).toBe(200);
+        expect(mockSupabase.rpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+          p_from_status: QuoteStatus.REJECTED,
+          p_to_status: QuoteStatus.SENT,
+          p_changed_by: 'user-1',
+          p_changed_by_name: 'Jane Admin',
+          p_metadata: expect.objectContaining({ forced: true }),
+        }));
+      });
+
+      test('should return 403 for sales members', async () => {
+        mockReopen();
+
+        const response = await PATCH(createForcedRequest('sales'), { params: Promise.resolve({ id: 'quote-123' }) });
+
+        expect(response.status).toBe(403);
+        const body = await response.json();
+        expect(body.error.code).toBe('FORBIDDEN');
+        expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      });
+
+      test('should return 401 without a signed-in member', async () => {
+        mockReopen();
+
+        const response = await PATCH(createForcedRequest(), { params: Promise.resolve({ id: 'quote-123' }) });
+
+        expect(response.status).toBe(401);
+      });
+
+      test('should still reject the transition without force', async () => {
+        mockReopen();
+        const request = createRequest('quote-123', { status: QuoteStatus.SENT });
+        request.headers.set('x-user-id', 'user-1');
+        request.headers.set('x-member-role', 'owner');
+
+        const response = await PATCH(request, { params: Promise.resolve({ id: 'quote-123' }) });
+
+        expect(response.status).toBe(400);
+        const body = await response.json();
+        expect(body.error.code).toBe('INVALID_TRANSITION');
+      });
     });
   });
 });
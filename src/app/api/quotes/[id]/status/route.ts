@@ -1,18 +1,29 @@
 /**
  * Quote Status Update API Route
  * PATCH /api/quotes/[id]/status
- * Handles status transitions with validation and history tracking
+ * Handles status transitions with validation and history tracking. Sending a
+ * quote past the shop's discount limits holds it in pending_approval instead.
  * @module app/api/quotes/[id]/status/route
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
 import { 
   validateTransition, 
-  createStatusChangeRecord,
-  getActivityTypeForStatusChange,
+  isFinalStatus,
+  getWorkflowStatus,
+  WORKFLOW_STATUS_KEY_PATTERN,
   type StatusChangeRecord 
 } from '@/lib/quoteWorkflow';
+import { evaluateQuoteApproval, type ApprovalCheck } from '@/lib/approvals';
+import { requirePermission } from '@/lib/members';
+import { getRequestActor, getRequestMember } from '@/lib/permissions';
+import { notifyApprovers, sendStatusNotification } from '@/lib/quoteNotifications';
+import { transitionQuoteStatus, type QuoteTransitionResult } from '@/lib/quoteTransitions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { mapLineItemRow, toLineItemInput } from '@/lib/quotes';
+import { getMerchantSettings } from '@/lib/settings';
+import { getShopWorkflow } from '@/lib/workflows';
+import type { SupabaseLineItem } from '@/types/quote';
 import { QuoteStatus } from '@/types/quote';
 
 // ============================================================================
@@ -20,10 +31,13 @@ import { QuoteStatus } from '@/types/quote';
 // ============================================================================
 
 interface StatusUpdateRequest {
+  /** A QuoteStatus or one of the shop workflow's custom statuses */
   status: QuoteStatus;
   comment?: string;
   metadata?: Record<string, unknown>;
   notifyCustomer?: boolean;
+  /** Move a quote out of a final status (owners and admins only) */
+  force?: boolean;
 }
 
 interface StatusUpdateResponse {
@@ -31,6 +45,8 @@ interface StatusUpdateResponse {
   data?: {
     quote: QuoteWithHistory;
     transition: StatusChangeRecord;
+    /** Set when a send was held back for approval */
+    approval?: ApprovalCheck;
   };
   error?: {
     code: string;
@@ -73,6 +89,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   try {
+    const supabase = createRequestClient(request);
     const { id } = await params;
     
     if (!id) {
@@ -151,6 +168,7 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   try {
+    const supabase = createRequestClient(request);
     const { id } = await params;
     
     if (!id) {
@@ -171,7 +189,7 @@ export async function PATCH(
       );
     }
 
-    const { status: newStatus, comment, metadata, notifyCustomer = true } = body;
+    const { status: newStatus, comment, metadata, notifyCustomer = true, force = false } = body;
 
     // Validate new status
     if (!newStatus) {
@@ -181,17 +199,25 @@ export async function PATCH(
       );
     }
 
-    if (!Object.values(QuoteStatus).includes(newStatus)) {
+    if (typeof newStatus !== 'string' || !WORKFLOW_STATUS_KEY_PATTERN.test(newStatus)) {
       return NextResponse.json(
         { success: false, error: { code: 'INVALID_STATUS', message: `Invalid status: ${newStatus}` } },
         { status: 400 }
       );
     }
 
-    // Get current quote
+    // Converting creates a Shopify draft order, which only the convert endpoint does
+    if (newStatus === QuoteStatus.CONVERTED) {
+      return NextResponse.json(
+        { success: false, error: { code: 'CONVERSION_REQUIRED', message: `Use POST /api/quotes/${id}/convert to convert a quote` } },
+        { status: 400 }
+      );
+    }
+
+    // Get current quote, with the line items the approval check needs
     const { data: currentQuote, error: fetchError } = await supabase
       .from('quotes')
-      .select('*')
+      .select('*, line_items:quote_line_items(*)')
       .eq('id', id)
       .single();
 
@@ -211,112 +237,141 @@ export async function PATCH(
     }
 
     const currentStatus = currentQuote.status as QuoteStatus;
+    const workflow = await getShopWorkflow(supabase, currentQuote.shop_id);
 
-    // Validate transition
-    const validation = validateTransition(currentStatus, newStatus);
-    if (!validation.success) {
+    if (!getWorkflowStatus(newStatus, workflow)) {
       return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TRANSITION', message: validation.error } },
+        { success: false, error: { code: 'INVALID_STATUS', message: `Invalid status: ${newStatus}` } },
         { status: 400 }
       );
     }
 
-    // Get user info from request (in a real app, this would come from auth)
-    const userId = request.headers.get('x-user-id') || 'system';
-    const userName = request.headers.get('x-user-name') || 'System';
-
-    // Create status change record
-    const statusChange = createStatusChangeRecord(
-      id,
-      currentStatus,
-      newStatus,
-      userId,
-      userName,
-      comment,
-      metadata
-    );
-
-    // Start a transaction
-    const { error: historyError } = await supabase
-      .from('quote_status_history')
-      .insert({
-        id: statusChange.id,
-        quote_id: id,
-        from_status: statusChange.fromStatus,
-        to_status: statusChange.toStatus,
-        changed_by: statusChange.changedBy,
-        changed_by_name: statusChange.changedByName,
-        changed_at: statusChange.changedAt,
-        comment: statusChange.comment,
-        metadata: statusChange.metadata,
+    // Final statuses can only be left by force, which takes an owner or admin
+    const isReopen = force && isFinalStatus(currentStatus, workflow) && newStatus !== currentStatus;
+    if (isReopen) {
+      const denied = requirePermission(request, 'quotes:reopen');
+      if (denied) {
+        return denied;
+      }
+    } else {
+      const validation = validateTransition(currentStatus, newStatus, {
+        userRole: getRequestMember(request)?.role ?? undefined,
+        comment,
+        workflow,
       });
+      if (!validation.success) {
+        const [status, code] = validation.reason === 'forbidden'
+          ? [403, 'FORBIDDEN']
+          : validation.reason === 'comment_required'
+            ? [400, 'COMMENT_REQUIRED']
+            : [400, 'INVALID_TRANSITION'];
+        return NextResponse.json(
+          { success: false, error: { code, message: validation.error } },
+          { status }
+        );
+      }
+    }
 
-    if (historyError) {
-      console.error('Error recording status history:', historyError);
+    const { id: userId, name: userName } = getRequestActor(request);
+
+    // A send past the shop's discount limits waits for an approver instead
+    let approval: ApprovalCheck | undefined;
+    if (newStatus === QuoteStatus.SENT && currentStatus !== QuoteStatus.SENT && !isReopen) {
+      try {
+        const { approvals } = await getMerchantSettings(currentQuote.shop_id, supabase);
+        const check = evaluateQuoteApproval({
+          lineItems: ((currentQuote.line_items ?? []) as SupabaseLineItem[])
+            .map((row) => toLineItemInput(mapLineItemRow(row))),
+          discountTotal: Number(currentQuote.discount_total ?? 0),
+        }, approvals);
+        approval = check.required ? check : undefined;
+      } catch (error) {
+        console.error('Error checking discount approval:', error);
+        return NextResponse.json(
+          { success: false, error: { code: 'UPDATE_ERROR', message: 'Failed to update quote status' } },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Status, timestamps, history and activity are written in one transaction
+    let result: QuoteTransitionResult;
+    try {
+      result = await transitionQuoteStatus(supabase, approval
+        ? {
+          quoteId: id,
+          fromStatus: currentStatus,
+          toStatus: QuoteStatus.PENDING_APPROVAL,
+          changedBy: userId,
+          changedByName: userName,
+          comment,
+          metadata: { ...metadata, approval: { reasons: approval.reasons } },
+          description: 'Quote held for discount approval',
+        }
+        : {
+          quoteId: id,
+          fromStatus: currentStatus,
+          toStatus: newStatus,
+          changedBy: userId,
+          changedByName: userName,
+          comment,
+          metadata: isReopen ? { ...metadata, forced: true } : metadata,
+        });
+    } catch (error) {
+      console.error('Error updating quote status:', error);
       return NextResponse.json(
-        { success: false, error: { code: 'HISTORY_ERROR', message: 'Failed to record status history' } },
+        { success: false, error: { code: 'UPDATE_ERROR', message: 'Failed to update quote status' } },
         { status: 500 }
       );
     }
 
-    // Update quote status with timestamp fields
-    const updateData: Record<string, string | null> = {
-      status: newStatus,
-      updated_at: new Date().toISOString(),
-    };
+    if (result.status === 'not_found') {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Quote not found' } },
+        { status: 404 }
+      );
+    }
 
-    // Set timestamp fields based on status
-    switch (newStatus) {
-      case QuoteStatus.SENT:
-        updateData.sent_at = new Date().toISOString();
-        break;
-      case QuoteStatus.VIEWED:
-        updateData.viewed_at = new Date().toISOString();
-        break;
-      case QuoteStatus.ACCEPTED:
-        updateData.accepted_at = new Date().toISOString();
-        break;
-      case QuoteStatus.REJECTED:
-        updateData.rejected_at = new Date().toISOString();
-        if (comment) {
-          updateData.rejection_reason = comment;
-        }
-        break;
+    if (result.status === 'forbidden') {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: result.message } },
+        { status: 403 }
+      );
     }
 
-    const { data: updatedQuote, error: updateError } = await supabase
-      .from('quotes')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
+    if (result.status === 'missing_rate') {
+      return NextResponse.json(
+        { success: false, error: { code: 'MISSING_EXCHANGE_RATE', message: `${result.message}; add it under Settings before sending` } },
+        { status: 422 }
+      );
+    }
 
-    if (updateError) {
-      console.error('Error updating quote status:', updateError);
+    if (result.status !== 'applied') {
       return NextResponse.json(
-        { success: false, error: { code: 'UPDATE_ERROR', message: 'Failed to update quote status' } },
-        { status: 500 }
+        { success: false, error: { code: 'CONFLICT', message: 'The quote status changed in the meantime; reload and try again' } },
+        { status: 409 }
       );
     }
 
-    // Send notification if enabled and transition is important
-    if (notifyCustomer) {
+    const { quote: updatedQuote, transition: statusChange } = result;
+
+    if (approval) {
       try {
-        await sendStatusNotification(updatedQuote, newStatus, currentStatus);
+        await notifyApprovers(updatedQuote, approval.reasons, userName);
+      } catch (error) {
+        console.error('Error notifying approvers:', error);
+        // The quote is already waiting; approvers also see it in the app
+      }
+    } else if (notifyCustomer) {
+      // Send notification if enabled and transition is important
+      try {
+        await sendStatusNotification(supabase, updatedQuote, newStatus);
       } catch (error) {
         console.error('Error sending notification:', error);
         // Don't fail the request if notification fails
       }
     }
 
-    // Create activity record
-    try {
-      await createActivityRecord(updatedQuote, newStatus, userId, userName);
-    } catch (error) {
-      console.error('Error creating activity record:', error);
-      // Don't fail the request if activity creation fails
-    }
-
     const response: StatusUpdateResponse = {
       success: true,
       data: {
@@ -325,6 +380,7 @@ export async function PATCH(
           status_history: [statusChange],
         } as QuoteWithHistory,
         transition: statusChange,
+        approval,
       },
     };
 
@@ -337,148 +393,3 @@ export async function PATCH(
     );
   }
 }
-
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-/**
- * Send notification for important status changes
- */
-async function sendStatusNotification(
-  quote: Record<string, unknown>,
-  newStatus: QuoteStatus,
-  previousStatus: QuoteStatus
-): Promise<void> {
-  // Only notify on certain transitions
-  const notifyStatuses = [QuoteStatus.SENT, QuoteStatus.ACCEPTED, QuoteStatus.REJECTED];
-  
-  if (!notifyStatuses.includes(newStatus)) {
-    return;
-  }
-
-  const customerEmail = quote.customer_email as string | undefined;
-  if (!customerEmail) {
-    console.log('No customer email available for notification');
-    return;
-  }
-
-  // Import email service dynamically to avoid circular dependencies
-  const { sendEmail } = await import('@/lib/email');
-
-  const quoteTitle = quote.title as string || 'Your Quote';
-  const quoteNumber = quote.quote_number as string || quote.id as string;
-
-  let subject: string;
-  let html: string;
-
-  switch (newStatus) {
-    case QuoteStatus.SENT:
-      subject = `Quote ${quoteNumber} - Ready for Review`;
-      html = generateEmailTemplate('sent', quoteTitle, quoteNumber);
-      break;
-    case QuoteStatus.ACCEPTED:
-      subject = `Quote ${quoteNumber} - Accepted!`;
-      html = generateEmailTemplate('accepted', quoteTitle, quoteNumber);
-      break;
-    case QuoteStatus.REJECTED:
-      subject = `Quote ${quoteNumber} - Update`;
-      html = generateEmailTemplate('rejected', quoteTitle, quoteNumber);
-      break;
-    default:
-      return;
-  }
-
-  await sendEmail({
-    to: customerEmail,
-    subject,
-    html,
-  });
-}
-
-/**
- * Create activity record for the status change
- */
-async function createActivityRecord(
-  quote: Record<string, unknown>,
-  status: QuoteStatus,
-  userId: string,
-  userName: string
-): Promise<void> {
-  const activityType = getActivityTypeForStatusChange(status);
-
-  await supabase.from('activities').insert({
-    type: activityType,
-    quote_id: quote.id,
-    quote_number: quote.quote_number,
-    customer_id: quote.customer_id,
-    customer_name: quote.customer_name,
-    user_id: userId,
-    user_name: userName,
-    description: `Quote status changed to ${status}`,
-    created_at: new Date().toISOString(),
-  });
-}
-
-/**
- * Generate email template for status notifications
- */
-function generateEmailTemplate(
-  status: 'sent' | 'accepted' | 'rejected',
-  quoteTitle: string,
-  quoteNumber: string
-): string {
-  const templates: Record<string, { title: string; message: string; cta: string }> = {
-    sent: {
-      title: 'Your Quote is Ready',
-      message: `Your quote "${quoteTitle}" (${quoteNumber}) has been prepared and is ready for your review.`,
-      cta: 'View Quote',
-    },
-    accepted: {
-      title: 'Quote Accepted!',
-      message: `Great news! Your quote "${quoteTitle}" (${quoteNumber}) has been accepted. We'll be in touch shortly with next steps.`,
-      cta: 'View Details',
-    },
-    rejected: {
-      title: 'Quote Update',
-      message: `Thank you for your interest. Unfortunately, we are unable to fulfill your quote request "${quoteTitle}" (${quoteNumber}) at this time.`,
-      cta: 'Contact Us',
-    },
-  };
-
-  const template = templates[status];
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>${template.title}</title>
-      <style>
-        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
-        .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
-        .button { display: inline-block; background: #667eea; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px; }
-        .footer { text-align: center; color: #6b7280; font-size: 12px; margin-top: 30px; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h1>${template.title}</h1>
-        </div>
-        <div class="content">
-          <p>Hello,</p>
-          <p>${template.message}</p>
-          <a href="#" class="button">${template.cta}</a>
-        </div>
-        <div class="footer">
-          <p>This email was sent by QuoteGen</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-}
@@ -0,0 +1,87 @@
+// Storefront quote requests (single product, submitted by shoppers)
+import { NextRequest, NextResponse } from 'next/server';
+import { createQuote, getShopSettings } from '@/lib/supabase';
+import { getSenderIdentity, newQuoteEmailTemplate, sendEmail } from '@/lib/email';
+import { getServiceClient } from '@/lib/supabaseServer';
+
+// POST /api/quotes/request - Create a quote request from the storefront
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    
+    // Validate required fields
+    if (!body.shop_id || !body.product_id || !body.customer_email) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+    
+    // Validate email format
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(body.customer_email)) {
+      return NextResponse.json(
+        { error: 'Invalid email format' },
+        { status: 400 }
+      );
+    }
+    
+    // Shoppers have no session, so RLS would reject their insert
+    const client = getServiceClient();
+
+    // Create quote
+    const quote = await createQuote({
+      shop_id: body.shop_id,
+      product_id: body.product_id,
+      product_title: body.product_title,
+      customer_email: body.customer_email,
+      customer_name: body.customer_name || null,
+      customer_phone: body.customer_phone || null,
+      quantity: body.quantity || null,
+      message: body.message || null,
+      status: 'pending',
+    }, client);
+    
+    // Send email notification if enabled
+    const settings = await getShopSettings(body.shop_id, client);
+    if (settings.email_notifications) {
+      try {
+        // Requests go to the shop's reply-to address; without one there is nobody to notify
+        const { replyTo: merchantEmail } = await getSenderIdentity(body.shop_id);
+        if (!merchantEmail) {
+          throw new Error('No reply-to address configured for the shop');
+        }
+
+        const { subject, html } = newQuoteEmailTemplate({
+          productTitle: body.product_title,
+          customerName: body.customer_name,
+          customerEmail: body.customer_email,
+          quantity: body.quantity,
+          message: body.message,
+          quoteId: quote.id,
+          dashboardUrl: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard`,
+        });
+
+        await sendEmail({
+          to: merchantEmail,
+          subject,
+          html,
+          type: 'quote_request',
+          shopId: body.shop_id,
+          quoteId: quote.id,
+        });
+      } catch (emailError) {
+        console.error('Failed to send email notification:', emailError);
+        // Don't fail the request if email fails
+      }
+    }
+    
+    return NextResponse.json(quote, { status: 201 });
+  } catch (error) {
+    console.error('Error creating quote:', error);
+    return NextResponse.json(
+      { error: 'Failed to create quote' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,146 +1,494 @@
-// API Routes for QuoteGen
+/**
+ * Quotes API Routes
+ * GET /api/quotes - List quotes with filtering and pagination
+ * POST /api/quotes - Create a quote with line items
+ * Status changes go through PATCH /api/quotes/[id]/status.
+ */
+
 import { NextRequest, NextResponse } from 'next/server';
-import { createQuote, getQuotes, updateQuoteStatus, getShopSettings } from '@/lib/supabase';
-import { sendEmail, newQuoteEmailTemplate, quoteStatusUpdateEmailTemplate } from '@/lib/email';
+import { z } from 'zod';
+import type { CustomerContactRow } from '@/lib/customerContacts';
+import { getRequestActor } from '@/lib/permissions';
+import { priceLineItemsFromCatalog } from '@/lib/products';
+import { getMerchantSettings } from '@/lib/settings';
+import { listTaxRules, resolveTaxContext } from '@/lib/tax';
+import {
+  QUOTE_SELECT,
+  buildLineItemRows,
+  calculateQuoteTotals,
+  mapQuoteRow,
+  toLineItemInput,
+  type LineItemDraft,
+  type QuoteRowWithRelations,
+} from '@/lib/quotes';
+import { QUOTE_PDF_TEMPLATES } from '@/lib/templates';
+import { generateQuoteNumber } from '@/lib/utils';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, QuoteWithRelations, SupabaseCustomer, SupabaseLineItem } from '@/types/quote';
+import { ActivityType, QuotePriority, QuoteStatus } from '@/types/quote';
 
-// POST /api/quotes - Create new quote
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    
-    // Validate required fields
-    if (!body.shop_id || !body.product_id || !body.customer_email) {
-      return NextResponse.json(
-        { error: 'Missing required fields' },
-        { status: 400 }
-      );
-    }
-    
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(body.customer_email)) {
-      return NextResponse.json(
-        { error: 'Invalid email format' },
-        { status: 400 }
-      );
-    }
-    
-    // Create quote
-    const quote = await createQuote({
-      shop_id: body.shop_id,
-      product_id: body.product_id,
-      product_title: body.product_title,
-      customer_email: body.customer_email,
-      customer_name: body.customer_name || null,
-      customer_phone: body.customer_phone || null,
-      quantity: body.quantity || null,
-      message: body.message || null,
-      status: 'pending',
-    });
-    
-    // Send email notification if enabled
-    const settings = await getShopSettings(body.shop_id);
-    if (settings.email_notifications) {
-      try {
-        const { subject, html } = newQuoteEmailTemplate({
-          productTitle: body.product_title,
-          customerName: body.customer_name,
-          customerEmail: body.customer_email,
-          quantity: body.quantity,
-          message: body.message,
-          quoteId: quote.id,
-          dashboardUrl: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard`,
-        });
-        
-        // Note: In production, you'd get the merchant email from Shopify
-        // For now, we'll skip the actual send to avoid errors
-        // await sendEmail({ to: merchantEmail, subject, html });
-      } catch (emailError) {
-        console.error('Failed to send email notification:', emailError);
-        // Don't fail the request if email fails
-      }
-    }
-    
-    return NextResponse.json(quote, { status: 201 });
-  } catch (error) {
-    console.error('Error creating quote:', error);
-    return NextResponse.json(
-      { error: 'Failed to create quote' },
-      { status: 500 }
-    );
-  }
-}
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const lineItemSchema = z.object({
+  productId: z.string().optional(),
+  variantId: z.string().optional(),
+  title: z.string().min(1, 'Item title is required').max(500),
+  variantTitle: z.string().optional(),
+  sku: z.string().optional(),
+  quantity: z.number().int().positive('Quantity must be greater than 0'),
+  unitPrice: z.number().nonnegative('Unit price cannot be negative'),
+  discountPercentage: z.number().min(0).max(100).optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+  imageUrl: z.string().optional(),
+  notes: z.string().optional(),
+  customFields: z.record(z.string(), z.string()).optional(),
+});
+
+const termsSchema = z.object({
+  paymentTerms: z.string(),
+  deliveryTerms: z.string(),
+  validityPeriod: z.number().int().positive(),
+  depositRequired: z.boolean(),
+  depositPercentage: z.number().min(0).max(100).optional(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code').toUpperCase(),
+  notes: z.string().optional(),
+  internalNotes: z.string().optional(),
+}).partial();
+
+const quoteSchema = z.object({
+  shopId: z.string().min(1, 'Shop ID is required'),
+  customerId: z.string().optional(),
+  // One of the customer's contacts to send the quote to instead of the customer's own email
+  contactId: z.string().uuid().optional(),
+  customer: z.object({
+    email: z.string().email('Invalid email address'),
+    companyName: z.string().max(200).optional(),
+    contactName: z.string().min(1, 'Contact name is required').max(200),
+    phone: z.string().optional(),
+    taxId: z.string().max(100).optional(),
+    shippingAddress: z.object({
+      street: z.string().default(''),
+      city: z.string().default(''),
+      state: z.string().default(''),
+      zipCode: z.string().default(''),
+      country: z.string().min(1, 'Country is required'),
+    }).optional(),
+  }).optional(),
+  title: z.string().min(1, 'Title is required').max(200),
+  status: z.enum([QuoteStatus.DRAFT, QuoteStatus.PENDING]).default(QuoteStatus.DRAFT),
+  priority: z.enum(QuotePriority).default(QuotePriority.MEDIUM),
+  lineItems: z.array(lineItemSchema).min(1, 'At least one line item is required'),
+  discountTotal: z.number().nonnegative().default(0),
+  // Where no regional rule matches; the shop's default rate when left out
+  taxRate: z.number().min(0).max(100).optional(),
+  shippingTotal: z.number().nonnegative().default(0),
+  terms: termsSchema.default({}),
+  expiresAt: z.string().datetime({ offset: true }).optional(),
+  templateId: z.string().uuid().optional(),
+  pdfTemplate: z.enum(QUOTE_PDF_TEMPLATES).optional(),
+  headerText: z.string().max(2000).optional(),
+  footerText: z.string().max(2000).optional(),
+}).refine((data) => data.customerId || data.customer, {
+  message: 'Either customerId or customer is required',
+  path: ['customerId'],
+});
+
+// ============================================================================
+// GET Handler - List Quotes
+// ============================================================================
 
-// GET /api/quotes?shop_id=xxx - Get quotes for shop
 export async function GET(request: NextRequest) {
   try {
+    const supabase = createRequestClient(request);
     const { searchParams } = new URL(request.url);
+
+    // Pagination
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10), 1);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100);
+    const offset = (page - 1) * limit;
+
+    // Filters (same parameter names QuoteFilters writes to the URL)
     const shopId = searchParams.get('shop_id');
-    
-    if (!shopId) {
-      return NextResponse.json(
-        { error: 'Shop ID required' },
-        { status: 400 }
+    const search = searchParams.get('q');
+    const status = searchParams.getAll('status').flatMap((s) => s.split(',')).filter(Boolean);
+    const dateFrom = searchParams.get('from');
+    const dateTo = searchParams.get('to');
+    const minValue = searchParams.get('min');
+    const maxValue = searchParams.get('max');
+    const customerId = searchParams.get('customer_id');
+
+    // Sorting
+    const sortBy = searchParams.get('sort') || 'created';
+    const sortOrder = (searchParams.get('order') || 'desc') as 'asc' | 'desc';
+
+    let query = supabase
+      .from('quotes')
+      .select(QUOTE_SELECT, { count: 'exact' });
+
+    if (shopId) {
+      query = query.eq('shop_id', shopId);
+    }
+
+    if (customerId) {
+      query = query.eq('customer_id', customerId);
+    }
+
+    if (search) {
+      query = query.or(
+        `quote_number.ilike.%${search}%,title.ilike.%${search}%,customer_name.ilike.%${search}%,customer_email.ilike.%${search}%`
       );
     }
-    
-    const quotes = await getQuotes(shopId);
-    return NextResponse.json(quotes);
+
+    if (status.length) {
+      query = query.in('status', status);
+    }
+
+    if (dateFrom) {
+      query = query.gte('created_at', dateFrom);
+    }
+
+    if (dateTo) {
+      // Include the whole end day
+      query = query.lte('created_at', `${dateTo}T23:59:59.999Z`);
+    }
+
+    if (minValue) {
+      query = query.gte('total', parseFloat(minValue));
+    }
+
+    if (maxValue) {
+      query = query.lte('total', parseFloat(maxValue));
+    }
+
+    const sortColumnMap: Record<string, string> = {
+      created: 'created_at',
+      updated: 'updated_at',
+      total: 'total',
+      expiry: 'expires_at',
+    };
+
+    const sortColumn = sortColumnMap[sortBy] || 'created_at';
+    query = query
+      .order(sortColumn, { ascending: sortOrder === 'asc' })
+      .range(offset, offset + limit - 1);
+
+    const { data, error, count } = await query as {
+      data: QuoteRowWithRelations[] | null;
+      error: { message: string } | null;
+      count: number | null;
+    };
+
+    if (error) {
+      console.error('Error fetching quotes:', error);
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'FETCH_ERROR',
+          message: 'Failed to fetch quotes',
+        },
+      }, { status: 500 });
+    }
+
+    const quotes = (data || []).map((row) => mapQuoteRow(row));
+    const total = count || 0;
+
+    return NextResponse.json<ApiResponse<{
+      quotes: QuoteWithRelations[];
+      pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        totalPages: number;
+      };
+    }>>({
+      success: true,
+      data: {
+        quotes,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+
   } catch (error) {
-    console.error('Error fetching quotes:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch quotes' },
-      { status: 500 }
-    );
+    console.error('Unexpected error in GET /api/quotes:', error);
+    return NextResponse.json<ApiResponse<never>>({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+      },
+    }, { status: 500 });
   }
 }
 
-// PATCH /api/quotes/:id - Update quote status
-export async function PATCH(request: NextRequest) {
+// ============================================================================
+// POST Handler - Create Quote
+// ============================================================================
+
+export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { id, status, admin_notes, quote_amount } = body;
-    
-    if (!id || !status) {
-      return NextResponse.json(
-        { error: 'Quote ID and status required' },
-        { status: 400 }
-      );
+
+    // Validate input
+    const validationResult = quoteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid quote data',
+          details: errors,
+        },
+      }, { status: 400 });
     }
-    
-    const validStatuses = ['pending', 'quoted', 'accepted', 'declined'];
-    if (!validStatuses.includes(status)) {
-      return NextResponse.json(
-        { error: 'Invalid status' },
-        { status: 400 }
-      );
+
+    const data = validationResult.data;
+    const client = createRequestClient(request);
+    const { id: userId, name: userName } = getRequestActor(request);
+
+    // Approvals measure discounts and margin from the catalog's list price
+    // and cost, so those are looked up here rather than taken from the client
+    let lineItems: LineItemDraft[];
+    try {
+      lineItems = await priceLineItemsFromCatalog(data.shopId, data.lineItems);
+    } catch (error) {
+      console.error('Error loading catalog prices:', error);
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'SHOPIFY_ERROR',
+          message: 'Failed to load catalog prices',
+        },
+      }, { status: 502 });
     }
-    
-    const quote = await updateQuoteStatus(id, status, admin_notes, quote_amount);
-    
-    // Send status update email to customer
-    if (status === 'quoted' || status === 'accepted' || status === 'declined') {
-      try {
-        const { subject, html } = quoteStatusUpdateEmailTemplate({
-          productTitle: quote.product_title,
-          status,
-          quoteAmount: quote_amount,
-          shopName: 'Your Store', // Get from Shopify
-          shopUrl: `https://${quote.shop_id}`,
-        });
-        
-        // await sendEmail({ to: quote.customer_email, subject, html });
-      } catch (emailError) {
-        console.error('Failed to send status email:', emailError);
+
+    // Resolve the customer, creating one for new email addresses
+    let customer: SupabaseCustomer | null = null;
+
+    if (data.customerId) {
+      const { data: existing } = await client
+        .from('customers')
+        .select('*')
+        .eq('id', data.customerId)
+        .eq('shop_id', data.shopId)
+        .maybeSingle();
+      customer = existing as SupabaseCustomer | null;
+
+      if (!customer) {
+        return NextResponse.json<ApiResponse<never>>({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Customer not found',
+          },
+        }, { status: 404 });
+      }
+    } else if (data.customer) {
+      const email = data.customer.email.toLowerCase();
+      const { data: existing } = await client
+        .from('customers')
+        .select('*')
+        .eq('shop_id', data.shopId)
+        .eq('email', email)
+        .maybeSingle();
+      customer = existing as SupabaseCustomer | null;
+
+      if (!customer) {
+        const { data: created, error: customerError } = await client
+          .from('customers')
+          .insert({
+            shop_id: data.shopId,
+            email,
+            company_name: data.customer.companyName || data.customer.contactName,
+            contact_name: data.customer.contactName,
+            phone: data.customer.phone || null,
+            shipping_address: data.customer.shippingAddress ?? null,
+            tax_id: data.customer.taxId || null,
+          })
+          .select()
+          .single();
+
+        if (customerError) {
+          console.error('Error creating customer for quote:', customerError);
+          return NextResponse.json<ApiResponse<never>>({
+            success: false,
+            error: {
+              code: 'CREATE_ERROR',
+              message: 'Failed to create customer',
+            },
+          }, { status: 500 });
+        }
+        customer = created as SupabaseCustomer;
       }
     }
-    
-    return NextResponse.json(quote);
-  } catch (error) {
-    console.error('Error updating quote:', error);
-    return NextResponse.json(
-      { error: 'Failed to update quote' },
-      { status: 500 }
+
+    if (!customer) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Customer not found',
+        },
+      }, { status: 404 });
+    }
+
+    let contact: CustomerContactRow | null = null;
+
+    if (data.contactId) {
+      const { data: existing } = await client
+        .from('customer_contacts')
+        .select('*')
+        .eq('id', data.contactId)
+        .eq('customer_id', customer.id)
+        .maybeSingle();
+      contact = existing as CustomerContactRow | null;
+
+      if (!contact) {
+        return NextResponse.json<ApiResponse<never>>({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Contact not found',
+          },
+        }, { status: 404 });
+      }
+    }
+
+    // Tax follows the customer's shipping address and is stamped on the quote
+    const [settings, taxRules] = await Promise.all([
+      getMerchantSettings(data.shopId, client),
+      listTaxRules(client, data.shopId),
+    ]);
+    const tax = resolveTaxContext({
+      rules: taxRules,
+      shippingAddress: customer.shipping_address,
+      taxId: customer.tax_id,
+      taxExempt: customer.tax_exempt,
+      fallbackRate: data.taxRate ?? settings.quotes.taxRate,
+      pricesIncludeTax: settings.quotes.pricesIncludeTax,
+    });
+
+    // Totals are always derived on the server
+    const totals = calculateQuoteTotals(
+      lineItems.map(toLineItemInput),
+      data.discountTotal,
+      tax,
+      data.shippingTotal
     );
+
+    const validityPeriod = data.terms.validityPeriod;
+    const expiresAt = data.expiresAt
+      ?? (validityPeriod ? new Date(Date.now() + validityPeriod * 24 * 60 * 60 * 1000).toISOString() : null);
+
+    const { data: quoteRow, error: quoteError } = await client
+      .from('quotes')
+      .insert({
+        shop_id: data.shopId,
+        quote_number: generateQuoteNumber(),
+        customer_id: customer.id,
+        contact_id: contact?.id ?? null,
+        customer_email: contact?.email ?? customer.email,
+        customer_name: contact?.name ?? customer.contact_name,
+        customer_phone: (contact ? contact.phone : customer.phone) || null,
+        title: data.title,
+        status: data.status,
+        priority: data.priority,
+        subtotal: totals.subtotal,
+        discount_total: totals.discountTotal,
+        tax_rate: tax.rate,
+        prices_include_tax: tax.pricesIncludeTax,
+        tax_exempt: tax.exempt,
+        tax_total: totals.taxTotal,
+        shipping_total: data.shippingTotal,
+        total: totals.total,
+        currency: data.terms.currency || 'USD',
+        terms: data.terms,
+        metadata: {
+          createdBy: userId,
+          createdByName: userName,
+          source: 'web',
+        },
+        expires_at: expiresAt,
+        template_id: data.templateId ?? null,
+        pdf_template: data.pdfTemplate ?? 'modern',
+        header_text: data.headerText || null,
+        footer_text: data.footerText || null,
+      })
+      .select()
+      .single();
+
+    if (quoteError) {
+      console.error('Error creating quote:', quoteError);
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'CREATE_ERROR',
+          message: 'Failed to create quote',
+        },
+      }, { status: 500 });
+    }
+
+    const { data: lineItemRows, error: lineItemsError } = await client
+      .from('quote_line_items')
+      .insert(buildLineItemRows(quoteRow.id, lineItems, tax))
+      .select();
+
+    if (lineItemsError) {
+      console.error('Error creating quote line items:', lineItemsError);
+      // Don't leave a quote behind without its items
+      await client.from('quotes').delete().eq('id', quoteRow.id);
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'CREATE_ERROR',
+          message: 'Failed to create quote line items',
+        },
+      }, { status: 500 });
+    }
+
+    // Log activity
+    await client.from('activities').insert({
+      type: ActivityType.QUOTE_CREATED,
+      quote_id: quoteRow.id,
+      quote_number: quoteRow.quote_number,
+      customer_id: customer.id,
+      customer_name: customer.contact_name,
+      user_id: userId,
+      user_name: userName,
+      description: `Quote ${quoteRow.quote_number} created`,
+    });
+
+    return NextResponse.json<ApiResponse<QuoteWithRelations>>({
+      success: true,
+      data: mapQuoteRow({
+        ...quoteRow,
+        customer,
+        line_items: lineItemRows as SupabaseLineItem[],
+      }),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/quotes:', error);
+    return NextResponse.json<ApiResponse<never>>({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+      },
+    }, { status: 500 });
   }
-}
\ No newline at end of file
+}
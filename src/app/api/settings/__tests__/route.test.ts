@@ -0,0 +1,189 @@
+/**
+ * API Integration Tests - Merchant Settings Route
+ * Tests for GET/PUT /api/settings
+ * @module src/app/api/settings/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { GET, PUT } from '@/app/api/settings/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const SHOP = 'test-shop.myshopify.com';
+
+describe('Merchant Settings API', () => {
+  const settingsRow = {
+    shop_id: SHOP,
+    company_name: 'Acme Supply',
+    company_address: '1 Main St',
+    company_phone: '',
+    company_email: 'sales@acme.com',
+    company_website: '',
+    company_tax_id: 'DE123',
+    company_logo_url: null,
+    sender_name: 'Acme Quotes',
+    sender_email: 'quotes@acme.com',
+    reply_to_email: '',
+    email_footer: '',
+    default_currency: 'EUR',
+    base_currency: 'GBP',
+    default_validity_days: 14,
+    default_payment_terms: 'Net 15',
+    default_tax_rate: '19.00',
+    prices_include_tax: true,
+    auto_reminders_enabled: false,
+    approval_max_line_discount: '15.00',
+    approval_max_total_discount: null,
+    approval_min_margin: '20.00',
+  };
+
+  const createRequest = (method: string, body?: unknown, shopId: string | null = SHOP, role = 'admin') =>
+    new NextRequest(`http://localhost/api/settings${shopId ? `?shop_id=${shopId}` : ''}`, {
+      method,
+      headers: { 'x-user-id': 'user-1', 'x-member-role': role },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('GET /api/settings', () => {
+    it('should return the stored settings', async () => {
+      queueResult('merchant_settings', { data: settingsRow, error: null });
+
+      const response = await GET(createRequest('GET'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.merchant_settings[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(json.data.company).toEqual(expect.objectContaining({ name: 'Acme Supply', taxId: 'DE123' }));
+      expect(json.data.email.senderEmail).toBe('quotes@acme.com');
+      expect(json.data.quotes).toEqual({
+        defaultCurrency: 'EUR',
+        baseCurrency: 'GBP',
+        defaultValidityPeriod: 14,
+        defaultPaymentTerms: 'Net 15',
+        taxRate: 19,
+        pricesIncludeTax: true,
+        enableAutoReminders: false,
+      });
+      expect(json.data.approvals).toEqual({ maxLineDiscount: 15, maxTotalDiscount: null, minMargin: 20 });
+    });
+
+    it('should return defaults for a shop that has not saved settings', async () => {
+      const response = await GET(createRequest('GET'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.shopId).toBe(SHOP);
+      expect(json.data.company.name).toBe('');
+      expect(json.data.quotes).toEqual(expect.objectContaining({ defaultCurrency: 'USD', baseCurrency: 'USD', defaultValidityPeriod: 30 }));
+      expect(json.data.approvals).toEqual({ maxLineDiscount: null, maxTotalDiscount: null, minMargin: null });
+    });
+
+    it('should require a shop', async () => {
+      const response = await GET(createRequest('GET', undefined, null));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.code).toBe('MISSING_SHOP');
+    });
+  });
+
+  describe('PUT /api/settings', () => {
+    it('should save only the fields that were sent', async () => {
+      queueResult('merchant_settings', { data: settingsRow, error: null });
+
+      const response = await PUT(createRequest('PUT', {
+        company: { name: 'Acme Supply' },
+        quotes: { defaultCurrency: 'eur', taxRate: 19 },
+      }));
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.merchant_settings[0].upsert).toHaveBeenCalledWith(
+        { shop_id: SHOP, company_name: 'Acme Supply', default_currency: 'EUR', default_tax_rate: 19 },
+        { onConflict: 'shop_id' }
+      );
+    });
+
+    it('should save the base currency as an upper-case code', async () => {
+      queueResult('merchant_settings', { data: settingsRow, error: null });
+
+      const response = await PUT(createRequest('PUT', { quotes: { baseCurrency: 'gbp' } }));
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.merchant_settings[0].upsert).toHaveBeenCalledWith(
+        { shop_id: SHOP, base_currency: 'GBP' },
+        { onConflict: 'shop_id' }
+      );
+    });
+
+    it('should reject a base currency that is not a 3-letter code', async () => {
+      const response = await PUT(createRequest('PUT', { quotes: { baseCurrency: 'POUND' } }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.details['quotes.baseCurrency']).toEqual(['Currency must be a 3-letter code']);
+    });
+
+    it('should save approval limits and clear the ones set to null', async () => {
+      queueResult('merchant_settings', { data: settingsRow, error: null });
+
+      const response = await PUT(createRequest('PUT', {
+        approvals: { maxLineDiscount: 15, maxTotalDiscount: null },
+      }));
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.merchant_settings[0].upsert).toHaveBeenCalledWith(
+        { shop_id: SHOP, approval_max_line_discount: 15, approval_max_total_discount: null },
+        { onConflict: 'shop_id' }
+      );
+    });
+
+    it('should reject approval limits outside 0-100', async () => {
+      const response = await PUT(createRequest('PUT', { approvals: { minMargin: 120 } }));
+
+      expect(response.status).toBe(400);
+      expect(Object.keys((await response.json()).error.details)).toEqual(['approvals.minMargin']);
+    });
+
+    it('should reject invalid settings with field details', async () => {
+      const response = await PUT(createRequest('PUT', {
+        email: { senderEmail: 'not-an-email' },
+        quotes: { defaultValidityPeriod: 0 },
+      }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(Object.keys(json.error.details)).toEqual(['email.senderEmail', 'quotes.defaultValidityPeriod']);
+      expect(mockBuilders.merchant_settings).toBeUndefined();
+    });
+
+    it('should only let owners and admins save settings', async () => {
+      const response = await PUT(createRequest('PUT', { company: { name: 'Acme' } }, SHOP, 'sales'));
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).error.code).toBe('FORBIDDEN');
+      expect(mockBuilders.merchant_settings).toBeUndefined();
+    });
+
+    it('should report database failures', async () => {
+      queueResult('merchant_settings', { data: null, error: { message: 'connection reset' } });
+      const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await PUT(createRequest('PUT', { email: { senderName: 'Acme' } }));
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.code).toBe('DATABASE_ERROR');
+      mockConsoleError.mockRestore();
+    });
+  });
+});
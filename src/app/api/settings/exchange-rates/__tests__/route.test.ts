@@ -0,0 +1,175 @@
+/**
+ * API Integration Tests - Exchange Rates Route
+ * Tests for GET/PUT/POST /api/settings/exchange-rates
+ * @module src/app/api/settings/exchange-rates/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { GET, POST, PUT } from '@/app/api/settings/exchange-rates/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const SHOP = 'test-shop.myshopify.com';
+
+describe('Exchange Rates API', () => {
+  const rateRow = {
+    shop_id: SHOP,
+    currency: 'EUR',
+    rate: '0.9200000000',
+    source: 'manual',
+    created_at: '2024-02-01T00:00:00Z',
+    updated_at: '2024-02-01T00:00:00Z',
+  };
+
+  const createRequest = (method: string, body?: unknown, shopId: string | null = SHOP, role = 'admin') =>
+    new NextRequest(`http://localhost/api/settings/exchange-rates${shopId ? `?shop_id=${shopId}` : ''}`, {
+      method,
+      headers: { 'x-user-id': 'user-1', 'x-member-role': role },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('GET /api/settings/exchange-rates', () => {
+    it('should list the shop rates', async () => {
+      queueResult('exchange_rates', { data: [rateRow], error: null });
+
+      const response = await GET(createRequest('GET'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.exchange_rates[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(json.data).toEqual([expect.objectContaining({ currency: 'EUR', rate: 0.92, source: 'manual' })]);
+    });
+
+    it('should require a shop', async () => {
+      const response = await GET(createRequest('GET', undefined, null));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.code).toBe('MISSING_SHOP');
+    });
+  });
+
+  describe('PUT /api/settings/exchange-rates', () => {
+    it('should replace the rates table', async () => {
+      queueResult('exchange_rates', { data: null, error: null });
+      queueResult('exchange_rates', { data: null, error: null });
+      queueResult('exchange_rates', { data: [rateRow], error: null });
+
+      const response = await PUT(createRequest('PUT', { rates: [{ currency: 'eur', rate: 0.92 }] }));
+
+      expect(response.status).toBe(200);
+      const [upsert, removal] = mockBuilders.exchange_rates;
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        [{ shop_id: SHOP, currency: 'EUR', rate: 0.92, source: 'manual', updated_by: 'user-1' }],
+        { onConflict: 'shop_id,currency' }
+      );
+      expect(removal.delete).toHaveBeenCalled();
+      expect(removal.not).toHaveBeenCalledWith('currency', 'in', '(EUR)');
+      expect((await response.json()).data).toHaveLength(1);
+    });
+
+    it('should clear every rate when given none', async () => {
+      const response = await PUT(createRequest('PUT', { rates: [] }));
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.exchange_rates[0].delete).toHaveBeenCalled();
+      expect(mockBuilders.exchange_rates[0].not).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate currencies and bad rates', async () => {
+      const response = await PUT(createRequest('PUT', {
+        rates: [{ currency: 'EUR', rate: 0.92 }, { currency: 'EUR', rate: 0.9 }, { currency: 'GBP', rate: 0 }],
+      }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(json.error.details).toEqual({
+        rates: ['Each currency can only have one rate'],
+        'rates.2.rate': ['Rate must be greater than 0'],
+      });
+      expect(mockBuilders.exchange_rates).toBeUndefined();
+    });
+
+    it('should reject a currency given twice', async () => {
+      const response = await PUT(createRequest('PUT', {
+        rates: [{ currency: 'EUR', rate: 0.92 }, { currency: 'eur', rate: 0.9 }],
+      }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.details).toEqual({ rates: ['Each currency can only have one rate'] });
+    });
+
+    it('should only let owners and admins edit rates', async () => {
+      const response = await PUT(createRequest('PUT', { rates: [] }, SHOP, 'sales'));
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.exchange_rates).toBeUndefined();
+    });
+
+    it('should report database failures', async () => {
+      queueResult('exchange_rates', { data: null, error: { message: 'connection reset' } });
+      const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await PUT(createRequest('PUT', { rates: [{ currency: 'EUR', rate: 0.92 }] }));
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.code).toBe('DATABASE_ERROR');
+      mockConsoleError.mockRestore();
+    });
+  });
+
+  describe('POST /api/settings/exchange-rates', () => {
+    it('should import a rates file against the base currency', async () => {
+      queueResult('merchant_settings', { data: { shop_id: SHOP, base_currency: 'USD' }, error: null });
+      queueResult('exchange_rates', { data: null, error: null });
+      queueResult('exchange_rates', { data: [rateRow], error: null });
+
+      const response = await POST(createRequest('POST', { content: 'currency,rate\nEUR,0.92\nUSD,1\n' }));
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.exchange_rates[0].upsert).toHaveBeenCalledWith(
+        [{ shop_id: SHOP, currency: 'EUR', rate: 0.92, source: 'import', updated_by: 'user-1' }],
+        { onConflict: 'shop_id,currency' }
+      );
+      // Currencies missing from the file keep their rates
+      expect(mockBuilders.exchange_rates[0].delete).not.toHaveBeenCalled();
+    });
+
+    it('should import nothing from a file with errors', async () => {
+      queueResult('merchant_settings', { data: { shop_id: SHOP, base_currency: 'USD' }, error: null });
+
+      const response = await POST(createRequest('POST', { content: '{"base":"EUR","rates":{"USD":1.09}}' }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.message).toBe('The rates file has errors');
+      expect(json.error.details).toEqual({ file: ['The rates are quoted against EUR, not the base currency USD'] });
+      expect(mockBuilders.exchange_rates).toBeUndefined();
+    });
+
+    it('should reject a file without rates', async () => {
+      const response = await POST(createRequest('POST', { content: 'currency,rate\n' }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.message).toBe('The rates file has no rates');
+    });
+
+    it('should only let owners and admins import rates', async () => {
+      const response = await POST(createRequest('POST', { content: 'EUR,0.92' }, SHOP, 'viewer'));
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Exchange Rates API Routes
+ * GET /api/settings/exchange-rates?shop_id= - List the shop's rates from its base currency
+ * PUT /api/settings/exchange-rates?shop_id= - Replace the rates table (owners and admins)
+ * POST /api/settings/exchange-rates?shop_id= - Import a CSV or JSON rates file (owners and admins)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  listExchangeRates,
+  parseExchangeRatesFile,
+  replaceExchangeRates,
+  upsertExchangeRates,
+} from '@/lib/exchangeRates';
+import { requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import { getMerchantSettings } from '@/lib/settings';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, ExchangeRate } from '@/types/quote';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const ratesSchema = z.object({
+  rates: z.array(z.object({
+    currency: z.string()
+      .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code')
+      .toUpperCase(),
+    rate: z.number().positive('Rate must be greater than 0'),
+  })).max(200),
+}).refine(
+  ({ rates }) => new Set(rates.map((rate) => rate.currency)).size === rates.length,
+  { message: 'Each currency can only have one rate', path: ['rates'] }
+);
+
+const importSchema = z.object({
+  content: z.string().min(1, 'The file is empty').max(200_000, 'The file is too large'),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - List Rates
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    const rates = await listExchangeRates(createRequestClient(request), shopId);
+
+    return NextResponse.json<ApiResponse<ExchangeRate[]>>({
+      success: true,
+      data: rates,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/settings/exchange-rates:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to load exchange rates');
+  }
+}
+
+// ============================================================================
+// PUT Handler - Replace Rates
+// ============================================================================
+
+export async function PUT(request: NextRequest) {
+  const denied = requirePermission(request, 'settings:manage');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = ratesSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid exchange rates',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const rates = await replaceExchangeRates(
+      createRequestClient(request),
+      shopId,
+      validationResult.data.rates,
+      getRequestMember(request)?.userId
+    );
+
+    return NextResponse.json<ApiResponse<ExchangeRate[]>>({
+      success: true,
+      data: rates,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in PUT /api/settings/exchange-rates:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to save exchange rates');
+  }
+}
+
+// ============================================================================
+// POST Handler - Import Rates File
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, 'settings:manage');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = importSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid rates file',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const client = createRequestClient(request);
+    const { quotes } = await getMerchantSettings(shopId, client);
+    const { rates, errors } = parseExchangeRatesFile(validationResult.data.content, quotes.baseCurrency);
+
+    // Nothing is imported from a file with mistakes, so it can be fixed and imported again whole
+    if (errors.length > 0 || rates.length === 0) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errors.length > 0 ? 'The rates file has errors' : 'The rates file has no rates',
+          details: { file: errors },
+        },
+      }, { status: 400 });
+    }
+
+    // Currencies missing from the file keep their rates
+    await upsertExchangeRates(client, shopId, rates, 'import', getRequestMember(request)?.userId);
+
+    return NextResponse.json<ApiResponse<ExchangeRate[]>>({
+      success: true,
+      data: await listExchangeRates(client, shopId),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/settings/exchange-rates:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to import exchange rates');
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Merchant Settings API Routes
+ * GET /api/settings?shop_id= - Get the shop's settings (defaults until first saved)
+ * PUT /api/settings?shop_id= - Save company, email, quote and approval settings (owners and admins)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/members';
+import { getMerchantSettings, saveMerchantSettings } from '@/lib/settings';
+import { createRequestClient } from '@/lib/supabaseServer';
+import type { ApiResponse, MerchantSettings } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const optionalEmail = z.string().email('Invalid email address').or(z.literal(''));
+
+const currencyCode = z.string()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code')
+  .toUpperCase();
+
+// null turns the limit off
+const percentLimit = z.number().min(0).max(100).nullable();
+
+const settingsSchema = z.object({
+  company: z.object({
+    name: z.string().max(200),
+    address: z.string().max(1000),
+    phone: z.string().max(50),
+    email: optionalEmail,
+    website: z.string().url('Invalid URL').or(z.literal('')),
+    taxId: z.string().max(100),
+    logoUrl: z.string().url('Invalid URL').or(z.literal('')),
+  }).partial().optional(),
+  email: z.object({
+    senderName: z.string().max(200),
+    senderEmail: optionalEmail,
+    replyToEmail: optionalEmail,
+    emailFooter: z.string().max(2000),
+  }).partial().optional(),
+  quotes: z.object({
+    defaultCurrency: currencyCode,
+    baseCurrency: currencyCode,
+    defaultValidityPeriod: z.number().int().min(1).max(365),
+    defaultPaymentTerms: z.string().min(1, 'Payment terms are required').max(100),
+    taxRate: z.number().min(0).max(100),
+    pricesIncludeTax: z.boolean(),
+    enableAutoReminders: z.boolean(),
+  }).partial().optional(),
+  approvals: z.object({
+    maxLineDiscount: percentLimit,
+    maxTotalDiscount: percentLimit,
+    minMargin: percentLimit,
+  }).partial().optional(),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - Get Settings
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    const settings = await getMerchantSettings(shopId, createRequestClient(request));
+
+    return NextResponse.json<ApiResponse<MerchantSettings>>({
+      success: true,
+      data: settings,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/settings:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to load settings');
+  }
+}
+
+// ============================================================================
+// PUT Handler - Save Settings
+// ============================================================================
+
+export async function PUT(request: NextRequest) {
+  const denied = requirePermission(request, 'settings:manage');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = settingsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid settings',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const settings = await saveMerchantSettings(shopId, validationResult.data, createRequestClient(request));
+
+    return NextResponse.json<ApiResponse<MerchantSettings>>({
+      success: true,
+      data: settings,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in PUT /api/settings:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to save settings');
+  }
+}
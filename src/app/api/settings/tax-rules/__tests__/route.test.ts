@@ -0,0 +1,133 @@
+/**
+ * API Integration Tests - Tax Rules Route
+ * Tests for GET/PUT /api/settings/tax-rules
+ * @module src/app/api/settings/tax-rules/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { GET, PUT } from '@/app/api/settings/tax-rules/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const SHOP = 'test-shop.myshopify.com';
+
+describe('Tax Rules API', () => {
+  const ruleRow = {
+    id: 'rule-1',
+    shop_id: SHOP,
+    name: 'California',
+    country: 'US',
+    region: 'CA',
+    rate: '8.250',
+    created_at: '2024-02-01T00:00:00Z',
+    updated_at: '2024-02-01T00:00:00Z',
+  };
+
+  const createRequest = (method: string, body?: unknown, shopId: string | null = SHOP, role = 'admin') =>
+    new NextRequest(`http://localhost/api/settings/tax-rules${shopId ? `?shop_id=${shopId}` : ''}`, {
+      method,
+      headers: { 'x-user-id': 'user-1', 'x-member-role': role },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('GET /api/settings/tax-rules', () => {
+    it('should list the shop rules', async () => {
+      queueResult('tax_rules', { data: [ruleRow], error: null });
+
+      const response = await GET(createRequest('GET'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.tax_rules[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(json.data).toEqual([expect.objectContaining({ country: 'US', region: 'CA', rate: 8.25 })]);
+    });
+
+    it('should require a shop', async () => {
+      const response = await GET(createRequest('GET', undefined, null));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.code).toBe('MISSING_SHOP');
+    });
+  });
+
+  describe('PUT /api/settings/tax-rules', () => {
+    it('should replace the rules', async () => {
+      queueResult('tax_rules', { data: [{ id: 'rule-1' }], error: null });
+      queueResult('tax_rules', { data: null, error: null });
+      queueResult('tax_rules', { data: [ruleRow], error: null });
+
+      const response = await PUT(createRequest('PUT', {
+        rules: [{ name: ' California ', country: 'us', region: 'CA', rate: 8.25 }],
+      }));
+
+      expect(response.status).toBe(200);
+      const [upsert, removal] = mockBuilders.tax_rules;
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        [{ shop_id: SHOP, name: 'California', country: 'US', region: 'CA', rate: 8.25 }],
+        { onConflict: 'shop_id,country,region' }
+      );
+      expect(removal.delete).toHaveBeenCalled();
+      expect(removal.not).toHaveBeenCalledWith('id', 'in', '(rule-1)');
+      expect((await response.json()).data).toHaveLength(1);
+    });
+
+    it('should clear every rule when given none', async () => {
+      const response = await PUT(createRequest('PUT', { rules: [] }));
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.tax_rules[0].delete).toHaveBeenCalled();
+      expect(mockBuilders.tax_rules[0].not).not.toHaveBeenCalled();
+    });
+
+    it('should reject a region given twice and bad rates', async () => {
+      const response = await PUT(createRequest('PUT', {
+        rules: [
+          { name: 'California', country: 'US', region: 'CA', rate: 8.25 },
+          { name: 'California again', country: 'US', region: 'ca', rate: 7 },
+          { name: 'Too much', country: 'GB', rate: 120 },
+        ],
+      }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(json.error.details).toEqual({
+        rules: ['Each country or state can only have one rule'],
+        'rules.2.rate': ['Rate cannot be over 100%'],
+      });
+      expect(mockBuilders.tax_rules).toBeUndefined();
+    });
+
+    it('should only let owners and admins edit rules', async () => {
+      const response = await PUT(createRequest('PUT', { rules: [] }, SHOP, 'sales'));
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.tax_rules).toBeUndefined();
+    });
+
+    it('should report database failures', async () => {
+      queueResult('tax_rules', { data: null, error: { message: 'connection reset' } });
+      const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await PUT(createRequest('PUT', {
+        rules: [{ name: 'UK VAT', country: 'GB', rate: 20 }],
+      }));
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.code).toBe('DATABASE_ERROR');
+      mockConsoleError.mockRestore();
+    });
+  });
+});
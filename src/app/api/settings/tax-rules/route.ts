@@ -0,0 +1,115 @@
+/**
+ * Tax Rules API Routes
+ * GET /api/settings/tax-rules?shop_id= - List the shop's regional tax rates
+ * PUT /api/settings/tax-rules?shop_id= - Replace the tax rules (owners and admins)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/members';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { listTaxRules, replaceTaxRules } from '@/lib/tax';
+import type { ApiResponse, TaxRule } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const rulesSchema = z.object({
+  rules: z.array(z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    country: z.string()
+      .regex(/^[A-Za-z]{2}$/, 'Country must be a 2-letter code')
+      .toUpperCase(),
+    region: z.string().trim().max(100).default(''),
+    rate: z.number().min(0, 'Rate cannot be negative').max(100, 'Rate cannot be over 100%'),
+  })).max(500),
+}).refine(
+  ({ rules }) => new Set(rules.map((rule) => `${rule.country}:${rule.region.toUpperCase()}`)).size === rules.length,
+  { message: 'Each country or state can only have one rule', path: ['rules'] }
+);
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - List Rules
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    const rules = await listTaxRules(createRequestClient(request), shopId);
+
+    return NextResponse.json<ApiResponse<TaxRule[]>>({
+      success: true,
+      data: rules,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/settings/tax-rules:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to load tax rules');
+  }
+}
+
+// ============================================================================
+// PUT Handler - Replace Rules
+// ============================================================================
+
+export async function PUT(request: NextRequest) {
+  const denied = requirePermission(request, 'settings:manage');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = rulesSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid tax rules',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const rules = await replaceTaxRules(createRequestClient(request), shopId, validationResult.data.rules);
+
+    return NextResponse.json<ApiResponse<TaxRule[]>>({
+      success: true,
+      data: rules,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in PUT /api/settings/tax-rules:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to save tax rules');
+  }
+}
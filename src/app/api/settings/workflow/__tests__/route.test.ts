@@ -0,0 +1,192 @@
+/**
+ * API Integration Tests - Quote Workflow Route
+ * Tests for GET/PUT/DELETE /api/settings/workflow
+ * @module src/app/api/settings/workflow/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { DELETE, GET, PUT } from '@/app/api/settings/workflow/route';
+import { DEFAULT_WORKFLOW } from '@/lib/quoteWorkflow';
+import { toWorkflowInput } from '@/lib/workflows';
+import { QuoteStatus } from '@/types/quote';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const SHOP = 'test-shop.myshopify.com';
+
+describe('Quote Workflow API', () => {
+  const awaitingApproval = {
+    key: 'awaiting_approval',
+    label: 'Awaiting approval',
+    description: 'A manager has to sign off before sending',
+    color: 'bg-amber-500',
+    icon: 'ClockIcon',
+    isFinal: false,
+    canEdit: false,
+  };
+
+  const workflowBody = {
+    statuses: [awaitingApproval],
+    transitions: [
+      ...toWorkflowInput(DEFAULT_WORKFLOW).transitions,
+      { from: [QuoteStatus.DRAFT], to: 'awaiting_approval', action: 'Request Approval' },
+      { from: ['awaiting_approval'], to: QuoteStatus.SENT, action: 'Approve', allowedRoles: ['owner', 'admin'] },
+    ],
+  };
+
+  const workflowRow = {
+    shop_id: SHOP,
+    ...workflowBody,
+    updated_by: 'user-1',
+    created_at: '2024-02-01T00:00:00Z',
+    updated_at: '2024-02-01T00:00:00Z',
+  };
+
+  const createRequest = (method: string, body?: unknown, shopId: string | null = SHOP, role = 'admin') =>
+    new NextRequest(`http://localhost/api/settings/workflow${shopId ? `?shop_id=${shopId}` : ''}`, {
+      method,
+      headers: { 'x-user-id': 'user-1', 'x-member-role': role },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('GET /api/settings/workflow', () => {
+    it('should return the default workflow for a shop that has not saved one', async () => {
+      const response = await GET(createRequest('GET'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.quote_workflows[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(json.data.isDefault).toBe(true);
+      expect(json.data.transitions).toHaveLength(DEFAULT_WORKFLOW.transitions.length);
+    });
+
+    it('should return the shop workflow with its custom statuses', async () => {
+      queueResult('quote_workflows', { data: workflowRow, error: null });
+
+      const response = await GET(createRequest('GET'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data.isDefault).toBe(false);
+      expect(json.data.statuses).toContainEqual({ ...awaitingApproval, isCustom: true });
+      expect(json.data.transitions).toContainEqual(expect.objectContaining({
+        to: 'awaiting_approval',
+        requiresComment: false,
+        allowedRoles: [],
+      }));
+    });
+
+    it('should require a shop', async () => {
+      const response = await GET(createRequest('GET', undefined, null));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.code).toBe('MISSING_SHOP');
+    });
+
+    it('should return 500 when the workflow cannot be loaded', async () => {
+      queueResult('quote_workflows', { data: null, error: { message: 'connection lost' } });
+
+      const response = await GET(createRequest('GET'));
+
+      expect(response.status).toBe(500);
+      expect((await response.json()).error.code).toBe('DATABASE_ERROR');
+    });
+  });
+
+  describe('PUT /api/settings/workflow', () => {
+    it('should save the workflow', async () => {
+      queueResult('quote_workflows', { data: workflowRow, error: null });
+
+      const response = await PUT(createRequest('PUT', workflowBody));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.quote_workflows[0].upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          shop_id: SHOP,
+          statuses: [awaitingApproval],
+          updated_by: 'user-1',
+          transitions: expect.arrayContaining([
+            expect.objectContaining({ to: 'awaiting_approval', requiresComment: false, allowedRoles: [] }),
+          ]),
+        }),
+        { onConflict: 'shop_id' }
+      );
+      expect(json.data.isDefault).toBe(false);
+    });
+
+    it('should reject a malformed workflow', async () => {
+      const response = await PUT(createRequest('PUT', {
+        statuses: [],
+        transitions: [{ from: [], to: 'sent', action: '' }],
+      }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(json.error.details['transitions.0.from']).toEqual(['A transition needs at least one source status']);
+      expect(json.error.details['transitions.0.action']).toEqual(['Action label is required']);
+      expect(mockBuilders.quote_workflows).toBeUndefined();
+    });
+
+    it('should reject a workflow that does not hold together', async () => {
+      const response = await PUT(createRequest('PUT', {
+        ...workflowBody,
+        transitions: toWorkflowInput(DEFAULT_WORKFLOW).transitions,
+      }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.details.workflow).toEqual(['No transition leads to status "awaiting_approval"']);
+      expect(mockBuilders.quote_workflows).toBeUndefined();
+    });
+
+    it('should reject unknown roles', async () => {
+      const response = await PUT(createRequest('PUT', {
+        ...workflowBody,
+        transitions: [{ from: [QuoteStatus.DRAFT], to: 'awaiting_approval', action: 'Request', allowedRoles: ['manager'] }],
+      }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.details).toHaveProperty(['transitions.0.allowedRoles.0']);
+    });
+
+    it('should be limited to owners and admins', async () => {
+      const response = await PUT(createRequest('PUT', workflowBody, SHOP, 'sales'));
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.quote_workflows).toBeUndefined();
+    });
+  });
+
+  describe('DELETE /api/settings/workflow', () => {
+    it('should go back to the default workflow', async () => {
+      const response = await DELETE(createRequest('DELETE'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.quote_workflows[0].delete).toHaveBeenCalled();
+      expect(mockBuilders.quote_workflows[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(json.data.isDefault).toBe(true);
+    });
+
+    it('should be limited to owners and admins', async () => {
+      const response = await DELETE(createRequest('DELETE', undefined, SHOP, 'viewer'));
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.quote_workflows).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Quote Workflow API Routes
+ * GET /api/settings/workflow?shop_id= - Get the shop's workflow (the default until saved)
+ * PUT /api/settings/workflow?shop_id= - Save custom statuses and transitions (owners and admins)
+ * DELETE /api/settings/workflow?shop_id= - Go back to the default workflow (owners and admins)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { DEFAULT_WORKFLOW } from '@/lib/quoteWorkflow';
+import { findWorkflowErrors, getShopWorkflow, resetShopWorkflow, saveShopWorkflow } from '@/lib/workflows';
+import { MemberRole } from '@/types/quote';
+import type { ApiResponse, QuoteWorkflowDefinition } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const workflowSchema = z.object({
+  statuses: z.array(z.object({
+    key: z.string().min(1).max(50),
+    label: z.string().min(1, 'Label is required').max(50),
+    description: z.string().max(200).default(''),
+    color: z.string(),
+    icon: z.string(),
+    isFinal: z.boolean().default(false),
+    canEdit: z.boolean().default(false),
+  })).max(20, 'A workflow can have at most 20 custom statuses'),
+  transitions: z.array(z.object({
+    from: z.array(z.string()).min(1, 'A transition needs at least one source status'),
+    to: z.string(),
+    action: z.string().min(1, 'Action label is required').max(50),
+    requiresConfirmation: z.boolean().default(false),
+    confirmationMessage: z.string().max(300).optional(),
+    requiresComment: z.boolean().default(false),
+    allowedRoles: z.array(z.enum(MemberRole)).default([]),
+  })).min(1, 'A workflow needs at least one transition').max(100),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - Get Workflow
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    const workflow = await getShopWorkflow(createRequestClient(request), shopId);
+
+    return NextResponse.json<ApiResponse<QuoteWorkflowDefinition>>({
+      success: true,
+      data: workflow,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/settings/workflow:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to load workflow');
+  }
+}
+
+// ============================================================================
+// PUT Handler - Save Workflow
+// ============================================================================
+
+export async function PUT(request: NextRequest) {
+  const denied = requirePermission(request, 'settings:manage');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = workflowSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid workflow',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const problems = findWorkflowErrors(validationResult.data);
+    if (problems.length > 0) {
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid workflow',
+          details: { workflow: problems },
+        },
+      }, { status: 400 });
+    }
+
+    const workflow = await saveShopWorkflow(
+      createRequestClient(request),
+      shopId,
+      validationResult.data,
+      getRequestMember(request)?.userId
+    );
+
+    return NextResponse.json<ApiResponse<QuoteWorkflowDefinition>>({
+      success: true,
+      data: workflow,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in PUT /api/settings/workflow:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to save workflow');
+  }
+}
+
+// ============================================================================
+// DELETE Handler - Reset Workflow
+// ============================================================================
+
+export async function DELETE(request: NextRequest) {
+  const denied = requirePermission(request, 'settings:manage');
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const shopId = request.nextUrl.searchParams.get('shop_id');
+
+    if (!shopId) {
+      return errorResponse(400, 'MISSING_SHOP', 'shop_id is required');
+    }
+
+    await resetShopWorkflow(createRequestClient(request), shopId);
+
+    return NextResponse.json<ApiResponse<QuoteWorkflowDefinition>>({
+      success: true,
+      data: DEFAULT_WORKFLOW,
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/settings/workflow:', error);
+    return errorResponse(500, 'DATABASE_ERROR', 'Failed to reset workflow');
+  }
+}
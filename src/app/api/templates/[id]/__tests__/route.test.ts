@@ -0,0 +1,123 @@
+/**
+ * API Integration Tests - Quote Template Routes
+ * Tests for GET/PUT/DELETE /api/templates/[id]
+ * @module src/app/api/templates/[id]/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { DELETE, GET, PUT } from '@/app/api/templates/[id]/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const SHOP = 'test-shop.myshopify.com';
+
+describe('Quote Template API', () => {
+  const templateRow = {
+    id: 'tmpl-1',
+    shop_id: SHOP,
+    name: 'Standard B2B',
+    category: 'Standard',
+    is_default: false,
+    pdf_template: 'modern',
+    terms_default: {},
+    line_items: [],
+    usage_count: 0,
+    created_at: '2024-02-01T00:00:00Z',
+    updated_at: '2024-02-01T00:00:00Z',
+  };
+
+  const createRequest = (method: string, body?: unknown, role = 'sales') =>
+    new NextRequest('http://localhost/api/templates/tmpl-1', {
+      method,
+      headers: { 'x-user-id': 'user-1', 'x-shop-id': SHOP, 'x-member-role': role },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+  const params = { params: Promise.resolve({ id: 'tmpl-1' }) };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('GET /api/templates/[id]', () => {
+    it('should return the template', async () => {
+      queueResult('quote_templates', { data: templateRow, error: null });
+
+      const response = await GET(createRequest('GET'), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(json.data).toEqual(expect.objectContaining({ id: 'tmpl-1', name: 'Standard B2B', usageCount: 0 }));
+      expect(mockBuilders.quote_templates[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+    });
+
+    it('should return 404 for templates outside the shop', async () => {
+      const response = await GET(createRequest('GET'), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT /api/templates/[id]', () => {
+    it('should update only the fields that were sent', async () => {
+      queueResult('quote_templates', { data: { ...templateRow, footer_text: 'See you soon' }, error: null });
+
+      const response = await PUT(createRequest('PUT', { footerText: 'See you soon', description: '' }), params);
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.quote_templates[0].update).toHaveBeenCalledWith({
+        footer_text: 'See you soon',
+        description: null,
+      });
+      expect(json.data.footerText).toBe('See you soon');
+    });
+
+    it('should clear the previous default when made the default', async () => {
+      queueResult('quote_templates', { data: null, error: null });
+      queueResult('quote_templates', { data: { ...templateRow, is_default: true }, error: null });
+
+      const response = await PUT(createRequest('PUT', { isDefault: true }), params);
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.quote_templates[0].update).toHaveBeenCalledWith({ is_default: false });
+      expect(mockBuilders.quote_templates[1].update).toHaveBeenCalledWith({ is_default: true });
+    });
+
+    it('should return 404 when no template was updated', async () => {
+      const response = await PUT(createRequest('PUT', { name: 'Renamed' }), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/templates/[id]', () => {
+    it('should delete the template', async () => {
+      queueResult('quote_templates', { data: [{ id: 'tmpl-1' }], error: null });
+
+      const response = await DELETE(createRequest('DELETE'), params);
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).data).toEqual({ deleted: true });
+      expect(mockBuilders.quote_templates[0].delete).toHaveBeenCalled();
+    });
+
+    it('should return 404 when nothing was deleted', async () => {
+      queueResult('quote_templates', { data: [], error: null });
+
+      const response = await DELETE(createRequest('DELETE'), params);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should not let viewers delete templates', async () => {
+      const response = await DELETE(createRequest('DELETE', undefined, 'viewer'), params);
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.quote_templates).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * API Integration Tests - Default Quote Template Route
+ * Tests for POST /api/templates/[id]/default
+ * @module src/app/api/templates/[id]/default/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/templates/[id]/default/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const SHOP = 'test-shop.myshopify.com';
+
+describe('Default Quote Template API', () => {
+  const createRequest = () =>
+    new NextRequest('http://localhost/api/templates/tmpl-2/default', {
+      method: 'POST',
+      headers: { 'x-user-id': 'user-1', 'x-shop-id': SHOP, 'x-member-role': 'admin' },
+    });
+
+  const params = { params: Promise.resolve({ id: 'tmpl-2' }) };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  it('should move the default to the template', async () => {
+    queueResult('quote_templates', { data: { id: 'tmpl-2' }, error: null });
+    queueResult('quote_templates', { data: null, error: null });
+    queueResult('quote_templates', {
+      data: {
+        id: 'tmpl-2',
+        shop_id: SHOP,
+        name: 'Service Quote',
+        is_default: true,
+        created_at: '2024-02-01T00:00:00Z',
+        updated_at: '2024-02-01T00:00:00Z',
+      },
+      error: null,
+    });
+
+    const response = await POST(createRequest(), params);
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data.isDefault).toBe(true);
+    expect(mockBuilders.quote_templates[1].update).toHaveBeenCalledWith({ is_default: false });
+    expect(mockBuilders.quote_templates[1].eq).toHaveBeenCalledWith('shop_id', SHOP);
+    expect(mockBuilders.quote_templates[2].update).toHaveBeenCalledWith({ is_default: true });
+    expect(mockBuilders.quote_templates[2].eq).toHaveBeenCalledWith('id', 'tmpl-2');
+  });
+
+  it('should keep the current default when the template does not exist', async () => {
+    const response = await POST(createRequest(), params);
+
+    expect(response.status).toBe(404);
+    expect(mockBuilders.quote_templates).toHaveLength(1);
+  });
+});
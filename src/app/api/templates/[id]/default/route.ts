@@ -0,0 +1,77 @@
+/**
+ * Default Quote Template API Route
+ * POST /api/templates/[id]/default - Make the template the one new quotes start from
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { clearDefaultTemplate, mapTemplateRow, type QuoteTemplateRow } from '@/lib/templates';
+import type { ApiResponse, QuoteTemplate } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Set Default Template
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'quotes:write');
+  if (denied) {
+    return denied;
+  }
+
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const { id } = await params;
+    const client = createRequestClient(request);
+
+    // Check the template exists before the current default is cleared
+    const { data: existing } = await client
+      .from('quote_templates')
+      .select('id')
+      .eq('id', id)
+      .eq('shop_id', member.shopId)
+      .maybeSingle();
+
+    if (!existing) {
+      return errorResponse(404, 'NOT_FOUND', 'Template not found');
+    }
+
+    await clearDefaultTemplate(client, member.shopId);
+
+    const { data, error } = await client.from('quote_templates')
+      .update({ is_default: true })
+      .eq('id', id)
+      .eq('shop_id', member.shopId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error setting default template:', error);
+      return errorResponse(500, 'UPDATE_ERROR', 'Failed to set default template');
+    }
+
+    return NextResponse.json<ApiResponse<QuoteTemplate>>({
+      success: true,
+      data: mapTemplateRow(data as QuoteTemplateRow),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/templates/[id]/default:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
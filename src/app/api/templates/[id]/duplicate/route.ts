@@ -0,0 +1,91 @@
+/**
+ * Duplicate Quote Template API Route
+ * POST /api/templates/[id]/duplicate - Copy a template; the copy is never the default
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import { mapTemplateRow, type QuoteTemplateRow } from '@/lib/templates';
+import type { ApiResponse, QuoteTemplate } from '@/types/quote';
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// POST Handler - Duplicate Template
+// ============================================================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'quotes:write');
+  if (denied) {
+    return denied;
+  }
+
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const { id } = await params;
+    const client = createRequestClient(request);
+
+    const { data: source, error: fetchError } = await client
+      .from('quote_templates')
+      .select('*')
+      .eq('id', id)
+      .eq('shop_id', member.shopId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching template:', fetchError);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch template');
+    }
+
+    if (!source) {
+      return errorResponse(404, 'NOT_FOUND', 'Template not found');
+    }
+
+    const template = source as QuoteTemplateRow;
+
+    const { data, error } = await client.from('quote_templates')
+      .insert({
+        shop_id: member.shopId,
+        name: `${template.name} (copy)`.slice(0, 120),
+        description: template.description,
+        category: template.category,
+        is_default: false,
+        pdf_template: template.pdf_template,
+        terms_default: template.terms_default,
+        line_items: template.line_items,
+        header_text: template.header_text,
+        footer_text: template.footer_text,
+        created_by: member.userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error duplicating template:', error);
+      return errorResponse(500, 'CREATE_ERROR', 'Failed to duplicate template');
+    }
+
+    return NextResponse.json<ApiResponse<QuoteTemplate>>({
+      success: true,
+      data: mapTemplateRow(data as QuoteTemplateRow),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/templates/[id]/duplicate:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Quote Template API Routes
+ * GET    /api/templates/[id] - Get a template
+ * PUT    /api/templates/[id] - Update a template
+ * DELETE /api/templates/[id] - Delete a template (quotes started from it keep their copy)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import {
+  QUOTE_PDF_TEMPLATES,
+  clearDefaultTemplate,
+  mapTemplateRow,
+  toTemplateRow,
+  type QuoteTemplateRow,
+} from '@/lib/templates';
+import type { ApiResponse, QuoteTemplate } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const templateLineItemSchema = z.object({
+  title: z.string().min(1, 'Item title is required').max(500),
+  description: z.string().max(2000).optional(),
+  productId: z.string().optional(),
+  variantId: z.string().optional(),
+  sku: z.string().optional(),
+  quantity: z.number().int().positive('Quantity must be greater than 0'),
+  unitPrice: z.number().nonnegative('Unit price cannot be negative'),
+  discountPercentage: z.number().min(0).max(100).optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+});
+
+const termsSchema = z.object({
+  paymentTerms: z.string(),
+  deliveryTerms: z.string(),
+  validityPeriod: z.number().int().positive(),
+  depositRequired: z.boolean(),
+  depositPercentage: z.number().min(0).max(100).optional(),
+  currency: z.string().length(3),
+  notes: z.string().optional(),
+  internalNotes: z.string().optional(),
+}).partial();
+
+const updateTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(120),
+  description: z.string().max(500),
+  category: z.string().min(1).max(50),
+  isDefault: z.boolean(),
+  pdfTemplate: z.enum(QUOTE_PDF_TEMPLATES),
+  termsDefault: termsSchema,
+  lineItems: z.array(templateLineItemSchema).max(100),
+  headerText: z.string().max(2000),
+  footerText: z.string().max(2000),
+}).partial();
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - Get Template
+// ============================================================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const { id } = await params;
+
+    const { data, error } = await createRequestClient(request)
+      .from('quote_templates')
+      .select('*')
+      .eq('id', id)
+      .eq('shop_id', member.shopId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching template:', error);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch template');
+    }
+
+    if (!data) {
+      return errorResponse(404, 'NOT_FOUND', 'Template not found');
+    }
+
+    return NextResponse.json<ApiResponse<QuoteTemplate>>({
+      success: true,
+      data: mapTemplateRow(data as QuoteTemplateRow),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/templates/[id]:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// PUT Handler - Update Template
+// ============================================================================
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'quotes:write');
+  if (denied) {
+    return denied;
+  }
+
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = updateTemplateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid template data',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const client = createRequestClient(request);
+
+    if (validationResult.data.isDefault) {
+      await clearDefaultTemplate(client, member.shopId);
+    }
+
+    const { data, error } = await client.from('quote_templates')
+      .update(toTemplateRow(validationResult.data))
+      .eq('id', id)
+      .eq('shop_id', member.shopId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating template:', error);
+      return errorResponse(500, 'UPDATE_ERROR', 'Failed to update template');
+    }
+
+    if (!data) {
+      return errorResponse(404, 'NOT_FOUND', 'Template not found');
+    }
+
+    return NextResponse.json<ApiResponse<QuoteTemplate>>({
+      success: true,
+      data: mapTemplateRow(data as QuoteTemplateRow),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in PUT /api/templates/[id]:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// DELETE Handler - Delete Template
+// ============================================================================
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requirePermission(request, 'quotes:write');
+  if (denied) {
+    return denied;
+  }
+
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const { id } = await params;
+
+    const { data, error } = await createRequestClient(request)
+      .from('quote_templates')
+      .delete()
+      .eq('id', id)
+      .eq('shop_id', member.shopId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting template:', error);
+      return errorResponse(500, 'DELETE_ERROR', 'Failed to delete template');
+    }
+
+    if (!data?.length) {
+      return errorResponse(404, 'NOT_FOUND', 'Template not found');
+    }
+
+    return NextResponse.json<ApiResponse<{ deleted: boolean }>>({
+      success: true,
+      data: { deleted: true },
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/templates/[id]:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
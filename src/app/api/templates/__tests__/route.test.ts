@@ -0,0 +1,132 @@
+/**
+ * API Integration Tests - Quote Templates Routes
+ * Tests for GET/POST /api/templates
+ * @module src/app/api/templates/__tests__/route.test
+ */
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+// Import after mocks are set up
+import { NextRequest } from 'next/server';
+import { GET, POST } from '@/app/api/templates/route';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const SHOP = 'test-shop.myshopify.com';
+
+describe('Quote Templates API', () => {
+  const templateRow = {
+    id: 'tmpl-1',
+    shop_id: SHOP,
+    name: 'Standard B2B',
+    description: 'Net 30 with freight',
+    category: 'Standard',
+    is_default: true,
+    pdf_template: 'classic',
+    terms_default: { paymentTerms: 'Net 30', validityPeriod: 14 },
+    line_items: [{ title: 'Setup fee', quantity: 1, unitPrice: 250 }],
+    header_text: 'Thanks for considering us',
+    footer_text: null,
+    usage_count: 12,
+    last_used_at: '2024-02-20T10:00:00Z',
+    created_by: 'user-1',
+    created_at: '2024-02-01T00:00:00Z',
+    updated_at: '2024-02-20T10:00:00Z',
+  };
+
+  const createRequest = (method: string, body?: unknown, role: string | null = 'sales') =>
+    new NextRequest('http://localhost/api/templates', {
+      method,
+      headers: role ? { 'x-user-id': 'user-1', 'x-shop-id': SHOP, 'x-member-role': role } : {},
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('GET /api/templates', () => {
+    it("should list the member's shop templates, default first", async () => {
+      queueResult('quote_templates', { data: [templateRow], error: null });
+
+      const response = await GET(createRequest('GET', undefined, 'viewer'));
+      const json = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockBuilders.quote_templates[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(mockBuilders.quote_templates[0].order).toHaveBeenCalledWith('is_default', { ascending: false });
+      expect(json.data[0]).toEqual(expect.objectContaining({
+        id: 'tmpl-1',
+        isDefault: true,
+        pdfTemplate: 'classic',
+        headerText: 'Thanks for considering us',
+        lineItems: [{ title: 'Setup fee', quantity: 1, unitPrice: 250 }],
+        usageCount: 12,
+      }));
+      expect(new Date(json.data[0].lastUsedAt).toISOString()).toBe('2024-02-20T10:00:00.000Z');
+    });
+
+    it('should require a signed-in member', async () => {
+      const response = await GET(createRequest('GET', undefined, null));
+
+      expect(response.status).toBe(401);
+      expect(mockBuilders.quote_templates).toBeUndefined();
+    });
+  });
+
+  describe('POST /api/templates', () => {
+    it('should create a template in the member shop', async () => {
+      queueResult('quote_templates', { data: { ...templateRow, is_default: false }, error: null });
+
+      const response = await POST(createRequest('POST', {
+        name: 'Standard B2B',
+        pdfTemplate: 'classic',
+        lineItems: [{ title: 'Setup fee', quantity: 1, unitPrice: 250 }],
+      }));
+
+      expect(response.status).toBe(201);
+      expect(mockBuilders.quote_templates[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        shop_id: SHOP,
+        name: 'Standard B2B',
+        category: 'Standard',
+        is_default: false,
+        pdf_template: 'classic',
+        line_items: [{ title: 'Setup fee', quantity: 1, unitPrice: 250 }],
+        created_by: 'user-1',
+      }));
+    });
+
+    it('should clear the previous default when creating a new default', async () => {
+      queueResult('quote_templates', { data: null, error: null });
+      queueResult('quote_templates', { data: templateRow, error: null });
+
+      const response = await POST(createRequest('POST', { name: 'Standard B2B', isDefault: true }));
+
+      expect(response.status).toBe(201);
+      expect(mockBuilders.quote_templates[0].update).toHaveBeenCalledWith({ is_default: false });
+      expect(mockBuilders.quote_templates[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(mockBuilders.quote_templates[1].insert).toHaveBeenCalledWith(expect.objectContaining({ is_default: true }));
+    });
+
+    it('should reject invalid templates with field details', async () => {
+      const response = await POST(createRequest('POST', {
+        name: '',
+        pdfTemplate: 'fancy',
+        lineItems: [{ title: 'Setup fee', quantity: 0, unitPrice: 250 }],
+      }));
+      const json = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(json.error.code).toBe('VALIDATION_ERROR');
+      expect(Object.keys(json.error.details)).toEqual(['name', 'pdfTemplate', 'lineItems.0.quantity']);
+      expect(mockBuilders.quote_templates).toBeUndefined();
+    });
+
+    it('should not let viewers create templates', async () => {
+      const response = await POST(createRequest('POST', { name: 'Standard B2B' }, 'viewer'));
+
+      expect(response.status).toBe(403);
+      expect(mockBuilders.quote_templates).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Quote Templates API Routes
+ * GET  /api/templates - List the current member's shop templates (default first)
+ * POST /api/templates - Create a template
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/members';
+import { getRequestMember } from '@/lib/permissions';
+import { createRequestClient } from '@/lib/supabaseServer';
+import {
+  QUOTE_PDF_TEMPLATES,
+  clearDefaultTemplate,
+  mapTemplateRow,
+  toTemplateRow,
+  type QuoteTemplateRow,
+} from '@/lib/templates';
+import type { ApiResponse, QuoteTemplate } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const templateLineItemSchema = z.object({
+  title: z.string().min(1, 'Item title is required').max(500),
+  description: z.string().max(2000).optional(),
+  productId: z.string().optional(),
+  variantId: z.string().optional(),
+  sku: z.string().optional(),
+  quantity: z.number().int().positive('Quantity must be greater than 0'),
+  unitPrice: z.number().nonnegative('Unit price cannot be negative'),
+  discountPercentage: z.number().min(0).max(100).optional(),
+  taxRate: z.number().min(0).max(100).optional(),
+});
+
+const termsSchema = z.object({
+  paymentTerms: z.string(),
+  deliveryTerms: z.string(),
+  validityPeriod: z.number().int().positive(),
+  depositRequired: z.boolean(),
+  depositPercentage: z.number().min(0).max(100).optional(),
+  currency: z.string().length(3),
+  notes: z.string().optional(),
+  internalNotes: z.string().optional(),
+}).partial();
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(120),
+  description: z.string().max(500).optional(),
+  category: z.string().min(1).max(50).default('Standard'),
+  isDefault: z.boolean().default(false),
+  pdfTemplate: z.enum(QUOTE_PDF_TEMPLATES).default('modern'),
+  termsDefault: termsSchema.default({}),
+  lineItems: z.array(templateLineItemSchema).max(100).default([]),
+  headerText: z.string().max(2000).optional(),
+  footerText: z.string().max(2000).optional(),
+});
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+// ============================================================================
+// GET Handler - List Templates
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const { data, error } = await createRequestClient(request)
+      .from('quote_templates')
+      .select('*')
+      .eq('shop_id', member.shopId)
+      .order('is_default', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching templates:', error);
+      return errorResponse(500, 'FETCH_ERROR', 'Failed to fetch templates');
+    }
+
+    return NextResponse.json<ApiResponse<QuoteTemplate[]>>({
+      success: true,
+      data: ((data || []) as QuoteTemplateRow[]).map(mapTemplateRow),
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in GET /api/templates:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
+
+// ============================================================================
+// POST Handler - Create Template
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, 'quotes:write');
+  if (denied) {
+    return denied;
+  }
+
+  const member = getRequestMember(request);
+  if (!member?.shopId) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const validationResult = templateSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      const errors: Record<string, string[]> = {};
+      validationResult.error.issues.forEach((err) => {
+        const path = err.path.join('.');
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      return NextResponse.json<ApiResponse<never>>({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid template data',
+          details: errors,
+        },
+      }, { status: 400 });
+    }
+
+    const client = createRequestClient(request);
+
+    if (validationResult.data.isDefault) {
+      await clearDefaultTemplate(client, member.shopId);
+    }
+
+    const { data, error } = await client.from('quote_templates')
+      .insert({
+        ...toTemplateRow(validationResult.data),
+        shop_id: member.shopId,
+        created_by: member.userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating template:', error);
+      return errorResponse(500, 'CREATE_ERROR', 'Failed to create template');
+    }
+
+    return NextResponse.json<ApiResponse<QuoteTemplate>>({
+      success: true,
+      data: mapTemplateRow(data as QuoteTemplateRow),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Unexpected error in POST /api/templates:', error);
+    return errorResponse(500, 'INTERNAL_ERROR', 'An unexpected error occurred');
+  }
+}
@@ -0,0 +1,34 @@
+// Mail provider delivery event webhooks (Resend, signed with Svix)
+import { NextRequest, NextResponse } from 'next/server';
+import { handleEmailEvent, verifySvixSignature, type ResendEmailEvent } from '@/lib/emailEvents';
+
+// POST /api/webhooks/email - Handle delivered, bounced, complained, opened and clicked events
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+  const headers = {
+    id: request.headers.get('svix-id') || '',
+    timestamp: request.headers.get('svix-timestamp') || '',
+    signature: request.headers.get('svix-signature') || '',
+  };
+
+  // Verify webhook signature
+  if (!verifySvixSignature(rawBody, headers)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let event: ResendEmailEvent;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  try {
+    // Svix retries until it gets a 2xx; the event id keeps retries from being applied twice
+    const result = await handleEmailEvent(headers.id, event);
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('Email webhook error:', error);
+    return NextResponse.json({ error: 'Webhook processing failed' }, { status: 500 });
+  }
+}
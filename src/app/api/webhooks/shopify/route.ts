@@ -1,48 +1,87 @@
 // Shopify webhook route handlers
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyShopifyWebhook, generateInstallUrl } from '@/lib/shopify';
+import { runComplianceRequest } from '@/lib/compliance';
+import {
+  beginWebhookDelivery,
+  completeWebhookDelivery,
+  handleAppUninstalled,
+  handleCustomerDeleted,
+  handleCustomerUpdate,
+  handleOrderCreated,
+  handleProductUpdate,
+} from '@/lib/webhooks';
 
 // POST /api/webhooks/shopify - Handle Shopify webhooks
 export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+  const hmacHeader = request.headers.get('X-Shopify-Hmac-Sha256') || '';
+  const topic = request.headers.get('X-Shopify-Topic') || '';
+  const shop = request.headers.get('X-Shopify-Shop-Domain') || '';
+  const webhookId = request.headers.get('X-Shopify-Webhook-Id') || '';
+
+  // Verify webhook signature
+  if (!verifyShopifyWebhook(rawBody, hmacHeader)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
   try {
-    const rawBody = await request.text();
-    const hmacHeader = request.headers.get('X-Shopify-Hmac-Sha256') || '';
-    const topic = request.headers.get('X-Shopify-Topic') || '';
-    const shop = request.headers.get('X-Shopify-Shop-Domain') || '';
-    
-    // Verify webhook signature
-    if (!verifyShopifyWebhook(rawBody, hmacHeader)) {
-      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    // Shopify retries until it gets a 2xx, so repeat deliveries are acknowledged without re-running
+    if (webhookId && await beginWebhookDelivery(webhookId, shop, topic) === 'duplicate') {
+      return NextResponse.json({ success: true, duplicate: true });
     }
-    
+  } catch (error) {
+    console.error('Webhook error:', error);
+    return NextResponse.json({ error: 'Webhook processing failed' }, { status: 500 });
+  }
+
+  try {
     const data = JSON.parse(rawBody);
-    
+
     // Handle different webhook topics
     switch (topic) {
       case 'app/uninstalled':
-        // Handle app uninstall
-        console.log(`App uninstalled from ${shop}`);
-        // TODO: Clean up shop data
+        await handleAppUninstalled(shop);
         break;
-        
-      case 'products/create':
+
       case 'products/update':
-        // Handle product changes
-        console.log(`Product ${topic} in ${shop}:`, data.id);
+        await handleProductUpdate(shop, data);
         break;
-        
+
       case 'orders/create':
-        // Handle new orders
-        console.log(`New order in ${shop}:`, data.id);
+        await handleOrderCreated(shop, data);
         break;
-        
+
+      case 'customers/create':
+      case 'customers/update':
+        await handleCustomerUpdate(shop, data);
+        break;
+
+      case 'customers/delete':
+        await handleCustomerDeleted(shop, data);
+        break;
+
+      // Mandatory GDPR topics
+      case 'customers/data_request':
+      case 'customers/redact':
+      case 'shop/redact':
+        await runComplianceRequest(shop, topic, data);
+        break;
+
       default:
         console.log(`Unhandled webhook topic: ${topic}`);
     }
-    
+
+    if (webhookId) {
+      await completeWebhookDelivery(webhookId);
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Webhook error:', error);
+    if (webhookId) {
+      await completeWebhookDelivery(webhookId, error).catch(() => undefined);
+    }
     return NextResponse.json({ error: 'Webhook processing failed' }, { status: 500 });
   }
 }
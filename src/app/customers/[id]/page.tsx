@@ -26,13 +26,17 @@ import {
   CheckCircleIcon,
   XCircleIcon,
   ExclamationTriangleIcon,
+  ArrowsPointingInIcon,
+  ArrowUturnLeftIcon,
 } from '@heroicons/react/24/outline';
+import { CustomerContacts, CustomerMergeDialog } from '@/components/customers';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Skeleton } from '@/components/ui/Skeleton';
 import { Modal } from '@/components/ui/Modal';
 import { useToastHelpers } from '@/components/ui/Toast';
+import { useCustomerDuplicates, useCustomerMerges, useUndoCustomerMerge } from '@/hooks/useCustomers';
 import { cn, formatCurrency, formatDate } from '@/lib/utils';
 import type { Customer, CustomerWithStats, CustomerActivity, Quote, CustomerStats } from '@/types/quote';
 import { CustomerStatus, CustomerStatusLabels, CustomerStatusColors, QuoteStatus, QuoteStatusLabels, QuoteStatusColors, QuotePriority } from '@/types/quote';
@@ -272,6 +276,10 @@ const ActivityItem: React.FC<{
         return PencilIcon;
       case 'note_added':
         return DocumentTextIcon;
+      case 'customer_merged':
+        return ArrowsPointingInIcon;
+      case 'customer_merge_undone':
+        return ArrowUturnLeftIcon;
       default:
         return ClockIcon;
     }
@@ -306,7 +314,7 @@ const ActivityItem: React.FC<{
         <p className="text-sm text-slate-200">{activity.description}</p>
         {activity.amount && (
           <p className="text-sm font-medium text-emerald-400 mt-1">
-            {formatCurrency(activity.amount)}
+            {formatCurrency(activity.amount, activity.currency)}
           </p>
         )}
         <div className="flex items-center gap-2 mt-1">
@@ -352,6 +360,12 @@ export default function CustomerDetailPage() {
   const [activeTab, setActiveTab] = useState<'overview' | 'quotes' | 'activity'>('overview');
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [mergeIds, setMergeIds] = useState<string[] | null>(null);
+
+  const { duplicates } = useCustomerDuplicates(customerId);
+  const { merges } = useCustomerMerges(customerId);
+  const { undoMerge, isUndoing } = useUndoCustomerMerge();
+  const undoableMerges = merges.filter((merge) => !merge.undoneAt && new Date(merge.undoUntil) > new Date());
 
   // Fetch customer data
   useEffect(() => {
@@ -408,6 +422,16 @@ export default function CustomerDetailPage() {
     }
   }, [customerId, router, success, showError]);
 
+  const handleUndoMerge = useCallback(async (mergeId: string) => {
+    try {
+      const restored = await undoMerge(mergeId);
+      setCustomer(restored);
+      success('Merge undone', 'The merged customers were restored');
+    } catch (err) {
+      showError('Failed to undo the merge', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [undoMerge, success, showError]);
+
   const handleViewQuote = useCallback((quoteId: string) => {
     router.push(`/quotes/${quoteId}`);
   }, [router]);
@@ -501,7 +525,7 @@ export default function CustomerDetailPage() {
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
           <StatCard
             title="Total Revenue"
-            value={formatCurrency(stats.totalRevenue)}
+            value={formatCurrency(stats.totalRevenue, stats.currency)}
             subtitle={`${stats.acceptedQuotes} accepted quotes`}
             icon={CurrencyDollarIcon}
             color="green"
@@ -693,7 +717,7 @@ export default function CustomerDetailPage() {
                               </div>
                               <div className="text-right">
                                 <p className="text-lg font-semibold text-slate-200">
-                                  {formatCurrency(quote.total)}
+                                  {formatCurrency(quote.total, quote.terms?.currency)}
                                 </p>
                               </div>
                             </motion.div>
@@ -759,6 +783,8 @@ export default function CustomerDetailPage() {
               </div>
             </motion.div>
 
+            <CustomerContacts customerId={customerId} />
+
             {/* Quote Summary */}
             <motion.div
               initial={{ opacity: 0, x: 20 }}
@@ -787,12 +813,78 @@ export default function CustomerDetailPage() {
                 <div className="pt-4 border-t border-slate-800">
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-slate-400">Total Revenue</span>
-                    <span className="font-semibold text-emerald-400">{formatCurrency(stats.totalRevenue)}</span>
+                    <span className="font-semibold text-emerald-400">{formatCurrency(stats.totalRevenue, stats.currency)}</span>
                   </div>
                 </div>
               </div>
             </motion.div>
 
+            {/* Possible Duplicates */}
+            {(duplicates.length > 0 || undoableMerges.length > 0) && (
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.35 }}
+                className="bg-slate-900 border border-slate-800 rounded-xl p-6"
+              >
+                {duplicates.length > 0 && (
+                  <>
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-sm font-semibold text-slate-200">Possible Duplicates</h3>
+                      <Button variant="ghost" size="sm" onClick={() => setMergeIds(duplicates.map((d) => d.customer.id))}>
+                        Merge all
+                      </Button>
+                    </div>
+                    <div className="space-y-3">
+                      {duplicates.map((duplicate) => (
+                        <div key={duplicate.customer.id} className="flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-sm text-slate-200 truncate">{duplicate.customer.companyName}</p>
+                            <p className="text-xs text-slate-500 truncate">{duplicate.customer.email}</p>
+                          </div>
+                          <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={() => setMergeIds([duplicate.customer.id])}
+                          >
+                            <ArrowsPointingInIcon className="w-4 h-4 mr-1" />
+                            {duplicate.score}%
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {undoableMerges.length > 0 && (
+                  <div className={cn(duplicates.length > 0 && 'mt-4 pt-4 border-t border-slate-800')}>
+                    <h3 className="text-sm font-semibold text-slate-200 mb-3">Recent Merges</h3>
+                    <div className="space-y-3">
+                      {undoableMerges.map((merge) => (
+                        <div key={merge.id} className="flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-sm text-slate-200 truncate">
+                              {merge.mergedCustomers.map((merged) => merged.companyName).join(', ')}
+                            </p>
+                            <p className="text-xs text-slate-500">Undo until {formatDate(merge.undoUntil)}</p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleUndoMerge(merge.id)}
+                            disabled={isUndoing}
+                          >
+                            <ArrowUturnLeftIcon className="w-4 h-4 mr-1" />
+                            Undo
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </motion.div>
+            )}
+
             {/* Delete Customer */}
             <motion.div
               initial={{ opacity: 0, x: 20 }}
@@ -817,6 +909,16 @@ export default function CustomerDetailPage() {
         </div>
       </div>
 
+      <CustomerMergeDialog
+        key={mergeIds?.join(',')}
+        customer={customer}
+        duplicates={duplicates}
+        initialSelectedIds={mergeIds ?? undefined}
+        isOpen={mergeIds !== null}
+        onClose={() => setMergeIds(null)}
+        onMerged={setCustomer}
+      />
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={showDeleteModal}
@@ -27,13 +27,16 @@ import {
   ArrowDownIcon,
   DocumentTextIcon,
   ExclamationTriangleIcon,
+  ArrowUpTrayIcon,
 } from '@heroicons/react/24/outline';
 import { DashboardLayout, PageHeader } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Skeleton } from '@/components/ui/Skeleton';
 import { Modal } from '@/components/ui/Modal';
+import { CustomerImportDialog } from '@/components/customers/CustomerImportDialog';
 import { useToastHelpers } from '@/components/ui/Toast';
+import { useShopifyCustomerSync } from '@/hooks/useCustomers';
 import { cn, formatCurrency, formatDate } from '@/lib/utils';
 import type { Customer } from '@/types/quote';
 import { CustomerStatus, CustomerStatusLabels, CustomerStatusColors } from '@/types/quote';
@@ -517,11 +520,13 @@ const BulkActionsBar: React.FC<{
 export default function CustomersPage() {
   const router = useRouter();
   const { success, error: showError } = useToastHelpers();
+  const { syncCustomers, isSyncing } = useShopifyCustomerSync();
   
   const [isLoading, setIsLoading] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   
   const [filters, setFilters] = useState<FilterState>({
@@ -627,7 +632,16 @@ export default function CustomersPage() {
     success(`Exported ${selectedIds.length} customers`);
   }, [selectedIds, success]);
 
-  const toggleSortOrder = useCallback(() => {
+  const handleShopifySync = useCallback(async () => {
+    try {
+      const result = await syncCustomers();
+      success('Synced from Shopify', `${result.created} added, ${result.updated} updated`);
+    } catch (err) {
+      showError('Shopify sync failed', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [syncCustomers, success, showError]);
+
+    const toggleSortOrder = useCallback(() => {
     setFilters((prev) => ({
       ...prev,
       sortOrder: prev.sortOrder === 'asc' ? 'desc' : 'asc',
@@ -642,10 +656,20 @@ export default function CustomersPage() {
         title="Customers"
         subtitle="Manage your customer relationships and view their quote history."
         actions={
-          <Button onClick={handleCreateCustomer}>
-            <PlusIcon className="w-4 h-4 mr-2" />
-            Add Customer
-          </Button>
+          <div className="flex items-center gap-3">
+            <Button variant="secondary" onClick={handleShopifySync} isLoading={isSyncing}>
+              {!isSyncing && <ArrowPathIcon className="w-4 h-4 mr-2" />}
+              Sync from Shopify
+            </Button>
+            <Button variant="secondary" onClick={() => setShowImportModal(true)}>
+              <ArrowUpTrayIcon className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button onClick={handleCreateCustomer}>
+              <PlusIcon className="w-4 h-4 mr-2" />
+              Add Customer
+            </Button>
+          </div>
         }
       />
 
@@ -1078,6 +1102,8 @@ export default function CustomersPage() {
           </Button>
         </div>
       </Modal>
+
+      <CustomerImportDialog isOpen={showImportModal} onClose={() => setShowImportModal(false)} />
     </DashboardLayout>
   );
 }
@@ -0,0 +1,145 @@
+/**
+ * Login Page
+ * Supabase Auth sign-in for shop members, with a password or an emailed
+ * magic link. Invited members land here from their invite email.
+ * @module app/login/page
+ */
+
+'use client';
+
+import React, { Suspense, useCallback, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { EnvelopeIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Only follow same-origin paths after sign-in
+ */
+function getNextPath(next: string | null, shop: string | null): string {
+  if (next && next.startsWith('/') && !next.startsWith('//')) {
+    return next;
+  }
+  return shop ? `/dashboard?shop=${encodeURIComponent(shop)}` : '/dashboard';
+}
+
+function LoginContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = getNextPath(searchParams.get('next'), searchParams.get('shop'));
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handlePasswordSignIn = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    const { error: signInError } = await supabase.auth.signInWithPassword({ email, password });
+    setIsSubmitting(false);
+
+    if (signInError) {
+      setError(signInError.message);
+      return;
+    }
+    router.replace(nextPath);
+  }, [email, password, nextPath, router]);
+
+  const handleMagicLink = useCallback(async () => {
+    if (!email) {
+      setError('Enter your email address first');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        // Existing members only; new users join through an invite
+        shouldCreateUser: false,
+        emailRedirectTo: `${window.location.origin}${nextPath}`,
+      },
+    });
+    setIsSubmitting(false);
+
+    if (otpError) {
+      setError(otpError.message);
+      return;
+    }
+    setLinkSentTo(email);
+  }, [email, nextPath]);
+
+  if (linkSentTo) {
+    return (
+      <div className="text-center">
+        <EnvelopeIcon className="w-12 h-12 text-indigo-400 mx-auto mb-4" />
+        <h1 className="text-xl font-bold text-slate-100 mb-2">Check your email</h1>
+        <p className="text-slate-400">We sent a sign-in link to {linkSentTo}.</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handlePasswordSignIn} className="space-y-5">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-100">Sign in to QuoteGen</h1>
+        <p className="text-sm text-slate-400 mt-1">Use the email your shop invited you with.</p>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-300">
+          <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <Input
+        label="Email"
+        type="email"
+        autoComplete="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        autoFocus
+        required
+      />
+      <Input
+        label="Password"
+        type="password"
+        autoComplete="current-password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+
+      <Button type="submit" className="w-full" isLoading={isSubmitting} disabled={!password}>
+        Sign in
+      </Button>
+      <Button type="button" variant="secondary" className="w-full" onClick={handleMagicLink} disabled={isSubmitting}>
+        Email me a sign-in link
+      </Button>
+    </form>
+  );
+}
+
+// ============================================================================
+// Main Page Component
+// ============================================================================
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-slate-950 flex items-center justify-center p-6">
+      <div className="w-full max-w-sm bg-slate-900/50 border border-slate-800 rounded-2xl p-8">
+        {/* useSearchParams needs a Suspense boundary for the page to prerender */}
+        <Suspense fallback={null}>
+          <LoginContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
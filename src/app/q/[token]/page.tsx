@@ -0,0 +1,315 @@
+/**
+ * Public Quote Page
+ * Buyer-facing view of a quote, opened from the link in quote emails.
+ * Lays the quote out like the PDF and lets the buyer accept or reject it.
+ * @module app/q/[token]/page
+ */
+
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import useSWR from 'swr';
+import { CheckCircleIcon, XCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { StatusBadge } from '@/components/ui/Badge';
+import { Skeleton } from '@/components/ui/Skeleton';
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
+import type { PublicQuote } from '@/lib/quoteAccess';
+import type { ApiResponse } from '@/types/quote';
+import { QuoteStatus } from '@/types/quote';
+
+// ============================================================================
+// Data
+// ============================================================================
+
+class PublicQuoteError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PublicQuoteError';
+  }
+}
+
+async function publicQuoteRequest(url: string, init?: RequestInit): Promise<PublicQuote> {
+  const response = await fetch(url, init);
+  const data: ApiResponse<PublicQuote> = await response.json();
+
+  if (!response.ok || !data.success || !data.data) {
+    throw new PublicQuoteError(data.error?.message || 'Failed to load quote', response.status);
+  }
+
+  return data.data;
+}
+
+const ANSWERABLE_STATUSES = [QuoteStatus.SENT, QuoteStatus.VIEWED];
+
+// ============================================================================
+// Components
+// ============================================================================
+
+const Notice: React.FC<{ title: string; message: string }> = ({ title, message }) => (
+  <div className="min-h-screen bg-slate-950 flex items-center justify-center p-6">
+    <div className="max-w-md text-center">
+      <ExclamationTriangleIcon className="w-16 h-16 text-amber-400 mx-auto mb-4" />
+      <h1 className="text-2xl font-bold text-slate-100 mb-2">{title}</h1>
+      <p className="text-slate-400">{message}</p>
+    </div>
+  </div>
+);
+
+// ============================================================================
+// Main Page Component
+// ============================================================================
+
+export default function PublicQuotePage() {
+  const params = useParams();
+  const token = params.token as string;
+  const url = `/api/public/quotes/${token}`;
+
+  const { data: quote, error, isLoading, mutate } = useSWR<PublicQuote, PublicQuoteError>(
+    token ? url : null,
+    publicQuoteRequest,
+    { revalidateOnFocus: false, shouldRetryOnError: false }
+  );
+
+  const [mode, setMode] = useState<'accept' | 'reject' | null>(null);
+  const [signatureName, setSignatureName] = useState('');
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = useCallback(async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!mode) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const updated = await publicQuoteRequest(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          mode === 'accept'
+            ? { action: 'accept', signatureName }
+            : { action: 'reject', rejectionReason }
+        ),
+      });
+      await mutate(updated, { revalidate: false });
+      setMode(null);
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [mode, url, signatureName, rejectionReason, mutate]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-950 p-6">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <Skeleton className="h-24" />
+          <Skeleton className="h-96" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !quote) {
+    if (error?.status === 410) {
+      return <Notice title="Link No Longer Available" message={`${error.message}. Contact the seller for an updated quote.`} />;
+    }
+    return <Notice title="Quote Not Found" message="This link is invalid. Check that you copied the full link from your email." />;
+  }
+
+  const currency = quote.terms.currency || 'USD';
+  const canAnswer = ANSWERABLE_STATUSES.includes(quote.status);
+
+  return (
+    <div className="min-h-screen bg-slate-950 py-10 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Title & Status */}
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+          <p className="text-sm font-semibold text-indigo-400 mb-4">{quote.shopDomain}</p>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-slate-100">Quote</h1>
+              <p className="text-sm text-slate-400 mt-1">
+                Quote #{quote.quoteNumber}
+                {quote.expiresAt && ` • Valid until ${formatDate(quote.expiresAt)}`}
+              </p>
+              <p className="text-slate-300 mt-2">{quote.title}</p>
+            </div>
+            <StatusBadge status={quote.status} />
+          </div>
+        </div>
+
+        {/* Customer Info */}
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+          <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">Bill To</h2>
+          <p className="text-sm text-slate-200">{quote.customer.companyName || quote.customer.contactName}</p>
+          {quote.customer.contactName && <p className="text-sm text-slate-300">{quote.customer.contactName}</p>}
+          <p className="text-sm text-slate-300">{quote.customer.email}</p>
+          {quote.customer.phone && <p className="text-sm text-slate-300">{quote.customer.phone}</p>}
+        </div>
+
+        {/* Line Items & Totals */}
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-800 text-slate-500">
+                <th className="text-left font-medium pb-2">Item</th>
+                <th className="text-right font-medium pb-2">Qty</th>
+                <th className="text-right font-medium pb-2">Price</th>
+                <th className="text-right font-medium pb-2">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quote.lineItems.map((item) => (
+                <tr key={item.id} className="border-b border-slate-800/50">
+                  <td className="py-3">
+                    <p className="text-slate-200">{item.title}</p>
+                    {item.variantTitle && <p className="text-xs text-slate-500">{item.variantTitle}</p>}
+                    {item.sku && <p className="text-xs text-slate-500">SKU: {item.sku}</p>}
+                  </td>
+                  <td className="py-3 text-right text-slate-300">{item.quantity}</td>
+                  <td className="py-3 text-right text-slate-300">{formatCurrency(item.unitPrice, currency)}</td>
+                  <td className="py-3 text-right text-slate-200">{formatCurrency(item.total, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="mt-4 ml-auto max-w-xs space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Subtotal</span>
+              <span className="text-slate-200">{formatCurrency(quote.subtotal, currency)}</span>
+            </div>
+            {quote.discountTotal > 0 && (
+              <div className="flex justify-between">
+                <span className="text-slate-400">Discount</span>
+                <span className="text-emerald-400">-{formatCurrency(quote.discountTotal, currency)}</span>
+              </div>
+            )}
+            {quote.shippingTotal > 0 && (
+              <div className="flex justify-between">
+                <span className="text-slate-400">Shipping</span>
+                <span className="text-slate-200">{formatCurrency(quote.shippingTotal, currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-slate-400">Tax</span>
+              <span className="text-slate-200">{formatCurrency(quote.taxTotal, currency)}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t border-slate-800">
+              <span className="font-semibold text-slate-200">Total</span>
+              <span className="text-xl font-bold text-emerald-400">{formatCurrency(quote.total, currency)}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Terms & Notes */}
+        {(quote.terms.paymentTerms || quote.terms.deliveryTerms || quote.terms.notes) && (
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-4 text-sm">
+            {quote.terms.paymentTerms && (
+              <div>
+                <h3 className="font-semibold text-slate-200 mb-1">Payment Terms</h3>
+                <p className="text-slate-400 whitespace-pre-wrap">{quote.terms.paymentTerms}</p>
+              </div>
+            )}
+            {quote.terms.deliveryTerms && (
+              <div>
+                <h3 className="font-semibold text-slate-200 mb-1">Delivery Terms</h3>
+                <p className="text-slate-400 whitespace-pre-wrap">{quote.terms.deliveryTerms}</p>
+              </div>
+            )}
+            {quote.terms.notes && (
+              <div>
+                <h3 className="font-semibold text-slate-200 mb-1">Notes</h3>
+                <p className="text-slate-400 whitespace-pre-wrap">{quote.terms.notes}</p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Response */}
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+          {quote.status === QuoteStatus.ACCEPTED || quote.status === QuoteStatus.CONVERTED ? (
+            <div className="flex items-start gap-3">
+              <CheckCircleIcon className="w-6 h-6 text-emerald-400 shrink-0" />
+              <div>
+                <p className="font-semibold text-slate-100">Quote accepted</p>
+                <p className="text-sm text-slate-400">
+                  {quote.signatureName ? `Signed by ${quote.signatureName}` : 'Accepted'}
+                  {quote.acceptedAt && ` on ${formatDateTime(quote.acceptedAt)}`}. The seller will be in touch with next steps.
+                </p>
+              </div>
+            </div>
+          ) : quote.status === QuoteStatus.REJECTED ? (
+            <div className="flex items-start gap-3">
+              <XCircleIcon className="w-6 h-6 text-red-400 shrink-0" />
+              <div>
+                <p className="font-semibold text-slate-100">Quote declined</p>
+                {quote.rejectionReason && <p className="text-sm text-slate-400">{quote.rejectionReason}</p>}
+              </div>
+            </div>
+          ) : canAnswer && mode === null ? (
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button className="flex-1" onClick={() => setMode('accept')}>
+                <CheckCircleIcon className="w-4 h-4 mr-2" />
+                Accept Quote
+              </Button>
+              <Button variant="secondary" className="flex-1" onClick={() => setMode('reject')}>
+                <XCircleIcon className="w-4 h-4 mr-2" />
+                Decline
+              </Button>
+            </div>
+          ) : canAnswer ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {mode === 'accept' ? (
+                <Input
+                  label="Type your full name to sign"
+                  value={signatureName}
+                  onChange={(e) => setSignatureName(e.target.value)}
+                  helperText={`By signing you accept this quote for ${formatCurrency(quote.total, currency)}.`}
+                  autoFocus
+                  required
+                />
+              ) : (
+                <div>
+                  <label htmlFor="rejection-reason" className="block text-sm font-medium text-slate-300 mb-1.5">
+                    Why are you declining this quote?
+                  </label>
+                  <textarea
+                    id="rejection-reason"
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                    rows={3}
+                    required
+                    className="w-full rounded-lg bg-slate-800 border border-slate-700 px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                </div>
+              )}
+              {submitError && <p className="text-sm text-red-400">{submitError}</p>}
+              <div className="flex gap-3">
+                <Button type="submit" variant={mode === 'accept' ? 'primary' : 'danger'} isLoading={isSubmitting}>
+                  {mode === 'accept' ? 'Sign and Accept' : 'Decline Quote'}
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setMode(null)} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <p className="text-sm text-slate-400">This quote can no longer be answered online.</p>
+          )}
+        </div>
+
+        <p className="text-center text-xs text-slate-500">
+          Thank you for your business!
+          {quote.expiresAt && ` This quote is valid until ${formatDate(quote.expiresAt)}.`}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -6,8 +6,8 @@
 
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import React, { useState, useEffect } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   ArrowLeftIcon,
@@ -26,118 +26,18 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/Button';
 import { Skeleton } from '@/components/ui/Skeleton';
 import { Modal } from '@/components/ui/Modal';
+import { TaxLines } from '@/components/quotes/TaxLines';
 import { useToastHelpers } from '@/components/ui/Toast';
 import { cn, formatCurrency } from '@/lib/utils';
-import type { Quote, Customer, LineItem, QuoteTerms } from '@/types/quote';
-import { QuoteStatus, QuotePriority, CustomerStatus } from '@/types/quote';
-
-// ============================================================================
-// Mock Data
-// ============================================================================
-
-const mockCustomers: Customer[] = [
-  {
-    id: 'cust_1',
-    email: 'john.smith@acmecorp.com',
-    companyName: 'Acme Corporation',
-    contactName: 'John Smith',
-    phone: '+1 (555) 123-4567',
-    billingAddress: {
-      street: '123 Main Street',
-      city: 'New York',
-      state: 'NY',
-      zipCode: '10001',
-      country: 'US',
-    },
-    customerSince: new Date('2023-01-15'),
-    tags: ['enterprise'],
-    createdAt: new Date('2023-01-15'),
-    updatedAt: new Date('2026-02-04'),
-    status: CustomerStatus.ACTIVE,
-  },
-  {
-    id: 'cust_2',
-    email: 'sarah@globex.com',
-    companyName: 'Globex Industries',
-    contactName: 'Sarah Johnson',
-    phone: '+1 (555) 987-6543',
-    billingAddress: {
-      street: '456 Oak Avenue',
-      city: 'Los Angeles',
-      state: 'CA',
-      zipCode: '90210',
-      country: 'US',
-    },
-    customerSince: new Date('2023-03-20'),
-    tags: ['mid-market'],
-    createdAt: new Date('2023-03-20'),
-    updatedAt: new Date('2026-02-03'),
-    status: CustomerStatus.ACTIVE,
-  },
-];
-
-const mockQuote: Quote = {
-  id: 'qt_001',
-  quoteNumber: 'QT-2026-001',
-  customerId: 'cust_1',
-  customer: mockCustomers[0],
-  title: 'Industrial Equipment Package - Q1 2026',
-  status: QuoteStatus.DRAFT,
-  priority: QuotePriority.HIGH,
-  lineItems: [
-    {
-      id: 'li_1',
-      productId: 'prod_1',
-      title: 'Industrial Conveyor Belt System',
-      sku: 'ICB-2000',
-      quantity: 2,
-      unitPrice: 5000,
-      discountAmount: 500,
-      discountPercentage: 5,
-      taxRate: 10,
-      taxAmount: 950,
-      subtotal: 10000,
-      total: 10450,
-      notes: 'Installation included',
-    },
-    {
-      id: 'li_2',
-      productId: 'prod_2',
-      title: 'Motor Control Unit',
-      sku: 'MCU-500',
-      quantity: 4,
-      unitPrice: 750,
-      discountAmount: 0,
-      taxRate: 10,
-      taxAmount: 300,
-      subtotal: 3000,
-      total: 3300,
-    },
-  ],
-  subtotal: 13000,
-  discountTotal: 500,
-  taxTotal: 1250,
-  shippingTotal: 500,
-  total: 14250,
-  terms: {
-    paymentTerms: 'Net 30',
-    deliveryTerms: '2-3 weeks after order confirmation',
-    validityPeriod: 30,
-    depositRequired: true,
-    depositPercentage: 50,
-    currency: 'USD',
-    notes: 'Price valid for 30 days. Subject to availability.',
-    internalNotes: 'VIP customer - prioritize delivery',
-  },
-  metadata: {
-    createdBy: 'user_1',
-    createdByName: 'Jane Doe',
-    source: 'web',
-  },
-  expiresAt: new Date('2026-03-05'),
-  createdAt: new Date('2026-02-03'),
-  updatedAt: new Date('2026-02-03'),
-};
+import { calculateQuoteTotals, formatQuoteNumber } from '@/lib/quotes';
+import { getQuoteTaxContext, resolveTaxContext } from '@/lib/tax';
+import { getCurrencyLabel, listCurrencyCodes } from '@/lib/exchangeRates';
+import { canReviseQuote } from '@/lib/quoteWorkflow';
+import { useQuote, useUpdateQuote, useQuoteStatusTransition } from '@/hooks/useQuotes';
+import { useCustomersList } from '@/hooks/useCustomers';
+import { useMerchantSettings, useTaxRules } from '@/hooks/useSettings';
+import type { Customer, QuoteTerms } from '@/types/quote';
+import { QuoteStatus } from '@/types/quote';
 
 // ============================================================================
 // Types
@@ -152,7 +52,8 @@ interface LineItemForm {
   quantity: number;
   unitPrice: number;
   discountPercent: number;
-  taxRate: number;
+  /** Unset takes the quote's rate */
+  taxRate?: number;
   notes: string;
 }
 
@@ -220,17 +121,27 @@ const StepIndicator: React.FC<{
 export default function QuoteEditPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const shopId = searchParams.get('shop') || process.env.NEXT_PUBLIC_SHOP_DOMAIN || undefined;
   const { success, error: showError } = useToastHelpers();
   const quoteId = params.id as string;
 
-  const [isLoading, setIsLoading] = useState(true);
-  const [quote, setQuote] = useState<Quote | null>(null);
+  const { quote, isLoading } = useQuote(quoteId);
+  const { updateQuote } = useUpdateQuote();
+  const { updateStatus } = useQuoteStatusTransition();
+  const { customers } = useCustomersList({ limit: 100 });
+  const { settings } = useMerchantSettings(shopId);
+  const { rules: taxRules } = useTaxRules(shopId);
+  const [loadedQuoteId, setLoadedQuoteId] = useState<string | null>(null);
   const [currentStep, setCurrentStep] = useState<WizardStep>('customer');
   const [completedSteps, setCompletedSteps] = useState<WizardStep[]>([]);
   const [showDiscardModal, setShowDiscardModal] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
+  // Saving a quote the customer already has publishes it as the next revision
+  const isRevision = !!quote && canReviseQuote(quote.status);
+
   // Form data
   const [selectedCustomerId, setSelectedCustomerId] = useState<string>('');
   const [lineItems, setLineItems] = useState<LineItemForm[]>([]);
@@ -245,54 +156,29 @@ export default function QuoteEditPage() {
     internalNotes: '',
   });
 
-  // Fetch quote data
+  // Populate the form once the quote has loaded
   useEffect(() => {
-    const fetchQuote = async () => {
-      setIsLoading(true);
-      try {
-        // TODO: Replace with actual API call
-        await new Promise(resolve => setTimeout(resolve, 800));
-        
-        setQuote(mockQuote);
-        setSelectedCustomerId(mockQuote.customerId);
-        setLineItems(mockQuote.lineItems.map(item => ({
-          id: item.id,
-          name: item.title,
-          sku: item.sku,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          discountPercent: item.discountPercentage || 0,
-          taxRate: item.taxRate,
-          notes: item.notes || '',
-        })));
-        setTerms(mockQuote.terms);
-      } catch (err) {
-        showError('Failed to load quote', err instanceof Error ? err.message : 'Unknown error');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchQuote();
-  }, [quoteId, showError]);
-
-  // Calculate totals
-  const calculateTotals = useCallback(() => {
-    return lineItems.reduce((acc, item) => {
-      const subtotal = item.quantity * item.unitPrice;
-      const discount = subtotal * (item.discountPercent / 100);
-      const taxable = subtotal - discount;
-      const tax = taxable * (item.taxRate / 100);
-      const total = taxable + tax;
-
-      return {
-        subtotal: acc.subtotal + subtotal,
-        discount: acc.discount + discount,
-        tax: acc.tax + tax,
-        total: acc.total + total,
-      };
-    }, { subtotal: 0, discount: 0, tax: 0, total: 0 });
-  }, [lineItems]);
+    if (!quote || loadedQuoteId === quote.id) return;
+
+    setLoadedQuoteId(quote.id);
+    setSelectedCustomerId(quote.customerId);
+    setLineItems(quote.lineItems.map(item => ({
+      id: item.id,
+      name: item.title,
+      sku: item.sku,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discountPercent: item.discountPercentage || 0,
+      taxRate: item.taxRate,
+      notes: item.notes || '',
+    })));
+    setTerms(prev => ({ ...prev, ...quote.terms }));
+  }, [quote, loadedQuoteId]);
+
+  // The quote's own customer is always selectable
+  const customerOptions: Customer[] = quote && !customers.some(c => c.id === quote.customerId)
+    ? [quote.customer, ...customers]
+    : customers;
 
   // Track changes
   useEffect(() => {
@@ -337,7 +223,6 @@ export default function QuoteEditPage() {
       quantity: 1,
       unitPrice: 0,
       discountPercent: 0,
-      taxRate: 0,
       notes: '',
     }]);
   };
@@ -346,7 +231,7 @@ export default function QuoteEditPage() {
     setLineItems(prev => prev.filter(item => item.id !== id));
   };
 
-  const handleItemChange = (id: string, field: keyof LineItemForm, value: string | number) => {
+  const handleItemChange = (id: string, field: keyof LineItemForm, value: string | number | undefined) => {
     setLineItems(prev => prev.map(item => 
       item.id === id ? { ...item, [field]: value } : item
     ));
@@ -355,10 +240,36 @@ export default function QuoteEditPage() {
   const handleSave = async (sendAfterSave = false) => {
     setIsSaving(true);
     try {
-      // TODO: Replace with actual API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      success(sendAfterSave ? 'Quote saved and sent!' : 'Quote saved successfully');
+      await updateQuote(quoteId, {
+        customerId: selectedCustomerId,
+        lineItems: lineItems.map((item) => {
+          const original = quote?.lineItems.find((li) => li.id === item.id);
+          return {
+            productId: original?.productId,
+            variantId: original?.variantId,
+            variantTitle: original?.variantTitle,
+            imageUrl: original?.imageUrl,
+            title: item.name,
+            sku: item.sku,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            discountPercentage: item.discountPercent,
+            taxRate: item.taxRate,
+            notes: item.notes || undefined,
+          };
+        }),
+        terms,
+      });
+
+      if (sendAfterSave) {
+        await updateStatus(quoteId, QuoteStatus.SENT);
+      }
+
+      if (quote && isRevision) {
+        success(`Saved as ${formatQuoteNumber(quote.quoteNumber, (quote.revision ?? 1) + 1)}`);
+      } else {
+        success(sendAfterSave ? 'Quote saved and sent!' : 'Quote saved successfully');
+      }
       setHasChanges(false);
       router.push(`/quotes/${quoteId}`);
     } catch (err) {
@@ -376,8 +287,6 @@ export default function QuoteEditPage() {
     }
   };
 
-  const totals = calculateTotals();
-
   if (isLoading) {
     return (
       <DashboardLayout>
@@ -409,6 +318,41 @@ export default function QuoteEditPage() {
     );
   }
 
+  // Priced as the API will price the save: with the quote's tax, or the
+  // tax for the newly selected customer's address
+  const selectedCustomer = customerOptions.find(c => c.id === selectedCustomerId);
+  const stamped = getQuoteTaxContext(quote);
+  const tax = selectedCustomer && selectedCustomer.id !== quote.customerId
+    ? resolveTaxContext({
+      rules: taxRules,
+      shippingAddress: selectedCustomer.shippingAddress,
+      taxId: selectedCustomer.taxId,
+      taxExempt: selectedCustomer.taxExempt,
+      fallbackRate: settings?.quotes.taxRate ?? stamped.rate,
+      pricesIncludeTax: stamped.pricesIncludeTax,
+    })
+    : stamped;
+
+  const calculations = calculateQuoteTotals(
+    lineItems.map(item => ({
+      name: item.name,
+      quantity: item.quantity,
+      unit_price: item.unitPrice,
+      discount_percent: item.discountPercent,
+      tax_rate: item.taxRate,
+    })),
+    quote.discountTotal,
+    tax,
+    quote.shippingTotal
+  );
+  const grossSubtotal = lineItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+
+  const totals = {
+    ...calculations,
+    subtotal: grossSubtotal,
+    discount: grossSubtotal - calculations.subtotal + calculations.discountTotal,
+  };
+
   return (
     <DashboardLayout>
       <div className="max-w-5xl mx-auto space-y-6">
@@ -428,8 +372,12 @@ export default function QuoteEditPage() {
               <ArrowLeftIcon className="w-5 h-5" />
             </Button>
             <div>
-              <h1 className="text-2xl font-bold text-slate-100">Edit Quote</h1>
-              <p className="text-slate-400">{quote.quoteNumber}</p>
+              <h1 className="text-2xl font-bold text-slate-100">{isRevision ? 'Revise Quote' : 'Edit Quote'}</h1>
+              <p className="text-slate-400">
+                {isRevision
+                  ? `${formatQuoteNumber(quote.quoteNumber, quote.revision)} → rev ${(quote.revision ?? 1) + 1}`
+                  : quote.quoteNumber}
+              </p>
             </div>
           </div>
         </motion.div>
@@ -473,7 +421,7 @@ export default function QuoteEditPage() {
               >
                 <h2 className="text-lg font-semibold text-slate-200">Select Customer</h2>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {mockCustomers.map((customer) => (
+                  {customerOptions.map((customer) => (
                     <button
                       key={customer.id}
                       onClick={() => setSelectedCustomerId(customer.id)}
@@ -599,8 +547,13 @@ export default function QuoteEditPage() {
                               type="number"
                               min="0"
                               max="100"
-                              value={item.taxRate}
-                              onChange={(e) => handleItemChange(item.id, 'taxRate', parseFloat(e.target.value) || 0)}
+                              value={item.taxRate ?? ''}
+                              placeholder={String(totals.taxRate)}
+                              onChange={(e) => handleItemChange(
+                                item.id,
+                                'taxRate',
+                                e.target.value === '' ? undefined : parseFloat(e.target.value) || 0
+                              )}
                               className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
                             />
                           </div>
@@ -608,8 +561,8 @@ export default function QuoteEditPage() {
                             <label className="block text-xs text-slate-500 mb-1">Total</label>
                             <p className="py-2 text-emerald-400 font-medium">
                               {formatCurrency(
-                                (item.quantity * item.unitPrice * (1 - item.discountPercent / 100)) * 
-                                (1 + item.taxRate / 100)
+                                item.quantity * item.unitPrice * (1 - item.discountPercent / 100),
+                                terms.currency
                               )}
                             </p>
                           </div>
@@ -631,19 +584,16 @@ export default function QuoteEditPage() {
                 <div className="mt-6 p-4 bg-slate-800/30 rounded-xl">
                   <div className="flex justify-between text-sm mb-2">
                     <span className="text-slate-400">Subtotal</span>
-                    <span className="text-slate-200">{formatCurrency(totals.subtotal)}</span>
+                    <span className="text-slate-200">{formatCurrency(totals.subtotal, terms.currency)}</span>
                   </div>
                   <div className="flex justify-between text-sm mb-2">
                     <span className="text-slate-400">Discount</span>
-                    <span className="text-emerald-400">-{formatCurrency(totals.discount)}</span>
-                  </div>
-                  <div className="flex justify-between text-sm mb-2">
-                    <span className="text-slate-400">Tax</span>
-                    <span className="text-slate-200">{formatCurrency(totals.tax)}</span>
+                    <span className="text-emerald-400">-{formatCurrency(totals.discount, terms.currency)}</span>
                   </div>
+                  <TaxLines calculations={totals} currency={terms.currency} className="text-sm mb-2" />
                   <div className="flex justify-between font-semibold text-lg pt-2 border-t border-slate-700">
                     <span className="text-slate-200">Total</span>
-                    <span className="text-emerald-400">{formatCurrency(totals.total)}</span>
+                    <span className="text-emerald-400">{formatCurrency(totals.total, terms.currency)}</span>
                   </div>
                 </div>
               </motion.div>
@@ -668,11 +618,9 @@ export default function QuoteEditPage() {
                       onChange={(e) => setTerms(prev => ({ ...prev, currency: e.target.value }))}
                       className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
                     >
-                      <option value="USD">USD ($)</option>
-                      <option value="EUR">EUR (€)</option>
-                      <option value="GBP">GBP (£)</option>
-                      <option value="CAD">CAD (C$)</option>
-                      <option value="AUD">AUD (A$)</option>
+                      {listCurrencyCodes().map((code) => (
+                        <option key={code} value={code}>{getCurrencyLabel(code)}</option>
+                      ))}
                     </select>
                   </div>
 
@@ -780,7 +728,7 @@ export default function QuoteEditPage() {
                   <div>
                     <p className="text-sm text-slate-500">Customer</p>
                     <p className="font-medium text-slate-200">
-                      {mockCustomers.find(c => c.id === selectedCustomerId)?.companyName || 'Not selected'}
+                      {customerOptions.find(c => c.id === selectedCustomerId)?.companyName || 'Not selected'}
                     </p>
                   </div>
                   
@@ -791,7 +739,7 @@ export default function QuoteEditPage() {
                         <div key={item.id} className="flex justify-between text-sm">
                           <span className="text-slate-300">{item.name} × {item.quantity}</span>
                           <span className="text-slate-300">
-                            {formatCurrency((item.quantity * item.unitPrice * (1 - item.discountPercent / 100)) * (1 + item.taxRate / 100))}
+                            {formatCurrency(item.quantity * item.unitPrice * (1 - item.discountPercent / 100), terms.currency)}
                           </span>
                         </div>
                       ))}
@@ -801,19 +749,16 @@ export default function QuoteEditPage() {
                   <div className="border-t border-slate-700 pt-4">
                     <div className="flex justify-between text-sm mb-1">
                       <span className="text-slate-400">Subtotal</span>
-                      <span className="text-slate-200">{formatCurrency(totals.subtotal)}</span>
+                      <span className="text-slate-200">{formatCurrency(totals.subtotal, terms.currency)}</span>
                     </div>
                     <div className="flex justify-between text-sm mb-1">
                       <span className="text-slate-400">Discount</span>
-                      <span className="text-emerald-400">-{formatCurrency(totals.discount)}</span>
-                    </div>
-                    <div className="flex justify-between text-sm mb-1">
-                      <span className="text-slate-400">Tax</span>
-                      <span className="text-slate-200">{formatCurrency(totals.tax)}</span>
+                      <span className="text-emerald-400">-{formatCurrency(totals.discount, terms.currency)}</span>
                     </div>
+                    <TaxLines calculations={totals} currency={terms.currency} className="text-sm mb-1" />
                     <div className="flex justify-between font-semibold text-lg pt-2 border-t border-slate-700">
                       <span className="text-slate-200">Total</span>
-                      <span className="text-emerald-400">{formatCurrency(totals.total)}</span>
+                      <span className="text-emerald-400">{formatCurrency(totals.total, terms.currency)}</span>
                     </div>
                   </div>
 
@@ -831,24 +776,40 @@ export default function QuoteEditPage() {
                   </div>
                 </div>
 
-                <div className="flex flex-col sm:flex-row gap-3">
-                  <Button
-                    variant="secondary"
-                    className="flex-1"
-                    onClick={() => handleSave(false)}
-                    isLoading={isSaving}
-                  >
-                    <SaveIcon className="w-4 h-4 mr-2" />
-                    Save as Draft
-                  </Button>
-                  <Button
-                    className="flex-1"
-                    onClick={() => handleSave(true)}
-                    isLoading={isSaving}
-                  >
-                    Save & Send Quote
-                  </Button>
-                </div>
+                {isRevision ? (
+                  <div className="space-y-3">
+                    <p className="text-sm text-slate-400">
+                      The customer link will show the new revision. The current version is kept for comparison.
+                    </p>
+                    <Button
+                      className="w-full"
+                      onClick={() => handleSave(false)}
+                      isLoading={isSaving}
+                    >
+                      <SaveIcon className="w-4 h-4 mr-2" />
+                      Save as rev {(quote.revision ?? 1) + 1}
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <Button
+                      variant="secondary"
+                      className="flex-1"
+                      onClick={() => handleSave(false)}
+                      isLoading={isSaving}
+                    >
+                      <SaveIcon className="w-4 h-4 mr-2" />
+                      Save as Draft
+                    </Button>
+                    <Button
+                      className="flex-1"
+                      onClick={() => handleSave(true)}
+                      isLoading={isSaving}
+                    >
+                      Save & Send Quote
+                    </Button>
+                  </div>
+                )}
               </motion.div>
             )}
           </AnimatePresence>
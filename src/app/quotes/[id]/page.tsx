@@ -6,8 +6,8 @@
 
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import React, { useState, useMemo, useCallback } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   ArrowLeftIcon,
@@ -30,7 +30,13 @@ import {
   ExclamationTriangleIcon,
   PrinterIcon,
   ShareIcon,
+  ShoppingCartIcon,
+  ArrowTopRightOnSquareIcon,
+  LinkSlashIcon,
+  CursorArrowRaysIcon,
+  ShieldExclamationIcon,
 } from '@heroicons/react/24/outline';
+import { useAuth } from '@/components/auth/AuthProvider';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/Button';
 import { Badge, StatusBadge } from '@/components/ui/Badge';
@@ -38,171 +44,46 @@ import { Skeleton } from '@/components/ui/Skeleton';
 import { Modal } from '@/components/ui/Modal';
 import { useToastHelpers } from '@/components/ui/Toast';
 import { cn, formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
-import type { Quote, Activity, Customer, LineItem } from '@/types/quote';
-import { QuoteStatus, QuoteStatusLabels, QuotePriority, QuoteStatusColors, CustomerStatus, ActivityType } from '@/types/quote';
-
-// ============================================================================
-// Mock Data
-// ============================================================================
-
-const mockQuote: Quote = {
-  id: 'qt_001',
-  quoteNumber: 'QT-2026-001',
-  customerId: 'cust_1',
-  customer: {
-    id: 'cust_1',
-    email: 'john.smith@acmecorp.com',
-    companyName: 'Acme Corporation',
-    contactName: 'John Smith',
-    phone: '+1 (555) 123-4567',
-    billingAddress: {
-      street: '123 Main Street',
-      city: 'New York',
-      state: 'NY',
-      zipCode: '10001',
-      country: 'US',
-    },
-    shippingAddress: {
-      street: '123 Main Street',
-      city: 'New York',
-      state: 'NY',
-      zipCode: '10001',
-      country: 'US',
-    },
-    customerSince: new Date('2023-01-15'),
-    tags: ['enterprise'],
-    createdAt: new Date('2023-01-15'),
-    updatedAt: new Date('2026-02-04'),
-    status: CustomerStatus.ACTIVE,
-  } as Customer,
-  title: 'Industrial Equipment Package - Q1 2026',
-  status: QuoteStatus.SENT,
-  priority: QuotePriority.HIGH,
-  lineItems: [
-    {
-      id: 'li_1',
-      productId: 'prod_1',
-      title: 'Industrial Conveyor Belt System',
-      sku: 'ICB-2000',
-      quantity: 2,
-      unitPrice: 5000,
-      discountAmount: 500,
-      discountPercentage: 5,
-      taxRate: 10,
-      taxAmount: 950,
-      subtotal: 10000,
-      total: 10450,
-      notes: 'Installation included',
-    },
-    {
-      id: 'li_2',
-      productId: 'prod_2',
-      title: 'Motor Control Unit',
-      sku: 'MCU-500',
-      quantity: 4,
-      unitPrice: 750,
-      discountAmount: 0,
-      taxRate: 10,
-      taxAmount: 300,
-      subtotal: 3000,
-      total: 3300,
-    },
-    {
-      id: 'li_3',
-      productId: 'prod_3',
-      title: 'Safety Sensors Kit',
-      sku: 'SSK-100',
-      quantity: 10,
-      unitPrice: 125,
-      discountAmount: 125,
-      discountPercentage: 10,
-      taxRate: 10,
-      taxAmount: 112.50,
-      subtotal: 1250,
-      total: 1237.50,
-    },
-  ],
-  subtotal: 14250,
-  discountTotal: 625,
-  taxTotal: 1362.50,
-  shippingTotal: 500,
-  total: 15487.50,
-  terms: {
-    paymentTerms: 'Net 30',
-    deliveryTerms: '2-3 weeks after order confirmation',
-    validityPeriod: 30,
-    depositRequired: true,
-    depositPercentage: 50,
-    currency: 'USD',
-    notes: 'Price valid for 30 days. Subject to availability.',
-    internalNotes: 'VIP customer - prioritize delivery',
-  },
-  metadata: {
-    createdBy: 'user_1',
-    createdByName: 'Jane Doe',
-    source: 'web',
-    ipAddress: '192.168.1.100',
-  },
-  expiresAt: new Date('2026-03-05'),
-  sentAt: new Date('2026-02-03T14:30:00'),
-  viewedAt: new Date('2026-02-03T16:45:00'),
-  createdAt: new Date('2026-02-03T14:00:00'),
-  updatedAt: new Date('2026-02-03T16:45:00'),
+import { QuoteRevisionDiff } from '@/components/quotes/QuoteRevisionDiff';
+import { TaxLines } from '@/components/quotes/TaxLines';
+import type { ApprovalMetadata } from '@/lib/approvals';
+import { canReviseQuote, getStatusLabel } from '@/lib/quoteWorkflow';
+import { calculateQuoteTotals, formatQuoteNumber, toLineItemInput } from '@/lib/quotes';
+import { getQuoteTaxContext } from '@/lib/tax';
+import { useQuoteWorkflow } from '@/hooks/useSettings';
+import {
+  useQuote,
+  useCreateQuote,
+  useDeleteQuote,
+  useQuoteStatusTransition,
+  useConvertQuote,
+  useQuoteShareLink,
+  useQuoteApproval,
+} from '@/hooks/useQuotes';
+import type { Activity } from '@/types/quote';
+import { ActivityType, QuoteStatus } from '@/types/quote';
+
+// Email delivery events shown between the status changes
+const EMAIL_TIMELINE_LABELS: Partial<Record<ActivityType, string>> = {
+  [ActivityType.EMAIL_DELIVERED]: 'email delivered',
+  [ActivityType.EMAIL_OPENED]: 'email opened',
+  [ActivityType.EMAIL_CLICKED]: 'link clicked',
+  [ActivityType.EMAIL_BOUNCED]: 'email bounced',
+  [ActivityType.EMAIL_COMPLAINED]: 'marked as spam',
 };
 
-const mockActivities: Activity[] = [
-  {
-    id: 'act_1',
-    type: ActivityType.QUOTE_VIEWED,
-    quoteId: 'qt_001',
-    quoteNumber: 'QT-2026-001',
-    customerId: 'cust_1',
-    customerName: 'Acme Corporation',
-    description: 'Quote viewed by customer',
-    createdAt: new Date('2026-02-03T16:45:00'),
-  },
-  {
-    id: 'act_2',
-    type: ActivityType.QUOTE_SENT,
-    quoteId: 'qt_001',
-    quoteNumber: 'QT-2026-001',
-    customerId: 'cust_1',
-    customerName: 'Acme Corporation',
-    userId: 'user_1',
-    userName: 'Jane Doe',
-    description: 'Quote sent to john.smith@acmecorp.com',
-    createdAt: new Date('2026-02-03T14:30:00'),
-  },
-  {
-    id: 'act_3',
-    type: ActivityType.QUOTE_CREATED,
-    quoteId: 'qt_001',
-    quoteNumber: 'QT-2026-001',
-    customerId: 'cust_1',
-    customerName: 'Acme Corporation',
-    userId: 'user_1',
-    userName: 'Jane Doe',
-    description: 'Quote created',
-    createdAt: new Date('2026-02-03T14:00:00'),
-  },
-];
-
-const mockStatusHistory = [
-  { status: 'created', timestamp: new Date('2026-02-03T14:00:00'), user: 'Jane Doe' },
-  { status: 'sent', timestamp: new Date('2026-02-03T14:30:00'), user: 'Jane Doe' },
-  { status: 'viewed', timestamp: new Date('2026-02-03T16:45:00'), user: 'Customer' },
-];
-
 // ============================================================================
 // Components
 // ============================================================================
 
 const TimelineItem: React.FC<{
   status: string;
+  label?: string;
   timestamp: Date;
   user?: string;
+  revision?: number;
   isLast: boolean;
-}> = ({ status, timestamp, user, isLast }) => {
+}> = ({ status, label, timestamp, user, revision, isLast }) => {
   const getStatusIcon = (s: string) => {
     switch (s) {
       case 'created':
@@ -215,6 +96,14 @@ const TimelineItem: React.FC<{
         return CheckCircleIcon;
       case 'rejected':
         return XCircleIcon;
+      case 'email delivered':
+      case 'email opened':
+        return EnvelopeIcon;
+      case 'link clicked':
+        return CursorArrowRaysIcon;
+      case 'email bounced':
+      case 'marked as spam':
+        return ExclamationTriangleIcon;
       default:
         return ClockIcon;
     }
@@ -229,7 +118,14 @@ const TimelineItem: React.FC<{
       case 'sent':
         return 'bg-indigo-500';
       case 'viewed':
+      case 'link clicked':
         return 'bg-purple-500';
+      case 'email delivered':
+      case 'email opened':
+        return 'bg-sky-500';
+      case 'email bounced':
+      case 'marked as spam':
+        return 'bg-red-500';
       default:
         return 'bg-slate-500';
     }
@@ -244,7 +140,10 @@ const TimelineItem: React.FC<{
         {!isLast && <div className="w-px flex-1 bg-slate-700 my-2" />}
       </div>
       <div className={cn('flex-1 pb-6', isLast && 'pb-0')}>
-        <p className="text-sm font-medium text-slate-200 capitalize">{status}</p>
+        <p className="text-sm font-medium text-slate-200">
+          <span className="capitalize">{label ?? status}</span>
+          {revision !== undefined && <span className="ml-2 text-xs font-normal text-slate-500">rev {revision}</span>}
+        </p>
         <div className="flex items-center gap-2 mt-1">
           <span className="text-xs text-slate-500">{formatDateTime(timestamp)}</span>
           {user && (
@@ -272,7 +171,14 @@ const ActivityItem: React.FC<{
       case 'quote_sent':
         return 'text-indigo-400';
       case 'quote_viewed':
+      case 'email_clicked':
         return 'text-purple-400';
+      case 'email_delivered':
+      case 'email_opened':
+        return 'text-sky-400';
+      case 'email_bounced':
+      case 'email_complained':
+        return 'text-red-400';
       default:
         return 'text-slate-400';
     }
@@ -303,37 +209,64 @@ const ActivityItem: React.FC<{
 export default function QuoteDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { success, error: showError } = useToastHelpers();
   const quoteId = params.id as string;
 
-  const [isLoading, setIsLoading] = useState(true);
-  const [quote, setQuote] = useState<Quote | null>(null);
-  const [activities, setActivities] = useState<Activity[]>([]);
-  const [statusHistory, setStatusHistory] = useState(mockStatusHistory);
+  const { quote, isLoading } = useQuote(quoteId);
+  const { workflow } = useQuoteWorkflow(searchParams.get('shop') || process.env.NEXT_PUBLIC_SHOP_DOMAIN || undefined);
+  const { createQuote } = useCreateQuote();
+  const { deleteQuote } = useDeleteQuote();
+  const { updateStatus } = useQuoteStatusTransition();
+  const { convertQuote, isConverting } = useConvertQuote();
+  const { createShareLink, revokeShareLinks, isCreatingLink, isRevokingLinks } = useQuoteShareLink();
+  const { approveQuote, rejectQuote, isDeciding } = useQuoteApproval();
+  const { can } = useAuth();
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showSendModal, setShowSendModal] = useState(false);
   const [isSending, setIsSending] = useState(false);
-
-  // Fetch quote data
-  useEffect(() => {
-    const fetchData = async () => {
-      setIsLoading(true);
-      try {
-        // TODO: Replace with actual API calls
-        await new Promise(resolve => setTimeout(resolve, 800));
-        
-        setQuote(mockQuote);
-        setActivities(mockActivities);
-      } catch (err) {
-        showError('Failed to load quote', err instanceof Error ? err.message : 'Unknown error');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [quoteId, showError]);
+  const [showConvertModal, setShowConvertModal] = useState(false);
+  const [showRejectModal, setShowRejectModal] = useState(false);
+  const [rejectComment, setRejectComment] = useState('');
+
+  const activities = quote?.activities ?? [];
+
+  // Creation followed by recorded transitions and email delivery events, oldest first
+  const statusHistory = useMemo(() => {
+    if (!quote) return [];
+    const transitions = quote.statusHistory.map((record) => ({
+      status: record.toStatus as string,
+      // The shop's workflow may have its own statuses
+      label: getStatusLabel(record.toStatus, workflow),
+      timestamp: new Date(record.changedAt),
+      user: record.changedByName as string | undefined,
+      // Only worth showing once the quote has been revised
+      revision: (quote.revision ?? 1) > 1 ? record.revision : undefined,
+    }));
+    const emailEvents = quote.activities
+      .filter((activity) => EMAIL_TIMELINE_LABELS[activity.type])
+      .map((activity) => ({
+        status: EMAIL_TIMELINE_LABELS[activity.type] as string,
+        label: undefined,
+        timestamp: new Date(activity.createdAt),
+        user: undefined,
+        revision: undefined,
+      }));
+    return [
+      { status: 'created', label: undefined, timestamp: quote.createdAt, user: quote.metadata.createdByName, revision: undefined },
+      ...[...transitions, ...emailEvents].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+    ];
+  }, [quote, workflow]);
+
+  // Why the quote is waiting, from the transition that held it back
+  const approvalReasons = useMemo(() => {
+    if (quote?.status !== QuoteStatus.PENDING_APPROVAL) return [];
+    const heldBack = [...quote.statusHistory]
+      .reverse()
+      .find((record) => record.toStatus === QuoteStatus.PENDING_APPROVAL);
+    return (heldBack?.metadata?.approval as ApprovalMetadata | undefined)?.reasons ?? [];
+  }, [quote]);
 
   const handleEdit = useCallback(() => {
     router.push(`/quotes/${quoteId}/edit`);
@@ -342,39 +275,96 @@ export default function QuoteDetailPage() {
   const handleSend = useCallback(async () => {
     setIsSending(true);
     try {
-      // TODO: Replace with actual API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      success('Quote sent successfully');
+      const applied = await updateStatus(quoteId, QuoteStatus.SENT);
+      if (applied === QuoteStatus.PENDING_APPROVAL) {
+        success('Quote sent for approval', 'Its discounts are past your shop limits; approvers have been notified');
+      } else {
+        success('Quote sent successfully');
+      }
       setShowSendModal(false);
-      // Refresh quote data
-      setQuote((prev) => prev ? { ...prev, status: QuoteStatus.SENT, sentAt: new Date() } : null);
     } catch (err) {
       showError('Failed to send quote', err instanceof Error ? err.message : 'Unknown error');
     } finally {
       setIsSending(false);
     }
-  }, [success, showError]);
+  }, [quoteId, updateStatus, success, showError]);
+
+  const handleApprove = useCallback(async () => {
+    try {
+      await approveQuote(quoteId);
+      success('Quote approved and sent');
+    } catch (err) {
+      showError('Failed to approve quote', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [quoteId, approveQuote, success, showError]);
+
+  const handleReject = useCallback(async () => {
+    try {
+      await rejectQuote(quoteId, rejectComment.trim());
+      success('Quote sent back to draft');
+      setShowRejectModal(false);
+      setRejectComment('');
+    } catch (err) {
+      showError('Failed to reject quote', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [quoteId, rejectQuote, rejectComment, success, showError]);
+
+  const handleConvert = useCallback(async () => {
+    try {
+      const converted = await convertQuote(quoteId);
+      success(converted.shopifyDraftOrderName ? `Draft order ${converted.shopifyDraftOrderName} created` : 'Draft order created');
+      setShowConvertModal(false);
+    } catch (err) {
+      showError('Failed to create draft order', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [quoteId, convertQuote, success, showError]);
+
+  const handleCopyLink = useCallback(async () => {
+    try {
+      const url = await createShareLink(quoteId);
+      await navigator.clipboard.writeText(url);
+      success('Customer link copied', 'Anyone with the link can view and respond to this quote');
+    } catch (err) {
+      showError('Failed to create customer link', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [quoteId, createShareLink, success, showError]);
+
+  const handleRevokeLinks = useCallback(async () => {
+    try {
+      const revoked = await revokeShareLinks(quoteId);
+      success(revoked > 0 ? `${revoked} customer link${revoked === 1 ? '' : 's'} revoked` : 'No active customer links');
+    } catch (err) {
+      showError('Failed to revoke customer links', err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, [quoteId, revokeShareLinks, success, showError]);
 
   const handleDuplicate = useCallback(async () => {
+    if (!quote) return;
     try {
-      // TODO: Replace with actual API call
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
+      const shopId = searchParams.get('shop') || process.env.NEXT_PUBLIC_SHOP_DOMAIN || '';
+      const duplicate = await createQuote({
+        shopId,
+        customerId: quote.customerId,
+        title: `${quote.title} (Copy)`,
+        priority: quote.priority,
+        lineItems: quote.lineItems.map(({ id: _id, subtotal: _subtotal, discountAmount: _discount, taxAmount: _tax, total: _total, ...item }) => item),
+        discountTotal: quote.discountTotal,
+        taxRate: quote.taxRate,
+        shippingTotal: quote.shippingTotal,
+        terms: quote.terms,
+      });
+
       success('Quote duplicated successfully');
-      // Navigate to new quote
-      // router.push(`/quotes/${newQuoteId}`);
+      router.push(`/quotes/${duplicate.id}`);
     } catch (err) {
       showError('Failed to duplicate quote', err instanceof Error ? err.message : 'Unknown error');
     }
-  }, [success, showError]);
+  }, [quote, searchParams, createQuote, router, success, showError]);
 
   const handleDelete = useCallback(async () => {
     setIsDeleting(true);
     try {
-      // TODO: Replace with actual API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+      await deleteQuote(quoteId);
       success('Quote deleted successfully');
       router.push('/quotes');
     } catch (err) {
@@ -382,12 +372,13 @@ export default function QuoteDetailPage() {
       setIsDeleting(false);
       setShowDeleteModal(false);
     }
-  }, [quoteId, router, success, showError]);
+  }, [quoteId, deleteQuote, router, success, showError]);
 
   const handleDownloadPDF = useCallback(() => {
-    // TODO: Implement PDF download
+    if (!quote) return;
+    window.open(`/api/quotes/${quote.id}/pdf`, '_blank');
     success('PDF download started');
-  }, [success]);
+  }, [quote, success]);
 
   const handlePrint = useCallback(() => {
     window.print();
@@ -436,6 +427,14 @@ export default function QuoteDetailPage() {
     ? Math.ceil((quote.expiresAt.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
     : null;
 
+  // Tax per rate, from the tax the quote was priced with
+  const calculations = calculateQuoteTotals(
+    quote.lineItems.map(toLineItemInput),
+    quote.discountTotal,
+    getQuoteTaxContext(quote),
+    quote.shippingTotal
+  );
+
   return (
     <DashboardLayout>
       <div className="max-w-7xl mx-auto space-y-6">
@@ -456,7 +455,7 @@ export default function QuoteDetailPage() {
             </Button>
             <div>
               <div className="flex items-center gap-3 flex-wrap">
-                <h1 className="text-2xl font-bold text-slate-100">{quote.quoteNumber}</h1>
+                <h1 className="text-2xl font-bold text-slate-100">{formatQuoteNumber(quote.quoteNumber, quote.revision)}</h1>
                 <StatusBadge status={quote.status} />
                 <Badge variant="custom" className={cn(
                   quote.priority === 'urgent' && 'bg-red-500/10 text-red-400',
@@ -478,22 +477,48 @@ export default function QuoteDetailPage() {
                     : `Expires in ${daysUntilExpiry} days`}
                 </p>
               )}
+              {quote.priceDriftDetectedAt && (
+                <p className="flex items-center gap-1.5 text-sm mt-1 text-amber-400">
+                  <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />
+                  Catalog prices changed since this quote was priced. Edit the quote to review them.
+                </p>
+              )}
+              {quote.metadata.signatureName && quote.acceptedAt && (
+                <p className="flex items-center gap-1.5 text-sm mt-1 text-emerald-400">
+                  <CheckCircleIcon className="w-4 h-4 shrink-0" />
+                  Accepted by {quote.metadata.signatureName} on {formatDateTime(quote.acceptedAt)}
+                </p>
+              )}
             </div>
           </div>
 
           <div className="flex flex-wrap items-center gap-2">
             <Button variant="secondary" size="sm" onClick={handleEdit}>
               <PencilIcon className="w-4 h-4 mr-2" />
-              Edit
+              {canReviseQuote(quote.status) ? 'Revise' : 'Edit'}
             </Button>
             <Button 
               size="sm" 
               onClick={() => setShowSendModal(true)}
-              disabled={quote.status === QuoteStatus.ACCEPTED}
+              disabled={quote.status === QuoteStatus.ACCEPTED || quote.status === QuoteStatus.PENDING_APPROVAL}
             >
               <PaperAirplaneIcon className="w-4 h-4 mr-2" />
               Send
             </Button>
+            {quote.status === QuoteStatus.ACCEPTED && (
+              <Button size="sm" onClick={() => setShowConvertModal(true)}>
+                <ShoppingCartIcon className="w-4 h-4 mr-2" />
+                Create Draft Order
+              </Button>
+            )}
+            {quote.shopifyInvoiceUrl && (
+              <a href={quote.shopifyInvoiceUrl} target="_blank" rel="noopener noreferrer">
+                <Button variant="secondary" size="sm">
+                  <ArrowTopRightOnSquareIcon className="w-4 h-4 mr-2" />
+                  {quote.shopifyDraftOrderName ? `Invoice ${quote.shopifyDraftOrderName}` : 'Invoice'}
+                </Button>
+              </a>
+            )}
             <Button variant="ghost" size="sm" onClick={handleDuplicate}>
               <DocumentDuplicateIcon className="w-4 h-4 mr-2" />
               Duplicate
@@ -501,6 +526,41 @@ export default function QuoteDetailPage() {
           </div>
         </motion.div>
 
+        {/* Discount Approval */}
+        {quote.status === QuoteStatus.PENDING_APPROVAL && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-orange-500/10 border border-orange-500/20 rounded-xl p-5 flex flex-col md:flex-row md:items-start md:justify-between gap-4"
+          >
+            <div>
+              <p className="flex items-center gap-2 font-medium text-orange-400">
+                <ShieldExclamationIcon className="w-5 h-5 shrink-0" />
+                Waiting for approval before it is sent
+              </p>
+              {approvalReasons.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm text-orange-300/80 list-disc list-inside">
+                  {approvalReasons.map((reason, index) => (
+                    <li key={index}>{reason.message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            {can('quotes:approve') && (
+              <div className="flex gap-2 shrink-0">
+                <Button variant="secondary" size="sm" onClick={() => setShowRejectModal(true)} disabled={isDeciding}>
+                  <XCircleIcon className="w-4 h-4 mr-2" />
+                  Reject
+                </Button>
+                <Button size="sm" onClick={handleApprove} isLoading={isDeciding}>
+                  <CheckCircleIcon className="w-4 h-4 mr-2" />
+                  Approve &amp; Send
+                </Button>
+              </div>
+            )}
+          </motion.div>
+        )}
+
         {/* Main Content */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Left Column */}
@@ -536,6 +596,12 @@ export default function QuoteDetailPage() {
                       <a href={`mailto:${quote.customer.email}`} className="text-sm text-indigo-400 hover:text-indigo-300">
                         {quote.customer.email}
                       </a>
+                      {quote.customer.emailBouncedAt && (
+                        <p className="text-xs text-red-400 mt-0.5">
+                          Bounced {formatDate(quote.customer.emailBouncedAt)}
+                          {quote.customer.emailBounceReason && ` · ${quote.customer.emailBounceReason}`}
+                        </p>
+                      )}
                     </div>
                   </div>
                   {quote.customer.phone && (
@@ -607,19 +673,24 @@ export default function QuoteDetailPage() {
                           </div>
                         </td>
                         <td className="px-6 py-4 text-right text-slate-300">{item.quantity}</td>
-                        <td className="px-6 py-4 text-right text-slate-300">{formatCurrency(item.unitPrice)}</td>
+                        <td className="px-6 py-4 text-right text-slate-300">
+                          {formatCurrency(item.unitPrice, quote.terms?.currency)}
+                          {item.catalogPrice !== undefined && (
+                            <p className="text-xs text-amber-400">Now {formatCurrency(item.catalogPrice, quote.terms?.currency)}</p>
+                          )}
+                        </td>
                         <td className="px-6 py-4 text-right">
                           {item.discountAmount > 0 ? (
                             <span className="text-emerald-400">
-                              -{formatCurrency(item.discountAmount)}
+                              -{formatCurrency(item.discountAmount, quote.terms?.currency)}
                               {item.discountPercentage && ` (${item.discountPercentage}%)`}
                             </span>
                           ) : (
                             <span className="text-slate-500">-</span>
                           )}
                         </td>
-                        <td className="px-6 py-4 text-right text-slate-300">{formatCurrency(item.taxAmount)}</td>
-                        <td className="px-6 py-4 text-right font-medium text-slate-200">{formatCurrency(item.total)}</td>
+                        <td className="px-6 py-4 text-right text-slate-300">{formatCurrency(item.taxAmount, quote.terms?.currency)}</td>
+                        <td className="px-6 py-4 text-right font-medium text-slate-200">{formatCurrency(item.total, quote.terms?.currency)}</td>
                       </motion.tr>
                     ))}
                   </tbody>
@@ -665,6 +736,17 @@ export default function QuoteDetailPage() {
               </div>
             </motion.div>
 
+            {/* Revisions */}
+            {(quote.revision ?? 1) > 1 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.35 }}
+              >
+                <QuoteRevisionDiff quoteId={quote.id} quoteNumber={quote.quoteNumber} />
+              </motion.div>
+            )}
+
             {/* Activity Feed */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -702,24 +784,21 @@ export default function QuoteDetailPage() {
               <div className="space-y-3">
                 <div className="flex justify-between text-sm">
                   <span className="text-slate-400">Subtotal</span>
-                  <span className="text-slate-200">{formatCurrency(quote.subtotal)}</span>
+                  <span className="text-slate-200">{formatCurrency(quote.subtotal, quote.terms?.currency)}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-slate-400">Discount</span>
-                  <span className="text-emerald-400">-{formatCurrency(quote.discountTotal)}</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-slate-400">Tax</span>
-                  <span className="text-slate-200">{formatCurrency(quote.taxTotal)}</span>
+                  <span className="text-emerald-400">-{formatCurrency(quote.discountTotal, quote.terms?.currency)}</span>
                 </div>
+                <TaxLines calculations={calculations} currency={quote.terms?.currency} className="text-sm" />
                 <div className="flex justify-between text-sm">
                   <span className="text-slate-400">Shipping</span>
-                  <span className="text-slate-200">{formatCurrency(quote.shippingTotal)}</span>
+                  <span className="text-slate-200">{formatCurrency(quote.shippingTotal, quote.terms?.currency)}</span>
                 </div>
                 <div className="pt-3 border-t border-slate-800">
                   <div className="flex justify-between">
                     <span className="font-semibold text-slate-200">Total</span>
-                    <span className="text-2xl font-bold text-emerald-400">{formatCurrency(quote.total)}</span>
+                    <span className="text-2xl font-bold text-emerald-400">{formatCurrency(quote.total, quote.terms?.currency)}</span>
                   </div>
                 </div>
               </div>
@@ -736,16 +815,29 @@ export default function QuoteDetailPage() {
               <div className="space-y-2">
                 <Button variant="secondary" className="w-full justify-start" onClick={handleEdit}>
                   <PencilIcon className="w-4 h-4 mr-2" />
-                  Edit Quote
+                  {canReviseQuote(quote.status) ? 'Revise Quote' : 'Edit Quote'}
                 </Button>
                 <Button 
                   className="w-full justify-start" 
                   onClick={() => setShowSendModal(true)}
-                  disabled={quote.status === QuoteStatus.ACCEPTED}
+                  disabled={quote.status === QuoteStatus.ACCEPTED || quote.status === QuoteStatus.PENDING_APPROVAL}
                 >
                   <PaperAirplaneIcon className="w-4 h-4 mr-2" />
                   Send to Customer
                 </Button>
+                <Button
+                  variant="ghost"
+                  className="w-full justify-start"
+                  onClick={handleCopyLink}
+                  disabled={isCreatingLink || quote.status === QuoteStatus.DRAFT || quote.status === QuoteStatus.PENDING || quote.status === QuoteStatus.PENDING_APPROVAL}
+                >
+                  <ShareIcon className="w-4 h-4 mr-2" />
+                  Copy Customer Link
+                </Button>
+                <Button variant="ghost" className="w-full justify-start" onClick={handleRevokeLinks} disabled={isRevokingLinks}>
+                  <LinkSlashIcon className="w-4 h-4 mr-2" />
+                  Revoke Customer Links
+                </Button>
                 <Button variant="ghost" className="w-full justify-start" onClick={handleDownloadPDF}>
                   <DocumentArrowDownIcon className="w-4 h-4 mr-2" />
                   Download PDF
@@ -774,8 +866,10 @@ export default function QuoteDetailPage() {
                   <TimelineItem
                     key={index}
                     status={item.status}
+                    label={item.label}
                     timestamp={item.timestamp}
                     user={item.user}
+                    revision={item.revision}
                     isLast={index === statusHistory.length - 1}
                   />
                 ))}
@@ -824,6 +918,14 @@ export default function QuoteDetailPage() {
             </p>
           </div>
         </div>
+        {quote.customer.emailBouncedAt && (
+          <div className="flex items-center gap-3 p-4 bg-red-950/30 rounded-lg mb-4">
+            <ExclamationTriangleIcon className="w-6 h-6 text-red-400 shrink-0" />
+            <p className="text-sm text-red-300">
+              Email to this address bounced on {formatDate(quote.customer.emailBouncedAt)}. Check it with the customer before sending.
+            </p>
+          </div>
+        )}
         <div className="flex justify-end gap-3">
           <Button variant="ghost" onClick={() => setShowSendModal(false)} disabled={isSending}>
             Cancel
@@ -835,6 +937,54 @@ export default function QuoteDetailPage() {
         </div>
       </Modal>
 
+      {/* Reject Approval Modal */}
+      <Modal
+        isOpen={showRejectModal}
+        onClose={() => setShowRejectModal(false)}
+        title="Reject Quote"
+        description="The quote goes back to draft. Tell the rep what to change."
+      >
+        <textarea
+          value={rejectComment}
+          onChange={(e) => setRejectComment(e.target.value)}
+          placeholder="e.g. Keep the discount on the pump at 20% or less"
+          className="w-full px-3 py-2 mb-4 bg-slate-900 border border-slate-700 rounded-lg text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent min-h-[100px] resize-y"
+        />
+        <div className="flex justify-end gap-3">
+          <Button variant="ghost" onClick={() => setShowRejectModal(false)} disabled={isDeciding}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleReject} isLoading={isDeciding} disabled={!rejectComment.trim()}>
+            Reject Quote
+          </Button>
+        </div>
+      </Modal>
+
+      {/* Convert to Draft Order Modal */}
+      <Modal
+        isOpen={showConvertModal}
+        onClose={() => setShowConvertModal(false)}
+        title="Create Draft Order"
+        description={`Create a Shopify draft order from ${quote.quoteNumber}?`}
+      >
+        <div className="flex items-center gap-3 p-4 bg-indigo-950/30 rounded-lg mb-4">
+          <ShoppingCartIcon className="w-6 h-6 text-indigo-400 shrink-0" />
+          <p className="text-sm text-indigo-300">
+            Line items, discounts and shipping are copied to the draft order. Shopify calculates tax
+            from your store settings. The quote can no longer be changed afterwards.
+          </p>
+        </div>
+        <div className="flex justify-end gap-3">
+          <Button variant="ghost" onClick={() => setShowConvertModal(false)} disabled={isConverting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConvert} isLoading={isConverting}>
+            <ShoppingCartIcon className="w-4 h-4 mr-2" />
+            Create Draft Order
+          </Button>
+        </div>
+      </Modal>
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={showDeleteModal}
@@ -5,34 +5,102 @@
 
 'use client';
 
-import React, { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import React, { useMemo, useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 import Link from 'next/link';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/Button';
 import { QuoteWizard } from '@/components/wizard/QuoteWizard';
+import { useToastHelpers } from '@/components/ui/Toast';
+import { useCreateQuote } from '@/hooks/useQuotes';
+import { getQuoteFormDefaults, getTemplateFormData } from '@/hooks/useQuoteWizard';
+import { useMerchantSettings, useTaxRules } from '@/hooks/useSettings';
+import { useQuoteTemplates } from '@/hooks/useTemplates';
 import type { QuoteFormData } from '@/types/quote';
 
-export default function NewQuotePage() {
+function NewQuotePageContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const shopId = searchParams.get('shop') || process.env.NEXT_PUBLIC_SHOP_DOMAIN || '';
+  const { success, error: showError } = useToastHelpers();
+  const { createQuote } = useCreateQuote();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { settings, isLoading: isLoadingSettings } = useMerchantSettings(shopId || undefined);
+  const { rules: taxRules } = useTaxRules(shopId || undefined);
+  const { templates, defaultTemplate, isLoading: isLoadingTemplates } = useQuoteTemplates();
+  const templateId = searchParams.get('template');
+
+  // A ?template= link wins over the shop's default template
+  const initialData = useMemo(() => {
+    const template = (templateId && templates.find((t) => t.id === templateId)) || defaultTemplate;
+    return {
+      ...(settings && getQuoteFormDefaults(settings.quotes)),
+      ...(template && getTemplateFormData(template)),
+    };
+  }, [settings, templates, defaultTemplate, templateId]);
 
   const handleComplete = async (data: QuoteFormData) => {
     setIsSubmitting(true);
-    
+    const { address } = data.customer;
+
     try {
-      // In production, this would send to API
-      console.log('Creating quote with data:', data);
-      
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      
-      // Navigate to quotes list
-      router.push('/quotes');
+      const quote = await createQuote({
+        shopId,
+        // A saved customer wins over the details typed in, which new customers are created from
+        customerId: data.customer.customer_id,
+        contactId: data.customer.contact_id,
+        customer: {
+          email: data.customer.email,
+          contactName: data.customer.name,
+          companyName: data.customer.company || undefined,
+          phone: data.customer.phone || undefined,
+          taxId: data.customer.tax_id || undefined,
+          shippingAddress: address.country ? {
+            street: address.street,
+            city: address.city,
+            state: address.state,
+            zipCode: address.zip,
+            country: address.country,
+          } : undefined,
+        },
+        title: data.title,
+        lineItems: data.line_items.map((item) => ({
+          productId: item.product_id,
+          variantId: item.variant_id,
+          originalPrice: item.original_price,
+          unitCost: item.unit_cost,
+          title: item.name,
+          sku: item.sku,
+          quantity: item.quantity,
+          unitPrice: item.unit_price,
+          discountPercentage: item.discount_percent,
+          taxRate: item.tax_rate,
+          notes: item.description || undefined,
+        })),
+        discountTotal: data.discount_total,
+        taxRate: data.tax_rate,
+        terms: {
+          paymentTerms: data.terms,
+          deliveryTerms: data.delivery_terms || undefined,
+          depositRequired: data.deposit_required,
+          depositPercentage: data.deposit_required ? data.deposit_percentage : undefined,
+          currency: data.currency,
+          notes: data.notes || undefined,
+          internalNotes: data.internal_notes || undefined,
+        },
+        expiresAt: data.valid_until ? new Date(data.valid_until).toISOString() : undefined,
+        templateId: data.template_id,
+        pdfTemplate: data.pdf_template,
+        headerText: data.header_text || undefined,
+        footerText: data.footer_text || undefined,
+      });
+
+      success(`Quote ${quote.quoteNumber} created`);
+      router.push(`/quotes/${quote.id}`);
     } catch (error) {
-      console.error('Failed to create quote:', error);
+      showError('Failed to create quote', error instanceof Error ? error.message : 'Unknown error');
     } finally {
       setIsSubmitting(false);
     }
@@ -72,11 +140,29 @@ export default function NewQuotePage() {
         transition={{ delay: 0.1 }}
         className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden"
       >
-        <QuoteWizard
-          onComplete={handleComplete}
-          onCancel={handleCancel}
-        />
+        {/* The wizard takes its defaults on mount, so it waits for the shop's settings and templates */}
+        {!isLoadingSettings && !isLoadingTemplates && (
+          <QuoteWizard
+            shopId={shopId || undefined}
+            templates={templates}
+            initialData={initialData}
+            approvalThresholds={settings?.approvals}
+            taxRules={taxRules}
+            pricesIncludeTax={settings?.quotes.pricesIncludeTax}
+            onComplete={handleComplete}
+            onCancel={handleCancel}
+          />
+        )}
       </motion.div>
     </DashboardLayout>
   );
 }
+
+// useSearchParams needs a Suspense boundary for the page to prerender
+export default function NewQuotePage() {
+  return (
+    <Suspense>
+      <NewQuotePageContent />
+    </Suspense>
+  );
+}
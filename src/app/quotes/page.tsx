@@ -6,8 +6,8 @@
 
 'use client';
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import React, { useState, useMemo, useCallback, useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   PlusIcon,
@@ -32,7 +32,7 @@ import { cn, formatCurrency, formatDate } from '@/lib/utils';
 import { QuoteFilters } from '@/components/quotes/QuoteFilters';
 import { BulkActions } from '@/components/quotes/BulkActions';
 import type { Quote, QuoteWithCustomer } from '@/types/quote';
-import { QuoteStatus, QuotePriority, QuoteStatusLabels, QuoteStatusColors, CustomerStatus } from '@/types/quote';
+import { QuoteStatus, QuoteStatusLabels, QuoteStatusColors } from '@/types/quote';
 
 // Local filter state type matching QuoteFilters component
 interface FilterState {
@@ -45,272 +45,11 @@ interface FilterState {
   sortBy: 'created' | 'updated' | 'total' | 'expiry';
   sortOrder: 'asc' | 'desc';
 }
-import { 
-  useQuotes, 
-  useDeleteQuote, 
-  useUpdateQuoteStatus,
-  useBulkDeleteQuotes,
-  useRealtimeQuotes 
-} from '@/hooks/useSupabaseData';
-
-// ============================================================================
-// Mock Data (Fallback)
-// ============================================================================
-
-const mockQuotes: QuoteWithCustomer[] = [
-  {
-    id: 'qt_001',
-    quoteNumber: 'QT-2026-001',
-    customerId: 'cust_1',
-    customer: {
-      id: 'cust_1',
-      email: 'john@acme.com',
-      companyName: 'Acme Corporation',
-      contactName: 'John Smith',
-      phone: '+1 (555) 123-4567',
-      customerSince: new Date('2023-01-15'),
-      tags: ['enterprise', 'priority'],
-      status: CustomerStatus.ACTIVE,
-      createdAt: new Date('2023-01-15'),
-      updatedAt: new Date('2026-02-03'),
-    },
-    title: 'Industrial Equipment Quote',
-    status: QuoteStatus.SENT,
-    priority: QuotePriority.HIGH,
-    lineItems: [],
-    subtotal: 15000,
-    discountTotal: 1500,
-    taxTotal: 1350,
-    shippingTotal: 500,
-    total: 15350,
-    terms: {
-      paymentTerms: 'Net 30',
-      deliveryTerms: '2-3 business days',
-      validityPeriod: 30,
-      depositRequired: true,
-      depositPercentage: 50,
-      currency: 'USD',
-    },
-    metadata: {
-      createdBy: 'user_1',
-      createdByName: 'Jane Doe',
-      source: 'web',
-    },
-    sentAt: new Date('2026-02-03'),
-    createdAt: new Date('2026-02-03'),
-    updatedAt: new Date('2026-02-03'),
-  },
-  {
-    id: 'qt_002',
-    quoteNumber: 'QT-2026-002',
-    customerId: 'cust_2',
-    customer: {
-      id: 'cust_2',
-      email: 'sarah@globex.com',
-      companyName: 'Globex Industries',
-      contactName: 'Sarah Johnson',
-      phone: '+1 (555) 987-6543',
-      customerSince: new Date('2023-03-20'),
-      tags: ['mid-market'],
-      status: CustomerStatus.ACTIVE,
-      createdAt: new Date('2023-03-20'),
-      updatedAt: new Date('2026-02-02'),
-    },
-    title: 'Office Furniture Package',
-    status: QuoteStatus.ACCEPTED,
-    priority: QuotePriority.MEDIUM,
-    lineItems: [],
-    subtotal: 8500,
-    discountTotal: 0,
-    taxTotal: 765,
-    shippingTotal: 350,
-    total: 9615,
-    terms: {
-      paymentTerms: 'Net 15',
-      deliveryTerms: 'Standard (5-7 days)',
-      validityPeriod: 30,
-      depositRequired: false,
-      currency: 'USD',
-    },
-    metadata: {
-      createdBy: 'user_1',
-      createdByName: 'Jane Doe',
-      source: 'web',
-    },
-    sentAt: new Date('2026-02-01'),
-    acceptedAt: new Date('2026-02-02'),
-    createdAt: new Date('2026-02-01'),
-    updatedAt: new Date('2026-02-02'),
-  },
-  {
-    id: 'qt_003',
-    quoteNumber: 'QT-2026-003',
-    customerId: 'cust_3',
-    customer: {
-      id: 'cust_3',
-      email: 'mike@initech.com',
-      companyName: 'Initech LLC',
-      contactName: 'Michael Brown',
-      phone: '+1 (555) 456-7890',
-      customerSince: new Date('2023-06-10'),
-      tags: ['startup'],
-      status: CustomerStatus.ACTIVE,
-      createdAt: new Date('2023-06-10'),
-      updatedAt: new Date('2026-02-03'),
-    },
-    title: 'IT Services Quote',
-    status: QuoteStatus.VIEWED,
-    priority: QuotePriority.LOW,
-    lineItems: [],
-    subtotal: 5000,
-    discountTotal: 500,
-    taxTotal: 450,
-    shippingTotal: 0,
-    total: 4950,
-    terms: {
-      paymentTerms: 'Due on Receipt',
-      deliveryTerms: 'Custom Delivery Terms',
-      validityPeriod: 15,
-      depositRequired: false,
-      currency: 'USD',
-    },
-    metadata: {
-      createdBy: 'user_1',
-      createdByName: 'Jane Doe',
-      source: 'web',
-    },
-    sentAt: new Date('2026-02-02'),
-    viewedAt: new Date('2026-02-03'),
-    createdAt: new Date('2026-02-02'),
-    updatedAt: new Date('2026-02-03'),
-  },
-  {
-    id: 'qt_004',
-    quoteNumber: 'QT-2026-004',
-    customerId: 'cust_1',
-    customer: {
-      id: 'cust_1',
-      email: 'john@acme.com',
-      companyName: 'Acme Corporation',
-      contactName: 'John Smith',
-      phone: '+1 (555) 123-4567',
-      customerSince: new Date('2023-01-15'),
-      tags: ['enterprise', 'priority'],
-      status: CustomerStatus.ACTIVE,
-      createdAt: new Date('2023-01-15'),
-      updatedAt: new Date('2026-02-04'),
-    },
-    title: 'Maintenance Contract Q1 2026',
-    status: QuoteStatus.DRAFT,
-    priority: QuotePriority.HIGH,
-    lineItems: [],
-    subtotal: 25000,
-    discountTotal: 2500,
-    taxTotal: 2250,
-    shippingTotal: 0,
-    total: 24750,
-    terms: {
-      paymentTerms: 'Net 60',
-      deliveryTerms: 'Pickup',
-      validityPeriod: 60,
-      depositRequired: true,
-      depositPercentage: 25,
-      currency: 'USD',
-    },
-    metadata: {
-      createdBy: 'user_1',
-      createdByName: 'Jane Doe',
-      source: 'web',
-    },
-    createdAt: new Date('2026-02-04'),
-    updatedAt: new Date('2026-02-04'),
-  },
-  {
-    id: 'qt_005',
-    quoteNumber: 'QT-2026-005',
-    customerId: 'cust_2',
-    customer: {
-      id: 'cust_2',
-      email: 'sarah@globex.com',
-      companyName: 'Globex Industries',
-      contactName: 'Sarah Johnson',
-      phone: '+1 (555) 987-6543',
-      customerSince: new Date('2023-03-20'),
-      tags: ['mid-market'],
-      status: CustomerStatus.ACTIVE,
-      createdAt: new Date('2023-03-20'),
-      updatedAt: new Date('2026-02-01'),
-    },
-    title: 'Consulting Services - Feb 2026',
-    status: QuoteStatus.REJECTED,
-    priority: QuotePriority.HIGH,
-    lineItems: [],
-    subtotal: 12000,
-    discountTotal: 0,
-    taxTotal: 1080,
-    shippingTotal: 0,
-    total: 13080,
-    terms: {
-      paymentTerms: '50% Deposit',
-      deliveryTerms: 'Custom Delivery Terms',
-      validityPeriod: 30,
-      depositRequired: true,
-      depositPercentage: 50,
-      currency: 'USD',
-    },
-    metadata: {
-      createdBy: 'user_1',
-      createdByName: 'Jane Doe',
-      source: 'web',
-    },
-    sentAt: new Date('2026-01-28'),
-    rejectedAt: new Date('2026-02-01'),
-    rejectionReason: 'Budget constraints',
-    createdAt: new Date('2026-01-28'),
-    updatedAt: new Date('2026-02-01'),
-  },
-  {
-    id: 'qt_006',
-    quoteNumber: 'QT-2026-006',
-    customerId: 'cust_4',
-    customer: {
-      id: 'cust_4',
-      email: 'lisa@umbrella.com',
-      companyName: 'Umbrella Corporation',
-      contactName: 'Lisa Davis',
-      phone: '+1 (555) 321-7654',
-      customerSince: new Date('2022-11-05'),
-      tags: ['enterprise', 'healthcare'],
-      status: CustomerStatus.ACTIVE,
-      createdAt: new Date('2022-11-05'),
-      updatedAt: new Date('2026-02-05'),
-    },
-    title: 'Medical Equipment Supply',
-    status: QuoteStatus.PENDING,
-    priority: QuotePriority.MEDIUM,
-    lineItems: [],
-    subtotal: 45000,
-    discountTotal: 4500,
-    taxTotal: 4050,
-    shippingTotal: 1200,
-    total: 45750,
-    terms: {
-      paymentTerms: 'Net 30',
-      deliveryTerms: '2-3 weeks',
-      validityPeriod: 45,
-      depositRequired: true,
-      depositPercentage: 30,
-      currency: 'USD',
-    },
-    metadata: {
-      createdBy: 'user_1',
-      createdByName: 'Jane Doe',
-      source: 'web',
-    },
-    createdAt: new Date('2026-02-05'),
-    updatedAt: new Date('2026-02-05'),
-  },
-];
+import { useRealtimeQuotes } from '@/hooks/useSupabaseData';
+import { useQuotesList, useDeleteQuote, useQuoteStatusTransition } from '@/hooks/useQuotes';
+import { useExchangeRates, useMerchantSettings } from '@/hooks/useSettings';
+import { toBaseCurrency } from '@/lib/exchangeRates';
+import { DEFAULT_MERCHANT_SETTINGS } from '@/lib/settings';
 
 // ============================================================================
 // Components
@@ -440,7 +179,7 @@ const QuoteRow: React.FC<{
       {/* Value */}
       <td className="px-4 py-4 text-right">
         <p className="font-semibold text-slate-200">
-          {formatCurrency(quote.total)}
+          {formatCurrency(quote.total, quote.terms?.currency)}
         </p>
         <p className="text-xs text-slate-500">
           {quote.lineItems?.length || 0} items
@@ -579,8 +318,9 @@ const StatusUpdateModal: React.FC<{
 // Main Page Component
 // ============================================================================
 
-export default function QuotesPage() {
+function QuotesPageContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { success, error: showError } = useToastHelpers();
 
   // State
@@ -600,119 +340,30 @@ export default function QuotesPage() {
   const [quoteToDelete, setQuoteToDelete] = useState<QuoteWithCustomer | null>(null);
   const [quoteToUpdate, setQuoteToUpdate] = useState<QuoteWithCustomer | null>(null);
 
-  // Data fetching (using mock data for now, switch to useQuotes hook when API is ready)
-  const [isLoading, setIsLoading] = useState(true);
-  const [quotes, setQuotes] = useState<QuoteWithCustomer[]>([]);
+  // Data fetching (filtering, sorting and paging happen on the server)
+  const shopId = searchParams.get('shop') || process.env.NEXT_PUBLIC_SHOP_DOMAIN || undefined;
+  const {
+    quotes,
+    pagination,
+    isLoading,
+    revalidate: fetchQuotes,
+  } = useQuotesList({ ...filters, shopId, limit: 100 });
+  const filteredQuotes = quotes;
+  const { settings } = useMerchantSettings(shopId);
+  const { rates } = useExchangeRates(shopId);
+  const baseCurrency = settings?.quotes.baseCurrency ?? DEFAULT_MERCHANT_SETTINGS.quotes.baseCurrency;
 
   // Real-time updates
   const { isConnected } = useRealtimeQuotes((payload) => {
     if (payload.event === 'INSERT') {
       success(`New quote ${payload.quote.quoteNumber} created`);
-    } else if (payload.event === 'UPDATE') {
-      // Refresh quotes
-      fetchQuotes();
     }
+    fetchQuotes();
   });
 
   // Mutations
-  const deleteQuote = useDeleteQuote({
-    onSuccess: () => {
-      success('Quote deleted successfully');
-      fetchQuotes();
-    },
-    onError: (err) => showError('Failed to delete quote', err.message),
-  });
-
-  const bulkDeleteQuotes = useBulkDeleteQuotes({
-    onSuccess: () => {
-      success(`Deleted ${selectedIds.length} quotes`);
-      setSelectedIds([]);
-      fetchQuotes();
-    },
-    onError: (err) => showError('Failed to delete quotes', err.message),
-  });
-
-  const updateQuoteStatus = useUpdateQuoteStatus({
-    onSuccess: () => {
-      success('Quote status updated');
-      fetchQuotes();
-    },
-    onError: (err) => showError('Failed to update status', err.message),
-  });
-
-  // Fetch quotes
-  const fetchQuotes = useCallback(async () => {
-    setIsLoading(true);
-    // Simulate API delay
-    await new Promise((resolve) => setTimeout(resolve, 800));
-    setQuotes(mockQuotes);
-    setIsLoading(false);
-  }, []);
-
-  useEffect(() => {
-    fetchQuotes();
-  }, [fetchQuotes]);
-
-  // Filter quotes locally (would be done server-side with real API)
-  const filteredQuotes = useMemo(() => {
-    let result = [...quotes];
-
-    if (filters.searchQuery) {
-      const query = filters.searchQuery.toLowerCase();
-      result = result.filter(
-        (q) =>
-          q.quoteNumber.toLowerCase().includes(query) ||
-          q.title.toLowerCase().includes(query) ||
-          q.customer?.companyName.toLowerCase().includes(query) ||
-          q.customer?.contactName.toLowerCase().includes(query)
-      );
-    }
-
-    if (filters.status?.length) {
-      result = result.filter((q) => filters.status?.includes(q.status));
-    }
-
-    if (filters.dateFrom) {
-      result = result.filter((q) => new Date(q.createdAt) >= new Date(filters.dateFrom));
-    }
-
-    if (filters.dateTo) {
-      result = result.filter((q) => new Date(q.createdAt) <= new Date(filters.dateTo));
-    }
-
-    const minVal = filters.minValue ? parseFloat(filters.minValue) : undefined;
-    const maxVal = filters.maxValue ? parseFloat(filters.maxValue) : undefined;
-
-    if (minVal !== undefined && !isNaN(minVal)) {
-      result = result.filter((q) => q.total >= minVal);
-    }
-
-    if (maxVal !== undefined && !isNaN(maxVal)) {
-      result = result.filter((q) => q.total <= maxVal);
-    }
-
-    // Sort
-    result.sort((a, b) => {
-      let comparison = 0;
-      switch (filters.sortBy) {
-        case 'created':
-          comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-          break;
-        case 'updated':
-          comparison = new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
-          break;
-        case 'total':
-          comparison = a.total - b.total;
-          break;
-        case 'expiry':
-          comparison = (a.expiresAt?.getTime() || 0) - (b.expiresAt?.getTime() || 0);
-          break;
-      }
-      return filters.sortOrder === 'asc' ? comparison : -comparison;
-    });
-
-    return result;
-  }, [quotes, filters]);
+  const { deleteQuote, deleteQuotes, isDeleting } = useDeleteQuote();
+  const { updateStatus, isUpdating: isUpdatingStatus } = useQuoteStatusTransition();
 
   // Handlers
   const handleFilterChange = useCallback((newFilters: FilterState) => {
@@ -738,26 +389,43 @@ export default function QuotesPage() {
   }, []);
 
   const handleConfirmDelete = useCallback(async () => {
-    if (quoteToDelete) {
-      await deleteQuote.mutateAsync(quoteToDelete.id);
-    } else if (selectedIds.length > 0) {
-      await bulkDeleteQuotes.mutateAsync(selectedIds);
+    try {
+      if (quoteToDelete) {
+        await deleteQuote(quoteToDelete.id);
+        success('Quote deleted successfully');
+      } else if (selectedIds.length > 0) {
+        await deleteQuotes(selectedIds);
+        success(`Deleted ${selectedIds.length} quotes`);
+        setSelectedIds([]);
+      }
+    } catch (err) {
+      showError('Failed to delete quote', err instanceof Error ? err.message : undefined);
     }
     setShowDeleteModal(false);
     setQuoteToDelete(null);
-  }, [quoteToDelete, selectedIds, deleteQuote, bulkDeleteQuotes]);
+  }, [quoteToDelete, selectedIds, deleteQuote, deleteQuotes, success, showError]);
 
-  const handleSendQuote = useCallback((quote: QuoteWithCustomer) => {
-    updateQuoteStatus.mutateAsync({ id: quote.id, status: QuoteStatus.SENT });
-  }, [updateQuoteStatus]);
+  const handleSendQuote = useCallback(async (quote: QuoteWithCustomer) => {
+    try {
+      await updateStatus(quote.id, QuoteStatus.SENT);
+      success('Quote status updated');
+    } catch (err) {
+      showError('Failed to update status', err instanceof Error ? err.message : undefined);
+    }
+  }, [updateStatus, success, showError]);
 
   const handleStatusChange = useCallback(async (status: QuoteStatus, notes?: string) => {
     if (quoteToUpdate) {
-      await updateQuoteStatus.mutateAsync({ id: quoteToUpdate.id, status, notes });
+      try {
+        await updateStatus(quoteToUpdate.id, status, notes);
+        success('Quote status updated');
+      } catch (err) {
+        showError('Failed to update status', err instanceof Error ? err.message : undefined);
+      }
     }
     setShowStatusModal(false);
     setQuoteToUpdate(null);
-  }, [quoteToUpdate, updateQuoteStatus]);
+  }, [quoteToUpdate, updateStatus, success, showError]);
 
   const handleExport = useCallback(() => {
     // Generate CSV
@@ -792,9 +460,15 @@ export default function QuotesPage() {
     const total = filteredQuotes.length;
     const accepted = filteredQuotes.filter((q) => q.status === QuoteStatus.ACCEPTED).length;
     const pending = filteredQuotes.filter((q) => q.status === QuoteStatus.PENDING || q.status === QuoteStatus.SENT).length;
-    const totalValue = filteredQuotes.reduce((sum, q) => sum + q.total, 0);
+    // Quotes are priced in different currencies, so the total is in the base currency
+    const totalValue = filteredQuotes.reduce((sum, q) => sum + (toBaseCurrency({
+      total: q.total,
+      currency: q.terms?.currency,
+      base_currency: q.baseCurrency,
+      exchange_rate: q.exchangeRate,
+    }, { baseCurrency, rates }) ?? 0), 0);
     return { total, accepted, pending, totalValue };
-  }, [filteredQuotes]);
+  }, [filteredQuotes, baseCurrency, rates]);
 
   return (
     <DashboardLayout activeNavItem="quotes">
@@ -823,7 +497,7 @@ export default function QuotesPage() {
       >
         {[
           { label: 'Total Quotes', value: stats.total, color: 'text-slate-200' },
-          { label: 'Total Value', value: formatCurrency(stats.totalValue), color: 'text-emerald-400' },
+          { label: 'Total Value', value: formatCurrency(stats.totalValue, baseCurrency), color: 'text-emerald-400' },
           { label: 'Accepted', value: stats.accepted, color: 'text-indigo-400' },
           { label: 'Pending', value: stats.pending, color: 'text-amber-400' },
         ].map((stat) => (
@@ -861,7 +535,7 @@ export default function QuotesPage() {
 
       {/* Results Count */}
       <div className="mb-4 text-sm text-slate-400">
-        Showing {filteredQuotes.length} of {quotes.length} quotes
+        Showing {filteredQuotes.length} of {pagination.total} quotes
         {filters.status?.length > 0 && ` • Filtered by status: ${filters.status.join(', ')}`}
       </div>
 
@@ -976,7 +650,7 @@ export default function QuotesPage() {
               setShowDeleteModal(false);
               setQuoteToDelete(null);
             }}
-            disabled={deleteQuote.isLoading || bulkDeleteQuotes.isLoading}
+            disabled={isDeleting}
           >
             Cancel
           </Button>
@@ -984,7 +658,7 @@ export default function QuotesPage() {
             variant="custom"
             className="bg-red-600 hover:bg-red-700 text-white"
             onClick={handleConfirmDelete}
-            isLoading={deleteQuote.isLoading || bulkDeleteQuotes.isLoading}
+            isLoading={isDeleting}
           >
             {quoteToDelete ? 'Delete Quote' : `Delete ${selectedIds.length} Quotes`}
           </Button>
@@ -1000,8 +674,17 @@ export default function QuotesPage() {
         }}
         quote={quoteToUpdate}
         onStatusChange={handleStatusChange}
-        isLoading={updateQuoteStatus.isLoading}
+        isLoading={isUpdatingStatus}
       />
     </DashboardLayout>
   );
 }
+
+// useSearchParams needs a Suspense boundary for the page to prerender
+export default function QuotesPage() {
+  return (
+    <Suspense>
+      <QuotesPageContent />
+    </Suspense>
+  );
+}
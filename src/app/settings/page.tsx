@@ -5,7 +5,8 @@
 
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { motion } from 'framer-motion';
 import {
   BuildingOfficeIcon,
@@ -15,83 +16,86 @@ import {
   PaintBrushIcon,
   DocumentTextIcon,
   CheckCircleIcon,
+  UserGroupIcon,
+  ReceiptPercentIcon,
 } from '@heroicons/react/24/outline';
 import { DashboardLayout, PageHeader } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader } from '@/components/ui/Card';
+import { useToastHelpers } from '@/components/ui/Toast';
+import { TeamMembers } from '@/components/settings/TeamMembers';
+import { ExchangeRates } from '@/components/settings/ExchangeRates';
+import { TaxRules } from '@/components/settings/TaxRules';
+import { useMerchantSettings, useSaveMerchantSettings } from '@/hooks/useSettings';
+import { DEFAULT_MERCHANT_SETTINGS } from '@/lib/settings';
+import { getCurrencyLabel, listCurrencyCodes } from '@/lib/exchangeRates';
+import type { ApprovalThresholds, CompanyInfo, EmailSettings, QuoteSettings } from '@/types/quote';
 
-type SettingsTab = 'company' | 'email' | 'quotes' | 'notifications' | 'appearance';
+type SettingsTab = 'company' | 'email' | 'quotes' | 'tax' | 'currencies' | 'team' | 'notifications' | 'appearance';
 
-interface CompanySettings {
-  name: string;
-  address: string;
-  phone: string;
-  email: string;
-  website: string;
-  taxId: string;
-}
-
-interface EmailSettings {
-  senderName: string;
-  senderEmail: string;
-  replyToEmail: string;
-  emailFooter: string;
-}
+// Tabs that save as they go instead of through Save Changes
+const SELF_SAVING_TABS: SettingsTab[] = ['tax', 'currencies', 'team'];
 
-interface QuoteSettings {
-  defaultCurrency: string;
-  defaultValidityPeriod: number;
-  defaultPaymentTerms: string;
-  taxRate: number;
-  enableAutoReminders: boolean;
-}
-
-export default function SettingsPage() {
+function SettingsPageContent() {
+  const searchParams = useSearchParams();
+  const shopId = searchParams.get('shop') || process.env.NEXT_PUBLIC_SHOP_DOMAIN || undefined;
+  const { error: showError } = useToastHelpers();
+  const { settings, isLoading } = useMerchantSettings(shopId);
+  const { saveSettings, isSaving } = useSaveMerchantSettings(shopId);
   const [activeTab, setActiveTab] = useState<SettingsTab>('company');
-  const [isSaving, setIsSaving] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
 
-  const [companySettings, setCompanySettings] = useState<CompanySettings>({
-    name: 'Acme Corporation',
-    address: '123 Business Ave, Suite 100\nNew York, NY 10001',
-    phone: '+1 (555) 123-4567',
-    email: 'quotes@acme.com',
-    website: 'https://acme.com',
-    taxId: '12-3456789',
-  });
-
-  const [emailSettings, setEmailSettings] = useState<EmailSettings>({
-    senderName: 'Acme Quotes',
-    senderEmail: 'quotes@acme.com',
-    replyToEmail: 'support@acme.com',
-    emailFooter: 'Thank you for your business!\n\nAcme Corporation',
-  });
-
-  const [quoteSettings, setQuoteSettings] = useState<QuoteSettings>({
-    defaultCurrency: 'USD',
-    defaultValidityPeriod: 30,
-    defaultPaymentTerms: 'Net 30',
-    taxRate: 10,
-    enableAutoReminders: true,
-  });
+  const [companySettings, setCompanySettings] = useState<CompanyInfo>(DEFAULT_MERCHANT_SETTINGS.company);
+  const [emailSettings, setEmailSettings] = useState<EmailSettings>(DEFAULT_MERCHANT_SETTINGS.email);
+  const [quoteSettings, setQuoteSettings] = useState<QuoteSettings>(DEFAULT_MERCHANT_SETTINGS.quotes);
+  const [approvalSettings, setApprovalSettings] = useState<ApprovalThresholds>(DEFAULT_MERCHANT_SETTINGS.approvals);
+
+  // Start editing from the stored settings once they load (and again after a save)
+  const [loadedSettings, setLoadedSettings] = useState(settings);
+  if (settings !== loadedSettings) {
+    setLoadedSettings(settings);
+    if (settings) {
+      setCompanySettings(settings.company);
+      setEmailSettings(settings.email);
+      setQuoteSettings(settings.quotes);
+      setApprovalSettings(settings.approvals);
+    }
+  }
 
   const tabs: { id: SettingsTab; label: string; icon: React.ElementType }[] = [
     { id: 'company', label: 'Company', icon: BuildingOfficeIcon },
     { id: 'email', label: 'Email', icon: EnvelopeIcon },
     { id: 'quotes', label: 'Quotes', icon: DocumentTextIcon },
+    { id: 'tax', label: 'Tax', icon: ReceiptPercentIcon },
+    { id: 'currencies', label: 'Currencies', icon: CurrencyDollarIcon },
+    { id: 'team', label: 'Team', icon: UserGroupIcon },
     { id: 'notifications', label: 'Notifications', icon: BellIcon },
     { id: 'appearance', label: 'Appearance', icon: PaintBrushIcon },
   ];
 
   const handleSave = async () => {
-    setIsSaving(true);
-    
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    
-    setIsSaving(false);
+    try {
+      await saveSettings({
+        company: companySettings,
+        email: emailSettings,
+        quotes: {
+          defaultCurrency: quoteSettings.defaultCurrency,
+          baseCurrency: quoteSettings.baseCurrency,
+          defaultValidityPeriod: quoteSettings.defaultValidityPeriod,
+          defaultPaymentTerms: quoteSettings.defaultPaymentTerms,
+          taxRate: quoteSettings.taxRate,
+          pricesIncludeTax: quoteSettings.pricesIncludeTax,
+          enableAutoReminders: quoteSettings.enableAutoReminders,
+        },
+        approvals: approvalSettings,
+      });
+    } catch (error) {
+      showError('Failed to save settings', error instanceof Error ? error.message : 'Unknown error');
+      return;
+    }
+
     setShowSuccess(true);
-    
+
     setTimeout(() => {
       setShowSuccess(false);
     }, 3000);
@@ -162,7 +166,7 @@ export default function SettingsPage() {
           </label>
           <input
             type="url"
-            value={companySettings.website}
+            value={companySettings.website ?? ''}
             onChange={(e) =>
               setCompanySettings({ ...companySettings, website: e.target.value })
             }
@@ -176,7 +180,7 @@ export default function SettingsPage() {
           </label>
           <input
             type="text"
-            value={companySettings.taxId}
+            value={companySettings.taxId ?? ''}
             onChange={(e) =>
               setCompanySettings({ ...companySettings, taxId: e.target.value })
             }
@@ -263,14 +267,32 @@ export default function SettingsPage() {
             }
             className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
           >
-            <option value="USD">USD - US Dollar</option>
-            <option value="EUR">EUR - Euro</option>
-            <option value="GBP">GBP - British Pound</option>
-            <option value="CAD">CAD - Canadian Dollar</option>
-            <option value="AUD">AUD - Australian Dollar</option>
+            {listCurrencyCodes().map((code) => (
+              <option key={code} value={code}>{getCurrencyLabel(code)}</option>
+            ))}
           </select>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Base Currency
+          </label>
+          <select
+            value={quoteSettings.baseCurrency}
+            onChange={(e) =>
+              setQuoteSettings({ ...quoteSettings, baseCurrency: e.target.value })
+            }
+            className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            {listCurrencyCodes().map((code) => (
+              <option key={code} value={code}>{getCurrencyLabel(code)}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-slate-500">
+            Analytics report in this currency; exchange rates are quoted against it
+          </p>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-slate-300 mb-2">
             Default Validity Period (days)
@@ -316,6 +338,7 @@ export default function SettingsPage() {
           <label className="block text-sm font-medium text-slate-300 mb-2">
             Default Tax Rate (%)
           </label>
+          <p className="text-xs text-slate-500 mb-2">For addresses none of the rules under Tax cover</p>
           <input
             type="number"
             min="0"
@@ -332,6 +355,23 @@ export default function SettingsPage() {
           />
         </div>
 
+        <div className="md:col-span-2">
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={quoteSettings.pricesIncludeTax}
+              onChange={(e) =>
+                setQuoteSettings({
+                  ...quoteSettings,
+                  pricesIncludeTax: e.target.checked,
+                })
+              }
+              className="w-5 h-5 rounded border-slate-600 bg-slate-800 text-indigo-500 focus:ring-indigo-500"
+            />
+            <span className="text-slate-300">Prices include tax</span>
+          </label>
+        </div>
+
         <div className="md:col-span-2">
           <label className="flex items-center gap-3 cursor-pointer">
             <input
@@ -349,6 +389,45 @@ export default function SettingsPage() {
           </label>
         </div>
       </div>
+
+      <div className="pt-6 border-t border-slate-800">
+        <h3 className="text-sm font-semibold text-slate-200">Discount Approvals</h3>
+        <p className="text-sm text-slate-500 mt-1 mb-4">
+          Quotes past any of these limits wait for an owner or admin to approve them before they are sent.
+          Leave a limit empty to turn it off.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {([
+            { key: 'maxLineDiscount', label: 'Max Line Discount (%)' },
+            { key: 'maxTotalDiscount', label: 'Max Total Discount (%)' },
+            { key: 'minMargin', label: 'Minimum Margin (%)' },
+          ] as const).map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                {label}
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                placeholder="No limit"
+                value={approvalSettings[key] ?? ''}
+                onChange={(e) =>
+                  setApprovalSettings({
+                    ...approvalSettings,
+                    [key]: e.target.value === '' ? null : parseFloat(e.target.value),
+                  })
+                }
+                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-3">
+          Margin is measured against Shopify&apos;s cost per item, for the items that have one.
+        </p>
+      </div>
     </div>
   );
 
@@ -403,6 +482,16 @@ export default function SettingsPage() {
                 {activeTab === 'company' && renderCompanySettings()}
                 {activeTab === 'email' && renderEmailSettings()}
                 {activeTab === 'quotes' && renderQuoteSettings()}
+                {activeTab === 'tax' && (
+                  <TaxRules shopId={shopId} defaultRate={settings?.quotes.taxRate ?? DEFAULT_MERCHANT_SETTINGS.quotes.taxRate} />
+                )}
+                {activeTab === 'currencies' && (
+                  <ExchangeRates
+                    shopId={shopId}
+                    baseCurrency={settings?.quotes.baseCurrency ?? DEFAULT_MERCHANT_SETTINGS.quotes.baseCurrency}
+                  />
+                )}
+                {activeTab === 'team' && <TeamMembers />}
                 {activeTab === 'notifications' && (
                   <p className="text-slate-500">Notification settings coming soon.</p>
                 )}
@@ -411,24 +500,26 @@ export default function SettingsPage() {
                 )}
               </motion.div>
 
-              {/* Save Button */}
-              <div className="mt-8 pt-6 border-t border-slate-800 flex items-center justify-between">
-                {showSuccess ? (
-                  <motion.div
-                    initial={{ opacity: 0, scale: 0.9 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    className="flex items-center gap-2 text-emerald-400"
-                  >
-                    <CheckCircleIcon className="w-5 h-5" />
-                    <span>Settings saved successfully!</span>
-                  </motion.div>
-                ) : (
-                  <div />
-                )}
-                <Button onClick={handleSave} isLoading={isSaving}>
-                  Save Changes
-                </Button>
-              </div>
+              {/* Save Button (members and rates are saved as they are edited) */}
+              {!SELF_SAVING_TABS.includes(activeTab) && (
+                <div className="mt-8 pt-6 border-t border-slate-800 flex items-center justify-between">
+                  {showSuccess ? (
+                    <motion.div
+                      initial={{ opacity: 0, scale: 0.9 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      className="flex items-center gap-2 text-emerald-400"
+                    >
+                      <CheckCircleIcon className="w-5 h-5" />
+                      <span>Settings saved successfully!</span>
+                    </motion.div>
+                  ) : (
+                    <div />
+                  )}
+                  <Button onClick={handleSave} isLoading={isSaving} disabled={!shopId || isLoading}>
+                    Save Changes
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -436,3 +527,12 @@ export default function SettingsPage() {
     </DashboardLayout>
   );
 }
+
+// useSearchParams needs a Suspense boundary for the page to prerender
+export default function SettingsPage() {
+  return (
+    <Suspense>
+      <SettingsPageContent />
+    </Suspense>
+  );
+}
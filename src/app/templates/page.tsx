@@ -6,13 +6,13 @@
 'use client';
 
 import React, { useState } from 'react';
+import Link from 'next/link';
 import { motion } from 'framer-motion';
 import {
   PlusIcon,
   DocumentDuplicateIcon,
   PencilIcon,
   TrashIcon,
-  CheckCircleIcon,
   StarIcon,
 } from '@heroicons/react/24/outline';
 import { StarIcon as StarIconSolid } from '@heroicons/react/24/solid';
@@ -20,83 +20,57 @@ import { DashboardLayout, PageHeader } from '@/components/layout/DashboardLayout
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  isDefault: boolean;
-  lastUsed: string;
-  usageCount: number;
-  preview: string;
-}
-
-const mockTemplates: Template[] = [
-  {
-    id: 'tmpl_1',
-    name: 'Standard B2B Quote',
-    description: 'Professional template for B2B quotes with terms and conditions.',
-    category: 'Standard',
-    isDefault: true,
-    lastUsed: '2026-02-03',
-    usageCount: 45,
-    preview: 'Standard',
-  },
-  {
-    id: 'tmpl_2',
-    name: 'Product Catalog',
-    description: 'Showcase multiple products with images and descriptions.',
-    category: 'Product',
-    isDefault: false,
-    lastUsed: '2026-02-01',
-    usageCount: 23,
-    preview: 'Catalog',
-  },
-  {
-    id: 'tmpl_3',
-    name: 'Service Quote',
-    description: 'Ideal for service-based businesses with hourly rates.',
-    category: 'Service',
-    isDefault: false,
-    lastUsed: '2026-01-28',
-    usageCount: 18,
-    preview: 'Service',
-  },
-  {
-    id: 'tmpl_4',
-    name: 'Subscription Quote',
-    description: 'Recurring billing with subscription terms.',
-    category: 'Subscription',
-    isDefault: false,
-    lastUsed: '2026-01-25',
-    usageCount: 12,
-    preview: 'Subscription',
-  },
-];
+import { useToastHelpers } from '@/components/ui/Toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { TemplateEditor } from '@/components/templates/TemplateEditor';
+import { pdfTemplateMetadata } from '@/components/pdf/PDFTemplates';
+import { useQuoteTemplates } from '@/hooks/useTemplates';
+import { TEMPLATE_CATEGORIES, type QuoteTemplateInput } from '@/lib/templates';
+import { formatDate } from '@/lib/utils';
+import type { QuoteTemplate } from '@/types/quote';
 
 export default function TemplatesPage() {
-  const [templates, setTemplates] = useState<Template[]>(mockTemplates);
+  const {
+    templates,
+    isLoading,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    setDefaultTemplate,
+    duplicateTemplate,
+  } = useQuoteTemplates();
+  const { can } = useAuth();
+  const { success, error: showError } = useToastHelpers();
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [editor, setEditor] = useState<{ template: QuoteTemplate | null } | null>(null);
 
-  const categories = ['all', 'Standard', 'Product', 'Service', 'Subscription'];
+  const canManage = can('quotes:write');
+  const categories = ['all', ...TEMPLATE_CATEGORIES];
 
   const filteredTemplates =
     selectedCategory === 'all'
       ? templates
       : templates.filter((t) => t.category === selectedCategory);
 
-  const handleSetDefault = (templateId: string) => {
-    setTemplates((prev) =>
-      prev.map((t) => ({
-        ...t,
-        isDefault: t.id === templateId,
-      }))
-    );
+  // Runs an action and reports its outcome as a toast
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    try {
+      await action();
+      success(message);
+    } catch (err) {
+      showError('Something went wrong', err instanceof Error ? err.message : 'Unknown error');
+    }
   };
 
-  const handleDelete = (templateId: string) => {
-    setTemplates((prev) => prev.filter((t) => t.id !== templateId));
+  const handleSave = async (input: QuoteTemplateInput) => {
+    if (editor?.template) {
+      await updateTemplate(editor.template.id, input);
+      success('Template saved');
+    } else {
+      await createTemplate(input);
+      success('Template created');
+    }
+    setEditor(null);
   };
 
   return (
@@ -105,10 +79,12 @@ export default function TemplatesPage() {
         title="Quote Templates"
         subtitle="Create and manage reusable quote templates."
         actions={
-          <Button>
-            <PlusIcon className="w-4 h-4 mr-2" />
-            New Template
-          </Button>
+          canManage && (
+            <Button onClick={() => setEditor({ template: null })}>
+              <PlusIcon className="w-4 h-4 mr-2" />
+              New Template
+            </Button>
+          )
         }
       />
 
@@ -158,63 +134,73 @@ export default function TemplatesPage() {
                   <Badge variant="default">{template.category}</Badge>
                 </div>
                 
-                <div className="flex gap-1">
-                  <button
-                    onClick={() => handleSetDefault(template.id)}
-                    className={`
-                      p-2 rounded-lg transition-colors
-                      ${template.isDefault
-                        ? 'text-amber-400 bg-amber-400/10'
-                        : 'text-slate-500 hover:text-amber-400 hover:bg-amber-400/10'
-                      }
-                    `}
-                    title={template.isDefault ? 'Default template' : 'Set as default'}
-                  >
-                    <StarIcon className="w-5 h-5" />
-                  </button>
-                  <button
-                    className="p-2 text-slate-500 hover:text-indigo-400 hover:bg-indigo-400/10 rounded-lg transition-colors"
-                    title="Edit template"
-                  >
-                    <PencilIcon className="w-5 h-5" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(template.id)}
-                    className="p-2 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
-                    title="Delete template"
-                  >
-                    <TrashIcon className="w-5 h-5" />
-                  </button>
-                </div>
+                {canManage && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => !template.isDefault && run(() => setDefaultTemplate(template.id), `${template.name} is now the default`)}
+                      className={`
+                        p-2 rounded-lg transition-colors
+                        ${template.isDefault
+                          ? 'text-amber-400 bg-amber-400/10'
+                          : 'text-slate-500 hover:text-amber-400 hover:bg-amber-400/10'
+                        }
+                      `}
+                      title={template.isDefault ? 'Default template' : 'Set as default'}
+                    >
+                      <StarIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => setEditor({ template })}
+                      className="p-2 text-slate-500 hover:text-indigo-400 hover:bg-indigo-400/10 rounded-lg transition-colors"
+                      title="Edit template"
+                    >
+                      <PencilIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => run(() => duplicateTemplate(template.id), 'Template duplicated')}
+                      className="p-2 text-slate-500 hover:text-indigo-400 hover:bg-indigo-400/10 rounded-lg transition-colors"
+                      title="Duplicate template"
+                    >
+                      <DocumentDuplicateIcon className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => run(() => deleteTemplate(template.id), 'Template deleted')}
+                      className="p-2 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                      title="Delete template"
+                    >
+                      <TrashIcon className="w-5 h-5" />
+                    </button>
+                  </div>
+                )}
               </CardHeader>
 
               <CardContent className="flex-1 flex flex-col">
                 <p className="text-slate-400 mb-4">{template.description}</p>
 
-                {/* Preview Box */}
-                <div className="flex-1 bg-slate-800 rounded-lg p-4 mb-4 border border-slate-700">
-                  <div className="h-32 flex items-center justify-center text-slate-500">
-                    <div className="text-center">
-                      <DocumentDuplicateIcon className="w-12 h-12 mx-auto mb-2 opacity-50" />
-                      <p className="text-sm">{template.preview} Template Preview</p>
-                    </div>
-                  </div>
+                {/* Summary */}
+                <div className="flex-1 bg-slate-800 rounded-lg p-4 mb-4 border border-slate-700 text-sm text-slate-400 space-y-1">
+                  <p>
+                    {template.lineItems.length} preset line item{template.lineItems.length === 1 ? '' : 's'}
+                  </p>
+                  <p>Payment terms: {template.termsDefault.paymentTerms || 'shop default'}</p>
+                  <p>
+                    PDF layout: {pdfTemplateMetadata.find((layout) => layout.id === template.pdfTemplate)?.name ?? template.pdfTemplate}
+                  </p>
                 </div>
 
                 {/* Stats */}
                 <div className="flex items-center justify-between text-sm text-slate-500 pt-4 border-t border-slate-800">
-                  <span>Used {template.usageCount} times</span>
-                  <span>Last used {template.lastUsed}</span>
+                  <span>Used {template.usageCount} {template.usageCount === 1 ? 'time' : 'times'}</span>
+                  <span>{template.lastUsedAt ? `Last used ${formatDate(template.lastUsedAt)}` : 'Never used'}</span>
                 </div>
 
                 {/* Actions */}
                 <div className="mt-4 pt-4 border-t border-slate-800 flex gap-2">
-                  <Button variant="secondary" size="sm" className="flex-1">
-                    Preview
-                  </Button>
-                  <Button size="sm" className="flex-1">
-                    Use Template
-                  </Button>
+                  <Link href={`/quotes/new?template=${template.id}`} className="flex-1">
+                    <Button size="sm" className="w-full">
+                      Use Template
+                    </Button>
+                  </Link>
                 </div>
               </CardContent>
             </Card>
@@ -223,7 +209,7 @@ export default function TemplatesPage() {
       </div>
 
       {/* Empty State */}
-      {filteredTemplates.length === 0 && (
+      {!isLoading && filteredTemplates.length === 0 && (
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
@@ -234,6 +220,15 @@ export default function TemplatesPage() {
           <p className="text-slate-500">Create your first template to get started.</p>
         </motion.div>
       )}
+
+      {editor && (
+        <TemplateEditor
+          isOpen
+          template={editor.template}
+          onClose={() => setEditor(null)}
+          onSave={handleSave}
+        />
+      )}
     </DashboardLayout>
   );
 }
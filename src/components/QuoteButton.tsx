@@ -1,7 +1,6 @@
 'use client';
 
 import { useState } from 'react';
-import { createQuote } from '@/lib/supabase';
 
 interface QuoteButtonProps {
   productId: string;
@@ -34,18 +33,26 @@ export function QuoteButton({ productId, productTitle, shopId, settings }: Quote
     setIsSubmitting(true);
 
     try {
-      await createQuote({
-        shop_id: shopId,
-        product_id: productId,
-        product_title: productTitle,
-        customer_email: formData.customer_email,
-        customer_name: formData.customer_name || null,
-        customer_phone: formData.customer_phone || null,
-        quantity: formData.quantity ? parseInt(formData.quantity) : null,
-        message: formData.message || null,
-        status: 'pending',
+      // Shoppers have no session; the API route writes the request for them
+      const response = await fetch('/api/quotes/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          shop_id: shopId,
+          product_id: productId,
+          product_title: productTitle,
+          customer_email: formData.customer_email,
+          customer_name: formData.customer_name || null,
+          customer_phone: formData.customer_phone || null,
+          quantity: formData.quantity ? parseInt(formData.quantity) : null,
+          message: formData.message || null,
+        }),
       });
 
+      if (!response.ok) {
+        throw new Error(`Quote request failed with status ${response.status}`);
+      }
+
       setIsSuccess(true);
       setTimeout(() => {
         setIsOpen(false);
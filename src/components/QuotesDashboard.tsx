@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Quote, getQuotes, updateQuoteStatus } from '@/lib/supabase';
+import { Quote, getQuotes } from '@/lib/supabase';
+import { QuoteStatus } from '@/types/quote';
 
 interface QuotesDashboardProps {
   shopId: string;
@@ -11,7 +12,7 @@ export function QuotesDashboard({ shopId }: QuotesDashboardProps) {
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'quoted' | 'accepted' | 'declined'>('all');
+  const [filter, setFilter] = useState<'all' | QuoteStatus.PENDING | QuoteStatus.SENT | QuoteStatus.ACCEPTED | QuoteStatus.REJECTED>('all');
 
   useEffect(() => {
     loadQuotes();
@@ -34,14 +35,23 @@ export function QuotesDashboard({ shopId }: QuotesDashboardProps) {
 
   const stats = {
     total: quotes.length,
-    pending: quotes.filter(q => q.status === 'pending').length,
-    quoted: quotes.filter(q => q.status === 'quoted').length,
-    accepted: quotes.filter(q => q.status === 'accepted').length,
+    pending: quotes.filter(q => q.status === QuoteStatus.PENDING).length,
+    quoted: quotes.filter(q => q.status === QuoteStatus.SENT).length,
+    accepted: quotes.filter(q => q.status === QuoteStatus.ACCEPTED).length,
   };
 
   async function handleStatusUpdate(quoteId: string, status: Quote['status']) {
     try {
-      await updateQuoteStatus(quoteId, status);
+      // The status route checks the transition, the member's role and the approval limits
+      const response = await fetch(`/api/quotes/${quoteId}/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to update quote status');
+      }
       await loadQuotes();
       setSelectedQuote(null);
     } catch (error) {
@@ -77,7 +87,7 @@ export function QuotesDashboard({ shopId }: QuotesDashboardProps) {
 
       {/* Filters */}
       <div className="flex gap-2 mb-6">
-        {(['all', 'pending', 'quoted', 'accepted', 'declined'] as const).map((f) => (
+        {(['all', QuoteStatus.PENDING, QuoteStatus.SENT, QuoteStatus.ACCEPTED, QuoteStatus.REJECTED] as const).map((f) => (
           <button
             key={f}
             onClick={() => setFilter(f)}
@@ -127,9 +137,9 @@ export function QuotesDashboard({ shopId }: QuotesDashboardProps) {
                   </td>
                   <td className="px-6 py-4">
                     <span className={`px-2 py-1 text-xs rounded-full capitalize ${
-                      quote.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                      quote.status === 'quoted' ? 'bg-blue-100 text-blue-800' :
-                      quote.status === 'accepted' ? 'bg-green-100 text-green-800' :
+                      quote.status === QuoteStatus.PENDING ? 'bg-yellow-100 text-yellow-800' :
+                      quote.status === QuoteStatus.SENT ? 'bg-blue-100 text-blue-800' :
+                      quote.status === QuoteStatus.ACCEPTED ? 'bg-green-100 text-green-800' :
                       'bg-red-100 text-red-800'
                     }`}>
                       {quote.status}
@@ -207,25 +217,25 @@ export function QuotesDashboard({ shopId }: QuotesDashboardProps) {
               <div className="pt-4 border-t">
                 <label className="text-sm font-medium text-gray-500">Update Status</label>
                 <div className="flex gap-2 mt-2">
-                  {selectedQuote.status !== 'quoted' && (
+                  {selectedQuote.status !== QuoteStatus.SENT && (
                     <button
-                      onClick={() => handleStatusUpdate(selectedQuote.id, 'quoted')}
+                      onClick={() => handleStatusUpdate(selectedQuote.id, QuoteStatus.SENT)}
                       className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
                     >
                       Mark Quoted
                     </button>
                   )}
-                  {selectedQuote.status !== 'accepted' && (
+                  {selectedQuote.status !== QuoteStatus.ACCEPTED && (
                     <button
-                      onClick={() => handleStatusUpdate(selectedQuote.id, 'accepted')}
+                      onClick={() => handleStatusUpdate(selectedQuote.id, QuoteStatus.ACCEPTED)}
                       className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
                     >
                       Mark Accepted
                     </button>
                   )}
-                  {selectedQuote.status !== 'declined' && (
+                  {selectedQuote.status !== QuoteStatus.REJECTED && (
                     <button
-                      onClick={() => handleStatusUpdate(selectedQuote.id, 'declined')}
+                      onClick={() => handleStatusUpdate(selectedQuote.id, QuoteStatus.REJECTED)}
                       className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
                     >
                       Mark Declined
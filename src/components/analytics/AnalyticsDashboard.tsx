@@ -59,6 +59,8 @@ export interface AnalyticsDashboardProps {
   isLoading?: boolean;
   error?: Error | null;
   className?: string;
+  /** The shop's base currency, which every amount is reported in */
+  currency?: string;
   /** Callback when date range changes */
   onDateRangeChange?: (range: DateRange) => void;
   /** Callback to refresh data */
@@ -235,6 +237,7 @@ export function AnalyticsDashboard({
   isLoading = false,
   error = null,
   className,
+  currency = 'USD',
   onDateRangeChange,
   onRefresh,
   onExport,
@@ -257,8 +260,9 @@ export function AnalyticsDashboard({
       quoteChange: data.stats.periodChange?.totalQuotes || 0,
       revenueChange: data.stats.periodChange?.totalRevenue || 0,
       conversionChange: data.stats.periodChange?.conversionRate || 0,
+      currency,
     };
-  }, [data.stats]);
+  }, [data.stats, currency]);
 
   const stats = useDashboardStats(transformedStats);
 
@@ -410,6 +414,7 @@ export function AnalyticsDashboard({
             <RevenueChart 
             data={data.revenueData.map(d => ({ ...d, month: d.date }))} 
             isLoading={isLoading} 
+            currency={currency}
           />
             <ConversionChart data={data.conversionData} isLoading={isLoading} />
           </motion.div>
@@ -421,8 +426,8 @@ export function AnalyticsDashboard({
             transition={{ delay: 0.2, duration: 0.4 }}
             className="grid grid-cols-1 lg:grid-cols-2 gap-8"
           >
-            <StatusBreakdown data={data.statusData} isLoading={isLoading} />
-            <TopProducts data={data.topProducts} isLoading={isLoading} />
+            <StatusBreakdown data={data.statusData} isLoading={isLoading} currency={currency} />
+            <TopProducts data={data.topProducts} isLoading={isLoading} currency={currency} />
           </motion.div>
         </>
       )}
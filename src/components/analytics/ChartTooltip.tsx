@@ -7,7 +7,7 @@
 'use client';
 
 import React from 'react';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 
 // ============================================================================
 // Types
@@ -42,18 +42,6 @@ export interface ChartTooltipProps {
 // Helper Functions
 // ============================================================================
 
-/**
- * Format number as currency
- */
-export const formatCurrency = (value: number, currency = 'USD'): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-};
-
 /**
  * Format number with thousands separator
  */
@@ -182,10 +170,11 @@ export function RevenueTooltip({
   active,
   payload,
   label,
-}: Omit<ChartTooltipProps, 'formatter'>) {
+  currency,
+}: Omit<ChartTooltipProps, 'formatter'> & { currency?: string }) {
   const formatter = (value: number, name: string, dataKey: string) => {
     if (dataKey === 'revenue' || dataKey === 'avgValue') {
-      return formatCurrency(value);
+      return formatCurrency(value, currency, { wholeUnits: true });
     }
     return formatNumber(value);
   };
@@ -19,8 +19,8 @@ import {
   Cell,
   ReferenceLine,
 } from 'recharts';
-import { cn } from '@/lib/utils';
-import { ChartTooltip, formatCurrency, formatNumber } from './ChartTooltip';
+import { cn, formatCurrency } from '@/lib/utils';
+import { ChartTooltip, formatNumber } from './ChartTooltip';
 import { EmptyState } from './EmptyState';
 import { CurrencyDollarIcon, ChartBarIcon } from '@heroicons/react/24/outline';
 import type { RevenueDataPoint } from '@/types/quote';
@@ -40,6 +40,8 @@ export interface RevenueChartProps {
   title?: string;
   /** Show average line */
   showAverage?: boolean;
+  /** ISO currency the revenue is reported in */
+  currency?: string;
 }
 
 // ============================================================================
@@ -89,7 +91,8 @@ const RevenueTooltip: React.FC<{
     payload: Record<string, unknown>;
   }>;
   label?: string;
-}> = ({ active, payload, label }) => {
+  currency?: string;
+}> = ({ active, payload, label, currency }) => {
   if (!active || !payload || payload.length === 0) {
     return null;
   }
@@ -105,14 +108,14 @@ const RevenueTooltip: React.FC<{
       title={label}
       formatter={(value, name, dataKey) => {
         if (dataKey === 'revenue' || dataKey === 'avgValue') {
-          return formatCurrency(value);
+          return formatCurrency(value, currency, { wholeUnits: true });
         }
         return formatNumber(value);
       }}
       additionalItems={[
         {
           label: 'Avg per Quote',
-          value: formatCurrency((data as any).avgValue),
+          value: formatCurrency((data as any).avgValue, currency, { wholeUnits: true }),
           color: '#f59e0b',
         },
       ]}
@@ -130,6 +133,7 @@ export function RevenueChart({
   className,
   title = 'Revenue by Month',
   showAverage = true,
+  currency = 'USD',
 }: RevenueChartProps) {
   // Calculate metrics
   const metrics = useMemo(() => {
@@ -221,7 +225,7 @@ export function RevenueChart({
                 transition={{ type: 'spring', stiffness: 200 }}
                 className="text-2xl font-bold text-indigo-400 tabular-nums"
               >
-                {formatCurrency(metrics.totalRevenue)}
+                {formatCurrency(metrics.totalRevenue, currency, { wholeUnits: true })}
               </motion.p>
               <p className="text-sm text-slate-500">{metrics.totalQuotes} quotes</p>
             </div>
@@ -271,10 +275,10 @@ export function RevenueChart({
                   tick={{ fill: '#64748b', fontSize: 12 }}
                   tickLine={false}
                   axisLine={false}
-                  tickFormatter={(value: number) => `$${value / 1000}k`}
+                  tickFormatter={(value: number) => formatCurrency(value, currency, { compact: true })}
                 />
 
-                <Tooltip content={<RevenueTooltip />} />
+                <Tooltip content={<RevenueTooltip currency={currency} />} />
 
                 {showAverage && metrics.averageRevenue > 0 && (
                   <ReferenceLine
@@ -326,7 +330,7 @@ export function RevenueChart({
             <div className="text-center">
               <p className="text-xs text-slate-500 uppercase tracking-wider">Average</p>
               <p className="text-lg font-semibold text-slate-200 mt-1">
-                {formatCurrency(metrics.averageRevenue)}
+                {formatCurrency(metrics.averageRevenue, currency, { wholeUnits: true })}
               </p>
             </div>
             <div className="text-center border-x border-slate-800">
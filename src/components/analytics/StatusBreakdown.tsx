@@ -16,7 +16,7 @@ import {
   Tooltip,
   Legend,
 } from 'recharts';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import type { QuoteStatus, StatusBreakdownData } from '@/types/quote';
 import { QuoteStatusLabels } from '@/types/quote';
 
@@ -27,6 +27,7 @@ import { QuoteStatusLabels } from '@/types/quote';
 const statusColors: Record<QuoteStatus, string> = {
   draft: '#64748b',
   pending: '#f59e0b',
+  pending_approval: '#f97316',
   sent: '#6366f1',
   viewed: '#a855f7',
   accepted: '#10b981',
@@ -39,7 +40,7 @@ const statusColors: Record<QuoteStatus, string> = {
 // Custom Tooltip
 // ============================================================================
 
-const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ payload: StatusBreakdownData }> }) => {
+const CustomTooltip = ({ active, payload, currency }: { active?: boolean; payload?: Array<{ payload: StatusBreakdownData }>; currency?: string }) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload;
     return (
@@ -59,7 +60,7 @@ const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<
           <div className="flex items-center gap-2">
             <span className="text-slate-400">Value:</span>
             <span className="text-slate-200 font-medium">
-              ${data.value.toLocaleString()}
+              {formatCurrency(data.value, currency, { wholeUnits: true })}
             </span>
           </div>
         </div>
@@ -77,9 +78,11 @@ interface StatusBreakdownProps {
   data: StatusBreakdownData[];
   isLoading?: boolean;
   className?: string;
+  /** ISO currency the values are reported in */
+  currency?: string;
 }
 
-export function StatusBreakdown({ data, isLoading = false, className }: StatusBreakdownProps) {
+export function StatusBreakdown({ data, isLoading = false, className, currency = 'USD' }: StatusBreakdownProps) {
   const totalCount = data.reduce((sum, item) => sum + item.count, 0);
   const totalValue = data.reduce((sum, item) => sum + item.value, 0);
 
@@ -132,7 +135,7 @@ export function StatusBreakdown({ data, isLoading = false, className }: StatusBr
                 />
               ))}
             </Pie>
-            <Tooltip content={<CustomTooltip />} />
+            <Tooltip content={<CustomTooltip currency={currency} />} />
             <Legend
               verticalAlign="bottom"
               height={36}
@@ -150,13 +153,13 @@ export function StatusBreakdown({ data, isLoading = false, className }: StatusBr
           <div>
             <p className="text-sm text-slate-500">Total Value</p>
             <p className="text-lg font-semibold text-slate-200">
-              ${totalValue.toLocaleString()}
+              {formatCurrency(totalValue, currency, { wholeUnits: true })}
             </p>
           </div>
           <div>
             <p className="text-sm text-slate-500">Avg Value</p>
             <p className="text-lg font-semibold text-slate-200">
-              ${totalCount > 0 ? Math.round(totalValue / totalCount).toLocaleString() : 0}
+              {formatCurrency(totalCount > 0 ? totalValue / totalCount : 0, currency, { wholeUnits: true })}
             </p>
           </div>
         </div>
@@ -18,7 +18,7 @@ import {
   ResponsiveContainer,
   Cell,
 } from 'recharts';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import { ShoppingBagIcon } from '@heroicons/react/24/outline';
 import type { TopProductData } from '@/types/quote';
 
@@ -26,7 +26,7 @@ import type { TopProductData } from '@/types/quote';
 // Custom Tooltip
 // ============================================================================
 
-const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ payload: TopProductData }> }) => {
+const CustomTooltip = ({ active, payload, currency }: { active?: boolean; payload?: Array<{ payload: TopProductData }>; currency?: string }) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload;
     return (
@@ -42,7 +42,7 @@ const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<
           <div className="flex items-center gap-2">
             <span className="text-slate-400">Revenue:</span>
             <span className="text-slate-200 font-medium">
-              ${data.revenue.toLocaleString()}
+              {formatCurrency(data.revenue, currency, { wholeUnits: true })}
             </span>
           </div>
         </div>
@@ -60,9 +60,11 @@ interface TopProductsProps {
   data: TopProductData[];
   isLoading?: boolean;
   className?: string;
+  /** ISO currency the values are reported in */
+  currency?: string;
 }
 
-export function TopProducts({ data, isLoading = false, className }: TopProductsProps) {
+export function TopProducts({ data, isLoading = false, className, currency = 'USD' }: TopProductsProps) {
   if (isLoading) {
     return (
       <div className={cn('bg-slate-900/50 border border-slate-800 rounded-2xl p-6 h-[400px] animate-pulse', className)}>
@@ -139,7 +141,7 @@ export function TopProducts({ data, isLoading = false, className }: TopProductsP
                 value.length > 20 ? `${value.substring(0, 20)}...` : value
               }
             />
-            <Tooltip content={<CustomTooltip />} />
+            <Tooltip content={<CustomTooltip currency={currency} />} />
             <Bar dataKey="quantity" name="Quantity" radius={[0, 4, 4, 0]}>
               {sortedData.map((entry, index) => (
                 <Cell
@@ -182,7 +184,7 @@ export function TopProducts({ data, isLoading = false, className }: TopProductsP
                   {product.quantity} quoted
                 </span>
                 <span className="text-sm font-medium text-slate-200">
-                  ${product.revenue.toLocaleString()}
+                  {formatCurrency(product.revenue, currency, { wholeUnits: true })}
                 </span>
               </div>
             </motion.div>
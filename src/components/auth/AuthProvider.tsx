@@ -0,0 +1,170 @@
+/**
+ * Auth Provider
+ * Keeps the Supabase Auth session, the API access-token cookie and the
+ * signed-in user's shop membership in one context, and sends signed-out
+ * users to /login
+ * @module components/auth/AuthProvider
+ */
+
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import useSWR from 'swr';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { ACCESS_TOKEN_COOKIE, hasPermission, type MemberPermission } from '@/lib/permissions';
+import type { ApiResponse, ShopMember } from '@/types/quote';
+
+// ============================================================================
+// Auth Context Types
+// ============================================================================
+
+interface AuthContextType {
+  user: User | null;
+  /** Membership of the current shop; null until loaded or for non-members */
+  member: ShopMember | null;
+  isLoading: boolean;
+  can: (permission: MemberPermission) => boolean;
+  signOut: () => Promise<void>;
+}
+
+// ============================================================================
+// Auth Context
+// ============================================================================
+
+// Components rendered outside the provider (tests, storybook) see a signed-out user
+const AuthContext = createContext<AuthContextType>({
+  user: null,
+  member: null,
+  isLoading: false,
+  can: () => false,
+  signOut: async () => {},
+});
+
+/** Pages that work without signing in */
+const PUBLIC_PATHS = ['/', '/login', '/q'];
+
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some((path) =>
+    path === '/' ? pathname === '/' : pathname === path || pathname.startsWith(`${path}/`)
+  );
+}
+
+/**
+ * Mirror the session's access token into the cookie the API middleware reads
+ */
+function syncAccessTokenCookie(session: Session | null) {
+  const secure = window.location.protocol === 'https:' ? '; secure' : '';
+  if (session) {
+    const maxAge = Math.max(0, (session.expires_at ?? 0) - Math.floor(Date.now() / 1000));
+    document.cookie = `${ACCESS_TOKEN_COOKIE}=${session.access_token}; path=/; max-age=${maxAge}; samesite=lax${secure}`;
+  } else {
+    document.cookie = `${ACCESS_TOKEN_COOKIE}=; path=/; max-age=0; samesite=lax${secure}`;
+  }
+}
+
+/**
+ * Whether the access token already carries the shop in its shop_roles claim,
+ * which row level security reads. Tokens issued before the user joined the
+ * shop lack it until refreshed.
+ */
+function tokenHasShopClaim(accessToken: string, shopId: string): boolean {
+  try {
+    const payload = accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload));
+    return Boolean(claims.shop_roles?.[shopId]);
+  } catch {
+    return false;
+  }
+}
+
+const memberFetcher = async (url: string): Promise<ShopMember | null> => {
+  const response = await fetch(url);
+  const data: ApiResponse<ShopMember> = await response.json();
+  // Signed in but not (yet) part of any shop
+  if (response.status === 403) {
+    return null;
+  }
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to load your membership');
+  }
+  return data.data;
+};
+
+// ============================================================================
+// Auth Provider
+// ============================================================================
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [user, setUser] = useState<User | null>(null);
+  const [isSessionLoading, setIsSessionLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      syncAccessTokenCookie(data.session);
+      setUser(data.session?.user ?? null);
+      setIsSessionLoading(false);
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      syncAccessTokenCookie(session);
+      setUser(session?.user ?? null);
+    });
+
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const { data: member, isLoading: isMemberLoading } = useSWR(
+    user ? ['/api/members/me', user.id] : null,
+    ([url]) => memberFetcher(url),
+    { revalidateOnFocus: false }
+  );
+
+  const isLoading = isSessionLoading || isMemberLoading;
+
+  // A new membership (shop install, accepted invite) only reaches RLS with a fresh token
+  useEffect(() => {
+    if (!member) {
+      return;
+    }
+    supabase.auth.getSession().then(({ data }) => {
+      if (data.session && !tokenHasShopClaim(data.session.access_token, member.shopId)) {
+        supabase.auth.refreshSession();
+      }
+    });
+  }, [member]);
+
+  useEffect(() => {
+    if (!isSessionLoading && !user && pathname && !isPublicPath(pathname)) {
+      router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [isSessionLoading, user, pathname, router]);
+
+  const can = useCallback(
+    (permission: MemberPermission) => hasPermission(member?.role, permission),
+    [member]
+  );
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    router.replace('/login');
+  }, [router]);
+
+  const value = useMemo(
+    () => ({ user, member: member ?? null, isLoading, can, signOut }),
+    [user, member, isLoading, can, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export const useAuth = (): AuthContextType => useContext(AuthContext);
+
+export default AuthProvider;
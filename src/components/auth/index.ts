@@ -0,0 +1,6 @@
+/**
+ * Auth Components Index
+ * @module components/auth
+ */
+
+export { AuthProvider, useAuth } from './AuthProvider';
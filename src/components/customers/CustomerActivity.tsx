@@ -18,10 +18,12 @@ import {
   ChatBubbleLeftIcon,
   PencilIcon,
   ArrowPathIcon,
+  ArrowsPointingInIcon,
+  ArrowUturnLeftIcon,
 } from '@heroicons/react/24/outline';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { ActivityFeedSkeleton } from '@/components/ui/Skeleton';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
 import type { CustomerActivity as CustomerActivityType } from '@/types/quote';
 
@@ -75,6 +77,16 @@ const activityConfig: Record<
     color: 'bg-cyan-500/10 text-cyan-400 border-cyan-500/20',
     label: 'Customer updated',
   },
+  customer_merged: {
+    icon: ArrowsPointingInIcon,
+    color: 'bg-violet-500/10 text-violet-400 border-violet-500/20',
+    label: 'Customers merged',
+  },
+  customer_merge_undone: {
+    icon: ArrowUturnLeftIcon,
+    color: 'bg-slate-500/10 text-slate-400 border-slate-500/20',
+    label: 'Merge undone',
+  },
 };
 
 export const CustomerActivity: React.FC<CustomerActivityProps> = ({
@@ -155,7 +167,7 @@ export const CustomerActivity: React.FC<CustomerActivityProps> = ({
 
                   {activity.amount !== undefined && activity.amount > 0 && (
                     <p className="text-xs text-emerald-400 mt-0.5">
-                      Amount: ${activity.amount.toLocaleString()}
+                      Amount: {formatCurrency(activity.amount, activity.currency)}
                     </p>
                   )}
 
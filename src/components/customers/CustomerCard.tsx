@@ -13,9 +13,10 @@ import {
   EnvelopeIcon,
   PhoneIcon,
   MapPinIcon,
+  UserGroupIcon,
 } from '@heroicons/react/24/outline';
 import { Avatar } from '@/components/ui/Avatar';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
 import type { CustomerWithStats } from '@/types/quote';
 import { CustomerStatusLabels, CustomerStatusColors } from '@/types/quote';
@@ -90,6 +91,28 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
         )}
       </div>
 
+      {/* People at the customer, primary contact first */}
+      {customer.contacts && customer.contacts.length > 0 && (
+        <div className="flex items-start gap-2 text-sm mb-4">
+          <UserGroupIcon className="w-4 h-4 text-slate-500 mt-0.5" />
+          <ul className="min-w-0 space-y-0.5">
+            {customer.contacts.slice(0, 3).map((contact) => (
+              <li key={contact.id} className="flex items-center gap-1.5 text-slate-300">
+                <span className="truncate">{contact.name}</span>
+                {contact.isPrimary && (
+                  <span className="text-xs text-indigo-400">Primary</span>
+                )}
+              </li>
+            ))}
+            {customer.contacts.length > 3 && (
+              <li className="text-xs text-slate-500">
+                +{customer.contacts.length - 3} more
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid grid-cols-3 gap-3 pt-4 border-t border-slate-700">
         <div className="text-center">
@@ -104,7 +127,7 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
         </div>
         <div className="text-center">
           <p className="text-lg font-semibold text-slate-100">
-            ${(customer.stats.totalRevenue / 1000).toFixed(1)}k
+            {formatCurrency(customer.stats.totalRevenue, customer.stats.currency, { compact: true })}
           </p>
           <p className="text-xs text-slate-500">Revenue</p>
         </div>
@@ -0,0 +1,330 @@
+/**
+ * Customer Contacts Component
+ * The people at a customer account, with their roles and communication
+ * preferences
+ * @module components/customers/CustomerContacts
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  EnvelopeIcon,
+  PencilIcon,
+  PhoneIcon,
+  PlusIcon,
+  StarIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Modal } from '@/components/ui/Modal';
+import { useToastHelpers } from '@/components/ui/Toast';
+import {
+  useCreateCustomerContact,
+  useCustomerContacts,
+  useDeleteCustomerContact,
+  useUpdateCustomerContact,
+} from '@/hooks/useCustomers';
+import {
+  CUSTOMER_CONTACT_ROLES,
+  CUSTOMER_CONTACT_ROLE_LABELS,
+  type CustomerContactInput,
+} from '@/lib/customerContacts';
+import { cn } from '@/lib/utils';
+import type { CustomerContact, CustomerContactRole } from '@/types/quote';
+
+interface CustomerContactsProps {
+  customerId: string;
+  className?: string;
+}
+
+interface ContactFormProps {
+  contact?: CustomerContact;
+  isSaving: boolean;
+  onCancel: () => void;
+  onSave: (data: CustomerContactInput) => void;
+}
+
+const ContactForm: React.FC<ContactFormProps> = ({ contact, isSaving, onCancel, onSave }) => {
+  const [form, setForm] = useState({
+    name: contact?.name ?? '',
+    email: contact?.email ?? '',
+    phone: contact?.phone ?? '',
+    title: contact?.title ?? '',
+    roles: contact?.roles ?? ([] as CustomerContactRole[]),
+    isPrimary: contact?.isPrimary ?? false,
+    notifyQuotes: contact?.notifyQuotes ?? true,
+    preferredChannel: contact?.preferredChannel ?? 'email',
+  });
+
+  const toggleRole = (role: CustomerContactRole) => {
+    setForm((current) => ({
+      ...current,
+      roles: current.roles.includes(role)
+        ? current.roles.filter((item) => item !== role)
+        : [...current.roles, role],
+    }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSave(form);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Name"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          required
+        />
+        <Input
+          label="Job title"
+          value={form.title}
+          onChange={(e) => setForm({ ...form, title: e.target.value })}
+        />
+        <Input
+          label="Email"
+          type="email"
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          required
+        />
+        <Input
+          label="Phone"
+          type="tel"
+          value={form.phone}
+          onChange={(e) => setForm({ ...form, phone: e.target.value })}
+        />
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-slate-300 mb-1.5">Roles</legend>
+        <div className="flex flex-wrap gap-4">
+          {CUSTOMER_CONTACT_ROLES.map((role) => (
+            <label key={role} className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={form.roles.includes(role)}
+                onChange={() => toggleRole(role)}
+                className="rounded border-slate-600 bg-slate-800 text-indigo-500"
+              />
+              {CUSTOMER_CONTACT_ROLE_LABELS[role]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="contact-preferred-channel" className="block text-sm font-medium text-slate-300 mb-1.5">
+            Preferred channel
+          </label>
+          <select
+            id="contact-preferred-channel"
+            value={form.preferredChannel}
+            onChange={(e) => setForm({ ...form, preferredChannel: e.target.value as CustomerContact['preferredChannel'] })}
+            className="w-full px-4 py-2.5 bg-slate-900 border border-slate-700 rounded-lg text-slate-100"
+          >
+            <option value="email">Email</option>
+            <option value="phone">Phone</option>
+          </select>
+        </div>
+        <div className="space-y-2 pt-7">
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={form.notifyQuotes}
+              onChange={(e) => setForm({ ...form, notifyQuotes: e.target.checked })}
+              className="rounded border-slate-600 bg-slate-800 text-indigo-500"
+            />
+            Gets quote emails
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={form.isPrimary}
+              onChange={(e) => setForm({ ...form, isPrimary: e.target.checked })}
+              className="rounded border-slate-600 bg-slate-800 text-indigo-500"
+            />
+            Primary contact
+          </label>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3 pt-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" isLoading={isSaving}>
+          {contact ? 'Save Contact' : 'Add Contact'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export const CustomerContacts: React.FC<CustomerContactsProps> = ({ customerId, className }) => {
+  const { success, error: showError } = useToastHelpers();
+  const { contacts, isLoading } = useCustomerContacts(customerId);
+  const { createContact, isCreating } = useCreateCustomerContact();
+  const { updateContact, isUpdating } = useUpdateCustomerContact();
+  const { deleteContact, isDeleting } = useDeleteCustomerContact();
+  // undefined while closed, null when adding a contact
+  const [editing, setEditing] = useState<CustomerContact | null | undefined>(undefined);
+
+  const handleSave = async (data: CustomerContactInput) => {
+    try {
+      if (editing) {
+        await updateContact(customerId, editing.id, data);
+        success('Contact updated');
+      } else {
+        await createContact(customerId, data);
+        success('Contact added');
+      }
+      setEditing(undefined);
+    } catch (err) {
+      showError('Failed to save contact', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleMakePrimary = async (contact: CustomerContact) => {
+    try {
+      await updateContact(customerId, contact.id, { isPrimary: true });
+      success(`${contact.name} is now the primary contact`);
+    } catch (err) {
+      showError('Failed to update contact', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleDelete = async (contact: CustomerContact) => {
+    try {
+      await deleteContact(customerId, contact.id);
+      success('Contact removed');
+    } catch (err) {
+      showError('Failed to remove contact', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: 0.25 }}
+      className={cn('bg-slate-900 border border-slate-800 rounded-xl p-6', className)}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-200">Contacts</h3>
+        <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+          <PlusIcon className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-slate-500">Loading contacts…</p>
+      ) : contacts.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          No contacts yet. Add the people who buy, approve and pay for quotes.
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {contacts.map((contact) => (
+            <li key={contact.id} className="group">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-slate-200 truncate">{contact.name}</p>
+                    {contact.isPrimary && (
+                      <Badge variant="primary" size="sm">Primary</Badge>
+                    )}
+                  </div>
+                  {contact.title && (
+                    <p className="text-xs text-slate-500 truncate">{contact.title}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {!contact.isPrimary && (
+                    <button
+                      type="button"
+                      onClick={() => handleMakePrimary(contact)}
+                      disabled={isUpdating}
+                      className="p-1 text-slate-500 hover:text-indigo-400"
+                      aria-label={`Make ${contact.name} the primary contact`}
+                    >
+                      <StarIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setEditing(contact)}
+                    className="p-1 text-slate-500 hover:text-slate-200"
+                    aria-label={`Edit ${contact.name}`}
+                  >
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(contact)}
+                    disabled={isDeleting}
+                    className="p-1 text-slate-500 hover:text-red-400"
+                    aria-label={`Remove ${contact.name}`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="mt-1.5 space-y-1 text-xs text-slate-400">
+                <div className="flex items-center gap-1.5">
+                  <EnvelopeIcon className="w-3.5 h-3.5 text-slate-500" />
+                  <span className="truncate">{contact.email}</span>
+                </div>
+                {contact.phone && (
+                  <div className="flex items-center gap-1.5">
+                    <PhoneIcon className="w-3.5 h-3.5 text-slate-500" />
+                    <span>{contact.phone}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                {contact.roles.map((role) => (
+                  <Badge key={role} size="sm">{CUSTOMER_CONTACT_ROLE_LABELS[role]}</Badge>
+                ))}
+                {contact.preferredChannel === 'phone' && (
+                  <span className="text-xs text-slate-500">Prefers phone</span>
+                )}
+                {!contact.notifyQuotes && (
+                  <span className="text-xs text-slate-500">No quote emails</span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Modal
+        isOpen={editing !== undefined}
+        onClose={() => setEditing(undefined)}
+        title={editing ? 'Edit Contact' : 'Add Contact'}
+        size="lg"
+      >
+        <ContactForm
+          key={editing?.id ?? 'new'}
+          contact={editing ?? undefined}
+          isSaving={isCreating || isUpdating}
+          onCancel={() => setEditing(undefined)}
+          onSave={handleSave}
+        />
+      </Modal>
+    </motion.div>
+  );
+};
+
+export default CustomerContacts;
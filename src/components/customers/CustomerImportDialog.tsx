@@ -0,0 +1,387 @@
+/**
+ * Customer Import Dialog Component
+ * Upload a CSV or XLSX file of customers, map its columns, choose what
+ * happens to customers that already exist, and follow the import as it runs
+ * @module components/customers/CustomerImportDialog
+ */
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { useToastHelpers } from '@/components/ui/Toast';
+import {
+  useCustomerImports,
+  useRunCustomerImport,
+  useUpdateCustomerImport,
+  useUploadCustomerImport,
+  type CustomerImportFile,
+  type CustomerImportSettings,
+} from '@/hooks/useCustomers';
+import { CUSTOMER_IMPORT_FIELDS } from '@/lib/customerImport';
+import type {
+  CustomerImport,
+  CustomerImportDuplicateAction,
+  CustomerImportField,
+  CustomerImportPreview,
+} from '@/types/quote';
+
+interface CustomerImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DUPLICATE_ACTIONS: Array<{ value: CustomerImportDuplicateAction; label: string; description: string }> = [
+  { value: 'skip', label: 'Skip', description: 'Leave the existing customer as it is' },
+  { value: 'merge', label: 'Merge', description: 'Fill in fields the customer is missing and add tags' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace the customer\'s fields with the file\'s' },
+];
+
+const selectClassName =
+  'w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50';
+
+/**
+ * The file as the upload endpoint takes it; XLSX workbooks are binary, so
+ * they are sent base64 encoded
+ */
+async function readImportFile(file: File): Promise<CustomerImportFile> {
+  if (!/\.xlsx$/i.test(file.name)) {
+    return { fileName: file.name, content: await file.text(), encoding: 'text' };
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return { fileName: file.name, content: btoa(binary), encoding: 'base64' };
+}
+
+export const CustomerImportDialog: React.FC<CustomerImportDialogProps> = ({ isOpen, onClose }) => {
+  const { success, error: showError } = useToastHelpers();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [job, setJob] = useState<CustomerImport | null>(null);
+  const [preview, setPreview] = useState<CustomerImportPreview | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const { imports } = useCustomerImports();
+  const { upload, isUploading } = useUploadCustomerImport();
+  const { updateImport, isUpdating } = useUpdateCustomerImport();
+  const { runImport } = useRunCustomerImport();
+
+  const unfinished = imports.filter((item) => item.status !== 'completed');
+  const missingFields = job
+    ? CUSTOMER_IMPORT_FIELDS.filter(({ field, required }) => required && job.mapping[field] === undefined)
+    : [];
+
+  const handleClose = () => {
+    if (isRunning) return;
+    setJob(null);
+    setPreview(null);
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await upload(await readImportFile(file));
+      setJob(result.import);
+      setPreview(result.preview ?? null);
+    } catch (err) {
+      showError('Failed to read the file', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const saveSettings = async (settings: CustomerImportSettings) => {
+    if (!job) return;
+
+    try {
+      const result = await updateImport(job.id, settings);
+      setJob(result.import);
+      setPreview(result.preview ?? null);
+    } catch (err) {
+      showError('Failed to update the import', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleContinue = async (draft: CustomerImport) => {
+    try {
+      // Saving no changes gives the draft back with its preview
+      const result = await updateImport(draft.id, {});
+      setJob(result.import);
+      setPreview(result.preview ?? null);
+    } catch (err) {
+      showError('Failed to open the import', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleMappingChange = (field: CustomerImportField, value: string) => {
+    if (!job) return;
+    const mapping = { ...job.mapping };
+    if (value === '') {
+      delete mapping[field];
+    } else {
+      mapping[field] = Number(value);
+    }
+    void saveSettings({ mapping });
+  };
+
+  const handleRowAction = (row: number, action: CustomerImportDuplicateAction) => {
+    if (!job) return;
+    void saveSettings({ rowActions: { ...job.rowActions, [String(row)]: action } });
+  };
+
+  const handleRun = async (target: CustomerImport) => {
+    setJob(target);
+    setIsRunning(true);
+
+    try {
+      const finished = await runImport(target.id, setJob);
+      success(
+        'Import finished',
+        `${finished.createdCount} created, ${finished.updatedCount} updated, ${finished.skippedCount} skipped`
+      );
+    } catch (err) {
+      showError('Lost track of the import', `${err instanceof Error ? err.message : 'Unknown error'}. Resume it to check on it.`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const progress = job && job.totalRows > 0 ? Math.round((job.nextRow / job.totalRows) * 100) : 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import Customers"
+      description="Upload a CSV or Excel (.xlsx) file with a header row"
+      size="xl"
+      preventBackdropClose={isRunning}
+    >
+      {!job && (
+        <div className="space-y-6">
+          <div className="flex flex-col items-center gap-3 p-8 border border-dashed border-slate-700 rounded-xl">
+            <ArrowUpTrayIcon className="w-8 h-8 text-slate-500" />
+            <Button onClick={() => fileInputRef.current?.click()} isLoading={isUploading}>
+              Choose File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,text/csv"
+              onChange={handleFile}
+              className="hidden"
+              data-testid="customer-import-file"
+            />
+            <p className="text-xs text-slate-500">Up to 5,000 customers and 5MB</p>
+          </div>
+
+          {unfinished.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Unfinished imports</h3>
+              <ul className="divide-y divide-slate-700">
+                {unfinished.map((item) => (
+                  <li key={item.id} className="py-2 flex items-center justify-between gap-3">
+                    <span className="text-sm text-slate-400">
+                      {item.fileName} · {item.nextRow} of {item.totalRows} rows
+                    </span>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => (item.status === 'draft' ? handleContinue(item) : handleRun(item))}
+                    >
+                      {item.status === 'draft' ? 'Continue' : 'Resume'}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {job?.status === 'draft' && !isRunning && (
+        <div className="space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-slate-300 mb-3">Columns in {job.fileName}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {CUSTOMER_IMPORT_FIELDS.map(({ field, label, required }) => (
+                <label key={field} className="block">
+                  <span className="block text-xs text-slate-400 mb-1">
+                    {label}{required && ' *'}
+                  </span>
+                  <select
+                    value={job.mapping[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    disabled={isUpdating}
+                    className={selectClassName}
+                    aria-label={label}
+                  >
+                    <option value="">Not imported</option>
+                    {job.headers.map((header, column) => (
+                      <option key={column} value={column}>{header || `Column ${column + 1}`}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-slate-300 mb-3">Customers that already exist</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {DUPLICATE_ACTIONS.map(({ value, label, description }) => (
+                <label
+                  key={value}
+                  className="flex items-start gap-2 p-3 rounded-lg border border-slate-700 cursor-pointer"
+                >
+                  <input
+                    type="radio"
+                    name="duplicateAction"
+                    checked={job.duplicateAction === value}
+                    onChange={() => saveSettings({ duplicateAction: value })}
+                    disabled={isUpdating}
+                  />
+                  <span>
+                    <span className="block text-sm text-slate-100">{label}</span>
+                    <span className="block text-xs text-slate-500">{description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {preview && (
+            <div className="space-y-4">
+              <p className="text-sm text-slate-400">
+                {preview.validRows} rows ready to import
+                {preview.duplicates.length > 0 && `, ${preview.duplicates.length} matching existing customers`}
+                {preview.invalidRows > 0 && `, ${preview.invalidRows} with errors that will be left out`}.
+              </p>
+
+              {preview.duplicates.length > 0 && (
+                <ul className="max-h-48 overflow-y-auto divide-y divide-slate-700 border border-slate-700 rounded-lg">
+                  {preview.duplicates.map((duplicate) => (
+                    <li key={duplicate.row} className="px-3 py-2 flex items-center justify-between gap-3">
+                      <span className="text-sm text-slate-300">
+                        Row {duplicate.row} matches {duplicate.companyName} ({duplicate.email}) by{' '}
+                        {duplicate.matchedOn === 'email' ? 'email' : 'company name'}
+                      </span>
+                      <select
+                        value={duplicate.action}
+                        onChange={(e) => handleRowAction(duplicate.row, e.target.value as CustomerImportDuplicateAction)}
+                        disabled={isUpdating}
+                        className={`${selectClassName} w-auto`}
+                        aria-label={`Row ${duplicate.row}`}
+                      >
+                        {DUPLICATE_ACTIONS.map(({ value, label }) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {preview.errors.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto space-y-1 p-3 bg-amber-500/10 rounded-lg border border-amber-500/20">
+                  {preview.errors.map((rowError, index) => (
+                    <li key={index} className="text-sm text-amber-200">
+                      Row {rowError.row}: {rowError.field ? `${rowError.field}: ` : ''}{rowError.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-3 pt-4 border-t border-slate-700">
+            <p className="text-xs text-slate-500">
+              {missingFields.length > 0 && `Choose a column for ${missingFields.map(({ label }) => label).join(', ')}`}
+            </p>
+            <div className="flex gap-3">
+              <Button variant="ghost" onClick={handleClose}>Cancel</Button>
+              <Button
+                onClick={() => handleRun(job)}
+                disabled={missingFields.length > 0 || isUpdating || !preview?.validRows}
+              >
+                Import {preview?.validRows ?? 0} Customers
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {job && (isRunning || job.status !== 'draft') && (
+        <div className="space-y-6">
+          <div>
+            <div className="flex justify-between text-sm text-slate-400 mb-2">
+              <span>{job.fileName}</span>
+              <span>{job.nextRow} of {job.totalRows} rows</span>
+            </div>
+            <div
+              className="h-2 bg-slate-700 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuenow={progress}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            >
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+
+          <dl className="grid grid-cols-4 gap-3 text-center">
+            {[
+              ['Created', job.createdCount],
+              ['Updated', job.updatedCount],
+              ['Skipped', job.skippedCount],
+              ['Errors', job.errorCount],
+            ].map(([label, count]) => (
+              <div key={label} className="p-3 bg-slate-900 rounded-lg">
+                <dt className="text-xs text-slate-500">{label}</dt>
+                <dd className="text-lg font-semibold text-slate-100">{count}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {job.errorCount > 0 && job.status === 'completed' && (
+            <div className="flex items-center justify-between gap-3 p-3 bg-amber-500/10 rounded-lg border border-amber-500/20">
+              <span className="flex items-center gap-2 text-sm text-amber-200">
+                <ExclamationTriangleIcon className="w-5 h-5" />
+                {job.errorCount} rows were not imported
+              </span>
+              <a
+                href={`/api/customers/imports/${job.id}/errors`}
+                className="flex items-center gap-1 text-sm text-amber-200 underline"
+              >
+                <ArrowDownTrayIcon className="w-4 h-4" />
+                Download error report
+              </a>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-slate-700">
+            {job.status !== 'completed' && !isRunning && (
+              <Button onClick={() => handleRun(job)}>Resume Import</Button>
+            )}
+            <Button variant="ghost" onClick={handleClose} disabled={isRunning}>
+              {job.status === 'completed' ? 'Done' : 'Close'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default CustomerImportDialog;
@@ -33,7 +33,7 @@ import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@
 import { TableSkeleton } from '@/components/ui/Skeleton';
 import { Avatar } from '@/components/ui/Avatar';
 import { useToastHelpers } from '@/components/ui/Toast';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
 import type { CustomerWithStats, CustomerFilter, CustomerStatus } from '@/types/quote';
 import { CustomerStatusLabels, CustomerStatusColors } from '@/types/quote';
@@ -404,10 +404,10 @@ export const CustomerList: React.FC<CustomerListProps> = ({
 
                     <TableCell>
                       <div className="text-slate-100 font-medium">
-                        ${customer.stats.totalRevenue.toLocaleString()}
+                        {formatCurrency(customer.stats.totalRevenue, customer.stats.currency, { wholeUnits: true })}
                       </div>
                       <div className="text-xs text-slate-500">
-                        Avg: ${Math.round(customer.stats.avgQuoteValue).toLocaleString()}
+                        Avg: {formatCurrency(customer.stats.avgQuoteValue, customer.stats.currency, { wholeUnits: true })}
                       </div>
                     </TableCell>
 
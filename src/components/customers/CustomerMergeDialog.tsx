@@ -0,0 +1,200 @@
+/**
+ * Customer Merge Dialog Component
+ * Merge possible duplicates into a customer, picking which customer's value
+ * each field keeps
+ * @module components/customers/CustomerMergeDialog
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowsPointingInIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Modal } from '@/components/ui/Modal';
+import { useToastHelpers } from '@/components/ui/Toast';
+import { useMergeCustomers } from '@/hooks/useCustomers';
+import { CUSTOMER_MERGE_FIELDS, MERGE_UNDO_WINDOW_DAYS } from '@/lib/customerMerge';
+import { cn } from '@/lib/utils';
+import type { Customer, CustomerAddress, CustomerDuplicate, CustomerMergeField } from '@/types/quote';
+
+interface CustomerMergeDialogProps {
+  /** The customer the duplicates are merged into */
+  customer: Customer;
+  duplicates: CustomerDuplicate[];
+  /** Duplicates ticked to start with, all of them when not given; remount the dialog to reset */
+  initialSelectedIds?: string[];
+  isOpen: boolean;
+  onClose: () => void;
+  onMerged?: (customer: Customer) => void;
+}
+
+const REASON_LABELS: Record<CustomerDuplicate['reasons'][number], string> = {
+  email: 'Same email',
+  emailDomain: 'Email domain',
+  companyName: 'Company name',
+  phone: 'Phone',
+  address: 'Address',
+};
+
+function formatAddress(address?: CustomerAddress): string {
+  return address
+    ? [address.street, address.city, address.state, address.zipCode, address.country].filter(Boolean).join(', ')
+    : '';
+}
+
+function fieldValue(customer: Customer, field: CustomerMergeField): string {
+  switch (field) {
+    case 'billingAddress':
+    case 'shippingAddress':
+      return formatAddress(customer[field]);
+    default:
+      return customer[field] ?? '';
+  }
+}
+
+export const CustomerMergeDialog: React.FC<CustomerMergeDialogProps> = ({
+  customer,
+  duplicates,
+  initialSelectedIds,
+  isOpen,
+  onClose,
+  onMerged,
+}) => {
+  const { success, error: showError } = useToastHelpers();
+  const { mergeCustomers, isMerging } = useMergeCustomers();
+  const [selectedIds, setSelectedIds] = useState<string[]>(
+    () => initialSelectedIds ?? duplicates.map((duplicate) => duplicate.customer.id)
+  );
+  const [selection, setSelection] = useState<Partial<Record<CustomerMergeField, string>>>({});
+
+  const selected = duplicates
+    .map((duplicate) => duplicate.customer)
+    .filter((duplicate) => selectedIds.includes(duplicate.id));
+  const customers = [customer, ...selected];
+
+  // Only fields the customers disagree on need a choice
+  const conflictingFields = CUSTOMER_MERGE_FIELDS.filter(({ field }) =>
+    new Set(customers.map((item) => fieldValue(item, field))).size > 1
+  );
+
+  const toggleDuplicate = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id]));
+  };
+
+  const handleMerge = async () => {
+    try {
+      const result = await mergeCustomers(customer.id, {
+        duplicateIds: selectedIds,
+        // Drop picks from duplicates that were unticked since
+        selection: Object.fromEntries(
+          Object.entries(selection).filter(([, id]) => customers.some((item) => item.id === id))
+        ),
+      });
+      success(
+        `Merged ${selected.length} customer${selected.length !== 1 ? 's' : ''}`,
+        `You can undo this for ${MERGE_UNDO_WINDOW_DAYS} days`
+      );
+      onMerged?.(result.customer);
+      onClose();
+    } catch (err) {
+      showError('Failed to merge customers', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={isMerging ? () => undefined : onClose} title="Merge Duplicates" size="lg">
+      <div className="space-y-6">
+        <div>
+          <p className="text-sm text-slate-400 mb-3">
+            Merged customers are removed; their quotes, notes and activity move to {customer.companyName}.
+          </p>
+          <div className="space-y-2">
+            {duplicates.map(({ customer: duplicate, score, reasons }) => (
+              <label
+                key={duplicate.id}
+                className="flex items-center gap-3 p-3 bg-slate-800/50 rounded-lg border border-slate-700 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(duplicate.id)}
+                  onChange={() => toggleDuplicate(duplicate.id)}
+                  className="rounded border-slate-600 bg-slate-900 text-indigo-500"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-100 truncate">{duplicate.companyName}</p>
+                  <p className="text-xs text-slate-500 truncate">
+                    {duplicate.contactName} · {duplicate.email}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-medium text-slate-200">{score}%</p>
+                  <p className="text-xs text-slate-500">{reasons.map((reason) => REASON_LABELS[reason]).join(', ')}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {selected.length > 0 && conflictingFields.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-slate-200 mb-3">Values to keep</h4>
+            <div className="space-y-4">
+              {conflictingFields.map(({ field, label }) => {
+                const keptId = customers.some((item) => item.id === selection[field])
+                  ? selection[field]
+                  : customer.id;
+
+                return (
+                  <fieldset key={field}>
+                    <legend className="text-xs uppercase tracking-wide text-slate-500 mb-1.5">{label}</legend>
+                    <div className="space-y-1.5">
+                      {customers.map((item) => (
+                        <label
+                          key={item.id}
+                          className={cn(
+                            'flex items-center gap-3 px-3 py-2 rounded-lg border text-sm cursor-pointer',
+                            keptId === item.id
+                              ? 'border-indigo-500/50 bg-indigo-500/10 text-slate-100'
+                              : 'border-slate-700 text-slate-400'
+                          )}
+                        >
+                          <input
+                            type="radio"
+                            name={`merge-${field}`}
+                            checked={keptId === item.id}
+                            onChange={() => setSelection((current) => ({ ...current, [field]: item.id }))}
+                            className="border-slate-600 bg-slate-900 text-indigo-500"
+                          />
+                          <span className="truncate">{fieldValue(item, field) || <em>Empty</em>}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </fieldset>
+                );
+              })}
+            </div>
+            <p className="text-xs text-slate-500 mt-3">Tags and notes from every customer are kept.</p>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 pt-4 border-t border-slate-700">
+          <Button variant="ghost" onClick={onClose} disabled={isMerging} className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleMerge}
+            isLoading={isMerging}
+            disabled={selected.length === 0 || isMerging}
+            className="flex-1"
+          >
+            <ArrowsPointingInIcon className="w-4 h-4 mr-2" />
+            Merge {selected.length > 0 ? selected.length : ''} into this customer
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CustomerMergeDialog;
@@ -17,7 +17,7 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/com
 import { Badge } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
 import { TableSkeleton } from '@/components/ui/Skeleton';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
 import { QuoteStatusLabels, QuoteStatusColors } from '@/types/quote';
 import type { QuoteStatus } from '@/types/quote';
@@ -28,6 +28,7 @@ interface CustomerQuote {
   title: string;
   status: QuoteStatus;
   total: number;
+  currency?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -126,7 +127,7 @@ export const CustomerQuotes: React.FC<CustomerQuotesProps> = ({
 
               <div className="text-right">
                 <p className="font-semibold text-slate-100">
-                  ${quote.total.toLocaleString()}
+                  {formatCurrency(quote.total, quote.currency)}
                 </p>
               </div>
 
@@ -18,7 +18,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Skeleton } from '@/components/ui/Skeleton';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import type { CustomerStats as CustomerStatsType } from '@/types/quote';
 
 interface CustomerStatsProps {
@@ -128,8 +128,8 @@ export const CustomerStats: React.FC<CustomerStatsProps> = ({
           <StatItem
             icon={CurrencyDollarIcon}
             label="Total Revenue"
-            value={`$${stats.totalRevenue.toLocaleString()}`}
-            subValue={hasQuotes ? `Avg: $${Math.round(stats.avgQuoteValue).toLocaleString()}` : undefined}
+            value={formatCurrency(stats.totalRevenue, stats.currency, { wholeUnits: true })}
+            subValue={hasQuotes ? `Avg: ${formatCurrency(stats.avgQuoteValue, stats.currency, { wholeUnits: true })}` : undefined}
             color="green"
             delay={0.1}
           />
@@ -12,3 +12,6 @@ export { CustomerActivity } from './CustomerActivity';
 export { CustomerQuotes } from './CustomerQuotes';
 export { CustomerFilters } from './CustomerFilters';
 export { DeleteCustomerDialog } from './DeleteCustomerDialog';
+export { CustomerImportDialog } from './CustomerImportDialog';
+export { CustomerMergeDialog } from './CustomerMergeDialog';
+export { CustomerContacts } from './CustomerContacts';
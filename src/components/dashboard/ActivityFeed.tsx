@@ -19,6 +19,10 @@ import {
   CurrencyDollarIcon,
   ClockIcon,
   ArrowPathIcon,
+  EnvelopeIcon,
+  EnvelopeOpenIcon,
+  CursorArrowRaysIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 import type { ActivityItem } from '@/types/quote';
 
@@ -73,6 +77,42 @@ const activityConfig: Partial<Record<ActivityItem['type'], {
     bgColor: 'bg-red-500/10',
     label: 'rejected a quote',
   },
+  quote_revised: {
+    icon: PencilIcon,
+    color: 'text-amber-400',
+    bgColor: 'bg-amber-500/10',
+    label: 'revised a quote',
+  },
+  email_delivered: {
+    icon: EnvelopeIcon,
+    color: 'text-sky-400',
+    bgColor: 'bg-sky-500/10',
+    label: 'received a quote email',
+  },
+  email_opened: {
+    icon: EnvelopeOpenIcon,
+    color: 'text-sky-400',
+    bgColor: 'bg-sky-500/10',
+    label: 'opened a quote email',
+  },
+  email_clicked: {
+    icon: CursorArrowRaysIcon,
+    color: 'text-purple-400',
+    bgColor: 'bg-purple-500/10',
+    label: 'clicked through a quote email',
+  },
+  email_bounced: {
+    icon: ExclamationTriangleIcon,
+    color: 'text-red-400',
+    bgColor: 'bg-red-500/10',
+    label: 'could not be reached (email bounced)',
+  },
+  email_complained: {
+    icon: ExclamationTriangleIcon,
+    color: 'text-amber-400',
+    bgColor: 'bg-amber-500/10',
+    label: 'marked a quote email as spam',
+  },
 };
 
 // ============================================================================
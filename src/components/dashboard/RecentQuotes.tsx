@@ -7,7 +7,7 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import {
   DocumentTextIcon,
   ClockIcon,
@@ -32,6 +32,8 @@ export interface RecentQuoteItem {
   company?: string;
   title: string;
   total: number;
+  /** ISO currency of the total; USD when not given */
+  currency?: string;
   status: QuoteStatus;
   createdAt: string;
 }
@@ -96,15 +98,6 @@ interface QuoteRowProps {
 }
 
 const QuoteRow = ({ quote, index, onViewQuote }: QuoteRowProps) => {
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -178,7 +171,7 @@ const QuoteRow = ({ quote, index, onViewQuote }: QuoteRowProps) => {
       {/* Amount & Date */}
       <div className="text-right">
         <p className="font-semibold text-slate-200">
-          {formatCurrency(quote.total)}
+          {formatCurrency(quote.total, quote.currency, { wholeUnits: true })}
         </p>
         <p className="text-sm text-slate-500">
           {formatDate(quote.createdAt)}
@@ -7,7 +7,7 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency } from '@/lib/utils';
 import {
   DocumentTextIcon,
   CurrencyDollarIcon,
@@ -101,19 +101,14 @@ const colorConfig = {
 // Format Value Helper
 // ============================================================================
 
-function formatValue(value: number | string, format?: 'number' | 'currency' | 'percent'): string {
+function formatValue(value: number | string, format?: 'number' | 'currency' | 'percent', currency?: string): string {
   const numValue = typeof value === 'string' ? parseFloat(value) : value;
   
   if (isNaN(numValue)) return String(value);
   
   switch (format) {
     case 'currency':
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0,
-      }).format(numValue);
+      return formatCurrency(numValue, currency, { wholeUnits: true });
     
     case 'percent':
       return `${numValue.toFixed(1)}%`;
@@ -204,11 +199,12 @@ export function StatCard({
   color = 'blue',
   isLoading = false,
   format = 'number',
+  currency,
   delay = 0,
 }: StatCardComponentProps) {
   const Icon = iconMap[icon] || DocumentTextIcon;
   const colors = colorConfig[color];
-  const formattedValue = formatValue(value, format);
+  const formattedValue = formatValue(value, format, currency);
 
   if (isLoading) {
     return <StatCardSkeleton color={color} />;
@@ -351,6 +347,8 @@ export interface DashboardStatsData {
   quoteChange: number;
   revenueChange: number;
   conversionChange: number;
+  /** Currency the revenue figures are in */
+  currency?: string;
 }
 
 export function useDashboardStats(data?: DashboardStatsData): StatCardComponentProps[] {
@@ -387,6 +385,7 @@ export function useDashboardStats(data?: DashboardStatsData): StatCardComponentP
       icon: 'revenue',
       color: 'green',
       format: 'currency',
+      currency: stats.currency,
     },
     {
       title: 'Conversion Rate',
@@ -403,6 +402,7 @@ export function useDashboardStats(data?: DashboardStatsData): StatCardComponentP
       icon: 'customers',
       color: 'indigo',
       format: 'currency',
+      currency: stats.currency,
     },
   ];
 }
@@ -12,6 +12,7 @@ import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
 import { Sidebar, type NavItemId } from '@/components/navigation/Sidebar';
 import { Header, type Notification } from '@/components/layout/Header';
+import { useAuth } from '@/components/auth/AuthProvider';
 import {
   ExclamationTriangleIcon,
   ArrowPathIcon,
@@ -848,8 +849,8 @@ const MobileHeader: React.FC<{
 export function DashboardLayout({
   children,
   activeNavItem,
-  userName,
-  userEmail,
+  userName: userNameProp,
+  userEmail: userEmailProp,
   userAvatar,
   shopName,
   notifications = [],
@@ -858,7 +859,7 @@ export function DashboardLayout({
   onNotificationClick,
   onMarkAllNotificationsRead,
   onSettings,
-  onLogout,
+  onLogout: onLogoutProp,
   className,
   errorFallback,
   isLoading = false,
@@ -867,11 +868,17 @@ export function DashboardLayout({
   transitionMode = 'slide',
 }: DashboardLayoutProps) {
   const pathname = usePathname();
+  const { user, member, signOut } = useAuth();
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(defaultMobileSidebarOpen);
   const [isDesktopSidebarCollapsed, setIsDesktopSidebarCollapsed] = useState(false);
   const [pageError, setPageError] = useState<Error | null>(null);
   const [isPageTransitioning, setIsPageTransitioning] = useState(false);
 
+  // Pages that don't pass a user show the signed-in member
+  const userName = userNameProp ?? member?.name ?? user?.email;
+  const userEmail = userEmailProp ?? member?.email ?? user?.email;
+  const onLogout = onLogoutProp ?? (user ? () => { void signOut(); } : undefined);
+
   const unreadCount = useMemo(() => 
     notifications.filter(n => !n.read).length,
     [notifications]
@@ -5,6 +5,7 @@
  */
 
 import type { StyleSheet } from '@react-pdf/renderer';
+import type { QuotePdfTemplate } from '@/types/quote';
 
 // ============================================================================
 // Template Types
@@ -13,7 +14,7 @@ import type { StyleSheet } from '@react-pdf/renderer';
 /**
  * Available PDF template types
  */
-export type PDFTemplateType = 'modern' | 'classic' | 'minimal' | 'professional';
+export type PDFTemplateType = QuotePdfTemplate;
 
 /**
  * Template metadata
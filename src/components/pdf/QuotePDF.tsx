@@ -8,16 +8,7 @@
 
 import React, { useState, useCallback, useMemo, Component, type ErrorInfo, type ReactNode } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import {
-  PDFDownloadLink,
-  Document,
-  Page,
-  Text,
-  View,
-  StyleSheet,
-  Image,
-  pdf,
-} from '@react-pdf/renderer';
+import { PDFDownloadLink, Text, View, pdf } from '@react-pdf/renderer';
 import {
   ArrowDownTrayIcon,
   EyeIcon,
@@ -28,63 +19,20 @@ import {
   ShareIcon,
 } from '@heroicons/react/24/outline';
 import { cn } from '@/lib/utils';
-import type { Quote, QuoteStatus, Customer } from '@/types';
-import {
-  getPDFTemplate,
-  getDefaultPDFTemplate,
-  type PDFTemplateType,
-  type PDFTemplateConfig,
-  hexToRGBA,
-} from './PDFTemplates';
+import type { Quote } from '@/types';
+import { QuotePDFDocument, type CompanyBranding, type PDFGenerationOptions } from './QuotePDFDocument';
+
+export {
+  QuotePDFDocument,
+  type CompanyBranding,
+  type PDFGenerationOptions,
+  type QuotePDFProps,
+} from './QuotePDFDocument';
 
 // ============================================================================
 // Types
 // ============================================================================
 
-/**
- * Company branding information
- */
-export interface CompanyBranding {
-  name: string;
-  logo?: string;
-  address?: string;
-  phone?: string;
-  email?: string;
-  website?: string;
-  taxId?: string;
-  primaryColor?: string;
-  accentColor?: string;
-}
-
-/**
- * PDF generation options
- */
-export interface PDFGenerationOptions {
-  template?: PDFTemplateType;
-  includeHeader?: boolean;
-  includeFooter?: boolean;
-  includeLogo?: boolean;
-  includeTerms?: boolean;
-  includeNotes?: boolean;
-  format?: 'A4' | 'Letter' | 'Legal';
-  orientation?: 'portrait' | 'landscape';
-  pageNumbers?: boolean;
-}
-
-/**
- * Props for QuotePDFDocument
- */
-export interface QuotePDFProps {
-  /** Quote data to render */
-  quote: Quote;
-  /** Company branding information */
-  companyBranding?: CompanyBranding;
-  /** PDF generation options */
-  options?: PDFGenerationOptions;
-  /** Template configuration override */
-  templateConfig?: PDFTemplateConfig;
-}
-
 /**
  * Props for PDFDownloadButton
  */
@@ -176,253 +124,6 @@ interface PDFErrorBoundaryState {
   error?: Error;
 }
 
-// ============================================================================
-// PDF Style Generation
-// ============================================================================
-
-/**
- * Generate PDF styles based on template configuration
- * @param config - Template configuration
- * @returns React-PDF StyleSheet
- */
-const createStyles = (config: PDFTemplateConfig) =>
-  StyleSheet.create({
-    page: {
-      flexDirection: 'column',
-      backgroundColor: config.colors.background,
-      padding: config.page.padding,
-      fontFamily: config.typography.fontFamily,
-    },
-    header: {
-      flexDirection: 'row',
-      justifyContent: 'space-between',
-      marginBottom: config.spacing.xl,
-      borderBottomWidth: 2,
-      borderBottomColor: config.colors.primary,
-      paddingBottom: config.spacing.md,
-    },
-    logo: {
-      width: 100,
-      height: 40,
-      objectFit: 'contain',
-    },
-    companyInfo: {
-      fontSize: config.typography.fontSize.sm,
-      color: config.colors.textMuted,
-      textAlign: 'right',
-      lineHeight: config.typography.lineHeight.normal,
-    },
-    title: {
-      fontSize: config.typography.fontSize['3xl'],
-      fontWeight: config.typography.fontWeight.bold,
-      color: config.colors.text,
-      marginBottom: config.spacing.xs,
-    },
-    quoteNumber: {
-      fontSize: config.typography.fontSize.base,
-      color: config.colors.textMuted,
-      marginBottom: config.spacing.lg,
-    },
-    section: {
-      marginBottom: config.spacing.md,
-    },
-    sectionTitle: {
-      fontSize: config.typography.fontSize.sm,
-      fontWeight: config.typography.fontWeight.bold,
-      color: config.colors.primary,
-      marginBottom: config.spacing.xs,
-      textTransform: 'uppercase',
-      letterSpacing: 0.5,
-    },
-    text: {
-      fontSize: config.typography.fontSize.base,
-      color: config.colors.textMuted,
-      lineHeight: config.typography.lineHeight.normal,
-    },
-    table: {
-      marginTop: config.spacing.md,
-      marginBottom: config.spacing.md,
-    },
-    tableHeader: {
-      flexDirection: 'row',
-      backgroundColor: hexToRGBA(config.colors.primary, 0.08),
-      padding: config.spacing.sm,
-      borderBottomWidth: 1,
-      borderBottomColor: config.colors.border,
-    },
-    tableRow: {
-      flexDirection: 'row',
-      padding: config.spacing.sm,
-      borderBottomWidth: 1,
-      borderBottomColor: config.colors.border,
-    },
-    tableRowAlternate: {
-      flexDirection: 'row',
-      padding: config.spacing.sm,
-      borderBottomWidth: 1,
-      borderBottomColor: config.colors.border,
-      backgroundColor: config.colors.surface,
-    },
-    tableCell: {
-      flex: 1,
-      fontSize: config.typography.fontSize.base,
-      color: config.colors.textMuted,
-    },
-    tableCellRight: {
-      flex: 1,
-      fontSize: config.typography.fontSize.base,
-      color: config.colors.textMuted,
-      textAlign: 'right',
-    },
-    totals: {
-      marginTop: config.spacing.lg,
-      borderTopWidth: 2,
-      borderTopColor: config.colors.border,
-      paddingTop: config.spacing.md,
-    },
-    totalRow: {
-      flexDirection: 'row',
-      justifyContent: 'flex-end',
-      marginBottom: config.spacing.xs,
-    },
-    totalLabel: {
-      fontSize: config.typography.fontSize.base,
-      color: config.colors.textMuted,
-      width: 100,
-    },
-    totalValue: {
-      fontSize: config.typography.fontSize.base,
-      color: config.colors.text,
-      width: 100,
-      textAlign: 'right',
-    },
-    grandTotal: {
-      flexDirection: 'row',
-      justifyContent: 'flex-end',
-      marginTop: config.spacing.sm,
-      paddingTop: config.spacing.sm,
-      borderTopWidth: 1,
-      borderTopColor: config.colors.border,
-    },
-    grandTotalLabel: {
-      fontSize: config.typography.fontSize.xl,
-      fontWeight: config.typography.fontWeight.bold,
-      color: config.colors.text,
-      width: 100,
-    },
-    grandTotalValue: {
-      fontSize: config.typography.fontSize.xl,
-      fontWeight: config.typography.fontWeight.bold,
-      color: config.colors.primary,
-      width: 100,
-      textAlign: 'right',
-    },
-    footer: {
-      position: 'absolute',
-      bottom: config.spacing.xl,
-      left: config.page.padding,
-      right: config.page.padding,
-      textAlign: 'center',
-      fontSize: config.typography.fontSize.xs,
-      color: config.colors.textMuted,
-    },
-    notes: {
-      marginTop: config.spacing.lg,
-      padding: config.spacing.md,
-      backgroundColor: config.colors.surface,
-      borderRadius: config.features.roundedCorners ? 4 : 0,
-    },
-    notesTitle: {
-      fontSize: config.typography.fontSize.sm,
-      fontWeight: config.typography.fontWeight.bold,
-      color: config.colors.text,
-      marginBottom: config.spacing.xs,
-    },
-    notesText: {
-      fontSize: config.typography.fontSize.xs,
-      color: config.colors.textMuted,
-      lineHeight: config.typography.lineHeight.normal,
-    },
-    statusBadge: {
-      paddingHorizontal: config.spacing.sm,
-      paddingVertical: 4,
-      borderRadius: config.features.roundedCorners ? 4 : 0,
-      backgroundColor: hexToRGBA(config.colors.primary, 0.1),
-      alignSelf: 'flex-start',
-    },
-    statusText: {
-      fontSize: config.typography.fontSize.sm,
-      fontWeight: config.typography.fontWeight.bold,
-      color: config.colors.primary,
-      textTransform: 'uppercase',
-    },
-    watermark: {
-      position: 'absolute',
-      top: '50%',
-      left: '50%',
-      transform: 'translate(-50%, -50%) rotate(-45deg)',
-      fontSize: 64,
-      color: hexToRGBA(config.colors.border, 0.3),
-      fontWeight: config.typography.fontWeight.bold,
-      opacity: 0.5,
-    },
-  });
-
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-/**
- * Get status color based on quote status
- * @param status - Quote status
- * @param config - Template configuration
- * @returns Color hex code
- */
-const getStatusColor = (status: QuoteStatus, config: PDFTemplateConfig): string => {
-  switch (status) {
-    case 'accepted':
-      return config.colors.success;
-    case 'sent':
-    case 'viewed':
-      return config.colors.accent;
-    case 'rejected':
-      return config.colors.error;
-    case 'expired':
-      return config.colors.warning;
-    case 'converted':
-      return config.colors.secondary;
-    default:
-      return config.colors.textMuted;
-  }
-};
-
-/**
- * Format currency value
- * @param value - Numeric value
- * @param currency - Currency code
- * @returns Formatted currency string
- */
-const formatCurrency = (value: number, currency: string = 'USD'): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-  }).format(value);
-};
-
-/**
- * Format date value
- * @param date - Date value
- * @returns Formatted date string
- */
-const formatDate = (date: Date | string | undefined): string => {
-  if (!date) return 'N/A';
-  return new Date(date).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-};
-
 // ============================================================================
 // PDF Error Boundary
 // ============================================================================
@@ -466,226 +167,6 @@ export class PDFErrorBoundary extends Component<PDFErrorBoundaryProps, PDFErrorB
   }
 }
 
-// ============================================================================
-// PDF Document Component
-// ============================================================================
-
-/**
- * Quote PDF Document Component
- * Renders a complete quote as a PDF document
- */
-export const QuotePDFDocument: React.FC<QuotePDFProps> = ({
-  quote,
-  companyBranding,
-  options = {},
-  templateConfig,
-}) => {
-  const config = useMemo(() => {
-    if (templateConfig) return templateConfig;
-    return options.template ? getPDFTemplate(options.template) : getDefaultPDFTemplate();
-  }, [options.template, templateConfig]);
-
-  const styles = useMemo(() => createStyles(config), [config]);
-
-  const {
-    includeHeader = true,
-    includeFooter = true,
-    includeLogo = true,
-    includeTerms = true,
-    includeNotes = true,
-    pageNumbers = true,
-  } = options;
-
-  const currency = quote.terms?.currency || 'USD';
-  const customer = quote.customer as Customer;
-
-  return (
-    <Document
-      title={`Quote ${quote.quoteNumber}`}
-      author={companyBranding?.name || 'QuoteGen'}
-      subject={`Quote for ${customer?.companyName || customer?.contactName || 'Customer'}`}
-      keywords="quote, invoice, estimate"
-      creator="QuoteGen"
-      producer="QuoteGen PDF Generator"
-    >
-      <Page size={(options.format || 'A4').toUpperCase() as 'A4' | 'LETTER' | 'LEGAL'} style={styles.page}>
-        {/* Watermark for professional template */}
-        {config.features.showWatermark && (
-          <Text style={styles.watermark}>QUOTE</Text>
-        )}
-
-        {/* Header */}
-        {includeHeader && (
-          <View style={styles.header}>
-            <View>
-              {includeLogo && companyBranding?.logo ? (
-                <Image src={companyBranding.logo} style={styles.logo} />
-              ) : (
-                <Text
-                  style={{
-                    fontSize: config.typography.fontSize['2xl'],
-                    fontWeight: config.typography.fontWeight.bold,
-                    color: config.colors.primary,
-                  }}
-                >
-                  {companyBranding?.name || 'QuoteGen'}
-                </Text>
-              )}
-            </View>
-
-            <View style={styles.companyInfo}>
-              {companyBranding?.address && <Text>{companyBranding.address}</Text>}
-              {companyBranding?.phone && <Text>{companyBranding.phone}</Text>}
-              {companyBranding?.email && <Text>{companyBranding.email}</Text>}
-              {companyBranding?.website && <Text>{companyBranding.website}</Text>}
-              {companyBranding?.taxId && <Text>Tax ID: {companyBranding.taxId}</Text>}
-            </View>
-          </View>
-        )}
-
-        {/* Title & Status */}
-        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start' }}>
-          <View>
-            <Text style={styles.title}>Quote</Text>
-            <Text style={styles.quoteNumber}>
-              Quote #{quote.quoteNumber} • Valid until {formatDate(quote.expiresAt)}
-            </Text>
-          </View>
-          <View
-            style={[
-              styles.statusBadge,
-              { backgroundColor: hexToRGBA(getStatusColor(quote.status as QuoteStatus, config), 0.15) },
-            ]}
-          >
-            <Text style={[styles.statusText, { color: getStatusColor(quote.status as QuoteStatus, config) }]}>
-              {quote.status?.toUpperCase()}
-            </Text>
-          </View>
-        </View>
-
-        {/* Customer Info */}
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Bill To</Text>
-          <Text style={styles.text}>{customer?.companyName || customer?.contactName}</Text>
-          <Text style={styles.text}>{customer?.contactName}</Text>
-          <Text style={styles.text}>{customer?.email}</Text>
-          {customer?.phone && <Text style={styles.text}>{customer?.phone}</Text>}
-        </View>
-
-        {/* Line Items Table */}
-        <View style={styles.table}>
-          <View style={styles.tableHeader}>
-            <Text style={[styles.tableCell, { flex: 3 }]}>Item</Text>
-            <Text style={styles.tableCellRight}>Qty</Text>
-            <Text style={styles.tableCellRight}>Price</Text>
-            <Text style={styles.tableCellRight}>Total</Text>
-          </View>
-
-          {quote.lineItems?.map((item, index) => {
-            const itemTotal = item.quantity * item.unitPrice;
-            const discount = itemTotal * (item.discountPercentage || 0) / 100;
-            const total = itemTotal - discount;
-            const rowStyle = config.features.zebraStripes && index % 2 === 1
-              ? styles.tableRowAlternate
-              : styles.tableRow;
-
-            return (
-              <View key={item.id || index} style={rowStyle}>
-                <View style={{ flex: 3 }}>
-                  <Text style={styles.tableCell}>{item.title}</Text>
-                  {item.variantTitle && (
-                    <Text style={{ fontSize: config.typography.fontSize.xs, color: config.colors.textMuted }}>
-                      {item.variantTitle}
-                    </Text>
-                  )}
-                  {item.sku && (
-                    <Text style={{ fontSize: config.typography.fontSize.xs, color: config.colors.textMuted }}>
-                      SKU: {item.sku}
-                    </Text>
-                  )}
-                </View>
-                <Text style={styles.tableCellRight}>{item.quantity}</Text>
-                <Text style={styles.tableCellRight}>{formatCurrency(item.unitPrice, currency)}</Text>
-                <Text style={styles.tableCellRight}>{formatCurrency(total, currency)}</Text>
-              </View>
-            );
-          })}
-        </View>
-
-        {/* Totals */}
-        <View style={styles.totals}>
-          <View style={styles.totalRow}>
-            <Text style={styles.totalLabel}>Subtotal</Text>
-            <Text style={styles.totalValue}>{formatCurrency(quote.subtotal || 0, currency)}</Text>
-          </View>
-
-          {quote.discountTotal > 0 && (
-            <View style={styles.totalRow}>
-              <Text style={styles.totalLabel}>Discount</Text>
-              <Text style={styles.totalValue}>-{formatCurrency(quote.discountTotal, currency)}</Text>
-            </View>
-          )}
-
-          {quote.shippingTotal > 0 && (
-            <View style={styles.totalRow}>
-              <Text style={styles.totalLabel}>Shipping</Text>
-              <Text style={styles.totalValue}>{formatCurrency(quote.shippingTotal, currency)}</Text>
-            </View>
-          )}
-
-          <View style={styles.totalRow}>
-            <Text style={styles.totalLabel}>Tax</Text>
-            <Text style={styles.totalValue}>{formatCurrency(quote.taxTotal || 0, currency)}</Text>
-          </View>
-
-          <View style={styles.grandTotal}>
-            <Text style={styles.grandTotalLabel}>Total</Text>
-            <Text style={styles.grandTotalValue}>{formatCurrency(quote.total || 0, currency)}</Text>
-          </View>
-        </View>
-
-        {/* Terms & Notes */}
-        {includeTerms && includeNotes && (quote.terms?.paymentTerms || quote.terms?.deliveryTerms || quote.terms?.notes) && (
-          <View style={styles.notes}>
-            {quote.terms?.paymentTerms && (
-              <>
-                <Text style={styles.notesTitle}>Payment Terms</Text>
-                <Text style={styles.notesText}>{quote.terms.paymentTerms}</Text>
-              </>
-            )}
-            {quote.terms?.deliveryTerms && (
-              <>
-                <Text style={[styles.notesTitle, { marginTop: config.spacing.sm }]}>Delivery Terms</Text>
-                <Text style={styles.notesText}>{quote.terms.deliveryTerms}</Text>
-              </>
-            )}
-            {quote.terms?.notes && (
-              <>
-                <Text style={[styles.notesTitle, { marginTop: config.spacing.sm }]}>Notes</Text>
-                <Text style={styles.notesText}>{quote.terms.notes}</Text>
-              </>
-            )}
-          </View>
-        )}
-
-        {/* Footer */}
-        {includeFooter && (
-          <View style={styles.footer}>
-            <Text>Thank you for your business!</Text>
-            <Text>This quote is valid until {formatDate(quote.expiresAt)}.</Text>
-            {quote.terms?.validityPeriod && (
-              <Text>Quote valid for {quote.terms.validityPeriod} days.</Text>
-            )}
-            {pageNumbers && <Text render={({ pageNumber, totalPages }) => (
-              `Page ${pageNumber} of ${totalPages}`
-            )} />}
-          </View>
-        )}
-      </Page>
-    </Document>
-  );
-};
-
 // ============================================================================
 // PDF Download Button Component
 // ============================================================================
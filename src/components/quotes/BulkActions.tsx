@@ -22,6 +22,7 @@ import {
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
 import { useToastHelpers } from '@/components/ui/Toast';
+import { useSendQuoteEmail } from '@/hooks/useQuotes';
 import { cn } from '@/lib/utils';
 import type { Quote, QuoteStatus } from '@/types/quote';
 import { QuoteStatusLabels, QuoteStatusColors, QuoteStatus as QuoteStatusEnum } from '@/types/quote';
@@ -74,6 +75,7 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
   className,
 }) => {
   const { success, error: showError } = useToastHelpers();
+  const { sendQuoteEmail } = useSendQuoteEmail();
   const [showDropdown, setShowDropdown] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [showStatusModal, setShowStatusModal] = useState(false);
@@ -132,6 +134,11 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
           progress: Math.round(((i + 1) / total) * 100),
         }));
 
+        if (action === 'sendEmail') {
+          await sendQuoteEmail(quoteId);
+          continue;
+        }
+
         // TODO: Replace with actual API call
         await new Promise((resolve) => setTimeout(resolve, 300));
 
@@ -147,9 +154,6 @@ export const BulkActions: React.FC<BulkActionsProps> = ({
           case 'export':
             // Export to CSV
             break;
-          case 'sendEmail':
-            // Send email
-            break;
         }
       }
 
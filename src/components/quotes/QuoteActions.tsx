@@ -7,8 +7,8 @@
 'use client';
 
 import React, { useState, useCallback } from 'react';
-import { getQuoteActions, canEditQuote, type StatusAction } from '@/lib/quoteWorkflow';
-import { QuoteStatus } from '@/types/quote';
+import { getQuoteActions, canEditQuote, canReviseQuote, type StatusAction } from '@/lib/quoteWorkflow';
+import { QuoteStatus, type QuoteWorkflowDefinition } from '@/types/quote';
 import { Button } from '@/components/ui/Button';
 import { Modal } from '@/components/ui/Modal';
 import { cn } from '@/lib/utils';
@@ -21,7 +21,11 @@ interface QuoteActionsProps {
   quoteId: string;
   currentStatus: QuoteStatus;
   quoteNumber?: string;
-  onStatusChange?: (newStatus: QuoteStatus, comment?: string) => Promise<void>;
+  /** The shop's workflow; the default one when omitted */
+  workflow?: QuoteWorkflowDefinition;
+  /** Hides transitions the workflow keeps from this role */
+  memberRole?: string | null;
+  onStatusChange?: (newStatus: string, comment?: string) => Promise<void>;
   onEdit?: () => void;
   onView?: () => void;
   onDownload?: () => void;
@@ -93,6 +97,8 @@ export const QuoteActions: React.FC<QuoteActionsProps> = ({
   quoteId,
   currentStatus,
   quoteNumber,
+  workflow,
+  memberRole,
   onStatusChange,
   onEdit,
   onView,
@@ -112,11 +118,12 @@ export const QuoteActions: React.FC<QuoteActionsProps> = ({
   const isAnyLoading = isLoading || isProcessing;
 
   // Get available actions based on current status
-  const actions = getQuoteActions(currentStatus);
+  const actions = getQuoteActions(currentStatus, workflow, memberRole);
+  const isEditable = canEditQuote(currentStatus, workflow) || canReviseQuote(currentStatus);
 
   // Handle action click
   const handleActionClick = useCallback((action: StatusAction) => {
-    if (action.requiresConfirmation) {
+    if (action.requiresConfirmation || action.requiresComment) {
       setConfirmation({
         isOpen: true,
         action,
@@ -171,7 +178,7 @@ export const QuoteActions: React.FC<QuoteActionsProps> = ({
   if (variant === 'compact') {
     return (
       <div className={cn('flex items-center gap-2', className)}>
-        {canEditQuote(currentStatus) && onEdit && (
+        {isEditable && onEdit && (
           <Button
             variant="ghost"
             size={size}
@@ -226,8 +233,8 @@ export const QuoteActions: React.FC<QuoteActionsProps> = ({
   // Default variant
   return (
     <div className={cn('flex flex-wrap items-center gap-2', className)}>
-      {/* Edit button for editable statuses */}
-      {canEditQuote(currentStatus) && onEdit && (
+      {/* Edit button for editable statuses; sent quotes are revised instead */}
+      {isEditable && onEdit && (
         <Button
           variant="secondary"
           size={size}
@@ -236,7 +243,7 @@ export const QuoteActions: React.FC<QuoteActionsProps> = ({
           disabled={isAnyLoading}
         >
           {renderIcon('PencilIcon')}
-          <span className="ml-2">Edit</span>
+          <span className="ml-2">{canReviseQuote(currentStatus) ? 'Revise' : 'Edit'}</span>
         </Button>
       )}
 
@@ -324,6 +331,8 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
 
   const isRejection = confirmation.action.status === QuoteStatus.REJECTED;
   const isAcceptance = confirmation.action.status === QuoteStatus.ACCEPTED;
+  const { requiresComment } = confirmation.action;
+  const commentLabel = isRejection ? 'Reason for declining' : 'Add a comment';
 
   return (
     <Modal
@@ -342,7 +351,7 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
 
         <div>
           <label className="block text-sm font-medium text-slate-300 mb-2">
-            {isRejection ? 'Reason for declining (optional)' : 'Add a comment (optional)'}
+            {commentLabel} {requiresComment ? '(required)' : '(optional)'}
           </label>
           <textarea
             value={confirmation.comment}
@@ -369,6 +378,7 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
             variant={isAcceptance ? 'primary' : isRejection ? 'danger' : 'primary'}
             onClick={onConfirm}
             isLoading={isProcessing}
+            disabled={requiresComment && !confirmation.comment.trim()}
           >
             {isAcceptance && 'Accept Quote'}
             {isRejection && 'Decline Quote'}
@@ -0,0 +1,227 @@
+/**
+ * Quote Revision Diff Component
+ * Side-by-side comparison of line items, terms and totals between two
+ * versions of a quote
+ * @module components/quotes/QuoteRevisionDiff
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useQuoteRevisions } from '@/hooks/useQuotes';
+import { formatQuoteNumber } from '@/lib/quotes';
+import {
+  diffQuoteRevisions,
+  type DiffValue,
+  type FieldDiff,
+  type LineItemDiff,
+  type RevisionChange,
+} from '@/lib/quoteRevisions';
+import { cn, formatCurrency, formatDateTime } from '@/lib/utils';
+import { Skeleton } from '@/components/ui/Skeleton';
+import type { LineItem, QuoteRevision } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface QuoteRevisionDiffProps {
+  quoteId: string;
+  quoteNumber: string;
+  className?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const CHANGE_STYLES: Record<RevisionChange, string> = {
+  added: 'bg-emerald-500/5',
+  removed: 'bg-red-500/5',
+  changed: 'bg-amber-500/5',
+  unchanged: '',
+};
+
+const CHANGE_LABELS: Record<RevisionChange, string | null> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: null,
+};
+
+const selectClassName = 'px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50';
+
+function revisionLabel(quoteNumber: string, revision: QuoteRevision): string {
+  const label = formatQuoteNumber(quoteNumber, revision.revision);
+  return revision.isCurrent ? `${label} (current)` : label;
+}
+
+const LineItemCell: React.FC<{
+  item?: LineItem;
+  currency: string;
+  changedFields: LineItemDiff['changedFields'];
+}> = ({ item, currency, changedFields }) => {
+  if (!item) {
+    return <td className="px-4 py-3 text-sm text-slate-600">—</td>;
+  }
+
+  const highlight = (field: keyof LineItem) => changedFields.includes(field) && 'text-amber-300';
+
+  return (
+    <td className="px-4 py-3 text-sm">
+      <p className={cn('font-medium text-slate-200', highlight('title'))}>{item.title}</p>
+      <p className="text-slate-400">
+        <span className={cn(highlight('quantity'))}>{item.quantity}</span>
+        {' × '}
+        <span className={cn(highlight('unitPrice'))}>{formatCurrency(item.unitPrice, currency)}</span>
+        {item.discountPercentage ? (
+          <span className={cn(highlight('discountPercentage'))}> −{item.discountPercentage}%</span>
+        ) : null}
+        {' = '}
+        <span className={cn('text-slate-200', highlight('total'))}>{formatCurrency(item.total, currency)}</span>
+      </p>
+      {item.notes && <p className={cn('text-xs text-slate-500 mt-1', highlight('notes'))}>{item.notes}</p>}
+    </td>
+  );
+};
+
+const FieldRows: React.FC<{
+  title: string;
+  rows: FieldDiff[];
+  format: (field: string, value: DiffValue) => string;
+}> = ({ title, rows, format }) => (
+  <>
+    <tr className="bg-slate-800/50">
+      <th colSpan={3} className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">{title}</th>
+    </tr>
+    {rows.map((row) => (
+      <tr key={row.field} className={cn(row.changed && CHANGE_STYLES.changed)}>
+        <td className="px-4 py-2 text-sm text-slate-400">{row.label}</td>
+        <td className={cn('px-4 py-2 text-sm', row.changed ? 'text-slate-400 line-through' : 'text-slate-300')}>
+          {format(row.field, row.before)}
+        </td>
+        <td className={cn('px-4 py-2 text-sm', row.changed ? 'text-amber-300' : 'text-slate-300')}>
+          {format(row.field, row.after)}
+        </td>
+      </tr>
+    ))}
+  </>
+);
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export const QuoteRevisionDiff: React.FC<QuoteRevisionDiffProps> = ({ quoteId, quoteNumber, className }) => {
+  const { revisions, isLoading } = useQuoteRevisions(quoteId);
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+
+  // By default the current version is compared with the one it replaced
+  const to = revisions.find((r) => r.revision === toRevision) ?? revisions[revisions.length - 1];
+  const from = revisions.find((r) => r.revision === fromRevision) ?? revisions[revisions.length - 2];
+
+  const diff = useMemo(() => (from && to ? diffQuoteRevisions(from, to) : null), [from, to]);
+
+  if (isLoading) {
+    return <Skeleton className={cn('h-64', className)} />;
+  }
+
+  if (!from || !to || !diff) {
+    return null;
+  }
+
+  const currency = to.terms.currency;
+
+  const formatTerm = (field: string, value: DiffValue) => {
+    if (value === undefined) return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (field === 'depositPercentage') return `${value}%`;
+    return String(value);
+  };
+
+  const formatTotal = (field: string, value: DiffValue) => {
+    if (value === undefined) return '—';
+    return field === 'taxRate' ? `${value}%` : formatCurrency(Number(value), currency);
+  };
+
+  return (
+    <div className={cn('bg-slate-900 border border-slate-800 rounded-xl overflow-hidden', className)}>
+      <div className="p-6 border-b border-slate-800 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h2 className="text-lg font-semibold text-slate-200">Revisions</h2>
+        <div className="flex items-center gap-2 text-sm text-slate-400">
+          <label htmlFor="revision-from" className="sr-only">Compare from</label>
+          <select
+            id="revision-from"
+            value={from.revision}
+            onChange={(e) => setFromRevision(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {revisions.map((revision) => (
+              <option key={revision.revision} value={revision.revision}>
+                {revisionLabel(quoteNumber, revision)}
+              </option>
+            ))}
+          </select>
+          <span>→</span>
+          <label htmlFor="revision-to" className="sr-only">Compare to</label>
+          <select
+            id="revision-to"
+            value={to.revision}
+            onChange={(e) => setToRevision(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {revisions.map((revision) => (
+              <option key={revision.revision} value={revision.revision}>
+                {revisionLabel(quoteNumber, revision)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!diff.hasChanges && (
+        <p className="px-6 py-4 text-sm text-slate-500">These versions are identical.</p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-800">
+              <th className="px-4 py-3 w-32" />
+              <th className="px-4 py-3 text-left text-xs font-medium text-slate-400">
+                {formatQuoteNumber(quoteNumber, from.revision)}
+                {from.supersededAt && (
+                  <span className="block font-normal text-slate-500">
+                    replaced {formatDateTime(from.supersededAt)}
+                    {from.supersededByName && ` by ${from.supersededByName}`}
+                  </span>
+                )}
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-slate-400">
+                {formatQuoteNumber(quoteNumber, to.revision)}
+                {to.isCurrent && <span className="block font-normal text-slate-500">current version</span>}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            <tr className="bg-slate-800/50">
+              <th colSpan={3} className="px-4 py-2 text-left text-xs font-medium text-slate-400 uppercase">Line Items</th>
+            </tr>
+            {diff.lineItems.map((item) => (
+              <tr key={item.key} className={CHANGE_STYLES[item.change]}>
+                <td className="px-4 py-3 text-xs text-slate-500 align-top">{CHANGE_LABELS[item.change]}</td>
+                <LineItemCell item={item.before} currency={currency} changedFields={item.changedFields} />
+                <LineItemCell item={item.after} currency={currency} changedFields={item.changedFields} />
+              </tr>
+            ))}
+            <FieldRows title="Terms" rows={diff.terms} format={formatTerm} />
+            <FieldRows title="Totals" rows={diff.totals} format={formatTotal} />
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteRevisionDiff;
@@ -7,8 +7,15 @@
 'use client';
 
 import React, { useState } from 'react';
-import type { StatusChangeRecord } from '@/lib/quoteWorkflow';
-import { QuoteStatus } from '@/types/quote';
+import {
+  STATUS_METADATA,
+  getStatusLabel,
+  getWorkflowStatus,
+  isBuiltInStatus,
+  type StatusChangeRecord,
+} from '@/lib/quoteWorkflow';
+import type { Activity, QuoteWorkflowDefinition } from '@/types/quote';
+import { ActivityType, QuoteStatus } from '@/types/quote';
 import { cn, formatDateTime } from '@/lib/utils';
 
 // ============================================================================
@@ -17,6 +24,10 @@ import { cn, formatDateTime } from '@/lib/utils';
 
 interface StatusHistoryProps {
   history: StatusChangeRecord[];
+  /** Quote activities; email delivery events among them are shown in the timeline */
+  emailEvents?: Activity[];
+  /** The shop's workflow, for the labels of its custom statuses */
+  workflow?: QuoteWorkflowDefinition;
   className?: string;
   maxItems?: number;
   showLoadMore?: boolean;
@@ -24,10 +35,20 @@ interface StatusHistoryProps {
 
 interface TimelineItemProps {
   record: StatusChangeRecord;
+  workflow?: QuoteWorkflowDefinition;
   isLast: boolean;
   index: number;
 }
 
+interface EmailEventItemProps {
+  event: Activity;
+  isLast: boolean;
+}
+
+type TimelineEntry =
+  | { kind: 'status'; id: string; at: number; record: StatusChangeRecord }
+  | { kind: 'email'; id: string; at: number; event: Activity };
+
 // ============================================================================
 // Status Configuration
 // ============================================================================
@@ -43,6 +64,11 @@ const STATUS_ICONS: Record<QuoteStatus, React.FC<{ className?: string }>> = {
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
     </svg>
   ),
+  [QuoteStatus.PENDING_APPROVAL]: ({ className }) => (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v3.75m0-10.036A11.959 11.959 0 013.598 6 11.99 11.99 0 003 9.75c0 5.592 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.57-.598-3.75h-.152c-3.196 0-6.1-1.249-8.25-3.286zm0 13.036h.008v.008H12v-.008z" />
+    </svg>
+  ),
   [QuoteStatus.SENT]: ({ className }) => (
     <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
@@ -89,6 +115,12 @@ const STATUS_COLORS: Record<QuoteStatus, { bg: string; border: string; text: str
     text: 'text-amber-400',
     icon: 'text-amber-500',
   },
+  [QuoteStatus.PENDING_APPROVAL]: {
+    bg: 'bg-orange-500/10',
+    border: 'border-orange-500/30',
+    text: 'text-orange-400',
+    icon: 'text-orange-500',
+  },
   [QuoteStatus.SENT]: {
     bg: 'bg-indigo-500/10',
     border: 'border-indigo-500/30',
@@ -127,25 +159,75 @@ const STATUS_COLORS: Record<QuoteStatus, { bg: string; border: string; text: str
   },
 };
 
-const STATUS_LABELS: Record<QuoteStatus, string> = {
-  [QuoteStatus.DRAFT]: 'Draft',
-  [QuoteStatus.PENDING]: 'Pending',
-  [QuoteStatus.SENT]: 'Sent',
-  [QuoteStatus.VIEWED]: 'Viewed',
-  [QuoteStatus.ACCEPTED]: 'Accepted',
-  [QuoteStatus.REJECTED]: 'Declined',
-  [QuoteStatus.EXPIRED]: 'Expired',
-  [QuoteStatus.CONVERTED]: 'Converted',
+/**
+ * Colors, icon and label of a status. Custom workflow statuses borrow the
+ * style of the built-in status with the same color and icon.
+ */
+function getStatusStyle(status: string, workflow?: QuoteWorkflowDefinition) {
+  const definition = getWorkflowStatus(status, workflow);
+  const findBuiltIn = (matches: (meta: typeof STATUS_METADATA[QuoteStatus]) => boolean) =>
+    Object.values(QuoteStatus).find((key) => matches(STATUS_METADATA[key]));
+
+  const colorKey = isBuiltInStatus(status)
+    ? status
+    : findBuiltIn((meta) => meta.color === definition?.color) ?? QuoteStatus.PENDING;
+  const iconKey = isBuiltInStatus(status)
+    ? status
+    : findBuiltIn((meta) => meta.icon === definition?.icon) ?? colorKey;
+
+  return {
+    colors: STATUS_COLORS[colorKey],
+    Icon: STATUS_ICONS[iconKey],
+    label: getStatusLabel(status, workflow),
+  };
+}
+
+const EMAIL_EVENT_CONFIG: Partial<Record<ActivityType, { label: string; dot: string; text: string }>> = {
+  [ActivityType.EMAIL_DELIVERED]: { label: 'Email delivered', dot: 'bg-sky-500', text: 'text-sky-400' },
+  [ActivityType.EMAIL_OPENED]: { label: 'Email opened', dot: 'bg-sky-500', text: 'text-sky-400' },
+  [ActivityType.EMAIL_CLICKED]: { label: 'Link clicked', dot: 'bg-purple-500', text: 'text-purple-400' },
+  [ActivityType.EMAIL_BOUNCED]: { label: 'Email bounced', dot: 'bg-red-500', text: 'text-red-400' },
+  [ActivityType.EMAIL_COMPLAINED]: { label: 'Marked as spam', dot: 'bg-amber-500', text: 'text-amber-400' },
+};
+
+// ============================================================================
+// Email Event Item Component
+// ============================================================================
+
+const EmailEventItem: React.FC<EmailEventItemProps> = ({ event, isLast }) => {
+  const config = EMAIL_EVENT_CONFIG[event.type];
+  if (!config) return null;
+
+  return (
+    <div className="relative flex gap-4">
+      {!isLast && (
+        <div className="absolute left-5 top-6 bottom-0 w-px bg-slate-700/50 -translate-x-1/2" />
+      )}
+
+      <div className="relative z-10 flex-shrink-0 w-10 flex justify-center pt-1.5">
+        <div className={cn('w-3 h-3 rounded-full', config.dot)} />
+      </div>
+
+      <div className="flex-1 min-w-0 pb-6 flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className={cn('text-sm font-medium', config.text)}>{config.label}</p>
+          <p className="text-sm text-slate-500 truncate">{event.description}</p>
+        </div>
+        <time className="text-sm text-slate-500 whitespace-nowrap" dateTime={new Date(event.createdAt).toISOString()}>
+          {formatDateTime(event.createdAt)}
+        </time>
+      </div>
+    </div>
+  );
 };
 
 // ============================================================================
 // Timeline Item Component
 // ============================================================================
 
-const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast, index }) => {
+const TimelineItem: React.FC<TimelineItemProps> = ({ record, workflow, isLast, index }) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const colors = STATUS_COLORS[record.toStatus];
-  const IconComponent = STATUS_ICONS[record.toStatus];
+  const { colors, Icon: IconComponent, label } = getStatusStyle(record.toStatus, workflow);
   
   const formattedDate = formatDateTime(record.changedAt);
   const hasComment = !!record.comment;
@@ -187,12 +269,15 @@ const TimelineItem: React.FC<TimelineItemProps> = ({ record, isLast, index }) =>
           >
             <div className="flex items-center gap-3">
               <span className={cn('font-medium', colors.text)}>
-                {STATUS_LABELS[record.toStatus]}
+                {label}
               </span>
               <span className="text-slate-500">→</span>
               <span className="text-slate-400 text-sm">
-                from {STATUS_LABELS[record.fromStatus]}
+                from {getStatusLabel(record.fromStatus, workflow)}
               </span>
+              {record.revision !== undefined && record.revision > 1 && (
+                <span className="text-xs text-slate-500">rev {record.revision}</span>
+              )}
             </div>
             
             <div className="flex items-center gap-2">
@@ -291,35 +376,50 @@ const EmptyState: React.FC = () => (
 
 export const StatusHistory: React.FC<StatusHistoryProps> = ({
   history,
+  emailEvents = [],
+  workflow,
   className,
   maxItems = 10,
   showLoadMore = true,
 }) => {
   const [displayCount, setDisplayCount] = useState(maxItems);
   
-  // Sort history by date (newest first)
-  const sortedHistory = [...history].sort(
-    (a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime()
-  );
+  // Merge status changes with email delivery events, newest first
+  const sortedHistory: TimelineEntry[] = [
+    ...history.map((record) => ({
+      kind: 'status' as const,
+      id: record.id,
+      at: new Date(record.changedAt).getTime(),
+      record,
+    })),
+    ...emailEvents
+      .filter((event) => EMAIL_EVENT_CONFIG[event.type])
+      .map((event) => ({
+        kind: 'email' as const,
+        id: event.id,
+        at: new Date(event.createdAt).getTime(),
+        event,
+      })),
+  ].sort((a, b) => b.at - a.at);
   
   const displayHistory = sortedHistory.slice(0, displayCount);
   const hasMore = sortedHistory.length > displayCount;
   
-  if (history.length === 0) {
+  if (sortedHistory.length === 0) {
     return <EmptyState />;
   }
   
   return (
     <div className={cn('space-y-4', className)}>
       <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-        {displayHistory.map((record, index) => (
-          <TimelineItem
-            key={record.id}
-            record={record}
-            isLast={index === displayHistory.length - 1 && !hasMore}
-            index={index}
-          />
-        ))}
+        {displayHistory.map((entry, index) => {
+          const isLast = index === displayHistory.length - 1 && !hasMore;
+          return entry.kind === 'status' ? (
+            <TimelineItem key={entry.id} record={entry.record} workflow={workflow} isLast={isLast} index={index} />
+          ) : (
+            <EmailEventItem key={entry.id} event={entry.event} isLast={isLast} />
+          );
+        })}
       </div>
       
       {hasMore && showLoadMore && (
@@ -340,12 +440,14 @@ export const StatusHistory: React.FC<StatusHistoryProps> = ({
 
 interface CompactStatusHistoryProps {
   history: StatusChangeRecord[];
+  workflow?: QuoteWorkflowDefinition;
   className?: string;
   maxItems?: number;
 }
 
 export const CompactStatusHistory: React.FC<CompactStatusHistoryProps> = ({
   history,
+  workflow,
   className,
   maxItems = 3,
 }) => {
@@ -367,8 +469,7 @@ export const CompactStatusHistory: React.FC<CompactStatusHistoryProps> = ({
   return (
     <div className={cn('space-y-2', className)}>
       {displayHistory.map((record) => {
-        const colors = STATUS_COLORS[record.toStatus];
-        const IconComponent = STATUS_ICONS[record.toStatus];
+        const { colors, Icon: IconComponent, label } = getStatusStyle(record.toStatus, workflow);
         
         return (
           <div
@@ -379,10 +480,10 @@ export const CompactStatusHistory: React.FC<CompactStatusHistoryProps> = ({
               <IconComponent className="w-3 h-3" />
             </div>
             <span className={cn('font-medium', colors.text)}>
-              {STATUS_LABELS[record.toStatus]}
+              {label}
             </span>
             <span className="text-slate-500">→</span>
-            <span className="text-slate-400">{STATUS_LABELS[record.fromStatus]}</span>
+            <span className="text-slate-400">{getStatusLabel(record.fromStatus, workflow)}</span>
             <span className="text-slate-600">·</span>
             <time className="text-slate-500" dateTime={record.changedAt}>
               {new Date(record.changedAt).toLocaleDateString()}
@@ -405,7 +506,9 @@ export const CompactStatusHistory: React.FC<CompactStatusHistoryProps> = ({
 // ============================================================================
 
 interface StatusBadgeProps {
-  status: QuoteStatus;
+  /** A QuoteStatus or a custom status of the workflow */
+  status: string;
+  workflow?: QuoteWorkflowDefinition;
   className?: string;
   showIcon?: boolean;
   size?: 'sm' | 'md' | 'lg';
@@ -413,12 +516,12 @@ interface StatusBadgeProps {
 
 export const StatusBadge: React.FC<StatusBadgeProps> = ({
   status,
+  workflow,
   className,
   showIcon = true,
   size = 'md',
 }) => {
-  const colors = STATUS_COLORS[status];
-  const IconComponent = STATUS_ICONS[status];
+  const { colors, Icon: IconComponent, label } = getStatusStyle(status, workflow);
   
   const sizeClasses = {
     sm: 'px-2 py-0.5 text-xs',
@@ -443,7 +546,7 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
       )}
     >
       {showIcon && <IconComponent className={iconSizes[size]} />}
-      {STATUS_LABELS[status]}
+      {label}
     </span>
   );
 };
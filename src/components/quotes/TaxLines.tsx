@@ -0,0 +1,63 @@
+/**
+ * Tax Lines Component
+ * The tax rows of a quote summary: one per rate charged, or a note that
+ * the customer is exempt
+ * @module components/quotes/TaxLines
+ */
+
+'use client';
+
+import React from 'react';
+import { formatTaxLineLabel } from '@/lib/tax';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { QuoteCalculations } from '@/types/quote';
+
+interface TaxLinesProps {
+  calculations: Pick<QuoteCalculations, 'taxBreakdown' | 'taxTotal' | 'pricesIncludeTax' | 'taxExempt'>;
+  currency?: string;
+  /** Classes of each label/amount row */
+  className?: string;
+  labelClassName?: string;
+  valueClassName?: string;
+}
+
+export const TaxLines: React.FC<TaxLinesProps> = ({
+  calculations,
+  currency = 'USD',
+  className,
+  labelClassName = 'text-slate-400',
+  valueClassName = 'text-slate-200',
+}) => {
+  const rowClassName = cn('flex justify-between', className);
+
+  if (calculations.taxExempt) {
+    return (
+      <div className={rowClassName}>
+        <span className={labelClassName}>Tax exempt</span>
+        <span className={valueClassName}>{formatCurrency(0, currency)}</span>
+      </div>
+    );
+  }
+
+  if (calculations.taxBreakdown.length === 0) {
+    return (
+      <div className={rowClassName}>
+        <span className={labelClassName}>Tax</span>
+        <span className={valueClassName}>{formatCurrency(calculations.taxTotal, currency)}</span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {calculations.taxBreakdown.map((line) => (
+        <div key={line.rate} className={rowClassName} data-testid="tax-line">
+          <span className={labelClassName}>{formatTaxLineLabel(line.rate, calculations.pricesIncludeTax)}</span>
+          <span className={valueClassName}>{formatCurrency(line.taxAmount, currency)}</span>
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default TaxLines;
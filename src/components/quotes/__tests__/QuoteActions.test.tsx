@@ -7,7 +7,9 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { QuoteActions } from '../QuoteActions';
+import { DEFAULT_WORKFLOW } from '@/lib/quoteWorkflow';
 import { QuoteStatus } from '@/types/quote';
+import type { QuoteWorkflowDefinition } from '@/types/quote';
 
 // Mock the UI components
 jest.mock('@/components/ui/Button', () => ({
@@ -268,7 +270,7 @@ describe('QuoteActions Component', () => {
       const { container } = render(
         <QuoteActions 
           {...defaultProps} 
-          currentStatus={QuoteStatus.ACCEPTED}
+          currentStatus={QuoteStatus.CONVERTED}
           onEdit={undefined}
           onView={undefined}
           onDownload={undefined}
@@ -281,6 +283,77 @@ describe('QuoteActions Component', () => {
     });
   });
 
+  describe('Shop Workflow', () => {
+    const workflow: QuoteWorkflowDefinition = {
+      statuses: [
+        ...DEFAULT_WORKFLOW.statuses,
+        {
+          key: 'negotiating',
+          label: 'Negotiating',
+          description: 'Terms are being worked out',
+          color: 'bg-purple-500',
+          icon: 'EyeIcon',
+          isFinal: false,
+          canEdit: true,
+          isCustom: true,
+        },
+      ],
+      transitions: [
+        {
+          from: [QuoteStatus.SENT],
+          to: 'negotiating',
+          action: 'Start Negotiating',
+          requiresConfirmation: false,
+          requiresComment: true,
+          allowedRoles: [],
+        },
+        {
+          from: [QuoteStatus.SENT],
+          to: QuoteStatus.ACCEPTED,
+          action: 'Mark as Accepted',
+          requiresConfirmation: true,
+          requiresComment: false,
+          allowedRoles: ['owner', 'admin'],
+        },
+      ],
+      isDefault: false,
+    };
+
+    test('should show the shop workflow actions the member may take', () => {
+      render(
+        <QuoteActions {...defaultProps} currentStatus={QuoteStatus.SENT} workflow={workflow} memberRole="sales" />
+      );
+
+      expect(screen.getByText('Start Negotiating')).toBeInTheDocument();
+      expect(screen.queryByText('Mark as Accepted')).not.toBeInTheDocument();
+      expect(screen.queryByText('Mark as Viewed')).not.toBeInTheDocument();
+    });
+
+    test('should ask for a required comment before changing status', async () => {
+      const onStatusChange = jest.fn().mockResolvedValue(undefined);
+      render(
+        <QuoteActions
+          {...defaultProps}
+          currentStatus={QuoteStatus.SENT}
+          workflow={workflow}
+          onStatusChange={onStatusChange}
+        />
+      );
+
+      await userEvent.click(screen.getByText('Start Negotiating'));
+
+      expect(screen.getByText(/\(required\)/)).toBeInTheDocument();
+      expect(screen.getByText('Confirm')).toBeDisabled();
+
+      await userEvent.type(screen.getByPlaceholderText(/notes/i), 'Customer wants net 60');
+      await userEvent.click(screen.getByText('Confirm'));
+
+      await waitFor(() => {
+        expect(onStatusChange).toHaveBeenCalledWith('negotiating', 'Customer wants net 60');
+      });
+    });
+  });
+
   describe('Error Handling', () => {
     test('should handle status change errors gracefully', async () => {
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
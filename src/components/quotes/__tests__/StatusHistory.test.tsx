@@ -6,8 +6,8 @@
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { StatusHistory, CompactStatusHistory, StatusBadge } from '../StatusHistory';
-import { QuoteStatus } from '@/types/quote';
-import type { StatusChangeRecord } from '@/lib/quoteWorkflow';
+import { ActivityType, QuoteStatus } from '@/types/quote';
+import { DEFAULT_WORKFLOW, type StatusChangeRecord } from '@/lib/quoteWorkflow';
 
 // Mock the utils
 jest.mock('@/lib/utils', () => ({
@@ -197,6 +197,29 @@ describe('StatusHistory Component', () => {
       expect(screen.getByText('Expired')).toBeInTheDocument();
       expect(screen.getByText('Converted')).toBeInTheDocument();
     });
+
+    test('should show email delivery events between status changes', () => {
+      const emailEvents = [
+        {
+          id: 'act-1',
+          type: ActivityType.EMAIL_OPENED,
+          description: 'Quote QT-001 email opened by john@example.com',
+          createdAt: new Date('2024-01-16T12:00:00Z'),
+        },
+        {
+          id: 'act-2',
+          type: ActivityType.QUOTE_SENT,
+          description: 'Quote QT-001 sent',
+          createdAt: new Date('2024-01-15T10:00:00Z'),
+        },
+      ];
+
+      render(<StatusHistory history={mockHistory} emailEvents={emailEvents} />);
+
+      expect(screen.getByText('Email opened')).toBeInTheDocument();
+      expect(screen.getByText('Quote QT-001 email opened by john@example.com')).toBeInTheDocument();
+      expect(screen.queryByText('Quote QT-001 sent')).not.toBeInTheDocument();
+    });
   });
 
   describe('CompactStatusHistory', () => {
@@ -271,6 +294,33 @@ describe('StatusHistory Component', () => {
       });
     });
 
+    test('should label custom statuses from the shop workflow', () => {
+      const workflow = {
+        ...DEFAULT_WORKFLOW,
+        statuses: [
+          ...DEFAULT_WORKFLOW.statuses,
+          {
+            key: 'negotiating',
+            label: 'Negotiating',
+            description: 'Terms are being worked out',
+            color: 'bg-purple-500',
+            icon: 'EyeIcon',
+            isFinal: false,
+            canEdit: true,
+            isCustom: true,
+          },
+        ],
+        isDefault: false,
+      };
+
+      const { rerender } = render(<StatusBadge status="negotiating" workflow={workflow} />);
+      expect(screen.getByText('Negotiating')).toBeInTheDocument();
+
+      // Without the shop workflow the raw key is all there is to show
+      rerender(<StatusBadge status="negotiating" />);
+      expect(screen.getByText('negotiating')).toBeInTheDocument();
+    });
+
     test('should support different sizes', () => {
       const { rerender } = render(<StatusBadge status={QuoteStatus.SENT} size="sm" />);
       expect(screen.getByText('Sent')).toBeInTheDocument();
@@ -8,3 +8,5 @@ export { QuoteActions } from './QuoteActions';
 export { QuoteFilters } from './QuoteFilters';
 export { BulkActions } from './BulkActions';
 export { StatusHistory, CompactStatusHistory, StatusBadge } from './StatusHistory';
+export { QuoteRevisionDiff } from './QuoteRevisionDiff';
+export { TaxLines } from './TaxLines';
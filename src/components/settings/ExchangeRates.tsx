@@ -0,0 +1,186 @@
+/**
+ * Exchange Rates Component
+ * The shop's rates from its base currency to the currencies it quotes in;
+ * owners and admins edit them by hand or import a rates file
+ * @module components/settings/ExchangeRates
+ */
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { ArrowUpTrayIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { useToastHelpers } from '@/components/ui/Toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useExchangeRates, useSaveExchangeRates } from '@/hooks/useSettings';
+import { CURRENCY_CODE_PATTERN, getCurrencyLabel, listCurrencyCodes } from '@/lib/exchangeRates';
+import { formatDate } from '@/lib/utils';
+import type { ExchangeRate } from '@/types/quote';
+
+interface ExchangeRatesProps {
+  shopId?: string;
+  /** The saved base currency; rates are quoted against it */
+  baseCurrency: string;
+}
+
+interface RateDraft {
+  currency: string;
+  rate: string;
+  rateInfo?: ExchangeRate;
+}
+
+const inputClassName = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const toDrafts = (rates: ExchangeRate[]): RateDraft[] =>
+  rates.map((rate) => ({ currency: rate.currency, rate: String(rate.rate), rateInfo: rate }));
+
+export const ExchangeRates: React.FC<ExchangeRatesProps> = ({ shopId, baseCurrency }) => {
+  const { can } = useAuth();
+  const { rates, isLoading } = useExchangeRates(shopId);
+  const { saveRates, importRates, isSaving } = useSaveExchangeRates(shopId);
+  const { success, error: showError } = useToastHelpers();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [drafts, setDrafts] = useState<RateDraft[]>([]);
+
+  // Edit from the stored rates once they load (and again after a save)
+  const [loadedRates, setLoadedRates] = useState(rates);
+  if (rates !== loadedRates) {
+    setLoadedRates(rates);
+    setDrafts(toDrafts(rates));
+  }
+
+  const canManage = can('settings:manage');
+  const currencies = listCurrencyCodes().filter((code) => code !== baseCurrency);
+
+  const updateDraft = (index: number, changes: Partial<RateDraft>) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes, rateInfo: undefined } : draft)));
+  };
+
+  const addDraft = () => {
+    const used = new Set(drafts.map((draft) => draft.currency));
+    setDrafts([...drafts, { currency: currencies.find((code) => !used.has(code)) ?? '', rate: '' }]);
+  };
+
+  const handleSave = async () => {
+    const invalid = drafts.find((draft) =>
+      !CURRENCY_CODE_PATTERN.test(draft.currency) || !(Number(draft.rate) > 0));
+    if (invalid) {
+      showError('Check the rates', `${invalid.currency || 'A currency'} needs a rate greater than 0`);
+      return;
+    }
+
+    try {
+      await saveRates(drafts.map((draft) => ({ currency: draft.currency, rate: Number(draft.rate) })));
+      success('Exchange rates saved');
+    } catch (err) {
+      showError('Failed to save exchange rates', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await importRates(await file.text());
+      success('Rates imported', `${file.name} updated the rates table; ${imported.length} currencies have a rate`);
+    } catch (err) {
+      showError('Failed to import rates', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-500">
+        How much of each currency one {baseCurrency} buys. A quote takes the rate of its currency when it is
+        sent, and analytics report every quote in {baseCurrency} at that rate. Quotes in a currency without
+        a rate cannot be sent.
+      </p>
+
+      <ul className="divide-y divide-slate-800">
+        {isLoading && <li className="py-3 text-slate-500">Loading rates...</li>}
+        {!isLoading && drafts.length === 0 && (
+          <li className="py-3 text-slate-500">No rates yet; quotes can only be sent in {baseCurrency}.</li>
+        )}
+        {drafts.map((draft, index) => (
+          <li key={index} className="py-3 grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
+            <span className="md:col-span-2 text-slate-400 text-sm">1 {baseCurrency} =</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={draft.rate}
+              onChange={(e) => updateDraft(index, { rate: e.target.value })}
+              disabled={!canManage}
+              className={`md:col-span-3 ${inputClassName}`}
+              aria-label={`Rate for ${draft.currency || 'new currency'}`}
+            />
+            <select
+              value={draft.currency}
+              onChange={(e) => updateDraft(index, { currency: e.target.value })}
+              disabled={!canManage}
+              className={`md:col-span-4 ${inputClassName}`}
+              aria-label="Currency"
+            >
+              {!currencies.includes(draft.currency) && <option value={draft.currency}>{draft.currency}</option>}
+              {currencies.map((code) => (
+                <option key={code} value={code}>{getCurrencyLabel(code)}</option>
+              ))}
+            </select>
+            <div className="md:col-span-3 flex items-center justify-end gap-3">
+              {draft.rateInfo && (
+                <Badge>{draft.rateInfo.source === 'import' ? 'Imported' : 'Manual'} {formatDate(draft.rateInfo.updatedAt)}</Badge>
+              )}
+              {canManage && (
+                <button
+                  onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                  className="p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+                  aria-label={`Remove ${draft.currency}`}
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {canManage && (
+        <div className="flex flex-wrap items-center justify-between gap-3 pt-6 border-t border-slate-800">
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={addDraft}>
+              <PlusIcon className="w-4 h-4 mr-2" />
+              Add Currency
+            </Button>
+            <Button variant="secondary" onClick={() => fileInputRef.current?.click()} disabled={isSaving}>
+              <ArrowUpTrayIcon className="w-4 h-4 mr-2" />
+              Import File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleImport}
+              className="hidden"
+              data-testid="exchange-rates-file"
+            />
+          </div>
+          <Button onClick={handleSave} isLoading={isSaving} disabled={!shopId}>
+            Save Rates
+          </Button>
+        </div>
+      )}
+      {canManage && (
+        <p className="text-xs text-slate-500">
+          Import a CSV of <code>currency,rate</code> lines, or JSON such as
+          {' '}<code>{`{"base": "${baseCurrency}", "rates": {"EUR": 0.92}}`}</code>. Imported rates are added to the
+          table; currencies missing from the file keep theirs.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRates;
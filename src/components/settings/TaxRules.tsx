@@ -0,0 +1,172 @@
+/**
+ * Tax Rules Component
+ * The shop's tax rates by country, or by state within a country; quotes
+ * take the rate for their customer's shipping address
+ * @module components/settings/TaxRules
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { useToastHelpers } from '@/components/ui/Toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useSaveTaxRules, useTaxRules } from '@/hooks/useSettings';
+import { COUNTRY_CODE_PATTERN, formatTaxRate } from '@/lib/tax';
+import type { TaxRule } from '@/types/quote';
+
+interface TaxRulesProps {
+  shopId?: string;
+  /** The saved default rate, for addresses no rule matches */
+  defaultRate: number;
+}
+
+interface RuleDraft {
+  name: string;
+  country: string;
+  region: string;
+  rate: string;
+}
+
+const inputClassName = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const toDrafts = (rules: TaxRule[]): RuleDraft[] =>
+  rules.map((rule) => ({ name: rule.name, country: rule.country, region: rule.region, rate: String(rule.rate) }));
+
+export const TaxRules: React.FC<TaxRulesProps> = ({ shopId, defaultRate }) => {
+  const { can } = useAuth();
+  const { rules, isLoading } = useTaxRules(shopId);
+  const { saveRules, isSaving } = useSaveTaxRules(shopId);
+  const { success, error: showError } = useToastHelpers();
+  const [drafts, setDrafts] = useState<RuleDraft[]>([]);
+
+  // Edit from the stored rules once they load (and again after a save)
+  const [loadedRules, setLoadedRules] = useState(rules);
+  if (rules !== loadedRules) {
+    setLoadedRules(rules);
+    setDrafts(toDrafts(rules));
+  }
+
+  const canManage = can('settings:manage');
+
+  const updateDraft = (index: number, changes: Partial<RuleDraft>) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSave = async () => {
+    const invalid = drafts.find((draft) => {
+      const rate = draft.rate.trim() === '' ? NaN : Number(draft.rate);
+      return !draft.name.trim()
+        || !COUNTRY_CODE_PATTERN.test(draft.country.trim().toUpperCase())
+        || !(rate >= 0 && rate <= 100);
+    });
+    if (invalid) {
+      showError('Check the tax rules', 'Each rule needs a name, a 2-letter country code and a rate from 0 to 100');
+      return;
+    }
+
+    try {
+      await saveRules(drafts.map((draft) => ({
+        name: draft.name.trim(),
+        country: draft.country.trim().toUpperCase(),
+        region: draft.region.trim(),
+        rate: Number(draft.rate),
+      })));
+      success('Tax rules saved');
+    } catch (err) {
+      showError('Failed to save tax rules', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-500">
+        Quotes are taxed at the rate for the customer&apos;s shipping address: a rule for its state wins over one
+        for its whole country, and addresses no rule covers get the default rate of {formatTaxRate(defaultRate)}.
+        Customers with a tax ID on file are not charged tax.
+      </p>
+
+      <ul className="divide-y divide-slate-800">
+        {isLoading && <li className="py-3 text-slate-500">Loading tax rules...</li>}
+        {!isLoading && drafts.length === 0 && (
+          <li className="py-3 text-slate-500">No rules yet; every quote is taxed at the default rate.</li>
+        )}
+        {drafts.map((draft, index) => (
+          <li key={index} className="py-3 grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => updateDraft(index, { name: e.target.value })}
+              disabled={!canManage}
+              placeholder="California sales tax"
+              className={`md:col-span-4 ${inputClassName}`}
+              aria-label="Rule name"
+            />
+            <input
+              type="text"
+              maxLength={2}
+              value={draft.country}
+              onChange={(e) => updateDraft(index, { country: e.target.value.toUpperCase() })}
+              disabled={!canManage}
+              placeholder="US"
+              className={`md:col-span-2 ${inputClassName}`}
+              aria-label={`Country for ${draft.name || 'new rule'}`}
+            />
+            <input
+              type="text"
+              value={draft.region}
+              onChange={(e) => updateDraft(index, { region: e.target.value })}
+              disabled={!canManage}
+              placeholder="All states"
+              className={`md:col-span-2 ${inputClassName}`}
+              aria-label={`State for ${draft.name || 'new rule'}`}
+            />
+            <div className="md:col-span-3 relative">
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.001"
+                value={draft.rate}
+                onChange={(e) => updateDraft(index, { rate: e.target.value })}
+                disabled={!canManage}
+                className={`pr-8 ${inputClassName}`}
+                aria-label={`Rate for ${draft.name || 'new rule'}`}
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-500 text-sm">%</span>
+            </div>
+            <div className="md:col-span-1 flex justify-end">
+              {canManage && (
+                <button
+                  onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                  className="p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+                  aria-label={`Remove ${draft.name || 'rule'}`}
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {canManage && (
+        <div className="flex flex-wrap items-center justify-between gap-3 pt-6 border-t border-slate-800">
+          <Button
+            variant="secondary"
+            onClick={() => setDrafts([...drafts, { name: '', country: '', region: '', rate: '' }])}
+          >
+            <PlusIcon className="w-4 h-4 mr-2" />
+            Add Rule
+          </Button>
+          <Button onClick={handleSave} isLoading={isSaving} disabled={!shopId}>
+            Save Rules
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxRules;
@@ -0,0 +1,124 @@
+/**
+ * Team Members Component
+ * Lists the shop's workspace members and lets owners and admins invite
+ * and remove them
+ * @module components/settings/TeamMembers
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { TrashIcon, UserPlusIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { useToastHelpers } from '@/components/ui/Toast';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { useShopMembers } from '@/hooks/useMembers';
+import { MEMBER_ROLE_LABELS } from '@/lib/permissions';
+import { MemberRole } from '@/types/quote';
+
+const INVITABLE_ROLES = [MemberRole.ADMIN, MemberRole.SALES, MemberRole.VIEWER];
+
+const inputClassName = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+export const TeamMembers: React.FC = () => {
+  const { member: currentMember, can } = useAuth();
+  const { members, isLoading, inviteMember, removeMember } = useShopMembers();
+  const { success, error: showError } = useToastHelpers();
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<MemberRole>(MemberRole.SALES);
+  const [isInviting, setIsInviting] = useState(false);
+
+  const canManage = can('members:manage');
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsInviting(true);
+    try {
+      await inviteMember({ email, name: name || undefined, role });
+      success('Invitation sent', `${email} can now sign in as ${MEMBER_ROLE_LABELS[role]}`);
+      setEmail('');
+      setName('');
+    } catch (err) {
+      showError('Failed to invite member', err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRemove = async (memberId: string, memberName: string) => {
+    try {
+      await removeMember(memberId);
+      success('Member removed', `${memberName} no longer has access`);
+    } catch (err) {
+      showError('Failed to remove member', err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <ul className="divide-y divide-slate-800">
+        {isLoading && <li className="py-3 text-slate-500">Loading members...</li>}
+        {members.map((member) => (
+          <li key={member.id} className="py-3 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-slate-200 font-medium truncate">{member.name}</p>
+              <p className="text-sm text-slate-500 truncate">{member.email}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Badge>{MEMBER_ROLE_LABELS[member.role]}</Badge>
+              {canManage && member.role !== MemberRole.OWNER && member.id !== currentMember?.id && (
+                <button
+                  onClick={() => handleRemove(member.id, member.name)}
+                  className="p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+                  aria-label={`Remove ${member.name}`}
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {canManage && (
+        <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-6 border-t border-slate-800">
+          <input
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className={inputClassName}
+            required
+          />
+          <input
+            type="text"
+            placeholder="Name (optional)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClassName}
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as MemberRole)}
+            className={inputClassName}
+            aria-label="Role"
+          >
+            {INVITABLE_ROLES.map((value) => (
+              <option key={value} value={value}>{MEMBER_ROLE_LABELS[value]}</option>
+            ))}
+          </select>
+          <div className="md:col-span-3 flex justify-end">
+            <Button type="submit" isLoading={isInviting}>
+              <UserPlusIcon className="w-4 h-4 mr-2" />
+              Invite Member
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default TeamMembers;
@@ -0,0 +1,262 @@
+/**
+ * Template Editor Component
+ * Modal form for creating and editing a quote template: details, default
+ * terms, preset line items and PDF branding
+ * @module components/templates/TemplateEditor
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Modal } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { pdfTemplateMetadata } from '@/components/pdf/PDFTemplates';
+import { TEMPLATE_CATEGORIES, type QuoteTemplateInput } from '@/lib/templates';
+import type { QuotePdfTemplate, QuoteTemplate, TemplateLineItem } from '@/types/quote';
+
+export interface TemplateEditorProps {
+  isOpen: boolean;
+  /** Template being edited; omitted when creating one */
+  template?: QuoteTemplate | null;
+  onClose: () => void;
+  onSave: (input: QuoteTemplateInput) => Promise<void>;
+}
+
+const inputClassName = 'w-full px-4 py-2.5 bg-slate-900 border border-slate-700 rounded-lg text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500';
+
+const EMPTY_LINE_ITEM: TemplateLineItem = { title: '', quantity: 1, unitPrice: 0 };
+
+function toFormState(template?: QuoteTemplate | null): QuoteTemplateInput {
+  return {
+    name: template?.name ?? '',
+    description: template?.description ?? '',
+    category: template?.category ?? 'Standard',
+    isDefault: template?.isDefault ?? false,
+    pdfTemplate: template?.pdfTemplate ?? 'modern',
+    termsDefault: template?.termsDefault ?? {},
+    lineItems: template?.lineItems ?? [],
+    headerText: template?.headerText ?? '',
+    footerText: template?.footerText ?? '',
+  };
+}
+
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({ isOpen, template, onClose, onSave }) => {
+  const [form, setForm] = useState<QuoteTemplateInput>(() => toFormState(template));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const terms = form.termsDefault ?? {};
+  const lineItems = form.lineItems ?? [];
+
+  const update = (updates: Partial<QuoteTemplateInput>) => setForm((prev) => ({ ...prev, ...updates }));
+
+  const updateTerms = (updates: Partial<NonNullable<QuoteTemplateInput['termsDefault']>>) =>
+    update({ termsDefault: { ...terms, ...updates } });
+
+  const updateLineItem = (index: number, updates: Partial<TemplateLineItem>) =>
+    update({ lineItems: lineItems.map((item, i) => (i === index ? { ...item, ...updates } : item)) });
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave({
+        ...form,
+        // Blank rows are left out rather than failing validation
+        lineItems: lineItems.filter((item) => item.title.trim()),
+      });
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={template ? 'Edit Template' : 'New Template'}
+      description="New quotes started from this template take its terms, line items and PDF layout."
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Name"
+            value={form.name}
+            onChange={(e) => update({ name: e.target.value })}
+            required
+          />
+          <div>
+            <label htmlFor="template-category" className="block text-sm font-medium text-slate-300 mb-1.5">
+              Category
+            </label>
+            <select
+              id="template-category"
+              value={form.category}
+              onChange={(e) => update({ category: e.target.value })}
+              className={inputClassName}
+            >
+              {TEMPLATE_CATEGORIES.map((category) => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <Input
+              label="Description"
+              value={form.description}
+              onChange={(e) => update({ description: e.target.value })}
+            />
+          </div>
+        </div>
+
+        {/* Default terms */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Input
+            label="Payment terms"
+            value={terms.paymentTerms ?? ''}
+            onChange={(e) => updateTerms({ paymentTerms: e.target.value || undefined })}
+            placeholder="Shop default"
+          />
+          <Input
+            label="Delivery terms"
+            value={terms.deliveryTerms ?? ''}
+            onChange={(e) => updateTerms({ deliveryTerms: e.target.value || undefined })}
+          />
+          <Input
+            label="Valid for (days)"
+            type="number"
+            min={1}
+            value={terms.validityPeriod ?? ''}
+            onChange={(e) => updateTerms({ validityPeriod: e.target.value ? Number(e.target.value) : undefined })}
+            placeholder="Shop default"
+          />
+          <div className="md:col-span-3">
+            <label htmlFor="template-notes" className="block text-sm font-medium text-slate-300 mb-1.5">
+              Notes to the customer
+            </label>
+            <textarea
+              id="template-notes"
+              value={terms.notes ?? ''}
+              onChange={(e) => updateTerms({ notes: e.target.value || undefined })}
+              className={`${inputClassName} min-h-[80px] resize-y`}
+            />
+          </div>
+        </div>
+
+        {/* Preset line items */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-slate-300">Line items</h4>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => update({ lineItems: [...lineItems, { ...EMPTY_LINE_ITEM }] })}
+            >
+              <PlusIcon className="w-4 h-4 mr-1" />
+              Add item
+            </Button>
+          </div>
+          {lineItems.length === 0 && (
+            <p className="text-sm text-slate-500">Quotes from this template start without line items.</p>
+          )}
+          <div className="space-y-2">
+            {lineItems.map((item, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  aria-label={`Item ${index + 1} title`}
+                  placeholder="Item"
+                  value={item.title}
+                  onChange={(e) => updateLineItem(index, { title: e.target.value })}
+                  className={`${inputClassName} col-span-6`}
+                />
+                <input
+                  aria-label={`Item ${index + 1} quantity`}
+                  type="number"
+                  min={1}
+                  value={item.quantity}
+                  onChange={(e) => updateLineItem(index, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                  className={`${inputClassName} col-span-2`}
+                />
+                <input
+                  aria-label={`Item ${index + 1} unit price`}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={item.unitPrice}
+                  onChange={(e) => updateLineItem(index, { unitPrice: Math.max(0, Number(e.target.value) || 0) })}
+                  className={`${inputClassName} col-span-3`}
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ lineItems: lineItems.filter((_, i) => i !== index) })}
+                  className="col-span-1 p-2 text-slate-500 hover:text-red-400 transition-colors"
+                  aria-label={`Remove item ${index + 1}`}
+                >
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* PDF branding */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="template-pdf" className="block text-sm font-medium text-slate-300 mb-1.5">
+              PDF layout
+            </label>
+            <select
+              id="template-pdf"
+              value={form.pdfTemplate}
+              onChange={(e) => update({ pdfTemplate: e.target.value as QuotePdfTemplate })}
+              className={inputClassName}
+            >
+              {pdfTemplateMetadata.map((layout) => (
+                <option key={layout.id} value={layout.id}>{layout.name}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-300 md:mt-8">
+            <input
+              type="checkbox"
+              checked={form.isDefault ?? false}
+              onChange={(e) => update({ isDefault: e.target.checked })}
+            />
+            Start new quotes from this template
+          </label>
+          <Input
+            label="PDF header text"
+            value={form.headerText}
+            onChange={(e) => update({ headerText: e.target.value })}
+          />
+          <Input
+            label="PDF footer text"
+            value={form.footerText}
+            onChange={(e) => update({ footerText: e.target.value })}
+            placeholder="Thank you for your business!"
+          />
+        </div>
+
+        {saveError && <p className="text-sm text-red-400">{saveError}</p>}
+
+        <div className="flex items-center justify-end gap-3 pt-2">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={isSaving}>
+            {template ? 'Save Template' : 'Create Template'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default TemplateEditor;
@@ -96,6 +96,10 @@ jest.mock('@/hooks/useQuoteWizard', () => ({
       discountTotal: 0,
       taxTotal: 0,
       total: 0,
+      taxRate: 0,
+      taxBreakdown: [],
+      pricesIncludeTax: false,
+      taxExempt: false,
     },
     data: {
       customerInfo: {
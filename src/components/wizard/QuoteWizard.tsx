@@ -24,14 +24,24 @@ import {
   DocumentArrowDownIcon,
   CloudArrowUpIcon,
   CheckIcon,
+  RectangleStackIcon,
 } from '@heroicons/react/24/outline';
 import { useQuoteWizard } from '@/hooks/useQuoteWizard';
+import { evaluateQuoteApproval } from '@/lib/approvals';
 import CustomerInfoStep from './steps/CustomerInfoStep';
 import ProductSelectionStep from './steps/ProductSelectionStep';
 import LineItemsStep from './steps/LineItemsStep';
 import TermsNotesStep from './steps/TermsNotesStep';
 import ReviewSendStep from './steps/ReviewSendStep';
-import type { Quote, WizardStep, WizardData, QuoteFormData } from '@/types/quote';
+import type {
+  ApprovalThresholds,
+  Quote,
+  WizardStep,
+  WizardData,
+  QuoteFormData,
+  QuoteTemplate,
+  TaxRule,
+} from '@/types/quote';
 import { WIZARD_STEPS, QuoteStatus } from '@/types/quote';
 
 // ============================================================================
@@ -57,8 +67,16 @@ export interface QuoteWizardProps {
   autosaveInterval?: number;
   /** Enable keyboard navigation */
   enableKeyboardNav?: boolean;
-  /** Shop ID for draft saving */
+  /** Shop ID for draft saving and catalog search */
   shopId?: string;
+  /** Templates offered as a starting point on the first step */
+  templates?: QuoteTemplate[];
+  /** The shop's discount approval limits, checked on the review step */
+  approvalThresholds?: ApprovalThresholds;
+  /** The shop's regional tax rates */
+  taxRules?: TaxRule[];
+  /** Whether line prices are entered with tax included */
+  pricesIncludeTax?: boolean;
 }
 
 interface StepConfig {
@@ -325,6 +343,36 @@ const ErrorAlert: React.FC<{
   </motion.div>
 );
 
+// ============================================================================
+// Template Picker Component
+// ============================================================================
+
+const TemplatePicker: React.FC<{
+  templates: QuoteTemplate[];
+  selectedId?: string;
+  onSelect: (template: QuoteTemplate | null) => void;
+}> = ({ templates, selectedId, onSelect }) => (
+  <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-slate-900/50 border border-slate-800 rounded-xl">
+    <label htmlFor="wizard-template" className="flex items-center gap-2 text-sm font-medium text-slate-300">
+      <RectangleStackIcon className="w-5 h-5 text-indigo-400" />
+      Start from template
+    </label>
+    <select
+      id="wizard-template"
+      value={selectedId ?? ''}
+      onChange={(e) => onSelect(templates.find((template) => template.id === e.target.value) ?? null)}
+      className="flex-1 px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+    >
+      <option value="">Blank quote</option>
+      {templates.map((template) => (
+        <option key={template.id} value={template.id}>
+          {template.name}{template.isDefault ? ' (default)' : ''}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
 // ============================================================================
 // Loading Overlay Component
 // ============================================================================
@@ -614,6 +662,10 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
   autosaveInterval = 30000,
   enableKeyboardNav = true,
   shopId,
+  templates = [],
+  approvalThresholds,
+  taxRules,
+  pricesIncludeTax,
 }) => {
   const [dismissedError, setDismissedError] = useState<string | null>(null);
   const [direction, setDirection] = useState(0);
@@ -629,6 +681,8 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
     shopId,
     initialData,
     onComplete,
+    taxRules,
+    pricesIncludeTax,
   });
 
   const {
@@ -642,6 +696,7 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
     error: wizardError,
     data,
     formData,
+    calculations,
     nextStep: wizardNextStep,
     previousStep: wizardPreviousStep,
     goToStep: wizardGoToStep,
@@ -651,9 +706,19 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
     updateTermsNotes,
     submitQuote,
     reset,
+    applyTemplate,
     saveDraft: wizardSaveDraft,
   } = wizard;
 
+  // The same check the API runs when the quote is sent
+  const approval = useMemo(() => approvalThresholds
+    ? evaluateQuoteApproval(
+      { lineItems: formData.line_items, discountTotal: formData.discount_total },
+      approvalThresholds
+    )
+    : undefined,
+  [approvalThresholds, formData.line_items, formData.discount_total]);
+
   // ============================================================================
   // Validation Logic
   // ============================================================================
@@ -901,6 +966,8 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
         return (
           <ProductSelectionStep
             {...commonProps}
+            shopId={shopId}
+            currency={data.termsNotes.currency}
             data={data.productSelection}
             onUpdate={updateProductSelection}
           />
@@ -912,6 +979,8 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
             data={data.lineItems}
             products={data.productSelection.selectedProducts}
             variants={data.productSelection.selectedVariants}
+            currency={data.termsNotes.currency}
+            calculations={calculations}
             onUpdate={updateLineItems}
           />
         );
@@ -935,8 +1004,11 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
               terms: formData.terms,
               valid_until: formData.valid_until,
             }}
+            currency={data.termsNotes.currency}
+            calculations={calculations}
             onSubmit={submitQuote}
             isSubmitting={isSubmitting}
+            approval={approval}
           />
         );
       default:
@@ -946,6 +1018,7 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
     currentStep,
     data,
     formData,
+    calculations,
     displayError,
     updateCustomerInfo,
     updateProductSelection,
@@ -953,6 +1026,8 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
     updateTermsNotes,
     submitQuote,
     isSubmitting,
+    shopId,
+    approval,
   ]);
 
   // ============================================================================
@@ -1005,6 +1080,15 @@ export const QuoteWizard: React.FC<QuoteWizardProps> = ({
         </div>
       </div>
 
+      {/* Template Picker */}
+      {isFirstStep && templates.length > 0 && (
+        <TemplatePicker
+          templates={templates}
+          selectedId={formData.template_id}
+          onSelect={applyTemplate}
+        />
+      )}
+
       {/* Error Alert */}
       <AnimatePresence>
         {(displayError || stepValidationErrors.length > 0) && (
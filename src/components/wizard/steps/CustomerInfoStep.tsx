@@ -19,8 +19,8 @@ import {
   ExclamationCircleIcon,
   ArrowPathIcon,
 } from '@heroicons/react/24/outline';
-import type { CustomerInfoData, Customer } from '@/types/quote';
-import { CustomerStatus } from '@/types/quote';
+import { useCustomerContacts } from '@/hooks/useCustomers';
+import type { ApiResponse, CustomerInfoData, Customer } from '@/types/quote';
 
 // ============================================================================
 // Types
@@ -49,49 +49,6 @@ interface LoadingState {
   message: string;
 }
 
-// ============================================================================
-// Mock Customers (Replace with API call in production)
-// ============================================================================
-
-const mockCustomers: Customer[] = [
-  {
-    id: 'cust_1',
-    email: 'john@acme.com',
-    companyName: 'Acme Corporation',
-    contactName: 'John Smith',
-    phone: '+1 (555) 123-4567',
-    customerSince: new Date('2023-01-15'),
-    tags: ['enterprise', 'priority'],
-    createdAt: new Date('2023-01-15'),
-    updatedAt: new Date('2023-01-15'),
-    status: CustomerStatus.ACTIVE,
-  },
-  {
-    id: 'cust_2',
-    email: 'sarah@globex.com',
-    companyName: 'Globex Industries',
-    contactName: 'Sarah Johnson',
-    phone: '+1 (555) 987-6543',
-    customerSince: new Date('2023-03-20'),
-    tags: ['mid-market'],
-    createdAt: new Date('2023-03-20'),
-    updatedAt: new Date('2023-03-20'),
-    status: CustomerStatus.ACTIVE,
-  },
-  {
-    id: 'cust_3',
-    email: 'mike@initech.com',
-    companyName: 'Initech LLC',
-    contactName: 'Michael Brown',
-    phone: '+1 (555) 456-7890',
-    customerSince: new Date('2023-06-10'),
-    tags: ['startup'],
-    createdAt: new Date('2023-06-10'),
-    updatedAt: new Date('2023-06-10'),
-    status: CustomerStatus.ACTIVE,
-  },
-];
-
 // ============================================================================
 // Validation Functions
 // ============================================================================
@@ -142,6 +99,7 @@ const CustomerInfoStep: React.FC<CustomerInfoStepProps> = ({
   const [loadingState, setLoadingState] = useState<LoadingState | null>(null);
   const [retryCount, setRetryCount] = useState(0);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const { contacts } = useCustomerContacts(data.isExistingCustomer ? data.customerId ?? null : null);
 
   // ============================================================================
   // Validation Effect
@@ -182,23 +140,26 @@ const CustomerInfoStep: React.FC<CustomerInfoStepProps> = ({
       clearTimeout(searchTimeoutRef.current);
     }
 
+    // Results of a search typed over are dropped
+    let cancelled = false;
+
     if (searchQuery.length >= 2) {
       setIsSearching(true);
       
-      searchTimeoutRef.current = setTimeout(() => {
+      searchTimeoutRef.current = setTimeout(async () => {
         try {
-          const results = mockCustomers.filter(
-            (c) =>
-              c.companyName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-              c.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-              c.contactName.toLowerCase().includes(searchQuery.toLowerCase())
-          );
-          setSearchResults(results);
+          const params = new URLSearchParams({ search: searchQuery, limit: '5' });
+          const response = await fetch(`/api/customers?${params.toString()}`);
+          const result: ApiResponse<{ customers: Customer[] }> = await response.json();
+          if (!response.ok || !result.success || !result.data) {
+            throw new Error(result.error?.message || 'Search failed');
+          }
+          if (!cancelled) setSearchResults(result.data.customers);
         } catch (err) {
           console.error('Search error:', err);
-          setSearchResults([]);
+          if (!cancelled) setSearchResults([]);
         } finally {
-          setIsSearching(false);
+          if (!cancelled) setIsSearching(false);
         }
       }, 300);
     } else {
@@ -207,11 +168,12 @@ const CustomerInfoStep: React.FC<CustomerInfoStepProps> = ({
     }
 
     return () => {
+      cancelled = true;
       if (searchTimeoutRef.current) {
         clearTimeout(searchTimeoutRef.current);
       }
     };
-  }, [searchQuery]);
+  }, [searchQuery, retryCount]);
 
   // ============================================================================
   // Handlers
@@ -221,14 +183,18 @@ const CustomerInfoStep: React.FC<CustomerInfoStepProps> = ({
     
     try {
       await new Promise(resolve => setTimeout(resolve, 300));
+
+      // The quote goes to the primary contact until another one is picked
+      const contact = customer.contacts?.find((item) => item.isPrimary);
       
       onUpdate({
         customer,
         customerId: customer.id,
-        email: customer.email,
+        contactId: contact?.id,
+        email: contact?.email ?? customer.email,
         companyName: customer.companyName,
-        contactName: customer.contactName,
-        phone: customer.phone || '',
+        contactName: contact?.name ?? customer.contactName,
+        phone: (contact ? contact.phone : customer.phone) || '',
         billingAddress: customer.billingAddress,
         shippingAddress: customer.shippingAddress,
         isExistingCustomer: true,
@@ -243,6 +209,18 @@ const CustomerInfoStep: React.FC<CustomerInfoStepProps> = ({
     }
   }, [onUpdate]);
 
+  const handleSelectContact = useCallback((contactId: string) => {
+    const contact = contacts.find((item) => item.id === contactId);
+    if (!contact) return;
+
+    onUpdate({
+      contactId: contact.id,
+      email: contact.email,
+      contactName: contact.name,
+      phone: contact.phone || '',
+    });
+  }, [contacts, onUpdate]);
+
   const handleCreateNew = useCallback(() => {
     onUpdate({
       customer: undefined,
@@ -277,6 +255,10 @@ const CustomerInfoStep: React.FC<CustomerInfoStepProps> = ({
   // Computed Values
   // ============================================================================
   const hasSelection = !!(data.isExistingCustomer && data.customer);
+  // Finance contacts who get quote emails are copied in on them
+  const ccContacts = contacts.filter((contact) =>
+    contact.roles.includes('finance') && contact.notifyQuotes && contact.id !== data.contactId
+  );
   const hasErrors = Object.keys(formErrors).length > 0;
   const isValid = !hasErrors && (
     data.isExistingCustomer 
@@ -490,6 +472,35 @@ const CustomerInfoStep: React.FC<CustomerInfoStepProps> = ({
                 Change
               </button>
             </div>
+
+            {contacts.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-emerald-500/20">
+                <label htmlFor="customer-contact-select" className="block text-sm font-medium text-slate-300 mb-2">
+                  Send to
+                </label>
+                <select
+                  id="customer-contact-select"
+                  value={data.contactId ?? ''}
+                  onChange={(e) => handleSelectContact(e.target.value)}
+                  className="w-full px-4 py-2.5 bg-slate-800 border border-slate-700 rounded-xl text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  data-testid="customer-contact-select"
+                >
+                  {!data.contactId && (
+                    <option value="" disabled>{data.contactName} • {data.email}</option>
+                  )}
+                  {contacts.map((contact) => (
+                    <option key={contact.id} value={contact.id}>
+                      {contact.name} • {contact.email}{contact.isPrimary ? ' (primary)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {ccContacts.length > 0 && (
+                  <p className="mt-2 text-xs text-emerald-300/70">
+                    Copied in: {ccContacts.map((contact) => contact.name).join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -19,7 +19,10 @@ import {
   ArrowPathIcon,
   CheckCircleIcon,
 } from '@heroicons/react/24/outline';
-import type { LineItemsData, LineItem, Product } from '@/types/quote';
+import { TaxLines } from '@/components/quotes/TaxLines';
+import { calculateLineItem, calculateQuoteTotals, toLineItemInput } from '@/lib/quotes';
+import { formatCurrency } from '@/lib/utils';
+import type { LineItemsData, LineItem, Product, QuoteCalculations } from '@/types/quote';
 
 // ============================================================================
 // Types
@@ -32,6 +35,10 @@ interface LineItemsStepProps {
   products: Product[];
   /** Selected variants mapping */
   variants: Record<string, string>;
+  /** ISO currency the quote is priced in */
+  currency?: string;
+  /** Quote totals with the customer's tax; worked out from the items alone when not given */
+  calculations?: QuoteCalculations;
   /** Update handler */
   onUpdate: (data: Partial<LineItemsData>) => void;
   /** Error message to display */
@@ -48,25 +55,6 @@ interface LineItemErrors {
   };
 }
 
-// ============================================================================
-// Utility Functions
-// ============================================================================
-
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-  }).format(value);
-};
-
-const calculateItemTotal = (item: LineItem): number => {
-  const subtotal = item.quantity * item.unitPrice;
-  const discount = subtotal * (item.discountPercentage || 0) / 100;
-  const tax = (subtotal - discount) * (item.taxRate || 0) / 100;
-  return subtotal - discount + tax;
-};
-
 // ============================================================================
 // Main Component
 // ============================================================================
@@ -75,6 +63,8 @@ export function LineItemsStep({
   data,
   products,
   variants,
+  currency = 'USD',
+  calculations,
   onUpdate,
   error,
   'data-testid': testId,
@@ -97,14 +87,16 @@ export function LineItemsStep({
         return {
           id: `item_${product.id}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
           productId: product.id,
+          variantId: variant?.id,
           title: product.title,
           variantTitle: variant?.title,
           quantity: 1,
           unitPrice: variant?.price || 0,
+          originalPrice: variant?.price,
+          unitCost: variant?.unitCost,
           sku: variant?.sku || '',
           discountAmount: 0,
           discountPercentage: 0,
-          taxRate: 0,
           taxAmount: 0,
           subtotal: variant?.price || 0,
           total: variant?.price || 0,
@@ -148,29 +140,16 @@ export function LineItemsStep({
   // ============================================================================
   // Calculations
   // ============================================================================
-  const totals = useMemo(() => {
-    const subtotal = data.items.reduce((sum, item) => {
-      const itemTotal = item.quantity * item.unitPrice;
-      const discount = itemTotal * (item.discountPercentage || 0) / 100;
-      return sum + itemTotal - discount;
-    }, 0);
-
-    const discountTotal = data.items.reduce((sum, item) => {
-      const itemTotal = item.quantity * item.unitPrice;
-      return sum + itemTotal * (item.discountPercentage || 0) / 100;
-    }, 0);
-
-    const taxTotal = data.items.reduce((sum, item) => {
-      const itemTotal = item.quantity * item.unitPrice;
-      const discount = itemTotal * (item.discountPercentage || 0) / 100;
-      const taxableAmount = itemTotal - discount;
-      return sum + (taxableAmount * (item.taxRate || 0) / 100);
-    }, 0);
-
-    const total = subtotal + taxTotal;
-
-    return { subtotal, discountTotal, taxTotal, total };
-  }, [data.items]);
+  const totals = useMemo(
+    () => calculations ?? calculateQuoteTotals(data.items.map(toLineItemInput)),
+    [calculations, data.items]
+  );
+
+  const itemDiscountTotal = useMemo(() => data.items.reduce((sum, item) => {
+    const itemTotal = item.quantity * item.unitPrice;
+    return sum + itemTotal * (item.discountPercentage || 0) / 100;
+  }, 0), [data.items]);
+
 
   // ============================================================================
   // Handlers
@@ -185,7 +164,6 @@ export function LineItemsStep({
       sku: '',
       discountAmount: 0,
       discountPercentage: 0,
-      taxRate: 0,
       taxAmount: 0,
       subtotal: 0,
       total: 0,
@@ -360,7 +338,7 @@ export function LineItemsStep({
                       Unit Price *
                     </label>
                     <div className="relative">
-                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500">$</span>
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs text-slate-500">{currency}</span>
                       <input
                         type="number"
                         min="0"
@@ -368,7 +346,7 @@ export function LineItemsStep({
                         value={item.unitPrice}
                         onChange={(e) => handleUpdateItem(index, { unitPrice: parseFloat(e.target.value) || 0 })}
                         onBlur={() => handleBlur(index, 'unitPrice')}
-                        className={`w-full pl-7 pr-3 py-2 bg-slate-900 border rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all ${
+                        className={`w-full pl-12 pr-3 py-2 bg-slate-900 border rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all ${
                           validationErrors[index]?.unitPrice && touched[`${index}-unitPrice`]
                             ? 'border-red-500'
                             : 'border-slate-600'
@@ -411,8 +389,11 @@ export function LineItemsStep({
                         min="0"
                         max="100"
                         step="0.01"
-                        value={item.taxRate || 0}
-                        onChange={(e) => handleUpdateItem(index, { taxRate: parseFloat(e.target.value) || 0 })}
+                        value={item.taxRate ?? ''}
+                        placeholder={String(totals.taxRate)}
+                        onChange={(e) => handleUpdateItem(index, {
+                          taxRate: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0,
+                        })}
                         className="w-full px-3 pr-8 py-2 bg-slate-900 border border-slate-600 rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all"
                         data-testid={`line-item-${index}-tax`}
                       />
@@ -426,7 +407,7 @@ export function LineItemsStep({
                   <div className="text-right">
                     <p className="text-sm text-slate-500">Total</p>
                     <p className="text-lg font-semibold text-slate-200">
-                      {formatCurrency(calculateItemTotal(item))}
+                      {formatCurrency(calculateLineItem(item).total, currency)}
                     </p>
                   </div>
 
@@ -474,26 +455,29 @@ export function LineItemsStep({
         <div className="space-y-2 text-sm">
           <div className="flex justify-between text-slate-400">
             <span>Subtotal</span>
-            <span>{formatCurrency(totals.subtotal)}</span>
+            <span>{formatCurrency(totals.subtotal, currency)}</span>
           </div>
 
-          {totals.discountTotal > 0 && (
+          {itemDiscountTotal > 0 && (
             <div className="flex justify-between text-emerald-400"
             >
               <span>Discount</span>
-              <span>-{formatCurrency(totals.discountTotal)}</span>
+              <span>-{formatCurrency(itemDiscountTotal, currency)}</span>
             </div>
           )}
 
-          <div className="flex justify-between text-slate-400">
-            <span>Tax</span>
-            <span>{formatCurrency(totals.taxTotal)}</span>
-          </div>
+          <TaxLines
+            calculations={totals}
+            currency={currency}
+            className="text-slate-400"
+            labelClassName=""
+            valueClassName=""
+          />
 
           <div className="border-t border-slate-700 pt-2 mt-2">
             <div className="flex justify-between items-center">
               <span className="font-semibold text-slate-200">Total</span>
-              <span className="text-2xl font-bold text-indigo-400">{formatCurrency(totals.total)}</span>
+              <span className="text-2xl font-bold text-indigo-400">{formatCurrency(totals.total, currency)}</span>
             </div>
           </div>
         </div>
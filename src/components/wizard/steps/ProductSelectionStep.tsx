@@ -6,7 +6,7 @@
 
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Image from 'next/image';
 import {
@@ -19,7 +19,10 @@ import {
   ArrowPathIcon,
   ExclamationCircleIcon,
 } from '@heroicons/react/24/outline';
+import { formatCurrency } from '@/lib/utils';
 import type { ProductSelectionData, Product } from '@/types/quote';
+import { useDebounce } from '@/hooks';
+import { useProductSearch } from '@/hooks/useProducts';
 
 // ============================================================================
 // Types
@@ -32,6 +35,10 @@ interface ProductSelectionStepProps {
   onUpdate: (data: Partial<ProductSelectionData>) => void;
   /** Error message to display */
   error?: string;
+  /** Shop whose catalog is searched */
+  shopId?: string;
+  /** ISO currency the quote is priced in */
+  currency?: string;
   /** Test ID for testing */
   'data-testid'?: string;
 }
@@ -42,72 +49,6 @@ interface LoadingState {
   productId?: string;
 }
 
-// ============================================================================
-// Mock Products (Replace with API call in production)
-// ============================================================================
-
-const mockProducts: Product[] = [
-  {
-    id: 'prod_1',
-    title: 'Industrial Widget Pro',
-    description: 'High-performance widget for industrial applications',
-    handle: 'industrial-widget-pro',
-    images: ['/products/widget-pro.jpg'],
-    variants: [
-      { id: 'var_1', title: 'Standard', sku: 'IWP-001', price: 299.99, inventoryQuantity: 100, options: {} },
-      { id: 'var_2', title: 'Heavy Duty', sku: 'IWP-002', price: 399.99, inventoryQuantity: 50, options: {} },
-    ],
-    tags: ['industrial', 'widget'],
-    productType: 'Widgets',
-    vendor: 'Acme Manufacturing',
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-  {
-    id: 'prod_2',
-    title: 'Premium Connector Set',
-    description: 'Professional grade connectors for all applications',
-    handle: 'premium-connector-set',
-    images: ['/products/connector-set.jpg'],
-    variants: [
-      { id: 'var_3', title: 'Small Set (10pc)', sku: 'PCS-010', price: 49.99, inventoryQuantity: 200, options: {} },
-      { id: 'var_4', title: 'Large Set (50pc)', sku: 'PCS-050', price: 199.99, inventoryQuantity: 100, options: {} },
-    ],
-    tags: ['connectors', 'hardware'],
-    productType: 'Connectors',
-    vendor: 'ConnectorCorp',
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-  {
-    id: 'prod_3',
-    title: 'Control Module X200',
-    description: 'Advanced control module with IoT capabilities',
-    handle: 'control-module-x200',
-    images: ['/products/control-module.jpg'],
-    variants: [
-      { id: 'var_5', title: 'Basic', sku: 'CMX-200-B', price: 599.99, inventoryQuantity: 25, options: {} },
-      { id: 'var_6', title: 'Pro', sku: 'CMX-200-P', price: 899.99, inventoryQuantity: 15, options: {} },
-    ],
-    tags: ['electronics', 'control'],
-    productType: 'Modules',
-    vendor: 'TechControl',
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  },
-];
-
-// ============================================================================
-// Utility Functions
-// ============================================================================
-
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(value);
-};
-
 // ============================================================================
 // Main Component
 // ============================================================================
@@ -116,57 +57,31 @@ export function ProductSelectionStep({
   data,
   onUpdate,
   error,
+  shopId,
+  currency = 'USD',
   'data-testid': testId,
 }: ProductSelectionStepProps) {
   // ============================================================================
   // State
   // ============================================================================
   const [searchQuery, setSearchQuery] = useState(data.searchQuery || '');
-  const [searchResults, setSearchResults] = useState<Product[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
-  const [expandedProduct, setExpandedProduct] = useState<string | null>(null);
   const [loadingState, setLoadingState] = useState<LoadingState | null>(null);
-  const [retryCount, setRetryCount] = useState(0);
-  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const debouncedQuery = useDebounce(searchQuery, 300);
 
   // ============================================================================
-  // Search Effect with Debounce
+  // Catalog Search
   // ============================================================================
-  useEffect(() => {
-    if (searchTimeoutRef.current) {
-      clearTimeout(searchTimeoutRef.current);
-    }
-
-    if (searchQuery.length >= 2) {
-      setIsSearching(true);
-
-      searchTimeoutRef.current = setTimeout(() => {
-        try {
-          const results = mockProducts.filter(
-            (p) =>
-              p.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-              p.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-              p.tags.some((t) => t.toLowerCase().includes(searchQuery.toLowerCase()))
-          );
-          setSearchResults(results);
-        } catch (err) {
-          console.error('Search error:', err);
-          setSearchResults([]);
-        } finally {
-          setIsSearching(false);
-        }
-      }, 300);
-    } else {
-      setSearchResults([]);
-      setIsSearching(false);
-    }
-
-    return () => {
-      if (searchTimeoutRef.current) {
-        clearTimeout(searchTimeoutRef.current);
-      }
-    };
-  }, [searchQuery]);
+  const {
+    products: searchResults,
+    hasMore,
+    isLoading: isLoadingResults,
+    isLoadingMore,
+    error: searchError,
+    loadMore,
+    retry,
+  } = useProductSearch(shopId, debouncedQuery);
+
+  const isSearching = searchQuery.length >= 2 && (isLoadingResults || searchQuery !== debouncedQuery);
 
   // ============================================================================
   // Handlers
@@ -227,9 +142,8 @@ export function ProductSelectionStep({
   }, [data, onUpdate]);
 
   const handleRetry = useCallback(() => {
-    setRetryCount(prev => prev + 1);
-    setSearchQuery(searchQuery); // Trigger re-search
-  }, [searchQuery]);
+    retry();
+  }, [retry]);
 
   // ============================================================================
   // Render Helpers
@@ -317,9 +231,19 @@ export function ProductSelectionStep({
                   className={`p-4 border-b border-slate-700 last:border-b-0 ${isSelected ? 'bg-indigo-500/5' : ''}`}
                 >
                   <div className="flex items-start gap-4">
-                    {/* Product Image Placeholder */}
-                    <div className="w-16 h-16 bg-slate-700 rounded-lg flex items-center justify-center flex-shrink-0">
-                      <ShoppingBagIcon className="w-8 h-8 text-slate-500" />
+                    {/* Product Image */}
+                    <div className="relative w-16 h-16 bg-slate-700 rounded-lg flex items-center justify-center flex-shrink-0 overflow-hidden">
+                      {product.images[0] ? (
+                        <Image
+                          src={product.images[0]}
+                          alt={product.title}
+                          fill
+                          sizes="64px"
+                          className="object-cover"
+                        />
+                      ) : (
+                        <ShoppingBagIcon className="w-8 h-8 text-slate-500" />
+                      )}
                     </div>
 
                     <div className="flex-1 min-w-0">
@@ -384,7 +308,8 @@ export function ProductSelectionStep({
                                       : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
                                   }`}
                                 >
-                                  {variant.title} - {formatCurrency(variant.price)}
+                                  {variant.title} - {formatCurrency(variant.price, currency)}
+                                  <span className="ml-1 opacity-70">({variant.inventoryQuantity} in stock)</span>
                                 </button>
                               ))}
                             </div>
@@ -394,7 +319,7 @@ export function ProductSelectionStep({
 
                       {isSelected && selectedVariant && (
                         <p className="mt-2 text-sm text-indigo-400">
-                          Selected: {selectedVariant.title} - {formatCurrency(selectedVariant.price)}
+                          Selected: {selectedVariant.title} - {formatCurrency(selectedVariant.price, currency)}
                         </p>
                       )}
                     </div>
@@ -402,10 +327,49 @@ export function ProductSelectionStep({
                 </motion.div>
               );
             })}
+            {hasMore && (
+              <button
+                onClick={loadMore}
+                disabled={isLoadingMore}
+                className="w-full p-3 text-sm text-indigo-400 hover:text-indigo-300 hover:bg-slate-700/50 transition-colors disabled:opacity-50"
+                data-testid="product-search-load-more"
+              >
+                {isLoadingMore ? 'Loading...' : 'Load more products'}
+              </button>
+            )}
+          </motion.div>
+        )}
+
+        {searchQuery.length >= 2 && searchError && !isSearching && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="mb-6 p-6 bg-red-500/10 border border-red-500/20 rounded-xl text-center"
+          >
+            <ExclamationCircleIcon className="w-12 h-12 text-red-400 mx-auto mb-3" />
+            <p className="text-red-400">{searchError.message}</p>
+            <button
+              onClick={handleRetry}
+              className="mt-3 text-sm text-indigo-400 hover:text-indigo-300 flex items-center justify-center gap-1 mx-auto"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+              Retry search
+            </button>
+          </motion.div>
+        )}
+
+        {searchQuery.length >= 2 && !shopId && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="mb-6 p-6 bg-slate-800 border border-slate-700 rounded-xl text-center"
+          >
+            <ShoppingBagIcon className="w-12 h-12 text-slate-600 mx-auto mb-3" />
+            <p className="text-slate-400">Connect a Shopify store to search its products</p>
           </motion.div>
         )}
 
-        {searchQuery.length >= 2 && searchResults.length === 0 && !isSearching && (
+        {searchQuery.length >= 2 && shopId && searchResults.length === 0 && !searchError && !isSearching && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -471,7 +435,7 @@ export function ProductSelectionStep({
                     <div className="flex-1 min-w-0">
                       <h4 className="font-medium text-slate-200 truncate">{product.title}</h4>
                       <p className="text-sm text-slate-400">
-                        {selectedVariant?.title} - {formatCurrency(selectedVariant?.price || 0)}
+                        {selectedVariant?.title} - {formatCurrency(selectedVariant?.price || 0, currency)}
                       </p>
                     </div>
 
@@ -22,8 +22,13 @@ import {
   ExclamationCircleIcon,
   CheckIcon,
   ArrowPathIcon,
+  ShieldExclamationIcon,
 } from '@heroicons/react/24/outline';
-import type { QuoteFormData } from '@/types/quote';
+import { TaxLines } from '@/components/quotes/TaxLines';
+import type { ApprovalCheck } from '@/lib/approvals';
+import { calculateQuoteTotals } from '@/lib/quotes';
+import { formatCurrency } from '@/lib/utils';
+import type { QuoteCalculations, QuoteFormData } from '@/types/quote';
 
 // ============================================================================
 // Types
@@ -39,12 +44,18 @@ interface ReviewSendStepProps {
     terms?: string;
     valid_until?: string;
   };
+  /** ISO currency the quote is priced in */
+  currency?: string;
+  /** Quote totals with the customer's tax; worked out from the items alone when not given */
+  calculations?: QuoteCalculations;
   /** Submit handler */
   onSubmit: () => Promise<void>;
   /** Submitting state */
   isSubmitting: boolean;
   /** Error message */
   error?: string;
+  /** The shop's discount approval check; when required the quote waits for an approver */
+  approval?: ApprovalCheck;
   /** Test ID for testing */
   'data-testid'?: string;
 }
@@ -57,18 +68,6 @@ interface ValidationError {
   message: string;
 }
 
-// ============================================================================
-// Utility Functions
-// ============================================================================
-
-const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-  }).format(value);
-};
-
 // ============================================================================
 // Main Component
 // ============================================================================
@@ -78,6 +77,9 @@ export function ReviewSendStep({
   onSubmit,
   isSubmitting,
   error,
+  approval,
+  currency = 'USD',
+  calculations,
   'data-testid': testId,
 }: ReviewSendStepProps) {
   // ============================================================================
@@ -92,29 +94,15 @@ export function ReviewSendStep({
   // ============================================================================
   // Calculations
   // ============================================================================
-  const totals = useMemo(() => {
-    const subtotal = data.line_items.reduce((sum, item) => {
-      const itemTotal = item.quantity * item.unit_price;
-      const discount = itemTotal * (item.discount_percent || 0) / 100;
-      return sum + itemTotal - discount;
-    }, 0);
-
-    const discountTotal = data.line_items.reduce((sum, item) => {
-      const itemTotal = item.quantity * item.unit_price;
-      return sum + itemTotal * (item.discount_percent || 0) / 100;
-    }, 0);
-
-    const taxTotal = data.line_items.reduce((sum, item) => {
-      const itemTotal = item.quantity * item.unit_price;
-      const discount = itemTotal * (item.discount_percent || 0) / 100;
-      const taxableAmount = itemTotal - discount;
-      return sum + (taxableAmount * (item.tax_rate || 0) / 100);
-    }, 0);
-
-    const total = subtotal + taxTotal;
-
-    return { subtotal, discountTotal, taxTotal, total };
-  }, [data.line_items]);
+  const totals = useMemo(
+    () => calculations ?? calculateQuoteTotals(data.line_items),
+    [calculations, data.line_items]
+  );
+
+  const itemDiscountTotal = useMemo(() => data.line_items.reduce((sum, item) => {
+    const itemTotal = item.quantity * item.unit_price;
+    return sum + itemTotal * (item.discount_percent || 0) / 100;
+  }, 0), [data.line_items]);
 
   // ============================================================================
   // Validation
@@ -149,6 +137,7 @@ export function ReviewSendStep({
   }, [data]);
 
   const hasErrors = validationErrors.length > 0;
+  const needsApproval = approval?.required ?? false;
 
   // ============================================================================
   // Handlers
@@ -256,6 +245,32 @@ export function ReviewSendStep({
         )}
       </AnimatePresence>
 
+      {/* Discount Approval */}
+      {needsApproval && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          className="mb-6 bg-orange-500/10 border border-orange-500/20 rounded-xl p-4"
+          data-testid="approval-required"
+        >
+          <p className="text-orange-400 text-sm font-medium flex items-center gap-2">
+            <ShieldExclamationIcon className="w-5 h-5 flex-shrink-0" />
+            Approval required before this quote reaches the customer
+          </p>
+          <ul className="mt-2 space-y-1">
+            {approval?.reasons.map((reason, i) => (
+              <li key={i} className="text-xs text-orange-400/80 flex items-center gap-1">
+                <span className="w-1 h-1 bg-orange-400 rounded-full" />
+                {reason.message}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-xs text-slate-400">
+            Sending it notifies your approvers; it goes out once one of them approves.
+          </p>
+        </motion.div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column - Preview */}
         <div className="lg:col-span-2 space-y-6">
@@ -344,8 +359,8 @@ export function ReviewSendStep({
                               )}
                             </td>
                             <td className="text-right py-4 text-gray-900">{item.quantity}</td>
-                            <td className="text-right py-4 text-gray-600">{formatCurrency(item.unit_price)}</td>
-                            <td className="text-right py-4 font-medium text-gray-900">{formatCurrency(total)}</td>
+                            <td className="text-right py-4 text-gray-600">{formatCurrency(item.unit_price, currency)}</td>
+                            <td className="text-right py-4 font-medium text-gray-900">{formatCurrency(total, currency)}</td>
                           </tr>
                         );
                       })}
@@ -360,25 +375,28 @@ export function ReviewSendStep({
                   <div className="w-64 space-y-2">
                     <div className="flex justify-between text-gray-600">
                       <span>Subtotal</span>
-                      <span>{formatCurrency(totals.subtotal)}</span>
+                      <span>{formatCurrency(totals.subtotal, currency)}</span>
                     </div>
 
-                    {totals.discountTotal > 0 && (
+                    {itemDiscountTotal > 0 && (
                       <div className="flex justify-between text-emerald-600"
                       >
                         <span>Discount</span>
-                        <span>-{formatCurrency(totals.discountTotal)}</span>
+                        <span>-{formatCurrency(itemDiscountTotal, currency)}</span>
                       </div>
                     )}
 
-                    <div className="flex justify-between text-gray-600">
-                      <span>Tax</span>
-                      <span>{formatCurrency(totals.taxTotal)}</span>
-                    </div>
+                    <TaxLines
+                      calculations={totals}
+                      currency={currency}
+                      className="text-gray-600"
+                      labelClassName=""
+                      valueClassName=""
+                    />
 
                     <div className="flex justify-between text-xl font-bold text-gray-900 pt-2 border-t border-gray-200">
                       <span>Total</span>
-                      <span>{formatCurrency(totals.total)}</span>
+                      <span>{formatCurrency(totals.total, currency)}</span>
                     </div>
                   </div>
                 </div>
@@ -461,7 +479,7 @@ export function ReviewSendStep({
               ) : (
                 <>
                   <PaperAirplaneIcon className="w-5 h-5" />
-                  Send Quote
+                  {needsApproval ? 'Send for Approval' : 'Send Quote'}
                 </>
               )}
             </motion.button>
@@ -487,7 +505,7 @@ export function ReviewSendStep({
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-slate-500">Total</span>
-                <span className="text-indigo-400 font-semibold">{formatCurrency(totals.total)}</span>
+                <span className="text-indigo-400 font-semibold">{formatCurrency(totals.total, currency)}</span>
               </div>
             </div>
 
@@ -497,6 +515,11 @@ export function ReviewSendStep({
                   <ExclamationTriangleIcon className="w-4 h-4" />
                   <span>Missing required fields</span>
                 </div>
+              ) : needsApproval ? (
+                <div className="flex items-center gap-2 text-sm text-orange-400">
+                  <ShieldExclamationIcon className="w-4 h-4" />
+                  <span>Needs approval</span>
+                </div>
               ) : (
                 <div className="flex items-center gap-2 text-sm text-emerald-400"
                 >
@@ -17,7 +17,9 @@ import {
   ExclamationCircleIcon,
   InformationCircleIcon,
   CheckCircleIcon,
+  CurrencyDollarIcon,
 } from '@heroicons/react/24/outline';
+import { getCurrencyLabel, listCurrencyCodes } from '@/lib/exchangeRates';
 import type { TermsNotesData } from '@/types/quote';
 
 // ============================================================================
@@ -228,6 +230,39 @@ export function TermsNotesStep({
             </select>
           </motion.div>
 
+          {/* Currency */}
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+            className="bg-slate-800 border border-slate-700 rounded-xl p-5"
+          >
+            <div className="flex items-center gap-3 mb-4">
+              <div className="w-10 h-10 bg-cyan-500/10 rounded-lg flex items-center justify-center">
+                <CurrencyDollarIcon className="w-5 h-5 text-cyan-400" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-slate-200">Currency</h3>
+                <p className="text-sm text-slate-500">Prices on this quote are in this currency</p>
+              </div>
+            </div>
+
+            <label htmlFor="currency" className="sr-only">Currency</label>
+            <select
+              id="currency"
+              value={data.currency}
+              onChange={(e) => handleUpdate('currency', e.target.value)}
+              className="w-full px-4 py-3 bg-slate-900 border border-slate-600 rounded-lg text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all"
+              data-testid="currency-select"
+            >
+              {listCurrencyCodes().map((code) => (
+                <option key={code} value={code}>
+                  {getCurrencyLabel(code)}
+                </option>
+              ))}
+            </select>
+          </motion.div>
+
           {/* Validity Period */}
           <motion.div
             initial={{ opacity: 0, y: 10 }}
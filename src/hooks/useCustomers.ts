@@ -14,8 +14,17 @@ import type {
   CustomerFilter,
   CustomerStats,
   CustomerActivity,
+  CustomerContact,
+  CustomerDuplicate,
+  CustomerImport,
+  CustomerImportDuplicateAction,
+  CustomerImportMapping,
+  CustomerImportPreview,
+  CustomerMerge,
+  CustomerMergeField,
 } from '@/types/quote';
 import type { ApiResponse } from '@/types/quote';
+import type { CustomerContactInput } from '@/lib/customerContacts';
 
 // ============================================================================
 // Types
@@ -448,8 +457,12 @@ export function useAddCustomerNote() {
 
   const addNote = async (customerId: string, content: string) => {
     const result = await trigger({ customerId, data: { content } });
-    // Revalidate customer activity
-    await mutate(`/api/customers/${customerId}/activity`, undefined, { revalidate: true });
+    // Revalidate customer activity, every page of it
+    await mutate(
+      (key) => typeof key === 'string' && key.startsWith(`/api/customers/${customerId}/activity`),
+      undefined,
+      { revalidate: true }
+    );
     return result;
   };
 
@@ -460,6 +473,118 @@ export function useAddCustomerNote() {
   };
 }
 
+// ============================================================================
+// Contacts
+// ============================================================================
+
+/**
+ * The people at the customer, primary contact first
+ */
+export function useCustomerContacts(id: string | null) {
+  const key = id ? `/api/customers/${id}/contacts` : null;
+
+  const { data, error, isLoading, mutate: revalidate } = useSWR(key, fetcher);
+
+  return {
+    contacts: (data as { contacts: CustomerContact[] } | undefined)?.contacts ?? [],
+    isLoading,
+    error,
+    revalidate,
+  };
+}
+
+async function sendContactRequest<T>(
+  url: string,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  body: unknown,
+  fallbackMessage: string
+): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data: ApiResponse<T> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || fallbackMessage);
+  }
+
+  return data.data;
+}
+
+// Contacts show on the customer list as well as on their own endpoint
+const revalidateCustomers = () =>
+  mutate((key) => typeof key === 'string' && key.startsWith('/api/customers'), undefined, {
+    revalidate: true,
+  });
+
+export function useCreateCustomerContact() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/customers',
+    (url: string, { arg }: { arg: { customerId: string; data: CustomerContactInput } }) =>
+      sendContactRequest<CustomerContact>(
+        `${url}/${arg.customerId}/contacts`, 'POST', arg.data, 'Failed to add contact'
+      )
+  );
+
+  const createContact = async (customerId: string, data: CustomerContactInput) => {
+    const result = await trigger({ customerId, data });
+    await revalidateCustomers();
+    return result;
+  };
+
+  return {
+    createContact,
+    isCreating: isMutating,
+    error,
+  };
+}
+
+export function useUpdateCustomerContact() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/customers',
+    (url: string, { arg }: { arg: { customerId: string; contactId: string; data: Partial<CustomerContactInput> } }) =>
+      sendContactRequest<CustomerContact>(
+        `${url}/${arg.customerId}/contacts/${arg.contactId}`, 'PATCH', arg.data, 'Failed to update contact'
+      )
+  );
+
+  const updateContact = async (customerId: string, contactId: string, data: Partial<CustomerContactInput>) => {
+    const result = await trigger({ customerId, contactId, data });
+    // Making someone primary unsets the previous primary contact
+    await revalidateCustomers();
+    return result;
+  };
+
+  return {
+    updateContact,
+    isUpdating: isMutating,
+    error,
+  };
+}
+
+export function useDeleteCustomerContact() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/customers',
+    (url: string, { arg }: { arg: { customerId: string; contactId: string } }) =>
+      sendContactRequest<{ deleted: boolean }>(
+        `${url}/${arg.customerId}/contacts/${arg.contactId}`, 'DELETE', undefined, 'Failed to delete contact'
+      )
+  );
+
+  const deleteContact = async (customerId: string, contactId: string) => {
+    await trigger({ customerId, contactId });
+    await revalidateCustomers();
+  };
+
+  return {
+    deleteContact,
+    isDeleting: isMutating,
+    error,
+  };
+}
+
 // ============================================================================
 // Bulk Operations
 // ============================================================================
@@ -542,3 +667,299 @@ export function useBulkDeleteCustomers() {
     error,
   };
 }
+
+// ============================================================================
+// Customer Imports
+// ============================================================================
+
+interface CustomerImportResponse {
+  import: CustomerImport;
+  preview?: CustomerImportPreview;
+}
+
+export interface CustomerImportFile {
+  fileName: string;
+  content: string;
+  encoding: 'text' | 'base64';
+}
+
+export interface CustomerImportSettings {
+  mapping?: CustomerImportMapping;
+  duplicateAction?: CustomerImportDuplicateAction;
+  rowActions?: Record<string, CustomerImportDuplicateAction>;
+}
+
+async function sendImportRequest(
+  url: string,
+  method: 'POST' | 'PATCH',
+  body: unknown,
+  failure: string
+): Promise<CustomerImportResponse> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const data: ApiResponse<CustomerImportResponse> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || failure);
+  }
+
+  return data.data;
+}
+
+/**
+ * Recent imports, to resume one that did not finish
+ */
+export function useCustomerImports() {
+  const { data, error, isLoading, mutate: revalidate } = useSWR('/api/customers/imports', fetcher);
+
+  return {
+    imports: (data as { imports: CustomerImport[] } | undefined)?.imports ?? [],
+    isLoading,
+    error,
+    revalidate,
+  };
+}
+
+export function useUploadCustomerImport() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/customers/imports',
+    (url: string, { arg }: { arg: CustomerImportFile }) =>
+      sendImportRequest(url, 'POST', arg, 'Failed to upload the file')
+  );
+
+  return {
+    upload: trigger,
+    isUploading: isMutating,
+    error,
+  };
+}
+
+export function useUpdateCustomerImport() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/customers/imports',
+    (url: string, { arg }: { arg: { id: string; settings: CustomerImportSettings } }) =>
+      sendImportRequest(`${url}/${arg.id}`, 'PATCH', arg.settings, 'Failed to update the import')
+  );
+
+  return {
+    updateImport: (id: string, settings: CustomerImportSettings) => trigger({ id, settings }),
+    isUpdating: isMutating,
+    error,
+  };
+}
+
+/** How often a running import's progress is checked */
+const IMPORT_POLL_INTERVAL = 1000;
+
+/**
+ * Starts an import on the server and polls it until it completes, reporting
+ * progress each time. The server keeps going if the page is left; calling it
+ * on an unfinished import follows it, or picks it up if its run stopped.
+ */
+export function useRunCustomerImport() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/customers/imports',
+    (url: string, { arg }: { arg: string }) =>
+      sendImportRequest(`${url}/${arg}/run`, 'POST', {}, 'Failed to check on the import')
+  );
+
+  const runImport = async (id: string, onProgress?: (job: CustomerImport) => void) => {
+    let job = (await trigger(id)).import;
+    onProgress?.(job);
+    while (job.status !== 'completed') {
+      await new Promise((resolve) => setTimeout(resolve, IMPORT_POLL_INTERVAL));
+      job = (await trigger(id)).import;
+      onProgress?.(job);
+    }
+
+    // Revalidate all customer lists and the import history
+    await mutate((key) => typeof key === 'string' && key.startsWith('/api/customers'), undefined, {
+      revalidate: true,
+    });
+    return job;
+  };
+
+  return {
+    runImport,
+    isRunning: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Shopify Sync
+// ============================================================================
+
+export interface ShopifyCustomerSyncProgress {
+  resource: 'customers' | 'companies';
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+interface ShopifySyncPageResponse extends ShopifyCustomerSyncProgress {
+  nextCursor: string | null;
+}
+
+/**
+ * Imports the shop's Shopify customers and then its B2B companies, page by
+ * page, reporting the running totals after each page
+ */
+export function useShopifyCustomerSync() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/customers/shopify-sync',
+    async (url: string, { arg }: { arg: { resource: ShopifyCustomerSyncProgress['resource']; cursor: string | null } }) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(arg),
+      });
+
+      const data: ApiResponse<ShopifySyncPageResponse> = await response.json();
+      if (!response.ok || !data.success || !data.data) {
+        throw new Error(data.error?.message || 'The Shopify sync stopped before it finished');
+      }
+
+      return data.data;
+    }
+  );
+
+  const syncCustomers = async (onProgress?: (progress: ShopifyCustomerSyncProgress) => void) => {
+    const progress: ShopifyCustomerSyncProgress = { resource: 'customers', created: 0, updated: 0, skipped: 0 };
+
+    for (const resource of ['customers', 'companies'] as const) {
+      let cursor: string | null = null;
+      do {
+        const page: ShopifySyncPageResponse = await trigger({ resource, cursor });
+        progress.resource = resource;
+        progress.created += page.created;
+        progress.updated += page.updated;
+        progress.skipped += page.skipped;
+        onProgress?.({ ...progress });
+        cursor = page.nextCursor;
+      } while (cursor);
+    }
+
+    await mutate((key) => typeof key === 'string' && key.startsWith('/api/customers'), undefined, {
+      revalidate: true,
+    });
+    return progress;
+  };
+
+  return {
+    syncCustomers,
+    isSyncing: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Duplicates and Merges
+// ============================================================================
+
+export function useCustomerDuplicates(id: string | null) {
+  const key = id ? `/api/customers/${id}/duplicates` : null;
+
+  const { data, error, isLoading, mutate: revalidate } = useSWR(
+    key,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 5000,
+    }
+  );
+
+  return {
+    duplicates: (data as { duplicates: CustomerDuplicate[] } | undefined)?.duplicates ?? [],
+    isLoading,
+    error,
+    revalidate,
+  };
+}
+
+/**
+ * Merges into the customer, newest first; recent ones can be undone
+ */
+export function useCustomerMerges(id: string | null) {
+  const key = id ? `/api/customers/${id}/merges` : null;
+
+  const { data, error, isLoading, mutate: revalidate } = useSWR(key, fetcher);
+
+  return {
+    merges: (data as { merges: CustomerMerge[] } | undefined)?.merges ?? [],
+    isLoading,
+    error,
+    revalidate,
+  };
+}
+
+export interface MergeCustomersInput {
+  duplicateIds: string[];
+  /** Which customer each field's value is kept from, by customer ID */
+  selection: Partial<Record<CustomerMergeField, string>>;
+}
+
+async function sendMergeRequest<T>(url: string, body: unknown, fallbackMessage: string): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const data: ApiResponse<T> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || fallbackMessage);
+  }
+
+  return data.data;
+}
+
+export function useMergeCustomers() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/customers',
+    (url: string, { arg }: { arg: { customerId: string; data: MergeCustomersInput } }) =>
+      sendMergeRequest<{ merge: CustomerMerge; customer: Customer }>(
+        `${url}/${arg.customerId}/merges`, arg.data, 'Failed to merge customers'
+      )
+  );
+
+  const mergeCustomers = async (customerId: string, data: MergeCustomersInput) => {
+    const result = await trigger({ customerId, data });
+    // The duplicates are gone and their quotes and activity moved
+    await mutate((key) => typeof key === 'string' && key.startsWith('/api/customers'), undefined, {
+      revalidate: true,
+    });
+    return result;
+  };
+
+  return {
+    mergeCustomers,
+    isMerging: isMutating,
+    error,
+  };
+}
+
+export function useUndoCustomerMerge() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/customers/merges',
+    (url: string, { arg }: { arg: string }) =>
+      sendMergeRequest<{ customer: Customer }>(`${url}/${arg}/undo`, {}, 'Failed to undo the merge')
+  );
+
+  const undoMerge = async (mergeId: string) => {
+    const result = await trigger(mergeId);
+    await mutate((key) => typeof key === 'string' && key.startsWith('/api/customers'), undefined, {
+      revalidate: true,
+    });
+    return result.customer;
+  };
+
+  return {
+    undoMerge,
+    isUndoing: isMutating,
+    error,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Shop Members Hooks
+ * SWR-based hooks for listing, inviting and removing workspace members
+ * @module hooks/useMembers
+ */
+
+'use client';
+
+import useSWR from 'swr';
+import type { InviteMemberInput } from '@/lib/members';
+import type { ApiResponse, ShopMember } from '@/types/quote';
+
+const MEMBERS_KEY = '/api/members';
+
+// ============================================================================
+// Fetchers
+// ============================================================================
+
+async function membersRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data: ApiResponse<T> = await response.json();
+  if (!response.ok || !data.success || data.data === undefined) {
+    throw new Error(data.error?.message || 'Request failed');
+  }
+  return data.data;
+}
+
+// ============================================================================
+// Members Hook
+// ============================================================================
+
+/**
+ * Hook for the current shop's members, with invite and remove actions
+ */
+export function useShopMembers() {
+  const { data, error, isLoading, mutate } = useSWR(
+    MEMBERS_KEY,
+    (url: string) => membersRequest<ShopMember[]>(url),
+    { revalidateOnFocus: false }
+  );
+
+  const inviteMember = async (input: InviteMemberInput) => {
+    const member = await membersRequest<ShopMember>(MEMBERS_KEY, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    await mutate((members = []) => [...members, member], { revalidate: false });
+    return member;
+  };
+
+  const removeMember = async (memberId: string) => {
+    await membersRequest<{ deleted: boolean }>(`${MEMBERS_KEY}/${memberId}`, { method: 'DELETE' });
+    await mutate((members = []) => members.filter((member) => member.id !== memberId), { revalidate: false });
+  };
+
+  return {
+    members: data ?? [],
+    isLoading,
+    error,
+    inviteMember,
+    removeMember,
+  };
+}
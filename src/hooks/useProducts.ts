@@ -0,0 +1,100 @@
+/**
+ * Product Hooks
+ * SWR-based catalog search against /api/products/search
+ * @module hooks/useProducts
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import useSWRInfinite from 'swr/infinite';
+import type { ApiResponse, Product } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ProductSearchResponse {
+  products: Product[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+}
+
+// ============================================================================
+// Fetcher
+// ============================================================================
+
+const fetcher = async (url: string): Promise<ProductSearchResponse> => {
+  const response = await fetch(url);
+  const data: ApiResponse<ProductSearchResponse> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'An error occurred');
+  }
+  return data.data;
+};
+
+// ============================================================================
+// Search Hook
+// ============================================================================
+
+/**
+ * Search the shop's catalog; further pages are fetched by cursor with `loadMore`.
+ * Nothing is fetched until the query has at least `minLength` characters.
+ */
+export function useProductSearch(
+  shopId: string | undefined,
+  query: string,
+  options?: { pageSize?: number; minLength?: number }
+) {
+  const minLength = options?.minLength ?? 2;
+  const enabled = Boolean(shopId) && query.trim().length >= minLength;
+
+  const getKey = (pageIndex: number, previousPage: ProductSearchResponse | null) => {
+    if (!enabled) return null;
+    if (previousPage && !previousPage.pageInfo.hasNextPage) return null;
+
+    const params = new URLSearchParams({ shop: shopId as string, q: query.trim() });
+    if (options?.pageSize) params.set('first', options.pageSize.toString());
+    if (pageIndex > 0 && previousPage?.pageInfo.endCursor) {
+      params.set('after', previousPage.pageInfo.endCursor);
+    }
+    return `/api/products/search?${params.toString()}`;
+  };
+
+  const { data, error, isLoading, isValidating, size, setSize, mutate } = useSWRInfinite(
+    getKey,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      revalidateFirstPage: false,
+      dedupingInterval: 10000,
+    }
+  );
+
+  const products = useMemo(
+    () =>
+      (data ?? []).flatMap((page) =>
+        page.products.map((product) => ({
+          ...product,
+          createdAt: new Date(product.createdAt),
+          updatedAt: new Date(product.updatedAt),
+        }))
+      ),
+    [data]
+  );
+
+  const hasMore = Boolean(data?.[data.length - 1]?.pageInfo.hasNextPage);
+  const isLoadingMore = isValidating && size > 1 && data?.length !== size;
+
+  return {
+    products,
+    hasMore,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore: () => setSize(size + 1),
+    retry: () => mutate(),
+  };
+}
@@ -19,8 +19,13 @@ import type {
   LineItemsData,
   TermsNotesData,
   QuoteCalculations,
+  QuoteSettings,
+  QuoteTemplate,
+  TaxRule,
 } from '@/types/quote';
 import { WIZARD_STEPS, QuoteStatus, CustomerStatus } from '@/types/quote';
+import { calculateQuoteTotals } from '@/lib/quotes';
+import { resolveTaxContext } from '@/lib/tax';
 
 // ============================================================================
 // Types
@@ -37,6 +42,10 @@ interface UseQuoteWizardOptions {
   initialData?: Partial<QuoteFormData>;
   /** Callback on completion */
   onComplete?: (quote: QuoteFormData) => void | Promise<void>;
+  /** The shop's regional rates, matched against the customer's shipping address */
+  taxRules?: TaxRule[];
+  /** Whether line prices are entered with tax included */
+  pricesIncludeTax?: boolean;
 }
 
 interface UseQuoteWizardReturn {
@@ -80,6 +89,8 @@ interface UseQuoteWizardReturn {
   clearError: () => void;
   submitQuote: () => Promise<void>;
   reset: () => void;
+  /** Prefill terms, line items and branding from a template, or clear them for a blank quote */
+  applyTemplate: (template: QuoteTemplate | null) => void;
   
   // Component compatibility actions
   updateCustomerInfo: (data: Partial<CustomerInfoData>) => void;
@@ -117,6 +128,64 @@ const INITIAL_FORM_DATA: QuoteFormData = {
   tax_rate: 0,
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Form defaults from the merchant's quote settings, layered over
+ * INITIAL_FORM_DATA when a new quote is started
+ */
+export function getQuoteFormDefaults(settings: QuoteSettings, now: Date = new Date()): Partial<QuoteFormData> {
+  return {
+    terms: settings.defaultPaymentTerms,
+    tax_rate: settings.taxRate,
+    currency: settings.defaultCurrency,
+    valid_until: new Date(now.getTime() + settings.defaultValidityPeriod * DAY_MS).toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Form data a template prefills: its line items, PDF branding and whichever
+ * default terms it sets (terms it leaves out keep the settings defaults)
+ */
+export function getTemplateFormData(template: QuoteTemplate, now: Date = new Date()): Partial<QuoteFormData> {
+  const terms = template.termsDefault ?? {};
+
+  return {
+    template_id: template.id,
+    pdf_template: template.pdfTemplate,
+    header_text: template.headerText ?? '',
+    footer_text: template.footerText ?? '',
+    line_items: template.lineItems.map((item) => ({
+      name: item.title,
+      description: item.description,
+      quantity: item.quantity,
+      unit_price: item.unitPrice,
+      product_id: item.productId,
+      variant_id: item.variantId,
+      sku: item.sku,
+      discount_percent: item.discountPercentage,
+      tax_rate: item.taxRate,
+    })),
+    ...(terms.paymentTerms !== undefined && { terms: terms.paymentTerms }),
+    ...(terms.deliveryTerms !== undefined && { delivery_terms: terms.deliveryTerms }),
+    ...(terms.depositRequired !== undefined && { deposit_required: terms.depositRequired }),
+    ...(terms.depositPercentage !== undefined && { deposit_percentage: terms.depositPercentage }),
+    ...(terms.currency && { currency: terms.currency }),
+    ...(terms.notes !== undefined && { notes: terms.notes }),
+    ...(terms.internalNotes !== undefined && { internal_notes: terms.internalNotes }),
+    ...(terms.validityPeriod && {
+      valid_until: new Date(now.getTime() + terms.validityPeriod * DAY_MS).toISOString().split('T')[0],
+    }),
+  };
+}
+
+/** Days from today until valid_until, for the validity period field */
+function getValidityPeriod(validUntil: string): number | undefined {
+  if (!validUntil) return undefined;
+  const days = Math.round((new Date(validUntil).getTime() - Date.now()) / DAY_MS);
+  return days > 0 ? days : undefined;
+}
+
 // ============================================================================
 // Validation Functions
 // ============================================================================
@@ -172,35 +241,15 @@ function validateLineItems(items: LineItemInput[]): ValidationErrors {
 // Calculation Functions
 // ============================================================================
 
-export function calculateQuoteTotals(
-  lineItems: LineItemInput[],
-  discountTotal: number = 0,
-  globalTaxRate: number = 0
-): QuoteCalculations {
-  const subtotal = lineItems.reduce((sum, item) => {
-    const itemTotal = item.quantity * item.unit_price;
-    const itemDiscount = itemTotal * (item.discount_percent || 0) / 100;
-    return sum + itemTotal - itemDiscount;
-  }, 0);
-  
-  const taxableAmount = Math.max(0, subtotal - discountTotal);
-  const taxTotal = taxableAmount * (globalTaxRate / 100);
-  const total = taxableAmount + taxTotal;
-  
-  return {
-    subtotal: Number(subtotal.toFixed(2)),
-    discountTotal: Number(discountTotal.toFixed(2)),
-    taxTotal: Number(taxTotal.toFixed(2)),
-    total: Number(total.toFixed(2)),
-  };
-}
+// Totals are shared with the quote API so the wizard and server agree
+export { calculateQuoteTotals };
 
 // ============================================================================
 // Hook
 // ============================================================================
 
 export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWizardReturn {
-  const { shopId, initialData, onComplete } = options;
+  const { shopId, initialData, onComplete, taxRules = [], pricesIncludeTax = false } = options;
   
   // ============================================================================
   // State
@@ -218,13 +267,30 @@ export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWiz
   // ============================================================================
   // Computed Values
   // ============================================================================
+  // Priced the way the API will price the quote on save
   const calculations = useMemo(() => {
     return calculateQuoteTotals(
       formData.line_items,
       formData.discount_total,
-      formData.tax_rate
+      resolveTaxContext({
+        rules: taxRules,
+        shippingAddress: formData.customer.address,
+        taxId: formData.customer.tax_id,
+        taxExempt: formData.customer.tax_exempt,
+        fallbackRate: formData.tax_rate,
+        pricesIncludeTax,
+      })
     );
-  }, [formData.line_items, formData.discount_total, formData.tax_rate]);
+  }, [
+    formData.line_items,
+    formData.discount_total,
+    formData.tax_rate,
+    formData.customer.address,
+    formData.customer.tax_id,
+    formData.customer.tax_exempt,
+    taxRules,
+    pricesIncludeTax,
+  ]);
 
   const isStepValid = useMemo(() => {
     switch (currentStep) {
@@ -350,7 +416,7 @@ export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWiz
       product_id: item?.product_id,
       sku: item?.sku,
       discount_percent: item?.discount_percent || 0,
-      tax_rate: item?.tax_rate || 0,
+      tax_rate: item?.tax_rate,
     };
     
     setFormData(prev => ({
@@ -423,13 +489,23 @@ export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWiz
     setFormData({ ...INITIAL_FORM_DATA, ...initialData });
   }, [initialData]);
 
+  const applyTemplate = useCallback((template: QuoteTemplate | null) => {
+    updateFormData(template ? getTemplateFormData(template) : {
+      template_id: undefined,
+      pdf_template: undefined,
+      header_text: '',
+      footer_text: '',
+      line_items: [],
+    });
+  }, [updateFormData]);
+
   // ============================================================================
   // Component Compatibility - Data Transformation
   // ============================================================================
   const data = useMemo(() => ({
     customerInfo: {
       customer: formData.customer.email ? {
-        id: '',
+        id: formData.customer.customer_id ?? '',
         email: formData.customer.email,
         companyName: formData.customer.company,
         contactName: formData.customer.name,
@@ -444,7 +520,9 @@ export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWiz
       companyName: formData.customer.company,
       contactName: formData.customer.name,
       phone: formData.customer.phone,
-      isExistingCustomer: false,
+      customerId: formData.customer.customer_id,
+      contactId: formData.customer.contact_id,
+      isExistingCustomer: !!formData.customer.customer_id,
     } as CustomerInfoData,
     productSelection: {
       selectedProducts: [],
@@ -462,28 +540,29 @@ export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWiz
         sku: item.sku || '',
         quantity: item.quantity,
         unitPrice: item.unit_price,
-        originalPrice: item.unit_price,
+        originalPrice: item.original_price ?? item.unit_price,
+        unitCost: item.unit_cost,
         discountAmount: (item.unit_price * item.quantity * (item.discount_percent || 0)) / 100,
         discountPercentage: item.discount_percent,
-        taxRate: item.tax_rate || 0,
-        taxAmount: (item.unit_price * item.quantity * (1 - (item.discount_percent || 0) / 100) * (item.tax_rate || 0)) / 100,
+        taxRate: item.tax_rate,
+        taxAmount: 0,
         subtotal: item.unit_price * item.quantity,
-        total: item.unit_price * item.quantity * (1 - (item.discount_percent || 0) / 100) * (1 + (item.tax_rate || 0) / 100),
+        total: item.unit_price * item.quantity * (1 - (item.discount_percent || 0) / 100),
         imageUrl: undefined,
         notes: item.description,
         customFields: undefined,
       })),
-      currency: 'USD',
+      currency: formData.currency || 'USD',
     } as LineItemsData,
     termsNotes: {
       paymentTerms: formData.terms || 'Net 30',
-      deliveryTerms: '',
-      validityPeriod: 30,
-      depositRequired: false,
-      depositPercentage: 0,
-      currency: 'USD',
+      deliveryTerms: formData.delivery_terms ?? '',
+      validityPeriod: getValidityPeriod(formData.valid_until) ?? 30,
+      depositRequired: formData.deposit_required ?? false,
+      depositPercentage: formData.deposit_percentage ?? 0,
+      currency: formData.currency || 'USD',
       notes: formData.notes,
-      internalNotes: '',
+      internalNotes: formData.internal_notes ?? '',
     } as TermsNotesData,
   }), [formData]);
 
@@ -491,13 +570,27 @@ export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWiz
   // Component Compatibility - Actions
   // ============================================================================
   const updateCustomerInfo = useCallback((infoData: Partial<CustomerInfoData>) => {
+    const shippingAddress = infoData.shippingAddress ?? infoData.customer?.shippingAddress;
+    // Picking or clearing a saved customer replaces their address and tax ID
+    const customerChanged = 'customer' in infoData;
+
     updateFormData({
       customer: {
         name: infoData.contactName ?? formData.customer.name,
         email: infoData.email ?? formData.customer.email,
         phone: infoData.phone ?? formData.customer.phone,
         company: infoData.companyName ?? formData.customer.company,
-        address: formData.customer.address,
+        address: shippingAddress ? {
+          street: shippingAddress.street,
+          city: shippingAddress.city,
+          state: shippingAddress.state,
+          zip: shippingAddress.zipCode,
+          country: shippingAddress.country,
+        } : customerChanged ? INITIAL_FORM_DATA.customer.address : formData.customer.address,
+        tax_id: customerChanged ? infoData.customer?.taxId : formData.customer.tax_id,
+        tax_exempt: customerChanged ? infoData.customer?.taxExempt : formData.customer.tax_exempt,
+        customer_id: customerChanged ? infoData.customerId : formData.customer.customer_id,
+        contact_id: customerChanged || 'contactId' in infoData ? infoData.contactId : formData.customer.contact_id,
       },
     });
   }, [updateFormData, formData.customer]);
@@ -516,6 +609,9 @@ export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWiz
           quantity: item.quantity,
           unit_price: item.unitPrice,
           product_id: item.productId,
+          variant_id: item.variantId,
+          original_price: item.originalPrice,
+          unit_cost: item.unitCost,
           sku: item.sku,
           discount_percent: item.discountPercentage,
           tax_rate: item.taxRate,
@@ -524,13 +620,21 @@ export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWiz
     }
   }, [updateFormData]);
 
+  // Steps send one field at a time, so only the fields present are applied
   const updateTermsNotes = useCallback((termsData: Partial<TermsNotesData>) => {
     updateFormData({
-      terms: termsData.paymentTerms || '',
-      notes: termsData.notes || '',
-      valid_until: termsData.validityPeriod 
-        ? new Date(Date.now() + termsData.validityPeriod * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
-        : '',
+      ...(termsData.paymentTerms !== undefined && { terms: termsData.paymentTerms }),
+      ...(termsData.notes !== undefined && { notes: termsData.notes }),
+      ...(termsData.validityPeriod !== undefined && {
+        valid_until: termsData.validityPeriod
+          ? new Date(Date.now() + termsData.validityPeriod * DAY_MS).toISOString().split('T')[0]
+          : '',
+      }),
+      ...(termsData.currency && { currency: termsData.currency }),
+      ...(termsData.deliveryTerms !== undefined && { delivery_terms: termsData.deliveryTerms }),
+      ...(termsData.depositRequired !== undefined && { deposit_required: termsData.depositRequired }),
+      ...(termsData.depositPercentage !== undefined && { deposit_percentage: termsData.depositPercentage }),
+      ...(termsData.internalNotes !== undefined && { internal_notes: termsData.internalNotes }),
     });
   }, [updateFormData]);
 
@@ -569,6 +673,7 @@ export function useQuoteWizard(options: UseQuoteWizardOptions = {}): UseQuoteWiz
     clearError,
     submitQuote,
     reset,
+    applyTemplate,
     // Component compatibility properties
     currentStepIndex,
     steps: WIZARD_STEPS,
@@ -0,0 +1,555 @@
+/**
+ * Quote Hooks
+ * SWR-based hooks for the quote API (list, detail and mutations)
+ * @module hooks/useQuotes
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import useSWR, { mutate } from 'swr';
+import useSWRMutation from 'swr/mutation';
+import type {
+  ApiResponse,
+  CustomerAddress,
+  LineItem,
+  QuotePdfTemplate,
+  QuotePriority,
+  QuoteRevision,
+  QuoteStatus,
+  QuoteTerms,
+  QuoteWithRelations,
+} from '@/types/quote';
+import { parseQuoteResponse } from '@/lib/quotes';
+import { parseRevisionResponse } from '@/lib/quoteRevisions';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * List filters, mirroring the FilterState of the QuoteFilters component
+ */
+export interface QuoteListFilters {
+  shopId?: string;
+  customerId?: string;
+  searchQuery?: string;
+  status?: QuoteStatus[];
+  dateFrom?: string;
+  dateTo?: string;
+  minValue?: string;
+  maxValue?: string;
+  sortBy?: 'created' | 'updated' | 'total' | 'expiry';
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+interface QuotesListResponse {
+  quotes: QuoteWithRelations[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Line item payload; amounts are derived by the server
+ */
+export type QuoteLineItemInput = Pick<LineItem, 'title' | 'quantity' | 'unitPrice'> &
+  Partial<Omit<LineItem, 'id' | 'subtotal' | 'discountAmount' | 'taxAmount' | 'total'>>;
+
+export interface CreateQuoteInput {
+  shopId: string;
+  customerId?: string;
+  /** The customer's contact the quote is addressed to, instead of the customer's own details */
+  contactId?: string;
+  customer?: {
+    email: string;
+    companyName?: string;
+    contactName: string;
+    phone?: string;
+    taxId?: string;
+    shippingAddress?: CustomerAddress;
+  };
+  title: string;
+  status?: QuoteStatus.DRAFT | QuoteStatus.PENDING;
+  priority?: QuotePriority;
+  lineItems: QuoteLineItemInput[];
+  discountTotal?: number;
+  taxRate?: number;
+  shippingTotal?: number;
+  terms?: Partial<QuoteTerms>;
+  expiresAt?: string;
+  templateId?: string;
+  pdfTemplate?: QuotePdfTemplate;
+  headerText?: string;
+  footerText?: string;
+}
+
+export type UpdateQuoteInput = Partial<Omit<
+  CreateQuoteInput,
+  'shopId' | 'contactId' | 'customer' | 'status' | 'expiresAt' | 'templateId' | 'pdfTemplate' | 'headerText' | 'footerText'
+>> & {
+  expiresAt?: string | null;
+};
+
+// ============================================================================
+// Fetcher
+// ============================================================================
+
+const fetcher = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || 'An error occurred');
+  }
+  const data: ApiResponse<unknown> = await response.json();
+  if (!data.success) {
+    throw new Error(data.error?.message || 'An error occurred');
+  }
+  return data.data;
+};
+
+const revalidateQuotes = () =>
+  mutate((key) => typeof key === 'string' && key.startsWith('/api/quotes'), undefined, {
+    revalidate: true,
+  });
+
+// ============================================================================
+// Query Builders
+// ============================================================================
+
+export const buildQuoteQueryString = (filters: QuoteListFilters): string => {
+  const params = new URLSearchParams();
+
+  if (filters.page) params.set('page', filters.page.toString());
+  if (filters.limit) params.set('limit', filters.limit.toString());
+  if (filters.shopId) params.set('shop_id', filters.shopId);
+  if (filters.customerId) params.set('customer_id', filters.customerId);
+  if (filters.searchQuery) params.set('q', filters.searchQuery);
+  filters.status?.forEach((status) => params.append('status', status));
+  if (filters.dateFrom) params.set('from', filters.dateFrom);
+  if (filters.dateTo) params.set('to', filters.dateTo);
+  if (filters.minValue) params.set('min', filters.minValue);
+  if (filters.maxValue) params.set('max', filters.maxValue);
+  if (filters.sortBy) params.set('sort', filters.sortBy);
+  if (filters.sortOrder) params.set('order', filters.sortOrder);
+
+  return params.toString();
+};
+
+// ============================================================================
+// List Hook
+// ============================================================================
+
+export function useQuotesList(
+  filters: QuoteListFilters = {},
+  options?: { refreshInterval?: number; revalidateOnFocus?: boolean }
+) {
+  const queryString = buildQuoteQueryString(filters);
+  const key = `/api/quotes${queryString ? `?${queryString}` : ''}`;
+
+  const { data, error, isLoading, isValidating, mutate: revalidate } = useSWR(
+    key,
+    fetcher,
+    {
+      refreshInterval: options?.refreshInterval ?? 0,
+      revalidateOnFocus: options?.revalidateOnFocus ?? true,
+      dedupingInterval: 2000,
+    }
+  );
+
+  const response = data as QuotesListResponse | undefined;
+  const quotes = useMemo(
+    () => (response?.quotes ?? []).map(parseQuoteResponse),
+    [response]
+  );
+
+  return {
+    quotes,
+    pagination: response?.pagination ?? { page: 1, limit: 20, total: 0, totalPages: 0 },
+    isLoading,
+    isValidating,
+    error,
+    revalidate,
+  };
+}
+
+// ============================================================================
+// Single Quote Hook
+// ============================================================================
+
+export function useQuote(id: string | null, options?: { refreshInterval?: number }) {
+  const key = id ? `/api/quotes/${id}` : null;
+
+  const { data, error, isLoading, isValidating, mutate: revalidate } = useSWR(
+    key,
+    fetcher,
+    {
+      refreshInterval: options?.refreshInterval ?? 0,
+      revalidateOnFocus: true,
+    }
+  );
+
+  const quote = useMemo(
+    () => (data ? parseQuoteResponse(data as QuoteWithRelations) : null),
+    [data]
+  );
+
+  return {
+    quote,
+    isLoading,
+    isValidating,
+    error,
+    revalidate,
+  };
+}
+
+/**
+ * Every version of a quote, oldest first; the last one is the live quote
+ */
+export function useQuoteRevisions(id: string | null) {
+  const { data, error, isLoading } = useSWR(
+    id ? `/api/quotes/${id}/revisions` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+
+  const revisions = useMemo(
+    () => ((data as QuoteRevision[] | undefined) ?? []).map(parseRevisionResponse),
+    [data]
+  );
+
+  return {
+    revisions,
+    isLoading,
+    error,
+  };
+}
+
+// ============================================================================
+// Create Quote Mutation
+// ============================================================================
+
+async function createQuoteFetcher(
+  url: string,
+  { arg }: { arg: CreateQuoteInput }
+): Promise<QuoteWithRelations> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(arg),
+  });
+
+  const data: ApiResponse<QuoteWithRelations> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to create quote');
+  }
+
+  return parseQuoteResponse(data.data);
+}
+
+export function useCreateQuote() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/quotes',
+    createQuoteFetcher
+  );
+
+  const createQuote = async (input: CreateQuoteInput) => {
+    const result = await trigger(input);
+    await revalidateQuotes();
+    return result;
+  };
+
+  return {
+    createQuote,
+    isCreating: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Update Quote Mutation
+// ============================================================================
+
+async function updateQuoteFetcher(
+  url: string,
+  { arg }: { arg: { id: string; data: UpdateQuoteInput } }
+): Promise<QuoteWithRelations> {
+  const response = await fetch(`${url}/${arg.id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(arg.data),
+  });
+
+  const data: ApiResponse<QuoteWithRelations> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to update quote');
+  }
+
+  return parseQuoteResponse(data.data);
+}
+
+export function useUpdateQuote() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/quotes',
+    updateQuoteFetcher
+  );
+
+  const updateQuote = async (id: string, input: UpdateQuoteInput) => {
+    const result = await trigger({ id, data: input });
+    await revalidateQuotes();
+    return result;
+  };
+
+  return {
+    updateQuote,
+    isUpdating: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Delete Quote Mutation
+// ============================================================================
+
+async function deleteQuoteFetcher(
+  url: string,
+  { arg }: { arg: { ids: string[] } }
+): Promise<void> {
+  for (const id of arg.ids) {
+    const response = await fetch(`${url}/${id}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to delete quote');
+    }
+  }
+}
+
+export function useDeleteQuote() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/quotes',
+    deleteQuoteFetcher
+  );
+
+  const deleteQuotes = async (ids: string[]) => {
+    await trigger({ ids });
+    await revalidateQuotes();
+  };
+
+  return {
+    deleteQuote: (id: string) => deleteQuotes([id]),
+    deleteQuotes,
+    isDeleting: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Status Transition Mutation
+// ============================================================================
+
+async function updateStatusFetcher(
+  url: string,
+  { arg }: { arg: { id: string; status: QuoteStatus; comment?: string } }
+): Promise<QuoteStatus> {
+  const response = await fetch(`${url}/${arg.id}/status`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: arg.status, comment: arg.comment }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error?.message || 'Failed to update quote status');
+  }
+
+  // A send past the shop's discount limits lands in pending_approval instead
+  return data.data?.quote?.status ?? arg.status;
+}
+
+export function useQuoteStatusTransition() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/quotes',
+    updateStatusFetcher
+  );
+
+  /** @returns The status the quote ended up in */
+  const updateStatus = async (id: string, status: QuoteStatus, comment?: string) => {
+    const applied = await trigger({ id, status, comment });
+    await revalidateQuotes();
+    return applied;
+  };
+
+  return {
+    updateStatus,
+    isUpdating: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Discount Approval Mutation
+// ============================================================================
+
+async function decideApprovalFetcher(
+  url: string,
+  { arg }: { arg: { id: string; decision: 'approve' | 'reject'; comment?: string } }
+): Promise<void> {
+  const response = await fetch(`${url}/${arg.id}/approval`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ decision: arg.decision, comment: arg.comment }),
+  });
+
+  const data: ApiResponse<unknown> = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error?.message || 'Failed to record the decision');
+  }
+}
+
+/**
+ * Hook for approvers to approve (and send) or reject a quote held back for its discounts
+ */
+export function useQuoteApproval() {
+  const { trigger, isMutating, error } = useSWRMutation('/api/quotes', decideApprovalFetcher);
+
+  const approveQuote = async (id: string, comment?: string) => {
+    await trigger({ id, decision: 'approve', comment });
+    await revalidateQuotes();
+  };
+
+  const rejectQuote = async (id: string, comment: string) => {
+    await trigger({ id, decision: 'reject', comment });
+    await revalidateQuotes();
+  };
+
+  return {
+    approveQuote,
+    rejectQuote,
+    isDeciding: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Draft Order Conversion Mutation
+// ============================================================================
+
+async function convertQuoteFetcher(
+  url: string,
+  { arg }: { arg: { id: string; comment?: string } }
+): Promise<QuoteWithRelations> {
+  const response = await fetch(`${url}/${arg.id}/convert`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ comment: arg.comment }),
+  });
+
+  const data: ApiResponse<QuoteWithRelations> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to convert quote');
+  }
+
+  return parseQuoteResponse(data.data);
+}
+
+export function useConvertQuote() {
+  const { trigger, isMutating, error } = useSWRMutation(
+    '/api/quotes',
+    convertQuoteFetcher
+  );
+
+  const convertQuote = async (id: string, comment?: string) => {
+    const result = await trigger({ id, comment });
+    await revalidateQuotes();
+    return result;
+  };
+
+  return {
+    convertQuote,
+    isConverting: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Buyer Link Mutations
+// ============================================================================
+
+async function createShareLinkFetcher(
+  url: string,
+  { arg }: { arg: { id: string } }
+): Promise<string> {
+  const response = await fetch(`${url}/${arg.id}/share`, { method: 'POST' });
+
+  const data: ApiResponse<{ url: string }> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to create quote link');
+  }
+
+  return data.data.url;
+}
+
+async function revokeShareLinksFetcher(
+  url: string,
+  { arg }: { arg: { id: string } }
+): Promise<number> {
+  const response = await fetch(`${url}/${arg.id}/share`, { method: 'DELETE' });
+
+  const data: ApiResponse<{ revoked: number }> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to revoke quote links');
+  }
+
+  return data.data.revoked;
+}
+
+export function useQuoteShareLink() {
+  const create = useSWRMutation('/api/quotes', createShareLinkFetcher);
+  const revoke = useSWRMutation('/api/quotes', revokeShareLinksFetcher);
+
+  return {
+    createShareLink: (id: string) => create.trigger({ id }),
+    revokeShareLinks: (id: string) => revoke.trigger({ id }),
+    isCreatingLink: create.isMutating,
+    isRevokingLinks: revoke.isMutating,
+  };
+}
+
+// ============================================================================
+// Quote Email Mutation
+// ============================================================================
+
+async function sendQuoteEmailFetcher(
+  url: string,
+  { arg }: { arg: { id: string } }
+): Promise<string> {
+  const response = await fetch(`${url}/${arg.id}/email`, { method: 'POST' });
+
+  const data: ApiResponse<{ messageId: string }> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to send quote email');
+  }
+
+  return data.data.messageId;
+}
+
+/**
+ * Hook for emailing a quote, with its buyer link and PDF, to the customer
+ */
+export function useSendQuoteEmail() {
+  const { trigger, isMutating, error } = useSWRMutation('/api/quotes', sendQuoteEmailFetcher);
+
+  return {
+    sendQuoteEmail: (id: string) => trigger({ id }),
+    isSending: isMutating,
+    error,
+  };
+}
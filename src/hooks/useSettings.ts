@@ -0,0 +1,357 @@
+/**
+ * Merchant Settings Hooks
+ * SWR-based hooks for loading and saving the shop's settings, quote workflow,
+ * exchange rates and tax rules
+ * @module hooks/useSettings
+ */
+
+'use client';
+
+import useSWR from 'swr';
+import useSWRMutation from 'swr/mutation';
+import { parseExchangeRatesResponse, type ExchangeRateInput } from '@/lib/exchangeRates';
+import { DEFAULT_WORKFLOW } from '@/lib/quoteWorkflow';
+import type { MerchantSettingsInput } from '@/lib/settings';
+import { parseTaxRulesResponse, type TaxRuleInput } from '@/lib/tax';
+import { parseWorkflowResponse, type QuoteWorkflowInput } from '@/lib/workflows';
+import type { ApiResponse, ExchangeRate, MerchantSettings, QuoteWorkflowDefinition, TaxRule } from '@/types/quote';
+
+// ============================================================================
+// Fetchers
+// ============================================================================
+
+const fetcher = async (url: string): Promise<MerchantSettings> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || 'Failed to load settings');
+  }
+  const data: ApiResponse<MerchantSettings> = await response.json();
+  if (!data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to load settings');
+  }
+  return data.data;
+};
+
+async function saveSettingsFetcher(
+  url: string,
+  { arg }: { arg: MerchantSettingsInput }
+): Promise<MerchantSettings> {
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(arg),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || 'Failed to save settings');
+  }
+
+  const data: ApiResponse<MerchantSettings> = await response.json();
+  if (!data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to save settings');
+  }
+
+  return data.data;
+}
+
+const settingsKey = (shopId: string | undefined) =>
+  shopId ? `/api/settings?shop_id=${encodeURIComponent(shopId)}` : null;
+
+// ============================================================================
+// Settings Hook
+// ============================================================================
+
+/**
+ * Hook for fetching the shop's merchant settings
+ * @param shopId - Shop domain; nothing is fetched without one
+ */
+export function useMerchantSettings(shopId: string | undefined) {
+  const { data, error, isLoading, mutate: revalidate } = useSWR(settingsKey(shopId), fetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return {
+    settings: data ?? null,
+    isLoading,
+    error,
+    revalidate,
+  };
+}
+
+// ============================================================================
+// Save Settings Mutation
+// ============================================================================
+
+/**
+ * Hook for saving the shop's merchant settings
+ */
+export function useSaveMerchantSettings(shopId: string | undefined) {
+  const key = settingsKey(shopId);
+  const { trigger, isMutating, error } = useSWRMutation(key, saveSettingsFetcher, {
+    // The response is the stored settings, so it replaces the cached copy as-is
+    populateCache: true,
+    revalidate: false,
+  });
+
+  const saveSettings = async (input: MerchantSettingsInput) => {
+    if (!key) {
+      throw new Error('Shop is required to save settings');
+    }
+    return trigger(input);
+  };
+
+  return {
+    saveSettings,
+    isSaving: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Quote Workflow
+// ============================================================================
+
+const workflowKey = (shopId: string | undefined) =>
+  shopId ? `/api/settings/workflow?shop_id=${encodeURIComponent(shopId)}` : null;
+
+async function workflowFetcher(url: string): Promise<QuoteWorkflowDefinition> {
+  const response = await fetch(url);
+  const data: ApiResponse<QuoteWorkflowDefinition> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to load workflow');
+  }
+  return parseWorkflowResponse(data.data);
+}
+
+async function saveWorkflowFetcher(
+  url: string,
+  { arg }: { arg: QuoteWorkflowInput | null }
+): Promise<QuoteWorkflowDefinition> {
+  // null goes back to the default workflow
+  const response = await fetch(url, arg
+    ? { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(arg) }
+    : { method: 'DELETE' });
+
+  const data: ApiResponse<QuoteWorkflowDefinition> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to save workflow');
+  }
+  return parseWorkflowResponse(data.data);
+}
+
+/**
+ * Hook for fetching the shop's quote workflow; the default one is used while
+ * it loads and when no shop is given
+ * @param shopId - Shop domain; nothing is fetched without one
+ */
+export function useQuoteWorkflow(shopId: string | undefined) {
+  const { data, error, isLoading } = useSWR(workflowKey(shopId), workflowFetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return {
+    workflow: data ?? DEFAULT_WORKFLOW,
+    isLoading,
+    error,
+  };
+}
+
+/**
+ * Hook for saving the shop's quote workflow or resetting it to the default
+ */
+export function useSaveQuoteWorkflow(shopId: string | undefined) {
+  const key = workflowKey(shopId);
+  const { trigger, isMutating, error } = useSWRMutation(key, saveWorkflowFetcher, {
+    populateCache: true,
+    revalidate: false,
+  });
+
+  const saveWorkflow = async (input: QuoteWorkflowInput) => {
+    if (!key) {
+      throw new Error('Shop is required to save the workflow');
+    }
+    return trigger(input);
+  };
+
+  const resetWorkflow = async () => {
+    if (!key) {
+      throw new Error('Shop is required to reset the workflow');
+    }
+    return trigger(null);
+  };
+
+  return {
+    saveWorkflow,
+    resetWorkflow,
+    isSaving: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Exchange Rates
+// ============================================================================
+
+// One empty list, so components comparing against the last rates don't see a change every render
+const NO_EXCHANGE_RATES: ExchangeRate[] = [];
+
+const exchangeRatesKey = (shopId: string | undefined) =>
+  shopId ? `/api/settings/exchange-rates?shop_id=${encodeURIComponent(shopId)}` : null;
+
+async function exchangeRatesFetcher(url: string): Promise<ExchangeRate[]> {
+  const response = await fetch(url);
+  const data: ApiResponse<ExchangeRate[]> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to load exchange rates');
+  }
+  return parseExchangeRatesResponse(data.data);
+}
+
+type ExchangeRatesChange =
+  | { type: 'replace'; rates: ExchangeRateInput[] }
+  | { type: 'import'; content: string };
+
+async function saveExchangeRatesFetcher(
+  url: string,
+  { arg }: { arg: ExchangeRatesChange }
+): Promise<ExchangeRate[]> {
+  const response = await fetch(url, {
+    method: arg.type === 'replace' ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(arg.type === 'replace' ? { rates: arg.rates } : { content: arg.content }),
+  });
+
+  const data: ApiResponse<ExchangeRate[]> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    // An import lists what is wrong with the file line by line
+    const problems = data.error?.details?.file;
+    const message = data.error?.message || 'Failed to save exchange rates';
+    throw new Error(problems?.length ? `${message}: ${problems.join('; ')}` : message);
+  }
+  return parseExchangeRatesResponse(data.data);
+}
+
+/**
+ * Hook for fetching the shop's rates from its base currency
+ * @param shopId - Shop domain; nothing is fetched without one
+ */
+export function useExchangeRates(shopId: string | undefined) {
+  const { data, error, isLoading } = useSWR(exchangeRatesKey(shopId), exchangeRatesFetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return {
+    rates: data ?? NO_EXCHANGE_RATES,
+    isLoading,
+    error,
+  };
+}
+
+/**
+ * Hook for editing the shop's rates table or importing a rates file
+ */
+export function useSaveExchangeRates(shopId: string | undefined) {
+  const key = exchangeRatesKey(shopId);
+  const { trigger, isMutating, error } = useSWRMutation(key, saveExchangeRatesFetcher, {
+    populateCache: true,
+    revalidate: false,
+  });
+
+  const saveRates = async (rates: ExchangeRateInput[]) => {
+    if (!key) {
+      throw new Error('Shop is required to save exchange rates');
+    }
+    return trigger({ type: 'replace', rates });
+  };
+
+  const importRates = async (content: string) => {
+    if (!key) {
+      throw new Error('Shop is required to import exchange rates');
+    }
+    return trigger({ type: 'import', content });
+  };
+
+  return {
+    saveRates,
+    importRates,
+    isSaving: isMutating,
+    error,
+  };
+}
+
+// ============================================================================
+// Tax Rules
+// ============================================================================
+
+const NO_TAX_RULES: TaxRule[] = [];
+
+const taxRulesKey = (shopId: string | undefined) =>
+  shopId ? `/api/settings/tax-rules?shop_id=${encodeURIComponent(shopId)}` : null;
+
+async function taxRulesFetcher(url: string): Promise<TaxRule[]> {
+  const response = await fetch(url);
+  const data: ApiResponse<TaxRule[]> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to load tax rules');
+  }
+  return parseTaxRulesResponse(data.data);
+}
+
+async function saveTaxRulesFetcher(
+  url: string,
+  { arg }: { arg: TaxRuleInput[] }
+): Promise<TaxRule[]> {
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rules: arg }),
+  });
+
+  const data: ApiResponse<TaxRule[]> = await response.json();
+  if (!response.ok || !data.success || !data.data) {
+    throw new Error(data.error?.message || 'Failed to save tax rules');
+  }
+  return parseTaxRulesResponse(data.data);
+}
+
+/**
+ * Hook for fetching the shop's regional tax rules
+ * @param shopId - Shop domain; nothing is fetched without one
+ */
+export function useTaxRules(shopId: string | undefined) {
+  const { data, error, isLoading } = useSWR(taxRulesKey(shopId), taxRulesFetcher, {
+    revalidateOnFocus: false,
+  });
+
+  return {
+    rules: data ?? NO_TAX_RULES,
+    isLoading,
+    error,
+  };
+}
+
+/**
+ * Hook for replacing the shop's tax rules
+ */
+export function useSaveTaxRules(shopId: string | undefined) {
+  const key = taxRulesKey(shopId);
+  const { trigger, isMutating, error } = useSWRMutation(key, saveTaxRulesFetcher, {
+    populateCache: true,
+    revalidate: false,
+  });
+
+  const saveRules = async (rules: TaxRuleInput[]) => {
+    if (!key) {
+      throw new Error('Shop is required to save tax rules');
+    }
+    return trigger(rules);
+  };
+
+  return {
+    saveRules,
+    isSaving: isMutating,
+    error,
+  };
+}
@@ -8,6 +8,7 @@
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { supabase } from '@/lib/supabase';
+import { toBaseCurrency, type BaseCurrencyContext } from '@/lib/exchangeRates';
 import type { 
   Quote, 
   Customer, 
@@ -217,6 +218,42 @@ function useSupabaseQuery<T>(
   };
 }
 
+// ============================================================================
+// Base Currency
+// ============================================================================
+
+/**
+ * The shop's base currency and rates, so stats over quotes in different
+ * currencies add up in one currency
+ */
+async function fetchBaseCurrencyContext(shopId?: string): Promise<BaseCurrencyContext> {
+  if (!shopId) {
+    return { baseCurrency: 'USD', rates: [] };
+  }
+
+  const [{ data: settings }, { data: rates }] = await Promise.all([
+    supabase.from('merchant_settings').select('base_currency').eq('shop_id', shopId).maybeSingle(),
+    supabase.from('exchange_rates').select('currency, rate').eq('shop_id', shopId),
+  ]);
+
+  return {
+    baseCurrency: settings?.base_currency || 'USD',
+    rates: (rates || []).map((rate: { currency: string; rate: number | string }) => ({
+      currency: rate.currency,
+      rate: Number(rate.rate),
+    })),
+  };
+}
+
+/**
+ * Sum quote totals in the base currency; quotes in a currency without a
+ * rate are left out rather than added at face value
+ */
+function sumInBaseCurrency(quotes: Array<Parameters<typeof toBaseCurrency>[0]>, context: BaseCurrencyContext): number {
+  const sum = quotes.reduce((total, quote) => total + (toBaseCurrency(quote, context) ?? 0), 0);
+  return Math.round(sum * 100) / 100;
+}
+
 // ============================================================================
 // Quote Queries
 // ============================================================================
@@ -404,18 +441,19 @@ export function useQuoteStats(
     if (error) throw error;
 
     const quotes = data || [];
+    // Row-level security limits the quotes to the member's shop
+    const currencyContext = await fetchBaseCurrencyContext(quotes[0]?.shop_id);
     const totalQuotes = quotes.length;
     const pendingQuotes = quotes.filter(q => q.status === 'pending' || q.status === 'sent').length;
     const acceptedQuotes = quotes.filter(q => q.status === 'accepted').length;
-    const totalRevenue = quotes
-      .filter(q => q.status === 'accepted')
-      .reduce((sum, q) => sum + (q.total || 0), 0);
+    const totalRevenue = sumInBaseCurrency(quotes.filter(q => q.status === 'accepted'), currencyContext);
     const conversionRate = totalQuotes > 0 ? (acceptedQuotes / totalQuotes) * 100 : 0;
     const avgQuoteValue = totalQuotes > 0 
-      ? quotes.reduce((sum, q) => sum + (q.total || 0), 0) / totalQuotes 
+      ? sumInBaseCurrency(quotes, currencyContext) / totalQuotes 
       : 0;
 
     return {
+      currency: currencyContext.baseCurrency,
       totalQuotes,
       pendingQuotes,
       acceptedQuotes,
@@ -495,18 +533,18 @@ export function useCustomer(
     if (quotesError) throw quotesError;
 
     const quoteList = quotes || [];
+    const currencyContext = await fetchBaseCurrencyContext(customer.shop_id);
     const totalQuotes = quoteList.length;
     const acceptedQuotes = quoteList.filter(q => q.status === 'accepted').length;
     const declinedQuotes = quoteList.filter(q => q.status === 'rejected').length;
     const pendingQuotes = quoteList.filter(q => q.status === 'pending' || q.status === 'sent').length;
-    const totalRevenue = quoteList
-      .filter(q => q.status === 'accepted')
-      .reduce((sum, q) => sum + (q.total || 0), 0);
+    const totalRevenue = sumInBaseCurrency(quoteList.filter(q => q.status === 'accepted'), currencyContext);
     const conversionRate = totalQuotes > 0 ? (acceptedQuotes / totalQuotes) * 100 : 0;
 
     return {
       ...customer,
       stats: {
+        currency: currencyContext.baseCurrency,
         totalQuotes,
         totalRevenue,
         avgQuoteValue: totalQuotes > 0 ? totalRevenue / acceptedQuotes : 0,
@@ -0,0 +1,102 @@
+/**
+ * Quote Templates Hooks
+ * SWR-based hooks for listing and managing the shop's quote templates
+ * @module hooks/useTemplates
+ */
+
+'use client';
+
+import useSWR from 'swr';
+import { parseTemplateResponse, type QuoteTemplateInput } from '@/lib/templates';
+import type { ApiResponse, QuoteTemplate } from '@/types/quote';
+
+const TEMPLATES_KEY = '/api/templates';
+
+// ============================================================================
+// Fetchers
+// ============================================================================
+
+async function templatesRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const data: ApiResponse<T> = await response.json();
+  if (!response.ok || !data.success || data.data === undefined) {
+    throw new Error(data.error?.message || 'Request failed');
+  }
+  return data.data;
+}
+
+const jsonInit = (method: string, body?: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  ...(body !== undefined && { body: JSON.stringify(body) }),
+});
+
+// ============================================================================
+// Templates Hook
+// ============================================================================
+
+/**
+ * Hook for the current shop's quote templates, with create, update, delete,
+ * set-default and duplicate actions
+ */
+export function useQuoteTemplates() {
+  const { data, error, isLoading, mutate } = useSWR(
+    TEMPLATES_KEY,
+    async (url: string) => (await templatesRequest<QuoteTemplate[]>(url)).map(parseTemplateResponse),
+    { revalidateOnFocus: false }
+  );
+
+  const createTemplate = async (input: QuoteTemplateInput) => {
+    const template = parseTemplateResponse(
+      await templatesRequest<QuoteTemplate>(TEMPLATES_KEY, jsonInit('POST', input))
+    );
+    // A new default unsets the previous one on the server
+    await mutate();
+    return template;
+  };
+
+  const updateTemplate = async (templateId: string, input: Partial<QuoteTemplateInput>) => {
+    const template = parseTemplateResponse(
+      await templatesRequest<QuoteTemplate>(`${TEMPLATES_KEY}/${templateId}`, jsonInit('PUT', input))
+    );
+    await mutate();
+    return template;
+  };
+
+  const deleteTemplate = async (templateId: string) => {
+    await templatesRequest<{ deleted: boolean }>(`${TEMPLATES_KEY}/${templateId}`, { method: 'DELETE' });
+    await mutate((templates = []) => templates.filter((template) => template.id !== templateId), {
+      revalidate: false,
+    });
+  };
+
+  const setDefaultTemplate = async (templateId: string) => {
+    await templatesRequest<QuoteTemplate>(`${TEMPLATES_KEY}/${templateId}/default`, jsonInit('POST'));
+    await mutate(
+      (templates = []) => templates.map((template) => ({ ...template, isDefault: template.id === templateId })),
+      { revalidate: false }
+    );
+  };
+
+  const duplicateTemplate = async (templateId: string) => {
+    const template = parseTemplateResponse(
+      await templatesRequest<QuoteTemplate>(`${TEMPLATES_KEY}/${templateId}/duplicate`, jsonInit('POST'))
+    );
+    await mutate((templates = []) => [...templates, template], { revalidate: false });
+    return template;
+  };
+
+  const templates = data ?? [];
+
+  return {
+    templates,
+    defaultTemplate: templates.find((template) => template.isDefault) ?? null,
+    isLoading,
+    error,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    setDefaultTemplate,
+    duplicateTemplate,
+  };
+}
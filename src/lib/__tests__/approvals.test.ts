@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for Discount Approvals
+ * @module lib/__tests__/approvals.test
+ */
+
+import { evaluateQuoteApproval, hasApprovalThresholds } from '@/lib/approvals';
+import type { ApprovalThresholds, LineItemInput } from '@/types/quote';
+
+const noLimits: ApprovalThresholds = { maxLineDiscount: null, maxTotalDiscount: null, minMargin: null };
+
+function item(overrides: Partial<LineItemInput> = {}): LineItemInput {
+  return {
+    product_id: 'prod-1',
+    name: 'Widget',
+    quantity: 2,
+    unit_price: 100,
+    original_price: 100,
+    ...overrides,
+  };
+}
+
+describe('hasApprovalThresholds', () => {
+  it('should be false only when every limit is empty', () => {
+    expect(hasApprovalThresholds(noLimits)).toBe(false);
+    expect(hasApprovalThresholds({ ...noLimits, minMargin: 0 })).toBe(true);
+  });
+});
+
+describe('evaluateQuoteApproval', () => {
+  it('should not require approval without thresholds', () => {
+    const check = evaluateQuoteApproval({ lineItems: [item({ discount_percent: 90 })] }, noLimits);
+
+    expect(check).toEqual({ required: false, reasons: [] });
+  });
+
+  it('should flag line discounts past the limit', () => {
+    const check = evaluateQuoteApproval(
+      { lineItems: [item({ discount_percent: 25 }), item({ name: 'Gadget', discount_percent: 10 })] },
+      { ...noLimits, maxLineDiscount: 20 }
+    );
+
+    expect(check.required).toBe(true);
+    expect(check.reasons).toEqual([{
+      code: 'line_discount',
+      message: 'Widget is discounted 25% (limit 20%)',
+      limit: 20,
+      actual: 25,
+      lineItem: 'Widget',
+    }]);
+  });
+
+  it('should count a lowered unit price as a discount', () => {
+    const check = evaluateQuoteApproval(
+      { lineItems: [item({ unit_price: 70, original_price: 100 })] },
+      { ...noLimits, maxLineDiscount: 20 }
+    );
+
+    expect(check.reasons.map((reason) => reason.actual)).toEqual([30]);
+  });
+
+  it('should include the quote-level discount in the total discount', () => {
+    const check = evaluateQuoteApproval(
+      { lineItems: [item({ discount_percent: 10 })], discountTotal: 40 },
+      { ...noLimits, maxLineDiscount: 20, maxTotalDiscount: 25 }
+    );
+
+    expect(check.reasons).toEqual([expect.objectContaining({
+      code: 'total_discount',
+      message: 'The quote is 30% below list price (limit 25%)',
+      actual: 30,
+    })]);
+  });
+
+  it('should flag a margin under the minimum over costed items only', () => {
+    const check = evaluateQuoteApproval(
+      {
+        lineItems: [
+          item({ unit_price: 100, unit_cost: 80 }),
+          item({ name: 'Service', unit_price: 500 }),
+        ],
+      },
+      { ...noLimits, minMargin: 30 }
+    );
+
+    expect(check.reasons).toEqual([expect.objectContaining({
+      code: 'margin',
+      message: 'Margin is 20% (minimum 30%)',
+      actual: 20,
+    })]);
+  });
+
+  it('should take the quote-level discount out of the margin', () => {
+    const lineItems = [item({ unit_price: 100, unit_cost: 60 })];
+
+    expect(evaluateQuoteApproval({ lineItems }, { ...noLimits, minMargin: 30 }).required).toBe(false);
+    expect(evaluateQuoteApproval({ lineItems, discountTotal: 50 }, { ...noLimits, minMargin: 30 }).reasons)
+      .toEqual([expect.objectContaining({ code: 'margin', actual: 20 })]);
+  });
+
+  it('should skip the margin check when no item has a cost', () => {
+    const check = evaluateQuoteApproval({ lineItems: [item({ unit_price: 1 })] }, { ...noLimits, minMargin: 50 });
+
+    expect(check.required).toBe(false);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Unit Tests for GDPR Compliance Handlers
+ * @module lib/__tests__/compliance.test
+ */
+
+import { runComplianceRequest } from '@/lib/compliance';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+jest.mock('@/lib/products', () => ({
+  invalidateProductCache: jest.fn(),
+}));
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+const SHOP = 'test-shop.myshopify.com';
+
+const customerPayload = {
+  shop_id: 1,
+  shop_domain: SHOP,
+  customer: { id: 42, email: 'john_doe@example.com' },
+  data_request: { id: 7 },
+};
+
+describe('GDPR Compliance', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+    queueResult('compliance_requests', { data: { id: 'req-1' }, error: null });
+  });
+
+  describe('customers/data_request', () => {
+    it('should export every row tied to the customer email', async () => {
+      queueResult('customers', { data: [{ id: 'cust-1', email: 'john_doe@example.com' }], error: null });
+      queueResult('quotes', { data: [{ id: 'quote-1', customer_email: 'john_doe@example.com' }], error: null });
+      queueResult('quote_status_history', { data: [{ id: 'hist-1', quote_id: 'quote-1' }], error: null });
+      queueResult('quote_reminders', { data: [{ id: 'rem-1', quote_id: 'quote-1' }], error: null });
+      queueResult('activities', { data: [{ id: 'act-1' }, { id: 'act-2' }], error: null });
+
+      const result = await runComplianceRequest(SHOP, 'customers/data_request', customerPayload);
+
+      expect(result.rowsAffected).toBe(6);
+      expect(result.export).toMatchObject({
+        customer: { shopifyCustomerId: '42', email: 'john_doe@example.com' },
+        quotes: [{ id: 'quote-1' }],
+        statusHistory: [{ id: 'hist-1' }],
+        reminders: [{ id: 'rem-1' }],
+      });
+
+      // Underscores in the email must not act as wildcards
+      expect(mockBuilders.customers[0].ilike).toHaveBeenCalledWith('email', 'john\\_doe@example.com');
+      expect(mockBuilders.activities[0].or).toHaveBeenCalledWith('quote_id.in.(quote-1),customer_id.in.(cust-1)');
+
+      expect(mockBuilders.compliance_requests[0].insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          topic: 'customers/data_request',
+          shopify_customer_id: '42',
+          data_request_id: '7',
+          status: 'processing',
+        })
+      );
+      expect(mockBuilders.compliance_requests[1].update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'completed', rows_affected: 6, export: result.export })
+      );
+    });
+
+    it('should export contacts, emails, import rows and merge snapshots', async () => {
+      queueResult('customers', { data: [{ id: 'cust-1', email: 'john_doe@example.com' }], error: null });
+      queueResult('customer_contacts', { data: [{ id: 'contact-1' }], error: null });
+      queueResult('customer_contacts', { data: [{ id: 'contact-1' }, { id: 'contact-2' }], error: null });
+      queueResult('email_log', { data: [{ id: 'log-1', to_address: 'John_Doe@example.com', cc_addresses: [] }], error: null });
+      queueResult('email_log', { data: [{ id: 'log-2', to_address: 'buyer@example.com', cc_addresses: ['john_doe@example.com'] }], error: null });
+      queueResult('email_events', { data: [{ id: 'event-1', email_log_id: 'log-1' }], error: null });
+      queueResult('customer_imports', {
+        data: [
+          { id: 'import-1', file_name: 'customers.csv', rows: [['Acme', 'buyer@example.com'], ['Doe Co', ' JOHN_DOE@example.com ']] },
+          { id: 'import-2', file_name: 'other.csv', rows: [['Acme', 'buyer@example.com']] },
+        ],
+        error: null,
+      });
+      queueResult('customer_merges', {
+        data: [
+          { id: 'merge-1', survivor_id: 'cust-9', survivor_before: { id: 'cust-9', email: 'buyer@example.com' }, merged_customers: [{ id: 'cust-3', email: 'john_doe@example.com' }] },
+          { id: 'merge-2', survivor_id: 'cust-8', survivor_before: { id: 'cust-8', email: 'buyer@example.com' }, merged_customers: [] },
+        ],
+        error: null,
+      });
+
+      const result = await runComplianceRequest(SHOP, 'customers/data_request', customerPayload);
+
+      expect(result.rowsAffected).toBe(8);
+      expect(result.export).toMatchObject({
+        contacts: [{ id: 'contact-1' }, { id: 'contact-2' }],
+        emails: [{ id: 'log-1' }, { id: 'log-2' }],
+        emailEvents: [{ id: 'event-1' }],
+        importRows: [{ importId: 'import-1', fileName: 'customers.csv', row: 3, cells: ['Doe Co', ' JOHN_DOE@example.com '] }],
+        merges: [{ id: 'merge-1' }],
+      });
+      expect(mockBuilders.customer_contacts[1].in).toHaveBeenCalledWith('customer_id', ['cust-1']);
+      expect(mockBuilders.email_log[0].ilike).toHaveBeenCalledWith('to_address', 'john\\_doe@example.com');
+      expect(mockBuilders.email_log[1].contains).toHaveBeenCalledWith('cc_addresses', ['john_doe@example.com']);
+      expect(mockBuilders.email_events[0].in).toHaveBeenCalledWith('email_log_id', ['log-1', 'log-2']);
+    });
+
+    it('should mark the request failed when a lookup fails', async () => {
+      queueResult('customers', { data: null, error: { message: 'timeout' } });
+
+      await expect(
+        runComplianceRequest(SHOP, 'customers/data_request', customerPayload)
+      ).rejects.toThrow('Failed to load customers: timeout');
+
+      expect(mockBuilders.compliance_requests[1].update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', error: 'Failed to load customers: timeout' })
+      );
+    });
+  });
+
+  describe('customers/redact', () => {
+    it('should anonymize the customer and their quotes', async () => {
+      queueResult('customers', { data: [{ id: 'cust-1' }], error: null });
+      queueResult('quotes', { data: [{ id: 'quote-1' }, { id: 'quote-2' }], error: null });
+      queueResult('activities', { data: [{ id: 'act-1' }], error: null });
+
+      const result = await runComplianceRequest(SHOP, 'customers/redact', customerPayload);
+
+      expect(result.rowsAffected).toBe(4);
+      expect(mockBuilders.customers[1].update).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'redacted-cust-1@redacted.invalid', contact_name: 'Redacted', phone: null })
+      );
+      expect(mockBuilders.quotes[1].update).toHaveBeenCalledWith(
+        expect.objectContaining({ customer_email: 'redacted-42@redacted.invalid', customer_name: null })
+      );
+      expect(mockBuilders.quotes[1].in).toHaveBeenCalledWith('id', ['quote-1', 'quote-2']);
+      expect(mockBuilders.quote_status_history[0].update).toHaveBeenCalledWith({ comment: null, metadata: {} });
+      expect(mockBuilders.quote_reminders[0].delete).toHaveBeenCalled();
+      expect(mockBuilders.activities[1].update).toHaveBeenCalledWith({ customer_name: null, metadata: {} });
+    });
+
+    it('should anonymize contacts, emails, import rows and merge snapshots', async () => {
+      queueResult('customers', { data: [{ id: 'cust-1' }], error: null });
+      queueResult('customer_contacts', { data: [{ id: 'contact-1' }], error: null });
+      queueResult('customer_contacts', { data: [], error: null });
+      queueResult('email_log', { data: [], error: null });
+      queueResult('email_log', { data: [{ id: 'log-2', to_address: 'buyer@example.com', cc_addresses: ['John_Doe@example.com', 'boss@example.com'] }], error: null });
+      queueResult('email_events', { data: [{ id: 'event-1' }, { id: 'event-2' }], error: null });
+      queueResult('customer_imports', {
+        data: [{ id: 'import-1', file_name: 'customers.csv', rows: [['Acme', 'buyer@example.com'], ['Doe Co', 'john_doe@example.com']] }],
+        error: null,
+      });
+      queueResult('customer_merges', {
+        data: [{
+          id: 'merge-1',
+          survivor_id: 'cust-1',
+          survivor_before: { id: 'cust-1', email: 'old@example.com', company_name: 'Doe Co', status: 'active' },
+          merged_customers: [
+            { id: 'cust-3', email: 'john_doe@example.com', company_name: 'Doe Co' },
+            { id: 'cust-4', email: 'buyer@example.com', company_name: 'Acme' },
+          ],
+        }],
+        error: null,
+      });
+
+      const result = await runComplianceRequest(SHOP, 'customers/redact', customerPayload);
+
+      // customer, contact, email log row, two events, one import row, one merge
+      expect(result.rowsAffected).toBe(7);
+      expect(mockBuilders.customer_contacts[2].update).toHaveBeenCalledWith({
+        name: 'Redacted', email: 'redacted-contact-1@redacted.invalid', phone: null, title: null,
+      });
+      expect(mockBuilders.email_log[2].update).toHaveBeenCalledWith({
+        to_address: 'buyer@example.com',
+        cc_addresses: ['redacted-42@redacted.invalid', 'boss@example.com'],
+      });
+      expect(mockBuilders.email_events[1].update).toHaveBeenCalledWith({ payload: {} });
+      expect(mockBuilders.email_events[1].in).toHaveBeenCalledWith('email_log_id', ['log-2']);
+      expect(mockBuilders.customer_imports[1].update).toHaveBeenCalledWith({
+        rows: [['Acme', 'buyer@example.com'], ['', '']],
+      });
+
+      const mergeUpdate = mockBuilders.customer_merges[1].update.mock.calls[0][0];
+      expect(mergeUpdate.survivor_before).toMatchObject({
+        id: 'cust-1', email: 'redacted-cust-1@redacted.invalid', company_name: 'Redacted', status: 'active',
+      });
+      expect(mergeUpdate.merged_customers).toEqual([
+        expect.objectContaining({ id: 'cust-3', email: 'redacted-cust-3@redacted.invalid', contact_name: 'Redacted' }),
+        { id: 'cust-4', email: 'buyer@example.com', company_name: 'Acme' },
+      ]);
+    });
+
+    it('should complete without changes when nothing matches', async () => {
+      const result = await runComplianceRequest(SHOP, 'customers/redact', customerPayload);
+
+      expect(result.rowsAffected).toBe(0);
+      expect(mockBuilders.quote_status_history).toBeUndefined();
+      expect(mockBuilders.activities).toBeUndefined();
+    });
+  });
+
+  describe('shop/redact', () => {
+    it('should delete all shop data and strip earlier exports', async () => {
+      queueResult('activities', { data: null, error: null, count: 2 });
+      queueResult('email_log', { data: null, error: null, count: 3 });
+      queueResult('quotes', { data: null, error: null, count: 1 });
+      queueResult('shop_members', { data: null, error: null, count: 2 });
+      queueResult('shops', { data: null, error: null, count: 1 });
+
+      const result = await runComplianceRequest(SHOP, 'shop/redact', { shop_domain: SHOP });
+
+      expect(result.rowsAffected).toBe(9);
+      [
+        'activities', 'email_log', 'quotes', 'customer_merges', 'customer_contacts', 'customer_imports',
+        'customers', 'quote_templates', 'quote_workflows', 'tax_rules', 'exchange_rates', 'shop_settings',
+        'merchant_settings', 'shopify_products', 'webhook_deliveries', 'shop_members', 'shops',
+      ].forEach((table) => {
+        expect(mockBuilders[table]).toHaveLength(1);
+        expect(mockBuilders[table][0].delete).toHaveBeenCalledWith({ count: 'exact' });
+        expect(mockBuilders[table][0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      });
+      expect(mockBuilders.compliance_requests[1].update).toHaveBeenCalledWith({ export: null, customer_email: null });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for Customer Contacts
+ * @module lib/__tests__/customerContacts.test
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  customerContactSchema,
+  getQuoteCcAddresses,
+  listCustomerContacts,
+  toCustomerContactColumns,
+  type CustomerContactRow,
+} from '@/lib/customerContacts';
+
+function contactRow(overrides: Partial<CustomerContactRow> = {}): CustomerContactRow {
+  return {
+    id: 'contact-1',
+    shop_id: 'test-shop.myshopify.com',
+    customer_id: 'cust-1',
+    name: 'Jane Buyer',
+    email: 'jane@acme.com',
+    phone: null,
+    title: null,
+    roles: ['purchasing'],
+    is_primary: false,
+    notify_quotes: true,
+    preferred_channel: 'email',
+    created_at: '2024-03-01T00:00:00Z',
+    updated_at: '2024-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function createClient(result: { data: unknown; error: unknown }) {
+  const builder: Record<string, unknown> & { select: jest.Mock; eq: jest.Mock; contains: jest.Mock } = {
+    select: jest.fn(() => builder),
+    eq: jest.fn(() => builder),
+    contains: jest.fn(() => builder),
+    then: (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve),
+  };
+
+  return { builder, client: { from: jest.fn(() => builder) } as unknown as SupabaseClient };
+}
+
+describe('customerContactSchema', () => {
+  it('normalizes the email and drops repeated roles', () => {
+    const result = customerContactSchema.parse({
+      name: ' Fay Finance ',
+      email: ' AP@Acme.com ',
+      roles: ['finance', 'approver', 'finance'],
+    });
+
+    expect(result).toEqual({ name: 'Fay Finance', email: 'ap@acme.com', roles: ['finance', 'approver'] });
+  });
+
+  it('rejects unknown roles', () => {
+    expect(customerContactSchema.safeParse({ name: 'Fay', email: 'ap@acme.com', roles: ['owner'] }).success)
+      .toBe(false);
+  });
+});
+
+describe('toCustomerContactColumns', () => {
+  it('sets only the given fields and clears empty ones', () => {
+    expect(toCustomerContactColumns({ phone: '', isPrimary: true, notifyQuotes: false })).toEqual({
+      phone: null,
+      is_primary: true,
+      notify_quotes: false,
+    });
+  });
+});
+
+describe('listCustomerContacts', () => {
+  it('puts the primary contact first, then sorts by name', async () => {
+    const { client } = createClient({
+      data: [
+        contactRow({ id: 'contact-1', name: 'Zoe' }),
+        contactRow({ id: 'contact-2', name: 'Adam' }),
+        contactRow({ id: 'contact-3', name: 'Mia', is_primary: true }),
+      ],
+      error: null,
+    });
+
+    const contacts = await listCustomerContacts(client, 'cust-1');
+
+    expect(contacts.map((contact) => contact.id)).toEqual(['contact-3', 'contact-2', 'contact-1']);
+    expect(contacts[0]).toMatchObject({ customerId: 'cust-1', isPrimary: true, phone: undefined });
+  });
+});
+
+describe('getQuoteCcAddresses', () => {
+  it('copies in finance contacts who get quote emails, other than the recipient', async () => {
+    const { builder, client } = createClient({
+      data: [{ email: 'ap@acme.com' }, { email: 'Jane@Acme.com' }, { email: 'AP@acme.com' }],
+      error: null,
+    });
+
+    const cc = await getQuoteCcAddresses(client, { customer_id: 'cust-1', customer_email: 'jane@acme.com' });
+
+    expect(builder.eq).toHaveBeenCalledWith('notify_quotes', true);
+    expect(builder.contains).toHaveBeenCalledWith('roles', ['finance']);
+    expect(cc).toEqual(['ap@acme.com']);
+  });
+
+  it('copies no one on quotes without a customer', async () => {
+    const { client } = createClient({ data: [], error: null });
+
+    await expect(getQuoteCcAddresses(client, { customer_email: 'jane@acme.com' })).resolves.toEqual([]);
+    expect(client.from).not.toHaveBeenCalled();
+  });
+
+  it('sends without copies when the lookup fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    const { client } = createClient({ data: null, error: { message: 'timeout' } });
+
+    await expect(getQuoteCcAddresses(client, { customer_id: 'cust-1' })).resolves.toEqual([]);
+  });
+});
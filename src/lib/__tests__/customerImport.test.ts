@@ -0,0 +1,288 @@
+/**
+ * Unit Tests for Customer Import
+ * @module lib/__tests__/customerImport.test
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  buildCustomerImportErrorReport,
+  buildCustomerImportUpdate,
+  getMissingImportFields,
+  importCustomerBatch,
+  parseCsv,
+  previewCustomerImport,
+  suggestCustomerImportMapping,
+  type CustomerImportRow,
+} from '@/lib/customerImport';
+import { CustomerStatus, type SupabaseCustomer } from '@/types/quote';
+
+const headers = ['Email', 'Company', 'Contact Name', 'Tags', 'Billing City', 'Billing Country'];
+const mapping = suggestCustomerImportMapping(headers);
+
+const existingCustomer: SupabaseCustomer = {
+  id: 'cust-1',
+  shop_id: 'shop-1',
+  email: 'buyer@acme.com',
+  company_name: 'Acme  Corp',
+  contact_name: 'Ann Buyer',
+  phone: '',
+  tags: ['wholesale'],
+  status: CustomerStatus.ACTIVE,
+  customer_since: '2024-01-01T00:00:00Z',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+function createJob(rows: string[][], overrides: Partial<CustomerImportRow> = {}): CustomerImportRow {
+  return {
+    id: 'import-1',
+    shop_id: 'shop-1',
+    file_name: 'customers.csv',
+    status: 'draft',
+    headers,
+    rows,
+    mapping,
+    duplicate_action: 'skip',
+    row_actions: {},
+    total_rows: rows.length,
+    next_row: 0,
+    created_count: 0,
+    updated_count: 0,
+    skipped_count: 0,
+    error_count: 0,
+    errors: [],
+    created_by: 'user-1',
+    created_at: '2024-03-01T00:00:00Z',
+    updated_at: '2024-03-01T00:00:00Z',
+    completed_at: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Client whose rpc returns the given matches and whose table queries
+ * resolve with the next queued result for that table
+ */
+function createClient(matches: SupabaseCustomer[], results: Record<string, Array<{ data: unknown; error: unknown }>> = {}) {
+  const builders: Record<string, any[]> = {};
+  const client = {
+    rpc: jest.fn().mockResolvedValue({ data: matches, error: null }),
+    from: jest.fn((table: string) => {
+      const result = results[table]?.shift() ?? { data: null, error: null };
+      const builder: any = {};
+      ['select', 'insert', 'update', 'eq', 'single'].forEach((method) => {
+        builder[method] = jest.fn(() => builder);
+      });
+      builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+      (builders[table] ||= []).push(builder);
+      return builder;
+    }),
+  };
+  return { client: client as unknown as SupabaseClient, rpc: client.rpc, builders };
+}
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('\uFEFFName,Notes\r\n"Acme, Inc","Says ""hi""\ntwice"\r\nBeta,\n')).toEqual([
+      ['Name', 'Notes'],
+      ['Acme, Inc', 'Says "hi"\ntwice'],
+      ['Beta', ''],
+    ]);
+  });
+
+  it('uses the delimiter of the header row', () => {
+    expect(parseCsv('Email;Company\na@b.com;Acme, Inc')).toEqual([['Email', 'Company'], ['a@b.com', 'Acme, Inc']]);
+  });
+});
+
+describe('suggestCustomerImportMapping', () => {
+  it('maps known headers, including address parts', () => {
+    expect(mapping).toEqual({
+      email: 0,
+      companyName: 1,
+      contactName: 2,
+      tags: 3,
+      'billingAddress.city': 4,
+      'billingAddress.country': 5,
+    });
+  });
+
+  it('takes unprefixed address columns as the billing address', () => {
+    expect(suggestCustomerImportMapping(['E-mail', 'City', 'Ship to City'])).toEqual({
+      email: 0,
+      'billingAddress.city': 1,
+      'shippingAddress.city': 2,
+    });
+  });
+
+  it('lists the required fields left unmapped', () => {
+    expect(getMissingImportFields({ email: 0 })).toEqual(['companyName', 'contactName']);
+  });
+});
+
+describe('buildCustomerImportUpdate', () => {
+  const input = {
+    email: 'buyer@acme.com',
+    companyName: 'Acme Corp',
+    contactName: 'Andy Other',
+    phone: '555-0100',
+    tags: ['vip', 'wholesale'],
+  };
+
+  it('fills in missing fields and adds tags when merging', () => {
+    expect(buildCustomerImportUpdate(existingCustomer, input, 'merge')).toEqual({
+      phone: '555-0100',
+      tags: ['wholesale', 'vip'],
+    });
+  });
+
+  it('replaces the fields the row gives when overwriting', () => {
+    expect(buildCustomerImportUpdate(existingCustomer, input, 'overwrite')).toEqual({
+      company_name: 'Acme Corp',
+      contact_name: 'Andy Other',
+      phone: '555-0100',
+      tags: ['vip', 'wholesale'],
+    });
+  });
+});
+
+describe('previewCustomerImport', () => {
+  it('counts valid rows, reports errors and finds existing customers', async () => {
+    const { client, rpc } = createClient([existingCustomer]);
+    const job = createJob([
+      ['BUYER@acme.com', 'Acme Corp', 'Ann Buyer', '', '', ''],
+      ['new@beta.com', 'Beta LLC', 'Bo Beta', 'vip; trade', '', ''],
+      ['', '', '', '', '', ''],
+      ['not-an-email', 'Gamma', 'Gil', '', '', ''],
+      ['new@beta.com', 'Beta Two', 'Bea', '', '', ''],
+    ], { row_actions: { 2: 'merge' } });
+
+    const preview = await previewCustomerImport(client, job);
+
+    expect(rpc).toHaveBeenCalledWith('find_matching_customers', {
+      p_emails: ['buyer@acme.com', 'new@beta.com'],
+      p_company_names: ['acme corp', 'beta llc'],
+    });
+    expect(preview.validRows).toBe(2);
+    expect(preview.invalidRows).toBe(2);
+    expect(preview.errors).toEqual([
+      { row: 5, field: 'email', message: 'Invalid email address' },
+      { row: 6, field: 'email', message: 'Same email as row 3' },
+    ]);
+    expect(preview.duplicates).toEqual([{
+      row: 2,
+      matchedOn: 'email',
+      customerId: 'cust-1',
+      companyName: 'Acme  Corp',
+      email: 'buyer@acme.com',
+      action: 'merge',
+    }]);
+    expect(preview.sampleRows[1]).toEqual({
+      email: 'new@beta.com',
+      companyName: 'Beta LLC',
+      contactName: 'Bo Beta',
+      tags: 'vip; trade',
+    });
+  });
+
+  it('requires every part of an address once one is given', async () => {
+    const { client } = createClient([]);
+    const preview = await previewCustomerImport(client, createJob([['a@b.com', 'Acme', 'Ann', '', 'Leeds', '']]));
+
+    expect(preview.errors.map((error) => error.field)).toEqual([
+      'billingAddress.street',
+      'billingAddress.state',
+      'billingAddress.zipCode',
+      'billingAddress.country',
+    ]);
+  });
+});
+
+describe('importCustomerBatch', () => {
+  it('creates new customers, applies duplicate choices and logs activity', async () => {
+    const { client, builders } = createClient([existingCustomer], {
+      customers: [
+        { data: null, error: null },
+        { data: [{ id: 'cust-2', company_name: 'Beta LLC' }], error: null },
+      ],
+    });
+    const job = createJob([
+      ['buyer@acme.com', 'Acme Corp', 'Ann Buyer', 'vip', '', ''],
+      ['new@beta.com', 'Beta LLC', 'Bo Beta', '', '', ''],
+      ['bad', '', '', '', '', ''],
+      ['', '', '', '', '', ''],
+    ], { duplicate_action: 'merge' });
+
+    const result = await importCustomerBatch(client, job, { id: 'user-1', name: 'Sam Sales' });
+
+    expect(result).toEqual({
+      rowCount: 4,
+      created: 1,
+      updated: 1,
+      skipped: 1,
+      errors: expect.arrayContaining([expect.objectContaining({ row: 4, field: 'email' })]),
+    });
+    const [update, insert] = builders.customers;
+    expect(update.update).toHaveBeenCalledWith({ tags: ['wholesale', 'vip'] });
+    expect(update.eq).toHaveBeenCalledWith('id', 'cust-1');
+    expect(insert.insert).toHaveBeenCalledWith([{
+      email: 'new@beta.com',
+      company_name: 'Beta LLC',
+      contact_name: 'Bo Beta',
+      shop_id: 'shop-1',
+      status: 'active',
+    }]);
+    expect(builders.activities[0].insert).toHaveBeenCalledWith([
+      expect.objectContaining({ type: 'customer_updated', customer_id: 'cust-1', user_name: 'Sam Sales' }),
+      expect.objectContaining({ type: 'customer_added', customer_id: 'cust-2', metadata: { importId: 'import-1', row: 3 } }),
+    ]);
+  });
+
+  it('inserts rows one at a time to find the ones that fail', async () => {
+    const { client } = createClient([], {
+      customers: [
+        { data: null, error: { message: 'value too long' } },
+        { data: { id: 'cust-2', company_name: 'Beta LLC' }, error: null },
+        { data: null, error: { message: 'value too long' } },
+      ],
+    });
+    const job = createJob([
+      ['new@beta.com', 'Beta LLC', 'Bo Beta', '', '', ''],
+      ['long@gamma.com', 'Gamma', 'Gil', '', '', ''],
+    ]);
+
+    const result = await importCustomerBatch(client, job, { id: 'user-1', name: 'Sam Sales' });
+
+    expect(result.created).toBe(1);
+    expect(result.errors).toEqual([{ row: 3, message: 'Could not create the customer: value too long' }]);
+  });
+
+  it('starts from the job\'s next row', async () => {
+    const { client } = createClient([], {
+      customers: [{ data: Array.from({ length: 50 }, (_, index) => ({ id: `cust-${index}`, company_name: 'Company' })), error: null }],
+    });
+    const rows = Array.from({ length: 150 }, (_, index) => [`c${index}@example.com`, `Company ${index}`, 'Name', '', '', '']);
+
+    const result = await importCustomerBatch(client, createJob(rows, { next_row: 100 }), { id: 'user-1', name: 'Sam' });
+
+    expect(result.rowCount).toBe(50);
+  });
+});
+
+describe('buildCustomerImportErrorReport', () => {
+  it('lists each failed row with its errors and original cells', () => {
+    const report = buildCustomerImportErrorReport({
+      headers: ['Email', 'Company'],
+      rows: [['ok@example.com', 'Fine'], ['bad', '=HYPERLINK("x")']],
+      errors: [
+        { row: 3, field: 'email', message: 'Invalid email address' },
+        { row: 3, message: 'Could not create the customer' },
+      ],
+    });
+
+    expect(report).toBe(
+      'Row,Errors,Email,Company\r\n'
+      + '3,email: Invalid email address; Could not create the customer,bad,"\'=HYPERLINK(""x"")"\r\n'
+    );
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Unit Tests for Customer Duplicates and Merging
+ * @module lib/__tests__/customerMerge.test
+ */
+
+import {
+  buildCustomerMergeValues,
+  companyNameSimilarity,
+  findCustomerDuplicates,
+  mergeCustomers,
+  scoreCustomerDuplicate,
+  undoCustomerMerge,
+} from '@/lib/customerMerge';
+import { mapCustomerRow } from '@/lib/quotes';
+import { CustomerStatus, type SupabaseCustomer } from '@/types/quote';
+
+function customerRow(overrides: Partial<SupabaseCustomer> = {}): SupabaseCustomer {
+  return {
+    id: 'cust-1',
+    shop_id: 'test-shop.myshopify.com',
+    email: 'buyer@acme.com',
+    company_name: 'Acme Corp',
+    contact_name: 'Jane Buyer',
+    tags: [],
+    status: CustomerStatus.ACTIVE,
+    customer_since: '2024-01-01T00:00:00Z',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const customer = (overrides: Partial<SupabaseCustomer> = {}) => mapCustomerRow(customerRow(overrides));
+
+function createClient(
+  rpcResult: { data: unknown; error: unknown },
+  tableResults: Array<{ data: unknown; error: unknown }> = []
+) {
+  const builder: any = {};
+  ['select', 'in', 'eq', 'single'].forEach((method) => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.then = (resolve: (value: unknown) => unknown) =>
+    Promise.resolve(tableResults.shift() ?? { data: null, error: null }).then(resolve);
+
+  return {
+    rpc: jest.fn().mockResolvedValue(rpcResult),
+    from: jest.fn(() => builder),
+  };
+}
+
+describe('companyNameSimilarity', () => {
+  it('ignores case, punctuation and legal suffixes', () => {
+    expect(companyNameSimilarity('Acme, Inc.', 'ACME')).toBe(1);
+    expect(companyNameSimilarity('Smith & Sons Ltd', 'Smith and Sons')).toBe(1);
+  });
+
+  it('scores near spellings by edit distance', () => {
+    expect(companyNameSimilarity('Acme Industries', 'Acme Industrie')).toBeCloseTo(14 / 15);
+    expect(companyNameSimilarity('Acme Corp', 'Globex Corp')).toBeLessThan(0.5);
+  });
+});
+
+describe('scoreCustomerDuplicate', () => {
+  it('treats the same email as certain', () => {
+    expect(scoreCustomerDuplicate(customer(), customer({ id: 'cust-2', email: ' Buyer@Acme.com ', company_name: 'Other' })))
+      .toEqual({ score: 100, reasons: ['email'] });
+  });
+
+  it('adds up a shared domain, a similar name, the phone and the address', () => {
+    const address = { street: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701', country: 'US' };
+    const result = scoreCustomerDuplicate(
+      customer({ phone: '+1 (555) 123-4567', billing_address: address }),
+      customer({
+        id: 'cust-2',
+        email: 'accounts@acme.com',
+        company_name: 'ACME Corporation',
+        phone: '555.123.4567',
+        shipping_address: { ...address, street: '1 main st.' },
+      })
+    );
+
+    expect(result).toEqual({ score: 100, reasons: ['emailDomain', 'companyName', 'phone', 'address'] });
+  });
+
+  it('does not count domains shared by unrelated customers', () => {
+    expect(scoreCustomerDuplicate(
+      customer({ email: 'jane@gmail.com' }),
+      customer({ id: 'cust-2', email: 'bob@gmail.com', company_name: 'Globex' })
+    )).toEqual({ score: 0, reasons: [] });
+  });
+});
+
+describe('findCustomerDuplicates', () => {
+  it('returns candidates above the threshold, most likely first', async () => {
+    const client = createClient({
+      data: [
+        customerRow({ id: 'cust-2', email: 'sales@acme.com', company_name: 'Globex' }),
+        customerRow({ id: 'cust-3', email: 'ap@acme.com', company_name: 'Acme Corp.' }),
+        customerRow({ id: 'cust-4', email: 'buyer@acme.com', company_name: 'Acme' }),
+      ],
+      error: null,
+    });
+
+    const duplicates = await findCustomerDuplicates(client as any, customer());
+
+    expect(client.rpc).toHaveBeenCalledWith('find_duplicate_customers', expect.objectContaining({
+      p_customer_id: 'cust-1',
+      p_common_domains: expect.arrayContaining(['gmail.com']),
+    }));
+    expect(duplicates.map((duplicate) => [duplicate.customer.id, duplicate.score])).toEqual([
+      ['cust-4', 100],
+      ['cust-3', 65],
+    ]);
+  });
+});
+
+describe('buildCustomerMergeValues', () => {
+  it('takes picked fields from their customer and combines tags and notes', () => {
+    const survivor = customerRow({ tags: ['wholesale'], notes: 'Net 30', tax_id: 'US-1', tax_exempt: true });
+    const duplicate = customerRow({
+      id: 'cust-2',
+      email: 'ap@acme.com',
+      phone: '555-0100',
+      tags: ['wholesale', 'vip'],
+      notes: 'Prefers email',
+      customer_since: '2023-06-01T00:00:00Z',
+      shopify_customer_id: 'gid://shopify/Customer/1',
+    });
+
+    const values = buildCustomerMergeValues(survivor, [duplicate], { email: 'cust-2', taxId: 'cust-2' });
+
+    expect(values).toMatchObject({
+      email: 'ap@acme.com',
+      company_name: 'Acme Corp',
+      phone: null,
+      tax_id: null,
+      tax_exempt: null,
+      tags: ['wholesale', 'vip'],
+      notes: 'Net 30\n\nPrefers email',
+      customer_since: '2023-06-01T00:00:00Z',
+      shopify_customer_id: 'gid://shopify/Customer/1',
+    });
+  });
+
+  it('keeps the survivor\'s Shopify link', () => {
+    const values = buildCustomerMergeValues(
+      customerRow({ shopify_customer_id: 'gid://shopify/Customer/1' }),
+      [customerRow({ id: 'cust-2', shopify_customer_id: 'gid://shopify/Customer/2' })],
+      {}
+    );
+
+    expect(values).not.toHaveProperty('shopify_customer_id');
+  });
+});
+
+describe('mergeCustomers', () => {
+  const input = {
+    survivorId: 'cust-1',
+    duplicateIds: ['cust-2'],
+    selection: { email: 'cust-2' },
+  };
+
+  it('merges through the database function', async () => {
+    const client = createClient(
+      {
+        data: {
+          id: 'merge-1',
+          survivor_id: 'cust-1',
+          merged_customers: [customerRow({ id: 'cust-2', email: 'ap@acme.com' })],
+          merged_by: 'user-1',
+          merged_by_name: 'Alice Owner',
+          created_at: '2024-03-01T00:00:00Z',
+          undo_until: '2024-03-08T00:00:00Z',
+          undone_at: null,
+        },
+        error: null,
+      },
+      [
+        { data: [customerRow(), customerRow({ id: 'cust-2', email: 'ap@acme.com' })], error: null },
+        { data: customerRow({ email: 'ap@acme.com' }), error: null },
+      ]
+    );
+
+    const result = await mergeCustomers(client as any, input);
+
+    expect(client.rpc).toHaveBeenCalledWith('merge_customers', {
+      p_survivor_id: 'cust-1',
+      p_duplicate_ids: ['cust-2'],
+      p_values: expect.objectContaining({ email: 'ap@acme.com' }),
+    });
+    expect(result).toMatchObject({
+      status: 'merged',
+      merge: {
+        id: 'merge-1',
+        mergedCustomers: [{ id: 'cust-2', companyName: 'Acme Corp', email: 'ap@acme.com' }],
+        undoUntil: new Date('2024-03-08T00:00:00Z'),
+      },
+      customer: { id: 'cust-1', email: 'ap@acme.com' },
+    });
+  });
+
+  it('reports customers outside the caller\'s shop as not found', async () => {
+    const client = createClient({ data: null, error: null }, [{ data: [customerRow()], error: null }]);
+
+    await expect(mergeCustomers(client as any, input)).resolves.toEqual({ status: 'not_found' });
+    expect(client.rpc).not.toHaveBeenCalled();
+  });
+
+  it('maps a refused merge to forbidden', async () => {
+    const client = createClient(
+      { data: null, error: { code: 'PT403', message: 'Only owners and admins can merge customers' } },
+      [{ data: [customerRow(), customerRow({ id: 'cust-2' })], error: null }]
+    );
+
+    await expect(mergeCustomers(client as any, input)).resolves.toEqual({ status: 'forbidden' });
+  });
+});
+
+describe('undoCustomerMerge', () => {
+  it('returns the restored survivor', async () => {
+    const client = createClient({ data: customerRow(), error: null });
+
+    const result = await undoCustomerMerge(client as any, 'merge-1');
+
+    expect(client.rpc).toHaveBeenCalledWith('undo_customer_merge', { p_merge_id: 'merge-1' });
+    expect(result).toMatchObject({ status: 'undone', customer: { id: 'cust-1' } });
+  });
+
+  it.each([
+    ['PT409', 'already_undone'],
+    ['PT410', 'expired'],
+    ['PT404', 'not_found'],
+  ])('maps %s to %s', async (code, status) => {
+    const client = createClient({ data: null, error: { code, message: 'failed' } });
+
+    await expect(undoCustomerMerge(client as any, 'merge-1')).resolves.toEqual({ status });
+  });
+
+  it('reports a duplicate whose email was taken since as a conflict', async () => {
+    const client = createClient({ data: null, error: { code: '23505', message: 'duplicate key value' } });
+
+    await expect(undoCustomerMerge(client as any, 'merge-1'))
+      .resolves.toEqual({ status: 'conflict', message: 'duplicate key value' });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit Tests for Customers
+ * @module lib/__tests__/customers.test
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getCustomerStats, mapCustomerActivityRow, mapCustomerStatsRow } from '@/lib/customers';
+import { ActivityType } from '@/types/quote';
+
+const statsRow = {
+  customer_id: 'cust-1',
+  currency: 'GBP',
+  total_quotes: 3,
+  accepted_quotes: 1,
+  declined_quotes: 1,
+  pending_quotes: 1,
+  total_revenue: '99.90',
+  avg_quote_value: '45.10',
+  first_quote_at: '2024-01-01T00:00:00Z',
+  last_quote_at: null,
+};
+
+describe('mapCustomerStatsRow', () => {
+  it('turns the decimal sums into numbers and works out the conversion rate', () => {
+    expect(mapCustomerStatsRow(statsRow)).toEqual({
+      currency: 'GBP',
+      totalQuotes: 3,
+      totalRevenue: 99.9,
+      avgQuoteValue: 45.1,
+      acceptedQuotes: 1,
+      declinedQuotes: 1,
+      pendingQuotes: 1,
+      conversionRate: 33.3,
+      firstQuoteDate: new Date('2024-01-01T00:00:00Z'),
+      lastQuoteDate: undefined,
+    });
+  });
+
+  it('gives customers without quotes a zero conversion rate', () => {
+    expect(mapCustomerStatsRow({ ...statsRow, total_quotes: 0, accepted_quotes: 0 }).conversionRate).toBe(0);
+  });
+});
+
+describe('getCustomerStats', () => {
+  it('keys the stats by customer', async () => {
+    const rpc = jest.fn().mockResolvedValue({ data: [statsRow], error: null });
+
+    const stats = await getCustomerStats({ rpc } as unknown as SupabaseClient, ['cust-1', 'cust-2']);
+
+    expect(rpc).toHaveBeenCalledWith('customer_stats', { p_customer_ids: ['cust-1', 'cust-2'] });
+    expect(stats.get('cust-1')?.totalQuotes).toBe(3);
+    expect(stats.has('cust-2')).toBe(false);
+  });
+
+  it('skips the query without customers', async () => {
+    const rpc = jest.fn();
+
+    expect((await getCustomerStats({ rpc } as unknown as SupabaseClient, [])).size).toBe(0);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('mapCustomerActivityRow', () => {
+  it('credits the member who did it', () => {
+    expect(mapCustomerActivityRow({
+      id: 'act-1',
+      type: ActivityType.QUOTE_SENT,
+      quote_id: 'quote-1',
+      quote_number: 'QT-1001',
+      customer_id: 'cust-1',
+      user_name: 'Sam Sales',
+      description: 'Quote sent',
+      created_at: '2024-02-01T10:00:00Z',
+    })).toEqual({
+      id: 'act-1',
+      customerId: 'cust-1',
+      type: 'quote_sent',
+      description: 'Quote sent',
+      quoteId: 'quote-1',
+      quoteNumber: 'QT-1001',
+      createdAt: new Date('2024-02-01T10:00:00Z'),
+      createdBy: 'Sam Sales',
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit Tests for Shopify Draft Orders
+ * @module lib/__tests__/draftOrders.test
+ */
+
+import { buildDraftOrderInput, createDraftOrder, mapDraftOrderLineItem } from '@/lib/draftOrders';
+import type { LineItem, Quote } from '@/types/quote';
+import { QuotePriority, QuoteStatus } from '@/types/quote';
+
+const lineItem = (overrides: Partial<LineItem> = {}): LineItem => ({
+  id: 'li-1',
+  productId: 'gid://shopify/Product/1',
+  variantId: 'gid://shopify/ProductVariant/11',
+  title: 'Widget',
+  variantTitle: 'Large',
+  sku: 'W-1',
+  quantity: 2,
+  unitPrice: 100,
+  originalPrice: 100,
+  discountAmount: 0,
+  taxRate: 0,
+  taxAmount: 0,
+  subtotal: 200,
+  total: 200,
+  ...overrides,
+});
+
+const quote = (overrides: Partial<Quote> = {}): Quote => ({
+  id: 'quote-1',
+  quoteNumber: 'QT-001',
+  customerId: 'cust-1',
+  customer: {
+    id: 'cust-1',
+    email: 'john@example.com',
+    companyName: 'Acme',
+    contactName: 'John Doe',
+    tags: [],
+    status: 'active',
+    customerSince: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as Quote['customer'],
+  title: 'Widgets',
+  status: QuoteStatus.ACCEPTED,
+  priority: QuotePriority.MEDIUM,
+  lineItems: [lineItem()],
+  subtotal: 200,
+  discountTotal: 0,
+  taxRate: 0,
+  taxTotal: 0,
+  shippingTotal: 0,
+  total: 200,
+  terms: {
+    paymentTerms: 'Net 30',
+    deliveryTerms: '',
+    validityPeriod: 30,
+    depositRequired: false,
+    currency: 'USD',
+  },
+  metadata: { createdBy: 'user-1', createdByName: 'Alice', source: 'web' },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('Draft Orders', () => {
+  describe('mapDraftOrderLineItem', () => {
+    it('should keep the variant for catalog items at the catalog price', () => {
+      expect(mapDraftOrderLineItem(lineItem())).toEqual({
+        variantId: 'gid://shopify/ProductVariant/11',
+        quantity: 2,
+      });
+    });
+
+    it('should send negotiated prices and line discounts as a per-unit discount', () => {
+      const mapped = mapDraftOrderLineItem(lineItem({ unitPrice: 90, discountPercentage: 10 }));
+
+      expect(mapped.variantId).toBe('gid://shopify/ProductVariant/11');
+      expect(mapped.appliedDiscount).toEqual({ title: 'Quoted price', value: 19, valueType: 'FIXED_AMOUNT' });
+    });
+
+    it('should price against the current catalog price when it has drifted', () => {
+      const mapped = mapDraftOrderLineItem(lineItem({ unitPrice: 100, catalogPrice: 120 }));
+
+      expect(mapped.appliedDiscount?.value).toBe(20);
+    });
+
+    it('should fall back to a custom line above the catalog price', () => {
+      expect(mapDraftOrderLineItem(lineItem({ unitPrice: 150, discountPercentage: 5 }))).toEqual({
+        title: 'Widget - Large',
+        sku: 'W-1',
+        quantity: 2,
+        originalUnitPrice: 150,
+        taxable: true,
+        appliedDiscount: { title: 'Quote discount', value: 5, valueType: 'PERCENTAGE' },
+      });
+    });
+
+    it('should use a custom line for items without a variant', () => {
+      const mapped = mapDraftOrderLineItem(lineItem({ variantId: undefined, variantTitle: undefined }));
+
+      expect(mapped).toMatchObject({ title: 'Widget', originalUnitPrice: 100 });
+      expect(mapped.variantId).toBeUndefined();
+      expect(mapped.appliedDiscount).toBeUndefined();
+    });
+  });
+
+  describe('buildDraftOrderInput', () => {
+    it('should carry the quote discount, shipping and quote reference', () => {
+      const input = buildDraftOrderInput(quote({ discountTotal: 25, shippingTotal: 15, taxTotal: 17.5 }));
+
+      expect(input.email).toBe('john@example.com');
+      expect(input.taxExempt).toBe(false);
+      expect(input.appliedDiscount).toEqual({ title: 'Quote discount', value: 25, valueType: 'FIXED_AMOUNT' });
+      expect(input.shippingLine).toEqual({ title: 'Shipping', price: 15 });
+      expect(input.customAttributes).toEqual([
+        { key: 'quote_id', value: 'quote-1' },
+        { key: 'quote_number', value: 'QT-001' },
+      ]);
+    });
+
+    it('should create quotes without tax as tax exempt', () => {
+      const input = buildDraftOrderInput(quote());
+
+      expect(input.taxExempt).toBe(true);
+      expect(input.appliedDiscount).toBeUndefined();
+      expect(input.shippingLine).toBeUndefined();
+      expect(input.purchasingEntity).toBeUndefined();
+    });
+
+    it('should place the order for the Shopify customer or company location', () => {
+      const purchasingCompany = {
+        companyId: 'gid://shopify/Company/1',
+        companyLocationId: 'gid://shopify/CompanyLocation/2',
+        companyContactId: 'gid://shopify/CompanyContact/3',
+      };
+
+      expect(buildDraftOrderInput(quote(), { customerId: 'gid://shopify/Customer/9' }).purchasingEntity)
+        .toEqual({ customerId: 'gid://shopify/Customer/9' });
+      expect(buildDraftOrderInput(quote(), { purchasingCompany }).purchasingEntity).toEqual({ purchasingCompany });
+    });
+  });
+
+  describe('createDraftOrder', () => {
+    const mockGraphqlResponse = (payload: unknown) => ({
+      ok: true,
+      json: jest.fn().mockResolvedValue({ data: { draftOrderCreate: payload } }),
+    });
+
+    it('should return the created draft order', async () => {
+      const draftOrder = { id: 'gid://shopify/DraftOrder/1', name: '#D1', invoiceUrl: 'https://invoice' };
+      global.fetch = jest.fn().mockResolvedValue(mockGraphqlResponse({ draftOrder, userErrors: [] }));
+
+      await expect(createDraftOrder('test-shop.myshopify.com', 'shpat_123', quote())).resolves.toEqual(draftOrder);
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.query).toContain('draftOrderCreate');
+      expect(body.variables.input.lineItems).toHaveLength(1);
+    });
+
+    it('should throw on user errors', async () => {
+      global.fetch = jest.fn().mockResolvedValue(mockGraphqlResponse({
+        draftOrder: null,
+        userErrors: [{ field: ['email'], message: 'is invalid' }],
+      }));
+
+      await expect(
+        createDraftOrder('test-shop.myshopify.com', 'shpat_123', quote())
+      ).rejects.toThrow('Shopify rejected the draft order: email: is invalid');
+    });
+  });
+});
@@ -14,12 +14,27 @@ jest.mock('resend', () => ({
   })),
 }));
 
+const mockTransportSend = jest.fn();
+
+jest.mock('@/lib/mailTransport', () => ({
+  getMailTransport: () => ({ name: 'outbox', send: mockTransportSend }),
+}));
+
+const mockRenderQuotePdfAttachment = jest.fn();
+
+jest.mock('@/lib/quotePdf', () => ({
+  renderQuotePdfAttachment: (...args: unknown[]) => mockRenderQuotePdfAttachment(...args),
+}));
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
 // Now import after mocking
 import {
   sendEmail,
   newQuoteEmailTemplate,
   quoteStatusUpdateEmailTemplate,
 } from '@/lib/email';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
 
 const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
 const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
@@ -32,6 +47,7 @@ describe('Email Module', () => {
     mockSend.mockClear();
     delete process.env.RESEND_API_KEY;
     delete process.env.FROM_EMAIL;
+    resetQueryResults();
   });
 
   afterAll(() => {
@@ -39,6 +55,105 @@ describe('Email Module', () => {
     mockConsoleError.mockRestore();
   });
 
+  describe('sendEmail', () => {
+    beforeAll(() => {
+      process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+      process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key';
+    });
+
+    const message = {
+      to: 'john@example.com',
+      subject: 'Quote QT-001 - Ready for Review',
+      html: '<p>Your quote</p>',
+      type: 'quote_sent' as const,
+      shopId: 'test-shop.myshopify.com',
+      quoteId: 'quote-1',
+    };
+
+    it('should send as the shop sender and log the provider message ID', async () => {
+      queueResult('merchant_settings', {
+        data: { sender_name: 'Acme Supply', sender_email: 'sales@acme.com', reply_to_email: 'owner@acme.com' },
+        error: null,
+      });
+      mockTransportSend.mockResolvedValue({ messageId: 'msg-1' });
+
+      await expect(sendEmail(message)).resolves.toEqual({ id: 'msg-1' });
+
+      expect(mockTransportSend).toHaveBeenCalledWith(expect.objectContaining({
+        from: '"Acme Supply" <sales@acme.com>',
+        to: 'john@example.com',
+        replyTo: 'owner@acme.com',
+        attachments: [],
+      }));
+      expect(mockBuilders.email_log[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        shop_id: 'test-shop.myshopify.com',
+        quote_id: 'quote-1',
+        type: 'quote_sent',
+        transport: 'outbox',
+        provider_message_id: 'msg-1',
+        status: 'sent',
+      }));
+    });
+
+    it('should fall back to FROM_EMAIL when the shop has no sender settings', async () => {
+      process.env.FROM_EMAIL = 'quotes@example.com';
+      mockTransportSend.mockResolvedValue({ messageId: 'msg-2' });
+
+      await sendEmail(message);
+
+      expect(mockTransportSend).toHaveBeenCalledWith(expect.objectContaining({
+        from: '"QuoteGen" <quotes@example.com>',
+      }));
+    });
+
+    it('should attach the quote PDF', async () => {
+      const pdf = { filename: 'Quote-QT-001.pdf', content: Buffer.from('%PDF'), contentType: 'application/pdf' };
+      mockRenderQuotePdfAttachment.mockResolvedValue(pdf);
+      mockTransportSend.mockResolvedValue({ messageId: 'msg-3' });
+
+      await sendEmail({ ...message, attachQuotePdf: true });
+
+      expect(mockRenderQuotePdfAttachment).toHaveBeenCalledWith('quote-1');
+      expect(mockTransportSend).toHaveBeenCalledWith(expect.objectContaining({ attachments: [pdf] }));
+      expect(mockBuilders.email_log[0].insert).toHaveBeenCalledWith(
+        expect.objectContaining({ attachments: ['Quote-QT-001.pdf'] })
+      );
+    });
+
+    it('should copy in and log the CC addresses', async () => {
+      mockTransportSend.mockResolvedValue({ messageId: 'msg-5' });
+
+      await sendEmail({ ...message, cc: ['ap@example.com'] });
+
+      expect(mockTransportSend).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'john@example.com',
+        cc: ['ap@example.com'],
+      }));
+      expect(mockBuilders.email_log[0].insert).toHaveBeenCalledWith(
+        expect.objectContaining({ cc_addresses: ['ap@example.com'] })
+      );
+    });
+
+    it('should still send when the PDF cannot be rendered', async () => {
+      mockRenderQuotePdfAttachment.mockRejectedValue(new Error('render failed'));
+      mockTransportSend.mockResolvedValue({ messageId: 'msg-4' });
+
+      await expect(sendEmail({ ...message, attachQuotePdf: true })).resolves.toEqual({ id: 'msg-4' });
+      expect(mockTransportSend).toHaveBeenCalledWith(expect.objectContaining({ attachments: [] }));
+    });
+
+    it('should log and rethrow transport failures', async () => {
+      mockTransportSend.mockRejectedValue(new Error('Connection refused'));
+
+      await expect(sendEmail(message)).rejects.toThrow('Connection refused');
+      expect(mockBuilders.email_log[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+        transport: 'outbox',
+        status: 'failed',
+        error: 'Connection refused',
+      }));
+    });
+  });
+
   describe('newQuoteEmailTemplate', () => {
     it('should generate email template with all fields', () => {
       const quoteData = {
@@ -0,0 +1,239 @@
+/**
+ * Unit Tests for Email Delivery Events
+ * @module lib/__tests__/emailEvents.test
+ */
+
+import crypto from 'crypto';
+import { handleEmailEvent, verifySvixSignature, type ResendEmailEvent } from '@/lib/emailEvents';
+import { mockBuilders, mockRpc, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+const secret = `whsec_${Buffer.from('test-signing-key').toString('base64')}`;
+
+function sign(id: string, timestamp: string, body: string) {
+  return crypto
+    .createHmac('sha256', Buffer.from('test-signing-key'))
+    .update(`${id}.${timestamp}.${body}`)
+    .digest('base64');
+}
+
+const logRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'log-1',
+  shop_id: 'test-shop.myshopify.com',
+  quote_id: 'quote-1',
+  type: 'quote_sent',
+  to_address: 'john@example.com',
+  open_count: 0,
+  click_count: 0,
+  first_opened_at: null,
+  first_clicked_at: null,
+  quote: {
+    id: 'quote-1',
+    shop_id: 'test-shop.myshopify.com',
+    quote_number: 'QT-001',
+    status: 'sent',
+    customer_id: 'cust-1',
+    customer_name: 'John Doe',
+  },
+  ...overrides,
+});
+
+const emailEvent = (type: string, data: Partial<ResendEmailEvent['data']> = {}): ResendEmailEvent => ({
+  type,
+  created_at: '2024-01-02T10:00:00Z',
+  data: { email_id: 'msg-1', to: ['john@example.com'], ...data },
+});
+
+describe('Email Delivery Events', () => {
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('verifySvixSignature', () => {
+    const body = JSON.stringify(emailEvent('email.delivered'));
+    const now = 1704189600000;
+    const timestamp = String(now / 1000);
+
+    it('should accept a valid signature', () => {
+      const headers = { id: 'msg_1', timestamp, signature: `v1,${sign('msg_1', timestamp, body)}` };
+
+      expect(verifySvixSignature(body, headers, secret, now)).toBe(true);
+    });
+
+    it('should accept any of several signatures during key rotation', () => {
+      const headers = { id: 'msg_1', timestamp, signature: `v1,b2xkLWtleQ== v1,${sign('msg_1', timestamp, body)}` };
+
+      expect(verifySvixSignature(body, headers, secret, now)).toBe(true);
+    });
+
+    it('should reject a tampered body', () => {
+      const headers = { id: 'msg_1', timestamp, signature: `v1,${sign('msg_1', timestamp, body)}` };
+
+      expect(verifySvixSignature(body.replace('delivered', 'clicked'), headers, secret, now)).toBe(false);
+    });
+
+    it('should reject a stale timestamp', () => {
+      const headers = { id: 'msg_1', timestamp, signature: `v1,${sign('msg_1', timestamp, body)}` };
+
+      expect(verifySvixSignature(body, headers, secret, now + 10 * 60 * 1000)).toBe(false);
+    });
+
+    it('should reject everything without a secret', () => {
+      const headers = { id: 'msg_1', timestamp, signature: `v1,${sign('msg_1', timestamp, body)}` };
+      const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
+
+      expect(verifySvixSignature(body, headers, undefined, now)).toBe(false);
+      mockConsoleError.mockRestore();
+    });
+  });
+
+  describe('handleEmailEvent', () => {
+    it('should ignore emails that are not in the log', async () => {
+      await expect(handleEmailEvent('evt-1', emailEvent('email.delivered'))).resolves.toBe('ignored');
+      expect(mockBuilders.email_events).toBeUndefined();
+    });
+
+    it('should ignore event types it does not track', async () => {
+      await expect(handleEmailEvent('evt-1', emailEvent('email.delivery_delayed'))).resolves.toBe('ignored');
+      expect(mockBuilders.email_log).toBeUndefined();
+    });
+
+    it('should not apply the same event twice', async () => {
+      queueResult('email_log', { data: logRow(), error: null });
+      queueResult('email_events', { data: null, error: { code: '23505', message: 'duplicate key' } });
+
+      await expect(handleEmailEvent('evt-1', emailEvent('email.delivered'))).resolves.toBe('duplicate');
+      expect(mockBuilders.email_log).toHaveLength(1);
+      expect(mockBuilders.activities).toBeUndefined();
+    });
+
+    it('should record a delivery on the log and the quote', async () => {
+      queueResult('email_log', { data: logRow(), error: null });
+
+      await expect(handleEmailEvent('evt-1', emailEvent('email.delivered'))).resolves.toBe('applied');
+
+      expect(mockBuilders.email_log[0].eq).toHaveBeenCalledWith('provider_message_id', 'msg-1');
+      expect(mockBuilders.email_events[0].insert).toHaveBeenCalledWith(
+        expect.objectContaining({ event_id: 'evt-1', email_log_id: 'log-1', type: 'delivered' })
+      );
+      expect(mockBuilders.email_log[1].update).toHaveBeenCalledWith({
+        delivery_status: 'delivered',
+        delivered_at: '2024-01-02T10:00:00Z',
+      });
+      expect(mockBuilders.activities[0].insert).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'email_delivered', quote_id: 'quote-1', customer_id: 'cust-1' })
+      );
+    });
+
+    it('should mark a sent quote viewed on the first click', async () => {
+      queueResult('email_log', { data: logRow(), error: null });
+      mockRpc.mockResolvedValueOnce({ data: { id: 'quote-1', status: 'viewed' }, error: null });
+
+      await handleEmailEvent('evt-1', emailEvent('email.clicked', { click: { link: 'http://localhost:3000/q/abc' } }));
+
+      expect(mockBuilders.email_log[1].update).toHaveBeenCalledWith({
+        click_count: 1,
+        first_clicked_at: '2024-01-02T10:00:00Z',
+      });
+      expect(mockRpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+        p_quote_id: 'quote-1',
+        p_from_status: 'sent',
+        p_to_status: 'viewed',
+        p_changed_by: 'customer',
+        p_changed_by_name: 'John Doe',
+        p_activity_type: 'quote_viewed',
+      }));
+      expect(mockBuilders.activities.map((builder) => builder.insert.mock.calls[0][0].type))
+        .toEqual(['email_clicked']);
+    });
+
+    it('should not mark a quote viewed when the shop workflow has no viewed step', async () => {
+      queueResult('email_log', { data: logRow(), error: null });
+      queueResult('quote_workflows', {
+        data: {
+          shop_id: 'test-shop.myshopify.com',
+          statuses: [],
+          transitions: [{ from: ['sent'], to: 'accepted', action: 'Accept' }],
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        },
+        error: null,
+      });
+
+      await handleEmailEvent('evt-1', emailEvent('email.clicked', { click: { link: 'http://localhost:3000/q/abc' } }));
+
+      expect(mockBuilders.quote_workflows[0].eq).toHaveBeenCalledWith('shop_id', 'test-shop.myshopify.com');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should leave a quote the buyer page already marked viewed', async () => {
+      queueResult('email_log', { data: logRow(), error: null });
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: 'PT409', message: 'Quote quote-1 is no longer sent' } });
+
+      await expect(
+        handleEmailEvent('evt-1', emailEvent('email.clicked', { click: { link: 'http://localhost:3000/q/abc' } }))
+      ).resolves.toBe('applied');
+      expect(mockBuilders.email_log[1].update).toHaveBeenCalledWith(expect.objectContaining({ click_count: 1 }));
+    });
+
+    it('should only count repeat opens', async () => {
+      queueResult('email_log', { data: logRow({ open_count: 2, first_opened_at: '2024-01-01T00:00:00Z' }), error: null });
+
+      await handleEmailEvent('evt-1', emailEvent('email.opened'));
+
+      expect(mockBuilders.email_log[1].update).toHaveBeenCalledWith({ open_count: 3 });
+      expect(mockBuilders.activities).toBeUndefined();
+    });
+
+    it('should flag the customer on a hard bounce', async () => {
+      queueResult('email_log', { data: logRow(), error: null });
+
+      await handleEmailEvent('evt-1', emailEvent('email.bounced', {
+        bounce: { type: 'Permanent', subType: 'General', message: 'Mailbox does not exist' },
+      }));
+
+      expect(mockBuilders.customers[0].update).toHaveBeenCalledWith({
+        email_bounced_at: '2024-01-02T10:00:00Z',
+        email_bounce_reason: 'Mailbox does not exist',
+      });
+      expect(mockBuilders.customers[0].eq).toHaveBeenCalledWith('id', 'cust-1');
+      expect(mockBuilders.activities[0].insert).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'email_bounced' })
+      );
+    });
+
+    it('should not flag the customer on a transient bounce', async () => {
+      queueResult('email_log', { data: logRow(), error: null });
+
+      await handleEmailEvent('evt-1', emailEvent('email.bounced', { bounce: { type: 'Transient', message: 'Mailbox full' } }));
+
+      expect(mockBuilders.customers).toBeUndefined();
+    });
+
+    it('should leave quotes and customers alone for merchant notifications', async () => {
+      queueResult('email_log', { data: logRow({ type: 'quote_request', to_address: 'owner@shop.com' }), error: null });
+
+      await handleEmailEvent('evt-1', emailEvent('email.bounced', { bounce: { type: 'Permanent' } }));
+
+      expect(mockBuilders.email_log[1].update).toHaveBeenCalledWith(expect.objectContaining({ delivery_status: 'bounced' }));
+      expect(mockBuilders.customers).toBeUndefined();
+      expect(mockBuilders.activities).toBeUndefined();
+    });
+
+    it('should forget the event when applying it fails so a retry can apply it', async () => {
+      queueResult('email_log', { data: logRow(), error: null });
+      queueResult('email_log', { data: null, error: { message: 'connection reset' } });
+
+      await expect(handleEmailEvent('evt-1', emailEvent('email.delivered'))).rejects.toThrow('connection reset');
+      expect(mockBuilders.email_events[1].delete).toHaveBeenCalled();
+      expect(mockBuilders.email_events[1].eq).toHaveBeenCalledWith('event_id', 'evt-1');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit Tests for Secret Encryption
+ * @module lib/__tests__/encryption.test
+ */
+
+import { encryptSecret, decryptSecret } from '@/lib/encryption';
+
+describe('Secret Encryption', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, TOKEN_ENCRYPTION_KEY: 'test-encryption-key' };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should round-trip a secret', () => {
+    const encrypted = encryptSecret('shpat_abc123');
+
+    expect(encrypted).not.toContain('shpat_abc123');
+    expect(encrypted.startsWith('v1:')).toBe(true);
+    expect(decryptSecret(encrypted)).toBe('shpat_abc123');
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    expect(encryptSecret('same')).not.toBe(encryptSecret('same'));
+  });
+
+  it('should reject a tampered payload', () => {
+    const [version, iv, tag, ciphertext] = encryptSecret('shpat_abc123').split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 0xff;
+
+    expect(() => decryptSecret([version, iv, tag, tampered.toString('base64')].join(':'))).toThrow();
+  });
+
+  it('should not decrypt with a different key', () => {
+    const encrypted = encryptSecret('shpat_abc123');
+    process.env.TOKEN_ENCRYPTION_KEY = 'another-key';
+
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+
+  it('should throw when TOKEN_ENCRYPTION_KEY is not set', () => {
+    delete process.env.TOKEN_ENCRYPTION_KEY;
+
+    expect(() => encryptSecret('shpat_abc123')).toThrow('TOKEN_ENCRYPTION_KEY not set');
+  });
+
+  it('should reject unknown payload formats', () => {
+    expect(() => decryptSecret('plain-token')).toThrow('Unsupported encrypted payload');
+  });
+});
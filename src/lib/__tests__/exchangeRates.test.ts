@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Exchange Rates
+ * @module lib/__tests__/exchangeRates.test
+ */
+
+import {
+  getCurrencyLabel,
+  listCurrencyCodes,
+  mapExchangeRateRow,
+  parseExchangeRatesFile,
+  toBaseCurrency,
+  type BaseCurrencyContext,
+} from '@/lib/exchangeRates';
+
+const context: BaseCurrencyContext = {
+  baseCurrency: 'USD',
+  rates: [
+    { currency: 'EUR', rate: 0.8 },
+    { currency: 'JPY', rate: 150 },
+  ],
+};
+
+describe('currency lists', () => {
+  it('lists ISO currency codes', () => {
+    const codes = listCurrencyCodes();
+    expect(codes).toEqual(expect.arrayContaining(['USD', 'EUR', 'JPY']));
+  });
+
+  it('labels a code with its name', () => {
+    expect(getCurrencyLabel('EUR')).toBe('EUR - Euro');
+  });
+});
+
+describe('mapExchangeRateRow', () => {
+  it('turns the decimal rate into a number', () => {
+    expect(mapExchangeRateRow({
+      shop_id: 'shop-1',
+      currency: 'EUR',
+      rate: '0.9200000000',
+      source: 'import',
+      created_at: '2024-02-01T00:00:00Z',
+      updated_at: '2024-02-02T00:00:00Z',
+    })).toEqual({
+      currency: 'EUR',
+      rate: 0.92,
+      source: 'import',
+      updatedAt: new Date('2024-02-02T00:00:00Z'),
+    });
+  });
+});
+
+describe('parseExchangeRatesFile', () => {
+  it('reads CSV lines and skips the header row', () => {
+    const { rates, errors } = parseExchangeRatesFile('currency,rate\nEUR,0.92\ngbp;0.79\n\nJPY\t149.5\n', 'USD');
+
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      { currency: 'EUR', rate: 0.92 },
+      { currency: 'GBP', rate: 0.79 },
+      { currency: 'JPY', rate: 149.5 },
+    ]);
+  });
+
+  it('reports the lines it cannot read', () => {
+    const { rates, errors } = parseExchangeRatesFile('EUR,0.92\nEURO,1\nGBP,-2', 'USD');
+
+    expect(rates).toEqual([{ currency: 'EUR', rate: 0.92 }]);
+    expect(errors).toEqual([
+      'Line 2: "EURO" is not a 3-letter currency code',
+      'Line 3: the rate for GBP must be a positive number',
+    ]);
+  });
+
+  it('reads a JSON list of rates', () => {
+    const { rates, errors } = parseExchangeRatesFile('[{"currency":"eur","rate":0.92},{"currency":"GBP","rate":"0.79"}]', 'USD');
+
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([
+      { currency: 'EUR', rate: 0.92 },
+      { currency: 'GBP', rate: 0.79 },
+    ]);
+  });
+
+  it('reads a rates feed quoted against the base currency', () => {
+    const { rates, errors } = parseExchangeRatesFile('{"base":"USD","rates":{"USD":1,"EUR":0.92}}', 'USD');
+
+    expect(errors).toEqual([]);
+    expect(rates).toEqual([{ currency: 'EUR', rate: 0.92 }]);
+  });
+
+  it('rejects a feed quoted against another currency', () => {
+    const { rates, errors } = parseExchangeRatesFile('{"base":"EUR","rates":{"USD":1.09}}', 'USD');
+
+    expect(rates).toEqual([]);
+    expect(errors).toEqual(['The rates are quoted against EUR, not the base currency USD']);
+  });
+
+  it('reports invalid JSON', () => {
+    expect(parseExchangeRatesFile('{"rates":', 'USD').errors).toEqual(['The file is not valid JSON']);
+  });
+
+  it('keeps the last rate given for a currency', () => {
+    const { rates } = parseExchangeRatesFile('EUR,0.9\nEUR,0.92', 'USD');
+    expect(rates).toEqual([{ currency: 'EUR', rate: 0.92 }]);
+  });
+});
+
+describe('toBaseCurrency', () => {
+  it('leaves base currency quotes as they are', () => {
+    expect(toBaseCurrency({ total: 100, currency: 'USD' }, context)).toBe(100);
+  });
+
+  it('converts unsent quotes at the current rate', () => {
+    expect(toBaseCurrency({ total: 100, currency: 'EUR' }, context)).toBe(125);
+    expect(toBaseCurrency({ total: 1000, currency: 'JPY' }, context)).toBe(6.67);
+  });
+
+  it('converts sent quotes at the rate stamped when they were sent', () => {
+    expect(toBaseCurrency({ total: '92', currency: 'EUR', base_currency: 'USD', exchange_rate: '0.92' }, context)).toBe(100);
+  });
+
+  it('ignores a stamped rate against an earlier base currency', () => {
+    expect(toBaseCurrency({ total: 100, currency: 'EUR', base_currency: 'GBP', exchange_rate: 1.17 }, context)).toBe(125);
+  });
+
+  it('returns null when there is no rate for the currency', () => {
+    expect(toBaseCurrency({ total: 100, currency: 'CHF' }, context)).toBeNull();
+  });
+});
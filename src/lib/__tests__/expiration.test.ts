@@ -11,12 +11,13 @@ import {
   type ReminderConfig,
   type ExpirationResult,
 } from '@/lib/expiration';
-import { supabase } from '@/lib/supabase';
+import { getServiceClient } from '@/lib/supabaseServer';
+import { sendEmail } from '@/lib/email';
 import { QuoteStatus } from '@/types/quote';
 
 // Mock Supabase
-jest.mock('@/lib/supabase', () => ({
-  supabase: {
+jest.mock('@/lib/supabaseServer', () => {
+  const client = {
     from: jest.fn(() => ({
       select: jest.fn().mockReturnThis(),
       insert: jest.fn().mockReturnThis(),
@@ -30,20 +31,42 @@ jest.mock('@/lib/supabase', () => ({
       order: jest.fn().mockReturnThis(),
       single: jest.fn().mockReturnThis(),
     })),
-  },
-}));
+    rpc: jest.fn(),
+  };
+  return { getServiceClient: () => client };
+});
 
 // Mock email service
 jest.mock('@/lib/email', () => ({
   sendEmail: jest.fn().mockResolvedValue({ id: 'email-123' }),
 }));
 
+// Mock buyer links
+jest.mock('@/lib/quoteAccess', () => ({
+  createPublicQuoteUrl: jest.fn().mockResolvedValue('http://localhost:3000/q/test-token'),
+}));
+
+// Mock merchant settings
+const mockGetMerchantSettings = jest.fn();
+
+jest.mock('@/lib/settings', () => ({
+  getMerchantSettings: (...args: unknown[]) => mockGetMerchantSettings(...args),
+}));
+
 describe('Quote Expiration Handler', () => {
   let mockFrom: jest.Mock;
+  let mockRpc: jest.Mock;
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockFrom = supabase.from as jest.Mock;
+    mockFrom = getServiceClient().from as jest.Mock;
+    mockRpc = getServiceClient().rpc as jest.Mock;
+    mockRpc.mockImplementation((_fn: string, args: { p_quote_id: string }) =>
+      Promise.resolve({
+        data: { id: args.p_quote_id, status: QuoteStatus.EXPIRED, updated_at: '2024-02-01T00:00:00Z' },
+        error: null,
+      })
+    );
   });
 
   describe('DEFAULT_REMINDER_CONFIG', () => {
@@ -103,19 +126,6 @@ describe('Quote Expiration Handler', () => {
             lt: jest.fn().mockReturnThis(),
             in: jest.fn().mockReturnThis(),
             order: jest.fn().mockResolvedValue({ data: mockQuotes, error: null }),
-            eq: jest.fn().mockReturnThis(),
-            insert: jest.fn().mockResolvedValue({ error: null }),
-            update: jest.fn().mockReturnThis(),
-          };
-        }
-        if (table === 'quote_status_history') {
-          return {
-            insert: jest.fn().mockResolvedValue({ error: null }),
-          };
-        }
-        if (table === 'activities') {
-          return {
-            insert: jest.fn().mockResolvedValue({ error: null }),
           };
         }
         return {
@@ -129,6 +139,38 @@ describe('Quote Expiration Handler', () => {
 
       expect(result.expired).toBe(2);
       expect(result.errors).toHaveLength(0);
+      expect(mockRpc).toHaveBeenCalledTimes(2);
+      expect(mockRpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+        p_quote_id: 'quote-2',
+        p_from_status: QuoteStatus.VIEWED,
+        p_to_status: QuoteStatus.EXPIRED,
+        p_changed_by: 'system',
+        p_metadata: { reason: 'expired', auto: true },
+      }));
+      // History and activity are written by the database function
+      expect(mockFrom).not.toHaveBeenCalledWith('quote_status_history');
+      expect(mockFrom).not.toHaveBeenCalledWith('activities');
+    });
+
+    test('should skip quotes whose status changed before they could expire', async () => {
+      mockFrom.mockImplementation(() => ({
+        select: jest.fn().mockReturnThis(),
+        lt: jest.fn().mockReturnThis(),
+        in: jest.fn().mockReturnThis(),
+        order: jest.fn().mockResolvedValue({
+          data: [{ id: 'quote-1', quote_number: 'QT-001', status: QuoteStatus.SENT }],
+          error: null,
+        }),
+      }));
+      mockRpc.mockResolvedValue({
+        data: null,
+        error: { code: 'PT409', message: 'Quote quote-1 is no longer sent' },
+      });
+
+      const result = await checkAndExpireQuotes();
+
+      expect(result.expired).toBe(0);
+      expect(result.errors).toHaveLength(0);
     });
 
     test('should handle fetch errors gracefully', async () => {
@@ -155,32 +197,19 @@ describe('Quote Expiration Handler', () => {
         { id: 'quote-2', quote_number: 'QT-002', status: QuoteStatus.SENT },
       ];
 
-      let callCount = 0;
-      mockFrom.mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          // First call - fetch quotes
-          return {
-            select: jest.fn().mockReturnThis(),
-            lt: jest.fn().mockReturnThis(),
-            in: jest.fn().mockReturnThis(),
-            order: jest.fn().mockResolvedValue({ data: mockQuotes, error: null }),
-          };
-        }
-        // Subsequent calls - simulate failure for first quote
-        return {
-          insert: jest.fn().mockResolvedValue({ 
-            error: callCount === 2 ? { message: 'Insert failed' } : null 
-          }),
-          update: jest.fn().mockResolvedValue({ error: null }),
-          select: jest.fn().mockReturnThis(),
-          eq: jest.fn().mockReturnThis(),
-        };
-      });
+      mockFrom.mockImplementation(() => ({
+        select: jest.fn().mockReturnThis(),
+        lt: jest.fn().mockReturnThis(),
+        in: jest.fn().mockReturnThis(),
+        order: jest.fn().mockResolvedValue({ data: mockQuotes, error: null }),
+      }));
+      // Simulate failure for the first quote
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: '42501', message: 'Insert failed' } });
 
       const result = await checkAndExpireQuotes();
 
-      expect(result.errors.length).toBeGreaterThan(0);
+      expect(result.expired).toBe(1);
+      expect(result.errors).toEqual(['Quote QT-001: Failed to transition quote: Insert failed']);
     });
   });
 
@@ -310,6 +339,74 @@ describe('Quote Expiration Handler', () => {
     });
   });
 
+  describe('per-shop reminder settings', () => {
+    const shopQuote = (id: string, shopId: string) => ({
+      id,
+      shop_id: shopId,
+      quote_number: id.toUpperCase(),
+      customer_email: 'test@example.com',
+      title: 'Test Quote',
+      total: 1000,
+      status: QuoteStatus.SENT,
+    });
+
+    const config: ReminderConfig = { ...DEFAULT_REMINDER_CONFIG, reminderDays: [7] };
+
+    beforeEach(() => {
+      mockFrom.mockImplementation((table: string) => {
+        if (table === 'quotes') {
+          return {
+            select: jest.fn().mockReturnThis(),
+            gte: jest.fn().mockReturnThis(),
+            lte: jest.fn().mockReturnThis(),
+            in: jest.fn().mockResolvedValue({
+              data: [shopQuote('q-1', 'quiet-shop.myshopify.com'), shopQuote('q-2', 'acme.myshopify.com')],
+              error: null,
+            }),
+          };
+        }
+        return {
+          select: jest.fn().mockReturnThis(),
+          eq: jest.fn().mockReturnThis(),
+          single: jest.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } }),
+          insert: jest.fn().mockResolvedValue({ error: null }),
+        };
+      });
+      mockGetMerchantSettings.mockImplementation(async (shopId: string) => ({
+        shopId,
+        company: { name: shopId === 'acme.myshopify.com' ? 'Acme Supply' : '' },
+        email: { senderEmail: '' },
+        quotes: { enableAutoReminders: shopId === 'acme.myshopify.com' },
+      }));
+    });
+
+    test('should skip shops that switched reminders off', async () => {
+      const result = await sendExpirationReminders(config);
+
+      expect(result.expiringSoon).toBe(2);
+      expect(result.remindersSent).toBe(1);
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ quoteId: 'q-2' }));
+    });
+
+    test('should sign reminders with the shop company name', async () => {
+      await sendExpirationReminders(config);
+
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({
+        html: expect.stringContaining('Acme Supply'),
+      }));
+    });
+
+    test('should use the run config when shop settings cannot be loaded', async () => {
+      mockGetMerchantSettings.mockRejectedValue(new Error('connection reset'));
+
+      const result = await sendExpirationReminders(config);
+
+      expect(result.remindersSent).toBe(2);
+      expect(result.errors).toEqual([]);
+    });
+  });
+
   describe('processQuoteExpirations', () => {
     test('should combine expiration and reminder results', async () => {
       mockFrom.mockImplementation(() => ({
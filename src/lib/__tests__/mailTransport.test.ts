@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Mail Transports
+ * @module lib/__tests__/mailTransport.test
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { setImmediate } from 'timers';
+import { createOutboxTransport, getMailTransport, resetMailTransport } from '@/lib/mailTransport';
+
+// nodemailer streams need setImmediate, which jsdom does not provide
+global.setImmediate ||= setImmediate;
+
+describe('Mail Transports', () => {
+  describe('createOutboxTransport', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should write the message and its attachments to an .eml file', async () => {
+      const transport = createOutboxTransport(dir);
+
+      const { messageId } = await transport.send({
+        from: '"Acme Supply" <sales@acme.com>',
+        to: 'john@example.com',
+        cc: ['ap@example.com'],
+        subject: 'Quote QT-001 - Ready for Review',
+        html: '<p>Your quote is ready</p>',
+        attachments: [{ filename: 'Quote-QT-001.pdf', content: Buffer.from('%PDF-1.4'), contentType: 'application/pdf' }],
+      });
+
+      const files = await fs.readdir(dir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+
+      const eml = await fs.readFile(path.join(dir, files[0]), 'utf8');
+      expect(eml).toContain(`Message-ID: <${messageId}>`);
+      expect(eml).toContain('To: john@example.com');
+      expect(eml).toContain('Cc: ap@example.com');
+      expect(eml).toContain('Subject: Quote QT-001 - Ready for Review');
+      expect(eml).toContain('filename=Quote-QT-001.pdf');
+    });
+  });
+
+  describe('getMailTransport', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+      resetMailTransport();
+    });
+
+    it('should prefer Resend when an API key is configured', () => {
+      process.env.RESEND_API_KEY = 're_test';
+      process.env.SMTP_HOST = 'smtp.example.com';
+
+      expect(getMailTransport().name).toBe('resend');
+    });
+
+    it('should use SMTP when only SMTP_HOST is configured', () => {
+      delete process.env.RESEND_API_KEY;
+      process.env.SMTP_HOST = 'smtp.example.com';
+
+      expect(getMailTransport().name).toBe('smtp');
+    });
+
+    it('should honour MAIL_TRANSPORT', () => {
+      process.env.RESEND_API_KEY = 're_test';
+      process.env.MAIL_TRANSPORT = 'outbox';
+
+      expect(getMailTransport().name).toBe('outbox');
+    });
+
+    it('should fall back to the outbox outside production', () => {
+      delete process.env.RESEND_API_KEY;
+      delete process.env.SMTP_HOST;
+      delete process.env.MAIL_TRANSPORT;
+
+      expect(getMailTransport().name).toBe('outbox');
+    });
+
+    it('should refuse to run production without a transport', () => {
+      delete process.env.RESEND_API_KEY;
+      delete process.env.SMTP_HOST;
+      delete process.env.MAIL_TRANSPORT;
+      (process.env as Record<string, string>).NODE_ENV = 'production';
+
+      expect(() => getMailTransport()).toThrow('No mail transport is configured');
+    });
+  });
+});
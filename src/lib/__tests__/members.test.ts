@@ -0,0 +1,205 @@
+/**
+ * Unit Tests for Shop Members
+ * @module lib/__tests__/members
+ */
+
+const mockGetUser = jest.fn();
+const mockInviteUserByEmail = jest.fn();
+
+jest.mock('@supabase/supabase-js', () => {
+  const { createClient } = jest.requireActual('@/test-utils/supabaseMock');
+  return {
+    createClient: jest.fn(() => ({
+      ...createClient(),
+      auth: {
+        getUser: mockGetUser,
+        admin: { inviteUserByEmail: mockInviteUserByEmail },
+      },
+    })),
+  };
+});
+
+import {
+  claimShopOwnership,
+  getUserFromAccessToken,
+  inviteShopMember,
+  listShopMembers,
+  removeShopMember,
+  requirePermission,
+  resolveShopMember,
+} from '@/lib/members';
+import { MemberRole } from '@/types/quote';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+const SHOP = 'test-shop.myshopify.com';
+
+const memberRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'member-1',
+  shop_id: SHOP,
+  user_id: 'user-1',
+  email: 'jane@example.com',
+  name: 'Jane',
+  role: MemberRole.SALES,
+  created_at: '2024-02-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('members', () => {
+  beforeAll(() => {
+    process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role-key';
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('getUserFromAccessToken', () => {
+    it('should return the verified user', async () => {
+      mockGetUser.mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null });
+
+      await expect(getUserFromAccessToken('jwt')).resolves.toEqual({ id: 'user-1' });
+      expect(mockGetUser).toHaveBeenCalledWith('jwt');
+    });
+
+    it('should return null for an invalid token', async () => {
+      mockGetUser.mockResolvedValue({ data: { user: null }, error: { message: 'invalid JWT' } });
+
+      await expect(getUserFromAccessToken('forged')).resolves.toBeNull();
+    });
+  });
+
+  describe('resolveShopMember', () => {
+    it('should look up the membership of the requested shop', async () => {
+      queueResult('shop_members', { data: memberRow(), error: null });
+
+      const member = await resolveShopMember('user-1', SHOP);
+
+      expect(mockBuilders.shop_members[0].eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(mockBuilders.shop_members[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(member).toEqual(expect.objectContaining({ userId: 'user-1', shopId: SHOP, role: MemberRole.SALES }));
+    });
+
+    it('should fall back to the first shop the user joined', async () => {
+      queueResult('shop_members', { data: memberRow(), error: null });
+
+      await resolveShopMember('user-1');
+
+      expect(mockBuilders.shop_members[0].eq).toHaveBeenCalledTimes(1);
+      expect(mockBuilders.shop_members[0].order).toHaveBeenCalledWith('created_at', { ascending: true });
+    });
+
+    it('should return null for non-members', async () => {
+      await expect(resolveShopMember('user-2', SHOP)).resolves.toBeNull();
+    });
+  });
+
+  describe('listShopMembers', () => {
+    it('should list the owner first', async () => {
+      queueResult('shop_members', {
+        data: [memberRow(), memberRow({ id: 'member-2', role: MemberRole.OWNER, name: 'Olga' })],
+        error: null,
+      });
+
+      const members = await listShopMembers(SHOP);
+
+      expect(members.map((member) => member.name)).toEqual(['Olga', 'Jane']);
+    });
+  });
+
+  describe('inviteShopMember', () => {
+    it('should invite new users through Supabase Auth', async () => {
+      mockInviteUserByEmail.mockResolvedValue({ data: { user: { id: 'user-9' } }, error: null });
+      queueResult('shop_members', { data: null, error: null });
+      queueResult('shop_members', { data: memberRow({ user_id: 'user-9' }), error: null });
+
+      const member = await inviteShopMember(SHOP, { email: 'new@example.com', role: MemberRole.SALES }, 'user-1');
+
+      expect(mockInviteUserByEmail).toHaveBeenCalledWith('new@example.com', expect.objectContaining({
+        redirectTo: expect.stringContaining(`/login?shop=${SHOP}`),
+      }));
+      expect(mockBuilders.shop_members[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+        shop_id: SHOP,
+        user_id: 'user-9',
+        role: MemberRole.SALES,
+        invited_by: 'user-1',
+      }));
+      expect(member.userId).toBe('user-9');
+    });
+
+    it('should add users who already work in another shop without a new invite', async () => {
+      queueResult('shop_members', { data: { user_id: 'user-5' }, error: null });
+      queueResult('shop_members', { data: memberRow({ user_id: 'user-5' }), error: null });
+
+      await inviteShopMember(SHOP, { email: 'jane@example.com', role: MemberRole.VIEWER }, 'user-1');
+
+      expect(mockInviteUserByEmail).not.toHaveBeenCalled();
+      expect(mockBuilders.shop_members[1].insert).toHaveBeenCalledWith(expect.objectContaining({ user_id: 'user-5' }));
+    });
+
+    it('should reject users who are already members', async () => {
+      queueResult('shop_members', { data: { user_id: 'user-1' }, error: null });
+      queueResult('shop_members', { data: null, error: { code: '23505', message: 'duplicate key' } });
+
+      await expect(
+        inviteShopMember(SHOP, { email: 'jane@example.com', role: MemberRole.SALES }, 'user-1')
+      ).rejects.toThrow('jane@example.com is already a member');
+    });
+  });
+
+  describe('removeShopMember', () => {
+    it('should never remove the owner', async () => {
+      queueResult('shop_members', { data: [], error: null });
+
+      await expect(removeShopMember(SHOP, 'member-1')).resolves.toBe(false);
+      expect(mockBuilders.shop_members[0].neq).toHaveBeenCalledWith('role', MemberRole.OWNER);
+    });
+  });
+
+  describe('claimShopOwnership', () => {
+    const user = { id: 'user-1', email: 'owner@example.com', user_metadata: {} } as any;
+
+    it('should make the installing user the owner of a shop without members', async () => {
+      queueResult('shop_members', { data: null, error: null, count: 0 });
+      queueResult('shop_members', { data: memberRow({ role: MemberRole.OWNER }), error: null });
+
+      const owner = await claimShopOwnership(SHOP, user);
+
+      expect(mockBuilders.shop_members[1].insert).toHaveBeenCalledWith(expect.objectContaining({
+        shop_id: SHOP,
+        user_id: 'user-1',
+        role: MemberRole.OWNER,
+      }));
+      expect(owner?.role).toBe(MemberRole.OWNER);
+    });
+
+    it('should leave shops that already have members alone', async () => {
+      queueResult('shop_members', { data: null, error: null, count: 2 });
+
+      await expect(claimShopOwnership(SHOP, user)).resolves.toBeNull();
+      expect(mockBuilders.shop_members).toHaveLength(1);
+    });
+  });
+
+  describe('requirePermission', () => {
+    const requestAs = (role?: string) => new Request('http://localhost/api/customers/1', {
+      headers: role ? { 'x-user-id': 'user-1', 'x-member-role': role } : {},
+    });
+
+    it('should let permitted members through', () => {
+      expect(requirePermission(requestAs('admin'), 'customers:delete')).toBeNull();
+    });
+
+    it('should return 403 for members without the permission', async () => {
+      const response = requirePermission(requestAs('sales'), 'customers:delete');
+
+      expect(response?.status).toBe(403);
+      expect((await response?.json()).error.code).toBe('FORBIDDEN');
+    });
+
+    it('should return 401 for requests without a member', () => {
+      expect(requirePermission(requestAs(), 'customers:delete')?.status).toBe(401);
+    });
+  });
+});
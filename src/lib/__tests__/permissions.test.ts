@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for Workspace Roles and Permissions
+ * @module lib/__tests__/permissions
+ */
+
+import {
+  canWrite,
+  getRequestAccessToken,
+  getRequestActor,
+  getRequestMember,
+  hasPermission,
+} from '@/lib/permissions';
+import { MemberRole } from '@/types/quote';
+
+describe('permissions', () => {
+  describe('hasPermission', () => {
+    it('should let owners and admins reopen quotes and delete customers', () => {
+      [MemberRole.OWNER, MemberRole.ADMIN].forEach((role) => {
+        expect(hasPermission(role, 'quotes:reopen')).toBe(true);
+        expect(hasPermission(role, 'quotes:approve')).toBe(true);
+        expect(hasPermission(role, 'customers:delete')).toBe(true);
+        expect(hasPermission(role, 'members:manage')).toBe(true);
+      });
+    });
+
+    it('should let sales write quotes and customers only', () => {
+      expect(hasPermission(MemberRole.SALES, 'quotes:write')).toBe(true);
+      expect(hasPermission(MemberRole.SALES, 'customers:write')).toBe(true);
+      expect(hasPermission(MemberRole.SALES, 'quotes:reopen')).toBe(false);
+      expect(hasPermission(MemberRole.SALES, 'quotes:approve')).toBe(false);
+      expect(hasPermission(MemberRole.SALES, 'customers:delete')).toBe(false);
+      expect(hasPermission(MemberRole.SALES, 'settings:manage')).toBe(false);
+    });
+
+    it('should grant nothing to viewers or unknown roles', () => {
+      expect(hasPermission(MemberRole.VIEWER, 'quotes:write')).toBe(false);
+      expect(hasPermission('superuser', 'quotes:write')).toBe(false);
+      expect(hasPermission(null, 'quotes:write')).toBe(false);
+    });
+  });
+
+  describe('canWrite', () => {
+    it('should allow writes for every role but viewer', () => {
+      expect(canWrite(MemberRole.SALES)).toBe(true);
+      expect(canWrite(MemberRole.VIEWER)).toBe(false);
+      expect(canWrite(undefined)).toBe(false);
+    });
+  });
+
+  describe('getRequestMember', () => {
+    it('should read the member headers set by the middleware', () => {
+      const request = new Request('http://localhost/api/quotes', {
+        headers: {
+          'x-user-id': 'user-1',
+          'x-user-name': encodeURIComponent('Zoë Müller'),
+          'x-shop-id': 'shop.myshopify.com',
+          'x-member-role': 'admin',
+        },
+      });
+
+      expect(getRequestMember(request)).toEqual({
+        userId: 'user-1',
+        userName: 'Zoë Müller',
+        shopId: 'shop.myshopify.com',
+        role: MemberRole.ADMIN,
+      });
+    });
+
+    it('should return null without a user', () => {
+      expect(getRequestMember(new Request('http://localhost/api/quotes'))).toBeNull();
+    });
+
+    it('should ignore unknown roles', () => {
+      const request = new Request('http://localhost/api/quotes', {
+        headers: { 'x-user-id': 'user-1', 'x-member-role': 'root' },
+      });
+
+      expect(getRequestMember(request)?.role).toBeNull();
+    });
+  });
+
+  describe('getRequestActor', () => {
+    it('should attribute requests without a member to the system', () => {
+      expect(getRequestActor(new Request('http://localhost/api/quotes'))).toEqual({ id: 'system', name: 'System' });
+    });
+
+    it('should fall back to the user id when the name is empty', () => {
+      const request = new Request('http://localhost/api/quotes', { headers: { 'x-user-id': 'user-1' } });
+
+      expect(getRequestActor(request)).toEqual({ id: 'user-1', name: 'user-1' });
+    });
+  });
+
+  describe('getRequestAccessToken', () => {
+    it('should prefer the bearer token', () => {
+      const request = new Request('http://localhost/api/quotes', {
+        headers: { authorization: 'Bearer jwt-123', cookie: 'qg-access-token=jwt-cookie' },
+      });
+
+      expect(getRequestAccessToken(request)).toBe('jwt-123');
+    });
+
+    it('should fall back to the session cookie', () => {
+      const request = new Request('http://localhost/api/quotes', {
+        headers: { cookie: 'theme=dark; qg-access-token=jwt-cookie' },
+      });
+
+      expect(getRequestAccessToken(request)).toBe('jwt-cookie');
+    });
+
+    it('should return null without a session', () => {
+      expect(getRequestAccessToken(new Request('http://localhost/api/quotes'))).toBeNull();
+    });
+  });
+});
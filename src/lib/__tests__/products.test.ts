@@ -0,0 +1,227 @@
+/**
+ * Unit Tests for Product Catalog Search
+ * @module lib/__tests__/products.test
+ */
+
+import {
+  buildProductSearchQuery,
+  invalidateProductCache,
+  mapShopifyProduct,
+  priceLineItemsFromCatalog,
+  searchProducts,
+} from '@/lib/products';
+import { getShopAccessToken, getShopScopes } from '@/lib/shops';
+
+jest.mock('@/lib/shops', () => ({
+  getShopAccessToken: jest.fn(),
+  getShopScopes: jest.fn(),
+}));
+
+const productNode = {
+  id: 'gid://shopify/Product/1',
+  title: 'Industrial Widget Pro',
+  description: 'High-performance widget',
+  handle: 'industrial-widget-pro',
+  tags: ['industrial'],
+  productType: 'Widgets',
+  vendor: 'Acme',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-02T00:00:00Z',
+  images: { edges: [{ node: { url: 'https://cdn.shopify.com/widget.jpg' } }] },
+  variants: {
+    edges: [{
+      node: {
+        id: 'gid://shopify/ProductVariant/11',
+        title: 'Heavy Duty',
+        sku: 'IWP-002',
+        price: '399.99',
+        compareAtPrice: '449.00',
+        inventoryQuantity: 50,
+        selectedOptions: [{ name: 'Size', value: 'Heavy Duty' }],
+      },
+    }],
+  },
+};
+
+function mockGraphqlResponse(hasNextPage = false) {
+  return {
+    ok: true,
+    json: jest.fn().mockResolvedValue({
+      data: {
+        products: {
+          edges: [{ cursor: 'cursor-1', node: productNode }],
+          pageInfo: { hasNextPage, endCursor: 'cursor-1' },
+        },
+      },
+    }),
+  };
+}
+
+describe('Product Catalog', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    invalidateProductCache();
+    global.fetch = jest.fn().mockResolvedValue(mockGraphqlResponse());
+  });
+
+  describe('buildProductSearchQuery', () => {
+    it('should only return active products', () => {
+      expect(buildProductSearchQuery()).toBe('status:active');
+      expect(buildProductSearchQuery('  ')).toBe('status:active');
+    });
+
+    it('should prefix-match every word', () => {
+      expect(buildProductSearchQuery('widget pro')).toBe('status:active AND (widget* pro*)');
+    });
+
+    it('should strip search syntax from the term', () => {
+      expect(buildProductSearchQuery('vendor:"acme"')).toBe('status:active AND (vendor* acme*)');
+    });
+  });
+
+  describe('mapShopifyProduct', () => {
+    it('should map products and variants to the Product model', () => {
+      const product = mapShopifyProduct(productNode);
+
+      expect(product).toMatchObject({
+        id: 'gid://shopify/Product/1',
+        images: ['https://cdn.shopify.com/widget.jpg'],
+        productType: 'Widgets',
+      });
+      expect(product.createdAt).toBeInstanceOf(Date);
+      expect(product.variants[0]).toEqual({
+        id: 'gid://shopify/ProductVariant/11',
+        title: 'Heavy Duty',
+        sku: 'IWP-002',
+        price: 399.99,
+        compareAtPrice: 449,
+        inventoryQuantity: 50,
+        options: { Size: 'Heavy Duty' },
+      });
+    });
+
+    it('should read the variant cost when it was requested', () => {
+      const [variantEdge] = productNode.variants.edges;
+      const product = mapShopifyProduct({
+        ...productNode,
+        variants: { edges: [{ node: { ...variantEdge.node, inventoryItem: { unitCost: { amount: '250.00' } } } }] },
+      });
+
+      expect(product.variants[0].unitCost).toBe(250);
+    });
+  });
+
+  describe('searchProducts', () => {
+    it('should query the GraphQL Admin API with the access token', async () => {
+      const result = await searchProducts('test-shop.myshopify.com', 'shpat_123', { query: 'widget', first: 10 });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://test-shop.myshopify.com/admin/api/2024-01/graphql.json',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ 'X-Shopify-Access-Token': 'shpat_123' }),
+        })
+      );
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.variables).toEqual({ first: 10, after: null, query: 'status:active AND (widget*)', withCost: false });
+      expect(result.products).toHaveLength(1);
+      expect(result.pageInfo).toEqual({ hasNextPage: false, endCursor: 'cursor-1' });
+    });
+
+    it('should pass the cursor for the next page and clamp the page size', async () => {
+      await searchProducts('test-shop.myshopify.com', 'shpat_123', { after: 'cursor-1', first: 500 });
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.variables.after).toBe('cursor-1');
+      expect(body.variables.first).toBe(50);
+    });
+
+    it('should cache results per shop', async () => {
+      await searchProducts('test-shop.myshopify.com', 'shpat_123', { query: 'widget' });
+      await searchProducts('test-shop.myshopify.com', 'shpat_123', { query: 'widget' });
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      await searchProducts('other-shop.myshopify.com', 'shpat_456', { query: 'widget' });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch after the shop cache is invalidated', async () => {
+      await searchProducts('test-shop.myshopify.com', 'shpat_123', { query: 'widget' });
+      invalidateProductCache('test-shop.myshopify.com');
+      await searchProducts('test-shop.myshopify.com', 'shpat_123', { query: 'widget' });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw on GraphQL errors', async () => {
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ errors: [{ message: 'Throttled' }] }),
+      });
+
+      await expect(
+        searchProducts('test-shop.myshopify.com', 'shpat_123', { query: 'widget' })
+      ).rejects.toThrow('Shopify GraphQL error: Throttled');
+    });
+  });
+
+  describe('priceLineItemsFromCatalog', () => {
+    const variantId = 'gid://shopify/ProductVariant/11';
+
+    beforeEach(() => {
+      (getShopAccessToken as jest.Mock).mockResolvedValue('shpat_123');
+      (getShopScopes as jest.Mock).mockResolvedValue(['read_products', 'read_inventory']);
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          data: { nodes: [{ id: variantId, price: '399.99', inventoryItem: { unitCost: { amount: '250.00' } } }] },
+        }),
+      });
+    });
+
+    it('should replace the client list price and cost with the catalog ones', async () => {
+      const [item] = await priceLineItemsFromCatalog('test-shop.myshopify.com', [
+        { variantId, title: 'Widget', quantity: 1, unitPrice: 300, originalPrice: 300, unitCost: 1 },
+      ]);
+
+      expect(item).toMatchObject({ unitPrice: 300, originalPrice: 399.99, unitCost: 250 });
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.variables).toEqual({ ids: [variantId], withCost: true });
+    });
+
+    it('should clear the prices of items the catalog does not have', async () => {
+      const [custom, deleted] = await priceLineItemsFromCatalog('test-shop.myshopify.com', [
+        { title: 'Setup fee', quantity: 1, unitPrice: 100, originalPrice: 1000, unitCost: 0 },
+        { variantId: 'gid://shopify/ProductVariant/99', title: 'Gone', quantity: 1, unitPrice: 5, originalPrice: 5 },
+      ]);
+
+      expect(custom.originalPrice).toBeUndefined();
+      expect(custom.unitCost).toBeUndefined();
+      expect(deleted.originalPrice).toBeUndefined();
+    });
+
+    it('should skip costs the shop did not grant read_inventory for', async () => {
+      (getShopScopes as jest.Mock).mockResolvedValue(['read_products']);
+
+      await priceLineItemsFromCatalog('test-shop.myshopify.com', [{ variantId, title: 'Widget', quantity: 1, unitPrice: 300 }]);
+
+      const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(body.variables.withCost).toBe(false);
+    });
+
+    it('should not call Shopify for quotes without catalog items', async () => {
+      await priceLineItemsFromCatalog('test-shop.myshopify.com', [{ title: 'Setup fee', quantity: 1, unitPrice: 100 }]);
+
+      expect(getShopAccessToken).not.toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the shop has no access token', async () => {
+      (getShopAccessToken as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        priceLineItemsFromCatalog('test-shop.myshopify.com', [{ variantId, title: 'Widget', quantity: 1, unitPrice: 300 }])
+      ).rejects.toThrow('The app is not installed on test-shop.myshopify.com');
+    });
+  });
+});
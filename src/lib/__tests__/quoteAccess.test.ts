@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Quote Access Tokens
+ * @module lib/__tests__/quoteAccess.test
+ */
+
+import {
+  createQuoteAccessToken,
+  getPublicQuoteUrl,
+  hashAccessToken,
+  resolveQuoteAccessToken,
+  revokeQuoteAccessTokens,
+  toPublicQuote,
+} from '@/lib/quoteAccess';
+import type { QuoteRowWithRelations } from '@/lib/quotes';
+import { mockBuilders, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+const quoteRow = (overrides: Partial<QuoteRowWithRelations> = {}) => ({
+  id: 'quote-1',
+  shop_id: 'test-shop.myshopify.com',
+  quote_number: 'QT-001',
+  customer_email: 'john@example.com',
+  customer_name: 'John Doe',
+  title: 'Widgets',
+  status: 'sent',
+  subtotal: 100,
+  discount_total: 0,
+  tax_total: 0,
+  shipping_total: 0,
+  total: 100,
+  terms: { paymentTerms: 'Net 30', internalNotes: 'Give them 5% if they push back' },
+  metadata: { createdBy: 'user-1', createdByName: 'Alice', source: 'web' },
+  expires_at: new Date(Date.now() + 86400000).toISOString(),
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  line_items: [],
+  ...overrides,
+}) as unknown as QuoteRowWithRelations;
+
+describe('Quote Access Tokens', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('createQuoteAccessToken', () => {
+    it('should store only the hash of an unguessable token', async () => {
+      const token = await createQuoteAccessToken('quote-1', 'user-1');
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(mockBuilders.quote_access_tokens[0].insert).toHaveBeenCalledWith({
+        quote_id: 'quote-1',
+        token_hash: hashAccessToken(token),
+        created_by: 'user-1',
+      });
+      await expect(createQuoteAccessToken('quote-1', 'user-1')).resolves.not.toBe(token);
+    });
+  });
+
+  describe('revokeQuoteAccessTokens', () => {
+    it('should revoke the active links of the quote', async () => {
+      queueResult('quote_access_tokens', { data: [{ id: 'tok-1' }, { id: 'tok-2' }], error: null });
+
+      await expect(revokeQuoteAccessTokens('quote-1')).resolves.toBe(2);
+      expect(mockBuilders.quote_access_tokens[0].eq).toHaveBeenCalledWith('quote_id', 'quote-1');
+      expect(mockBuilders.quote_access_tokens[0].is).toHaveBeenCalledWith('revoked_at', null);
+    });
+  });
+
+  describe('resolveQuoteAccessToken', () => {
+    it('should look the token up by its hash', async () => {
+      queueResult('quote_access_tokens', {
+        data: { id: 'tok-1', quote_id: 'quote-1', revoked_at: null, quote: quoteRow() },
+        error: null,
+      });
+
+      const result = await resolveQuoteAccessToken('secret-token');
+
+      expect(result).toMatchObject({ status: 'valid', tokenId: 'tok-1' });
+      expect(mockBuilders.quote_access_tokens[0].eq).toHaveBeenCalledWith('token_hash', hashAccessToken('secret-token'));
+    });
+
+    it.each([
+      ['an unknown token', null, 'not_found'],
+      ['a draft quote', { id: 'tok-1', revoked_at: null, quote: quoteRow({ status: 'draft' as never }) }, 'not_found'],
+      ['a revoked link', { id: 'tok-1', revoked_at: '2024-01-02T00:00:00Z', quote: quoteRow() }, 'revoked'],
+      ['a quote past expiresAt', { id: 'tok-1', revoked_at: null, quote: quoteRow({ expires_at: '2020-01-01T00:00:00Z' }) }, 'expired'],
+      ['an expired quote', { id: 'tok-1', revoked_at: null, quote: quoteRow({ status: 'expired' as never }) }, 'expired'],
+    ])('should reject %s', async (_label, data, status) => {
+      queueResult('quote_access_tokens', { data, error: null });
+
+      await expect(resolveQuoteAccessToken('secret-token')).resolves.toEqual({ status });
+    });
+  });
+
+  describe('getPublicQuoteUrl', () => {
+    it('should build the link from the app URL', () => {
+      process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com/';
+
+      expect(getPublicQuoteUrl('abc')).toBe('https://app.example.com/q/abc');
+
+      delete process.env.NEXT_PUBLIC_APP_URL;
+    });
+  });
+
+  describe('toPublicQuote', () => {
+    it('should leave out internal notes and metadata', () => {
+      const publicQuote = toPublicQuote(quoteRow({
+        metadata: { createdBy: 'user-1', createdByName: 'Alice', source: 'web', signatureName: 'John Doe' } as never,
+      }));
+
+      expect(publicQuote.terms).not.toHaveProperty('internalNotes');
+      expect(publicQuote).not.toHaveProperty('metadata');
+      expect(publicQuote).not.toHaveProperty('id');
+      expect(publicQuote.signatureName).toBe('John Doe');
+      expect(publicQuote.terms.paymentTerms).toBe('Net 30');
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Unit Tests for Quote Revisions
+ * @module lib/__tests__/quoteRevisions.test
+ */
+
+import { formatQuoteNumber } from '@/lib/quotes';
+import {
+  buildRevisionSnapshot,
+  diffQuoteRevisions,
+  mapRevisionRow,
+  type QuoteRevisionRow,
+} from '@/lib/quoteRevisions';
+import type { QuoteRowWithRelations } from '@/lib/quotes';
+import type { LineItem, QuoteRevision } from '@/types/quote';
+import { QuoteStatus } from '@/types/quote';
+
+function lineItem(overrides: Partial<LineItem>): LineItem {
+  return {
+    id: 'li-1',
+    productId: '',
+    title: 'Widget',
+    sku: '',
+    quantity: 1,
+    unitPrice: 10,
+    discountAmount: 0,
+    taxRate: 0,
+    taxAmount: 0,
+    subtotal: 10,
+    total: 10,
+    ...overrides,
+  };
+}
+
+function revision(overrides: Partial<QuoteRevision>): QuoteRevision {
+  return {
+    quoteId: 'quote-1',
+    revision: 1,
+    isCurrent: false,
+    title: 'Widgets',
+    status: QuoteStatus.SENT,
+    lineItems: [],
+    terms: {
+      paymentTerms: 'Net 30',
+      deliveryTerms: 'FOB',
+      validityPeriod: 30,
+      depositRequired: false,
+      currency: 'USD',
+    },
+    subtotal: 100,
+    discountTotal: 0,
+    taxRate: 0,
+    taxTotal: 0,
+    shippingTotal: 0,
+    total: 100,
+    ...overrides,
+  };
+}
+
+describe('formatQuoteNumber', () => {
+  it('should leave the first version unsuffixed', () => {
+    expect(formatQuoteNumber('Q-1042')).toBe('Q-1042');
+    expect(formatQuoteNumber('Q-1042', 1)).toBe('Q-1042');
+  });
+
+  it('should suffix later revisions', () => {
+    expect(formatQuoteNumber('Q-1042', 2)).toBe('Q-1042 rev 2');
+  });
+});
+
+describe('buildRevisionSnapshot', () => {
+  it('should freeze the quote with its line items in order', () => {
+    const row = {
+      id: 'quote-1',
+      revision: 3,
+      title: 'Widgets',
+      status: QuoteStatus.VIEWED,
+      currency: 'EUR',
+      subtotal: 30,
+      discount_total: 0,
+      tax_rate: 20,
+      tax_total: 6,
+      shipping_total: 0,
+      total: 36,
+      terms: { paymentTerms: 'Net 15' },
+      sent_at: '2024-01-02T00:00:00Z',
+      line_items: [
+        { id: 'b', position: 1, title: 'Second' },
+        { id: 'a', position: 0, title: 'First' },
+      ],
+    } as unknown as QuoteRowWithRelations;
+
+    const snapshot = buildRevisionSnapshot(row, { id: 'user-1', name: 'Jane' });
+
+    expect(snapshot).toMatchObject({
+      quote_id: 'quote-1',
+      revision: 3,
+      status: QuoteStatus.VIEWED,
+      total: 36,
+      terms: { paymentTerms: 'Net 15' },
+      expires_at: null,
+      sent_at: '2024-01-02T00:00:00Z',
+      superseded_by: 'user-1',
+      superseded_by_name: 'Jane',
+    });
+    expect(snapshot.line_items.map((item) => item.id)).toEqual(['a', 'b']);
+  });
+
+  it('should map a stored snapshot back with terms defaults', () => {
+    const mapped = mapRevisionRow({
+      id: 'rev-1',
+      quote_id: 'quote-1',
+      shop_id: 'shop-1',
+      revision: 1,
+      title: 'Widgets',
+      status: QuoteStatus.SENT,
+      line_items: [],
+      terms: {},
+      currency: 'EUR',
+      subtotal: '10.00',
+      discount_total: 0,
+      tax_rate: 0,
+      tax_total: 0,
+      shipping_total: 0,
+      total: '10.00',
+      superseded_at: '2024-01-03T00:00:00Z',
+    } as unknown as QuoteRevisionRow);
+
+    expect(mapped.isCurrent).toBe(false);
+    expect(mapped.total).toBe(10);
+    expect(mapped.terms.currency).toBe('EUR');
+    expect(mapped.supersededAt).toEqual(new Date('2024-01-03T00:00:00Z'));
+  });
+});
+
+describe('diffQuoteRevisions', () => {
+  it('should report added, removed and changed line items', () => {
+    const from = revision({
+      lineItems: [
+        lineItem({ productId: 'p1', title: 'Widget', quantity: 1 }),
+        lineItem({ sku: 'GAD', title: 'Gadget' }),
+        lineItem({ title: 'Setup fee' }),
+      ],
+    });
+    const to = revision({
+      revision: 2,
+      isCurrent: true,
+      lineItems: [
+        lineItem({ productId: 'p1', title: 'Widget', quantity: 3, total: 30 }),
+        lineItem({ title: 'setup fee ' }),
+        lineItem({ title: 'Installation' }),
+      ],
+    });
+
+    const diff = diffQuoteRevisions(from, to);
+
+    expect(diff.lineItems.map((item) => [item.after?.title ?? item.before?.title, item.change])).toEqual([
+      ['Widget', 'changed'],
+      ['setup fee ', 'changed'],
+      ['Installation', 'added'],
+      ['Gadget', 'removed'],
+    ]);
+    expect(diff.lineItems[0].changedFields).toEqual(['quantity', 'total']);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('should match repeated products in order', () => {
+    const items = [
+      lineItem({ productId: 'p1', quantity: 1 }),
+      lineItem({ productId: 'p1', quantity: 5 }),
+    ];
+
+    const diff = diffQuoteRevisions(revision({ lineItems: items }), revision({ lineItems: items.slice(0, 1) }));
+
+    expect(diff.lineItems.map((item) => item.change)).toEqual(['unchanged', 'removed']);
+    expect(diff.lineItems[1].before?.quantity).toBe(5);
+  });
+
+  it('should compare terms and totals', () => {
+    const from = revision({});
+    const to = revision({
+      terms: { ...from.terms, paymentTerms: 'Net 60', notes: '' },
+      shippingTotal: 15,
+      total: 115,
+    });
+
+    const diff = diffQuoteRevisions(from, to);
+
+    expect(diff.terms.filter((term) => term.changed)).toEqual([
+      { field: 'paymentTerms', label: 'Payment terms', before: 'Net 30', after: 'Net 60', changed: true },
+    ]);
+    expect(diff.totals.filter((total) => total.changed).map((total) => total.field)).toEqual([
+      'shippingTotal',
+      'total',
+    ]);
+  });
+
+  it('should find no changes between identical versions', () => {
+    const items = [lineItem({ productId: 'p1' })];
+
+    const diff = diffQuoteRevisions(revision({ lineItems: items }), revision({ revision: 2, lineItems: items }));
+
+    expect(diff.hasChanges).toBe(false);
+  });
+});
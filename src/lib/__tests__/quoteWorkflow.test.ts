@@ -19,9 +19,13 @@ import {
   getStatusColorClass,
   getStatusLabel,
   getStatusDescription,
+  normalizeQuoteStatus,
+  DEFAULT_WORKFLOW,
+  getWorkflowStatus,
   QuoteWorkflow,
 } from '@/lib/quoteWorkflow';
 import { QuoteStatus, ActivityType } from '@/types/quote';
+import type { QuoteWorkflowDefinition } from '@/types/quote';
 
 describe('Quote Workflow State Machine', () => {
   describe('Constants', () => {
@@ -79,6 +83,24 @@ describe('Quote Workflow State Machine', () => {
     });
   });
 
+  describe('normalizeQuoteStatus', () => {
+    test('should pass through workflow statuses', () => {
+      Object.values(QuoteStatus).forEach(status => {
+        expect(normalizeQuoteStatus(status)).toBe(status);
+      });
+    });
+
+    test('should map legacy storefront statuses', () => {
+      expect(normalizeQuoteStatus('quoted')).toBe(QuoteStatus.SENT);
+      expect(normalizeQuoteStatus('declined')).toBe(QuoteStatus.REJECTED);
+      expect(normalizeQuoteStatus('pending')).toBe(QuoteStatus.PENDING);
+    });
+
+    test('should return null for unknown statuses', () => {
+      expect(normalizeQuoteStatus('invalid')).toBeNull();
+    });
+  });
+
   describe('validateTransition', () => {
     test('should return success for valid transitions', () => {
       const result = validateTransition(QuoteStatus.DRAFT, QuoteStatus.SENT);
@@ -93,7 +115,7 @@ describe('Quote Workflow State Machine', () => {
     });
 
     test('should return error for transitioning from final status', () => {
-      const result = validateTransition(QuoteStatus.ACCEPTED, QuoteStatus.SENT);
+      const result = validateTransition(QuoteStatus.CONVERTED, QuoteStatus.SENT);
       expect(result.success).toBe(false);
       expect(result.error).toContain('final status');
     });
@@ -136,8 +158,11 @@ describe('Quote Workflow State Machine', () => {
       expect(actions).toContain('Mark as Declined');
     });
 
+    test('should only allow converting accepted quotes', () => {
+      expect(getAvailableTransitions(QuoteStatus.ACCEPTED).map(t => t.to)).toEqual([QuoteStatus.CONVERTED]);
+    });
+
     test('should return empty array for final statuses', () => {
-      expect(getAvailableTransitions(QuoteStatus.ACCEPTED)).toEqual([]);
       expect(getAvailableTransitions(QuoteStatus.CONVERTED)).toEqual([]);
     });
   });
@@ -147,10 +172,10 @@ describe('Quote Workflow State Machine', () => {
       const nextStatuses = getNextStatuses(QuoteStatus.DRAFT);
       expect(nextStatuses).toContain(QuoteStatus.SENT);
       expect(nextStatuses).toContain(QuoteStatus.PENDING);
+      expect(getNextStatuses(QuoteStatus.ACCEPTED)).toEqual([QuoteStatus.CONVERTED]);
     });
 
     test('should return empty array for final statuses', () => {
-      expect(getNextStatuses(QuoteStatus.ACCEPTED)).toEqual([]);
       expect(getNextStatuses(QuoteStatus.CONVERTED)).toEqual([]);
     });
   });
@@ -239,7 +264,7 @@ describe('Quote Workflow State Machine', () => {
     });
 
     test('isFinalStatus should return correct values', () => {
-      expect(isFinalStatus(QuoteStatus.ACCEPTED)).toBe(true);
+      expect(isFinalStatus(QuoteStatus.ACCEPTED)).toBe(false);
       expect(isFinalStatus(QuoteStatus.REJECTED)).toBe(true);
       expect(isFinalStatus(QuoteStatus.CONVERTED)).toBe(true);
       expect(isFinalStatus(QuoteStatus.DRAFT)).toBe(false);
@@ -349,4 +374,99 @@ describe('Quote Workflow State Machine', () => {
       expect(history[1].comment).toBe('Second comment');
     });
   });
+  describe('Shop Workflows', () => {
+    const workflow: QuoteWorkflowDefinition = {
+      statuses: [
+        ...DEFAULT_WORKFLOW.statuses,
+        {
+          key: 'awaiting_approval',
+          label: 'Awaiting approval',
+          description: 'A manager has to sign off',
+          color: 'bg-amber-500',
+          icon: 'ClockIcon',
+          isFinal: false,
+          canEdit: false,
+          isCustom: true,
+        },
+      ],
+      transitions: [
+        {
+          from: [QuoteStatus.DRAFT],
+          to: 'awaiting_approval',
+          action: 'Request Approval',
+          requiresConfirmation: false,
+          requiresComment: false,
+          allowedRoles: [],
+        },
+        {
+          from: ['awaiting_approval'],
+          to: QuoteStatus.SENT,
+          action: 'Approve and Send',
+          requiresConfirmation: true,
+          requiresComment: false,
+          allowedRoles: ['owner', 'admin'],
+        },
+        {
+          from: ['awaiting_approval'],
+          to: QuoteStatus.DRAFT,
+          action: 'Send Back',
+          requiresConfirmation: false,
+          requiresComment: true,
+          allowedRoles: [],
+        },
+      ],
+      isDefault: false,
+    };
+
+    test('should build the default workflow from the built-in graph', () => {
+      expect(DEFAULT_WORKFLOW.isDefault).toBe(true);
+      expect(DEFAULT_WORKFLOW.transitions).toHaveLength(VALID_TRANSITIONS.length);
+      VALID_TRANSITIONS.forEach(({ from, to }) => {
+        [from].flat().forEach((status) => expect(isValidTransition(status, to, DEFAULT_WORKFLOW)).toBe(true));
+      });
+    });
+
+    test('should follow the shop graph instead of the default one', () => {
+      expect(isValidTransition(QuoteStatus.DRAFT, 'awaiting_approval', workflow)).toBe(true);
+      expect(isValidTransition(QuoteStatus.DRAFT, QuoteStatus.SENT, workflow)).toBe(false);
+      expect(getNextStatuses('awaiting_approval', workflow)).toEqual([QuoteStatus.SENT, QuoteStatus.DRAFT]);
+    });
+
+    test('should describe custom statuses', () => {
+      expect(getWorkflowStatus('awaiting_approval', workflow)?.isCustom).toBe(true);
+      expect(getWorkflowStatus('awaiting_approval')).toBeUndefined();
+      expect(getStatusLabel('awaiting_approval', workflow)).toBe('Awaiting approval');
+      expect(getStatusColorClass('awaiting_approval', workflow)).toBe('bg-amber-500');
+      expect(canEditQuote('awaiting_approval', workflow)).toBe(false);
+      expect(isFinalStatus('awaiting_approval', workflow)).toBe(false);
+    });
+
+    test('should restrict transitions by role', () => {
+      const result = validateTransition('awaiting_approval', QuoteStatus.SENT, { userRole: 'sales', workflow });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('forbidden');
+      expect(validateTransition('awaiting_approval', QuoteStatus.SENT, { userRole: 'admin', workflow }).success).toBe(true);
+    });
+
+    test('should require a comment where the workflow asks for one', () => {
+      const result = validateTransition('awaiting_approval', QuoteStatus.DRAFT, { comment: '  ', workflow });
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe('comment_required');
+      expect(validateTransition('awaiting_approval', QuoteStatus.DRAFT, { comment: 'Too cheap', workflow }).success).toBe(true);
+    });
+
+    test('should only offer the actions a role may take', () => {
+      expect(getQuoteActions('awaiting_approval', workflow, 'sales').map((action) => action.label)).toEqual(['Send Back']);
+      expect(getQuoteActions('awaiting_approval', workflow).map((action) => action.requiresComment)).toEqual([false, true]);
+    });
+
+    test('should run the class against a shop workflow', () => {
+      const quoteWorkflow = new QuoteWorkflow('quote-1', QuoteStatus.DRAFT, [], workflow);
+
+      expect(quoteWorkflow.canTransitionTo('awaiting_approval' as QuoteStatus)).toBe(true);
+      expect(quoteWorkflow.canTransitionTo(QuoteStatus.SENT)).toBe(false);
+    });
+  });
 });
@@ -178,7 +178,7 @@ describe('Shopify Integration', () => {
 
       expect(result).toContain('https://test-shop.myshopify.com/admin/oauth/authorize');
       expect(result).toContain('client_id=test-api-key');
-      expect(result).toContain('scope=read_products,write_products,read_orders,read_customers');
+      expect(result).toContain('scope=read_products,write_products,read_orders,read_customers,write_customers,read_inventory');
       expect(result).toContain('redirect_uri=https://app.quotegen.app/api/auth/callback');
       expect(result).toContain('state=mocked-nonce');
     });
@@ -193,6 +193,8 @@ describe('Shopify Integration', () => {
       expect(result).toContain('write_products');
       expect(result).toContain('read_orders');
       expect(result).toContain('read_customers');
+      expect(result).toContain('write_customers');
+      expect(result).toContain('read_inventory');
     });
 
     it('should generate unique nonce for each call', () => {
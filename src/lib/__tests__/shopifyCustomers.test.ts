@@ -0,0 +1,378 @@
+/**
+ * Unit Tests for Shopify Customer Sync
+ * @module lib/__tests__/shopifyCustomers.test
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  mapShopifyAddress,
+  mapShopifyCustomerPayload,
+  pushCustomerToShopify,
+  resolveShopifyPurchaser,
+  syncShopifyCustomersPage,
+  unlinkShopifyCustomer,
+  upsertShopifyCompanyLocation,
+  upsertShopifyCustomer,
+  type ShopifyCompanyNode,
+  type ShopifyCustomerNode,
+} from '@/lib/shopifyCustomers';
+import { shopifyGraphql } from '@/lib/shopify';
+import { getShopScopes } from '@/lib/shops';
+import { CustomerStatus, type SupabaseCustomer } from '@/types/quote';
+
+jest.mock('@/lib/shopify', () => ({
+  shopifyGraphql: jest.fn(),
+}));
+
+jest.mock('@/lib/shops', () => ({
+  getShopScopes: jest.fn(),
+}));
+
+const mockShopifyGraphql = jest.mocked(shopifyGraphql);
+const mockGetShopScopes = jest.mocked(getShopScopes);
+
+const shop = 'test-shop.myshopify.com';
+
+const shopifyCustomer: ShopifyCustomerNode = {
+  id: 'gid://shopify/Customer/7',
+  email: 'Buyer@Acme.com',
+  firstName: 'Ann',
+  lastName: 'Buyer',
+  phone: '+15550100',
+  tags: ['wholesale'],
+  taxExempt: false,
+  taxExemptions: [],
+  defaultAddress: {
+    address1: '1 Main St',
+    address2: 'Suite 2',
+    city: 'Austin',
+    province: 'Texas',
+    provinceCode: 'TX',
+    zip: '78701',
+    country: 'United States',
+    countryCodeV2: 'US',
+    company: 'Acme Corp',
+  },
+};
+
+const company: ShopifyCompanyNode = {
+  id: 'gid://shopify/Company/1',
+  name: 'Acme Corp',
+  mainContact: { id: 'gid://shopify/CompanyContact/3', customer: shopifyCustomer },
+  locations: {
+    nodes: [{
+      id: 'gid://shopify/CompanyLocation/2',
+      name: 'Austin Warehouse',
+      taxRegistrationId: 'EIN-123',
+      taxExemptions: ['CA_STATUS_CARD_EXEMPTION'],
+      billingAddress: { address1: '9 Depot Rd', city: 'Austin', zoneCode: 'TX', zip: '78702', countryCode: 'US' },
+    }],
+  },
+};
+
+const customerRow: SupabaseCustomer = {
+  id: 'cust-1',
+  shop_id: shop,
+  email: 'buyer@acme.com',
+  company_name: 'Acme Corp',
+  contact_name: 'Ann Buyer',
+  tags: ['vip'],
+  status: CustomerStatus.ACTIVE,
+  customer_since: '2024-01-01T00:00:00Z',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+/**
+ * Client whose table queries resolve with the next queued result for that table
+ */
+function createClient(results: Record<string, Array<{ data: unknown; error: unknown }>> = {}) {
+  const builders: Record<string, any[]> = {};
+  const client = {
+    from: jest.fn((table: string) => {
+      const result = results[table]?.shift() ?? { data: null, error: null };
+      const builder: any = {};
+      ['select', 'insert', 'update', 'eq', 'ilike'].forEach((method) => {
+        builder[method] = jest.fn(() => builder);
+      });
+      builder.single = jest.fn(() => Promise.resolve(result));
+      builder.maybeSingle = jest.fn(() => Promise.resolve(result));
+      builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+      (builders[table] ||= []).push(builder);
+      return builder;
+    }),
+  };
+  return { client: client as unknown as SupabaseClient, builders };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockGetShopScopes.mockResolvedValue(['read_customers', 'write_customers']);
+});
+
+describe('mapShopifyAddress', () => {
+  it('keeps state and country codes and joins the street lines', () => {
+    expect(mapShopifyAddress(shopifyCustomer.defaultAddress)).toEqual({
+      street: '1 Main St, Suite 2',
+      city: 'Austin',
+      state: 'TX',
+      zipCode: '78701',
+      country: 'US',
+    });
+  });
+
+  it('drops addresses without a street, city or country', () => {
+    expect(mapShopifyAddress({ city: 'Austin', countryCode: 'US' })).toBeUndefined();
+    expect(mapShopifyAddress(null)).toBeUndefined();
+  });
+});
+
+describe('mapShopifyCustomerPayload', () => {
+  it('maps a webhook body to the GraphQL shape', () => {
+    expect(mapShopifyCustomerPayload({
+      id: 7,
+      email: 'buyer@acme.com',
+      first_name: 'Ann',
+      last_name: null,
+      tags: 'wholesale, net 30',
+      tax_exempt: true,
+      default_address: { address1: '1 Main St', city: 'Austin', province_code: 'TX', country_code: 'US' },
+    })).toEqual(expect.objectContaining({
+      id: 'gid://shopify/Customer/7',
+      firstName: 'Ann',
+      tags: ['wholesale', 'net 30'],
+      taxExempt: true,
+      defaultAddress: expect.objectContaining({ provinceCode: 'TX', countryCodeV2: 'US' }),
+    }));
+  });
+});
+
+describe('upsertShopifyCustomer', () => {
+  it('creates a linked customer for a new Shopify customer', async () => {
+    const { client, builders } = createClient({
+      customers: [
+        { data: null, error: null },
+        { data: null, error: null },
+        { data: { id: 'cust-2', company_name: 'Acme Corp' }, error: null },
+      ],
+    });
+
+    await expect(upsertShopifyCustomer(client, shop, shopifyCustomer)).resolves.toBe('created');
+
+    expect(builders.customers[1].ilike).toHaveBeenCalledWith('email', 'buyer@acme.com');
+    expect(builders.customers[2].insert).toHaveBeenCalledWith(expect.objectContaining({
+      shop_id: shop,
+      email: 'buyer@acme.com',
+      company_name: 'Acme Corp',
+      contact_name: 'Ann Buyer',
+      tags: ['wholesale'],
+      tax_exempt: false,
+      shipping_address: expect.objectContaining({ state: 'TX' }),
+      shopify_customer_id: 'gid://shopify/Customer/7',
+    }));
+    expect(builders.activities[0].insert).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'customer_added',
+      customer_id: 'cust-2',
+      user_name: 'Shopify',
+    }));
+  });
+
+  it('links an existing customer by email, keeping its company name and tags', async () => {
+    const { client, builders } = createClient({
+      customers: [
+        { data: null, error: null },
+        { data: { ...customerRow, company_name: 'Acme (HQ)' }, error: null },
+        { data: null, error: null },
+      ],
+    });
+
+    await expect(upsertShopifyCustomer(client, shop, shopifyCustomer)).resolves.toBe('updated');
+
+    expect(builders.customers[2].update).toHaveBeenCalledWith(expect.objectContaining({
+      company_name: 'Acme (HQ)',
+      tags: ['vip', 'wholesale'],
+      shopify_customer_id: 'gid://shopify/Customer/7',
+    }));
+    expect(builders.customers[2].eq).toHaveBeenCalledWith('id', 'cust-1');
+  });
+
+  it('only refreshes the contact of a company location', async () => {
+    const { client, builders } = createClient({
+      customers: [
+        { data: { ...customerRow, shopify_customer_id: shopifyCustomer.id, shopify_company_location_id: 'loc' }, error: null },
+        { data: null, error: null },
+      ],
+    });
+
+    await upsertShopifyCustomer(client, shop, { ...shopifyCustomer, taxExempt: true });
+
+    const update = builders.customers[1].update.mock.calls[0][0];
+    expect(update).toEqual(expect.objectContaining({ contact_name: 'Ann Buyer', phone: '+15550100' }));
+    expect(update).not.toHaveProperty('tax_exempt');
+    expect(update).not.toHaveProperty('shipping_address');
+  });
+
+  it('skips Shopify customers without an email', async () => {
+    const { client } = createClient();
+
+    await expect(upsertShopifyCustomer(client, shop, { ...shopifyCustomer, email: null })).resolves.toBe('skipped');
+  });
+});
+
+describe('upsertShopifyCompanyLocation', () => {
+  it('creates a customer per location with its tax status and main contact', async () => {
+    const { client, builders } = createClient({
+      customers: [
+        { data: null, error: null },
+        { data: null, error: null },
+        { data: { id: 'cust-3', company_name: 'Acme Corp (Austin Warehouse)' }, error: null },
+      ],
+    });
+
+    await expect(upsertShopifyCompanyLocation(client, shop, company, company.locations.nodes[0])).resolves.toBe('created');
+
+    expect(builders.customers[2].insert).toHaveBeenCalledWith(expect.objectContaining({
+      email: 'buyer@acme.com',
+      company_name: 'Acme Corp (Austin Warehouse)',
+      contact_name: 'Ann Buyer',
+      tax_id: 'EIN-123',
+      tax_exempt: true,
+      billing_address: { street: '9 Depot Rd', city: 'Austin', state: 'TX', zipCode: '78702', country: 'US' },
+      shipping_address: { street: '9 Depot Rd', city: 'Austin', state: 'TX', zipCode: '78702', country: 'US' },
+      shopify_company_id: 'gid://shopify/Company/1',
+      shopify_company_location_id: 'gid://shopify/CompanyLocation/2',
+      shopify_company_contact_id: 'gid://shopify/CompanyContact/3',
+    }));
+  });
+
+  it('skips a location whose contact already belongs to another location', async () => {
+    const { client } = createClient({
+      customers: [
+        { data: null, error: null },
+        { data: { ...customerRow, shopify_company_location_id: 'gid://shopify/CompanyLocation/9' }, error: null },
+      ],
+    });
+
+    await expect(upsertShopifyCompanyLocation(client, shop, company, company.locations.nodes[0])).resolves.toBe('skipped');
+  });
+});
+
+describe('unlinkShopifyCustomer', () => {
+  it('clears the link and keeps the customer', async () => {
+    const { client, builders } = createClient({ customers: [{ data: customerRow, error: null }] });
+
+    await expect(unlinkShopifyCustomer(client, shop, 'gid://shopify/Customer/7')).resolves.toBe(true);
+
+    expect(builders.customers[1].update).toHaveBeenCalledWith(expect.objectContaining({
+      shopify_customer_id: null,
+      shopify_company_contact_id: null,
+    }));
+  });
+});
+
+describe('syncShopifyCustomersPage', () => {
+  it('counts each outcome and returns the next cursor', async () => {
+    mockShopifyGraphql.mockResolvedValue({
+      customers: {
+        pageInfo: { hasNextPage: true, endCursor: 'cursor-2' },
+        nodes: [shopifyCustomer, { id: 'gid://shopify/Customer/8', email: null }],
+      },
+    });
+    const { client } = createClient({
+      customers: [
+        { data: null, error: null },
+        { data: null, error: null },
+        { data: { id: 'cust-2', company_name: 'Acme Corp' }, error: null },
+      ],
+    });
+
+    await expect(syncShopifyCustomersPage(client, shop, 'shpat_123', 'customers', 'cursor-1')).resolves.toEqual({
+      created: 1,
+      updated: 0,
+      skipped: 1,
+      nextCursor: 'cursor-2',
+    });
+    expect(mockShopifyGraphql).toHaveBeenCalledWith(shop, 'shpat_123', expect.stringContaining('customers(first: 100'), {
+      cursor: 'cursor-1',
+    });
+  });
+});
+
+describe('pushCustomerToShopify', () => {
+  it('sends the contact details and tags of a linked customer', async () => {
+    mockShopifyGraphql.mockResolvedValue({ customerUpdate: { userErrors: [] } });
+
+    await expect(pushCustomerToShopify(shop, 'shpat_123', {
+      ...customerRow,
+      contact_name: 'Ann Marie Buyer',
+      shopify_customer_id: 'gid://shopify/Customer/7',
+    })).resolves.toBe(true);
+
+    expect(mockShopifyGraphql.mock.calls[0][3]).toEqual({
+      input: {
+        id: 'gid://shopify/Customer/7',
+        email: 'buyer@acme.com',
+        firstName: 'Ann',
+        lastName: 'Marie Buyer',
+        phone: null,
+        tags: ['vip'],
+      },
+    });
+  });
+
+  it('does nothing without write_customers', async () => {
+    mockGetShopScopes.mockResolvedValue(['read_customers']);
+
+    await expect(pushCustomerToShopify(shop, 'shpat_123', {
+      ...customerRow,
+      shopify_customer_id: 'gid://shopify/Customer/7',
+    })).resolves.toBe(false);
+    expect(mockShopifyGraphql).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveShopifyPurchaser', () => {
+  it('orders a company location as its company', async () => {
+    const { client } = createClient();
+
+    await expect(resolveShopifyPurchaser(client, shop, 'shpat_123', {
+      ...customerRow,
+      shopify_customer_id: 'gid://shopify/Customer/7',
+      shopify_company_id: 'gid://shopify/Company/1',
+      shopify_company_location_id: 'gid://shopify/CompanyLocation/2',
+      shopify_company_contact_id: 'gid://shopify/CompanyContact/3',
+    })).resolves.toEqual({
+      purchasingCompany: {
+        companyId: 'gid://shopify/Company/1',
+        companyLocationId: 'gid://shopify/CompanyLocation/2',
+        companyContactId: 'gid://shopify/CompanyContact/3',
+      },
+    });
+    expect(mockShopifyGraphql).not.toHaveBeenCalled();
+  });
+
+  it('links an unlinked customer to the Shopify customer with its email', async () => {
+    mockShopifyGraphql.mockResolvedValue({ customers: { nodes: [{ id: 'gid://shopify/Customer/7' }] } });
+    const { client, builders } = createClient();
+
+    await expect(resolveShopifyPurchaser(client, shop, 'shpat_123', customerRow)).resolves.toEqual({
+      customerId: 'gid://shopify/Customer/7',
+    });
+    expect(mockShopifyGraphql.mock.calls[0][3]).toEqual({ query: 'email:"buyer@acme.com"' });
+    expect(builders.customers[0].update).toHaveBeenCalledWith(expect.objectContaining({
+      shopify_customer_id: 'gid://shopify/Customer/7',
+    }));
+  });
+
+  it('creates the Shopify customer when none has the email', async () => {
+    mockShopifyGraphql
+      .mockResolvedValueOnce({ customers: { nodes: [] } })
+      .mockResolvedValueOnce({ customerCreate: { customer: { id: 'gid://shopify/Customer/9' }, userErrors: [] } });
+    const { client } = createClient();
+
+    await expect(resolveShopifyPurchaser(client, shop, 'shpat_123', customerRow)).resolves.toEqual({
+      customerId: 'gid://shopify/Customer/9',
+    });
+    expect(mockShopifyGraphql.mock.calls[1][2]).toContain('customerCreate');
+  });
+});
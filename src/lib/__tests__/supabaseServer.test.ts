@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for Server Supabase Clients
+ * @module lib/__tests__/supabaseServer
+ */
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: jest.fn(() => ({})),
+}));
+
+import { createClient } from '@supabase/supabase-js';
+import { createRequestClient, getServiceClient } from '@/lib/supabaseServer';
+
+describe('supabaseServer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createRequestClient', () => {
+    it('should act as the signed-in user with the anon key', () => {
+      const request = new Request('http://localhost/api/quotes', {
+        headers: { authorization: 'Bearer jwt-123' },
+      });
+
+      createRequestClient(request);
+
+      expect(createClient).toHaveBeenCalledWith(
+        process.env.NEXT_PUBLIC_SUPABASE_URL,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+        expect.objectContaining({
+          global: { headers: { Authorization: 'Bearer jwt-123' } },
+        })
+      );
+    });
+
+    it('should stay anonymous without an access token', () => {
+      createRequestClient(new Request('http://localhost/api/quotes'));
+
+      const options = (createClient as jest.Mock).mock.calls[0][2];
+      expect(options.global).toBeUndefined();
+    });
+
+    it('should create a client per request', () => {
+      const request = new Request('http://localhost/api/quotes');
+
+      createRequestClient(request);
+      createRequestClient(request);
+
+      expect(createClient).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getServiceClient', () => {
+    it('should reuse one service-role client', () => {
+      getServiceClient();
+      getServiceClient();
+
+      expect(createClient).toHaveBeenCalledTimes(1);
+      expect(createClient).toHaveBeenCalledWith(
+        process.env.NEXT_PUBLIC_SUPABASE_URL,
+        process.env.SUPABASE_SERVICE_ROLE_KEY
+      );
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit Tests for Tax
+ * @module lib/__tests__/tax.test
+ */
+
+import {
+  NO_TAX,
+  calculateTax,
+  findTaxRule,
+  formatTaxLineLabel,
+  getQuoteTaxContext,
+  isTaxExempt,
+  mapTaxRuleRow,
+  resolveTaxContext,
+} from '@/lib/tax';
+
+const rules = [
+  { name: 'US', country: 'US', region: '', rate: 5 },
+  { name: 'California', country: 'US', region: 'CA', rate: 8.25 },
+  { name: 'UK VAT', country: 'GB', region: '', rate: 20 },
+];
+
+describe('findTaxRule', () => {
+  it('prefers the rule for the state over the whole country', () => {
+    expect(findTaxRule(rules, { country: 'US', state: 'ca' })?.rate).toBe(8.25);
+    expect(findTaxRule(rules, { country: 'US', state: 'NY' })?.rate).toBe(5);
+  });
+
+  it('matches countries written out in full', () => {
+    expect(findTaxRule(rules, { country: 'United Kingdom', state: '' })?.rate).toBe(20);
+  });
+
+  it('finds nothing without a matching country', () => {
+    expect(findTaxRule(rules, { country: 'FR', state: '' })).toBeNull();
+    expect(findTaxRule(rules, { country: '', state: 'CA' })).toBeNull();
+    expect(findTaxRule(rules, null)).toBeNull();
+  });
+});
+
+describe('isTaxExempt', () => {
+  it('exempts customers with a tax ID', () => {
+    expect(isTaxExempt('GB123456789')).toBe(true);
+    expect(isTaxExempt('  ')).toBe(false);
+    expect(isTaxExempt(undefined)).toBe(false);
+  });
+
+  it('exempts customers marked tax exempt in Shopify', () => {
+    expect(isTaxExempt(undefined, true)).toBe(true);
+    expect(isTaxExempt('', false)).toBe(false);
+  });
+});
+
+describe('resolveTaxContext', () => {
+  it('takes the regional rate, or the fallback where no rule matches', () => {
+    expect(resolveTaxContext({
+      rules,
+      shippingAddress: { country: 'US', state: 'CA' },
+      fallbackRate: 10,
+      pricesIncludeTax: false,
+    })).toEqual({ rate: 8.25, pricesIncludeTax: false, exempt: false });
+
+    expect(resolveTaxContext({
+      rules,
+      shippingAddress: { country: 'DE', state: '' },
+      taxId: 'DE811907980',
+      fallbackRate: 10,
+      pricesIncludeTax: true,
+    })).toEqual({ rate: 10, pricesIncludeTax: true, exempt: true });
+  });
+});
+
+describe('getQuoteTaxContext', () => {
+  it('reads the tax a quote was priced with', () => {
+    expect(getQuoteTaxContext({ taxRate: 20, pricesIncludeTax: true, taxExempt: false }))
+      .toEqual({ rate: 20, pricesIncludeTax: true, exempt: false });
+    expect(getQuoteTaxContext({})).toEqual(NO_TAX);
+  });
+});
+
+describe('calculateTax', () => {
+  it('adds tax on top, each line at its own rate or the quote rate', () => {
+    const result = calculateTax(
+      [{ amount: 100 }, { amount: 200, taxRate: 0 }, { amount: 50, taxRate: 20 }],
+      { ...NO_TAX, rate: 10 }
+    );
+
+    expect(result.lineTaxes).toEqual([10, 0, 10]);
+    expect(result.breakdown).toEqual([
+      { rate: 10, taxableAmount: 100, taxAmount: 10 },
+      { rate: 20, taxableAmount: 50, taxAmount: 10 },
+    ]);
+    expect(result.taxTotal).toBe(20);
+    expect(result.total).toBe(370);
+  });
+
+  it('works tax out of inclusive prices', () => {
+    const result = calculateTax([{ amount: 120 }], { rate: 20, pricesIncludeTax: true, exempt: false });
+
+    expect(result.breakdown).toEqual([{ rate: 20, taxableAmount: 100, taxAmount: 20 }]);
+    expect(result.taxTotal).toBe(20);
+    expect(result.total).toBe(120);
+  });
+
+  it('charges exempt customers no tax', () => {
+    expect(calculateTax([{ amount: 100 }], { rate: 10, pricesIncludeTax: false, exempt: true }))
+      .toEqual({ lineTaxes: [0], breakdown: [], taxTotal: 0, total: 100 });
+
+    // Inclusive prices come down by the tax they contain
+    expect(calculateTax([{ amount: 120 }], { rate: 20, pricesIncludeTax: true, exempt: true }).total).toBe(100);
+  });
+});
+
+describe('formatTaxLineLabel', () => {
+  it('labels the rate and whether it is included', () => {
+    expect(formatTaxLineLabel(8.25)).toBe('Tax 8.25%');
+    expect(formatTaxLineLabel(20, true)).toBe('Includes tax 20%');
+  });
+});
+
+describe('mapTaxRuleRow', () => {
+  it('turns the decimal rate into a number', () => {
+    expect(mapTaxRuleRow({
+      id: 'rule-1',
+      shop_id: 'shop-1',
+      name: 'California',
+      country: 'US',
+      region: 'CA',
+      rate: '8.250',
+      created_at: '2024-02-01T00:00:00Z',
+      updated_at: '2024-02-02T00:00:00Z',
+    })).toEqual({
+      id: 'rule-1',
+      name: 'California',
+      country: 'US',
+      region: 'CA',
+      rate: 8.25,
+      updatedAt: new Date('2024-02-02T00:00:00Z'),
+    });
+  });
+});
@@ -99,6 +99,27 @@ describe('Utility Functions', () => {
       const result = formatCurrency(1000000);
       expect(result).toBe('$1,000,000.00');
     });
+
+    it('should use the decimals of the currency', () => {
+      expect(formatCurrency(1234.5, 'JPY')).toBe('¥1,235');
+    });
+
+    it('should write the amount the way the locale does', () => {
+      expect(formatCurrency(1234.5, 'EUR', { locale: 'de-DE' })).toBe('1.234,50 €');
+    });
+
+    it('should round to whole units when asked', () => {
+      expect(formatCurrency(1499.5, 'USD', { wholeUnits: true })).toBe('$1,500');
+    });
+
+    it('should abbreviate compact amounts', () => {
+      expect(formatCurrency(2500, 'USD', { compact: true })).toBe('$2.5K');
+      expect(formatCurrency(0, 'USD', { compact: true })).toBe('$0');
+    });
+
+    it('should fall back to the code for a malformed currency', () => {
+      expect(formatCurrency(10, 'DOLLARS')).toBe('10.00 DOLLARS');
+    });
   });
 
   describe('formatDate', () => {
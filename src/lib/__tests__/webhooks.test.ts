@@ -0,0 +1,300 @@
+/**
+ * Unit Tests for Shopify Webhook Handlers
+ * @module lib/__tests__/webhooks.test
+ */
+
+import {
+  beginWebhookDelivery,
+  completeWebhookDelivery,
+  DELIVERY_LEASE_MS,
+  handleAppUninstalled,
+  handleOrderCreated,
+  handleProductUpdate,
+} from '@/lib/webhooks';
+import { invalidateProductCache } from '@/lib/products';
+import { QuoteStatus } from '@/types/quote';
+import { mockBuilders, mockRpc, queueResult, resetQueryResults } from '@/test-utils/supabaseMock';
+
+jest.mock('@/lib/products', () => ({
+  invalidateProductCache: jest.fn(),
+}));
+
+jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'));
+
+const SHOP = 'test-shop.myshopify.com';
+
+describe('Shopify Webhook Handlers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetQueryResults();
+  });
+
+  describe('beginWebhookDelivery', () => {
+    it('should record new deliveries', async () => {
+      await expect(beginWebhookDelivery('wh-1', SHOP, 'orders/create')).resolves.toBe('new');
+      expect(mockBuilders.webhook_deliveries[0].insert).toHaveBeenCalledWith({
+        webhook_id: 'wh-1',
+        shop_id: SHOP,
+        topic: 'orders/create',
+        status: 'processing',
+      });
+    });
+
+    it('should report processed deliveries as duplicates', async () => {
+      queueResult('webhook_deliveries', { data: null, error: { code: '23505', message: 'duplicate key' } });
+      queueResult('webhook_deliveries', { data: { status: 'processed' }, error: null });
+
+      await expect(beginWebhookDelivery('wh-1', SHOP, 'orders/create')).resolves.toBe('duplicate');
+      expect(mockBuilders.webhook_deliveries).toHaveLength(2);
+    });
+
+    it('should retry deliveries that previously failed', async () => {
+      queueResult('webhook_deliveries', { data: null, error: { code: '23505', message: 'duplicate key' } });
+      queueResult('webhook_deliveries', { data: { status: 'failed', updated_at: '2024-03-01T10:00:00Z' }, error: null });
+      queueResult('webhook_deliveries', { data: { webhook_id: 'wh-1' }, error: null });
+
+      await expect(beginWebhookDelivery('wh-1', SHOP, 'orders/create')).resolves.toBe('retry');
+      expect(mockBuilders.webhook_deliveries[2].update).toHaveBeenCalledWith({ status: 'processing', error: null });
+      expect(mockBuilders.webhook_deliveries[2].eq).toHaveBeenCalledWith('updated_at', '2024-03-01T10:00:00Z');
+    });
+
+    it('should leave a delivery another request is still processing', async () => {
+      queueResult('webhook_deliveries', { data: null, error: { code: '23505', message: 'duplicate key' } });
+      queueResult('webhook_deliveries', {
+        data: { status: 'processing', updated_at: new Date(Date.now() - 60 * 1000).toISOString() },
+        error: null,
+      });
+
+      await expect(beginWebhookDelivery('wh-1', SHOP, 'orders/create')).resolves.toBe('duplicate');
+      expect(mockBuilders.webhook_deliveries).toHaveLength(2);
+    });
+
+    it('should retry a delivery whose request stopped processing it', async () => {
+      const updatedAt = new Date(Date.now() - DELIVERY_LEASE_MS - 1000).toISOString();
+      queueResult('webhook_deliveries', { data: null, error: { code: '23505', message: 'duplicate key' } });
+      queueResult('webhook_deliveries', { data: { status: 'processing', updated_at: updatedAt }, error: null });
+      queueResult('webhook_deliveries', { data: { webhook_id: 'wh-1' }, error: null });
+
+      await expect(beginWebhookDelivery('wh-1', SHOP, 'orders/create')).resolves.toBe('retry');
+      expect(mockBuilders.webhook_deliveries[2].eq).toHaveBeenCalledWith('updated_at', updatedAt);
+    });
+
+    it('should not retry a delivery another redelivery took over first', async () => {
+      queueResult('webhook_deliveries', { data: null, error: { code: '23505', message: 'duplicate key' } });
+      queueResult('webhook_deliveries', { data: { status: 'failed', updated_at: '2024-03-01T10:00:00Z' }, error: null });
+      queueResult('webhook_deliveries', { data: null, error: null });
+
+      await expect(beginWebhookDelivery('wh-1', SHOP, 'orders/create')).resolves.toBe('duplicate');
+    });
+  });
+
+  describe('completeWebhookDelivery', () => {
+    it('should record the failure message', async () => {
+      await completeWebhookDelivery('wh-1', new Error('boom'));
+
+      expect(mockBuilders.webhook_deliveries[0].update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', error: 'boom' })
+      );
+    });
+  });
+
+  describe('handleAppUninstalled', () => {
+    it('should revoke the token and schedule cleanup', async () => {
+      await handleAppUninstalled(SHOP);
+
+      const update = mockBuilders.shops[0].update.mock.calls[0][0];
+      expect(update.access_token_encrypted).toBeNull();
+      expect(update.uninstalled_at).toBeDefined();
+      expect(new Date(update.cleanup_scheduled_at).getTime()).toBeGreaterThan(Date.now());
+      expect(mockBuilders.shops[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(invalidateProductCache).toHaveBeenCalledWith(SHOP);
+    });
+  });
+
+  describe('handleProductUpdate', () => {
+    const product = {
+      id: 1,
+      admin_graphql_api_id: 'gid://shopify/Product/1',
+      title: 'Widget',
+      handle: 'widget',
+      variants: [{ id: 11, title: 'Default', sku: 'W-1', price: '120.00' }],
+    };
+
+    it('should store the product snapshot and flag drifted quotes', async () => {
+      queueResult('quote_line_items', {
+        data: [
+          { id: 'li-1', quote_id: 'quote-1', variant_id: 'gid://shopify/ProductVariant/11', unit_price: 100, original_price: 100 },
+          { id: 'li-2', quote_id: 'quote-2', variant_id: 'gid://shopify/ProductVariant/11', unit_price: 110, original_price: 120 },
+        ],
+        error: null,
+      });
+
+      await expect(handleProductUpdate(SHOP, product)).resolves.toBe(1);
+
+      expect(mockBuilders.shopify_products[0].upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          shop_id: SHOP,
+          product_id: 'gid://shopify/Product/1',
+          variants: [expect.objectContaining({ id: 'gid://shopify/ProductVariant/11', price: 120 })],
+        }),
+        { onConflict: 'shop_id,product_id' }
+      );
+      expect(invalidateProductCache).toHaveBeenCalledWith(SHOP);
+
+      // Only the item quoted from the old catalog price is flagged
+      expect(mockBuilders.quote_line_items[1].update).toHaveBeenCalledWith({ catalog_price: 120 });
+      expect(mockBuilders.quote_line_items[1].eq).toHaveBeenCalledWith('id', 'li-1');
+      expect(mockBuilders.quote_line_items).toHaveLength(2);
+      expect(mockBuilders.quotes[0].in).toHaveBeenCalledWith('id', ['quote-1']);
+    });
+
+    it('should clear the flag when the price returns to the quoted price', async () => {
+      queueResult('quote_line_items', {
+        data: [{
+          id: 'li-1',
+          quote_id: 'quote-1',
+          variant_id: 'gid://shopify/ProductVariant/11',
+          unit_price: 120,
+          original_price: 120,
+          catalog_price: 100,
+        }],
+        error: null,
+      });
+
+      await expect(handleProductUpdate(SHOP, product)).resolves.toBe(0);
+      expect(mockBuilders.quote_line_items[1].update).toHaveBeenCalledWith({ catalog_price: null });
+      expect(mockBuilders.quotes).toBeUndefined();
+    });
+  });
+
+  describe('handleOrderCreated', () => {
+    const acceptedQuote = {
+      id: 'quote-1',
+      quote_number: 'QT-0001',
+      status: QuoteStatus.ACCEPTED,
+      customer_id: 'cust-1',
+      customer_name: 'John Doe',
+      shopify_draft_order_id: 'gid://shopify/DraftOrder/501',
+      line_items: [{ variant_id: 'gid://shopify/ProductVariant/11' }],
+    };
+
+    it('should convert the quote referenced by the order', async () => {
+      queueResult('quotes', { data: acceptedQuote, error: null });
+      mockRpc.mockResolvedValueOnce({ data: { id: 'quote-1', status: QuoteStatus.CONVERTED }, error: null });
+
+      const convertedId = await handleOrderCreated(SHOP, {
+        id: 1001,
+        name: '#1001',
+        note_attributes: [{ name: 'quote_id', value: 'quote-1' }],
+        draft_order_id: 501,
+      });
+
+      expect(convertedId).toBe('quote-1');
+      expect(mockBuilders.quotes[0].eq).toHaveBeenCalledWith('id', 'quote-1');
+      expect(mockRpc).toHaveBeenCalledWith('transition_quote_status', expect.objectContaining({
+        p_quote_id: 'quote-1',
+        p_from_status: QuoteStatus.ACCEPTED,
+        p_to_status: QuoteStatus.CONVERTED,
+        p_activity_type: 'quote_converted',
+        p_changes: { shopify_order_id: 'gid://shopify/Order/1001' },
+      }));
+    });
+
+    it('should match by customer email when every quoted variant was ordered', async () => {
+      queueResult('quotes', {
+        data: [
+          { ...acceptedQuote, id: 'quote-2', line_items: [{ variant_id: 'gid://shopify/ProductVariant/99' }] },
+          acceptedQuote,
+        ],
+        error: null,
+      });
+      mockRpc.mockResolvedValueOnce({ data: { id: 'quote-1', status: QuoteStatus.CONVERTED }, error: null });
+
+      const convertedId = await handleOrderCreated(SHOP, {
+        id: 1001,
+        email: 'john@example.com',
+        line_items: [{ variant_id: 11 }],
+      });
+
+      expect(convertedId).toBe('quote-1');
+      expect(mockBuilders.quotes[0].ilike).toHaveBeenCalledWith('customer_email', 'john@example.com');
+    });
+
+    it('should take the quote an order names when it has every quoted variant', async () => {
+      queueResult('quotes', { data: { ...acceptedQuote, shopify_draft_order_id: null }, error: null });
+      mockRpc.mockResolvedValueOnce({ data: { id: 'quote-1', status: QuoteStatus.CONVERTED }, error: null });
+
+      const convertedId = await handleOrderCreated(SHOP, {
+        id: 1001,
+        note_attributes: [{ name: 'quote_number', value: 'QT-0001' }],
+        line_items: [{ variant_id: 11 }, { variant_id: 12 }],
+      });
+
+      expect(convertedId).toBe('quote-1');
+    });
+
+    it('should ignore a quote an unrelated order names', async () => {
+      queueResult('quotes', { data: acceptedQuote, error: null });
+
+      const convertedId = await handleOrderCreated(SHOP, {
+        id: 1001,
+        note_attributes: [{ name: 'quote_id', value: 'quote-1' }],
+        draft_order_id: 777,
+        line_items: [{ variant_id: 99 }],
+      });
+
+      expect(convertedId).toBeNull();
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should ignore quotes that are not accepted', async () => {
+      queueResult('quotes', { data: { ...acceptedQuote, status: QuoteStatus.CONVERTED }, error: null });
+
+      const convertedId = await handleOrderCreated(SHOP, {
+        id: 1001,
+        note_attributes: [{ name: 'quote_number', value: 'QT-0001' }],
+        draft_order_id: 501,
+      });
+
+      expect(convertedId).toBeNull();
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should leave the quote when the shop workflow does not convert accepted quotes', async () => {
+      queueResult('quotes', { data: acceptedQuote, error: null });
+      queueResult('quote_workflows', {
+        data: {
+          shop_id: SHOP,
+          statuses: [],
+          transitions: [{ from: ['sent'], to: 'accepted', action: 'Accept' }],
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        },
+        error: null,
+      });
+
+      const convertedId = await handleOrderCreated(SHOP, {
+        id: 1001,
+        note_attributes: [{ name: 'quote_id', value: 'quote-1' }],
+        draft_order_id: 501,
+      });
+
+      expect(convertedId).toBeNull();
+      expect(mockBuilders.quote_workflows[0].eq).toHaveBeenCalledWith('shop_id', SHOP);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('should skip a quote another delivery converted first', async () => {
+      queueResult('quotes', { data: acceptedQuote, error: null });
+      mockRpc.mockResolvedValueOnce({ data: null, error: { code: 'PT409', message: 'Quote quote-1 is no longer accepted' } });
+
+      const convertedId = await handleOrderCreated(SHOP, {
+        id: 1001,
+        note_attributes: [{ name: 'quote_id', value: 'quote-1' }],
+        draft_order_id: 501,
+      });
+
+      expect(convertedId).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit Tests for Shop Quote Workflows
+ * @module lib/__tests__/workflows.test
+ */
+
+import { DEFAULT_WORKFLOW, getQuoteActions, isValidTransition } from '@/lib/quoteWorkflow';
+import {
+  findWorkflowErrors,
+  mapWorkflowRow,
+  toWorkflowInput,
+  type QuoteWorkflowInput,
+  type QuoteWorkflowRow,
+} from '@/lib/workflows';
+import { QuoteStatus } from '@/types/quote';
+
+const negotiating = {
+  key: 'negotiating',
+  label: 'Negotiating',
+  description: 'Terms are being worked out with the customer',
+  color: 'bg-purple-500',
+  icon: 'EyeIcon',
+  isFinal: false,
+  canEdit: true,
+};
+
+function workflowInput(overrides: Partial<QuoteWorkflowInput> = {}): QuoteWorkflowInput {
+  return {
+    statuses: [negotiating],
+    transitions: [
+      ...toWorkflowInput(DEFAULT_WORKFLOW).transitions,
+      {
+        from: [QuoteStatus.VIEWED],
+        to: 'negotiating',
+        action: 'Start Negotiating',
+        requiresConfirmation: false,
+        requiresComment: true,
+        allowedRoles: [],
+      },
+      {
+        from: ['negotiating'],
+        to: QuoteStatus.SENT,
+        action: 'Send Revised Terms',
+        requiresConfirmation: false,
+        requiresComment: false,
+        allowedRoles: ['owner', 'admin'],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('mapWorkflowRow', () => {
+  it('should return the default workflow without a row', () => {
+    expect(mapWorkflowRow(null)).toBe(DEFAULT_WORKFLOW);
+  });
+
+  it('should add custom statuses to the built-in ones and fill transition defaults', () => {
+    const row: QuoteWorkflowRow = {
+      shop_id: 'shop-1',
+      statuses: [negotiating],
+      transitions: [{ from: [QuoteStatus.VIEWED], to: 'negotiating', action: 'Start Negotiating' }],
+      created_at: '2024-02-01T00:00:00Z',
+      updated_at: '2024-02-02T00:00:00Z',
+    };
+
+    const workflow = mapWorkflowRow(row);
+
+    expect(workflow.isDefault).toBe(false);
+    expect(workflow.updatedAt).toEqual(new Date('2024-02-02T00:00:00Z'));
+    expect(workflow.statuses).toHaveLength(DEFAULT_WORKFLOW.statuses.length + 1);
+    expect(workflow.statuses.find((status) => status.key === 'negotiating')).toEqual({ ...negotiating, isCustom: true });
+    expect(workflow.transitions).toEqual([{
+      from: [QuoteStatus.VIEWED],
+      to: 'negotiating',
+      action: 'Start Negotiating',
+      requiresConfirmation: false,
+      confirmationMessage: undefined,
+      requiresComment: false,
+      allowedRoles: [],
+    }]);
+  });
+
+  it('should drive the workflow helpers', () => {
+    const workflow = mapWorkflowRow({
+      shop_id: 'shop-1',
+      statuses: [negotiating],
+      transitions: workflowInput().transitions,
+      created_at: '2024-02-01T00:00:00Z',
+      updated_at: '2024-02-01T00:00:00Z',
+    });
+
+    expect(isValidTransition(QuoteStatus.VIEWED, 'negotiating', workflow)).toBe(true);
+    expect(isValidTransition(QuoteStatus.VIEWED, 'negotiating')).toBe(false);
+    expect(getQuoteActions('negotiating', workflow, 'sales')).toEqual([]);
+    expect(getQuoteActions('negotiating', workflow, 'admin').map((action) => action.status)).toEqual([QuoteStatus.SENT]);
+  });
+});
+
+describe('toWorkflowInput', () => {
+  it('should keep only custom statuses', () => {
+    const workflow = mapWorkflowRow({
+      shop_id: 'shop-1',
+      statuses: [negotiating],
+      transitions: workflowInput().transitions,
+      created_at: '2024-02-01T00:00:00Z',
+      updated_at: '2024-02-01T00:00:00Z',
+    });
+
+    expect(toWorkflowInput(workflow).statuses).toEqual([negotiating]);
+    expect(toWorkflowInput(DEFAULT_WORKFLOW).statuses).toEqual([]);
+  });
+});
+
+describe('findWorkflowErrors', () => {
+  it('should accept a consistent workflow', () => {
+    expect(findWorkflowErrors(workflowInput())).toEqual([]);
+    expect(findWorkflowErrors(toWorkflowInput(DEFAULT_WORKFLOW))).toEqual([]);
+  });
+
+  it('should reject malformed, built-in and repeated keys', () => {
+    const errors = findWorkflowErrors(workflowInput({
+      statuses: [negotiating, negotiating, { ...negotiating, key: 'Sent Back' }, { ...negotiating, key: 'sent' }],
+    }));
+
+    expect(errors).toEqual(expect.arrayContaining([
+      'Status "negotiating" is defined twice',
+      'Status "Sent Back" must be lowercase letters, digits and underscores',
+      'Status "sent" is built in and cannot be redefined',
+    ]));
+  });
+
+  it('should reject colors and icons the UI cannot draw', () => {
+    const errors = findWorkflowErrors(workflowInput({
+      statuses: [{ ...negotiating, color: 'bg-pink-300', icon: 'RocketIcon' }],
+    }));
+
+    expect(errors).toEqual([
+      'Status "negotiating" has an unknown color "bg-pink-300"',
+      'Status "negotiating" has an unknown icon "RocketIcon"',
+    ]);
+  });
+
+  it('should reject transitions between unknown statuses', () => {
+    const input = workflowInput();
+    input.transitions.push({
+      from: ['on_hold'],
+      to: QuoteStatus.SENT,
+      action: 'Resume',
+      requiresConfirmation: false,
+      requiresComment: false,
+      allowedRoles: [],
+    });
+
+    expect(findWorkflowErrors(input)).toEqual(['Transition "Resume" uses unknown status "on_hold"']);
+  });
+
+  it('should reject custom statuses nothing leads to', () => {
+    const errors = findWorkflowErrors(workflowInput({
+      transitions: toWorkflowInput(DEFAULT_WORKFLOW).transitions,
+    }));
+
+    expect(errors).toEqual(['No transition leads to status "negotiating"']);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for the XLSX Reader
+ * @module lib/__tests__/xlsx.test
+ */
+
+import { deflateRawSync } from 'zlib';
+import { readXlsxRows } from '@/lib/xlsx';
+
+/**
+ * A zip archive of the given files, deflated
+ */
+function createZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const data = deflateRawSync(Buffer.from(content, 'utf8'));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const workbook = {
+  'xl/workbook.xml': '<workbook><sheets><sheet name="Customers" sheetId="1" r:id="rId2"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<Relationships><Relationship Id="rId1" Target="styles.xml"/><Relationship Id="rId2" Target="worksheets/customers.xml"/></Relationships>',
+  'xl/sharedStrings.xml':
+    '<sst><si><t>Email</t></si><si><t>Company</t></si><si><r><t>Acme </t></r><r><t>&amp; Co</t></r></si></sst>',
+};
+
+describe('readXlsxRows', () => {
+  it('reads the first sheet with shared, inline, number and boolean cells', () => {
+    const sheet = '<worksheet><sheetData>'
+      + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>'
+      + '<row r="2"><c r="A2" t="inlineStr"><is><t>buyer@acme.com</t></is></c><c r="B2" t="s"><v>2</v></c>'
+      + '<c r="D2"><v>42.5</v></c><c r="E2" t="b"><v>1</v></c></row>'
+      + '<row r="4"><c r="B4" t="str"><f>A1</f><v>Email</v></c></row>'
+      + '</sheetData></worksheet>';
+
+    expect(readXlsxRows(createZip({ ...workbook, 'xl/worksheets/customers.xml': sheet }))).toEqual([
+      ['Email', 'Company'],
+      ['buyer@acme.com', 'Acme & Co', '', '42.5', 'TRUE'],
+      [],
+      ['', 'Email'],
+    ]);
+  });
+
+  it('rejects cells past the last row or column it reads', () => {
+    const sheetWith = (row: string) => createZip({
+      ...workbook,
+      'xl/worksheets/customers.xml': `<worksheet><sheetData>${row}</sheetData></worksheet>`,
+    });
+
+    expect(() => readXlsxRows(sheetWith('<row r="1"><c r="XFD1"><v>1</v></c></row>')))
+      .toThrow('The sheet has more than 256 columns');
+    expect(() => readXlsxRows(sheetWith('<row r="1048576"><c r="A1048576"><v>1</v></c></row>')))
+      .toThrow('The sheet has more than 10000 rows');
+    expect(readXlsxRows(sheetWith('<row r="2"><c r="IV2"><v>1</v></c></row>'))[1]).toHaveLength(256);
+  });
+
+  it('rejects files that are not workbooks', () => {
+    expect(() => readXlsxRows(Buffer.from('Email,Company\n'))).toThrow('The file is not an XLSX workbook');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Discount Approvals
+ * Checks a quote against the shop's approval thresholds before it is sent.
+ * Free of server imports so the wizard can show the same reasons the API
+ * will hold the quote back for.
+ * @module lib/approvals
+ */
+
+import type { ApprovalThresholds, LineItemInput } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ApprovalReasonCode = 'line_discount' | 'total_discount' | 'margin';
+
+/**
+ * One threshold a quote is past
+ */
+export interface ApprovalReason {
+  code: ApprovalReasonCode;
+  message: string;
+  /** The shop's threshold, in percent */
+  limit: number;
+  /** The quote's value, in percent (rounded to two decimals) */
+  actual: number;
+  /** Name of the line item, for line discounts */
+  lineItem?: string;
+}
+
+export interface ApprovalCheck {
+  required: boolean;
+  reasons: ApprovalReason[];
+}
+
+/** What is recorded in quote_status_history.metadata.approval */
+export interface ApprovalMetadata {
+  reasons?: ApprovalReason[];
+  decision?: 'approved' | 'rejected';
+  decidedBy?: string;
+  decidedByName?: string;
+}
+
+export interface ApprovalQuote {
+  lineItems: LineItemInput[];
+  discountTotal?: number;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function round(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+/**
+ * Whether the shop has set any threshold at all
+ */
+export function hasApprovalThresholds(thresholds: ApprovalThresholds): boolean {
+  return thresholds.maxLineDiscount != null
+    || thresholds.maxTotalDiscount != null
+    || thresholds.minMargin != null;
+}
+
+/**
+ * Check a quote against the shop's thresholds.
+ *
+ * Discounts are measured from the item's catalog price, which the server
+ * stamps on line items when they are saved, so lowering the unit price
+ * counts the same as a discount_percent. Margin is
+ * taken over the items with a known cost, after their share of the
+ * quote-level discount; without any cost it is not checked.
+ */
+export function evaluateQuoteApproval(
+  { lineItems, discountTotal = 0 }: ApprovalQuote,
+  thresholds: ApprovalThresholds
+): ApprovalCheck {
+  const reasons: ApprovalReason[] = [];
+  let listTotal = 0;
+  let netTotal = 0;
+
+  for (const item of lineItems) {
+    const listPrice = Math.max(item.unit_price, item.original_price ?? 0);
+    const list = item.quantity * listPrice;
+    const net = item.quantity * item.unit_price * (1 - (item.discount_percent || 0) / 100);
+    listTotal += list;
+    netTotal += net;
+
+    const lineDiscount = list > 0 ? round((1 - net / list) * 100) : 0;
+    if (thresholds.maxLineDiscount != null && lineDiscount > thresholds.maxLineDiscount) {
+      reasons.push({
+        code: 'line_discount',
+        message: `${item.name || 'A line item'} is discounted ${lineDiscount}% (limit ${thresholds.maxLineDiscount}%)`,
+        limit: thresholds.maxLineDiscount,
+        actual: lineDiscount,
+        lineItem: item.name,
+      });
+    }
+  }
+
+  const quoteDiscount = Math.min(Math.max(discountTotal, 0), netTotal);
+
+  if (thresholds.maxTotalDiscount != null && listTotal > 0) {
+    const totalDiscount = round((1 - (netTotal - quoteDiscount) / listTotal) * 100);
+    if (totalDiscount > thresholds.maxTotalDiscount) {
+      reasons.push({
+        code: 'total_discount',
+        message: `The quote is ${totalDiscount}% below list price (limit ${thresholds.maxTotalDiscount}%)`,
+        limit: thresholds.maxTotalDiscount,
+        actual: totalDiscount,
+      });
+    }
+  }
+
+  if (thresholds.minMargin != null && netTotal > 0) {
+    // The quote-level discount comes off every item in proportion to its net amount
+    const keep = 1 - quoteDiscount / netTotal;
+    let revenue = 0;
+    let cost = 0;
+
+    for (const item of lineItems) {
+      if (item.unit_cost == null) continue;
+      revenue += item.quantity * item.unit_price * (1 - (item.discount_percent || 0) / 100) * keep;
+      cost += item.quantity * item.unit_cost;
+    }
+
+    if (cost > 0) {
+      const margin = revenue > 0 ? round((revenue - cost) / revenue * 100) : -100;
+      if (margin < thresholds.minMargin) {
+        reasons.push({
+          code: 'margin',
+          message: `Margin is ${margin}% (minimum ${thresholds.minMargin}%)`,
+          limit: thresholds.minMargin,
+          actual: margin,
+        });
+      }
+    }
+  }
+
+  return { required: reasons.length > 0, reasons };
+}
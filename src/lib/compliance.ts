@@ -0,0 +1,614 @@
+/**
+ * GDPR Compliance Handlers
+ * Shopify's mandatory customers/data_request, customers/redact and
+ * shop/redact webhooks, each tracked in the compliance_requests log
+ * @module lib/compliance
+ */
+
+import { FIRST_DATA_ROW } from '@/lib/customerImport';
+import { invalidateProductCache } from '@/lib/products';
+// Compliance jobs touch every shop's data, so they run with the service role
+import { getServiceClient } from '@/lib/supabaseServer';
+import type { SupabaseCustomer } from '@/types';
+import { escapeLikePattern } from '@/lib/utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ComplianceTopic = 'customers/data_request' | 'customers/redact' | 'shop/redact';
+
+export interface CustomerCompliancePayload {
+  shop_id: number;
+  shop_domain: string;
+  customer: {
+    id: number;
+    email: string;
+    phone?: string | null;
+  };
+  orders_requested?: number[];
+  orders_to_redact?: number[];
+  data_request?: { id: number };
+}
+
+export interface CustomerDataExport {
+  customer: { shopifyCustomerId: string; email: string };
+  generatedAt: string;
+  customers: unknown[];
+  quotes: unknown[];
+  statusHistory: unknown[];
+  activities: unknown[];
+  reminders: unknown[];
+  contacts: unknown[];
+  emails: unknown[];
+  emailEvents: unknown[];
+  /** Import file rows containing the email, by their row number in the file */
+  importRows: Array<{ importId: string; fileName: string; row: number; cells: string[] }>;
+  /** Merge records holding a snapshot of the customer */
+  merges: unknown[];
+}
+
+interface ComplianceResult {
+  rowsAffected: number;
+  export?: CustomerDataExport;
+}
+
+interface CustomerRecords {
+  customerIds: string[];
+  quoteIds: string[];
+  customers: unknown[];
+  quotes: unknown[];
+}
+
+interface EmailLogMatch {
+  id: string;
+  to_address: string;
+  cc_addresses: string[] | null;
+}
+
+interface ContactMatch {
+  id: string;
+}
+
+interface ImportMatch {
+  id: string;
+  file_name: string;
+  rows: string[][];
+  /** Indexes into rows of the rows containing the email */
+  matches: number[];
+}
+
+interface MergeMatch {
+  id: string;
+  survivor_id: string;
+  survivor_before: SupabaseCustomer;
+  merged_customers: SupabaseCustomer[];
+}
+
+const ids = (rows: unknown[] | null) => ((rows || []) as Array<{ id: string }>).map((row) => row.id);
+
+/** Rows from several lookups, each row once */
+const uniqueRows = <T extends { id: string }>(...lists: Array<T[] | null>): T[] =>
+  [...new Map(lists.flatMap((list) => list || []).map((row) => [row.id, row])).values()];
+
+const sameEmail = (value: unknown, email: string) =>
+  typeof value === 'string' && value.trim().toLowerCase() === email.trim().toLowerCase();
+
+/** Placeholder that keeps the NOT NULL / unique email constraints satisfied */
+const redactedEmail = (id: string) => `redacted-${id}@redacted.invalid`;
+
+/** Customer columns holding personal data, anonymized */
+const redactedCustomer = (id: string) => ({
+  email: redactedEmail(id),
+  company_name: 'Redacted',
+  contact_name: 'Redacted',
+  phone: null,
+  billing_address: null,
+  shipping_address: null,
+  tax_id: null,
+  notes: null,
+  logo_url: null,
+  tags: [],
+});
+
+// ============================================================================
+// Compliance Log
+// ============================================================================
+
+/**
+ * Open a compliance log entry
+ * @returns The compliance request id
+ */
+export async function createComplianceRequest(
+  shop: string,
+  topic: ComplianceTopic,
+  payload: Partial<CustomerCompliancePayload>
+): Promise<string> {
+  const { data, error } = await getServiceClient().from('compliance_requests')
+    .insert({
+      shop_id: shop,
+      topic,
+      shopify_customer_id: payload.customer?.id != null ? String(payload.customer.id) : null,
+      customer_email: payload.customer?.email ?? null,
+      data_request_id: payload.data_request?.id != null ? String(payload.data_request.id) : null,
+      status: 'processing',
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to log compliance request: ${error.message}`);
+  }
+
+  return (data as { id: string }).id;
+}
+
+/**
+ * Close a compliance log entry as completed, or failed with the error message
+ */
+export async function completeComplianceRequest(
+  requestId: string,
+  result: ComplianceResult | { error: unknown }
+): Promise<void> {
+  const update = 'error' in result
+    ? {
+        status: 'failed',
+        error: result.error instanceof Error ? result.error.message : String(result.error),
+      }
+    : {
+        status: 'completed',
+        rows_affected: result.rowsAffected,
+        export: result.export ?? null,
+      };
+
+  await getServiceClient().from('compliance_requests')
+    .update({ ...update, completed_at: new Date().toISOString() })
+    .eq('id', requestId);
+}
+
+/**
+ * Log, run and close a compliance job. Failures are recorded and rethrown
+ * so the webhook responds with an error and Shopify retries.
+ */
+export async function runComplianceRequest(
+  shop: string,
+  topic: ComplianceTopic,
+  payload: Partial<CustomerCompliancePayload>
+): Promise<ComplianceResult> {
+  const requestId = await createComplianceRequest(shop, topic, payload);
+
+  try {
+    let result: ComplianceResult;
+    switch (topic) {
+      case 'customers/data_request':
+        result = await exportCustomerData(shop, payload as CustomerCompliancePayload);
+        break;
+      case 'customers/redact':
+        result = await redactCustomer(shop, payload as CustomerCompliancePayload);
+        break;
+      case 'shop/redact':
+        result = await redactShop(shop);
+        break;
+    }
+
+    await completeComplianceRequest(requestId, result);
+    return result;
+  } catch (error) {
+    await completeComplianceRequest(requestId, { error });
+    throw error;
+  }
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Every customer and quote row of a shop tied to an email address
+ */
+async function findCustomerRecords(shop: string, email: string): Promise<CustomerRecords> {
+  const client = getServiceClient();
+  const pattern = escapeLikePattern(email);
+
+  const { data: customers, error: customerError } = await client
+    .from('customers')
+    .select('*')
+    .eq('shop_id', shop)
+    .ilike('email', pattern);
+
+  if (customerError) {
+    throw new Error(`Failed to load customers: ${customerError.message}`);
+  }
+
+  const { data: quotes, error: quoteError } = await client
+    .from('quotes')
+    .select('*, line_items:quote_line_items(*)')
+    .eq('shop_id', shop)
+    .ilike('customer_email', pattern);
+
+  if (quoteError) {
+    throw new Error(`Failed to load quotes: ${quoteError.message}`);
+  }
+
+  return {
+    customerIds: ids(customers),
+    quoteIds: ids(quotes),
+    customers: customers || [],
+    quotes: quotes || [],
+  };
+}
+
+/**
+ * Activity rows referencing any of the given quotes or customers
+ */
+async function findActivities(quoteIds: string[], customerIds: string[]): Promise<unknown[]> {
+  const filters = [
+    quoteIds.length > 0 ? `quote_id.in.(${quoteIds.join(',')})` : null,
+    customerIds.length > 0 ? `customer_id.in.(${customerIds.join(',')})` : null,
+  ].filter(Boolean);
+
+  if (filters.length === 0) return [];
+
+  const { data, error } = await getServiceClient()
+    .from('activities')
+    .select('*')
+    .or(filters.join(','));
+
+  if (error) {
+    throw new Error(`Failed to load activities: ${error.message}`);
+  }
+  return data || [];
+}
+
+async function findQuoteRows(table: 'quote_status_history' | 'quote_reminders', quoteIds: string[]) {
+  if (quoteIds.length === 0) return [];
+
+  const { data, error } = await getServiceClient()
+    .from(table)
+    .select('*')
+    .in('quote_id', quoteIds);
+
+  if (error) {
+    throw new Error(`Failed to load ${table}: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * Emails sent to an address, directly or on copy, with their delivery events
+ */
+async function findEmails(shop: string, email: string): Promise<{ logs: EmailLogMatch[]; events: unknown[] }> {
+  const client = getServiceClient();
+
+  const [direct, copied] = await Promise.all([
+    client.from('email_log').select('*').eq('shop_id', shop).ilike('to_address', escapeLikePattern(email)),
+    client.from('email_log').select('*').eq('shop_id', shop).contains('cc_addresses', [email]),
+  ]);
+
+  const lookupError = direct.error || copied.error;
+  if (lookupError) {
+    throw new Error(`Failed to load email_log: ${lookupError.message}`);
+  }
+
+  const logs = uniqueRows<EmailLogMatch>(direct.data, copied.data);
+  if (logs.length === 0) return { logs, events: [] };
+
+  const { data: events, error } = await client
+    .from('email_events')
+    .select('*')
+    .in('email_log_id', ids(logs));
+
+  if (error) {
+    throw new Error(`Failed to load email_events: ${error.message}`);
+  }
+  return { logs, events: events || [] };
+}
+
+/**
+ * Contacts with the email, and every contact of the matched customers
+ */
+async function findContacts(shop: string, email: string, customerIds: string[]): Promise<ContactMatch[]> {
+  const client = getServiceClient();
+
+  const [byEmail, byCustomer] = await Promise.all([
+    client.from('customer_contacts').select('*').eq('shop_id', shop).ilike('email', escapeLikePattern(email)),
+    customerIds.length > 0
+      ? client.from('customer_contacts').select('*').eq('shop_id', shop).in('customer_id', customerIds)
+      : { data: [], error: null },
+  ]);
+
+  const lookupError = byEmail.error || byCustomer.error;
+  if (lookupError) {
+    throw new Error(`Failed to load customer_contacts: ${lookupError.message}`);
+  }
+  return uniqueRows<ContactMatch>(byEmail.data, byCustomer.data);
+}
+
+/**
+ * Import files with a row containing the email. Rows are kept as uploaded,
+ * so the match is on cell text rather than the mapped email column.
+ */
+async function findImports(shop: string, email: string): Promise<ImportMatch[]> {
+  const { data, error } = await getServiceClient()
+    .from('customer_imports')
+    .select('id, file_name, rows')
+    .eq('shop_id', shop);
+
+  if (error) {
+    throw new Error(`Failed to load customer_imports: ${error.message}`);
+  }
+
+  return ((data || []) as Array<Omit<ImportMatch, 'matches'>>)
+    .map((job) => ({
+      ...job,
+      matches: job.rows.flatMap((cells, index) => (cells.some((cell) => sameEmail(cell, email)) ? [index] : [])),
+    }))
+    .filter((job) => job.matches.length > 0);
+}
+
+/**
+ * Merges whose undo snapshots hold the customer: as the survivor, or as a
+ * duplicate that was deleted and so no longer matches in customers
+ */
+async function findMerges(shop: string, email: string, customerIds: string[]): Promise<MergeMatch[]> {
+  const { data, error } = await getServiceClient()
+    .from('customer_merges')
+    .select('id, survivor_id, survivor_before, merged_customers')
+    .eq('shop_id', shop);
+
+  if (error) {
+    throw new Error(`Failed to load customer_merges: ${error.message}`);
+  }
+
+  return ((data || []) as MergeMatch[]).filter((merge) =>
+    customerIds.includes(merge.survivor_id)
+    || sameEmail(merge.survivor_before?.email, email)
+    || (merge.merged_customers || []).some((customer) => sameEmail(customer.email, email))
+  );
+}
+
+// ============================================================================
+// customers/data_request
+// ============================================================================
+
+/**
+ * Gather everything stored about a customer into a JSON export
+ */
+export async function exportCustomerData(
+  shop: string,
+  payload: CustomerCompliancePayload
+): Promise<ComplianceResult> {
+  const { email } = payload.customer;
+  const records = await findCustomerRecords(shop, email);
+  const [statusHistory, reminders, activities, contacts, emails, imports, merges] = await Promise.all([
+    findQuoteRows('quote_status_history', records.quoteIds),
+    findQuoteRows('quote_reminders', records.quoteIds),
+    findActivities(records.quoteIds, records.customerIds),
+    findContacts(shop, email, records.customerIds),
+    findEmails(shop, email),
+    findImports(shop, email),
+    findMerges(shop, email, records.customerIds),
+  ]);
+
+  const importRows = imports.flatMap((job) => job.matches.map((index) => ({
+    importId: job.id,
+    fileName: job.file_name,
+    row: index + FIRST_DATA_ROW,
+    cells: job.rows[index],
+  })));
+
+  const data: CustomerDataExport = {
+    customer: { shopifyCustomerId: String(payload.customer.id), email: payload.customer.email },
+    generatedAt: new Date().toISOString(),
+    customers: records.customers,
+    quotes: records.quotes,
+    statusHistory,
+    activities,
+    reminders,
+    contacts,
+    emails: emails.logs,
+    emailEvents: emails.events,
+    importRows,
+    merges,
+  };
+
+  return {
+    rowsAffected: data.customers.length + data.quotes.length + statusHistory.length
+      + activities.length + reminders.length + contacts.length + emails.logs.length
+      + emails.events.length + importRows.length + merges.length,
+    export: data,
+  };
+}
+
+// ============================================================================
+// customers/redact
+// ============================================================================
+
+/**
+ * Anonymize a customer's personal data. Quotes keep their numbers and totals
+ * for the merchant's records; reminder rows are deleted outright. Merge
+ * snapshots are anonymized too, so undoing a merge cannot restore the data.
+ */
+export async function redactCustomer(
+  shop: string,
+  payload: CustomerCompliancePayload
+): Promise<ComplianceResult> {
+  const client = getServiceClient();
+  const { email } = payload.customer;
+  const { customerIds, quoteIds } = await findCustomerRecords(shop, email);
+  const placeholder = redactedEmail(String(payload.customer.id));
+  let rowsAffected = 0;
+
+  const check = (table: string, error: { message: string } | null) => {
+    if (error) throw new Error(`Failed to redact ${table}: ${error.message}`);
+  };
+
+  for (const customerId of customerIds) {
+    const { error } = await client.from('customers')
+      .update(redactedCustomer(customerId))
+      .eq('id', customerId);
+    check('customers', error);
+    rowsAffected += 1;
+  }
+
+  if (quoteIds.length > 0) {
+    const { error: quoteError } = await client.from('quotes')
+      .update({
+        customer_email: placeholder,
+        customer_name: null,
+        customer_phone: null,
+        message: null,
+        rejection_reason: null,
+      })
+      .in('id', quoteIds);
+    check('quotes', quoteError);
+
+    const { error: historyError } = await client.from('quote_status_history')
+      .update({ comment: null, metadata: {} })
+      .in('quote_id', quoteIds);
+    check('quote_status_history', historyError);
+
+    const { error: reminderError } = await client
+      .from('quote_reminders')
+      .delete()
+      .in('quote_id', quoteIds);
+    check('quote_reminders', reminderError);
+
+    rowsAffected += quoteIds.length;
+  }
+
+  const activityIds = ids(await findActivities(quoteIds, customerIds));
+  if (activityIds.length > 0) {
+    const { error } = await client.from('activities')
+      .update({ customer_name: null, metadata: {} })
+      .in('id', activityIds);
+    check('activities', error);
+    rowsAffected += activityIds.length;
+  }
+
+  const [contacts, emails, imports, merges] = await Promise.all([
+    findContacts(shop, email, customerIds),
+    findEmails(shop, email),
+    findImports(shop, email),
+    findMerges(shop, email, customerIds),
+  ]);
+
+  for (const contact of contacts) {
+    const { error } = await client
+      .from('customer_contacts')
+      .update({ name: 'Redacted', email: redactedEmail(contact.id), phone: null, title: null })
+      .eq('id', contact.id);
+    check('customer_contacts', error);
+    rowsAffected += 1;
+  }
+
+  for (const log of emails.logs) {
+    const { error } = await client
+      .from('email_log')
+      .update({
+        to_address: sameEmail(log.to_address, email) ? placeholder : log.to_address,
+        cc_addresses: (log.cc_addresses || []).map((address) => (sameEmail(address, email) ? placeholder : address)),
+      })
+      .eq('id', log.id);
+    check('email_log', error);
+    rowsAffected += 1;
+  }
+
+  // Provider payloads repeat the recipient address
+  if (emails.events.length > 0) {
+    const { error } = await client
+      .from('email_events')
+      .update({ payload: {} })
+      .in('email_log_id', ids(emails.logs));
+    check('email_events', error);
+    rowsAffected += emails.events.length;
+  }
+
+  // Blank the cells rather than drop the rows, so row numbers in the error report still line up
+  for (const job of imports) {
+    const { error } = await client
+      .from('customer_imports')
+      .update({ rows: job.rows.map((cells, index) => (job.matches.includes(index) ? cells.map(() => '') : cells)) })
+      .eq('id', job.id);
+    check('customer_imports', error);
+    rowsAffected += job.matches.length;
+  }
+
+  for (const merge of merges) {
+    const redactSnapshot = (customer: SupabaseCustomer) => ({ ...customer, ...redactedCustomer(customer.id) });
+    const { error } = await client
+      .from('customer_merges')
+      .update({
+        survivor_before: customerIds.includes(merge.survivor_id) || sameEmail(merge.survivor_before?.email, email)
+          ? redactSnapshot(merge.survivor_before)
+          : merge.survivor_before,
+        merged_customers: (merge.merged_customers || []).map((customer) =>
+          sameEmail(customer.email, email) ? redactSnapshot(customer) : customer
+        ),
+      })
+      .eq('id', merge.id);
+    check('customer_merges', error);
+    rowsAffected += 1;
+  }
+
+  return { rowsAffected };
+}
+
+// ============================================================================
+// shop/redact
+// ============================================================================
+
+/**
+ * Tables cleared on shop/redact. Line items, revisions, status history and
+ * reminders go with their quotes, and email events with their email log rows
+ * (ON DELETE CASCADE). The email log is listed explicitly: its quote_id is
+ * ON DELETE SET NULL, so it would otherwise outlive the quotes.
+ */
+const SHOP_TABLES = [
+  'activities',
+  'email_log',
+  'quotes',
+  'customer_merges',
+  'customer_contacts',
+  'customer_imports',
+  'customers',
+  'quote_templates',
+  'quote_workflows',
+  'tax_rules',
+  'exchange_rates',
+  'shop_settings',
+  'merchant_settings',
+  'shopify_products',
+  'webhook_deliveries',
+  'shop_members',
+  'shops',
+];
+
+/**
+ * Delete everything stored for a shop, 48 hours after it uninstalled the app.
+ */
+export async function redactShop(shop: string): Promise<ComplianceResult> {
+  const client = getServiceClient();
+  let rowsAffected = 0;
+
+  for (const table of SHOP_TABLES) {
+    const { error, count } = await client
+      .from(table)
+      .delete({ count: 'exact' })
+      .eq('shop_id', shop);
+
+    if (error) {
+      throw new Error(`Failed to delete ${table}: ${error.message}`);
+    }
+    rowsAffected += count ?? 0;
+  }
+
+  // Earlier data request exports hold customer data too; the log entries themselves stay
+  await client.from('compliance_requests')
+    .update({ export: null, customer_email: null })
+    .eq('shop_id', shop);
+
+  invalidateProductCache(shop);
+
+  return { rowsAffected };
+}
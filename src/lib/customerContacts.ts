@@ -0,0 +1,167 @@
+/**
+ * Customer Contacts
+ * The people at a customer account, their roles and communication
+ * preferences, and who quote emails are copied to
+ * @module lib/customerContacts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import type { CustomerContact, CustomerContactRole } from '@/types/quote';
+
+export const CUSTOMER_CONTACT_ROLES = ['purchasing', 'finance', 'approver'] as const satisfies readonly CustomerContactRole[];
+
+export const CUSTOMER_CONTACT_ROLE_LABELS: Record<CustomerContactRole, string> = {
+  purchasing: 'Purchasing',
+  finance: 'Finance',
+  approver: 'Approver',
+};
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+/**
+ * A contact as added from the customer page; fields left out take the
+ * table's defaults
+ */
+export const customerContactSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  phone: z.string().trim().max(50).optional(),
+  title: z.string().trim().max(200).optional(),
+  roles: z.array(z.enum(CUSTOMER_CONTACT_ROLES))
+    .transform((roles) => [...new Set(roles)])
+    .optional(),
+  isPrimary: z.boolean().optional(),
+  notifyQuotes: z.boolean().optional(),
+  preferredChannel: z.enum(['email', 'phone']).optional(),
+});
+
+export const customerContactUpdateSchema = customerContactSchema.partial();
+
+export type CustomerContactInput = z.infer<typeof customerContactSchema>;
+
+// ============================================================================
+// Rows
+// ============================================================================
+
+/**
+ * customer_contacts row
+ */
+export interface CustomerContactRow {
+  id: string;
+  shop_id: string;
+  customer_id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  title: string | null;
+  roles: CustomerContactRole[];
+  is_primary: boolean;
+  notify_quotes: boolean;
+  preferred_channel: 'email' | 'phone';
+  created_at: string;
+  updated_at: string;
+}
+
+export function mapCustomerContactRow(row: CustomerContactRow): CustomerContact {
+  return {
+    id: row.id,
+    customerId: row.customer_id,
+    name: row.name,
+    email: row.email,
+    phone: row.phone ?? undefined,
+    title: row.title ?? undefined,
+    roles: row.roles ?? [],
+    isPrimary: row.is_primary,
+    notifyQuotes: row.notify_quotes,
+    preferredChannel: row.preferred_channel,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * The columns a create or update sets; fields not in the input are left
+ * out, and empty phone numbers and titles are cleared
+ */
+export function toCustomerContactColumns(input: Partial<CustomerContactInput>): Partial<CustomerContactRow> {
+  const columns: Partial<CustomerContactRow> = {};
+
+  if (input.name !== undefined) columns.name = input.name;
+  if (input.email !== undefined) columns.email = input.email;
+  if (input.phone !== undefined) columns.phone = input.phone || null;
+  if (input.title !== undefined) columns.title = input.title || null;
+  if (input.roles !== undefined) columns.roles = input.roles;
+  if (input.isPrimary !== undefined) columns.is_primary = input.isPrimary;
+  if (input.notifyQuotes !== undefined) columns.notify_quotes = input.notifyQuotes;
+  if (input.preferredChannel !== undefined) columns.preferred_channel = input.preferredChannel;
+
+  return columns;
+}
+
+/**
+ * The primary contact first, then by name
+ */
+export function sortCustomerContacts(contacts: CustomerContact[]): CustomerContact[] {
+  return [...contacts].sort((a, b) =>
+    Number(b.isPrimary) - Number(a.isPrimary) || a.name.localeCompare(b.name)
+  );
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * A customer's contacts, the primary contact first
+ */
+export async function listCustomerContacts(
+  client: SupabaseClient,
+  customerId: string
+): Promise<CustomerContact[]> {
+  const { data, error } = await client
+    .from('customer_contacts')
+    .select('*')
+    .eq('customer_id', customerId);
+
+  if (error) {
+    throw new Error(`Failed to load customer contacts: ${error.message}`);
+  }
+
+  return sortCustomerContacts(((data ?? []) as CustomerContactRow[]).map(mapCustomerContactRow));
+}
+
+/**
+ * Who a quote email to the customer is copied to: their finance contacts
+ * who get quote emails, other than the recipient. A lookup that fails sends
+ * the email without copies rather than not at all.
+ */
+export async function getQuoteCcAddresses(
+  client: SupabaseClient,
+  quote: { customer_id?: string | null; customer_email?: string | null }
+): Promise<string[]> {
+  if (!quote.customer_id) {
+    return [];
+  }
+
+  const { data, error } = await client
+    .from('customer_contacts')
+    .select('email')
+    .eq('customer_id', quote.customer_id)
+    .eq('notify_quotes', true)
+    .contains('roles', ['finance']);
+
+  if (error) {
+    console.error('Error loading quote CC contacts:', error);
+    return [];
+  }
+
+  const recipient = quote.customer_email?.toLowerCase();
+  const addresses = ((data ?? []) as Array<{ email: string }>)
+    .map((contact) => contact.email.toLowerCase())
+    .filter((email) => email !== recipient);
+
+  return [...new Set(addresses)];
+}
@@ -0,0 +1,719 @@
+/**
+ * Customer Import
+ * Turning the rows of an uploaded spreadsheet into customers: suggesting
+ * which column holds which field, validating each row against the customer
+ * schema, matching rows to customers that already exist, and importing a
+ * customer_imports job batch by batch. Reading XLSX files lives in lib/xlsx,
+ * which is server only; everything here is safe to use in the browser.
+ * @module lib/customerImport
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { customerSchema, type CustomerSchemaInput } from '@/lib/customers';
+import { ActivityType, CustomerStatus } from '@/types/quote';
+import type {
+  CustomerAddress,
+  CustomerImport,
+  CustomerImportDuplicate,
+  CustomerImportDuplicateAction,
+  CustomerImportField,
+  CustomerImportMapping,
+  CustomerImportPreview,
+  CustomerImportRowError,
+  CustomerImportStatus,
+  SupabaseCustomer,
+} from '@/types/quote';
+
+/** Largest file accepted, in data rows */
+export const MAX_IMPORT_ROWS = 5000;
+
+/** Rows imported, and progress saved, at a time */
+export const IMPORT_BATCH_SIZE = 100;
+
+/**
+ * A processing import that has saved no progress for this long has stopped
+ * (its server process ended part way), and running it again picks it up
+ */
+export const IMPORT_STALL_MS = 60_000;
+
+/** Row errors returned with a preview; the error report has all of them */
+const MAX_PREVIEW_ERRORS = 100;
+const SAMPLE_ROW_COUNT = 5;
+
+/** File row of the first data row: rows count from 1 and the header comes first */
+export const FIRST_DATA_ROW = 2;
+
+// ============================================================================
+// Fields
+// ============================================================================
+
+const ADDRESS_PARTS: Array<{ part: keyof CustomerAddress; label: string; aliases: string[] }> = [
+  { part: 'street', label: 'Street', aliases: ['street', 'address', 'address 1', 'address line 1', 'street address'] },
+  { part: 'city', label: 'City', aliases: ['city', 'town'] },
+  { part: 'state', label: 'State', aliases: ['state', 'province', 'region', 'county'] },
+  { part: 'zipCode', label: 'ZIP code', aliases: ['zip', 'zip code', 'postal code', 'postcode'] },
+  { part: 'country', label: 'Country', aliases: ['country', 'country code'] },
+];
+
+const ADDRESS_PREFIXES = {
+  billingAddress: ['billing', 'bill to', 'bill'],
+  shippingAddress: ['shipping', 'ship to', 'ship', 'delivery'],
+} as const;
+
+/**
+ * Fields a column can be mapped to, with the header names each is suggested for
+ */
+export const CUSTOMER_IMPORT_FIELDS: Array<{
+  field: CustomerImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}> = [
+  { field: 'email', label: 'Email', required: true, aliases: ['email', 'email address', 'e mail', 'contact email'] },
+  { field: 'companyName', label: 'Company name', required: true, aliases: ['company', 'company name', 'business', 'business name', 'organization', 'organisation', 'account name'] },
+  { field: 'contactName', label: 'Contact name', required: true, aliases: ['contact', 'contact name', 'name', 'full name', 'contact person'] },
+  { field: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'telephone', 'tel', 'mobile'] },
+  { field: 'taxId', label: 'Tax ID', aliases: ['tax id', 'vat', 'vat number', 'tax number', 'ein', 'abn'] },
+  { field: 'tags', label: 'Tags', aliases: ['tags', 'tag', 'labels'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments'] },
+  { field: 'logoUrl', label: 'Logo URL', aliases: ['logo', 'logo url'] },
+  ...(['billingAddress', 'shippingAddress'] as const).flatMap((address) =>
+    ADDRESS_PARTS.map(({ part, label, aliases }) => ({
+      field: `${address}.${part}` as CustomerImportField,
+      label: `${address === 'billingAddress' ? 'Billing' : 'Shipping'} ${label.toLowerCase()}`,
+      aliases: [
+        ...ADDRESS_PREFIXES[address].flatMap((prefix) => aliases.map((alias) => `${prefix} ${alias}`)),
+        // Unprefixed address columns are taken as the billing address
+        ...(address === 'billingAddress' ? aliases : []),
+      ],
+    }))
+  ),
+];
+
+/**
+ * A header lower-cased, with punctuation and runs of spaces made single spaces
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * A mapping for the file's columns from their header names. Each field takes
+ * the first column whose header it knows, and a column maps to one field.
+ */
+export function suggestCustomerImportMapping(headers: string[]): CustomerImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CustomerImportMapping = {};
+  const taken = new Set<number>();
+
+  for (const { field, aliases } of CUSTOMER_IMPORT_FIELDS) {
+    const column = normalized.findIndex((header, index) => !taken.has(index) && aliases.includes(header));
+    if (column >= 0) {
+      mapping[field] = column;
+      taken.add(column);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Required fields the mapping leaves without a column
+ */
+export function getMissingImportFields(mapping: CustomerImportMapping): CustomerImportField[] {
+  return CUSTOMER_IMPORT_FIELDS
+    .filter(({ field, required }) => required && mapping[field] === undefined)
+    .map(({ field }) => field);
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Rows of a CSV file. Fields may be quoted, with "" for a quote inside them
+ * and line breaks kept; the delimiter is whichever of comma, semicolon or
+ * tab the first line uses most.
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.slice(0, text.search(/\r?\n|$/)).replace(/"[^"]*"/g, '');
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * A cell for a CSV file. Cells that a spreadsheet would read as a formula
+ * are prefixed with an apostrophe, since the values came from an upload.
+ */
+function toCsvCell(value: string | number): string {
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ============================================================================
+// Rows
+// ============================================================================
+
+function isBlankRow(cells: string[]): boolean {
+  return cells.every((cell) => (cell ?? '').trim() === '');
+}
+
+function readCell(cells: string[], column: number | undefined): string {
+  return column === undefined ? '' : (cells[column] ?? '').trim();
+}
+
+/**
+ * The mapped cells of a row, by field; unmapped and empty cells are left out
+ */
+function readMappedCells(
+  cells: string[],
+  mapping: CustomerImportMapping
+): Partial<Record<CustomerImportField, string>> {
+  const values: Partial<Record<CustomerImportField, string>> = {};
+  for (const [field, column] of Object.entries(mapping) as Array<[CustomerImportField, number]>) {
+    const value = readCell(cells, column);
+    if (value) values[field] = value;
+  }
+  return values;
+}
+
+/**
+ * Customer input for a row, before validation. An address is only given
+ * when the row fills in any part of it; tags are split on , ; or |.
+ */
+export function buildCustomerImportInput(
+  cells: string[],
+  mapping: CustomerImportMapping
+): Record<string, unknown> {
+  const values = readMappedCells(cells, mapping);
+  const input: Record<string, unknown> = {
+    email: values.email ?? '',
+    companyName: values.companyName ?? '',
+    contactName: values.contactName ?? '',
+    tags: (values.tags ?? '').split(/[,;|]/).map((tag) => tag.trim()).filter(Boolean),
+  };
+
+  for (const field of ['phone', 'taxId', 'notes', 'logoUrl'] as const) {
+    if (values[field]) input[field] = values[field];
+  }
+
+  for (const address of ['billingAddress', 'shippingAddress'] as const) {
+    const parts = ADDRESS_PARTS.map(({ part }) => [part, values[`${address}.${part}`] ?? ''] as const);
+    if (parts.some(([, value]) => value)) {
+      input[address] = Object.fromEntries(parts);
+    }
+  }
+
+  return input;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * A company name as duplicates are matched on; find_matching_customers
+ * compares names the same way
+ */
+export function normalizeCompanyName(companyName: string): string {
+  return companyName.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+type PlannedRow =
+  | { row: number; kind: 'blank' }
+  | { row: number; kind: 'invalid'; errors: CustomerImportRowError[] }
+  | { row: number; kind: 'valid'; input: CustomerSchemaInput };
+
+/**
+ * Validate rows[from, to). A row repeating the email or company name of an
+ * earlier row in the file is an error, so the file cannot create the same
+ * customer twice.
+ */
+function planRows(rows: string[][], mapping: CustomerImportMapping, from: number, to: number): PlannedRow[] {
+  const firstEmailRow = new Map<string, number>();
+  const firstCompanyRow = new Map<string, number>();
+  rows.slice(0, to).forEach((cells, index) => {
+    const email = normalizeEmail(readCell(cells, mapping.email));
+    const company = normalizeCompanyName(readCell(cells, mapping.companyName));
+    if (email && !firstEmailRow.has(email)) firstEmailRow.set(email, index + FIRST_DATA_ROW);
+    if (company && !firstCompanyRow.has(company)) firstCompanyRow.set(company, index + FIRST_DATA_ROW);
+  });
+
+  return rows.slice(from, to).map((cells, offset): PlannedRow => {
+    const row = from + offset + FIRST_DATA_ROW;
+    if (isBlankRow(cells)) {
+      return { row, kind: 'blank' };
+    }
+
+    const result = customerSchema.safeParse(buildCustomerImportInput(cells, mapping));
+    if (!result.success) {
+      return {
+        row,
+        kind: 'invalid',
+        errors: result.error.issues.map((issue) => ({
+          row,
+          field: issue.path.join('.'),
+          message: issue.message,
+        })),
+      };
+    }
+
+    const emailRow = firstEmailRow.get(normalizeEmail(result.data.email));
+    if (emailRow !== undefined && emailRow !== row) {
+      return { row, kind: 'invalid', errors: [{ row, field: 'email', message: `Same email as row ${emailRow}` }] };
+    }
+    const companyRow = firstCompanyRow.get(normalizeCompanyName(result.data.companyName));
+    if (companyRow !== undefined && companyRow !== row) {
+      return {
+        row,
+        kind: 'invalid',
+        errors: [{ row, field: 'companyName', message: `Same company name as row ${companyRow}` }],
+      };
+    }
+
+    return { row, kind: 'valid', input: result.data };
+  });
+}
+
+// ============================================================================
+// Duplicates
+// ============================================================================
+
+/**
+ * Existing customers sharing an email or company name with any of the inputs
+ */
+export async function findMatchingCustomers(
+  client: SupabaseClient,
+  inputs: CustomerSchemaInput[]
+): Promise<SupabaseCustomer[]> {
+  if (inputs.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await client.rpc('find_matching_customers', {
+    p_emails: [...new Set(inputs.map((input) => normalizeEmail(input.email)))],
+    p_company_names: [...new Set(inputs.map((input) => normalizeCompanyName(input.companyName)))],
+  });
+
+  if (error) {
+    throw new Error(`Failed to look up existing customers: ${error.message}`);
+  }
+
+  return (data ?? []) as SupabaseCustomer[];
+}
+
+/**
+ * The existing customer a row duplicates, preferring a match on email
+ */
+function matchCustomer(
+  input: CustomerSchemaInput,
+  customers: SupabaseCustomer[]
+): { customer: SupabaseCustomer; matchedOn: CustomerImportDuplicate['matchedOn'] } | null {
+  const email = normalizeEmail(input.email);
+  const byEmail = customers.find((customer) => normalizeEmail(customer.email) === email);
+  if (byEmail) {
+    return { customer: byEmail, matchedOn: 'email' };
+  }
+
+  const company = normalizeCompanyName(input.companyName);
+  const byCompany = customers.find((customer) => normalizeCompanyName(customer.company_name) === company);
+  return byCompany ? { customer: byCompany, matchedOn: 'companyName' } : null;
+}
+
+function duplicateActionFor(job: Pick<CustomerImportRow, 'duplicate_action' | 'row_actions'>, row: number) {
+  return job.row_actions[String(row)] ?? job.duplicate_action;
+}
+
+/**
+ * customers columns for an imported row; fields the row leaves empty are
+ * left out so they never clear a value
+ */
+function toCustomerColumns(input: CustomerSchemaInput): Partial<SupabaseCustomer> {
+  const columns: Partial<SupabaseCustomer> = {
+    email: input.email,
+    company_name: input.companyName,
+    contact_name: input.contactName,
+  };
+  if (input.phone) columns.phone = input.phone;
+  if (input.billingAddress) columns.billing_address = input.billingAddress;
+  if (input.shippingAddress) columns.shipping_address = input.shippingAddress;
+  if (input.taxId) columns.tax_id = input.taxId;
+  if (input.tags.length > 0) columns.tags = input.tags;
+  if (input.notes) columns.notes = input.notes;
+  if (input.logoUrl) columns.logo_url = input.logoUrl;
+  return columns;
+}
+
+/**
+ * The changes a duplicate row makes to its customer. Merging fills in the
+ * fields the customer is missing and adds the row's tags to its own;
+ * overwriting replaces every field the row gives. Empty when nothing changes.
+ */
+export function buildCustomerImportUpdate(
+  customer: SupabaseCustomer,
+  input: CustomerSchemaInput,
+  action: Exclude<CustomerImportDuplicateAction, 'skip'>
+): Partial<SupabaseCustomer> {
+  const update: Record<string, unknown> = {};
+
+  for (const [column, value] of Object.entries(toCustomerColumns(input))) {
+    const current = customer[column as keyof SupabaseCustomer];
+    let next: unknown = value;
+
+    if (action === 'merge') {
+      if (column === 'tags') {
+        next = [...new Set([...(customer.tags ?? []), ...input.tags])];
+      } else if (current !== undefined && current !== null && current !== '') {
+        continue;
+      }
+    }
+
+    if (JSON.stringify(next) !== JSON.stringify(current)) {
+      update[column] = next;
+    }
+  }
+
+  return update as Partial<SupabaseCustomer>;
+}
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+/**
+ * customer_imports row
+ */
+export interface CustomerImportRow {
+  id: string;
+  shop_id: string;
+  file_name: string;
+  status: CustomerImportStatus;
+  headers: string[];
+  rows: string[][];
+  mapping: CustomerImportMapping;
+  duplicate_action: CustomerImportDuplicateAction;
+  row_actions: Record<string, CustomerImportDuplicateAction>;
+  total_rows: number;
+  next_row: number;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  error_count: number;
+  errors: CustomerImportRowError[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * customer_imports columns without the file's rows and errors, which can be large
+ */
+export const CUSTOMER_IMPORT_SUMMARY_COLUMNS = [
+  'id', 'shop_id', 'file_name', 'status', 'headers', 'mapping', 'duplicate_action', 'row_actions',
+  'total_rows', 'next_row', 'created_count', 'updated_count', 'skipped_count', 'error_count',
+  'created_by', 'created_at', 'updated_at', 'completed_at',
+].join(', ');
+
+export function mapCustomerImportRow(row: Omit<CustomerImportRow, 'rows' | 'errors'>): CustomerImport {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    status: row.status,
+    headers: row.headers,
+    mapping: row.mapping,
+    duplicateAction: row.duplicate_action,
+    rowActions: row.row_actions ?? {},
+    totalRows: row.total_rows,
+    nextRow: row.next_row,
+    createdCount: row.created_count,
+    updatedCount: row.updated_count,
+    skippedCount: row.skipped_count,
+    errorCount: row.error_count,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+  };
+}
+
+/**
+ * Dry run of the whole file with the job's mapping and duplicate choices
+ */
+export async function previewCustomerImport(
+  client: SupabaseClient,
+  job: Pick<CustomerImportRow, 'rows' | 'mapping' | 'duplicate_action' | 'row_actions'>
+): Promise<CustomerImportPreview> {
+  const planned = planRows(job.rows, job.mapping, 0, job.rows.length);
+  const valid = planned.flatMap((entry) => (entry.kind === 'valid' ? [entry] : []));
+  const invalid = planned.flatMap((entry) => (entry.kind === 'invalid' ? [entry] : []));
+  const customers = await findMatchingCustomers(client, valid.map((entry) => entry.input));
+
+  const duplicates = valid.flatMap(({ row, input }): CustomerImportDuplicate[] => {
+    const match = matchCustomer(input, customers);
+    return match
+      ? [{
+          row,
+          matchedOn: match.matchedOn,
+          customerId: match.customer.id,
+          companyName: match.customer.company_name,
+          email: match.customer.email,
+          action: duplicateActionFor(job, row),
+        }]
+      : [];
+  });
+
+  return {
+    validRows: valid.length,
+    invalidRows: invalid.length,
+    sampleRows: job.rows
+      .filter((cells) => !isBlankRow(cells))
+      .slice(0, SAMPLE_ROW_COUNT)
+      .map((cells) => readMappedCells(cells, job.mapping)),
+    errors: invalid.flatMap((entry) => entry.errors).slice(0, MAX_PREVIEW_ERRORS),
+    duplicates,
+  };
+}
+
+export interface CustomerImportBatchResult {
+  /** Rows of the file the batch covered */
+  rowCount: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: CustomerImportRowError[];
+}
+
+/**
+ * Import the job's next batch of rows. Customers are written before the
+ * caller moves next_row on, so a batch that fails part way is simply run
+ * again: the customers it already created are then found as duplicates.
+ */
+export async function importCustomerBatch(
+  client: SupabaseClient,
+  job: CustomerImportRow,
+  actor: { id: string; name: string }
+): Promise<CustomerImportBatchResult> {
+  const to = Math.min(job.next_row + IMPORT_BATCH_SIZE, job.total_rows);
+  const planned = planRows(job.rows, job.mapping, job.next_row, to);
+  const valid = planned.flatMap((entry) => (entry.kind === 'valid' ? [entry] : []));
+  const customers = await findMatchingCustomers(client, valid.map((entry) => entry.input));
+
+  const result: CustomerImportBatchResult = {
+    rowCount: planned.length,
+    created: 0,
+    updated: 0,
+    skipped: planned.filter((entry) => entry.kind === 'blank').length,
+    errors: planned.flatMap((entry) => (entry.kind === 'invalid' ? entry.errors : [])),
+  };
+  const toCreate: Array<{ row: number; columns: Partial<SupabaseCustomer> }> = [];
+  const activities: Array<Record<string, unknown>> = [];
+  const activity = (type: ActivityType, customer: Pick<SupabaseCustomer, 'id' | 'company_name'>, row: number) => ({
+    type,
+    customer_id: customer.id,
+    customer_name: customer.company_name,
+    user_id: actor.id,
+    user_name: actor.name,
+    description: `${type === ActivityType.CUSTOMER_ADDED ? 'Imported' : 'Updated by import'} from ${job.file_name}`,
+    metadata: { importId: job.id, row },
+  });
+
+  for (const { row, input } of valid) {
+    const match = matchCustomer(input, customers);
+    if (!match) {
+      toCreate.push({ row, columns: toCustomerColumns(input) });
+      continue;
+    }
+
+    const action = duplicateActionFor(job, row);
+    const update = action === 'skip' ? {} : buildCustomerImportUpdate(match.customer, input, action);
+    if (Object.keys(update).length === 0) {
+      result.skipped++;
+      continue;
+    }
+
+    const { error } = await client.from('customers')
+      .update(update)
+      .eq('id', match.customer.id);
+
+    if (error) {
+      result.errors.push({ row, message: `Could not update ${match.customer.company_name}: ${error.message}` });
+    } else {
+      result.updated++;
+      activities.push(activity(ActivityType.CUSTOMER_UPDATED, match.customer, row));
+    }
+  }
+
+  if (toCreate.length > 0) {
+    const insertRow = ({ columns }: { columns: Partial<SupabaseCustomer> }) => ({
+      ...columns,
+      shop_id: job.shop_id,
+      status: CustomerStatus.ACTIVE,
+    });
+    const { data, error } = await client.from('customers')
+      .insert(toCreate.map(insertRow))
+      .select('id, company_name');
+
+    if (!error) {
+      (data as Array<Pick<SupabaseCustomer, 'id' | 'company_name'>>).forEach((customer, index) => {
+        activities.push(activity(ActivityType.CUSTOMER_ADDED, customer, toCreate[index].row));
+      });
+      result.created += toCreate.length;
+    } else {
+      // One bad row fails the whole insert, so find it by inserting them one at a time
+      for (const entry of toCreate) {
+        const { data: customer, error: rowError } = await client.from('customers')
+          .insert(insertRow(entry))
+          .select('id, company_name')
+          .single();
+
+        if (rowError) {
+          result.errors.push({ row: entry.row, message: `Could not create the customer: ${rowError.message}` });
+        } else {
+          result.created++;
+          activities.push(activity(ActivityType.CUSTOMER_ADDED, customer, entry.row));
+        }
+      }
+    }
+  }
+
+  if (activities.length > 0) {
+    const { error } = await client.from('activities').insert(activities);
+    if (error) {
+      console.error('Failed to log customer import activity:', error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether an import is being worked through by a run that has not stopped
+ */
+export function isCustomerImportRunning(
+  job: Pick<CustomerImportRow, 'status' | 'updated_at'>,
+  now = Date.now()
+): boolean {
+  return job.status === 'processing' && now - new Date(job.updated_at).getTime() < IMPORT_STALL_MS;
+}
+
+/**
+ * Import the job's next batch and save the progress. Returns the job as it
+ * now stands, or null when another run saved this batch first.
+ */
+export async function advanceCustomerImport(
+  client: SupabaseClient,
+  job: CustomerImportRow,
+  actor: { id: string; name: string }
+): Promise<CustomerImportRow | null> {
+  const batch = await importCustomerBatch(client, job, actor);
+  const nextRow = Math.min(job.next_row + batch.rowCount, job.total_rows);
+  const completed = nextRow >= job.total_rows;
+  const progress = {
+    status: (completed ? 'completed' : 'processing') as CustomerImportStatus,
+    next_row: nextRow,
+    created_count: job.created_count + batch.created,
+    updated_count: job.updated_count + batch.updated,
+    skipped_count: job.skipped_count + batch.skipped,
+    error_count: job.error_count + batch.errors.length,
+    errors: [...job.errors, ...batch.errors],
+    completed_at: completed ? new Date().toISOString() : null,
+  };
+
+  // Moves the cursor only from where this run started, so two runs of the
+  // same batch cannot both count it
+  const { data, error } = await client.from('customer_imports')
+    .update(progress)
+    .eq('id', job.id)
+    .eq('next_row', job.next_row)
+    .select(CUSTOMER_IMPORT_SUMMARY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to save import progress: ${error.message}`);
+  }
+
+  return data ? { ...job, ...(data as unknown as Omit<CustomerImportRow, 'rows' | 'errors'>), errors: progress.errors } : null;
+}
+
+/**
+ * Import the job batch by batch until it completes. Saving after each batch
+ * also marks the run as alive; one that throws or is cut off leaves the job
+ * processing, and it is picked up again once IMPORT_STALL_MS has passed.
+ */
+export async function runCustomerImport(
+  client: SupabaseClient,
+  job: CustomerImportRow,
+  actor: { id: string; name: string }
+): Promise<void> {
+  let current: CustomerImportRow | null = job;
+  while (current && current.status !== 'completed') {
+    current = await advanceCustomerImport(client, current, actor);
+  }
+}
+
+/**
+ * CSV of the rows that failed, with what was wrong and the row as uploaded
+ */
+export function buildCustomerImportErrorReport(
+  job: Pick<CustomerImportRow, 'headers' | 'rows' | 'errors'>
+): string {
+  const messagesByRow = new Map<number, string[]>();
+  for (const error of job.errors) {
+    const message = error.field ? `${error.field}: ${error.message}` : error.message;
+    messagesByRow.set(error.row, [...(messagesByRow.get(error.row) ?? []), message]);
+  }
+
+  const lines = [['Row', 'Errors', ...job.headers]];
+  for (const [row, messages] of [...messagesByRow].sort(([a], [b]) => a - b)) {
+    const cells = job.rows[row - FIRST_DATA_ROW] ?? [];
+    lines.push([String(row), messages.join('; '), ...job.headers.map((_, column) => cells[column] ?? '')]);
+  }
+
+  return lines.map((line) => line.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+}
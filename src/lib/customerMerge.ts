@@ -0,0 +1,445 @@
+/**
+ * Customer Duplicates and Merging
+ * Scoring customers that look like the same business, and merging them
+ * through the merge_customers database function, which moves the
+ * duplicates' quotes and activities to the surviving customer in one
+ * transaction and keeps what it needs to undo the merge
+ * @module lib/customerMerge
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { normalizeCompanyName, normalizeEmail } from '@/lib/customerImport';
+import { mapCustomerRow } from '@/lib/quotes';
+import type {
+  Customer,
+  CustomerAddress,
+  CustomerDuplicate,
+  CustomerDuplicateReason,
+  CustomerMerge,
+  CustomerMergeField,
+  SupabaseCustomer,
+} from '@/types/quote';
+
+/** Email providers shared by unrelated customers, so their domain says nothing */
+export const COMMON_EMAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'msn.com',
+  'icloud.com', 'me.com', 'aol.com', 'protonmail.com', 'proton.me', 'gmx.com', 'mail.com',
+];
+
+/** Lowest score shown as a possible duplicate */
+export const DUPLICATE_SCORE_THRESHOLD = 40;
+
+/** Most duplicates returned for a customer, and merged at once */
+export const MAX_CUSTOMER_DUPLICATES = 10;
+
+/** How long a merge can be undone for; merge_customers sets the same window */
+export const MERGE_UNDO_WINDOW_DAYS = 7;
+
+const SCORE_WEIGHTS = {
+  emailDomain: 25,
+  companyName: 40,
+  phone: 25,
+  address: 20,
+};
+
+/** Company names at least this similar count, weighted by how similar */
+const COMPANY_SIMILARITY_THRESHOLD = 0.75;
+
+/** Phone numbers match on their last digits, so country codes and formatting do not matter */
+const PHONE_MATCH_DIGITS = 7;
+
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+  'plc', 'gmbh', 'ag', 'sa', 'sarl', 'bv', 'pty',
+]);
+
+// PostgREST turns these function error codes into HTTP statuses
+const NOT_FOUND_CODE = 'PT404';
+const FORBIDDEN_CODE = 'PT403';
+const ALREADY_UNDONE_CODE = 'PT409';
+const EXPIRED_CODE = 'PT410';
+const UNIQUE_VIOLATION_CODE = '23505';
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+function emailDomain(email: string): string {
+  return normalizeEmail(email).split('@')[1] ?? '';
+}
+
+/**
+ * A company name without punctuation or legal suffixes, so "Acme, Inc." and
+ * "ACME Inc" compare equal
+ */
+function companyKey(companyName: string): string {
+  return normalizeCompanyName(companyName.replace(/&/g, ' and '))
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .split(/\s+/)
+    .filter((word) => word && !COMPANY_SUFFIXES.has(word))
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * How alike two company names are, from 0 to 1, by edit distance
+ */
+export function companyNameSimilarity(a: string, b: string): number {
+  const keyA = companyKey(a);
+  const keyB = companyKey(b);
+
+  if (!keyA || !keyB) {
+    return 0;
+  }
+
+  return 1 - levenshtein(keyA, keyB) / Math.max(keyA.length, keyB.length);
+}
+
+function phoneKey(phone?: string): string {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  return digits.length >= PHONE_MATCH_DIGITS ? digits.slice(-PHONE_MATCH_DIGITS) : '';
+}
+
+function addressKey(address?: CustomerAddress): string {
+  if (!address?.street || !address.zipCode) {
+    return '';
+  }
+  const street = address.street.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  return `${street}|${address.zipCode.toLowerCase().replace(/\s/g, '')}`;
+}
+
+/**
+ * Score how likely `candidate` is the same business as `customer`: the same
+ * email is certain, otherwise a shared email domain, a similar company name,
+ * the same phone number and the same address each add to the score
+ */
+export function scoreCustomerDuplicate(
+  customer: Customer,
+  candidate: Customer
+): { score: number; reasons: CustomerDuplicateReason[] } {
+  if (normalizeEmail(customer.email) === normalizeEmail(candidate.email)) {
+    return { score: 100, reasons: ['email'] };
+  }
+
+  let score = 0;
+  const reasons: CustomerDuplicateReason[] = [];
+
+  const domain = emailDomain(customer.email);
+  if (domain && domain === emailDomain(candidate.email) && !COMMON_EMAIL_DOMAINS.includes(domain)) {
+    score += SCORE_WEIGHTS.emailDomain;
+    reasons.push('emailDomain');
+  }
+
+  const similarity = companyNameSimilarity(customer.companyName, candidate.companyName);
+  if (similarity >= COMPANY_SIMILARITY_THRESHOLD) {
+    score += Math.round(SCORE_WEIGHTS.companyName * similarity);
+    reasons.push('companyName');
+  }
+
+  const phone = phoneKey(customer.phone);
+  if (phone && phone === phoneKey(candidate.phone)) {
+    score += SCORE_WEIGHTS.phone;
+    reasons.push('phone');
+  }
+
+  const addresses = [customer.billingAddress, customer.shippingAddress].map(addressKey).filter(Boolean);
+  const candidateAddresses = [candidate.billingAddress, candidate.shippingAddress].map(addressKey);
+  if (addresses.some((address) => candidateAddresses.includes(address))) {
+    score += SCORE_WEIGHTS.address;
+    reasons.push('address');
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+/**
+ * Customers that may be duplicates of `customer`, most likely first. The
+ * find_duplicate_customers function narrows the shop down to customers with
+ * something in common; only those scoring DUPLICATE_SCORE_THRESHOLD or more
+ * are returned.
+ */
+export async function findCustomerDuplicates(
+  client: SupabaseClient,
+  customer: Customer
+): Promise<CustomerDuplicate[]> {
+  const { data, error } = await client.rpc('find_duplicate_customers', {
+    p_customer_id: customer.id,
+    p_common_domains: COMMON_EMAIL_DOMAINS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to find duplicate customers: ${error.message}`);
+  }
+
+  return ((data ?? []) as SupabaseCustomer[])
+    .map((row) => {
+      const candidate = mapCustomerRow(row);
+      return { customer: candidate, ...scoreCustomerDuplicate(customer, candidate) };
+    })
+    .filter((duplicate) => duplicate.score >= DUPLICATE_SCORE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CUSTOMER_DUPLICATES);
+}
+
+// ============================================================================
+// Merge Values
+// ============================================================================
+
+export const CUSTOMER_MERGE_FIELDS: Array<{
+  field: CustomerMergeField;
+  label: string;
+  columns: Array<keyof SupabaseCustomer>;
+}> = [
+  { field: 'companyName', label: 'Company name', columns: ['company_name'] },
+  { field: 'contactName', label: 'Contact name', columns: ['contact_name'] },
+  { field: 'email', label: 'Email', columns: ['email'] },
+  { field: 'phone', label: 'Phone', columns: ['phone'] },
+  { field: 'billingAddress', label: 'Billing address', columns: ['billing_address'] },
+  { field: 'shippingAddress', label: 'Shipping address', columns: ['shipping_address'] },
+  // Exemption goes with the tax ID it was granted for
+  { field: 'taxId', label: 'Tax ID', columns: ['tax_id', 'tax_exempt'] },
+  { field: 'logoUrl', label: 'Logo', columns: ['logo_url'] },
+];
+
+const SHOPIFY_LINK_COLUMNS: Array<keyof SupabaseCustomer> = [
+  'shopify_customer_id', 'shopify_company_id', 'shopify_company_location_id', 'shopify_company_contact_id',
+];
+
+/**
+ * For each field, the ID of the customer whose value survives; fields left
+ * out keep the survivor's value
+ */
+export type CustomerMergeSelection = Partial<Record<CustomerMergeField, string>>;
+
+/**
+ * The survivor's columns after a merge. Picked fields come from the chosen
+ * customer; tags are combined, notes are joined, the customer is a customer
+ * since the earliest of them, and a survivor not linked to Shopify takes the
+ * first duplicate's link.
+ */
+export function buildCustomerMergeValues(
+  survivor: SupabaseCustomer,
+  duplicates: SupabaseCustomer[],
+  selection: CustomerMergeSelection
+): Partial<SupabaseCustomer> {
+  const customers = [survivor, ...duplicates];
+  const values: Record<string, unknown> = {};
+
+  for (const { field, columns } of CUSTOMER_MERGE_FIELDS) {
+    const source = customers.find((customer) => customer.id === selection[field]) ?? survivor;
+    for (const column of columns) {
+      values[column] = source[column] ?? null;
+    }
+  }
+
+  values.tags = [...new Set(customers.flatMap((customer) => customer.tags ?? []))];
+
+  const notes = [...new Set(customers.map((customer) => customer.notes?.trim()).filter(Boolean))];
+  values.notes = notes.length > 0 ? notes.join('\n\n') : null;
+
+  values.customer_since = customers
+    .map((customer) => customer.customer_since || customer.created_at)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0];
+
+  if (!survivor.shopify_customer_id && !survivor.shopify_company_location_id) {
+    const linked = duplicates.find((customer) => customer.shopify_customer_id || customer.shopify_company_location_id);
+    if (linked) {
+      for (const column of SHOPIFY_LINK_COLUMNS) {
+        values[column] = linked[column] ?? null;
+      }
+    }
+  }
+
+  return values as Partial<SupabaseCustomer>;
+}
+
+// ============================================================================
+// Merges
+// ============================================================================
+
+/**
+ * customer_merges row
+ */
+export interface CustomerMergeRow {
+  id: string;
+  shop_id: string;
+  survivor_id: string;
+  survivor_before: SupabaseCustomer;
+  merged_customers: SupabaseCustomer[];
+  moved_rows: Record<string, { quotes: string[]; activities: string[] }>;
+  merged_by: string | null;
+  merged_by_name: string | null;
+  created_at: string;
+  undo_until: string;
+  undone_at: string | null;
+  undone_by: string | null;
+}
+
+export function mapCustomerMergeRow(row: CustomerMergeRow): CustomerMerge {
+  return {
+    id: row.id,
+    survivorId: row.survivor_id,
+    mergedCustomers: (row.merged_customers ?? []).map((customer) => ({
+      id: customer.id,
+      companyName: customer.company_name,
+      email: customer.email,
+    })),
+    mergedBy: row.merged_by ?? undefined,
+    mergedByName: row.merged_by_name ?? undefined,
+    createdAt: new Date(row.created_at),
+    undoUntil: new Date(row.undo_until),
+    undoneAt: row.undone_at ? new Date(row.undone_at) : undefined,
+  };
+}
+
+export interface CustomerMergeInput {
+  survivorId: string;
+  duplicateIds: string[];
+  selection: CustomerMergeSelection;
+}
+
+export type CustomerMergeResult =
+  | { status: 'merged'; merge: CustomerMerge; customer: Customer }
+  | { status: 'not_found' }
+  | { status: 'forbidden' };
+
+/**
+ * Merge the duplicates into the survivor, recorded as made by the signed-in
+ * member. Returns `not_found` when any of the customers is not in the
+ * caller's shop, and `forbidden` when the caller may not delete customers;
+ * nothing is written in either case.
+ */
+export async function mergeCustomers(
+  client: SupabaseClient,
+  input: CustomerMergeInput
+): Promise<CustomerMergeResult> {
+  const ids = [input.survivorId, ...input.duplicateIds];
+
+  const { data: rows, error: fetchError } = await client
+    .from('customers')
+    .select('*')
+    .in('id', ids);
+
+  if (fetchError) {
+    throw new Error(`Failed to load customers: ${fetchError.message}`);
+  }
+
+  const customers = new Map(((rows ?? []) as SupabaseCustomer[]).map((row) => [row.id, row]));
+  const survivor = customers.get(input.survivorId);
+  if (!survivor || ids.some((id) => !customers.has(id))) {
+    return { status: 'not_found' };
+  }
+
+  const values = buildCustomerMergeValues(
+    survivor,
+    input.duplicateIds.map((id) => customers.get(id)!),
+    input.selection
+  );
+
+  const { data, error } = await client.rpc('merge_customers', {
+    p_survivor_id: input.survivorId,
+    p_duplicate_ids: input.duplicateIds,
+    p_values: values,
+  });
+
+  if (error) {
+    if (error.code === NOT_FOUND_CODE) {
+      return { status: 'not_found' };
+    }
+    if (error.code === FORBIDDEN_CODE) {
+      return { status: 'forbidden' };
+    }
+    throw new Error(`Failed to merge customers: ${error.message}`);
+  }
+
+  const { data: merged, error: survivorError } = await client
+    .from('customers')
+    .select('*')
+    .eq('id', input.survivorId)
+    .single();
+
+  if (survivorError) {
+    throw new Error(`Failed to load merged customer: ${survivorError.message}`);
+  }
+
+  return {
+    status: 'merged',
+    merge: mapCustomerMergeRow(data as CustomerMergeRow),
+    customer: mapCustomerRow(merged as SupabaseCustomer),
+  };
+}
+
+/**
+ * Merges into the customer, newest first
+ */
+export async function listCustomerMerges(
+  client: SupabaseClient,
+  customerId: string
+): Promise<CustomerMerge[]> {
+  const { data, error } = await client
+    .from('customer_merges')
+    .select('*')
+    .eq('survivor_id', customerId)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) {
+    throw new Error(`Failed to load customer merges: ${error.message}`);
+  }
+
+  return ((data ?? []) as CustomerMergeRow[]).map(mapCustomerMergeRow);
+}
+
+export type CustomerMergeUndoResult =
+  | { status: 'undone'; customer: Customer }
+  | { status: 'not_found' | 'forbidden' | 'already_undone' | 'expired' }
+  /** A customer created since the merge took a duplicate's email or Shopify link */
+  | { status: 'conflict'; message: string };
+
+/**
+ * Undo a merge: the survivor gets its values from before the merge back and
+ * the duplicates are re-created with their quotes and activities. The undo
+ * is recorded as made by the signed-in member.
+ */
+export async function undoCustomerMerge(
+  client: SupabaseClient,
+  mergeId: string
+): Promise<CustomerMergeUndoResult> {
+  const { data, error } = await client.rpc('undo_customer_merge', { p_merge_id: mergeId });
+
+  if (error) {
+    switch (error.code) {
+      case NOT_FOUND_CODE:
+        return { status: 'not_found' };
+      case FORBIDDEN_CODE:
+        return { status: 'forbidden' };
+      case ALREADY_UNDONE_CODE:
+        return { status: 'already_undone' };
+      case EXPIRED_CODE:
+        return { status: 'expired' };
+      case UNIQUE_VIOLATION_CODE:
+        return { status: 'conflict', message: error.message };
+      default:
+        throw new Error(`Failed to undo customer merge: ${error.message}`);
+    }
+  }
+
+  return { status: 'undone', customer: mapCustomerRow(data as SupabaseCustomer) };
+}
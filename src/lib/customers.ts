@@ -0,0 +1,169 @@
+/**
+ * Customers
+ * The customer validation schema and its customers columns, quote statistics
+ * per customer (which the customer_stats function works out in the database)
+ * and the activity feed
+ * @module lib/customers
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import type { ActivityRow } from '@/lib/quotes';
+import type { CustomerActivity, CustomerStats, CustomerStatus, SupabaseCustomer } from '@/types/quote';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+/**
+ * A new customer, as created from the customer form or an imported row
+ */
+export const customerSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  companyName: z.string().min(1, 'Company name is required').max(200),
+  contactName: z.string().min(1, 'Contact name is required').max(200),
+  phone: z.string().optional(),
+  billingAddress: z.object({
+    street: z.string().min(1, 'Street is required'),
+    city: z.string().min(1, 'City is required'),
+    state: z.string().min(1, 'State is required'),
+    zipCode: z.string().min(1, 'ZIP code is required'),
+    country: z.string().min(1, 'Country is required'),
+  }).optional(),
+  shippingAddress: z.object({
+    street: z.string().min(1, 'Street is required'),
+    city: z.string().min(1, 'City is required'),
+    state: z.string().min(1, 'State is required'),
+    zipCode: z.string().min(1, 'ZIP code is required'),
+    country: z.string().min(1, 'Country is required'),
+  }).optional(),
+  taxId: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  notes: z.string().optional(),
+  logoUrl: z.string().url().optional().or(z.literal('')),
+});
+
+export type CustomerSchemaInput = z.infer<typeof customerSchema>;
+
+/**
+ * The customers columns a create or update sets; fields not in the input
+ * (or null) are left out
+ */
+export function toCustomerColumns(
+  input: { [K in keyof CustomerSchemaInput]?: CustomerSchemaInput[K] | null } & { status?: CustomerStatus }
+): Partial<SupabaseCustomer> {
+  const columns: Partial<SupabaseCustomer> = {};
+
+  if (input.email != null) columns.email = input.email;
+  if (input.companyName != null) columns.company_name = input.companyName;
+  if (input.contactName != null) columns.contact_name = input.contactName;
+  if (input.phone != null) columns.phone = input.phone;
+  if (input.billingAddress != null) columns.billing_address = input.billingAddress;
+  if (input.shippingAddress != null) columns.shipping_address = input.shippingAddress;
+  if (input.taxId != null) columns.tax_id = input.taxId;
+  if (input.tags != null) columns.tags = input.tags;
+  if (input.notes != null) columns.notes = input.notes;
+  if (input.logoUrl != null) columns.logo_url = input.logoUrl;
+  if (input.status != null) columns.status = input.status;
+
+  return columns;
+}
+
+// ============================================================================
+// Stats
+// ============================================================================
+
+/**
+ * Row returned by the customer_stats function
+ */
+export interface CustomerStatsRow {
+  customer_id: string;
+  currency: string;
+  total_quotes: number;
+  accepted_quotes: number;
+  declined_quotes: number;
+  pending_quotes: number;
+  total_revenue: number | string;
+  avg_quote_value: number | string;
+  first_quote_at: string | null;
+  last_quote_at: string | null;
+}
+
+/**
+ * Stats for a customer without any quotes
+ */
+export const EMPTY_CUSTOMER_STATS: CustomerStats = {
+  totalQuotes: 0,
+  totalRevenue: 0,
+  avgQuoteValue: 0,
+  acceptedQuotes: 0,
+  declinedQuotes: 0,
+  pendingQuotes: 0,
+  conversionRate: 0,
+};
+
+/**
+ * Map a customer_stats row to CustomerStats; Postgres returns the sums as
+ * decimal strings
+ */
+export function mapCustomerStatsRow(row: CustomerStatsRow): CustomerStats {
+  const totalQuotes = row.total_quotes;
+  const conversionRate = totalQuotes > 0 ? (row.accepted_quotes / totalQuotes) * 100 : 0;
+
+  return {
+    currency: row.currency,
+    totalQuotes,
+    totalRevenue: Number(row.total_revenue),
+    avgQuoteValue: Number(row.avg_quote_value),
+    acceptedQuotes: row.accepted_quotes,
+    declinedQuotes: row.declined_quotes,
+    pendingQuotes: row.pending_quotes,
+    conversionRate: Math.round(conversionRate * 10) / 10,
+    lastQuoteDate: row.last_quote_at ? new Date(row.last_quote_at) : undefined,
+    firstQuoteDate: row.first_quote_at ? new Date(row.first_quote_at) : undefined,
+  };
+}
+
+/**
+ * Stats for each customer, by ID. Customers the caller cannot see are left
+ * out of the map.
+ */
+export async function getCustomerStats(
+  client: SupabaseClient,
+  customerIds: string[]
+): Promise<Map<string, CustomerStats>> {
+  if (customerIds.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await client.rpc('customer_stats', { p_customer_ids: customerIds });
+
+  if (error) {
+    throw new Error(`Failed to load customer stats: ${error.message}`);
+  }
+
+  return new Map(
+    ((data ?? []) as CustomerStatsRow[]).map((row) => [row.customer_id, mapCustomerStatsRow(row)])
+  );
+}
+
+// ============================================================================
+// Activity
+// ============================================================================
+
+/**
+ * Map an activities row to the CustomerActivity model
+ */
+export function mapCustomerActivityRow(row: ActivityRow): CustomerActivity {
+  return {
+    id: row.id,
+    customerId: row.customer_id ?? '',
+    type: row.type as CustomerActivity['type'],
+    description: row.description,
+    metadata: row.metadata ?? undefined,
+    quoteId: row.quote_id ?? undefined,
+    quoteNumber: row.quote_number ?? undefined,
+    createdAt: new Date(row.created_at),
+    createdBy: row.user_name ?? undefined,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Shopify Draft Orders
+ * Builds a draft order from a quote and creates it through the GraphQL Admin API
+ * @module lib/draftOrders
+ */
+
+import { shopifyGraphql } from '@/lib/shopify';
+import type { ShopifyPurchasingEntity } from '@/lib/shopifyCustomers';
+import type { LineItem, Quote } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface AppliedDiscountInput {
+  title?: string;
+  value: number;
+  valueType: 'FIXED_AMOUNT' | 'PERCENTAGE';
+}
+
+export interface DraftOrderLineItemInput {
+  variantId?: string;
+  title?: string;
+  sku?: string;
+  quantity: number;
+  originalUnitPrice?: number;
+  taxable?: boolean;
+  appliedDiscount?: AppliedDiscountInput;
+}
+
+export interface DraftOrderInput {
+  email?: string;
+  note?: string;
+  tags: string[];
+  taxExempt: boolean;
+  lineItems: DraftOrderLineItemInput[];
+  appliedDiscount?: AppliedDiscountInput;
+  shippingLine?: { title: string; price: number };
+  customAttributes: Array<{ key: string; value: string }>;
+  purchasingEntity?: ShopifyPurchasingEntity;
+}
+
+export interface DraftOrder {
+  id: string;
+  name: string;
+  invoiceUrl: string;
+}
+
+interface DraftOrderCreateResponse {
+  draftOrderCreate: {
+    draftOrder: DraftOrder | null;
+    userErrors: Array<{ field?: string[] | null; message: string }>;
+  };
+}
+
+export const DRAFT_ORDER_CREATE_MUTATION = `
+  mutation DraftOrderCreate($input: DraftOrderInput!) {
+    draftOrderCreate(input: $input) {
+      draftOrder {
+        id
+        name
+        invoiceUrl
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+// ============================================================================
+// Input Mapping
+// ============================================================================
+
+/**
+ * Map a quote line item to a draft order line.
+ * Catalog items keep their variant so inventory and fulfillment work; Shopify
+ * prices them from the catalog, so a negotiated price below it is sent as a
+ * per-unit discount. Items priced above the catalog, and items without a
+ * variant, become custom lines at the quoted price.
+ */
+export function mapDraftOrderLineItem(item: LineItem): DraftOrderLineItemInput {
+  const catalogPrice = item.catalogPrice ?? item.originalPrice;
+  const netUnitPrice = item.unitPrice * (1 - (item.discountPercentage || 0) / 100);
+
+  if (item.variantId && catalogPrice !== undefined && netUnitPrice <= catalogPrice) {
+    const unitDiscount = round(catalogPrice - netUnitPrice);
+    return {
+      variantId: item.variantId,
+      quantity: item.quantity,
+      ...(unitDiscount > 0 && {
+        appliedDiscount: { title: 'Quoted price', value: unitDiscount, valueType: 'FIXED_AMOUNT' as const },
+      }),
+    };
+  }
+
+  return {
+    title: item.variantTitle ? `${item.title} - ${item.variantTitle}` : item.title,
+    sku: item.sku || undefined,
+    quantity: item.quantity,
+    originalUnitPrice: item.unitPrice,
+    taxable: true,
+    ...(item.discountPercentage && {
+      appliedDiscount: { title: 'Quote discount', value: item.discountPercentage, valueType: 'PERCENTAGE' as const },
+    }),
+  };
+}
+
+/**
+ * Build the draft order input for a quote.
+ * Shopify calculates tax from the shop's own tax settings; a quote without
+ * tax is created tax exempt. With a purchasing entity the order is placed
+ * for that Shopify customer or company location instead of just the email.
+ */
+export function buildDraftOrderInput(quote: Quote, purchasingEntity?: ShopifyPurchasingEntity): DraftOrderInput {
+  return {
+    email: quote.customer?.email || undefined,
+    note: quote.terms?.notes || undefined,
+    tags: ['quotegen', quote.quoteNumber],
+    taxExempt: quote.taxTotal === 0,
+    lineItems: quote.lineItems.map(mapDraftOrderLineItem),
+    ...(quote.discountTotal > 0 && {
+      appliedDiscount: { title: 'Quote discount', value: round(quote.discountTotal), valueType: 'FIXED_AMOUNT' as const },
+    }),
+    ...(quote.shippingTotal > 0 && {
+      shippingLine: { title: 'Shipping', price: round(quote.shippingTotal) },
+    }),
+    // Read back by the orders/create webhook to link the order to the quote
+    customAttributes: [
+      { key: 'quote_id', value: quote.id },
+      { key: 'quote_number', value: quote.quoteNumber },
+    ],
+    ...(purchasingEntity && { purchasingEntity }),
+  };
+}
+
+// ============================================================================
+// Draft Order Creation
+// ============================================================================
+
+/**
+ * Create a draft order for a quote
+ * @throws When Shopify rejects the request or the input
+ */
+export async function createDraftOrder(
+  shop: string,
+  accessToken: string,
+  quote: Quote,
+  purchasingEntity?: ShopifyPurchasingEntity
+): Promise<DraftOrder> {
+  const data = await shopifyGraphql<DraftOrderCreateResponse>(
+    shop,
+    accessToken,
+    DRAFT_ORDER_CREATE_MUTATION,
+    { input: buildDraftOrderInput(quote, purchasingEntity) }
+  );
+
+  const { draftOrder, userErrors } = data.draftOrderCreate;
+
+  if (userErrors.length > 0 || !draftOrder) {
+    const messages = userErrors.map((e) => (e.field?.length ? `${e.field.join('.')}: ${e.message}` : e.message));
+    throw new Error(`Shopify rejected the draft order: ${messages.join('; ') || 'no draft order returned'}`);
+  }
+
+  return draftOrder;
+}
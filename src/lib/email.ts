@@ -1,37 +1,122 @@
-// Email notification service using Resend
-import { Resend } from 'resend';
+// Email notification service: resolves the sender, sends through the configured
+// transport (see lib/mailTransport) and records every send in email_log
+import { getMailTransport, type MailAttachment } from '@/lib/mailTransport';
+import { getMerchantSettings } from '@/lib/settings';
+// Sends happen from background jobs as well as requests, so this uses the service role
+import { getServiceClient } from '@/lib/supabaseServer';
 
-const resendApiKey = process.env.RESEND_API_KEY || 're_placeholder';
-const resend = resendApiKey !== 're_placeholder' ? new Resend(resendApiKey) : null;
+export type EmailType = 'quote_sent' | 'quote_status' | 'quote_reminder' | 'quote_request' | 'quote_approval';
 
 interface EmailData {
   to: string;
+  /** Copied in, e.g. the customer's finance contacts */
+  cc?: string[];
   subject: string;
   html: string;
+  type: EmailType;
+  shopId?: string;
+  quoteId?: string;
+  /** Attach the quote (quoteId) as a PDF */
+  attachQuotePdf?: boolean;
 }
 
-export async function sendEmail({ to, subject, html }: EmailData) {
-  if (!resend) {
-    console.log('Email service not configured. Would send to:', to);
-    return { id: 'mock-email-id' };
+export interface SenderIdentity {
+  name: string;
+  email: string;
+  replyTo?: string;
+}
+
+/**
+ * Resolve who an email goes out as: the shop's sender settings, falling
+ * back to FROM_NAME / FROM_EMAIL
+ */
+export async function getSenderIdentity(shopId?: string): Promise<SenderIdentity> {
+  const fallback: SenderIdentity = {
+    name: process.env.FROM_NAME || 'QuoteGen',
+    email: process.env.FROM_EMAIL || 'noreply@quotegen.app',
+  };
+
+  if (!shopId) {
+    return fallback;
   }
-  
+
   try {
-    const { data, error } = await resend.emails.send({
-      from: process.env.FROM_EMAIL || 'QuoteGen <noreply@quotegen.app>',
-      to,
-      subject,
-      html,
-    });
+    const { email } = await getMerchantSettings(shopId);
+    return {
+      name: email.senderName || fallback.name,
+      email: email.senderEmail || fallback.email,
+      replyTo: email.replyToEmail || undefined,
+    };
+  } catch (error) {
+    console.error('Error loading sender settings:', error);
+    return fallback;
+  }
+}
+
+function formatAddress({ name, email }: SenderIdentity): string {
+  return `"${name.replace(/["<>\\]/g, '')}" <${email}>`;
+}
 
+async function recordEmail(entry: Record<string, unknown>): Promise<void> {
+  try {
+    const { error } = await getServiceClient().from('email_log').insert(entry);
     if (error) {
-      console.error('Error sending email:', error);
-      throw error;
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    console.error('Error writing email log:', error);
+  }
+}
+
+/**
+ * Send an email and record it in email_log
+ * @returns The provider message ID
+ * @throws When the transport fails; the failure is logged first
+ */
+export async function sendEmail({ to, cc, subject, html, type, shopId, quoteId, attachQuotePdf }: EmailData) {
+  const sender = await getSenderIdentity(shopId);
+  const from = formatAddress(sender);
+  const attachments: MailAttachment[] = [];
+
+  // The PDF is a convenience; the email still goes out if it cannot be rendered
+  if (attachQuotePdf && quoteId) {
+    try {
+      // Loaded on demand so the PDF renderer only starts up for emails that need it
+      const { renderQuotePdfAttachment } = await import('@/lib/quotePdf');
+      attachments.push(await renderQuotePdfAttachment(quoteId));
+    } catch (error) {
+      console.error('Error rendering quote PDF:', error);
     }
+  }
+
+  const entry = {
+    shop_id: shopId ?? null,
+    quote_id: quoteId ?? null,
+    type,
+    from_address: from,
+    to_address: to,
+    cc_addresses: cc ?? [],
+    subject,
+    attachments: attachments.map((attachment) => attachment.filename),
+  };
+
+  let transportName = 'unconfigured';
+  try {
+    const transport = getMailTransport();
+    transportName = transport.name;
 
-    return data;
+    const { messageId } = await transport.send({ from, to, cc, replyTo: sender.replyTo, subject, html, attachments });
+
+    await recordEmail({ ...entry, transport: transportName, provider_message_id: messageId, status: 'sent' });
+    return { id: messageId };
   } catch (error) {
     console.error('Failed to send email:', error);
+    await recordEmail({
+      ...entry,
+      transport: transportName,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
     throw error;
   }
 }
@@ -96,10 +181,15 @@ export function quoteStatusUpdateEmailTemplate(quoteData: {
   shopName: string;
   shopUrl: string;
 }) {
+  const quotedMessage = `We've prepared a quote for you. ${quoteData.quoteAmount ? `Amount: $${quoteData.quoteAmount}` : ''}`;
+  const declinedMessage = 'Thank you for your interest. Unfortunately, we cannot fulfill this request at this time.';
   const statusMessages: Record<string, string> = {
-    quoted: `We've prepared a quote for you. ${quoteData.quoteAmount ? `Amount: $${quoteData.quoteAmount}` : ''}`,
+    sent: quotedMessage,
     accepted: 'Great news! Your quote has been accepted.',
-    declined: 'Thank you for your interest. Unfortunately, we cannot fulfill this request at this time.',
+    rejected: declinedMessage,
+    // Legacy storefront statuses
+    quoted: quotedMessage,
+    declined: declinedMessage,
   };
 
   return {
@@ -141,4 +231,129 @@ export function quoteStatusUpdateEmailTemplate(quoteData: {
       </html>
     `,
   };
-}
\ No newline at end of file
+}
+
+export type QuoteNotificationStatus = 'sent' | 'accepted' | 'rejected';
+
+// Customer notification for a quote status change, linking to the public quote page
+export function quoteNotificationEmailTemplate(quoteData: {
+  status: QuoteNotificationStatus;
+  quoteTitle: string;
+  quoteNumber: string;
+  viewUrl: string;
+}) {
+  const { status, quoteTitle, quoteNumber, viewUrl } = quoteData;
+  const subjects: Record<QuoteNotificationStatus, string> = {
+    sent: `Quote ${quoteNumber} - Ready for Review`,
+    accepted: `Quote ${quoteNumber} - Accepted!`,
+    rejected: `Quote ${quoteNumber} - Update`,
+  };
+  const templates: Record<QuoteNotificationStatus, { title: string; message: string; cta: string }> = {
+    sent: {
+      title: 'Your Quote is Ready',
+      message: `Your quote "${quoteTitle}" (${quoteNumber}) has been prepared and is ready for your review.`,
+      cta: 'View Quote',
+    },
+    accepted: {
+      title: 'Quote Accepted!',
+      message: `Great news! Your quote "${quoteTitle}" (${quoteNumber}) has been accepted. We'll be in touch shortly with next steps.`,
+      cta: 'View Details',
+    },
+    rejected: {
+      title: 'Quote Update',
+      message: `Thank you for your interest. Unfortunately, we are unable to fulfill your quote request "${quoteTitle}" (${quoteNumber}) at this time.`,
+      cta: 'Contact Us',
+    },
+  };
+
+  const template = templates[status];
+
+  return {
+    subject: subjects[status],
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${template.title}</title>
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px; }
+          .footer { text-align: center; color: #6b7280; font-size: 12px; margin-top: 30px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${template.title}</h1>
+          </div>
+          <div class="content">
+            <p>Hello,</p>
+            <p>${template.message}</p>
+            <a href="${viewUrl}" class="button">${template.cta}</a>
+          </div>
+          <div class="footer">
+            <p>This email was sent by QuoteGen</p>
+          </div>
+        </div>
+      </body>
+      </html>
+  `,
+  };
+}
+
+// Asks an approver to sign off on a quote held back for its discounts
+export function approvalRequestEmailTemplate(quoteData: {
+  quoteTitle: string;
+  quoteNumber: string;
+  requestedBy: string;
+  reasons: string[];
+  reviewUrl: string;
+}) {
+  const { quoteTitle, quoteNumber, requestedBy, reasons, reviewUrl } = quoteData;
+
+  return {
+    subject: `Approval needed: Quote ${quoteNumber}`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Approval Needed</title>
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f97316; color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+          .reasons { background: white; border-left: 4px solid #f97316; padding: 12px 20px; margin: 20px 0; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin-top: 20px; }
+          .footer { text-align: center; color: #6b7280; font-size: 12px; margin-top: 30px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Approval Needed</h1>
+          </div>
+          <div class="content">
+            <p>${requestedBy} wants to send quote "${quoteTitle}" (${quoteNumber}), which is past your shop's discount limits:</p>
+            <ul class="reasons">
+              ${reasons.map((reason) => `<li>${reason}</li>`).join('')}
+            </ul>
+            <p>Approve it to send it to the customer, or reject it with a comment to send it back to draft.</p>
+            <a href="${reviewUrl}" class="button">Review Quote</a>
+          </div>
+          <div class="footer">
+            <p>This email was sent by QuoteGen</p>
+          </div>
+        </div>
+      </body>
+      </html>
+  `,
+  };
+}
@@ -0,0 +1,321 @@
+/**
+ * Email Delivery Events
+ * Verifies the Svix-signed delivery events Resend posts back and applies
+ * them: the email_log roll-up, quote activities, a VIEWED transition when
+ * the buyer clicks through and the bounce flag on the customer
+ * @module lib/emailEvents
+ */
+
+import crypto from 'crypto';
+import { transitionQuoteStatus } from '@/lib/quoteTransitions';
+import { validateTransition } from '@/lib/quoteWorkflow';
+// Provider callbacks arrive without a user session, so they run with the service role
+import { getServiceClient } from '@/lib/supabaseServer';
+import { escapeLikePattern } from '@/lib/utils';
+import { getShopWorkflow } from '@/lib/workflows';
+import { ActivityType, QuoteStatus } from '@/types/quote';
+import type { EmailType } from '@/lib/email';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EmailEventType = 'delivered' | 'bounced' | 'complained' | 'opened' | 'clicked';
+
+export type EmailEventResult = 'applied' | 'duplicate' | 'ignored';
+
+export interface SvixHeaders {
+  id: string;
+  timestamp: string;
+  signature: string;
+}
+
+/** Resend webhook payload (only the fields we use) */
+export interface ResendEmailEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    to?: string[];
+    subject?: string;
+    bounce?: { type?: string; subType?: string; message?: string };
+    click?: { link?: string; timestamp?: string; ipAddress?: string; userAgent?: string };
+  };
+}
+
+interface EmailLogRow {
+  id: string;
+  shop_id: string | null;
+  quote_id: string | null;
+  type: EmailType;
+  to_address: string;
+  open_count: number;
+  click_count: number;
+  first_opened_at: string | null;
+  first_clicked_at: string | null;
+  quote: {
+    id: string;
+    shop_id: string;
+    quote_number: string;
+    status: QuoteStatus;
+    customer_id: string | null;
+    customer_name: string | null;
+  } | null;
+}
+
+const EVENT_TYPES: Record<string, EmailEventType> = {
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+  'email.opened': 'opened',
+  'email.clicked': 'clicked',
+};
+
+const ACTIVITY_TYPES: Record<EmailEventType, ActivityType> = {
+  delivered: ActivityType.EMAIL_DELIVERED,
+  bounced: ActivityType.EMAIL_BOUNCED,
+  complained: ActivityType.EMAIL_COMPLAINED,
+  opened: ActivityType.EMAIL_OPENED,
+  clicked: ActivityType.EMAIL_CLICKED,
+};
+
+/** Emails that go to the buyer; merchant notifications never move a quote */
+const CUSTOMER_EMAIL_TYPES: EmailType[] = ['quote_sent', 'quote_status', 'quote_reminder'];
+
+/** Svix rejects deliveries whose timestamp is more than five minutes off */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const EMAIL_TRACKING_USER = { id: 'email', name: 'Email tracking' };
+
+// ============================================================================
+// Signature Verification
+// ============================================================================
+
+/**
+ * Verify a Svix signature: base64 HMAC-SHA256 of `${id}.${timestamp}.${body}`
+ * keyed with the base64 part of the `whsec_` secret. The signature header may
+ * carry several space-separated `v1,<signature>` entries during key rotation.
+ */
+export function verifySvixSignature(
+  rawBody: string,
+  headers: SvixHeaders,
+  secret: string | undefined = process.env.RESEND_WEBHOOK_SECRET,
+  now: number = Date.now()
+): boolean {
+  if (!secret) {
+    console.error('RESEND_WEBHOOK_SECRET not set');
+    return false;
+  }
+
+  const timestamp = Number(headers.timestamp);
+  if (!headers.id || !Number.isFinite(timestamp)) {
+    return false;
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const expected = crypto
+    .createHmac('sha256', key)
+    .update(`${headers.id}.${headers.timestamp}.${rawBody}`, 'utf8')
+    .digest();
+
+  return headers.signature.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',');
+    if (version !== 'v1' || !signature) {
+      return false;
+    }
+    const received = Buffer.from(signature, 'base64');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+}
+
+// ============================================================================
+// Event Handling
+// ============================================================================
+
+/**
+ * Apply a delivery event to the email it belongs to.
+ * Returns `ignored` for event types we do not track and emails we did not
+ * send, and `duplicate` when the event id was already applied.
+ */
+export async function handleEmailEvent(eventId: string, event: ResendEmailEvent): Promise<EmailEventResult> {
+  const type = EVENT_TYPES[event.type];
+  if (!type || !event.data?.email_id) {
+    return 'ignored';
+  }
+
+  const client = getServiceClient();
+
+  const { data, error: logError } = await client
+    .from('email_log')
+    .select('id, shop_id, quote_id, type, to_address, open_count, click_count, first_opened_at, first_clicked_at, quote:quotes(id, shop_id, quote_number, status, customer_id, customer_name)')
+    .eq('provider_message_id', event.data.email_id)
+    .maybeSingle();
+
+  if (logError) {
+    throw new Error(`Failed to load email log: ${logError.message}`);
+  }
+
+  const log = data as EmailLogRow | null;
+  if (!log) {
+    return 'ignored';
+  }
+
+  const occurredAt = event.created_at || new Date().toISOString();
+
+  const { error: insertError } = await client.from('email_events').insert({
+    event_id: eventId,
+    email_log_id: log.id,
+    provider_message_id: event.data.email_id,
+    type,
+    payload: event.data,
+    occurred_at: occurredAt,
+  });
+
+  if (insertError) {
+    // 23505 = unique_violation: the provider retried an event we already applied
+    if (insertError.code === '23505') {
+      return 'duplicate';
+    }
+    throw new Error(`Failed to record email event: ${insertError.message}`);
+  }
+
+  try {
+    await applyEmailEvent(log, type, event, occurredAt);
+  } catch (error) {
+    // Forget the event so the provider's retry applies it again
+    await client.from('email_events').delete().eq('event_id', eventId);
+    throw error;
+  }
+
+  return 'applied';
+}
+
+async function applyEmailEvent(
+  log: EmailLogRow,
+  type: EmailEventType,
+  event: ResendEmailEvent,
+  occurredAt: string
+): Promise<void> {
+  const client = getServiceClient();
+  const bounce = event.data.bounce;
+  const bounceReason = bounce?.message || bounce?.subType || null;
+  const isFirstOpen = type === 'opened' && !log.first_opened_at;
+  const isFirstClick = type === 'clicked' && !log.first_clicked_at;
+
+  const logUpdates: Record<EmailEventType, Record<string, unknown>> = {
+    delivered: { delivery_status: 'delivered', delivered_at: occurredAt },
+    bounced: { delivery_status: 'bounced', bounced_at: occurredAt, bounce_reason: bounceReason },
+    complained: { delivery_status: 'complained' },
+    opened: { open_count: log.open_count + 1, ...(isFirstOpen && { first_opened_at: occurredAt }) },
+    clicked: { click_count: log.click_count + 1, ...(isFirstClick && { first_clicked_at: occurredAt }) },
+  };
+
+  const { error: updateError } = await client.from('email_log')
+    .update(logUpdates[type])
+    .eq('id', log.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update email log: ${updateError.message}`);
+  }
+
+  if (!CUSTOMER_EMAIL_TYPES.includes(log.type)) {
+    return;
+  }
+
+  // Transient bounces can still be delivered on a later attempt; permanent ones mean a dead address
+  if (type === 'bounced' && (bounce?.type ?? 'Permanent') === 'Permanent') {
+    await flagBouncedCustomer(log, occurredAt, bounceReason);
+  }
+
+  const quote = log.quote;
+  if (!quote) {
+    return;
+  }
+
+  // Opens and clicks repeat; only the first of each is worth a line in the feed
+  if ((type === 'opened' && !isFirstOpen) || (type === 'clicked' && !isFirstClick)) {
+    return;
+  }
+
+  const descriptions: Record<EmailEventType, string> = {
+    delivered: `Quote ${quote.quote_number} email delivered to ${log.to_address}`,
+    bounced: `Quote ${quote.quote_number} email to ${log.to_address} bounced${bounceReason ? `: ${bounceReason}` : ''}`,
+    complained: `Quote ${quote.quote_number} email marked as spam by ${log.to_address}`,
+    opened: `Quote ${quote.quote_number} email opened by ${log.to_address}`,
+    clicked: `Quote ${quote.quote_number} email link clicked by ${log.to_address}`,
+  };
+
+  await client.from('activities').insert({
+    type: ACTIVITY_TYPES[type],
+    quote_id: quote.id,
+    quote_number: quote.quote_number,
+    customer_id: quote.customer_id,
+    customer_name: quote.customer_name,
+    user_id: EMAIL_TRACKING_USER.id,
+    user_name: EMAIL_TRACKING_USER.name,
+    description: descriptions[type],
+    metadata: { emailLogId: log.id, emailType: log.type, ...(event.data.click?.link && { link: event.data.click.link }) },
+    created_at: occurredAt,
+  });
+
+  if (type === 'clicked') {
+    await markQuoteViewed(log, event);
+  }
+}
+
+/**
+ * Move a quote to VIEWED after the buyer clicked through from its email,
+ * when the shop's workflow lets it go there from its current status
+ */
+async function markQuoteViewed(log: EmailLogRow, event: ResendEmailEvent): Promise<void> {
+  const quote = log.quote as NonNullable<EmailLogRow['quote']>;
+  const client = getServiceClient();
+
+  const workflow = await getShopWorkflow(client, quote.shop_id);
+  if (!validateTransition(quote.status, QuoteStatus.VIEWED, { workflow }).success) {
+    return;
+  }
+
+  const buyerName = quote.customer_name || log.to_address;
+  const metadata = {
+    emailLogId: log.id,
+    link: event.data.click?.link,
+    ipAddress: event.data.click?.ipAddress,
+    userAgent: event.data.click?.userAgent,
+  };
+
+  // A conflict means the buyer page or another event got there first
+  await transitionQuoteStatus(client, {
+    quoteId: quote.id,
+    fromStatus: quote.status,
+    toStatus: QuoteStatus.VIEWED,
+    changedBy: 'customer',
+    changedByName: buyerName,
+    comment: 'Opened the quote link from the email',
+    metadata,
+    description: `Quote ${quote.quote_number} viewed by ${buyerName}`,
+  });
+}
+
+/**
+ * Flag the customer an email hard-bounced for: the quote's customer when
+ * known, otherwise the shop's customers with that address
+ */
+async function flagBouncedCustomer(log: EmailLogRow, bouncedAt: string, reason: string | null): Promise<void> {
+  const updates = { email_bounced_at: bouncedAt, email_bounce_reason: reason };
+  const client = getServiceClient();
+
+  if (log.quote?.customer_id) {
+    await client.from('customers').update(updates).eq('id', log.quote.customer_id);
+  } else if (log.shop_id) {
+    await client
+      .from('customers')
+      .update(updates)
+      .eq('shop_id', log.shop_id)
+      .ilike('email', escapeLikePattern(log.to_address));
+  }
+}
@@ -0,0 +1,52 @@
+// Encryption for secrets stored at rest (e.g. Shopify access tokens)
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const VERSION = 'v1';
+
+/**
+ * Derive the 256-bit key from TOKEN_ENCRYPTION_KEY
+ */
+function getEncryptionKey(): Buffer {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('TOKEN_ENCRYPTION_KEY not set');
+  }
+  return crypto.createHash('sha256').update(secret, 'utf8').digest();
+}
+
+/**
+ * Encrypt a secret with AES-256-GCM
+ * @param plaintext - Value to encrypt
+ * @returns Versioned payload in the form `v1:iv:authTag:ciphertext` (base64 parts)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString('base64'), authTag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a payload produced by encryptSecret
+ * @param payload - Encrypted payload
+ * @returns The original plaintext
+ * @throws If the payload is malformed, tampered with or encrypted with another key
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(':');
+  if (version !== VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error('Unsupported encrypted payload');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -0,0 +1,316 @@
+/**
+ * Exchange Rates
+ * A shop's rates from its base currency to the currencies it quotes in: row
+ * mapping and persistence for exchange_rates, parsing of imported rate files,
+ * and conversion of quote amounts to the base currency for analytics
+ * @module lib/exchangeRates
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExchangeRate, ExchangeRateSource } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Raw exchange_rates row
+ */
+export interface ExchangeRateRow {
+  shop_id: string;
+  currency: string;
+  // DECIMAL columns come back as strings
+  rate: number | string;
+  source: ExchangeRateSource;
+  updated_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExchangeRateInput {
+  currency: string;
+  rate: number;
+}
+
+export interface ParsedRatesFile {
+  rates: ExchangeRateInput[];
+  /** One message per line or entry that could not be read */
+  errors: string[];
+}
+
+/**
+ * What a quote amount needs to be converted: the rates as they stand now,
+ * for quotes that were never sent and so have no rate of their own
+ */
+export interface BaseCurrencyContext {
+  baseCurrency: string;
+  rates: Pick<ExchangeRate, 'currency' | 'rate'>[];
+}
+
+/** The quote fields conversion reads */
+export interface ConvertibleQuote {
+  total: number | string | null;
+  currency?: string | null;
+  base_currency?: string | null;
+  exchange_rate?: number | string | null;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Raised by the database when a quote is sent in a currency the shop has no
+ * rate for; PostgREST answers it with HTTP 422
+ */
+export const MISSING_EXCHANGE_RATE_CODE = 'PT422';
+
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+// Offered when the runtime cannot list the ISO codes it knows
+const COMMON_CURRENCIES = [
+  'AUD', 'BRL', 'CAD', 'CHF', 'CNY', 'DKK', 'EUR', 'GBP', 'HKD', 'INR',
+  'JPY', 'MXN', 'NOK', 'NZD', 'PLN', 'SEK', 'SGD', 'USD', 'ZAR',
+];
+
+/**
+ * Every ISO 4217 code a quote can be priced in
+ */
+export function listCurrencyCodes(): string[] {
+  return typeof Intl.supportedValuesOf === 'function'
+    ? Intl.supportedValuesOf('currency')
+    : COMMON_CURRENCIES;
+}
+
+/**
+ * "EUR - Euro", for currency pickers
+ */
+export function getCurrencyLabel(code: string, locale = 'en'): string {
+  try {
+    const name = new Intl.DisplayNames([locale], { type: 'currency' }).of(code);
+    return name && name !== code ? `${code} - ${name}` : code;
+  } catch {
+    return code;
+  }
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Map an exchange_rates row to an ExchangeRate
+ */
+export function mapExchangeRateRow(row: ExchangeRateRow): ExchangeRate {
+  return {
+    currency: row.currency,
+    rate: Number(row.rate),
+    source: row.source,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Revive the dates of rates that came through JSON
+ */
+export function parseExchangeRatesResponse(rates: ExchangeRate[]): ExchangeRate[] {
+  return rates.map((rate) => ({ ...rate, updatedAt: new Date(rate.updatedAt) }));
+}
+
+// ============================================================================
+// Import Files
+// ============================================================================
+
+function toRateInput(currency: unknown, rate: unknown, where: string, errors: string[]): ExchangeRateInput | null {
+  const code = String(currency ?? '').trim().toUpperCase();
+  const value = typeof rate === 'number' ? rate : Number(String(rate ?? '').trim());
+
+  if (!CURRENCY_CODE_PATTERN.test(code)) {
+    errors.push(`${where}: "${String(currency ?? '')}" is not a 3-letter currency code`);
+    return null;
+  }
+  if (!Number.isFinite(value) || value <= 0) {
+    errors.push(`${where}: the rate for ${code} must be a positive number`);
+    return null;
+  }
+  return { currency: code, rate: value };
+}
+
+function parseJsonRates(content: string, baseCurrency: string, errors: string[]): ExchangeRateInput[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    errors.push('The file is not valid JSON');
+    return [];
+  }
+
+  // A list of { currency, rate } entries
+  if (Array.isArray(data)) {
+    return data.flatMap((entry, index) => {
+      const rate = toRateInput(entry?.currency, entry?.rate, `Entry ${index + 1}`, errors);
+      return rate ? [rate] : [];
+    });
+  }
+
+  // The { base, rates: { EUR: 0.92 } } shape rate feeds publish
+  const feed = data as { base?: unknown; rates?: unknown } | null;
+  if (!feed || typeof feed.rates !== 'object' || feed.rates === null) {
+    errors.push('Expected a list of { currency, rate } or an object with "rates"');
+    return [];
+  }
+  if (feed.base != null && String(feed.base).toUpperCase() !== baseCurrency) {
+    errors.push(`The rates are quoted against ${String(feed.base).toUpperCase()}, not the base currency ${baseCurrency}`);
+    return [];
+  }
+
+  return Object.entries(feed.rates as Record<string, unknown>).flatMap(([currency, value]) => {
+    const rate = toRateInput(currency, value, currency, errors);
+    return rate ? [rate] : [];
+  });
+}
+
+function parseCsvRates(content: string, errors: string[]): ExchangeRateInput[] {
+  const rates: ExchangeRateInput[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const cells = line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+    if (cells.every((cell) => cell === '')) return;
+    // A header row names its columns instead of giving a rate
+    if (index === 0 && Number.isNaN(Number(cells[1]))) return;
+
+    const rate = toRateInput(cells[0], cells[1], `Line ${index + 1}`, errors);
+    if (rate) rates.push(rate);
+  });
+
+  return rates;
+}
+
+/**
+ * Read an imported rates file: CSV lines of `currency,rate` (a header row is
+ * skipped), a JSON list of `{ currency, rate }`, or a JSON feed of the form
+ * `{ "base": "USD", "rates": { "EUR": 0.92 } }`. Rates are units of the
+ * currency per unit of the base currency; the base currency itself is left
+ * out, and the last rate wins when a currency is given twice.
+ */
+export function parseExchangeRatesFile(content: string, baseCurrency: string): ParsedRatesFile {
+  const errors: string[] = [];
+  const trimmed = content.trim();
+  const parsed = trimmed.startsWith('{') || trimmed.startsWith('[')
+    ? parseJsonRates(trimmed, baseCurrency, errors)
+    : parseCsvRates(trimmed, errors);
+
+  const byCurrency = new Map<string, ExchangeRateInput>();
+  for (const rate of parsed) {
+    if (rate.currency !== baseCurrency) {
+      byCurrency.set(rate.currency, rate);
+    }
+  }
+
+  return { rates: [...byCurrency.values()], errors };
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * A quote's total in the base currency. Sent quotes use the rate stamped
+ * when they were sent; others use today's rate. Null when the quote's
+ * currency has no rate at all.
+ */
+export function toBaseCurrency(quote: ConvertibleQuote, { baseCurrency, rates }: BaseCurrencyContext): number | null {
+  const total = Number(quote.total ?? 0);
+  const currency = quote.currency || 'USD';
+
+  let rate: number | undefined;
+  if (quote.exchange_rate != null && quote.base_currency === baseCurrency) {
+    rate = Number(quote.exchange_rate);
+  } else if (currency === baseCurrency) {
+    rate = 1;
+  } else {
+    rate = rates.find((entry) => entry.currency === currency)?.rate;
+  }
+
+  if (!rate) {
+    return null;
+  }
+  return Math.round((total / rate) * 100) / 100;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * A shop's rates, by currency code
+ */
+export async function listExchangeRates(client: SupabaseClient, shopId: string): Promise<ExchangeRate[]> {
+  const { data, error } = await client
+    .from('exchange_rates')
+    .select('*')
+    .eq('shop_id', shopId)
+    .order('currency', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load exchange rates: ${error.message}`);
+  }
+
+  return ((data ?? []) as ExchangeRateRow[]).map(mapExchangeRateRow);
+}
+
+/**
+ * Add or update rates; currencies not in `rates` keep theirs
+ */
+export async function upsertExchangeRates(
+  client: SupabaseClient,
+  shopId: string,
+  rates: ExchangeRateInput[],
+  source: ExchangeRateSource,
+  updatedBy?: string
+): Promise<void> {
+  if (rates.length === 0) {
+    return;
+  }
+
+  const { error } = await client.from('exchange_rates')
+    .upsert(rates.map((rate) => ({
+      shop_id: shopId,
+      currency: rate.currency,
+      rate: rate.rate,
+      source,
+      updated_by: updatedBy ?? null,
+    })), { onConflict: 'shop_id,currency' });
+
+  if (error) {
+    throw new Error(`Failed to save exchange rates: ${error.message}`);
+  }
+}
+
+/**
+ * Make `rates` the shop's whole rates table, dropping currencies left out
+ * @returns The rates as stored
+ */
+export async function replaceExchangeRates(
+  client: SupabaseClient,
+  shopId: string,
+  rates: ExchangeRateInput[],
+  updatedBy?: string
+): Promise<ExchangeRate[]> {
+  await upsertExchangeRates(client, shopId, rates, 'manual', updatedBy);
+
+  let removal = client
+    .from('exchange_rates')
+    .delete()
+    .eq('shop_id', shopId);
+  if (rates.length > 0) {
+    removal = removal.not('currency', 'in', `(${rates.map((rate) => rate.currency).join(',')})`);
+  }
+
+  const { error } = await removal;
+  if (error) {
+    throw new Error(`Failed to remove exchange rates: ${error.message}`);
+  }
+
+  return listExchangeRates(client, shopId);
+}
@@ -4,8 +4,13 @@
  * @module lib/expiration
  */
 
-import { supabase } from '@/lib/supabase';
-import { getActivityTypeForStatusChange } from '@/lib/quoteWorkflow';
+import { getQuoteCcAddresses } from '@/lib/customerContacts';
+import { createPublicQuoteUrl } from '@/lib/quoteAccess';
+import { transitionQuoteStatus } from '@/lib/quoteTransitions';
+import { getMerchantSettings } from '@/lib/settings';
+// Runs from cron without a user session, so this uses the service role
+import { getServiceClient } from '@/lib/supabaseServer';
+import { formatCurrency } from '@/lib/utils';
 import { QuoteStatus } from '@/types/quote';
 
 // ============================================================================
@@ -47,6 +52,30 @@ export const DEFAULT_REMINDER_CONFIG: ReminderConfig = {
   companyName: process.env.COMPANY_NAME || 'QuoteGen',
 };
 
+/**
+ * Reminder settings for one shop: its merchant settings over the run's config.
+ * A shop can switch reminders off and sign them with its own company name;
+ * the reminder days stay those of the run.
+ */
+async function getShopReminderConfig(shopId: string | undefined, config: ReminderConfig): Promise<ReminderConfig> {
+  if (!shopId) {
+    return config;
+  }
+
+  try {
+    const settings = await getMerchantSettings(shopId);
+    return {
+      ...config,
+      enabled: config.enabled && settings.quotes.enableAutoReminders,
+      fromEmail: settings.email.senderEmail || config.fromEmail,
+      companyName: settings.company.name || config.companyName,
+    };
+  } catch (error) {
+    console.error(`Error loading reminder settings for ${shopId}:`, error);
+    return config;
+  }
+}
+
 // ============================================================================
 // Expiration Checking
 // ============================================================================
@@ -66,7 +95,7 @@ export async function checkAndExpireQuotes(): Promise<ExpirationResult> {
     const now = new Date().toISOString();
 
     // Find quotes that have expired (expires_at < now) but haven't been marked as expired
-    const { data: expiredQuotes, error: fetchError } = await supabase
+    const { data: expiredQuotes, error: fetchError } = await getServiceClient()
       .from('quotes')
       .select('id, quote_number, customer_email, customer_name, expires_at, status')
       .lt('expires_at', now)
@@ -89,8 +118,9 @@ export async function checkAndExpireQuotes(): Promise<ExpirationResult> {
     // Update each expired quote
     for (const quote of expiredQuotes) {
       try {
-        await expireQuote(quote.id, quote.quote_number);
-        result.expired++;
+        if (await expireQuote(quote.id, quote.quote_number, quote.status)) {
+          result.expired++;
+        }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(`Failed to expire quote ${quote.id}:`, error);
@@ -108,54 +138,31 @@ export async function checkAndExpireQuotes(): Promise<ExpirationResult> {
 }
 
 /**
- * Expire a single quote and record the status change
+ * Expire a single quote and record the status change. Returns false when the
+ * quote moved on (accepted, revised, ...) since it was read, leaving it alone.
  */
-async function expireQuote(quoteId: string, quoteNumber: string): Promise<void> {
-  const now = new Date().toISOString();
-
-  // Start a transaction
-  const { error: historyError } = await supabase
-    .from('quote_status_history')
-    .insert({
-      quote_id: quoteId,
-      from_status: QuoteStatus.SENT, // Assume sent was previous state
-      to_status: QuoteStatus.EXPIRED,
-      changed_by: 'system',
-      changed_by_name: 'System',
-      changed_at: now,
-      comment: 'Quote automatically expired',
-      metadata: { reason: 'expired', auto: true },
-    });
+async function expireQuote(quoteId: string, quoteNumber: string, status: QuoteStatus): Promise<boolean> {
+  const result = await transitionQuoteStatus(getServiceClient(), {
+    quoteId,
+    fromStatus: status,
+    toStatus: QuoteStatus.EXPIRED,
+    changedBy: 'system',
+    changedByName: 'System',
+    comment: 'Quote automatically expired',
+    metadata: { reason: 'expired', auto: true },
+    description: 'Quote automatically expired',
+  });
 
-  if (historyError) {
-    console.error('Error recording status history:', historyError);
-    throw new Error(`Failed to record history: ${historyError.message}`);
+  if (result.status === 'not_found') {
+    throw new Error('Quote no longer exists');
   }
-
-  // Update quote status
-  const { error: updateError } = await supabase
-    .from('quotes')
-    .update({
-      status: QuoteStatus.EXPIRED,
-      updated_at: now,
-    })
-    .eq('id', quoteId);
-
-  if (updateError) {
-    console.error('Error updating quote status:', updateError);
-    throw new Error(`Failed to update status: ${updateError.message}`);
+  if (result.status === 'conflict') {
+    console.log(`Quote ${quoteNumber} changed status before it could expire; skipping`);
+    return false;
   }
 
-  // Create activity record
-  await supabase.from('activities').insert({
-    type: getActivityTypeForStatusChange(QuoteStatus.EXPIRED),
-    quote_id: quoteId,
-    quote_number: quoteNumber,
-    description: 'Quote automatically expired',
-    created_at: now,
-  });
-
   console.log(`Quote ${quoteNumber} has been marked as expired`);
+  return true;
 }
 
 // ============================================================================
@@ -180,6 +187,16 @@ export async function sendExpirationReminders(
     return result;
   }
 
+  // Settings are loaded once per shop for the whole run
+  const shopConfigs = new Map<string, Promise<ReminderConfig>>();
+  const getShopConfig = (shopId: string | undefined) => {
+    const key = shopId ?? '';
+    if (!shopConfigs.has(key)) {
+      shopConfigs.set(key, getShopReminderConfig(shopId, config));
+    }
+    return shopConfigs.get(key) as Promise<ReminderConfig>;
+  };
+
   try {
     const now = new Date();
 
@@ -195,9 +212,9 @@ export async function sendExpirationReminders(
       endOfDay.setHours(23, 59, 59, 999);
 
       // Find quotes expiring on this day
-      const { data: expiringQuotes, error: fetchError } = await supabase
+      const { data: expiringQuotes, error: fetchError } = await getServiceClient()
         .from('quotes')
-        .select('id, quote_number, customer_email, customer_name, expires_at, title, total, status')
+        .select('id, shop_id, quote_number, customer_id, customer_email, customer_name, expires_at, title, total, currency, status')
         .gte('expires_at', startOfDay.toISOString())
         .lte('expires_at', endOfDay.toISOString())
         .in('status', [QuoteStatus.SENT, QuoteStatus.VIEWED]);
@@ -217,6 +234,11 @@ export async function sendExpirationReminders(
       // Send reminder for each quote
       for (const quote of expiringQuotes) {
         try {
+          const shopConfig = await getShopConfig(quote.shop_id ?? undefined);
+          if (!shopConfig.enabled) {
+            continue;
+          }
+
           // Check if reminder already sent for this quote at this threshold
           const alreadySent = await hasReminderBeenSent(quote.id, days);
           if (alreadySent) {
@@ -224,7 +246,7 @@ export async function sendExpirationReminders(
             continue;
           }
 
-          await sendReminderEmail(quote, days, config);
+          await sendReminderEmail(quote, days, shopConfig);
           await recordReminderSent(quote.id, days);
           result.remindersSent++;
         } catch (error) {
@@ -248,7 +270,7 @@ export async function sendExpirationReminders(
  * Check if a reminder has already been sent for this quote at this threshold
  */
 async function hasReminderBeenSent(quoteId: string, daysBeforeExpiry: number): Promise<boolean> {
-  const { data, error } = await supabase
+  const { data, error } = await getServiceClient()
     .from('quote_reminders')
     .select('id')
     .eq('quote_id', quoteId)
@@ -266,7 +288,7 @@ async function hasReminderBeenSent(quoteId: string, daysBeforeExpiry: number): P
  * Record that a reminder has been sent
  */
 async function recordReminderSent(quoteId: string, daysBeforeExpiry: number): Promise<void> {
-  const { error } = await supabase.from('quote_reminders').insert({
+  const { error } = await getServiceClient().from('quote_reminders').insert({
     quote_id: quoteId,
     days_before_expiry: daysBeforeExpiry,
     sent_at: new Date().toISOString(),
@@ -298,8 +320,10 @@ async function sendReminderEmail(
   const quoteNumber = quote.quote_number as string;
   const customerName = quote.customer_name as string | undefined;
   const total = quote.total as number;
+  const currency = quote.currency as string | undefined;
 
   const daysText = daysUntilExpiry === 1 ? 'tomorrow' : `in ${daysUntilExpiry} days`;
+  const viewQuoteUrl = await createPublicQuoteUrl(quote.id as string, 'system');
   
   const subject = `Reminder: Quote ${quoteNumber} expires ${daysText}`;
   const html = generateReminderEmailTemplate({
@@ -307,14 +331,23 @@ async function sendReminderEmail(
     quoteNumber,
     customerName,
     total,
+    currency,
     daysUntilExpiry,
     companyName: config.companyName,
+    viewQuoteUrl,
   });
 
   await sendEmail({
     to: customerEmail,
+    cc: await getQuoteCcAddresses(getServiceClient(), {
+      customer_id: quote.customer_id as string | undefined,
+      customer_email: customerEmail,
+    }),
     subject,
     html,
+    type: 'quote_reminder',
+    shopId: quote.shop_id as string | undefined,
+    quoteId: quote.id as string,
   });
 
   console.log(`Reminder sent for quote ${quoteNumber} (${daysUntilExpiry} days until expiry)`);
@@ -328,15 +361,19 @@ function generateReminderEmailTemplate({
   quoteNumber,
   customerName,
   total,
+  currency,
   daysUntilExpiry,
   companyName,
+  viewQuoteUrl,
 }: {
   quoteTitle: string;
   quoteNumber: string;
   customerName?: string;
   total?: number;
+  currency?: string;
   daysUntilExpiry: number;
   companyName: string;
+  viewQuoteUrl: string;
 }): string {
   const daysText = daysUntilExpiry === 1 ? 'tomorrow' : `in ${daysUntilExpiry} days`;
   const greeting = customerName ? `Hello ${customerName},` : 'Hello,';
@@ -430,7 +467,7 @@ function generateReminderEmailTemplate({
           <div class="quote-box">
             <div class="quote-title">${quoteTitle}</div>
             <div class="quote-number">Quote #${quoteNumber}</div>
-            ${total ? `<div class="quote-total">${formatCurrency(total)}</div>` : ''}
+            ${total ? `<div class="quote-total">${formatCurrency(total, currency)}</div>` : ''}
           </div>
           
           <div class="urgency">
@@ -439,7 +476,7 @@ function generateReminderEmailTemplate({
           
           <p>If you have any questions or need more time to decide, please don't hesitate to reach out to us.</p>
           
-          <a href="#" class="button">View Quote</a>
+          <a href="${viewQuoteUrl}" class="button">View Quote</a>
         </div>
         
         <div class="footer">
@@ -452,16 +489,6 @@ function generateReminderEmailTemplate({
   `;
 }
 
-/**
- * Format currency amount
- */
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(amount);
-}
-
 // ============================================================================
 // Combined Processing
 // ============================================================================
@@ -0,0 +1,186 @@
+/**
+ * Mail Transports
+ * Delivers a fully built message through Resend, SMTP or a local outbox.
+ * The outbox writes each message as an .eml file so emails can be checked
+ * in development and tests without network access.
+ * @module lib/mailTransport
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { Resend } from 'resend';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MailTransportName = 'resend' | 'smtp' | 'outbox';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  cc?: string[];
+  replyTo?: string;
+  subject: string;
+  html: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  name: MailTransportName;
+  /**
+   * Deliver a message
+   * @returns The provider's message ID
+   * @throws When the provider rejects the message
+   */
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+/**
+ * Resend API transport
+ */
+export function createResendTransport(apiKey: string): MailTransport {
+  const resend = new Resend(apiKey);
+
+  return {
+    name: 'resend',
+    async send(message) {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: message.to,
+        cc: message.cc,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        html: message.html,
+        attachments: message.attachments?.map(({ filename, content, contentType }) => ({
+          filename,
+          content,
+          contentType,
+        })),
+      });
+
+      if (error || !data) {
+        throw new Error(`Resend rejected the email: ${error?.message || 'no message ID returned'}`);
+      }
+
+      return { messageId: data.id };
+    },
+  };
+}
+
+/**
+ * SMTP transport
+ */
+export function createSmtpTransport(config: {
+  host: string;
+  port: number;
+  user?: string;
+  password?: string;
+}): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    // Port 465 is implicit TLS; other ports upgrade with STARTTLS
+    secure: config.port === 465,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+/**
+ * Local outbox transport: writes each message to `<dir>/<timestamp>-<id>.eml`
+ */
+export function createOutboxTransport(dir: string): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'outbox',
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      const messageId = info.messageId.replace(/^<|>$/g, '');
+      const fileName = `${Date.now()}-${messageId.replace(/[^A-Za-z0-9.-]/g, '_')}.eml`;
+
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, fileName), info.message as Buffer);
+
+      return { messageId };
+    },
+  };
+}
+
+// ============================================================================
+// Transport Selection
+// ============================================================================
+
+let transport: MailTransport | null = null;
+
+/**
+ * Resolve the transport from the environment.
+ * MAIL_TRANSPORT picks one explicitly; otherwise Resend is used when
+ * RESEND_API_KEY is set, then SMTP when SMTP_HOST is set. Outside
+ * production the outbox is the fallback.
+ * @throws When production has no transport configured
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) {
+    return transport;
+  }
+
+  const configured = process.env.MAIL_TRANSPORT as MailTransportName | undefined;
+  const name: MailTransportName | undefined = configured
+    || (process.env.RESEND_API_KEY ? 'resend' : undefined)
+    || (process.env.SMTP_HOST ? 'smtp' : undefined)
+    || (process.env.NODE_ENV !== 'production' ? 'outbox' : undefined);
+
+  switch (name) {
+    case 'resend':
+      if (!process.env.RESEND_API_KEY) {
+        throw new Error('RESEND_API_KEY not set');
+      }
+      transport = createResendTransport(process.env.RESEND_API_KEY);
+      break;
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST not set');
+      }
+      transport = createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 587),
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+      break;
+    case 'outbox':
+      transport = createOutboxTransport(process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '.outbox'));
+      break;
+    default:
+      throw new Error(configured ? `Unknown MAIL_TRANSPORT "${configured}"` : 'No mail transport is configured');
+  }
+
+  return transport;
+}
+
+/**
+ * Forget the cached transport so the next send re-reads the environment
+ */
+export function resetMailTransport(): void {
+  transport = null;
+}
@@ -0,0 +1,259 @@
+/**
+ * Shop Members
+ * Supabase Auth users and their role in a shop's workspace (shop_members),
+ * plus the checks route handlers run against the member the middleware resolved
+ * @module lib/members
+ */
+
+import { NextResponse } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+// Verifying tokens and inviting users needs the Auth admin API, so this uses the service role
+import { getServiceClient } from '@/lib/supabaseServer';
+import { escapeLikePattern } from '@/lib/utils';
+import { getRequestMember, hasPermission, type MemberPermission, type RequestMember } from '@/lib/permissions';
+import { MemberRole, type ApiResponse, type ShopMember } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ShopMemberRow {
+  id: string;
+  shop_id: string;
+  user_id: string;
+  email: string;
+  name: string;
+  role: MemberRole;
+  created_at: string;
+}
+
+export interface InviteMemberInput {
+  email: string;
+  name?: string;
+  role: MemberRole;
+}
+
+const MEMBER_SELECT = 'id, shop_id, user_id, email, name, role, created_at';
+
+export function mapMemberRow(row: ShopMemberRow): ShopMember {
+  return {
+    id: row.id,
+    shopId: row.shop_id,
+    userId: row.user_id,
+    email: row.email,
+    name: row.name || row.email,
+    role: row.role,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Verify a Supabase access token
+ * @returns The signed-in user, or null for a missing, expired or forged token
+ */
+export async function getUserFromAccessToken(accessToken: string): Promise<User | null> {
+  const { data, error } = await getServiceClient().auth.getUser(accessToken);
+  if (error || !data?.user) {
+    return null;
+  }
+  return data.user;
+}
+
+/**
+ * Find a user's membership: of the given shop, or of the first shop they
+ * joined when the request does not name one
+ */
+export async function resolveShopMember(userId: string, shopId?: string | null): Promise<ShopMember | null> {
+  let query = getServiceClient()
+    .from('shop_members')
+    .select(MEMBER_SELECT)
+    .eq('user_id', userId);
+
+  if (shopId) {
+    query = query.eq('shop_id', shopId);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load shop member: ${error.message}`);
+  }
+
+  return data ? mapMemberRow(data as ShopMemberRow) : null;
+}
+
+// ============================================================================
+// Management
+// ============================================================================
+
+/**
+ * List a shop's members, owner first
+ */
+export async function listShopMembers(shopId: string): Promise<ShopMember[]> {
+  const { data, error } = await getServiceClient()
+    .from('shop_members')
+    .select(MEMBER_SELECT)
+    .eq('shop_id', shopId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load shop members: ${error.message}`);
+  }
+
+  const members = ((data ?? []) as ShopMemberRow[]).map(mapMemberRow);
+  return [
+    ...members.filter((member) => member.role === MemberRole.OWNER),
+    ...members.filter((member) => member.role !== MemberRole.OWNER),
+  ];
+}
+
+/**
+ * Add a user to a shop. New addresses get a Supabase Auth invite email;
+ * users already working in another shop are added directly.
+ * @throws When the user is already a member or cannot be invited
+ */
+export async function inviteShopMember(
+  shopId: string,
+  input: InviteMemberInput,
+  invitedBy: string
+): Promise<ShopMember> {
+  const client = getServiceClient();
+
+  const { data: existing } = await client
+    .from('shop_members')
+    .select('user_id')
+    .ilike('email', escapeLikePattern(input.email))
+    .limit(1)
+    .maybeSingle();
+
+  let userId = (existing as { user_id: string } | null)?.user_id;
+
+  if (!userId) {
+    const { data, error } = await client.auth.admin.inviteUserByEmail(input.email, {
+      redirectTo: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/login?shop=${encodeURIComponent(shopId)}`,
+    });
+
+    if (error || !data?.user) {
+      throw new Error(`Failed to invite ${input.email}: ${error?.message || 'no user returned'}`);
+    }
+    userId = data.user.id;
+  }
+
+  const { data, error } = await client.from('shop_members')
+    .insert({
+      shop_id: shopId,
+      user_id: userId,
+      email: input.email,
+      name: input.name || '',
+      role: input.role,
+      invited_by: invitedBy,
+    })
+    .select(MEMBER_SELECT)
+    .single();
+
+  if (error) {
+    // 23505 = unique_violation on (shop_id, user_id)
+    throw new Error(error.code === '23505' ? `${input.email} is already a member` : `Failed to add member: ${error.message}`);
+  }
+
+  return mapMemberRow(data as ShopMemberRow);
+}
+
+/**
+ * Remove a member from a shop; the owner cannot be removed
+ * @returns Whether a member was removed
+ */
+export async function removeShopMember(shopId: string, memberId: string): Promise<boolean> {
+  const { data, error } = await getServiceClient().from('shop_members')
+    .delete()
+    .eq('id', memberId)
+    .eq('shop_id', shopId)
+    .neq('role', MemberRole.OWNER)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to remove member: ${error.message}`);
+  }
+
+  return Array.isArray(data) && data.length > 0;
+}
+
+/**
+ * Make the user who installed the app the owner of a shop that has no members yet
+ * @returns The new owner, or null when the shop already has members
+ */
+export async function claimShopOwnership(shopId: string, user: User): Promise<ShopMember | null> {
+  const client = getServiceClient();
+
+  const { count, error: countError } = await client
+    .from('shop_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('shop_id', shopId);
+
+  if (countError) {
+    throw new Error(`Failed to check shop members: ${countError.message}`);
+  }
+
+  if ((count ?? 0) > 0) {
+    return null;
+  }
+
+  const { data, error } = await client.from('shop_members')
+    .insert({
+      shop_id: shopId,
+      user_id: user.id,
+      email: user.email ?? '',
+      name: (user.user_metadata?.full_name as string | undefined) ?? '',
+      role: MemberRole.OWNER,
+    })
+    .select(MEMBER_SELECT)
+    .single();
+
+  if (error) {
+    // Another install claimed it first; the unique owner index keeps one
+    if (error.code === '23505') {
+      return null;
+    }
+    throw new Error(`Failed to add shop owner: ${error.message}`);
+  }
+
+  return mapMemberRow(data as ShopMemberRow);
+}
+
+// ============================================================================
+// Route Guards
+// ============================================================================
+
+/**
+ * Check the request's member for a permission
+ * @returns An error response to return as-is, or null when the member may proceed
+ */
+export function requirePermission(
+  request: Pick<Request, 'headers'>,
+  permission: MemberPermission
+): NextResponse<ApiResponse<never>> | null {
+  const member: RequestMember | null = getRequestMember(request);
+
+  if (!member) {
+    return NextResponse.json<ApiResponse<never>>({
+      success: false,
+      error: { code: 'UNAUTHORIZED', message: 'Sign in to continue' },
+    }, { status: 401 });
+  }
+
+  if (!hasPermission(member.role, permission)) {
+    return NextResponse.json<ApiResponse<never>>({
+      success: false,
+      error: { code: 'FORBIDDEN', message: 'You do not have permission to perform this action' },
+    }, { status: 403 });
+  }
+
+  return null;
+}
@@ -0,0 +1,141 @@
+/**
+ * Workspace Roles and Permissions
+ * What each shop member role may do, and how the API middleware hands the
+ * resolved member to route handlers. Free of server imports so the UI can
+ * use the same checks to hide actions.
+ * @module lib/permissions
+ */
+
+import { MemberRole } from '@/types/quote';
+
+// ============================================================================
+// Permissions
+// ============================================================================
+
+export type MemberPermission =
+  /** Create, edit, send and move quotes through the workflow */
+  | 'quotes:write'
+  /** Force a quote out of a final status (rejected, converted) */
+  | 'quotes:reopen'
+  /** Approve or reject quotes held back for their discounts */
+  | 'quotes:approve'
+  | 'customers:write'
+  | 'customers:delete'
+  | 'settings:manage'
+  | 'members:manage';
+
+const ROLE_PERMISSIONS: Record<MemberRole, MemberPermission[]> = {
+  [MemberRole.OWNER]: ['quotes:write', 'quotes:reopen', 'quotes:approve', 'customers:write', 'customers:delete', 'settings:manage', 'members:manage'],
+  [MemberRole.ADMIN]: ['quotes:write', 'quotes:reopen', 'quotes:approve', 'customers:write', 'customers:delete', 'settings:manage', 'members:manage'],
+  [MemberRole.SALES]: ['quotes:write', 'customers:write'],
+  [MemberRole.VIEWER]: [],
+};
+
+export const MEMBER_ROLE_LABELS: Record<MemberRole, string> = {
+  [MemberRole.OWNER]: 'Owner',
+  [MemberRole.ADMIN]: 'Admin',
+  [MemberRole.SALES]: 'Sales',
+  [MemberRole.VIEWER]: 'Viewer',
+};
+
+export function isMemberRole(value: unknown): value is MemberRole {
+  return Object.values(MemberRole).includes(value as MemberRole);
+}
+
+/**
+ * Check whether a role grants a permission; unknown or missing roles grant nothing
+ */
+export function hasPermission(role: string | null | undefined, permission: MemberPermission): boolean {
+  return isMemberRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Viewers only read; every other role may send writes (routes still check
+ * the specific permission)
+ */
+export function canWrite(role: string | null | undefined): boolean {
+  return isMemberRole(role) && role !== MemberRole.VIEWER;
+}
+
+// ============================================================================
+// Request Member
+// ============================================================================
+
+/** Cookie the browser keeps the Supabase access token in for API requests */
+export const ACCESS_TOKEN_COOKIE = 'qg-access-token';
+
+/** Headers the middleware sets from the resolved member; client-sent values are dropped */
+export const MEMBER_HEADERS = {
+  userId: 'x-user-id',
+  userName: 'x-user-name',
+  shopId: 'x-shop-id',
+  role: 'x-member-role',
+} as const;
+
+/**
+ * The Supabase access token: a bearer token for API clients, otherwise the
+ * cookie the app keeps in sync with the browser session
+ */
+export function getRequestAccessToken(request: Pick<Request, 'headers'>): string | null {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  const cookie = (request.headers.get('cookie') || '')
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${ACCESS_TOKEN_COOKIE}=`));
+  if (!cookie) {
+    return null;
+  }
+
+  try {
+    return decodeURIComponent(cookie.slice(ACCESS_TOKEN_COOKIE.length + 1)) || null;
+  } catch {
+    return null;
+  }
+}
+
+export interface RequestMember {
+  userId: string;
+  userName: string;
+  shopId: string | null;
+  role: MemberRole | null;
+}
+
+/**
+ * The member the middleware resolved for this request, or null when the
+ * request did not pass through it (public routes, background jobs)
+ */
+export function getRequestMember(request: Pick<Request, 'headers'>): RequestMember | null {
+  const userId = request.headers.get(MEMBER_HEADERS.userId);
+  if (!userId) {
+    return null;
+  }
+
+  const role = request.headers.get(MEMBER_HEADERS.role);
+  let userName = request.headers.get(MEMBER_HEADERS.userName) || '';
+  try {
+    // Names are URI-encoded because header values must be Latin-1
+    userName = decodeURIComponent(userName);
+  } catch {
+    // Not encoded; use as-is
+  }
+
+  return {
+    userId,
+    userName: userName || userId,
+    shopId: request.headers.get(MEMBER_HEADERS.shopId),
+    role: isMemberRole(role) ? role : null,
+  };
+}
+
+/**
+ * Who to attribute a change to: the request's member, or the system for
+ * requests without one
+ */
+export function getRequestActor(request: Pick<Request, 'headers'>): { id: string; name: string } {
+  const member = getRequestMember(request);
+  return member ? { id: member.userId, name: member.userName } : { id: 'system', name: 'System' };
+}
@@ -0,0 +1,309 @@
+/**
+ * Product Catalog
+ * Product search against the Shopify GraphQL Admin API with a per-shop cache,
+ * and the current price and cost of quoted variants
+ * @module lib/products
+ */
+
+import type { LineItemDraft } from '@/lib/quotes';
+import { shopifyGraphql } from '@/lib/shopify';
+import { getShopAccessToken, getShopScopes } from '@/lib/shops';
+import type { Product, ProductVariant } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProductSearchOptions {
+  /** Free-text search term */
+  query?: string;
+  /** Page size (1-50) */
+  first?: number;
+  /** Cursor returned as `pageInfo.endCursor` by the previous page */
+  after?: string;
+  /** Include each variant's cost; needs the read_inventory scope */
+  withCost?: boolean;
+}
+
+export interface ProductSearchResult {
+  products: Product[];
+  pageInfo: {
+    hasNextPage: boolean;
+    endCursor: string | null;
+  };
+}
+
+interface ShopifyVariantNode {
+  id: string;
+  title: string;
+  sku: string | null;
+  price: string;
+  compareAtPrice: string | null;
+  inventoryQuantity: number | null;
+  inventoryItem?: { unitCost: { amount: string } | null } | null;
+  selectedOptions: Array<{ name: string; value: string }>;
+}
+
+interface ShopifyProductNode {
+  id: string;
+  title: string;
+  description: string;
+  handle: string;
+  tags: string[];
+  productType: string;
+  vendor: string;
+  createdAt: string;
+  updatedAt: string;
+  images: { edges: Array<{ node: { url: string } }> };
+  variants: { edges: Array<{ node: ShopifyVariantNode }> };
+}
+
+/** A variant's catalog price, and its cost when the shop granted read_inventory */
+export interface VariantPricing {
+  price: number;
+  unitCost?: number;
+}
+
+interface VariantPricingResponse {
+  nodes: Array<Pick<ShopifyVariantNode, 'id' | 'price' | 'inventoryItem'> | null>;
+}
+
+interface ProductSearchResponse {
+  products: {
+    edges: Array<{ cursor: string; node: ShopifyProductNode }>;
+    pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  };
+}
+
+// ============================================================================
+// Query
+// ============================================================================
+
+const PRODUCT_SEARCH_QUERY = `
+  query ProductSearch($first: Int!, $after: String, $query: String, $withCost: Boolean!) {
+    products(first: $first, after: $after, query: $query, sortKey: TITLE) {
+      edges {
+        cursor
+        node {
+          id
+          title
+          description
+          handle
+          tags
+          productType
+          vendor
+          createdAt
+          updatedAt
+          images(first: 5) {
+            edges { node { url } }
+          }
+          variants(first: 50) {
+            edges {
+              node {
+                id
+                title
+                sku
+                price
+                compareAtPrice
+                inventoryQuantity
+                inventoryItem @include(if: $withCost) { unitCost { amount } }
+                selectedOptions { name value }
+              }
+            }
+          }
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+const VARIANT_PRICING_QUERY = `
+  query VariantPricing($ids: [ID!]!, $withCost: Boolean!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        price
+        inventoryItem @include(if: $withCost) { unitCost { amount } }
+      }
+    }
+  }
+`;
+
+/** Most IDs the Admin API takes in one nodes query */
+const MAX_NODE_IDS = 250;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+/**
+ * Build the Shopify search syntax for a free-text term.
+ * Only active products can be quoted; the term is matched as a prefix.
+ */
+export function buildProductSearchQuery(term?: string): string {
+  const cleaned = (term || '').replace(/[\\:"()*]/g, ' ').trim();
+  if (!cleaned) {
+    return 'status:active';
+  }
+  const words = cleaned.split(/\s+/).map((word) => `${word}*`).join(' ');
+  return `status:active AND (${words})`;
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+export function mapShopifyVariant(node: ShopifyVariantNode): ProductVariant {
+  return {
+    id: node.id,
+    title: node.title,
+    sku: node.sku ?? '',
+    price: Number(node.price),
+    compareAtPrice: node.compareAtPrice != null ? Number(node.compareAtPrice) : undefined,
+    unitCost: node.inventoryItem?.unitCost ? Number(node.inventoryItem.unitCost.amount) : undefined,
+    inventoryQuantity: node.inventoryQuantity ?? 0,
+    options: Object.fromEntries(node.selectedOptions.map((option) => [option.name, option.value])),
+  };
+}
+
+export function mapShopifyProduct(node: ShopifyProductNode): Product {
+  return {
+    id: node.id,
+    title: node.title,
+    description: node.description || undefined,
+    handle: node.handle,
+    images: node.images.edges.map((edge) => edge.node.url),
+    variants: node.variants.edges.map((edge) => mapShopifyVariant(edge.node)),
+    tags: node.tags,
+    productType: node.productType,
+    vendor: node.vendor,
+    createdAt: new Date(node.createdAt),
+    updatedAt: new Date(node.updatedAt),
+  };
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_ENTRIES_PER_SHOP = 100;
+
+const productCache = new Map<string, Map<string, { expiresAt: number; result: ProductSearchResult }>>();
+
+/**
+ * Drop every cached search of a shop (e.g. after a products/update webhook)
+ */
+export function invalidateProductCache(shop?: string): void {
+  if (shop) {
+    productCache.delete(shop);
+  } else {
+    productCache.clear();
+  }
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Search a shop's products, one cursor page at a time.
+ * Results are cached per shop for a minute.
+ */
+export async function searchProducts(
+  shop: string,
+  accessToken: string,
+  options: ProductSearchOptions = {}
+): Promise<ProductSearchResult> {
+  const first = Math.min(Math.max(options.first || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const query = buildProductSearchQuery(options.query);
+  const withCost = options.withCost ?? false;
+  const cacheKey = JSON.stringify([query, first, options.after ?? null, withCost]);
+
+  const shopCache = productCache.get(shop) ?? new Map();
+  const cached = shopCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.result;
+  }
+
+  const data = await shopifyGraphql<ProductSearchResponse>(shop, accessToken, PRODUCT_SEARCH_QUERY, {
+    first,
+    after: options.after ?? null,
+    query,
+    withCost,
+  });
+
+  const result: ProductSearchResult = {
+    products: data.products.edges.map((edge) => mapShopifyProduct(edge.node)),
+    pageInfo: data.products.pageInfo,
+  };
+
+  // Evict the oldest entry once the shop's cache is full
+  if (shopCache.size >= MAX_ENTRIES_PER_SHOP) {
+    const oldestKey = shopCache.keys().next().value;
+    if (oldestKey !== undefined) shopCache.delete(oldestKey);
+  }
+  shopCache.set(cacheKey, { expiresAt: Date.now() + CACHE_TTL_MS, result });
+  productCache.set(shop, shopCache);
+
+  return result;
+}
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * Current catalog price (and cost) of each variant, read fresh from Shopify.
+ * Variants that no longer exist are left out.
+ */
+export async function getVariantPricing(
+  shop: string,
+  accessToken: string,
+  variantIds: string[],
+  { withCost = false }: { withCost?: boolean } = {}
+): Promise<Map<string, VariantPricing>> {
+  const pricing = new Map<string, VariantPricing>();
+
+  for (let start = 0; start < variantIds.length; start += MAX_NODE_IDS) {
+    const data = await shopifyGraphql<VariantPricingResponse>(shop, accessToken, VARIANT_PRICING_QUERY, {
+      ids: variantIds.slice(start, start + MAX_NODE_IDS),
+      withCost,
+    });
+
+    for (const node of data.nodes) {
+      if (!node?.price) continue;
+      pricing.set(node.id, {
+        price: Number(node.price),
+        unitCost: node.inventoryItem?.unitCost ? Number(node.inventoryItem.unitCost.amount) : undefined,
+      });
+    }
+  }
+
+  return pricing;
+}
+
+/**
+ * Stamp line items with their variant's list price and cost from the catalog.
+ * Approvals measure discounts and margin from these, so whatever the client
+ * sent is replaced; items without a catalog variant get neither.
+ */
+export async function priceLineItemsFromCatalog(shop: string, items: LineItemDraft[]): Promise<LineItemDraft[]> {
+  const variantIds = [...new Set(items.flatMap((item) => (item.variantId ? [item.variantId] : [])))];
+  let pricing = new Map<string, VariantPricing>();
+
+  if (variantIds.length > 0) {
+    const accessToken = await getShopAccessToken(shop);
+    if (!accessToken) {
+      throw new Error(`The app is not installed on ${shop}`);
+    }
+    // Shops installed before read_inventory was requested have no variant costs
+    const withCost = (await getShopScopes(shop)).includes('read_inventory');
+    pricing = await getVariantPricing(shop, accessToken, variantIds, { withCost });
+  }
+
+  return items.map((item) => {
+    const catalog = item.variantId ? pricing.get(item.variantId) : undefined;
+    return { ...item, originalPrice: catalog?.price, unitCost: catalog?.unitCost };
+  });
+}
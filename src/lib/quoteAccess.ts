@@ -0,0 +1,237 @@
+/**
+ * Quote Access Tokens
+ * Unguessable, revocable links that let a buyer open a quote without an
+ * account. Only a SHA-256 hash of each token is stored, so a leaked table
+ * does not leak working links.
+ * @module lib/quoteAccess
+ */
+
+import crypto from 'crypto';
+import { QUOTE_SELECT, formatQuoteNumber, mapQuoteRow, type QuoteRowWithRelations } from '@/lib/quotes';
+// Public links are resolved without a user session, so they use the service role
+import { getServiceClient } from '@/lib/supabaseServer';
+import type { Quote, QuoteTerms } from '@/types/quote';
+import { QuoteStatus } from '@/types/quote';
+
+const TOKEN_BYTES = 32;
+
+// Drafts are still being prepared, or waiting on an approver, and are never shown to the buyer
+const UNPUBLISHED_STATUSES = [QuoteStatus.DRAFT, QuoteStatus.PENDING, QuoteStatus.PENDING_APPROVAL];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface AccessTokenRow {
+  id: string;
+  quote_id: string;
+  revoked_at: string | null;
+  quote: QuoteRowWithRelations | null;
+}
+
+export type QuoteAccessResult =
+  | { status: 'valid'; tokenId: string; quote: QuoteRowWithRelations }
+  | { status: 'not_found' | 'revoked' | 'expired' };
+
+/**
+ * The parts of a quote a buyer may see. Internal notes, metadata, history
+ * and activities never leave the server.
+ */
+export interface PublicQuote {
+  quoteNumber: string;
+  title: string;
+  status: QuoteStatus;
+  shopDomain: string;
+  customer: {
+    companyName?: string;
+    contactName?: string;
+    email: string;
+    phone?: string;
+  };
+  lineItems: Array<{
+    id: string;
+    title: string;
+    variantTitle?: string;
+    sku?: string;
+    quantity: number;
+    unitPrice: number;
+    discountPercentage?: number;
+    total: number;
+  }>;
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  shippingTotal: number;
+  total: number;
+  terms: Pick<QuoteTerms, 'paymentTerms' | 'deliveryTerms' | 'validityPeriod' | 'currency' | 'notes'>;
+  expiresAt?: Date;
+  acceptedAt?: Date;
+  rejectedAt?: Date;
+  rejectionReason?: string;
+  signatureName?: string;
+}
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+/**
+ * Hash a token for storage and lookup
+ */
+export function hashAccessToken(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+/**
+ * Create a new access token for a quote
+ * @returns The raw token; it cannot be recovered later
+ */
+export async function createQuoteAccessToken(quoteId: string, createdBy: string): Promise<string> {
+  const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+
+  const { error } = await getServiceClient().from('quote_access_tokens').insert({
+    quote_id: quoteId,
+    token_hash: hashAccessToken(token),
+    created_by: createdBy,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create quote link: ${error.message}`);
+  }
+
+  return token;
+}
+
+/**
+ * Revoke every active link for a quote
+ * @returns Number of links revoked
+ */
+export async function revokeQuoteAccessTokens(quoteId: string): Promise<number> {
+  const { data, error } = await getServiceClient().from('quote_access_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('quote_id', quoteId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke quote links: ${error.message}`);
+  }
+
+  return (data ?? []).length;
+}
+
+/**
+ * Resolve a token to its quote.
+ * Links stop working when revoked or once the quote's expiresAt has passed.
+ */
+export async function resolveQuoteAccessToken(token: string): Promise<QuoteAccessResult> {
+  if (!token) {
+    return { status: 'not_found' };
+  }
+
+  const { data, error } = await getServiceClient()
+    .from('quote_access_tokens')
+    .select(`id, quote_id, revoked_at, quote:quotes(${QUOTE_SELECT})`)
+    .eq('token_hash', hashAccessToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to resolve quote link: ${error.message}`);
+  }
+
+  const row = data as AccessTokenRow | null;
+
+  if (!row?.quote || UNPUBLISHED_STATUSES.includes(row.quote.status)) {
+    return { status: 'not_found' };
+  }
+
+  if (row.revoked_at) {
+    return { status: 'revoked' };
+  }
+
+  const expiresAt = row.quote.expires_at ? new Date(row.quote.expires_at) : null;
+  if (row.quote.status === QuoteStatus.EXPIRED || (expiresAt && expiresAt.getTime() < Date.now())) {
+    return { status: 'expired' };
+  }
+
+  return { status: 'valid', tokenId: row.id, quote: row.quote };
+}
+
+/**
+ * Record that a link was used
+ */
+export async function touchQuoteAccessToken(tokenId: string): Promise<void> {
+  const { error } = await getServiceClient().from('quote_access_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', tokenId);
+
+  if (error) {
+    console.error('Error updating quote link usage:', error);
+  }
+}
+
+/**
+ * Build the buyer-facing URL for a token
+ */
+export function getPublicQuoteUrl(token: string): string {
+  const appUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${appUrl}/q/${token}`;
+}
+
+/**
+ * Create a link for a quote and return its URL
+ */
+export async function createPublicQuoteUrl(quoteId: string, createdBy: string): Promise<string> {
+  return getPublicQuoteUrl(await createQuoteAccessToken(quoteId, createdBy));
+}
+
+// ============================================================================
+// Public View
+// ============================================================================
+
+/**
+ * Reduce a quote to what the buyer may see
+ */
+export function toPublicQuote(row: QuoteRowWithRelations): PublicQuote {
+  const quote: Quote = mapQuoteRow(row);
+
+  return {
+    quoteNumber: formatQuoteNumber(quote.quoteNumber, quote.revision),
+    title: quote.title,
+    status: quote.status,
+    shopDomain: row.shop_id,
+    customer: {
+      companyName: quote.customer.companyName,
+      contactName: quote.customer.contactName,
+      email: quote.customer.email,
+      phone: quote.customer.phone,
+    },
+    lineItems: quote.lineItems.map((item) => ({
+      id: item.id,
+      title: item.title,
+      variantTitle: item.variantTitle,
+      sku: item.sku,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discountPercentage: item.discountPercentage,
+      total: item.total,
+    })),
+    subtotal: quote.subtotal,
+    discountTotal: quote.discountTotal,
+    taxTotal: quote.taxTotal,
+    shippingTotal: quote.shippingTotal,
+    total: quote.total,
+    terms: {
+      paymentTerms: quote.terms.paymentTerms,
+      deliveryTerms: quote.terms.deliveryTerms,
+      validityPeriod: quote.terms.validityPeriod,
+      currency: quote.terms.currency,
+      notes: quote.terms.notes,
+    },
+    expiresAt: quote.expiresAt,
+    acceptedAt: quote.acceptedAt,
+    rejectedAt: quote.rejectedAt,
+    rejectionReason: quote.rejectionReason,
+    signatureName: quote.metadata.signatureName,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Quote Edits
+ * Saves an edited quote through the save_quote_edit database function, which
+ * writes the quote, its replaced line items and, for a revision, the snapshot
+ * of the superseded version and the status transition in one transaction
+ * @module lib/quoteEdits
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MISSING_EXCHANGE_RATE_CODE } from '@/lib/exchangeRates';
+import type { buildLineItemRows } from '@/lib/quotes';
+import type { buildRevisionSnapshot } from '@/lib/quoteRevisions';
+import { QUOTE_CONFLICT_CODE, QUOTE_NOT_FOUND_CODE } from '@/lib/quoteTransitions';
+import { createStatusChangeRecord } from '@/lib/quoteWorkflow';
+import type { ActivityType, QuoteStatus, SupabaseQuote } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Saving a sent or viewed quote as its next revision
+ */
+export interface QuoteRevisionInput {
+  /** The version being superseded; its revision must still be the quote's */
+  snapshot: ReturnType<typeof buildRevisionSnapshot>;
+  /** Status the revision moves the quote to, from the expected one */
+  toStatus: QuoteStatus;
+  changedBy: string;
+  changedByName: string;
+  activityType: ActivityType;
+  description: string;
+  comment?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface QuoteEditInput {
+  quoteId: string;
+  /** Status the caller read; the edit only applies if it still holds */
+  expectedStatus: QuoteStatus;
+  /** quotes columns to change; columns left out keep their value */
+  changes: Record<string, unknown>;
+  /** Rows replacing the quote's line items; omit to keep them */
+  lineItems?: ReturnType<typeof buildLineItemRows>;
+  revision?: QuoteRevisionInput;
+}
+
+export type QuoteEditResult =
+  | { status: 'saved'; quote: SupabaseQuote }
+  | { status: 'conflict' }
+  | { status: 'not_found' }
+  /** A revision is sent again, which needs a rate to the quote's currency */
+  | { status: 'missing_rate'; message: string };
+
+// ============================================================================
+// Save
+// ============================================================================
+
+/**
+ * Save a quote edit. Returns `conflict` when the quote changed status, or a
+ * revision's quote was revised, since it was read; nothing is written in that case.
+ * Whether the quote may be edited at all is the caller's to check (see
+ * canEditQuote and canReviseQuote).
+ */
+export async function saveQuoteEdit(
+  client: SupabaseClient,
+  input: QuoteEditInput
+): Promise<QuoteEditResult> {
+  const { revision } = input;
+  // Only the history ID is taken from the record; the database stamps the rest
+  const record = revision && createStatusChangeRecord(
+    input.quoteId,
+    input.expectedStatus,
+    revision.toStatus,
+    revision.changedBy,
+    revision.changedByName
+  );
+
+  const { data, error } = await client.rpc('save_quote_edit', {
+    p_quote_id: input.quoteId,
+    p_expected_status: input.expectedStatus,
+    p_changes: input.changes,
+    p_line_items: input.lineItems ?? null,
+    p_snapshot: revision?.snapshot ?? null,
+    p_to_status: revision?.toStatus ?? null,
+    p_history_id: record?.id ?? null,
+    p_changed_by: revision?.changedBy ?? null,
+    p_changed_by_name: revision?.changedByName ?? null,
+    p_activity_type: revision?.activityType ?? null,
+    p_activity_description: revision?.description ?? null,
+    p_comment: revision?.comment ?? null,
+    p_metadata: revision?.metadata ?? {},
+  });
+
+  if (error) {
+    if (error.code === QUOTE_CONFLICT_CODE) {
+      return { status: 'conflict' };
+    }
+    if (error.code === QUOTE_NOT_FOUND_CODE) {
+      return { status: 'not_found' };
+    }
+    if (error.code === MISSING_EXCHANGE_RATE_CODE) {
+      return { status: 'missing_rate', message: error.message };
+    }
+    throw new Error(`Failed to save quote: ${error.message}`);
+  }
+
+  return { status: 'saved', quote: data as SupabaseQuote };
+}
@@ -0,0 +1,104 @@
+/**
+ * Quote Notifications
+ * Emails that follow a status change: the customer notice when a quote is
+ * sent, accepted or rejected, and the request to approvers when a quote is
+ * held back for its discounts
+ * @module lib/quoteNotifications
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ApprovalReason } from '@/lib/approvals';
+import { getQuoteCcAddresses } from '@/lib/customerContacts';
+import { listShopMembers } from '@/lib/members';
+import { hasPermission } from '@/lib/permissions';
+import { createPublicQuoteUrl } from '@/lib/quoteAccess';
+import { formatQuoteNumber } from '@/lib/quotes';
+import type { SupabaseQuote } from '@/types/quote';
+import { QuoteStatus } from '@/types/quote';
+
+/**
+ * Let the customer know their quote was sent, accepted or rejected; other
+ * statuses are not emailed
+ */
+export async function sendStatusNotification(
+  client: SupabaseClient,
+  quote: SupabaseQuote,
+  newStatus: string
+): Promise<void> {
+  const notifyStatuses: string[] = [QuoteStatus.SENT, QuoteStatus.ACCEPTED, QuoteStatus.REJECTED];
+
+  if (!notifyStatuses.includes(newStatus)) {
+    return;
+  }
+
+  const customerEmail = quote.customer_email;
+  if (!customerEmail) {
+    console.log('No customer email available for notification');
+    return;
+  }
+
+  // Import email service dynamically to avoid circular dependencies
+  const { sendEmail, quoteNotificationEmailTemplate } = await import('@/lib/email');
+
+  const quoteTitle = quote.title || 'Your Quote';
+  const quoteNumber = formatQuoteNumber(quote.quote_number || quote.id, quote.revision);
+
+  // Every notification carries its own link so it can be revoked independently
+  const viewUrl = await createPublicQuoteUrl(quote.id, 'system');
+
+  const status = newStatus === QuoteStatus.SENT ? 'sent' : newStatus === QuoteStatus.ACCEPTED ? 'accepted' : 'rejected';
+  const { subject, html } = quoteNotificationEmailTemplate({ status, quoteTitle, quoteNumber, viewUrl });
+
+  await sendEmail({
+    to: customerEmail,
+    cc: await getQuoteCcAddresses(client, quote),
+    subject,
+    html,
+    type: newStatus === QuoteStatus.SENT ? 'quote_sent' : 'quote_status',
+    shopId: quote.shop_id,
+    quoteId: quote.id,
+    // The quote itself goes out with the first send
+    attachQuotePdf: newStatus === QuoteStatus.SENT,
+  });
+}
+
+/**
+ * Ask every member who may approve quotes to review one held back for its
+ * discounts. A failed send to one approver does not stop the others.
+ * @returns How many approvers were emailed
+ */
+export async function notifyApprovers(
+  quote: SupabaseQuote,
+  reasons: ApprovalReason[],
+  requestedBy: string
+): Promise<number> {
+  const approvers = (await listShopMembers(quote.shop_id))
+    .filter((member) => hasPermission(member.role, 'quotes:approve'));
+
+  if (approvers.length === 0) {
+    console.warn(`Quote ${quote.id} needs approval but shop ${quote.shop_id} has no approvers`);
+    return 0;
+  }
+
+  const { sendEmail, approvalRequestEmailTemplate } = await import('@/lib/email');
+
+  const appUrl = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+  const { subject, html } = approvalRequestEmailTemplate({
+    quoteTitle: quote.title || 'Untitled quote',
+    quoteNumber: formatQuoteNumber(quote.quote_number || quote.id, quote.revision),
+    requestedBy,
+    reasons: reasons.map((reason) => reason.message),
+    reviewUrl: `${appUrl}/quotes/${quote.id}`,
+  });
+
+  const results = await Promise.allSettled(approvers.map((approver) => sendEmail({
+    to: approver.email,
+    subject,
+    html,
+    type: 'quote_approval',
+    shopId: quote.shop_id,
+    quoteId: quote.id,
+  })));
+
+  return results.filter((result) => result.status === 'fulfilled').length;
+}
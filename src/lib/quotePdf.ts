@@ -0,0 +1,53 @@
+/**
+ * Server-side Quote PDF Rendering
+ * Renders QuotePDFDocument to a buffer, e.g. to attach it to quote emails
+ * @module lib/quotePdf
+ */
+
+import React from 'react';
+import { renderToBuffer } from '@react-pdf/renderer';
+import { QuotePDFDocument, type CompanyBranding } from '@/components/pdf/QuotePDFDocument';
+import { QUOTE_SELECT, mapQuoteRow, type QuoteRowWithRelations } from '@/lib/quotes';
+import { getMerchantSettings, toCompanyBranding } from '@/lib/settings';
+import type { MailAttachment } from '@/lib/mailTransport';
+// Emails are sent from background jobs as well as requests, so this uses the service role
+import { getServiceClient } from '@/lib/supabaseServer';
+import type { Quote } from '@/types/quote';
+
+/**
+ * Render a quote to a PDF buffer
+ */
+export async function renderQuotePdf(quote: Quote, companyBranding?: CompanyBranding): Promise<Buffer> {
+  const document = React.createElement(QuotePDFDocument, { quote, companyBranding });
+  return renderToBuffer(document as Parameters<typeof renderToBuffer>[0]);
+}
+
+/**
+ * Load a quote and render it as a PDF file, branded with its shop's company
+ * details unless other branding is given
+ * @throws When the quote cannot be loaded or rendered
+ */
+export async function renderQuotePdfAttachment(
+  quoteId: string,
+  companyBranding?: CompanyBranding
+): Promise<MailAttachment> {
+  const { data, error } = await getServiceClient()
+    .from('quotes')
+    .select(QUOTE_SELECT)
+    .eq('id', quoteId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to load quote ${quoteId}: ${error?.message || 'not found'}`);
+  }
+
+  const row = data as QuoteRowWithRelations;
+  const quote = mapQuoteRow(row);
+  const branding = companyBranding ?? toCompanyBranding(await getMerchantSettings(row.shop_id));
+
+  return {
+    filename: `Quote-${quote.quoteNumber}.pdf`,
+    content: await renderQuotePdf(quote, branding),
+    contentType: 'application/pdf',
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * Quote Revision Helpers
+ * Snapshots of superseded quote versions and the version-to-version diff
+ * shown on the quote detail page
+ * @module lib/quoteRevisions
+ */
+
+import { mapLineItemRow, type QuoteRowWithRelations } from '@/lib/quotes';
+import type {
+  LineItem,
+  Quote,
+  QuoteRevision,
+  QuoteStatus,
+  QuoteTerms,
+  SupabaseLineItem,
+} from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Raw quote_revisions row
+ */
+export interface QuoteRevisionRow {
+  id: string;
+  quote_id: string;
+  shop_id: string;
+  revision: number;
+  title: string;
+  status: QuoteStatus;
+  line_items: SupabaseLineItem[];
+  terms: Partial<QuoteTerms>;
+  currency: string;
+  subtotal: number;
+  discount_total: number;
+  tax_rate: number;
+  tax_total: number;
+  shipping_total: number;
+  total: number;
+  expires_at?: string | null;
+  sent_at?: string | null;
+  superseded_by?: string | null;
+  superseded_by_name?: string | null;
+  superseded_at: string;
+}
+
+export type RevisionChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type DiffValue = string | number | boolean | undefined;
+
+/**
+ * A single compared field (a term or a total)
+ */
+export interface FieldDiff {
+  field: string;
+  label: string;
+  before: DiffValue;
+  after: DiffValue;
+  changed: boolean;
+}
+
+/**
+ * A line item matched across two versions
+ */
+export interface LineItemDiff {
+  key: string;
+  change: RevisionChange;
+  before?: LineItem;
+  after?: LineItem;
+  /** Compared fields that differ, for `changed` items */
+  changedFields: (keyof LineItem)[];
+}
+
+export interface QuoteRevisionDiff {
+  lineItems: LineItemDiff[];
+  terms: FieldDiff[];
+  totals: FieldDiff[];
+  hasChanges: boolean;
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+/**
+ * Freeze a quote row as it stands, to be stored before its next revision
+ * replaces it. shop_id is filled in from the quote by the database.
+ */
+export function buildRevisionSnapshot(
+  row: QuoteRowWithRelations,
+  supersededBy: { id: string; name: string }
+): Omit<QuoteRevisionRow, 'id' | 'shop_id' | 'superseded_at'> {
+  return {
+    quote_id: row.id,
+    revision: row.revision ?? 1,
+    title: row.title,
+    status: row.status,
+    line_items: [...(row.line_items ?? [])].sort((a, b) => a.position - b.position),
+    terms: row.terms ?? {},
+    currency: row.currency,
+    subtotal: row.subtotal,
+    discount_total: row.discount_total,
+    tax_rate: row.tax_rate ?? 0,
+    tax_total: row.tax_total,
+    shipping_total: row.shipping_total,
+    total: row.total,
+    expires_at: row.expires_at ?? null,
+    sent_at: row.sent_at ?? null,
+    superseded_by: supersededBy.id,
+    superseded_by_name: supersededBy.name,
+  };
+}
+
+/**
+ * Map a quote_revisions row to a (frozen) QuoteRevision
+ */
+export function mapRevisionRow(row: QuoteRevisionRow): QuoteRevision {
+  const terms = row.terms ?? {};
+
+  return {
+    quoteId: row.quote_id,
+    revision: row.revision,
+    isCurrent: false,
+    title: row.title,
+    status: row.status,
+    lineItems: (row.line_items ?? []).map(mapLineItemRow),
+    terms: {
+      paymentTerms: '',
+      deliveryTerms: '',
+      validityPeriod: 30,
+      depositRequired: false,
+      ...terms,
+      currency: terms.currency || row.currency || 'USD',
+    } as QuoteTerms,
+    subtotal: Number(row.subtotal),
+    discountTotal: Number(row.discount_total),
+    taxRate: Number(row.tax_rate ?? 0),
+    taxTotal: Number(row.tax_total),
+    shippingTotal: Number(row.shipping_total),
+    total: Number(row.total),
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+    supersededAt: new Date(row.superseded_at),
+    supersededByName: row.superseded_by_name ?? undefined,
+  };
+}
+
+/**
+ * The live quote as its latest revision
+ */
+export function toCurrentRevision(quote: Quote): QuoteRevision {
+  return {
+    quoteId: quote.id,
+    revision: quote.revision ?? 1,
+    isCurrent: true,
+    title: quote.title,
+    status: quote.status,
+    lineItems: quote.lineItems,
+    terms: quote.terms,
+    subtotal: quote.subtotal,
+    discountTotal: quote.discountTotal,
+    taxRate: quote.taxRate ?? 0,
+    taxTotal: quote.taxTotal,
+    shippingTotal: quote.shippingTotal,
+    total: quote.total,
+    expiresAt: quote.expiresAt,
+    sentAt: quote.sentAt,
+  };
+}
+
+/**
+ * Parse a JSON API payload back into a QuoteRevision (dates revived)
+ */
+export function parseRevisionResponse(data: QuoteRevision): QuoteRevision {
+  return {
+    ...data,
+    expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+    sentAt: data.sentAt ? new Date(data.sentAt) : undefined,
+    supersededAt: data.supersededAt ? new Date(data.supersededAt) : undefined,
+  };
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+const LINE_ITEM_FIELDS: (keyof LineItem)[] = [
+  'title',
+  'variantTitle',
+  'quantity',
+  'unitPrice',
+  'discountPercentage',
+  'taxRate',
+  'total',
+  'notes',
+];
+
+const TERM_FIELDS: { field: keyof QuoteTerms; label: string }[] = [
+  { field: 'paymentTerms', label: 'Payment terms' },
+  { field: 'deliveryTerms', label: 'Delivery terms' },
+  { field: 'validityPeriod', label: 'Valid for (days)' },
+  { field: 'depositRequired', label: 'Deposit required' },
+  { field: 'depositPercentage', label: 'Deposit %' },
+  { field: 'currency', label: 'Currency' },
+  { field: 'notes', label: 'Notes' },
+];
+
+const TOTAL_FIELDS: { field: keyof QuoteRevision; label: string }[] = [
+  { field: 'subtotal', label: 'Subtotal' },
+  { field: 'discountTotal', label: 'Discount' },
+  { field: 'taxRate', label: 'Tax rate' },
+  { field: 'taxTotal', label: 'Tax' },
+  { field: 'shippingTotal', label: 'Shipping' },
+  { field: 'total', label: 'Total' },
+];
+
+/**
+ * Line items are re-inserted on every save, so ids do not carry across
+ * versions. Items are matched on product/variant, then SKU, then title.
+ */
+function lineItemIdentity(item: LineItem): string {
+  if (item.productId || item.variantId) {
+    return `product:${item.productId}:${item.variantId ?? ''}`;
+  }
+  if (item.sku) {
+    return `sku:${item.sku}`;
+  }
+  return `title:${item.title.trim().toLowerCase()}`;
+}
+
+/**
+ * Key every item by identity, numbering repeats so two lines of the same
+ * product are matched in order
+ */
+function keyLineItems(items: LineItem[]): Map<string, LineItem> {
+  const seen = new Map<string, number>();
+  const keyed = new Map<string, LineItem>();
+
+  items.forEach((item) => {
+    const identity = lineItemIdentity(item);
+    const occurrence = seen.get(identity) ?? 0;
+    seen.set(identity, occurrence + 1);
+    keyed.set(`${identity}#${occurrence}`, item);
+  });
+
+  return keyed;
+}
+
+function normalize(value: unknown): DiffValue {
+  if (value === null || value === undefined || value === '') return undefined;
+  return value as DiffValue;
+}
+
+function compareFields<T>(
+  before: T,
+  after: T,
+  fields: { field: keyof T; label: string }[]
+): FieldDiff[] {
+  return fields.map(({ field, label }) => {
+    const from = normalize(before[field]);
+    const to = normalize(after[field]);
+    return { field: String(field), label, before: from, after: to, changed: from !== to };
+  });
+}
+
+/**
+ * Compare line items, terms and totals between two versions of a quote
+ */
+export function diffQuoteRevisions(from: QuoteRevision, to: QuoteRevision): QuoteRevisionDiff {
+  const beforeItems = keyLineItems(from.lineItems);
+  const afterItems = keyLineItems(to.lineItems);
+
+  // Keep the newer version's order, with removed items at the end
+  const keys = [
+    ...afterItems.keys(),
+    ...[...beforeItems.keys()].filter((key) => !afterItems.has(key)),
+  ];
+
+  const lineItems = keys.map((key): LineItemDiff => {
+    const before = beforeItems.get(key);
+    const after = afterItems.get(key);
+
+    if (!before) return { key, change: 'added', after, changedFields: [] };
+    if (!after) return { key, change: 'removed', before, changedFields: [] };
+
+    const changedFields = LINE_ITEM_FIELDS.filter(
+      (field) => normalize(before[field]) !== normalize(after[field])
+    );
+    return {
+      key,
+      change: changedFields.length > 0 ? 'changed' : 'unchanged',
+      before,
+      after,
+      changedFields,
+    };
+  });
+
+  const terms = compareFields(from.terms, to.terms, TERM_FIELDS);
+  const totals = compareFields(from, to, TOTAL_FIELDS);
+
+  return {
+    lineItems,
+    terms,
+    totals,
+    hasChanges:
+      lineItems.some((item) => item.change !== 'unchanged') ||
+      terms.some((term) => term.changed) ||
+      totals.some((total) => total.changed),
+  };
+}
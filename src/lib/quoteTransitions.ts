@@ -0,0 +1,117 @@
+/**
+ * Quote Status Transitions
+ * Persists a workflow transition through the transition_quote_status
+ * database function, which updates the quote and records its history and
+ * activity in one transaction
+ * @module lib/quoteTransitions
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MISSING_EXCHANGE_RATE_CODE } from '@/lib/exchangeRates';
+import {
+  createStatusChangeRecord,
+  getActivityTypeForStatusChange,
+  type StatusChangeRecord,
+} from '@/lib/quoteWorkflow';
+import type { QuoteStatus, SupabaseQuote } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface QuoteTransitionInput {
+  quoteId: string;
+  /** Status the caller read; the transition only applies if it still holds */
+  fromStatus: QuoteStatus;
+  toStatus: QuoteStatus;
+  changedBy: string;
+  changedByName: string;
+  comment?: string;
+  metadata?: Record<string, unknown>;
+  /** Activity description; defaults to "Quote status changed to <status>" */
+  description?: string;
+  /**
+   * Other quote columns written with the status: metadata and the Shopify
+   * draft order or order the transition came from
+   */
+  changes?: Record<string, unknown>;
+}
+
+export type QuoteTransitionResult =
+  | { status: 'applied'; quote: SupabaseQuote; transition: StatusChangeRecord }
+  | { status: 'conflict' | 'not_found' }
+  /** Only owners and admins move a quote out of pending_approval */
+  | { status: 'forbidden'; message: string }
+  /** Sending needs a rate from the shop's base currency to the quote's */
+  | { status: 'missing_rate'; message: string };
+
+// PostgREST turns these function error codes into HTTP statuses
+export const QUOTE_CONFLICT_CODE = 'PT409';
+export const QUOTE_NOT_FOUND_CODE = 'PT404';
+export const QUOTE_FORBIDDEN_CODE = 'PT403';
+
+// ============================================================================
+// Transition
+// ============================================================================
+
+/**
+ * Move a quote from `fromStatus` to `toStatus`, stamping the matching
+ * timestamp (sent_at, accepted_at, ...). Returns `conflict` when the quote's
+ * status changed since it was read, `forbidden` when the caller's role may
+ * not make the transition, and `missing_rate` when a send needs an exchange
+ * rate the shop does not have; nothing is written in any of these cases.
+ * Transition rules are the caller's to check (see validateTransition).
+ */
+export async function transitionQuoteStatus(
+  client: SupabaseClient,
+  input: QuoteTransitionInput
+): Promise<QuoteTransitionResult> {
+  const record = createStatusChangeRecord(
+    input.quoteId,
+    input.fromStatus,
+    input.toStatus,
+    input.changedBy,
+    input.changedByName,
+    input.comment,
+    input.metadata
+  );
+
+  const { data, error } = await client.rpc('transition_quote_status', {
+    p_quote_id: input.quoteId,
+    p_from_status: input.fromStatus,
+    p_to_status: input.toStatus,
+    p_history_id: record.id,
+    p_changed_by: input.changedBy,
+    p_changed_by_name: input.changedByName,
+    p_activity_type: getActivityTypeForStatusChange(input.toStatus),
+    p_activity_description: input.description ?? `Quote status changed to ${input.toStatus}`,
+    p_comment: input.comment ?? null,
+    p_metadata: input.metadata ?? {},
+    p_changes: input.changes ?? {},
+  });
+
+  if (error) {
+    if (error.code === QUOTE_CONFLICT_CODE) {
+      return { status: 'conflict' };
+    }
+    if (error.code === QUOTE_NOT_FOUND_CODE) {
+      return { status: 'not_found' };
+    }
+    if (error.code === QUOTE_FORBIDDEN_CODE) {
+      return { status: 'forbidden', message: error.message };
+    }
+    if (error.code === MISSING_EXCHANGE_RATE_CODE) {
+      return { status: 'missing_rate', message: error.message };
+    }
+    throw new Error(`Failed to transition quote: ${error.message}`);
+  }
+
+  const quote = data as SupabaseQuote;
+
+  return {
+    status: 'applied',
+    quote,
+    // The database stamps the time, so the record carries the stored one
+    transition: { ...record, changedAt: quote.updated_at, revision: quote.revision },
+  };
+}
@@ -1,10 +1,19 @@
 /**
  * Quote Status Workflow State Machine
- * Defines valid status transitions and manages quote lifecycle
+ * Defines valid status transitions and manages quote lifecycle. The constants
+ * below are the default workflow; a shop can save its own (lib/workflows),
+ * which the functions here take in place of the default.
  * @module lib/quoteWorkflow
  */
 
-import { QuoteStatus, ActivityType, type Quote } from '@/types/quote';
+import {
+  QuoteStatus,
+  ActivityType,
+  type Quote,
+  type QuoteWorkflowDefinition,
+  type WorkflowStatusDefinition,
+  type WorkflowTransitionDefinition,
+} from '@/types/quote';
 
 // ============================================================================
 // Types
@@ -29,11 +38,15 @@ export interface StatusChangeRecord {
   changedAt: string;
   comment?: string;
   metadata?: Record<string, unknown>;
+  /** Quote revision the transition applied to */
+  revision?: number;
 }
 
 export interface TransitionResult {
   success: boolean;
   error?: string;
+  /** Why a transition was refused */
+  reason?: 'invalid' | 'forbidden' | 'comment_required';
   transition?: StatusChangeRecord;
 }
 
@@ -73,6 +86,14 @@ export const VALID_TRANSITIONS: StatusTransition[] = [
     action: 'Move to Draft',
     requiresConfirmation: false,
   },
+
+  // Pending approval transitions (approvers decide through the approval endpoint)
+  {
+    from: QuoteStatus.PENDING_APPROVAL,
+    to: QuoteStatus.DRAFT,
+    action: 'Withdraw Approval Request',
+    requiresConfirmation: false,
+  },
   
   // Sent transitions
   { 
@@ -130,6 +151,15 @@ export const VALID_TRANSITIONS: StatusTransition[] = [
     requiresConfirmation: false,
   },
   
+  // Accepted transitions (converted via POST /api/quotes/[id]/convert)
+  { 
+    from: QuoteStatus.ACCEPTED, 
+    to: QuoteStatus.CONVERTED, 
+    action: 'Create Draft Order',
+    requiresConfirmation: true,
+    confirmationMessage: 'Create a Shopify draft order from this quote? The quote can no longer be changed afterwards.',
+  },
+  
   // Expired transitions (can resend)
   { 
     from: QuoteStatus.EXPIRED, 
@@ -160,9 +190,10 @@ export const VALID_TRANSITIONS: StatusTransition[] = [
 export const STATUS_FLOW: Record<QuoteStatus, QuoteStatus[]> = {
   [QuoteStatus.DRAFT]: [QuoteStatus.SENT, QuoteStatus.PENDING],
   [QuoteStatus.PENDING]: [QuoteStatus.SENT, QuoteStatus.DRAFT],
+  [QuoteStatus.PENDING_APPROVAL]: [QuoteStatus.DRAFT],
   [QuoteStatus.SENT]: [QuoteStatus.VIEWED, QuoteStatus.ACCEPTED, QuoteStatus.REJECTED, QuoteStatus.EXPIRED, QuoteStatus.SENT],
   [QuoteStatus.VIEWED]: [QuoteStatus.ACCEPTED, QuoteStatus.REJECTED, QuoteStatus.EXPIRED],
-  [QuoteStatus.ACCEPTED]: [],
+  [QuoteStatus.ACCEPTED]: [QuoteStatus.CONVERTED],
   [QuoteStatus.REJECTED]: [QuoteStatus.DRAFT],
   [QuoteStatus.EXPIRED]: [QuoteStatus.SENT, QuoteStatus.DRAFT],
   [QuoteStatus.CONVERTED]: [],
@@ -196,6 +227,14 @@ export const STATUS_METADATA: Record<QuoteStatus, {
     isFinal: false,
     canEdit: true,
   },
+  [QuoteStatus.PENDING_APPROVAL]: {
+    label: 'Awaiting Approval',
+    description: 'Discounts exceed the shop limits and need an approver',
+    color: 'bg-orange-500',
+    icon: 'ShieldExclamationIcon',
+    isFinal: false,
+    canEdit: false,
+  },
   [QuoteStatus.SENT]: {
     label: 'Sent',
     description: 'Quote has been sent to customer',
@@ -217,7 +256,7 @@ export const STATUS_METADATA: Record<QuoteStatus, {
     description: 'Quote has been accepted by customer',
     color: 'bg-emerald-500',
     icon: 'CheckCircleIcon',
-    isFinal: true,
+    isFinal: false,
     canEdit: false,
   },
   [QuoteStatus.REJECTED]: {
@@ -246,6 +285,90 @@ export const STATUS_METADATA: Record<QuoteStatus, {
   },
 };
 
+// ============================================================================
+// Default Workflow
+// ============================================================================
+
+/** Custom statuses take their badge color and icon from the built-in ones */
+export const WORKFLOW_STATUS_COLORS = [...new Set(Object.values(STATUS_METADATA).map((meta) => meta.color))];
+export const WORKFLOW_STATUS_ICONS = [...new Set(Object.values(STATUS_METADATA).map((meta) => meta.icon))];
+
+/** Custom status keys: lowercase words joined by underscores, as stored in quotes.status */
+export const WORKFLOW_STATUS_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * The workflow of shops that have not saved their own
+ */
+export const DEFAULT_WORKFLOW: QuoteWorkflowDefinition = {
+  statuses: Object.values(QuoteStatus).map((key) => ({ key, ...STATUS_METADATA[key], isCustom: false })),
+  transitions: VALID_TRANSITIONS.map((transition) => ({
+    from: Array.isArray(transition.from) ? transition.from : [transition.from],
+    to: transition.to,
+    action: transition.action,
+    requiresConfirmation: transition.requiresConfirmation ?? false,
+    confirmationMessage: transition.confirmationMessage,
+    requiresComment: false,
+    allowedRoles: [],
+  })),
+  isDefault: true,
+};
+
+/**
+ * Check whether a status is one every workflow has
+ */
+export function isBuiltInStatus(status: string): status is QuoteStatus {
+  return (Object.values(QuoteStatus) as string[]).includes(status);
+}
+
+/**
+ * Look up a status in a workflow; undefined for statuses it does not define
+ * (e.g. a custom status the shop has since removed)
+ */
+export function getWorkflowStatus(
+  status: string,
+  workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW
+): WorkflowStatusDefinition | undefined {
+  return workflow.statuses.find((definition) => definition.key === status);
+}
+
+function findTransition(
+  fromStatus: string,
+  toStatus: string,
+  workflow: QuoteWorkflowDefinition
+): WorkflowTransitionDefinition | undefined {
+  return workflow.transitions.find((t) => t.from.includes(fromStatus) && t.to === toStatus);
+}
+
+// ============================================================================
+// Legacy Status Mapping
+// ============================================================================
+
+/**
+ * Status values used by the original storefront request schema
+ */
+export type LegacyQuoteStatus = 'pending' | 'quoted' | 'accepted' | 'declined';
+
+/**
+ * Mapping from storefront request statuses to workflow statuses
+ */
+export const LEGACY_STATUS_MAP: Record<LegacyQuoteStatus, QuoteStatus> = {
+  pending: QuoteStatus.PENDING,
+  quoted: QuoteStatus.SENT,
+  accepted: QuoteStatus.ACCEPTED,
+  declined: QuoteStatus.REJECTED,
+};
+
+/**
+ * Normalize a workflow or legacy status value to a QuoteStatus.
+ * Returns null when the value is not a known status.
+ */
+export function normalizeQuoteStatus(status: string): QuoteStatus | null {
+  if ((Object.values(QuoteStatus) as string[]).includes(status)) {
+    return status as QuoteStatus;
+  }
+  return LEGACY_STATUS_MAP[status as LegacyQuoteStatus] ?? null;
+}
+
 // ============================================================================
 // Validation Functions
 // ============================================================================
@@ -253,57 +376,65 @@ export const STATUS_METADATA: Record<QuoteStatus, {
 /**
  * Check if a status transition is valid
  */
-export function isValidTransition(fromStatus: QuoteStatus, toStatus: QuoteStatus): boolean {
-  // Same status is always valid (for updates like resend)
-  if (fromStatus === toStatus) {
-    return VALID_TRANSITIONS.some(t => 
-      (Array.isArray(t.from) ? t.from.includes(fromStatus) : t.from === fromStatus) && t.to === toStatus
-    );
-  }
-  
-  const validTargets = STATUS_FLOW[fromStatus];
-  return validTargets?.includes(toStatus) ?? false;
+export function isValidTransition(
+  fromStatus: string,
+  toStatus: string,
+  workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW
+): boolean {
+  return findTransition(fromStatus, toStatus, workflow) !== undefined;
 }
 
 /**
  * Get available transitions from a given status
  */
-export function getAvailableTransitions(currentStatus: QuoteStatus): StatusTransition[] {
-  return VALID_TRANSITIONS.filter(t => 
-    Array.isArray(t.from) ? t.from.includes(currentStatus) : t.from === currentStatus
-  );
+export function getAvailableTransitions(
+  currentStatus: string,
+  workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW
+): WorkflowTransitionDefinition[] {
+  return workflow.transitions.filter((t) => t.from.includes(currentStatus));
 }
 
 /**
  * Get available next statuses from current status
  */
-export function getNextStatuses(currentStatus: QuoteStatus): QuoteStatus[] {
-  return STATUS_FLOW[currentStatus] ?? [];
+export function getNextStatuses(
+  currentStatus: string,
+  workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW
+): string[] {
+  return [...new Set(getAvailableTransitions(currentStatus, workflow).map((t) => t.to))];
 }
 
 /**
- * Validate a transition and return detailed result
+ * Validate a transition and return detailed result. Roles are checked when
+ * the caller passes allowedRoles or the workflow restricts the transition.
  */
 export function validateTransition(
-  fromStatus: QuoteStatus,
-  toStatus: QuoteStatus,
+  fromStatus: string,
+  toStatus: string,
   options?: {
     userRole?: string;
     allowedRoles?: string[];
+    comment?: string;
+    workflow?: QuoteWorkflowDefinition;
   }
 ): TransitionResult {
+  const workflow = options?.workflow ?? DEFAULT_WORKFLOW;
+
   // Check if from status is final first
-  if (STATUS_METADATA[fromStatus].isFinal && fromStatus !== toStatus) {
+  if (getWorkflowStatus(fromStatus, workflow)?.isFinal && fromStatus !== toStatus) {
     return {
       success: false,
+      reason: 'invalid',
       error: `Cannot transition from final status "${fromStatus}"`,
     };
   }
 
   // Check if transition exists
-  if (!isValidTransition(fromStatus, toStatus)) {
+  const transition = findTransition(fromStatus, toStatus, workflow);
+  if (!transition) {
     return {
       success: false,
+      reason: 'invalid',
       error: `Invalid transition from "${fromStatus}" to "${toStatus}"`,
     };
   }
@@ -313,14 +444,41 @@ export function validateTransition(
     if (!options.allowedRoles.includes(options.userRole)) {
       return {
         success: false,
+        reason: 'forbidden',
         error: 'You do not have permission to perform this action',
       };
     }
   }
 
+  if (!canTakeTransition(transition, options?.userRole)) {
+    return {
+      success: false,
+      reason: 'forbidden',
+      error: `Only ${transition.allowedRoles.join(', ')} members can ${transition.action.toLowerCase()}`,
+    };
+  }
+
+  if (transition.requiresComment && !options?.comment?.trim()) {
+    return {
+      success: false,
+      reason: 'comment_required',
+      error: `A comment is required to ${transition.action.toLowerCase()}`,
+    };
+  }
+
   return { success: true };
 }
 
+/**
+ * Check a member's role against a transition's role restriction
+ */
+export function canTakeTransition(transition: WorkflowTransitionDefinition, userRole?: string | null): boolean {
+  if (transition.allowedRoles.length === 0) {
+    return true;
+  }
+  return !!userRole && (transition.allowedRoles as string[]).includes(userRole);
+}
+
 // ============================================================================
 // Transition Creation
 // ============================================================================
@@ -362,10 +520,10 @@ function generateHistoryId(): string {
 // ============================================================================
 
 /**
- * Get the activity type for a status change
+ * Get the activity type for a status change; custom statuses are plain status changes
  */
-export function getActivityTypeForStatusChange(status: QuoteStatus): ActivityType {
-  const activityMap: Record<QuoteStatus, ActivityType> = {
+export function getActivityTypeForStatusChange(status: string): ActivityType {
+  const activityMap: Record<string, ActivityType> = {
     [QuoteStatus.DRAFT]: ActivityType.QUOTE_CREATED,
     [QuoteStatus.PENDING]: ActivityType.STATUS_CHANGED,
     [QuoteStatus.SENT]: ActivityType.QUOTE_SENT,
@@ -386,36 +544,40 @@ export function getActivityTypeForStatusChange(status: QuoteStatus): ActivityTyp
 export interface StatusAction {
   id: string;
   label: string;
-  status: QuoteStatus;
+  status: string;
   variant: 'primary' | 'secondary' | 'danger' | 'ghost';
   requiresConfirmation: boolean;
   confirmationMessage?: string;
+  requiresComment: boolean;
   icon?: string;
 }
 
 /**
- * Get available actions for a quote based on its current status
+ * Get available actions for a quote based on its current status. With a
+ * role, transitions the workflow keeps from that role are left out.
  */
-export function getQuoteActions(currentStatus: QuoteStatus): StatusAction[] {
-  const transitions = getAvailableTransitions(currentStatus);
+export function getQuoteActions(
+  currentStatus: string,
+  workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW,
+  userRole?: string | null
+): StatusAction[] {
+  const transitions = getAvailableTransitions(currentStatus, workflow)
+    .filter((transition) => userRole === undefined || canTakeTransition(transition, userRole));
   
-  return transitions.map((transition, index) => {
-    const isReversible = !STATUS_METADATA[transition.to].isFinal;
-    
-    return {
-      id: `action_${transition.to}_${index}`,
-      label: transition.action,
-      status: transition.to,
-      variant: transition.to === QuoteStatus.ACCEPTED 
-        ? 'primary' 
-        : transition.to === QuoteStatus.REJECTED 
-          ? 'danger' 
-          : 'secondary',
-      requiresConfirmation: transition.requiresConfirmation ?? false,
-      confirmationMessage: transition.confirmationMessage,
-      icon: STATUS_METADATA[transition.to].icon,
-    };
-  });
+  return transitions.map((transition, index) => ({
+    id: `action_${transition.to}_${index}`,
+    label: transition.action,
+    status: transition.to,
+    variant: transition.to === QuoteStatus.ACCEPTED 
+      ? 'primary' 
+      : transition.to === QuoteStatus.REJECTED 
+        ? 'danger' 
+        : 'secondary',
+    requiresConfirmation: transition.requiresConfirmation,
+    confirmationMessage: transition.confirmationMessage,
+    requiresComment: transition.requiresComment,
+    icon: getWorkflowStatus(transition.to, workflow)?.icon,
+  }));
 }
 
 // ============================================================================
@@ -425,36 +587,44 @@ export function getQuoteActions(currentStatus: QuoteStatus): StatusAction[] {
 /**
  * Check if a quote can be edited
  */
-export function canEditQuote(status: QuoteStatus): boolean {
-  return STATUS_METADATA[status].canEdit;
+export function canEditQuote(status: string, workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW): boolean {
+  return getWorkflowStatus(status, workflow)?.canEdit ?? false;
+}
+
+/**
+ * Check if editing a quote creates a new revision. Quotes the customer has
+ * already been sent are revised rather than edited in place.
+ */
+export function canReviseQuote(status: string): boolean {
+  return status === QuoteStatus.SENT || status === QuoteStatus.VIEWED;
 }
 
 /**
  * Check if a quote is in a final state
  */
-export function isFinalStatus(status: QuoteStatus): boolean {
-  return STATUS_METADATA[status].isFinal;
+export function isFinalStatus(status: string, workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW): boolean {
+  return getWorkflowStatus(status, workflow)?.isFinal ?? false;
 }
 
 /**
  * Get status color class
  */
-export function getStatusColorClass(status: QuoteStatus): string {
-  return STATUS_METADATA[status]?.color || 'bg-slate-500';
+export function getStatusColorClass(status: string, workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW): string {
+  return getWorkflowStatus(status, workflow)?.color || 'bg-slate-500';
 }
 
 /**
  * Get status label
  */
-export function getStatusLabel(status: QuoteStatus): string {
-  return STATUS_METADATA[status]?.label || status;
+export function getStatusLabel(status: string, workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW): string {
+  return getWorkflowStatus(status, workflow)?.label || status;
 }
 
 /**
  * Get status description
  */
-export function getStatusDescription(status: QuoteStatus): string {
-  return STATUS_METADATA[status]?.description || '';
+export function getStatusDescription(status: string, workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW): string {
+  return getWorkflowStatus(status, workflow)?.description || '';
 }
 
 // ============================================================================
@@ -467,7 +637,8 @@ export class QuoteWorkflow {
   constructor(
     private quoteId: string,
     private currentStatus: QuoteStatus = QuoteStatus.DRAFT,
-    history: StatusChangeRecord[] = []
+    history: StatusChangeRecord[] = [],
+    private workflow: QuoteWorkflowDefinition = DEFAULT_WORKFLOW
   ) {
     this.history = [...history];
   }
@@ -489,28 +660,34 @@ export class QuoteWorkflow {
   /**
    * Get available transitions
    */
-  getAvailableTransitions(): StatusTransition[] {
-    return getAvailableTransitions(this.currentStatus);
+  getAvailableTransitions(): WorkflowTransitionDefinition[] {
+    return getAvailableTransitions(this.currentStatus, this.workflow);
   }
   
   /**
    * Check if transition is valid
    */
   canTransitionTo(toStatus: QuoteStatus): boolean {
-    return isValidTransition(this.currentStatus, toStatus);
+    return isValidTransition(this.currentStatus, toStatus, this.workflow);
   }
   
   /**
    * Perform a status transition
+   * @param userRole - Role of the member making the change, for role-restricted transitions
    */
   transition(
     toStatus: QuoteStatus,
     changedBy: string,
     changedByName: string,
     comment?: string,
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    userRole?: string
   ): TransitionResult {
-    const validation = validateTransition(this.currentStatus, toStatus);
+    const validation = validateTransition(this.currentStatus, toStatus, {
+      userRole,
+      comment,
+      workflow: this.workflow,
+    });
     
     if (!validation.success) {
       return validation;
@@ -569,14 +746,21 @@ export default {
   VALID_TRANSITIONS,
   STATUS_FLOW,
   STATUS_METADATA,
+  DEFAULT_WORKFLOW,
+  LEGACY_STATUS_MAP,
+  normalizeQuoteStatus,
+  isBuiltInStatus,
+  getWorkflowStatus,
   isValidTransition,
   validateTransition,
+  canTakeTransition,
   getAvailableTransitions,
   getNextStatuses,
   createStatusChangeRecord,
   getActivityTypeForStatusChange,
   getQuoteActions,
   canEditQuote,
+  canReviseQuote,
   isFinalStatus,
   getStatusColorClass,
   getStatusLabel,
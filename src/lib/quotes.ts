@@ -0,0 +1,447 @@
+/**
+ * Quote Data Helpers
+ * Totals calculation and database row mapping shared by the quote API
+ * routes, the quote wizard and the dashboard pages
+ * @module lib/quotes
+ */
+
+import type {
+  Activity,
+  ActivityType,
+  Customer,
+  LineItem,
+  LineItemInput,
+  QuoteCalculations,
+  QuoteMetadata,
+  QuoteStatus,
+  QuoteTerms,
+  QuoteWithRelations,
+  StatusChangeRecord,
+  SupabaseCustomer,
+  SupabaseLineItem,
+  SupabaseQuote,
+} from '@/types/quote';
+import { CustomerStatus, QuotePriority } from '@/types/quote';
+import { NO_TAX, calculateTax, type TaxContext } from '@/lib/tax';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Quote row as returned by a select that embeds its customer and line items
+ */
+export interface QuoteRowWithRelations extends SupabaseQuote {
+  customer?: SupabaseCustomer | null;
+  line_items?: SupabaseLineItem[] | null;
+}
+
+/**
+ * Raw quote_status_history row
+ */
+export interface StatusHistoryRow {
+  id: string;
+  quote_id: string;
+  from_status: QuoteStatus;
+  to_status: QuoteStatus;
+  changed_by: string;
+  changed_by_name: string;
+  changed_at: string;
+  comment?: string | null;
+  metadata?: Record<string, unknown> | null;
+  revision?: number | null;
+}
+
+/**
+ * Raw activities row
+ */
+export interface ActivityRow {
+  id: string;
+  type: ActivityType;
+  quote_id?: string | null;
+  quote_number?: string | null;
+  customer_id?: string | null;
+  customer_name?: string | null;
+  user_id?: string | null;
+  user_name?: string | null;
+  description: string;
+  metadata?: Record<string, unknown> | null;
+  created_at: string;
+}
+
+/**
+ * Line item fields supplied by API clients; amounts are always derived
+ */
+export type LineItemDraft = Pick<LineItem, 'title' | 'quantity' | 'unitPrice'> &
+  Partial<Pick<LineItem,
+    | 'id'
+    | 'productId'
+    | 'variantId'
+    | 'variantTitle'
+    | 'sku'
+    | 'originalPrice'
+    | 'unitCost'
+    | 'discountPercentage'
+    | 'taxRate'
+    | 'imageUrl'
+    | 'notes'
+    | 'customFields'
+  >>;
+
+/**
+ * Select clause embedding a quote's customer and line items
+ */
+export const QUOTE_SELECT = '*, customer:customers(*), line_items:quote_line_items(*)';
+
+// ============================================================================
+// Calculation Functions
+// ============================================================================
+
+/**
+ * Calculate quote totals from line items. The wizard, the edit page, the
+ * quote API and the PDF all price quotes through this function.
+ * Per-item percentage discounts are applied first, then the quote-level
+ * discount, spread over the items by amount, then tax at each item's own
+ * rate or the quote's (a bare number is the quote's rate, added on top).
+ * Shipping is added untaxed.
+ */
+export function calculateQuoteTotals(
+  lineItems: LineItemInput[],
+  discountTotal: number = 0,
+  tax: TaxContext | number = 0,
+  shippingTotal: number = 0
+): QuoteCalculations {
+  const context = typeof tax === 'number' ? { ...NO_TAX, rate: tax } : tax;
+  const amounts = lineItems.map((item) => {
+    const itemTotal = item.quantity * item.unit_price;
+    const itemDiscount = itemTotal * (item.discount_percent || 0) / 100;
+    return itemTotal - itemDiscount;
+  });
+  const subtotal = amounts.reduce((sum, amount) => sum + amount, 0);
+
+  const taxableAmount = Math.max(0, subtotal - discountTotal);
+  const share = subtotal > 0 ? taxableAmount / subtotal : 0;
+  const { breakdown, taxTotal, total } = calculateTax(
+    lineItems.map((item, index) => ({ amount: amounts[index] * share, taxRate: item.tax_rate })),
+    context
+  );
+
+  return {
+    subtotal: Number(subtotal.toFixed(2)),
+    discountTotal: Number(discountTotal.toFixed(2)),
+    taxTotal,
+    total: Number((total + shippingTotal).toFixed(2)),
+    taxRate: context.rate,
+    taxBreakdown: breakdown,
+    pricesIncludeTax: context.pricesIncludeTax,
+    taxExempt: context.exempt,
+  };
+}
+
+/**
+ * Convert a line item into the form input shape used by calculateQuoteTotals
+ */
+export function toLineItemInput(item: LineItemDraft): LineItemInput {
+  return {
+    name: item.title,
+    quantity: item.quantity,
+    unit_price: item.unitPrice,
+    product_id: item.productId,
+    original_price: item.originalPrice,
+    unit_cost: item.unitCost,
+    sku: item.sku,
+    discount_percent: item.discountPercentage,
+    tax_rate: item.taxRate,
+  };
+}
+
+/**
+ * Derive the amounts of a single line item.
+ * `subtotal` is quantity x unit price, `total` is net of the item discount;
+ * `taxAmount` is the tax on that total, before any quote-level discount.
+ */
+export function calculateLineItem(item: LineItemDraft, tax: TaxContext = NO_TAX): Pick<
+  LineItem,
+  'subtotal' | 'discountAmount' | 'taxAmount' | 'total'
+> {
+  const subtotal = item.quantity * item.unitPrice;
+  const discountAmount = subtotal * (item.discountPercentage || 0) / 100;
+  const total = subtotal - discountAmount;
+  const [taxAmount] = calculateTax([{ amount: total, taxRate: item.taxRate }], tax).lineTaxes;
+
+  return {
+    subtotal: Number(subtotal.toFixed(2)),
+    discountAmount: Number(discountAmount.toFixed(2)),
+    taxAmount: Number(taxAmount.toFixed(2)),
+    total: Number(total.toFixed(2)),
+  };
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+/**
+ * Quote number as shown to reps and customers, e.g. `Q-1042 rev 2`.
+ * The first version is shown without a suffix.
+ */
+export function formatQuoteNumber(quoteNumber: string, revision: number = 1): string {
+  return revision > 1 ? `${quoteNumber} rev ${revision}` : quoteNumber;
+}
+
+// ============================================================================
+// Row Mapping
+// ============================================================================
+
+function toDate(value?: string | null): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+/**
+ * Map a customers row to the Customer model
+ */
+export function mapCustomerRow(row: SupabaseCustomer): Customer {
+  return {
+    id: row.id,
+    email: row.email,
+    companyName: row.company_name,
+    contactName: row.contact_name,
+    phone: row.phone ?? undefined,
+    billingAddress: row.billing_address ?? undefined,
+    shippingAddress: row.shipping_address ?? undefined,
+    taxId: row.tax_id ?? undefined,
+    customerSince: new Date(row.customer_since || row.created_at),
+    tags: row.tags ?? [],
+    notes: row.notes ?? undefined,
+    logoUrl: row.logo_url ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    status: row.status ?? CustomerStatus.ACTIVE,
+    emailBouncedAt: toDate(row.email_bounced_at),
+    emailBounceReason: row.email_bounce_reason ?? undefined,
+    taxExempt: row.tax_exempt || undefined,
+    shopifyCustomerId: row.shopify_customer_id ?? undefined,
+    shopifyCompanyLocationId: row.shopify_company_location_id ?? undefined,
+  };
+}
+
+/**
+ * Map a quote_line_items row to the LineItem model
+ */
+export function mapLineItemRow(row: SupabaseLineItem): LineItem {
+  return {
+    id: row.id,
+    productId: row.product_id ?? '',
+    variantId: row.variant_id ?? undefined,
+    title: row.title,
+    variantTitle: row.variant_title ?? undefined,
+    sku: row.sku ?? '',
+    quantity: Number(row.quantity),
+    unitPrice: Number(row.unit_price),
+    originalPrice: row.original_price != null ? Number(row.original_price) : undefined,
+    catalogPrice: row.catalog_price != null ? Number(row.catalog_price) : undefined,
+    unitCost: row.unit_cost != null ? Number(row.unit_cost) : undefined,
+    discountAmount: Number(row.discount_amount),
+    discountPercentage: row.discount_percentage != null ? Number(row.discount_percentage) : undefined,
+    taxRate: row.tax_rate != null ? Number(row.tax_rate) : undefined,
+    taxAmount: Number(row.tax_amount),
+    subtotal: Number(row.subtotal),
+    total: Number(row.total),
+    imageUrl: row.image_url ?? undefined,
+    notes: row.notes ?? undefined,
+    customFields: row.custom_fields ?? undefined,
+  };
+}
+
+/**
+ * Map a quote_status_history row to a StatusChangeRecord
+ */
+export function mapStatusHistoryRow(row: StatusHistoryRow): StatusChangeRecord {
+  return {
+    id: row.id,
+    quoteId: row.quote_id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    changedBy: row.changed_by,
+    changedByName: row.changed_by_name,
+    changedAt: row.changed_at,
+    comment: row.comment ?? undefined,
+    metadata: row.metadata ?? undefined,
+    revision: row.revision ?? undefined,
+  };
+}
+
+/**
+ * Map an activities row to the Activity model
+ */
+export function mapActivityRow(row: ActivityRow): Activity {
+  return {
+    id: row.id,
+    type: row.type,
+    quoteId: row.quote_id ?? undefined,
+    quoteNumber: row.quote_number ?? undefined,
+    customerId: row.customer_id ?? undefined,
+    customerName: row.customer_name ?? undefined,
+    userId: row.user_id ?? undefined,
+    userName: row.user_name ?? undefined,
+    description: row.description,
+    metadata: row.metadata ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Map a quote row (with embedded customer and line items) to QuoteWithRelations.
+ * Legacy storefront rows without a customer record fall back to the
+ * requester details stored on the quote itself.
+ */
+export function mapQuoteRow(
+  row: QuoteRowWithRelations,
+  statusHistory: StatusHistoryRow[] = [],
+  activities: ActivityRow[] = []
+): QuoteWithRelations {
+  const lineItems = [...(row.line_items ?? [])]
+    .sort((a, b) => a.position - b.position)
+    .map(mapLineItemRow);
+
+  const customer: Customer = row.customer
+    ? mapCustomerRow(row.customer)
+    : {
+        id: row.customer_id ?? '',
+        email: row.customer_email,
+        companyName: row.customer_name || row.customer_email,
+        contactName: row.customer_name || row.customer_email,
+        phone: row.customer_phone ?? undefined,
+        customerSince: new Date(row.created_at),
+        tags: [],
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+        status: CustomerStatus.ACTIVE,
+      };
+
+  const terms = row.terms ?? {};
+  const metadata = row.metadata ?? {};
+
+  return {
+    id: row.id,
+    quoteNumber: row.quote_number,
+    customerId: row.customer_id ?? customer.id,
+    customer,
+    contactId: row.contact_id ?? undefined,
+    title: row.title,
+    status: row.status,
+    priority: row.priority ?? QuotePriority.MEDIUM,
+    lineItems,
+    itemsCount: lineItems.length,
+    subtotal: Number(row.subtotal),
+    discountTotal: Number(row.discount_total),
+    taxRate: Number(row.tax_rate ?? 0),
+    pricesIncludeTax: row.prices_include_tax ?? false,
+    taxExempt: row.tax_exempt ?? false,
+    taxTotal: Number(row.tax_total),
+    shippingTotal: Number(row.shipping_total),
+    total: Number(row.total),
+    terms: {
+      paymentTerms: '',
+      deliveryTerms: '',
+      validityPeriod: 30,
+      depositRequired: false,
+      ...terms,
+      currency: terms.currency || row.currency || 'USD',
+    } as QuoteTerms,
+    metadata: {
+      createdBy: 'system',
+      createdByName: 'System',
+      source: 'web',
+      ...metadata,
+    } as QuoteMetadata,
+    expiresAt: toDate(row.expires_at),
+    sentAt: toDate(row.sent_at),
+    viewedAt: toDate(row.viewed_at),
+    acceptedAt: toDate(row.accepted_at),
+    rejectedAt: toDate(row.rejected_at),
+    convertedAt: toDate(row.converted_at),
+    rejectionReason: row.rejection_reason ?? undefined,
+    priceDriftDetectedAt: toDate(row.price_drift_detected_at),
+    baseCurrency: row.base_currency ?? undefined,
+    // DECIMAL columns come back as strings
+    exchangeRate: row.exchange_rate != null ? Number(row.exchange_rate) : undefined,
+    shopifyDraftOrderId: row.shopify_draft_order_id ?? undefined,
+    shopifyDraftOrderName: row.shopify_draft_order_name ?? undefined,
+    shopifyInvoiceUrl: row.shopify_invoice_url ?? undefined,
+    shopifyOrderId: row.shopify_order_id ?? undefined,
+    templateId: row.template_id ?? undefined,
+    pdfTemplate: row.pdf_template ?? 'modern',
+    headerText: row.header_text ?? undefined,
+    footerText: row.footer_text ?? undefined,
+    revision: row.revision ?? 1,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    statusHistory: statusHistory.map(mapStatusHistoryRow),
+    activities: activities.map(mapActivityRow),
+  };
+}
+
+/**
+ * Build quote_line_items rows for insertion, deriving every amount
+ * @param tax - How the quote is taxed, for each item's tax amount
+ */
+export function buildLineItemRows(
+  quoteId: string,
+  items: LineItemDraft[],
+  tax: TaxContext = NO_TAX
+): Omit<SupabaseLineItem, 'id' | 'created_at' | 'updated_at'>[] {
+  return items.map((item, index) => {
+    const amounts = calculateLineItem(item, tax);
+    return {
+      quote_id: quoteId,
+      position: index,
+      product_id: item.productId || undefined,
+      variant_id: item.variantId,
+      title: item.title,
+      variant_title: item.variantTitle,
+      sku: item.sku ?? '',
+      quantity: item.quantity,
+      unit_price: item.unitPrice,
+      original_price: item.originalPrice,
+      unit_cost: item.unitCost,
+      discount_amount: amounts.discountAmount,
+      discount_percentage: item.discountPercentage,
+      tax_rate: item.taxRate ?? null,
+      tax_amount: amounts.taxAmount,
+      subtotal: amounts.subtotal,
+      total: amounts.total,
+      image_url: item.imageUrl,
+      notes: item.notes,
+      custom_fields: item.customFields,
+    };
+  });
+}
+
+/**
+ * Parse a JSON API payload back into a QuoteWithRelations (dates revived)
+ */
+export function parseQuoteResponse(data: QuoteWithRelations): QuoteWithRelations {
+  const dateFields = [
+    'expiresAt', 'sentAt', 'viewedAt', 'acceptedAt', 'rejectedAt', 'convertedAt', 'priceDriftDetectedAt', 'createdAt',
+    'updatedAt',
+  ] as const;
+  const quote = { ...data };
+  dateFields.forEach((field) => {
+    const value = quote[field] as unknown;
+    if (value) {
+      (quote as Record<string, unknown>)[field] = new Date(value as string);
+    }
+  });
+  quote.customer = {
+    ...data.customer,
+    customerSince: new Date(data.customer.customerSince),
+    createdAt: new Date(data.customer.createdAt),
+    updatedAt: new Date(data.customer.updatedAt),
+  };
+  quote.activities = (data.activities ?? []).map((activity) => ({
+    ...activity,
+    createdAt: new Date(activity.createdAt),
+  }));
+  return quote;
+}
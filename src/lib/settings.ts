@@ -0,0 +1,242 @@
+/**
+ * Merchant Settings
+ * Company details, email sender, quote defaults and discount approval limits
+ * a shop edits on the Settings page, stored one row per shop in merchant_settings
+ * @module lib/settings
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CompanyBranding } from '@/components/pdf/QuotePDFDocument';
+// Also read by background jobs (reminders, emails), so this uses the service role
+import { getServiceClient } from '@/lib/supabaseServer';
+import type { ApprovalThresholds, CompanyInfo, EmailSettings, MerchantSettings, QuoteSettings } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A partial update; sections and fields left out keep their stored values */
+export interface MerchantSettingsInput {
+  company?: Partial<CompanyInfo>;
+  email?: Partial<EmailSettings>;
+  quotes?: Partial<Pick<QuoteSettings,
+    | 'defaultCurrency'
+    | 'baseCurrency'
+    | 'defaultValidityPeriod'
+    | 'defaultPaymentTerms'
+    | 'taxRate'
+    | 'pricesIncludeTax'
+    | 'enableAutoReminders'
+  >>;
+  approvals?: Partial<ApprovalThresholds>;
+}
+
+interface MerchantSettingsRow {
+  shop_id: string;
+  company_name?: string | null;
+  company_address?: string | null;
+  company_phone?: string | null;
+  company_email?: string | null;
+  company_website?: string | null;
+  company_tax_id?: string | null;
+  company_logo_url?: string | null;
+  sender_name?: string | null;
+  sender_email?: string | null;
+  reply_to_email?: string | null;
+  email_footer?: string | null;
+  default_currency?: string | null;
+  base_currency?: string | null;
+  default_validity_days?: number | null;
+  default_payment_terms?: string | null;
+  default_tax_rate?: number | string | null;
+  prices_include_tax?: boolean | null;
+  auto_reminders_enabled?: boolean | null;
+  approval_max_line_discount?: number | string | null;
+  approval_max_total_discount?: number | string | null;
+  approval_min_margin?: number | string | null;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/** Settings of a shop that has never saved the Settings page */
+export const DEFAULT_MERCHANT_SETTINGS: Omit<MerchantSettings, 'shopId'> = {
+  company: {
+    name: '',
+    address: '',
+    phone: '',
+    email: '',
+    website: '',
+    taxId: '',
+  },
+  email: {
+    senderName: '',
+    senderEmail: '',
+    replyToEmail: '',
+    emailFooter: '',
+  },
+  quotes: {
+    defaultCurrency: 'USD',
+    baseCurrency: 'USD',
+    defaultValidityPeriod: 30,
+    defaultPaymentTerms: 'Net 30',
+    taxRate: 0,
+    pricesIncludeTax: false,
+    enableAutoReminders: true,
+  },
+  approvals: {
+    maxLineDiscount: null,
+    maxTotalDiscount: null,
+    minMargin: null,
+  },
+};
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+// DECIMAL columns come back as strings
+function toLimit(value: number | string | null | undefined): number | null {
+  return value != null ? Number(value) : null;
+}
+
+function mapSettingsRow(shopId: string, row: MerchantSettingsRow | null): MerchantSettings {
+  const { company, email, quotes } = DEFAULT_MERCHANT_SETTINGS;
+
+  return {
+    shopId,
+    company: {
+      name: row?.company_name ?? company.name,
+      address: row?.company_address ?? company.address,
+      phone: row?.company_phone ?? company.phone,
+      email: row?.company_email ?? company.email,
+      website: row?.company_website ?? company.website,
+      taxId: row?.company_tax_id ?? company.taxId,
+      logoUrl: row?.company_logo_url ?? undefined,
+    },
+    email: {
+      senderName: row?.sender_name ?? email.senderName,
+      senderEmail: row?.sender_email ?? email.senderEmail,
+      replyToEmail: row?.reply_to_email ?? email.replyToEmail,
+      emailFooter: row?.email_footer ?? email.emailFooter,
+    },
+    quotes: {
+      defaultCurrency: row?.default_currency ?? quotes.defaultCurrency,
+      baseCurrency: row?.base_currency ?? quotes.baseCurrency,
+      defaultValidityPeriod: row?.default_validity_days ?? quotes.defaultValidityPeriod,
+      defaultPaymentTerms: row?.default_payment_terms ?? quotes.defaultPaymentTerms,
+      // DECIMAL columns come back as strings
+      taxRate: row?.default_tax_rate != null ? Number(row.default_tax_rate) : quotes.taxRate,
+      pricesIncludeTax: row?.prices_include_tax ?? quotes.pricesIncludeTax,
+      enableAutoReminders: row?.auto_reminders_enabled ?? quotes.enableAutoReminders,
+    },
+    approvals: {
+      maxLineDiscount: toLimit(row?.approval_max_line_discount),
+      maxTotalDiscount: toLimit(row?.approval_max_total_discount),
+      minMargin: toLimit(row?.approval_min_margin),
+    },
+  };
+}
+
+function toSettingsRow(shopId: string, input: MerchantSettingsInput): MerchantSettingsRow {
+  const { company = {}, email = {}, quotes = {}, approvals = {} } = input;
+  const columns: Omit<MerchantSettingsRow, 'shop_id'> = {
+    company_name: company.name,
+    company_address: company.address,
+    company_phone: company.phone,
+    company_email: company.email,
+    company_website: company.website,
+    company_tax_id: company.taxId,
+    company_logo_url: company.logoUrl,
+    sender_name: email.senderName,
+    sender_email: email.senderEmail,
+    reply_to_email: email.replyToEmail,
+    email_footer: email.emailFooter,
+    default_currency: quotes.defaultCurrency,
+    base_currency: quotes.baseCurrency,
+    default_validity_days: quotes.defaultValidityPeriod,
+    default_payment_terms: quotes.defaultPaymentTerms,
+    default_tax_rate: quotes.taxRate,
+    prices_include_tax: quotes.pricesIncludeTax,
+    auto_reminders_enabled: quotes.enableAutoReminders,
+    // null clears a limit, so only undefined means "not sent"
+    approval_max_line_discount: approvals.maxLineDiscount,
+    approval_max_total_discount: approvals.maxTotalDiscount,
+    approval_min_margin: approvals.minMargin,
+  };
+
+  // Only the columns that were sent are written, so partial saves keep the rest
+  const row: MerchantSettingsRow = { shop_id: shopId };
+  for (const [column, value] of Object.entries(columns)) {
+    if (value !== undefined) {
+      (row as unknown as Record<string, unknown>)[column] = value;
+    }
+  }
+  return row;
+}
+
+/**
+ * Company details as printed in the quote PDF header
+ */
+export function toCompanyBranding({ company }: MerchantSettings): CompanyBranding {
+  return {
+    name: company.name,
+    logo: company.logoUrl || undefined,
+    address: company.address || undefined,
+    phone: company.phone || undefined,
+    email: company.email || undefined,
+    website: company.website || undefined,
+    taxId: company.taxId || undefined,
+  };
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Get a shop's settings, or the defaults when it has not saved any
+ * @param shopId - Shop domain
+ * @param client - The request's client in API routes; background jobs use the service role
+ */
+export async function getMerchantSettings(
+  shopId: string,
+  client: SupabaseClient = getServiceClient()
+): Promise<MerchantSettings> {
+  const { data, error } = await client
+    .from('merchant_settings')
+    .select('*')
+    .eq('shop_id', shopId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load merchant settings: ${error.message}`);
+  }
+
+  return mapSettingsRow(shopId, data as MerchantSettingsRow | null);
+}
+
+/**
+ * Save a shop's settings, creating its row on the first save
+ * @param shopId - Shop domain
+ * @param input - The sections and fields to change
+ * @param client - The request's client in API routes; background jobs use the service role
+ * @returns The settings as stored
+ */
+export async function saveMerchantSettings(
+  shopId: string,
+  input: MerchantSettingsInput,
+  client: SupabaseClient = getServiceClient()
+): Promise<MerchantSettings> {
+  const { data, error } = await client.from('merchant_settings')
+    .upsert(toSettingsRow(shopId, input), { onConflict: 'shop_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save merchant settings: ${error.message}`);
+  }
+
+  return mapSettingsRow(shopId, data as MerchantSettingsRow);
+}
@@ -5,6 +5,33 @@ import crypto from 'crypto';
 const getShopifyApiKey = () => process.env.SHOPIFY_API_KEY;
 const getShopifyApiSecret = () => process.env.SHOPIFY_API_SECRET;
 const getAppUrl = () => process.env.NEXT_PUBLIC_APP_URL;
+// Points the OAuth handshake at a local stand-in instead of the shop's admin
+const getAdminOrigin = (shop: string) => process.env.SHOPIFY_ADMIN_ORIGIN || `https://${shop}`;
+
+export const SHOPIFY_SCOPES = 'read_products,write_products,read_orders,read_customers,write_customers,read_inventory';
+
+// Install state nonces are valid for 10 minutes
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+// Holds the state of the install this browser started, so the callback only
+// completes installs started here
+export const OAUTH_STATE_COOKIE = 'qg-oauth-state';
+
+/**
+ * Compare two strings in constant time
+ */
+function safeCompare(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+function signPayload(payload: string): string {
+  return crypto
+    .createHmac('sha256', getShopifyApiSecret() || '')
+    .update(payload, 'utf8')
+    .digest('hex');
+}
 
 /**
  * Verify Shopify webhook signature
@@ -44,7 +71,7 @@ export async function verifyShopifyAuth(shop: string, code: string): Promise<{
   const SHOPIFY_API_SECRET = getShopifyApiSecret();
 
   try {
-    const response = await fetch(`https://${shop}/admin/oauth/access_token`, {
+    const response = await fetch(`${getAdminOrigin(shop)}/admin/oauth/access_token`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -65,19 +92,75 @@ export async function verifyShopifyAuth(shop: string, code: string): Promise<{
   }
 }
 
+/**
+ * Verify the HMAC Shopify adds to OAuth and app-launch query strings
+ * @param params - Query parameters as received
+ * @returns Whether the signature is valid
+ */
+export function verifyShopifyQueryHmac(params: URLSearchParams): boolean {
+  const hmac = params.get('hmac');
+  if (!hmac || !getShopifyApiSecret()) {
+    return false;
+  }
+
+  const message = Array.from(params.entries())
+    .filter(([key]) => key !== 'hmac' && key !== 'signature')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  return safeCompare(signPayload(message), hmac);
+}
+
+/**
+ * Create a signed OAuth state nonce bound to a shop
+ * @param shop - Shop domain
+ * @param issuedAt - Issue time in milliseconds
+ * @returns State value in the form `nonce.issuedAt.signature`
+ */
+export function createOAuthState(shop: string, issuedAt: number = Date.now()): string {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const signature = signPayload(`${nonce}.${issuedAt}.${shop}`);
+  return `${nonce}.${issuedAt}.${signature}`;
+}
+
+/**
+ * Verify an OAuth state nonce produced by createOAuthState
+ * @param state - State returned by Shopify
+ * @param shop - Shop domain the callback is for
+ * @param now - Current time in milliseconds
+ * @returns Whether the state is authentic, unexpired and issued for this shop
+ */
+export function verifyOAuthState(state: string, shop: string, now: number = Date.now()): boolean {
+  if (!getShopifyApiSecret()) {
+    return false;
+  }
+
+  const [nonce, issuedAtValue, signature] = state.split('.');
+  const issuedAt = Number(issuedAtValue);
+  if (!nonce || !signature || !Number.isFinite(issuedAt)) {
+    return false;
+  }
+
+  if (now - issuedAt > OAUTH_STATE_TTL_MS || issuedAt > now) {
+    return false;
+  }
+
+  return safeCompare(signPayload(`${nonce}.${issuedAt}.${shop}`), signature);
+}
+
 /**
  * Generate Shopify app install URL
  * @param shop - Shop domain
- * @returns Install URL for OAuth flow
+ * @param state - Signed state nonce from createOAuthState
+ * @returns Install URL for OAuth flow, carrying the state nonce
  */
-export function generateInstallUrl(shop: string): string {
+export function generateInstallUrl(shop: string, state: string = createOAuthState(shop)): string {
   const SHOPIFY_API_KEY = getShopifyApiKey();
   const APP_URL = getAppUrl();
-  const scopes = 'read_products,write_products,read_orders,read_customers';
   const redirectUri = `${APP_URL}/api/auth/callback`;
-  const nonce = crypto.randomBytes(16).toString('hex');
 
-  return `https://${shop}/admin/oauth/authorize?client_id=${SHOPIFY_API_KEY}&scope=${scopes}&redirect_uri=${redirectUri}&state=${nonce}`;
+  return `${getAdminOrigin(shop)}/admin/oauth/authorize?client_id=${SHOPIFY_API_KEY}&scope=${SHOPIFY_SCOPES}&redirect_uri=${redirectUri}&state=${state}`;
 }
 
 /**
@@ -95,7 +178,7 @@ export function isValidShopDomain(shop: string): boolean {
  * @returns GraphQL endpoint URL
  */
 export function getShopifyGraphqlUrl(shop: string): string {
-  return `https://${shop}/admin/api/2024-01/graphql.json`;
+  return `${getAdminOrigin(shop)}/admin/api/2024-01/graphql.json`;
 }
 
 /**
@@ -106,5 +189,42 @@ export function getShopifyGraphqlUrl(shop: string): string {
  */
 export function getShopifyRestUrl(shop: string, endpoint: string): string {
   const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
-  return `https://${shop}/admin/api/2024-01/${cleanEndpoint}`;
+  return `${getAdminOrigin(shop)}/admin/api/2024-01/${cleanEndpoint}`;
+}
+
+/**
+ * Run a query against the Shopify GraphQL Admin API
+ * @param shop - Shop domain
+ * @param accessToken - Admin API access token
+ * @param query - GraphQL document
+ * @param variables - Query variables
+ * @returns The `data` field of the response
+ * @throws When the request fails or the response carries GraphQL errors
+ */
+export async function shopifyGraphql<T>(
+  shop: string,
+  accessToken: string,
+  query: string,
+  variables: Record<string, unknown> = {}
+): Promise<T> {
+  const response = await fetch(getShopifyGraphqlUrl(shop), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Shopify-Access-Token': accessToken,
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Shopify GraphQL request failed with status ${response.status}`);
+  }
+
+  const result: { data?: T; errors?: Array<{ message: string }> } = await response.json();
+
+  if (result.errors?.length) {
+    throw new Error(`Shopify GraphQL error: ${result.errors.map((e) => e.message).join('; ')}`);
+  }
+
+  return result.data as T;
 }
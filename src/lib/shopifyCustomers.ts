@@ -0,0 +1,624 @@
+/**
+ * Shopify Customer Sync
+ * Links customers to the shop's Shopify customers and B2B company locations
+ * by GID: a full sync page by page, the customers/* webhooks, pushing local
+ * edits back to Shopify, and finding who a converted quote is ordered for
+ * @module lib/shopifyCustomers
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { shopifyGraphql } from '@/lib/shopify';
+import { getShopScopes } from '@/lib/shops';
+import { escapeLikePattern } from '@/lib/utils';
+import { ActivityType, CustomerStatus, type CustomerAddress, type SupabaseCustomer } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ShopifySyncResource = 'customers' | 'companies';
+
+export type ShopifySyncOutcome = 'created' | 'updated' | 'skipped';
+
+interface ShopifyMailingAddress {
+  address1?: string | null;
+  address2?: string | null;
+  city?: string | null;
+  province?: string | null;
+  provinceCode?: string | null;
+  zoneCode?: string | null;
+  zip?: string | null;
+  country?: string | null;
+  countryCode?: string | null;
+  countryCodeV2?: string | null;
+  company?: string | null;
+}
+
+export interface ShopifyCustomerNode {
+  id: string;
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  phone?: string | null;
+  tags?: string[];
+  taxExempt?: boolean;
+  taxExemptions?: string[];
+  defaultAddress?: ShopifyMailingAddress | null;
+}
+
+export interface ShopifyCompanyLocationNode {
+  id: string;
+  name: string;
+  phone?: string | null;
+  taxRegistrationId?: string | null;
+  taxExemptions?: string[];
+  billingAddress?: ShopifyMailingAddress | null;
+  shippingAddress?: ShopifyMailingAddress | null;
+}
+
+export interface ShopifyCompanyNode {
+  id: string;
+  name: string;
+  mainContact?: {
+    id: string;
+    customer: ShopifyCustomerNode;
+  } | null;
+  locations: { nodes: ShopifyCompanyLocationNode[] };
+}
+
+/**
+ * A customers/create or customers/update webhook body (REST shape)
+ */
+export interface ShopifyCustomerPayload {
+  id: number;
+  admin_graphql_api_id?: string;
+  email?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  phone?: string | null;
+  tags?: string;
+  tax_exempt?: boolean;
+  tax_exemptions?: string[];
+  default_address?: {
+    address1?: string | null;
+    address2?: string | null;
+    city?: string | null;
+    province?: string | null;
+    province_code?: string | null;
+    zip?: string | null;
+    country?: string | null;
+    country_code?: string | null;
+    company?: string | null;
+  } | null;
+}
+
+export interface ShopifySyncPageResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  /** Cursor of the next page, or null after the last one */
+  nextCursor: string | null;
+}
+
+/**
+ * Who a draft order is placed for: a Shopify customer, or a B2B company
+ * location and its contact
+ */
+export type ShopifyPurchasingEntity =
+  | { customerId: string }
+  | { purchasingCompany: { companyId: string; companyLocationId: string; companyContactId: string } };
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+type LinkedCustomerRow = Pick<SupabaseCustomer,
+  | 'id'
+  | 'email'
+  | 'company_name'
+  | 'contact_name'
+  | 'phone'
+  | 'tags'
+  | 'shopify_customer_id'
+  | 'shopify_company_location_id'
+>;
+
+const LINKED_CUSTOMER_SELECT =
+  'id, email, company_name, contact_name, phone, tags, shopify_customer_id, shopify_company_location_id';
+
+const SHOPIFY_ACTOR = { id: 'shopify', name: 'Shopify' };
+
+const MAILING_ADDRESS_FIELDS = 'address1 address2 city province provinceCode zip country countryCodeV2 company';
+const COMPANY_ADDRESS_FIELDS = 'address1 address2 city province zoneCode zip countryCode';
+const CUSTOMER_FIELDS = `id email firstName lastName phone tags taxExempt taxExemptions defaultAddress { ${MAILING_ADDRESS_FIELDS} }`;
+
+export const SYNC_CUSTOMERS_QUERY = `
+  query SyncCustomers($cursor: String) {
+    customers(first: 100, after: $cursor) {
+      pageInfo { hasNextPage endCursor }
+      nodes { ${CUSTOMER_FIELDS} }
+    }
+  }
+`;
+
+export const SYNC_COMPANIES_QUERY = `
+  query SyncCompanies($cursor: String) {
+    companies(first: 25, after: $cursor) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        id
+        name
+        mainContact { id customer { ${CUSTOMER_FIELDS} } }
+        locations(first: 50) {
+          nodes {
+            id
+            name
+            phone
+            taxRegistrationId
+            taxExemptions
+            billingAddress { ${COMPANY_ADDRESS_FIELDS} }
+            shippingAddress { ${COMPANY_ADDRESS_FIELDS} }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const FIND_CUSTOMER_BY_EMAIL_QUERY = `
+  query FindCustomerByEmail($query: String!) {
+    customers(first: 1, query: $query) {
+      nodes { id }
+    }
+  }
+`;
+
+export const CUSTOMER_CREATE_MUTATION = `
+  mutation CustomerCreate($input: CustomerInput!) {
+    customerCreate(input: $input) {
+      customer { id }
+      userErrors { field message }
+    }
+  }
+`;
+
+export const CUSTOMER_UPDATE_MUTATION = `
+  mutation CustomerUpdate($input: CustomerInput!) {
+    customerUpdate(input: $input) {
+      customer { id }
+      userErrors { field message }
+    }
+  }
+`;
+
+// ============================================================================
+// Field Mapping
+// ============================================================================
+
+const clean = (value?: string | null) => value?.trim() || '';
+
+/**
+ * Map a Shopify address to a customer address, keeping state and country as
+ * codes so tax rules match. Addresses without a street, city and country are
+ * dropped.
+ */
+export function mapShopifyAddress(address?: ShopifyMailingAddress | null): CustomerAddress | undefined {
+  if (!address) return undefined;
+
+  const street = [clean(address.address1), clean(address.address2)].filter(Boolean).join(', ');
+  const city = clean(address.city);
+  const country = clean(address.countryCodeV2) || clean(address.countryCode) || clean(address.country);
+
+  if (!street || !city || !country) return undefined;
+
+  return {
+    street,
+    city,
+    state: clean(address.provinceCode) || clean(address.zoneCode) || clean(address.province),
+    zipCode: clean(address.zip),
+    country,
+  };
+}
+
+/**
+ * Map a customers/* webhook body to the GraphQL customer shape
+ */
+export function mapShopifyCustomerPayload(payload: ShopifyCustomerPayload): ShopifyCustomerNode {
+  const address = payload.default_address;
+
+  return {
+    id: payload.admin_graphql_api_id || `gid://shopify/Customer/${payload.id}`,
+    email: payload.email,
+    firstName: payload.first_name,
+    lastName: payload.last_name,
+    phone: payload.phone,
+    tags: (payload.tags || '').split(',').map((tag) => tag.trim()).filter(Boolean),
+    taxExempt: payload.tax_exempt,
+    taxExemptions: payload.tax_exemptions,
+    defaultAddress: address && {
+      address1: address.address1,
+      address2: address.address2,
+      city: address.city,
+      province: address.province,
+      provinceCode: address.province_code,
+      zip: address.zip,
+      country: address.country,
+      countryCodeV2: address.country_code,
+      company: address.company,
+    },
+  };
+}
+
+const contactNameOf = (customer: ShopifyCustomerNode) =>
+  [clean(customer.firstName), clean(customer.lastName)].filter(Boolean).join(' ');
+
+/**
+ * Split a contact name into the first and last name Shopify keeps
+ */
+export function splitContactName(contactName: string): { firstName: string; lastName: string } {
+  const [firstName = '', ...rest] = contactName.trim().split(/\s+/);
+  return { firstName, lastName: rest.join(' ') };
+}
+
+// ============================================================================
+// Linking
+// ============================================================================
+
+async function findCustomer(
+  client: SupabaseClient,
+  shop: string,
+  column: 'shopify_customer_id' | 'shopify_company_location_id' | 'email',
+  value: string
+): Promise<LinkedCustomerRow | null> {
+  const query = client.from('customers').select(LINKED_CUSTOMER_SELECT).eq('shop_id', shop);
+  const { data, error } = column === 'email'
+    ? await query.ilike('email', escapeLikePattern(value)).maybeSingle()
+    : await query.eq(column, value).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up customer: ${error.message}`);
+  }
+  return data as LinkedCustomerRow | null;
+}
+
+/**
+ * Insert a customer linked to Shopify, or update the one it matched.
+ * A Shopify customer or location that lost a race for its email or link
+ * (23505 unique_violation) is skipped; the next sync picks it up.
+ */
+async function saveLinkedCustomer(
+  client: SupabaseClient,
+  shop: string,
+  existing: LinkedCustomerRow | null,
+  fields: Partial<SupabaseCustomer>
+): Promise<ShopifySyncOutcome> {
+  const now = new Date().toISOString();
+
+  if (existing) {
+    const { error } = await client.from('customers')
+      .update({ ...fields, shopify_synced_at: now })
+      .eq('id', existing.id);
+
+    if (error) {
+      if (error.code === '23505') return 'skipped';
+      throw new Error(`Failed to update customer: ${error.message}`);
+    }
+    return 'updated';
+  }
+
+  const { data, error } = await client.from('customers')
+    .insert({ ...fields, shop_id: shop, status: CustomerStatus.ACTIVE, shopify_synced_at: now })
+    .select('id, company_name')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') return 'skipped';
+    throw new Error(`Failed to create customer: ${error.message}`);
+  }
+
+  await client.from('activities').insert({
+    type: ActivityType.CUSTOMER_ADDED,
+    customer_id: data.id,
+    customer_name: data.company_name,
+    user_id: SHOPIFY_ACTOR.id,
+    user_name: SHOPIFY_ACTOR.name,
+    description: `Customer ${data.company_name} added from Shopify`,
+    metadata: { shopifyId: fields.shopify_company_location_id || fields.shopify_customer_id },
+  });
+
+  return 'created';
+}
+
+/**
+ * Create or refresh the customer linked to a Shopify customer.
+ * Matches on the GID, then on email. A customer that is the contact of a
+ * company location keeps the location's company, addresses and tax status;
+ * only its contact details follow the Shopify customer. Local tags are kept.
+ */
+export async function upsertShopifyCustomer(
+  client: SupabaseClient,
+  shop: string,
+  customer: ShopifyCustomerNode
+): Promise<ShopifySyncOutcome> {
+  const email = clean(customer.email).toLowerCase();
+  const existing = await findCustomer(client, shop, 'shopify_customer_id', customer.id)
+    ?? (email ? await findCustomer(client, shop, 'email', email) : null);
+
+  // Our customers need an email; Shopify's do not
+  if (!email && !existing) {
+    return 'skipped';
+  }
+  if (existing?.shopify_customer_id && existing.shopify_customer_id !== customer.id) {
+    return 'skipped';
+  }
+
+  const contactName = contactNameOf(customer) || existing?.contact_name || email;
+  const contact: Partial<SupabaseCustomer> = {
+    ...(email && { email }),
+    contact_name: contactName,
+    phone: clean(customer.phone) || existing?.phone,
+    shopify_customer_id: customer.id,
+  };
+
+  if (existing?.shopify_company_location_id) {
+    return saveLinkedCustomer(client, shop, existing, contact);
+  }
+
+  const address = mapShopifyAddress(customer.defaultAddress);
+
+  return saveLinkedCustomer(client, shop, existing, {
+    ...contact,
+    company_name: existing?.company_name || clean(customer.defaultAddress?.company) || contactName,
+    tags: Array.from(new Set([...(existing?.tags ?? []), ...(customer.tags ?? [])])),
+    tax_exempt: Boolean(customer.taxExempt || customer.taxExemptions?.length),
+    ...(address && { billing_address: address, shipping_address: address }),
+  });
+}
+
+/**
+ * Create or refresh the customer for a B2B company location, with the
+ * company's main contact as its contact. Matches on the location GID, then
+ * on the contact's email unless that customer is another location's.
+ */
+export async function upsertShopifyCompanyLocation(
+  client: SupabaseClient,
+  shop: string,
+  company: ShopifyCompanyNode,
+  location: ShopifyCompanyLocationNode
+): Promise<ShopifySyncOutcome> {
+  const contact = company.mainContact;
+  const email = clean(contact?.customer.email).toLowerCase();
+
+  let existing = await findCustomer(client, shop, 'shopify_company_location_id', location.id);
+  if (!existing && email) {
+    existing = await findCustomer(client, shop, 'email', email);
+    if (existing?.shopify_company_location_id) {
+      return 'skipped';
+    }
+  }
+
+  if (!contact || (!email && !existing)) {
+    return 'skipped';
+  }
+
+  const billingAddress = mapShopifyAddress(location.billingAddress);
+  const shippingAddress = mapShopifyAddress(location.shippingAddress) ?? billingAddress;
+  const companyName = location.name && location.name !== company.name
+    ? `${company.name} (${location.name})`
+    : company.name;
+
+  return saveLinkedCustomer(client, shop, existing, {
+    ...(email && { email }),
+    company_name: companyName,
+    contact_name: contactNameOf(contact.customer) || existing?.contact_name || email,
+    phone: clean(location.phone) || clean(contact.customer.phone) || existing?.phone,
+    tax_id: clean(location.taxRegistrationId) || undefined,
+    tax_exempt: Boolean(location.taxExemptions?.length),
+    ...(billingAddress && { billing_address: billingAddress }),
+    ...(shippingAddress && { shipping_address: shippingAddress }),
+    shopify_customer_id: contact.customer.id,
+    shopify_company_id: company.id,
+    shopify_company_location_id: location.id,
+    shopify_company_contact_id: contact.id,
+  });
+}
+
+/**
+ * Unlink the customer of a deleted Shopify customer. The customer and its
+ * quotes stay; a company location loses only its contact link.
+ * @returns Whether a customer was linked
+ */
+export async function unlinkShopifyCustomer(
+  client: SupabaseClient,
+  shop: string,
+  shopifyCustomerId: string
+): Promise<boolean> {
+  const existing = await findCustomer(client, shop, 'shopify_customer_id', shopifyCustomerId);
+  if (!existing) {
+    return false;
+  }
+
+  const { error } = await client.from('customers')
+    .update({
+      shopify_customer_id: null,
+      shopify_company_contact_id: null,
+      shopify_synced_at: new Date().toISOString(),
+    })
+    .eq('id', existing.id);
+
+  if (error) {
+    throw new Error(`Failed to unlink customer: ${error.message}`);
+  }
+  return true;
+}
+
+// ============================================================================
+// Full Sync
+// ============================================================================
+
+/**
+ * Import one page of the shop's Shopify customers, or of its companies with
+ * one customer per location
+ * @throws When Shopify rejects the query
+ */
+export async function syncShopifyCustomersPage(
+  client: SupabaseClient,
+  shop: string,
+  accessToken: string,
+  resource: ShopifySyncResource,
+  cursor: string | null = null
+): Promise<ShopifySyncPageResult> {
+  const result: ShopifySyncPageResult = { created: 0, updated: 0, skipped: 0, nextCursor: null };
+  let pageInfo: PageInfo;
+
+  if (resource === 'customers') {
+    const data = await shopifyGraphql<{ customers: { pageInfo: PageInfo; nodes: ShopifyCustomerNode[] } }>(
+      shop, accessToken, SYNC_CUSTOMERS_QUERY, { cursor }
+    );
+    for (const customer of data.customers.nodes) {
+      result[await upsertShopifyCustomer(client, shop, customer)]++;
+    }
+    pageInfo = data.customers.pageInfo;
+  } else {
+    const data = await shopifyGraphql<{ companies: { pageInfo: PageInfo; nodes: ShopifyCompanyNode[] } }>(
+      shop, accessToken, SYNC_COMPANIES_QUERY, { cursor }
+    );
+    for (const company of data.companies.nodes) {
+      for (const location of company.locations.nodes) {
+        result[await upsertShopifyCompanyLocation(client, shop, company, location)]++;
+      }
+    }
+    pageInfo = data.companies.pageInfo;
+  }
+
+  result.nextCursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+  return result;
+}
+
+// ============================================================================
+// Pushing Changes to Shopify
+// ============================================================================
+
+function assertNoUserErrors(action: string, userErrors: Array<{ field?: string[] | null; message: string }>) {
+  if (userErrors.length > 0) {
+    const messages = userErrors.map((e) => (e.field?.length ? `${e.field.join('.')}: ${e.message}` : e.message));
+    throw new Error(`Shopify rejected the ${action}: ${messages.join('; ')}`);
+  }
+}
+
+async function canWriteCustomers(shop: string): Promise<boolean> {
+  return (await getShopScopes(shop)).includes('write_customers');
+}
+
+/**
+ * Send a linked customer's contact details, and for a plain customer its
+ * tags, to Shopify. Company locations are edited in Shopify itself.
+ * Does nothing for unlinked customers or shops that did not grant
+ * write_customers. The customers/update webhook this triggers only writes
+ * the same values back, so edits do not echo.
+ * @returns Whether the customer was pushed
+ * @throws When Shopify rejects the update
+ */
+export async function pushCustomerToShopify(
+  shop: string,
+  accessToken: string,
+  customer: SupabaseCustomer
+): Promise<boolean> {
+  if (!customer.shopify_customer_id || !(await canWriteCustomers(shop))) {
+    return false;
+  }
+
+  const data = await shopifyGraphql<{ customerUpdate: { userErrors: Array<{ field?: string[] | null; message: string }> } }>(
+    shop,
+    accessToken,
+    CUSTOMER_UPDATE_MUTATION,
+    {
+      input: {
+        id: customer.shopify_customer_id,
+        email: customer.email,
+        ...splitContactName(customer.contact_name),
+        phone: customer.phone || null,
+        ...(!customer.shopify_company_location_id && { tags: customer.tags }),
+      },
+    }
+  );
+
+  assertNoUserErrors('customer update', data.customerUpdate.userErrors);
+  return true;
+}
+
+/**
+ * Find who a quote's draft order should be placed for. A company location
+ * orders as the company; a linked customer as itself. An unlinked customer
+ * is matched to a Shopify customer by email, or created in Shopify when the
+ * shop allows it, and linked for next time.
+ * @returns The purchasing entity, or undefined to order by email only
+ * @throws When Shopify rejects the lookup or the new customer
+ */
+export async function resolveShopifyPurchaser(
+  client: SupabaseClient,
+  shop: string,
+  accessToken: string,
+  customer: SupabaseCustomer
+): Promise<ShopifyPurchasingEntity | undefined> {
+  if (customer.shopify_company_id && customer.shopify_company_location_id && customer.shopify_company_contact_id) {
+    return {
+      purchasingCompany: {
+        companyId: customer.shopify_company_id,
+        companyLocationId: customer.shopify_company_location_id,
+        companyContactId: customer.shopify_company_contact_id,
+      },
+    };
+  }
+
+  if (customer.shopify_customer_id) {
+    return { customerId: customer.shopify_customer_id };
+  }
+
+  if (!customer.email) {
+    return undefined;
+  }
+
+  const found = await shopifyGraphql<{ customers: { nodes: Array<{ id: string }> } }>(
+    shop,
+    accessToken,
+    FIND_CUSTOMER_BY_EMAIL_QUERY,
+    { query: `email:"${customer.email.replace(/["\\]/g, '')}"` }
+  );
+  let customerId: string | undefined = found.customers.nodes[0]?.id;
+
+  if (!customerId) {
+    if (!(await canWriteCustomers(shop))) {
+      return undefined;
+    }
+
+    const created = await shopifyGraphql<{
+      customerCreate: { customer: { id: string } | null; userErrors: Array<{ field?: string[] | null; message: string }> };
+    }>(shop, accessToken, CUSTOMER_CREATE_MUTATION, {
+      input: {
+        email: customer.email,
+        ...splitContactName(customer.contact_name),
+        phone: customer.phone || undefined,
+        tags: customer.tags,
+      },
+    });
+
+    assertNoUserErrors('new customer', created.customerCreate.userErrors);
+    customerId = created.customerCreate.customer?.id;
+    if (!customerId) {
+      return undefined;
+    }
+  }
+
+  const { error } = await client.from('customers')
+    .update({ shopify_customer_id: customerId, shopify_synced_at: new Date().toISOString() })
+    .eq('id', customer.id);
+
+  // The order can still be placed for the Shopify customer
+  if (error) {
+    console.error('Error linking customer to Shopify:', error);
+  }
+
+  return { customerId };
+}
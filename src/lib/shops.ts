@@ -0,0 +1,88 @@
+// Installed shops and their encrypted Admin API access tokens
+import { decryptSecret, encryptSecret } from '@/lib/encryption';
+// Tokens are only readable with the service role key; the shops table has no RLS policies
+import { getServiceClient } from '@/lib/supabaseServer';
+
+export interface ShopInstallation {
+  shop_id: string;
+  scopes: string[];
+  installed_at: string;
+  uninstalled_at: string | null;
+}
+
+/**
+ * Record a completed install, replacing any previous token for the shop
+ * @param shop - Shop domain
+ * @param accessToken - Offline Admin API access token
+ * @param scope - Comma-separated scopes granted by the merchant
+ */
+export async function saveShopInstallation(shop: string, accessToken: string, scope: string) {
+  const { data, error } = await getServiceClient().from('shops')
+    .upsert({
+      shop_id: shop,
+      access_token_encrypted: encryptSecret(accessToken),
+      scopes: scope.split(',').map((s: string) => s.trim()).filter(Boolean),
+      installed_at: new Date().toISOString(),
+      uninstalled_at: null,
+      cleanup_scheduled_at: null,
+    }, { onConflict: 'shop_id' })
+    .select('shop_id, scopes, installed_at, uninstalled_at')
+    .single();
+
+  if (error) throw error;
+  return data as ShopInstallation;
+}
+
+/**
+ * Get the decrypted access token of an installed shop
+ * @param shop - Shop domain
+ * @returns The access token, or null when the app is not installed
+ */
+export async function getShopAccessToken(shop: string): Promise<string | null> {
+  const { data, error } = await getServiceClient()
+    .from('shops')
+    .select('access_token_encrypted')
+    .eq('shop_id', shop)
+    .is('uninstalled_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const encrypted = (data as { access_token_encrypted: string | null } | null)?.access_token_encrypted;
+  return encrypted ? decryptSecret(encrypted) : null;
+}
+
+/**
+ * Get the scopes an installed shop granted, e.g. to skip fields it did not allow
+ * @param shop - Shop domain
+ * @returns The scopes, or none when the app is not installed
+ */
+export async function getShopScopes(shop: string): Promise<string[]> {
+  const { data, error } = await getServiceClient()
+    .from('shops')
+    .select('scopes')
+    .eq('shop_id', shop)
+    .is('uninstalled_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return (data as { scopes: string[] | null } | null)?.scopes ?? [];
+}
+
+/**
+ * Drop the stored token of an uninstalled shop and schedule its data for cleanup
+ * @param shop - Shop domain
+ * @param cleanupAt - When the shop's data may be purged
+ */
+export async function revokeShopInstallation(shop: string, cleanupAt: Date) {
+  const { error } = await getServiceClient().from('shops')
+    .update({
+      access_token_encrypted: null,
+      uninstalled_at: new Date().toISOString(),
+      cleanup_scheduled_at: cleanupAt.toISOString(),
+    })
+    .eq('shop_id', shop);
+
+  if (error) throw error;
+}
@@ -1,4 +1,7 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { QuoteStatus } from '@/types/quote';
+import { normalizeQuoteStatus, type LegacyQuoteStatus } from '@/lib/quoteWorkflow';
+import { generateQuoteNumber } from '@/lib/utils';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'http://localhost:54321';
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'test-key';
@@ -9,16 +12,21 @@ export const supabase = createClient(supabaseUrl, supabaseKey);
 export interface Quote {
   id: string;
   shop_id: string;
-  product_id: string;
+  quote_number: string;
+  customer_id?: string;
+  title: string;
+  product_id?: string;
   product_title: string;
   customer_email: string;
   customer_name?: string;
   customer_phone?: string;
   quantity?: number;
   message?: string;
-  status: 'pending' | 'quoted' | 'accepted' | 'declined';
+  status: QuoteStatus;
   admin_notes?: string;
   quote_amount?: number;
+  subtotal: number;
+  total: number;
   created_at: string;
   updated_at: string;
 }
@@ -35,6 +43,8 @@ export interface ShopSettings {
 }
 
 // API Functions
+// Server callers pass their own client (see lib/supabaseServer); the default
+// is the browser client, which acts as the signed-in user
 export async function createQuote(quote: {
   shop_id: string;
   product_id: string;
@@ -44,15 +54,36 @@ export async function createQuote(quote: {
   customer_phone?: string | null;
   quantity?: number | null;
   message?: string | null;
-  status: 'pending' | 'quoted' | 'accepted' | 'declined';
-}) {
-  const { data, error } = await supabase
+  status: QuoteStatus | LegacyQuoteStatus;
+}, client: SupabaseClient = supabase) {
+  const { data, error } = await client
     .from('quotes')
-    .insert(quote)
+    .insert({
+      ...quote,
+      status: normalizeQuoteStatus(quote.status) ?? QuoteStatus.PENDING,
+      quote_number: generateQuoteNumber(),
+      title: quote.product_title,
+      metadata: { source: 'web' },
+    })
     .select()
     .single();
   
   if (error) throw error;
+
+  // Storefront requests become single-line-item quotes; the merchant prices them later
+  const { error: lineItemError } = await client
+    .from('quote_line_items')
+    .insert({
+      quote_id: data.id,
+      position: 0,
+      product_id: quote.product_id,
+      title: quote.product_title,
+      quantity: quote.quantity || 1,
+      unit_price: 0,
+      notes: quote.message ?? null,
+    });
+
+  if (lineItemError) throw lineItemError;
   return data;
 }
 
@@ -67,30 +98,8 @@ export async function getQuotes(shopId: string) {
   return data;
 }
 
-export async function updateQuoteStatus(
-  quoteId: string, 
-  status: Quote['status'], 
-  adminNotes?: string,
-  quoteAmount?: number
-) {
-  const { data, error } = await supabase
-    .from('quotes')
-    .update({ 
-      status, 
-      admin_notes: adminNotes,
-      quote_amount: quoteAmount,
-      updated_at: new Date().toISOString()
-    })
-    .eq('id', quoteId)
-    .select()
-    .single();
-  
-  if (error) throw error;
-  return data;
-}
-
-export async function getShopSettings(shopId: string) {
-  const { data, error } = await supabase
+export async function getShopSettings(shopId: string, client: SupabaseClient = supabase) {
+  const { data, error } = await client
     .from('shop_settings')
     .select('*')
     .eq('shop_id', shopId)
@@ -0,0 +1,50 @@
+/**
+ * Server Supabase Clients
+ * API routes query Supabase as the signed-in member, so row level security
+ * keeps them to their own shop's rows. The service role is only for requests
+ * without a user session (storefront, buyers, webhooks, cron) and background jobs.
+ * @module lib/supabaseServer
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { getRequestAccessToken } from '@/lib/permissions';
+
+let serviceClient: SupabaseClient | null = null;
+
+/**
+ * A client acting as the request's user. Requests without an access token
+ * get an anonymous client, which RLS lets read nothing.
+ */
+export function createRequestClient(request: Pick<Request, 'headers'>): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+  const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase environment variables are not configured');
+  }
+
+  const accessToken = getRequestAccessToken(request);
+
+  return createClient(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+  });
+}
+
+/**
+ * The service-role client, which bypasses RLS. Callers scope every query by
+ * shop themselves.
+ */
+export function getServiceClient(): SupabaseClient {
+  if (!serviceClient) {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Supabase service role is not configured');
+    }
+
+    serviceClient = createClient(supabaseUrl, supabaseKey);
+  }
+  return serviceClient;
+}
@@ -0,0 +1,319 @@
+/**
+ * Tax
+ * Which rate a customer pays, from the shop's regional rules and the
+ * customer's shipping address; tax-exempt customers; tax-inclusive prices;
+ * and the per-rate breakdown printed on quotes. Quote totals are worked out
+ * by calculateQuoteTotals in lib/quotes, which calls calculateTax here.
+ * @module lib/tax
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Address, CustomerAddress, Quote, TaxBreakdownLine, TaxRule } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Raw tax_rules row
+ */
+export interface TaxRuleRow {
+  id: string;
+  shop_id: string;
+  name: string;
+  country: string;
+  region: string;
+  // DECIMAL columns come back as strings
+  rate: number | string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaxRuleInput {
+  name: string;
+  country: string;
+  region?: string;
+  rate: number;
+}
+
+/**
+ * How a quote is taxed: the rate for lines without their own, whether
+ * prices include tax, and whether the customer is exempt
+ */
+export interface TaxContext {
+  rate: number;
+  pricesIncludeTax: boolean;
+  exempt: boolean;
+}
+
+/** A line's amount after every discount, and its own rate if it has one */
+export interface TaxableLine {
+  amount: number;
+  taxRate?: number | null;
+}
+
+export interface TaxCalculation {
+  /** Tax on each line, in the order given */
+  lineTaxes: number[];
+  breakdown: TaxBreakdownLine[];
+  taxTotal: number;
+  /** What the customer pays for the lines, tax included */
+  total: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const NO_TAX: TaxContext = { rate: 0, pricesIncludeTax: false, exempt: false };
+
+export const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+
+function round(amount: number): number {
+  return Number(amount.toFixed(2));
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function normalize(value: string | null | undefined): string {
+  return (value ?? '').trim().toUpperCase();
+}
+
+/**
+ * "United States" for US; the code itself when the runtime has no name for it
+ */
+export function getCountryName(code: string, locale = 'en'): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'region' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * The rule for an address: one for its state wins over one for its whole
+ * country. Addresses name their country by ISO code or by English name.
+ */
+export function findTaxRule(
+  rules: Pick<TaxRule, 'country' | 'region' | 'rate' | 'name'>[],
+  address?: Pick<CustomerAddress | Address, 'country' | 'state'> | null
+): Pick<TaxRule, 'country' | 'region' | 'rate' | 'name'> | null {
+  const country = normalize(address?.country);
+  if (!country) {
+    return null;
+  }
+
+  const state = normalize(address?.state);
+  const matches = rules.filter((rule) =>
+    normalize(rule.country) === country || normalize(getCountryName(rule.country)) === country);
+
+  return matches.find((rule) => state && normalize(rule.region) === state)
+    ?? matches.find((rule) => !normalize(rule.region))
+    ?? null;
+}
+
+/**
+ * Customers with a tax ID on file (resellers, charities, businesses under
+ * reverse charge), or marked exempt in Shopify, are not charged tax
+ */
+export function isTaxExempt(taxId?: string | null, taxExempt?: boolean | null): boolean {
+  return Boolean(taxExempt) || Boolean(taxId?.trim());
+}
+
+/**
+ * How a new quote for a customer is taxed
+ * @param fallbackRate - Rate where no rule matches the customer's shipping address
+ */
+export function resolveTaxContext({
+  rules,
+  shippingAddress,
+  taxId,
+  taxExempt,
+  fallbackRate,
+  pricesIncludeTax,
+}: {
+  rules: Pick<TaxRule, 'country' | 'region' | 'rate' | 'name'>[];
+  shippingAddress?: Pick<CustomerAddress | Address, 'country' | 'state'> | null;
+  taxId?: string | null;
+  taxExempt?: boolean | null;
+  fallbackRate: number;
+  pricesIncludeTax: boolean;
+}): TaxContext {
+  return {
+    rate: findTaxRule(rules, shippingAddress)?.rate ?? fallbackRate,
+    pricesIncludeTax,
+    exempt: isTaxExempt(taxId, taxExempt),
+  };
+}
+
+/**
+ * How a saved quote is taxed, as stamped when it was priced
+ */
+export function getQuoteTaxContext(quote: Pick<Quote, 'taxRate' | 'pricesIncludeTax' | 'taxExempt'>): TaxContext {
+  return {
+    rate: quote.taxRate ?? 0,
+    pricesIncludeTax: quote.pricesIncludeTax ?? false,
+    exempt: quote.taxExempt ?? false,
+  };
+}
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+/**
+ * Tax on a set of lines. With tax-inclusive prices the tax is worked out of
+ * each amount, otherwise it is added on top. Exempt customers pay the
+ * amounts without tax: inclusive prices are reduced by the tax they contain.
+ */
+export function calculateTax(lines: TaxableLine[], tax: TaxContext): TaxCalculation {
+  const groups = new Map<number, { taxableAmount: number; taxAmount: number }>();
+  let amountTotal = 0;
+  let includedTax = 0;
+
+  const lineTaxes = lines.map(({ amount, taxRate }) => {
+    const rate = taxRate ?? tax.rate;
+    const lineTax = tax.pricesIncludeTax
+      ? amount - amount / (1 + rate / 100)
+      : amount * rate / 100;
+
+    amountTotal += amount;
+    if (tax.pricesIncludeTax) {
+      includedTax += lineTax;
+    }
+    if (tax.exempt) {
+      return 0;
+    }
+
+    if (rate > 0) {
+      const group = groups.get(rate) ?? { taxableAmount: 0, taxAmount: 0 };
+      group.taxableAmount += tax.pricesIncludeTax ? amount - lineTax : amount;
+      group.taxAmount += lineTax;
+      groups.set(rate, group);
+    }
+    return round(lineTax);
+  });
+
+  const breakdown = [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([rate, group]) => ({
+      rate,
+      taxableAmount: round(group.taxableAmount),
+      taxAmount: round(group.taxAmount),
+    }));
+  const taxTotal = round(breakdown.reduce((sum, line) => sum + line.taxAmount, 0));
+
+  let total = amountTotal + taxTotal;
+  if (tax.pricesIncludeTax) {
+    total = tax.exempt ? amountTotal - round(includedTax) : amountTotal;
+  }
+
+  return { lineTaxes, breakdown, taxTotal, total: round(total) };
+}
+
+/**
+ * "8.25%"
+ */
+export function formatTaxRate(rate: number): string {
+  return `${Number(rate.toFixed(3))}%`;
+}
+
+/**
+ * Label of a tax line on quotes: "Tax 8.25%", or "Includes tax 20%"
+ */
+export function formatTaxLineLabel(rate: number, pricesIncludeTax = false): string {
+  return `${pricesIncludeTax ? 'Includes tax' : 'Tax'} ${formatTaxRate(rate)}`;
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Map a tax_rules row to a TaxRule
+ */
+export function mapTaxRuleRow(row: TaxRuleRow): TaxRule {
+  return {
+    id: row.id,
+    name: row.name,
+    country: row.country,
+    region: row.region,
+    rate: Number(row.rate),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Revive the dates of rules that came through JSON
+ */
+export function parseTaxRulesResponse(rules: TaxRule[]): TaxRule[] {
+  return rules.map((rule) => ({ ...rule, updatedAt: new Date(rule.updatedAt) }));
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * A shop's tax rules, by country then region
+ */
+export async function listTaxRules(client: SupabaseClient, shopId: string): Promise<TaxRule[]> {
+  const { data, error } = await client
+    .from('tax_rules')
+    .select('*')
+    .eq('shop_id', shopId)
+    .order('country', { ascending: true })
+    .order('region', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load tax rules: ${error.message}`);
+  }
+
+  return ((data ?? []) as TaxRuleRow[]).map(mapTaxRuleRow);
+}
+
+/**
+ * Make `rules` the shop's whole set of tax rules, dropping regions left out
+ * @returns The rules as stored
+ */
+export async function replaceTaxRules(
+  client: SupabaseClient,
+  shopId: string,
+  rules: TaxRuleInput[]
+): Promise<TaxRule[]> {
+  let kept: string[] = [];
+
+  if (rules.length > 0) {
+    const { data, error } = await client.from('tax_rules')
+      .upsert(rules.map((rule) => ({
+        shop_id: shopId,
+        name: rule.name,
+        country: rule.country,
+        region: rule.region ?? '',
+        rate: rule.rate,
+      })), { onConflict: 'shop_id,country,region' })
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to save tax rules: ${error.message}`);
+    }
+    kept = ((data ?? []) as Pick<TaxRuleRow, 'id'>[]).map((row) => row.id);
+  }
+
+  let removal = client
+    .from('tax_rules')
+    .delete()
+    .eq('shop_id', shopId);
+  if (kept.length > 0) {
+    removal = removal.not('id', 'in', `(${kept.join(',')})`);
+  }
+
+  const { error } = await removal;
+  if (error) {
+    throw new Error(`Failed to remove tax rules: ${error.message}`);
+  }
+
+  return listTaxRules(client, shopId);
+}
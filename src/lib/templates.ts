@@ -0,0 +1,137 @@
+/**
+ * Quote Template Helpers
+ * Row mapping for quote_templates and the shop-wide default, shared by the
+ * template API routes and the templates page
+ * @module lib/templates
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { QuotePdfTemplate, QuoteTemplate, QuoteTerms, TemplateLineItem } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Raw quote_templates row
+ */
+export interface QuoteTemplateRow {
+  id: string;
+  shop_id: string;
+  name: string;
+  description?: string | null;
+  category?: string | null;
+  is_default?: boolean | null;
+  pdf_template?: QuotePdfTemplate | null;
+  terms_default?: Partial<QuoteTerms> | null;
+  line_items?: TemplateLineItem[] | null;
+  header_text?: string | null;
+  footer_text?: string | null;
+  usage_count?: number | null;
+  last_used_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fields a template is created or edited with; omitted fields keep their
+ * stored (or default) values
+ */
+export interface QuoteTemplateInput {
+  name: string;
+  description?: string;
+  category?: string;
+  isDefault?: boolean;
+  pdfTemplate?: QuotePdfTemplate;
+  termsDefault?: Partial<QuoteTerms>;
+  lineItems?: TemplateLineItem[];
+  headerText?: string;
+  footerText?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const TEMPLATE_CATEGORIES = ['Standard', 'Product', 'Service', 'Subscription'] as const;
+
+export const QUOTE_PDF_TEMPLATES = ['modern', 'classic', 'minimal', 'professional'] as const satisfies readonly QuotePdfTemplate[];
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Map a quote_templates row to a QuoteTemplate
+ */
+export function mapTemplateRow(row: QuoteTemplateRow): QuoteTemplate {
+  return {
+    id: row.id,
+    shopId: row.shop_id,
+    name: row.name,
+    description: row.description ?? undefined,
+    category: row.category || 'Standard',
+    isDefault: row.is_default ?? false,
+    pdfTemplate: row.pdf_template ?? 'modern',
+    headerText: row.header_text ?? undefined,
+    footerText: row.footer_text ?? undefined,
+    termsDefault: row.terms_default ?? {},
+    lineItems: row.line_items ?? [],
+    usageCount: row.usage_count ?? 0,
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Column values for the fields present in a template input
+ */
+export function toTemplateRow(input: Partial<QuoteTemplateInput>): Partial<QuoteTemplateRow> {
+  const row: Partial<QuoteTemplateRow> = {};
+
+  if (input.name !== undefined) row.name = input.name;
+  if (input.description !== undefined) row.description = input.description || null;
+  if (input.category !== undefined) row.category = input.category;
+  if (input.isDefault !== undefined) row.is_default = input.isDefault;
+  if (input.pdfTemplate !== undefined) row.pdf_template = input.pdfTemplate;
+  if (input.termsDefault !== undefined) row.terms_default = input.termsDefault;
+  if (input.lineItems !== undefined) row.line_items = input.lineItems;
+  if (input.headerText !== undefined) row.header_text = input.headerText || null;
+  if (input.footerText !== undefined) row.footer_text = input.footerText || null;
+
+  return row;
+}
+
+/**
+ * Parse a JSON API payload back into a QuoteTemplate (dates revived)
+ */
+export function parseTemplateResponse(data: QuoteTemplate): QuoteTemplate {
+  return {
+    ...data,
+    lastUsedAt: data.lastUsedAt ? new Date(data.lastUsedAt) : undefined,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+  };
+}
+
+// ============================================================================
+// Default Template
+// ============================================================================
+
+/**
+ * Clear the shop's current default so another template can take it; a shop
+ * has at most one (enforced by a unique index)
+ */
+export async function clearDefaultTemplate(client: SupabaseClient, shopId: string): Promise<void> {
+  const { error } = await client.from('quote_templates')
+    .update({ is_default: false })
+    .eq('shop_id', shopId)
+    .eq('is_default', true);
+
+  if (error) {
+    throw new Error(`Failed to clear default template: ${error.message}`);
+  }
+}
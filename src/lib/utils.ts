@@ -5,11 +5,47 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatCurrency(amount: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-  }).format(amount);
+export const DEFAULT_LOCALE = 'en-US';
+
+export interface FormatCurrencyOptions {
+  /** BCP 47 locale for separators and symbol placement */
+  locale?: string;
+  /** Round to whole units, for charts and summary cards */
+  wholeUnits?: boolean;
+  /** Abbreviate large amounts ($2.5K), for chart axes */
+  compact?: boolean;
+}
+
+const currencyFormatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Format an amount in an ISO 4217 currency. The currency decides the number
+ * of decimals (JPY has none); the locale decides how they are written.
+ */
+export function formatCurrency(
+  amount: number,
+  currency: string = 'USD',
+  { locale = DEFAULT_LOCALE, wholeUnits = false, compact = false }: FormatCurrencyOptions = {}
+): string {
+  const key = `${locale}|${currency}|${wholeUnits}|${compact}`;
+  let formatter = currencyFormatters.get(key);
+
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency,
+        ...(wholeUnits ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {}),
+        ...(compact ? { notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 1 } : {}),
+      });
+    } catch {
+      // Not a well-formed code; show the amount with the code rather than fail the render
+      return `${amount.toFixed(wholeUnits ? 0 : 2)} ${currency}`;
+    }
+    currencyFormatters.set(key, formatter);
+  }
+
+  return formatter.format(amount);
 }
 
 export function formatDate(date: string | Date): string {
@@ -59,4 +95,8 @@ export function calculateTax(subtotal: number, taxRate: number): number {
 
 export function calculateTotal(subtotal: number, tax: number, discount: number = 0): number {
   return subtotal + tax - discount;
-}
\ No newline at end of file
+}
+// Match a value literally in a LIKE/ILIKE pattern
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
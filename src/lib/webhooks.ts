@@ -0,0 +1,408 @@
+/**
+ * Shopify Webhook Handlers
+ * Delivery bookkeeping (idempotent on X-Shopify-Webhook-Id) and the
+ * handlers for app/uninstalled, products/update, orders/create and the
+ * customers/create, customers/update and customers/delete sync topics
+ * @module lib/webhooks
+ */
+
+import { invalidateProductCache } from '@/lib/products';
+import { revokeShopInstallation } from '@/lib/shops';
+import { transitionQuoteStatus } from '@/lib/quoteTransitions';
+import { validateTransition } from '@/lib/quoteWorkflow';
+import {
+  mapShopifyCustomerPayload,
+  unlinkShopifyCustomer,
+  upsertShopifyCustomer,
+  type ShopifyCustomerPayload,
+  type ShopifySyncOutcome,
+} from '@/lib/shopifyCustomers';
+// Webhooks arrive without a user session, so they run with the service role
+import { getServiceClient } from '@/lib/supabaseServer';
+import { escapeLikePattern } from '@/lib/utils';
+import { getShopWorkflow } from '@/lib/workflows';
+import { QuoteStatus } from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DeliveryState = 'new' | 'retry' | 'duplicate';
+
+export interface ShopifyProductPayload {
+  id: number;
+  admin_graphql_api_id?: string;
+  title: string;
+  handle?: string;
+  variants?: Array<{
+    id: number;
+    admin_graphql_api_id?: string;
+    title: string;
+    sku?: string | null;
+    price: string;
+    compare_at_price?: string | null;
+    inventory_quantity?: number | null;
+  }>;
+}
+
+export interface ShopifyOrderPayload {
+  id: number;
+  admin_graphql_api_id?: string;
+  name?: string;
+  email?: string | null;
+  tags?: string;
+  note_attributes?: Array<{ name: string; value: string }>;
+  line_items?: Array<{ variant_id?: number | null }>;
+  /** Set on orders completed from a draft order */
+  draft_order_id?: number | null;
+}
+
+interface DriftLineItemRow {
+  id: string;
+  quote_id: string;
+  variant_id: string;
+  unit_price: number;
+  original_price?: number | null;
+  catalog_price?: number | null;
+}
+
+interface QuoteMatchRow {
+  id: string;
+  quote_number: string;
+  status: QuoteStatus;
+  customer_id?: string | null;
+  customer_name?: string | null;
+  accepted_at?: string | null;
+  shopify_draft_order_id?: string | null;
+  line_items?: Array<{ variant_id?: string | null }>;
+}
+
+/** Quotes whose prices are still negotiable and should track the catalog */
+export const OPEN_QUOTE_STATUSES = [
+  QuoteStatus.DRAFT,
+  QuoteStatus.PENDING,
+  QuoteStatus.SENT,
+  QuoteStatus.VIEWED,
+];
+
+/** A delivery still processing after this long was abandoned by its request */
+export const DELIVERY_LEASE_MS = 5 * 60 * 1000;
+
+/** Shopify sends shop/redact 48 hours after uninstall; clean up then */
+const SHOP_CLEANUP_DELAY_MS = 48 * 60 * 60 * 1000;
+
+const toGid = (type: string, id: number | string) => `gid://shopify/${type}/${id}`;
+
+// ============================================================================
+// Delivery Bookkeeping
+// ============================================================================
+
+/**
+ * Record an incoming delivery.
+ * Returns `duplicate` when the webhook was already processed (or is being
+ * processed), `retry` when a previous attempt failed or was abandoned
+ * mid-way (still processing after DELIVERY_LEASE_MS), and `new` otherwise.
+ */
+export async function beginWebhookDelivery(
+  webhookId: string,
+  shop: string,
+  topic: string
+): Promise<DeliveryState> {
+  const client = getServiceClient();
+
+  const { error } = await client.from('webhook_deliveries').insert({
+    webhook_id: webhookId,
+    shop_id: shop,
+    topic,
+    status: 'processing',
+  });
+
+  if (!error) {
+    return 'new';
+  }
+
+  // 23505 = unique_violation: we have seen this delivery before
+  if (error.code !== '23505') {
+    throw new Error(`Failed to record webhook delivery: ${error.message}`);
+  }
+
+  const { data } = await client
+    .from('webhook_deliveries')
+    .select('status, updated_at')
+    .eq('webhook_id', webhookId)
+    .single();
+
+  const existing = data as { status: string; updated_at: string } | null;
+  const abandoned = existing?.status === 'processing'
+    && Date.now() - new Date(existing.updated_at).getTime() >= DELIVERY_LEASE_MS;
+
+  if (!existing || (existing.status !== 'failed' && !abandoned)) {
+    return 'duplicate';
+  }
+
+  // Takes the delivery over only as it was read, so two redeliveries cannot
+  // both retry it; the update stamps a new updated_at, starting a new lease
+  const { data: claimed } = await client
+    .from('webhook_deliveries')
+    .update({ status: 'processing', error: null })
+    .eq('webhook_id', webhookId)
+    .eq('updated_at', existing.updated_at)
+    .select('webhook_id')
+    .maybeSingle();
+
+  return claimed ? 'retry' : 'duplicate';
+}
+
+/**
+ * Mark a delivery processed, or failed with the error message
+ */
+export async function completeWebhookDelivery(webhookId: string, error?: unknown): Promise<void> {
+  await getServiceClient().from('webhook_deliveries')
+    .update({
+      status: error ? 'failed' : 'processed',
+      error: error ? (error instanceof Error ? error.message : String(error)) : null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('webhook_id', webhookId);
+}
+
+// ============================================================================
+// app/uninstalled
+// ============================================================================
+
+/**
+ * Revoke the stored token and schedule the shop's data for cleanup
+ */
+export async function handleAppUninstalled(shop: string): Promise<void> {
+  await revokeShopInstallation(shop, new Date(Date.now() + SHOP_CLEANUP_DELAY_MS));
+  invalidateProductCache(shop);
+}
+
+// ============================================================================
+// products/update
+// ============================================================================
+
+/**
+ * Refresh the local product snapshot and flag open quotes whose
+ * line items were priced from a catalog price that has since changed
+ * @returns Number of quotes flagged
+ */
+export async function handleProductUpdate(shop: string, product: ShopifyProductPayload): Promise<number> {
+  const client = getServiceClient();
+  const productId = product.admin_graphql_api_id || toGid('Product', product.id);
+  const variants = (product.variants || []).map((variant) => ({
+    id: variant.admin_graphql_api_id || toGid('ProductVariant', variant.id),
+    title: variant.title,
+    sku: variant.sku ?? '',
+    price: Number(variant.price),
+    compareAtPrice: variant.compare_at_price != null ? Number(variant.compare_at_price) : undefined,
+    inventoryQuantity: variant.inventory_quantity ?? 0,
+  }));
+
+  const { error: snapshotError } = await client.from('shopify_products').upsert({
+    shop_id: shop,
+    product_id: productId,
+    title: product.title,
+    handle: product.handle ?? null,
+    variants,
+    synced_at: new Date().toISOString(),
+  }, { onConflict: 'shop_id,product_id' });
+
+  if (snapshotError) {
+    throw new Error(`Failed to refresh product snapshot: ${snapshotError.message}`);
+  }
+
+  invalidateProductCache(shop);
+
+  if (variants.length === 0) {
+    return 0;
+  }
+
+  const { data: lineItems, error: lineItemError } = await client
+    .from('quote_line_items')
+    .select('id, quote_id, variant_id, unit_price, original_price, catalog_price, quote:quotes!inner(shop_id, status)')
+    .eq('quote.shop_id', shop)
+    .in('quote.status', OPEN_QUOTE_STATUSES)
+    .in('variant_id', variants.map((variant) => variant.id));
+
+  if (lineItemError) {
+    throw new Error(`Failed to load quoted line items: ${lineItemError.message}`);
+  }
+
+  const priceByVariant = new Map(variants.map((variant) => [variant.id, variant.price]));
+  const driftedQuoteIds = new Set<string>();
+
+  for (const item of (lineItems || []) as DriftLineItemRow[]) {
+    const currentPrice = priceByVariant.get(item.variant_id);
+    if (currentPrice === undefined) continue;
+
+    const quotedFrom = Number(item.original_price ?? item.unit_price);
+    const drifted = Math.abs(quotedFrom - currentPrice) >= 0.005;
+    const catalogPrice = drifted ? currentPrice : null;
+
+    if (item.catalog_price == null && catalogPrice == null) continue;
+    if (item.catalog_price != null && catalogPrice != null && Number(item.catalog_price) === catalogPrice) {
+      driftedQuoteIds.add(item.quote_id);
+      continue;
+    }
+
+    await client.from('quote_line_items')
+      .update({ catalog_price: catalogPrice })
+      .eq('id', item.id);
+
+    if (drifted) {
+      driftedQuoteIds.add(item.quote_id);
+    }
+  }
+
+  if (driftedQuoteIds.size > 0) {
+    await client.from('quotes')
+      .update({ price_drift_detected_at: new Date().toISOString() })
+      .in('id', Array.from(driftedQuoteIds));
+  }
+
+  return driftedQuoteIds.size;
+}
+
+// ============================================================================
+// orders/create
+// ============================================================================
+
+function getNoteAttribute(order: ShopifyOrderPayload, name: string): string | undefined {
+  return order.note_attributes?.find((attribute) => attribute.name === name)?.value || undefined;
+}
+
+/**
+ * Whether every variant the quote was for is on the order
+ */
+function orderCoversQuote(quote: QuoteMatchRow, orderVariants: Set<string>): boolean {
+  const quoteVariants = (quote.line_items || [])
+    .map((item) => item.variant_id)
+    .filter(Boolean) as string[];
+  return quoteVariants.length > 0 && quoteVariants.every((variant) => orderVariants.has(variant));
+}
+
+/**
+ * Find the accepted quote an order was placed from.
+ * Orders created from our draft orders carry `quote_id` / `quote_number`
+ * note attributes. Buyers can edit those, so the quote they name is only
+ * taken when the order came from its draft order or has every variant it
+ * quoted. Otherwise fall back to the customer's accepted quote whose
+ * variants are all on the order.
+ */
+export async function findQuoteForOrder(
+  shop: string,
+  order: ShopifyOrderPayload
+): Promise<QuoteMatchRow | null> {
+  const client = getServiceClient();
+  const select =
+    'id, quote_number, status, customer_id, customer_name, accepted_at, shopify_draft_order_id, line_items:quote_line_items(variant_id)';
+
+  const orderVariants = new Set(
+    (order.line_items || [])
+      .filter((item) => item.variant_id != null)
+      .map((item) => toGid('ProductVariant', item.variant_id as number))
+  );
+
+  const quoteId = getNoteAttribute(order, 'quote_id');
+  const quoteNumber = getNoteAttribute(order, 'quote_number');
+
+  if (quoteId || quoteNumber) {
+    const { data } = await client
+      .from('quotes')
+      .select(select)
+      .eq('shop_id', shop)
+      .eq(quoteId ? 'id' : 'quote_number', (quoteId || quoteNumber) as string)
+      .maybeSingle();
+
+    const quote = data as QuoteMatchRow | null;
+    const draftOrderId = order.draft_order_id != null ? toGid('DraftOrder', order.draft_order_id) : null;
+    if (quote && ((draftOrderId && quote.shopify_draft_order_id === draftOrderId) || orderCoversQuote(quote, orderVariants))) {
+      return quote;
+    }
+  }
+
+  if (!order.email) {
+    return null;
+  }
+
+  const { data: candidates } = await client
+    .from('quotes')
+    .select(select)
+    .eq('shop_id', shop)
+    .eq('status', QuoteStatus.ACCEPTED)
+    .ilike('customer_email', escapeLikePattern(order.email))
+    .order('accepted_at', { ascending: false });
+
+  return ((candidates || []) as QuoteMatchRow[]).find((quote) => orderCoversQuote(quote, orderVariants)) ?? null;
+}
+
+/**
+ * Move the accepted quote an order was placed from to CONVERTED
+ * @returns The converted quote id, or null when no accepted quote matched or
+ * the shop's workflow does not convert accepted quotes
+ */
+export async function handleOrderCreated(shop: string, order: ShopifyOrderPayload): Promise<string | null> {
+  const quote = await findQuoteForOrder(shop, order);
+
+  if (!quote || quote.status !== QuoteStatus.ACCEPTED) {
+    return null;
+  }
+
+  const client = getServiceClient();
+  const workflow = await getShopWorkflow(client, shop);
+  if (!validateTransition(quote.status, QuoteStatus.CONVERTED, { workflow }).success) {
+    return null;
+  }
+
+  const orderId = order.admin_graphql_api_id || toGid('Order', order.id);
+  const orderName = order.name || `#${order.id}`;
+
+  const result = await transitionQuoteStatus(client, {
+    quoteId: quote.id,
+    fromStatus: QuoteStatus.ACCEPTED,
+    toStatus: QuoteStatus.CONVERTED,
+    changedBy: 'shopify',
+    changedByName: 'Shopify',
+    comment: `Order ${orderName} placed`,
+    metadata: { orderId, orderName },
+    description: `Quote ${quote.quote_number} converted to order ${orderName}`,
+    changes: { shopify_order_id: orderId },
+  });
+
+  // Another delivery converted it first
+  if (result.status !== 'applied') {
+    return null;
+  }
+
+  return quote.id;
+}
+
+// ============================================================================
+// customers/create, customers/update, customers/delete
+// ============================================================================
+
+/**
+ * Create or refresh the customer linked to a Shopify customer
+ */
+export async function handleCustomerUpdate(
+  shop: string,
+  customer: ShopifyCustomerPayload
+): Promise<ShopifySyncOutcome> {
+  return upsertShopifyCustomer(getServiceClient(), shop, mapShopifyCustomerPayload(customer));
+}
+
+/**
+ * Unlink the customer of a deleted Shopify customer, keeping its quotes
+ * @returns Whether a customer was linked
+ */
+export async function handleCustomerDeleted(
+  shop: string,
+  customer: Pick<ShopifyCustomerPayload, 'id' | 'admin_graphql_api_id'>
+): Promise<boolean> {
+  return unlinkShopifyCustomer(
+    getServiceClient(),
+    shop,
+    customer.admin_graphql_api_id || toGid('Customer', customer.id)
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * Shop Quote Workflows
+ * Row mapping, validation and persistence for quote_workflows: a shop's own
+ * statuses and transitions, or the default workflow until it saves one
+ * @module lib/workflows
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_WORKFLOW,
+  WORKFLOW_STATUS_COLORS,
+  WORKFLOW_STATUS_ICONS,
+  WORKFLOW_STATUS_KEY_PATTERN,
+  isBuiltInStatus,
+} from '@/lib/quoteWorkflow';
+import type {
+  QuoteWorkflowDefinition,
+  WorkflowStatusDefinition,
+  WorkflowTransitionDefinition,
+} from '@/types/quote';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CustomStatusInput = Omit<WorkflowStatusDefinition, 'isCustom'>;
+
+/**
+ * What a shop saves: its custom statuses and the full transition graph
+ */
+export interface QuoteWorkflowInput {
+  statuses: CustomStatusInput[];
+  transitions: WorkflowTransitionDefinition[];
+}
+
+/**
+ * Raw quote_workflows row
+ */
+export interface QuoteWorkflowRow {
+  shop_id: string;
+  statuses?: CustomStatusInput[] | null;
+  transitions: Partial<WorkflowTransitionDefinition>[];
+  updated_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Map a quote_workflows row to a workflow; no row means the default one
+ */
+export function mapWorkflowRow(row: QuoteWorkflowRow | null): QuoteWorkflowDefinition {
+  if (!row) {
+    return DEFAULT_WORKFLOW;
+  }
+
+  return {
+    statuses: [
+      ...DEFAULT_WORKFLOW.statuses,
+      ...(row.statuses ?? []).map((status) => ({ ...status, isCustom: true })),
+    ],
+    transitions: row.transitions.map((transition) => ({
+      from: transition.from ?? [],
+      to: transition.to ?? '',
+      action: transition.action ?? '',
+      requiresConfirmation: transition.requiresConfirmation ?? false,
+      confirmationMessage: transition.confirmationMessage || undefined,
+      requiresComment: transition.requiresComment ?? false,
+      allowedRoles: transition.allowedRoles ?? [],
+    })),
+    isDefault: false,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * The editable part of a workflow, e.g. to start a shop's own from the default
+ */
+export function toWorkflowInput(workflow: QuoteWorkflowDefinition): QuoteWorkflowInput {
+  return {
+    statuses: workflow.statuses
+      .filter((status) => status.isCustom)
+      .map(({ key, label, description, color, icon, isFinal, canEdit }) => ({
+        key, label, description, color, icon, isFinal, canEdit,
+      })),
+    transitions: workflow.transitions,
+  };
+}
+
+/**
+ * Parse a JSON API payload back into a workflow (dates revived)
+ */
+export function parseWorkflowResponse(data: QuoteWorkflowDefinition): QuoteWorkflowDefinition {
+  return {
+    ...data,
+    updatedAt: data.updatedAt ? new Date(data.updatedAt) : undefined,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check that a workflow holds together: custom keys are new and well formed,
+ * colors and icons are ones the UI can draw, and every transition joins
+ * statuses the workflow has. Field shapes are the API schema's job.
+ * @returns One message per problem; empty when the workflow can be saved
+ */
+export function findWorkflowErrors(input: QuoteWorkflowInput): string[] {
+  const errors: string[] = [];
+  const keys = new Set<string>(DEFAULT_WORKFLOW.statuses.map((status) => status.key));
+
+  for (const status of input.statuses) {
+    if (!WORKFLOW_STATUS_KEY_PATTERN.test(status.key)) {
+      errors.push(`Status "${status.key}" must be lowercase letters, digits and underscores`);
+    } else if (isBuiltInStatus(status.key)) {
+      errors.push(`Status "${status.key}" is built in and cannot be redefined`);
+    } else if (keys.has(status.key)) {
+      errors.push(`Status "${status.key}" is defined twice`);
+    }
+    if (!WORKFLOW_STATUS_COLORS.includes(status.color)) {
+      errors.push(`Status "${status.key}" has an unknown color "${status.color}"`);
+    }
+    if (!WORKFLOW_STATUS_ICONS.includes(status.icon)) {
+      errors.push(`Status "${status.key}" has an unknown icon "${status.icon}"`);
+    }
+    keys.add(status.key);
+  }
+
+  for (const transition of input.transitions) {
+    for (const status of [...transition.from, transition.to]) {
+      if (!keys.has(status)) {
+        errors.push(`Transition "${transition.action}" uses unknown status "${status}"`);
+      }
+    }
+  }
+
+  for (const status of input.statuses) {
+    if (!input.transitions.some((transition) => transition.to === status.key)) {
+      errors.push(`No transition leads to status "${status.key}"`);
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Get a shop's workflow, or the default when it has not saved one
+ */
+export async function getShopWorkflow(client: SupabaseClient, shopId: string): Promise<QuoteWorkflowDefinition> {
+  const { data, error } = await client
+    .from('quote_workflows')
+    .select('*')
+    .eq('shop_id', shopId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load quote workflow: ${error.message}`);
+  }
+
+  return mapWorkflowRow(data as QuoteWorkflowRow | null);
+}
+
+/**
+ * Save a shop's workflow, replacing the one it had
+ * @returns The workflow as stored
+ */
+export async function saveShopWorkflow(
+  client: SupabaseClient,
+  shopId: string,
+  input: QuoteWorkflowInput,
+  updatedBy?: string
+): Promise<QuoteWorkflowDefinition> {
+  const { data, error } = await client.from('quote_workflows')
+    .upsert({
+      shop_id: shopId,
+      statuses: input.statuses,
+      transitions: input.transitions,
+      updated_by: updatedBy ?? null,
+    }, { onConflict: 'shop_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save quote workflow: ${error.message}`);
+  }
+
+  return mapWorkflowRow(data as QuoteWorkflowRow);
+}
+
+/**
+ * Drop a shop's workflow so it goes back to the default
+ */
+export async function resetShopWorkflow(client: SupabaseClient, shopId: string): Promise<void> {
+  const { error } = await client
+    .from('quote_workflows')
+    .delete()
+    .eq('shop_id', shopId);
+
+  if (error) {
+    throw new Error(`Failed to reset quote workflow: ${error.message}`);
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * XLSX Reader
+ * Reads the cell text of the first worksheet in an .xlsx workbook: enough to
+ * import a spreadsheet of records. Cells come back as text (numbers as
+ * written, booleans as TRUE/FALSE); formulas give their cached value and
+ * formatting is ignored. An .xlsx file is a zip archive of XML parts.
+ * Server only: it inflates the archive with node's zlib.
+ * @module lib/xlsx
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Largest part we inflate, so a small crafted file cannot exhaust memory */
+const MAX_PART_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Furthest cell we read. Missing cells and rows before a cell are filled in,
+ * so a reference such as "XFD1048576" would otherwise allocate millions.
+ */
+const MAX_COLUMNS = 256;
+const MAX_ROWS = 10_000;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// ============================================================================
+// Zip
+// ============================================================================
+
+/**
+ * The archive's files by path; each is only inflated when read
+ */
+function readZipEntries(buffer: Buffer): Map<string, () => Buffer> {
+  // The end of central directory record is 22 bytes plus a comment of up to 64KB
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('The file is not an XLSX workbook');
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let n = 0; n < entryCount; n++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('The XLSX file is damaged');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const headerOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      if (buffer.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error('The XLSX file is damaged');
+      }
+      const dataStart = headerOffset + 30
+        + buffer.readUInt16LE(headerOffset + 26)
+        + buffer.readUInt16LE(headerOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+      if (method === 0) return data;
+      if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_PART_SIZE });
+      throw new Error(`Unsupported compression in ${name}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[name] = decodeXml(value);
+  }
+  return attributes;
+}
+
+/**
+ * The text of a string item: its <t> runs joined, without phonetic guides
+ */
+function readStringItem(xml: string): string {
+  return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)]
+    .map(([, text]) => decodeXml(text))
+    .join('');
+}
+
+/**
+ * Zero-based column of a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// ============================================================================
+// Workbook
+// ============================================================================
+
+/**
+ * Path of the workbook's first sheet, by its order in the workbook
+ */
+function findFirstSheetPath(entries: Map<string, () => Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.().toString('utf8') ?? '';
+  const relations = entries.get('xl/_rels/workbook.xml.rels')?.().toString('utf8') ?? '';
+
+  const sheetTag = workbook.match(/<sheet\b[^>]*>/)?.[0];
+  const relationId = sheetTag ? readAttributes(sheetTag)['r:id'] : undefined;
+  const target = [...relations.matchAll(/<Relationship\b[^>]*>/g)]
+    .map(([tag]) => readAttributes(tag))
+    .find((relation) => relation.Id === relationId)?.Target;
+
+  if (!target) {
+    return 'xl/worksheets/sheet1.xml';
+  }
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Cell text of the first worksheet, row by row. Rows and cells the sheet
+ * leaves out come back empty, so row n of the result is row n + 1 of the sheet.
+ */
+export function readXlsxRows(content: Uint8Array): string[][] {
+  const entries = readZipEntries(Buffer.from(content.buffer, content.byteOffset, content.byteLength));
+  const sheet = entries.get(findFirstSheetPath(entries));
+  if (!sheet) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const sharedStrings = [
+    ...(entries.get('xl/sharedStrings.xml')?.().toString('utf8') ?? '')
+      .matchAll(/<si(?:\s[^>]*)?(?:\/>|>([\s\S]*?)<\/si>)/g),
+  ].map(([, item]) => (item ? readStringItem(item) : ''));
+
+  const rows: string[][] = [];
+  const rowMatches = sheet().toString('utf8').matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g);
+
+  for (const [, rowAttributes, rowXml] of rowMatches) {
+    const rowNumber = Number(readAttributes(rowAttributes).r) || rows.length + 1;
+    if (rowNumber > MAX_ROWS) {
+      throw new Error(`The sheet has more than ${MAX_ROWS} rows`);
+    }
+    const cells: string[] = [];
+
+    for (const [, cellAttributes, cellXml = ''] of (rowXml ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const { r: reference, t: type } = readAttributes(cellAttributes);
+      const column = reference ? columnIndex(reference) : cells.length;
+      if (column >= MAX_COLUMNS) {
+        throw new Error(`The sheet has more than ${MAX_COLUMNS} columns`);
+      }
+      const value = decodeXml(cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+
+      let text: string;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = readStringItem(cellXml);
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (type === 'e') {
+        text = '';
+      } else {
+        text = value;
+      }
+
+      while (cells.length < column) cells.push('');
+      cells[column] = text;
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  }
+
+  return rows;
+}
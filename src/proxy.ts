@@ -0,0 +1,87 @@
+/**
+ * API Middleware
+ * Resolves the signed-in Supabase user to their shop membership on every API
+ * request and passes it to route handlers as x-user-id / x-user-name /
+ * x-shop-id / x-member-role. Identity headers sent by the client are dropped.
+ * @module proxy
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserFromAccessToken, resolveShopMember } from '@/lib/members';
+import { MEMBER_HEADERS, canWrite, getRequestAccessToken } from '@/lib/permissions';
+import type { ApiResponse } from '@/types/quote';
+
+export const config = {
+  matcher: '/api/:path*',
+};
+
+/**
+ * Routes called without a user session: Shopify (OAuth, webhooks), the mail
+ * provider, buyers on the public quote page, the storefront form and cron
+ */
+const PUBLIC_API_ROUTES = [
+  '/api/auth',
+  '/api/public',
+  '/api/webhooks',
+  '/api/quotes/request',
+  '/api/quotes/expire',
+];
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+function isPublicApiRoute(pathname: string): boolean {
+  return PUBLIC_API_ROUTES.some((route) => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+function errorResponse(status: number, code: string, message: string) {
+  return NextResponse.json<ApiResponse<never>>({
+    success: false,
+    error: { code, message },
+  }, { status });
+}
+
+export async function proxy(request: NextRequest) {
+  const { pathname, searchParams } = request.nextUrl;
+  const headers = new Headers(request.headers);
+  Object.values(MEMBER_HEADERS).forEach((name) => headers.delete(name));
+
+  if (isPublicApiRoute(pathname)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const accessToken = getRequestAccessToken(request);
+  if (!accessToken) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Sign in to continue');
+  }
+
+  try {
+    const user = await getUserFromAccessToken(accessToken);
+    if (!user) {
+      return errorResponse(401, 'UNAUTHORIZED', 'Your session has expired, sign in again');
+    }
+
+    // Members of several shops pick one per request; otherwise their first shop is used
+    const requestedShop = request.headers.get(MEMBER_HEADERS.shopId)
+      || searchParams.get('shop_id')
+      || searchParams.get('shop');
+
+    const member = await resolveShopMember(user.id, requestedShop);
+    if (!member) {
+      return errorResponse(403, 'NOT_A_MEMBER', 'You are not a member of this shop');
+    }
+
+    if (!READ_METHODS.includes(request.method) && !canWrite(member.role)) {
+      return errorResponse(403, 'FORBIDDEN', 'Viewers have read-only access');
+    }
+
+    headers.set(MEMBER_HEADERS.userId, member.userId);
+    headers.set(MEMBER_HEADERS.userName, encodeURIComponent(member.name));
+    headers.set(MEMBER_HEADERS.shopId, member.shopId);
+    headers.set(MEMBER_HEADERS.role, member.role);
+
+    return NextResponse.next({ request: { headers } });
+  } catch (error) {
+    console.error('Error resolving shop member:', error);
+    return errorResponse(500, 'AUTH_ERROR', 'Failed to verify your session');
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Supabase client mock shared by route and lib tests
+ *
+ * Every query resolves with the next queued result for its table, whichever
+ * builder method ends the chain. Tests install it with
+ * `jest.mock('@supabase/supabase-js', () => jest.requireActual('@/test-utils/supabaseMock'))`
+ * and reset it with `resetQueryResults()` in `beforeEach`.
+ * @module src/test-utils/supabaseMock
+ */
+
+export type QueryResult = { data: unknown; error: unknown; count?: number | null };
+
+const BUILDER_METHODS = [
+  'select', 'insert', 'upsert', 'update', 'delete',
+  'eq', 'neq', 'in', 'is', 'not', 'or', 'ilike', 'contains', 'gte', 'lte',
+  'order', 'range', 'limit', 'single', 'maybeSingle',
+];
+
+const mockQueryResults: Record<string, QueryResult[]> = {};
+
+/** Builders created so far, by table, in query order */
+export const mockBuilders: Record<string, Record<string, jest.Mock>[]> = {};
+
+const resolveNothing = () => Promise.resolve<QueryResult>({ data: null, error: null });
+
+/** `client.rpc`; resolves with no data unless a test overrides it */
+export const mockRpc = jest.fn(resolveNothing);
+
+function createQueryBuilder(table: string) {
+  const result = mockQueryResults[table]?.shift() ?? { data: null, error: null };
+  const builder: Record<string, jest.Mock> = {};
+  BUILDER_METHODS.forEach((method) => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.then = jest.fn((resolve: (value: QueryResult) => unknown, reject?: (reason: unknown) => unknown) =>
+    Promise.resolve(result).then(resolve, reject)
+  );
+  (mockBuilders[table] ||= []).push(builder);
+  return builder;
+}
+
+/** Stand-in for `createClient` from `@supabase/supabase-js` */
+export const createClient = jest.fn(() => ({
+  from: (table: string) => createQueryBuilder(table),
+  rpc: mockRpc,
+}));
+
+export function queueResult(table: string, result: QueryResult) {
+  (mockQueryResults[table] ||= []).push(result);
+}
+
+export function resetQueryResults() {
+  Object.keys(mockQueryResults).forEach((table) => delete mockQueryResults[table]);
+  Object.keys(mockBuilders).forEach((table) => delete mockBuilders[table]);
+  mockRpc.mockReset().mockImplementation(resolveNothing);
+}
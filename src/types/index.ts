@@ -20,6 +20,8 @@ import type { ReactNode, HTMLAttributes, ButtonHTMLAttributes, InputHTMLAttribut
 export enum QuoteStatus {
   DRAFT = 'draft',
   PENDING = 'pending',
+  /** Held back from sending until an approver signs off on its discounts */
+  PENDING_APPROVAL = 'pending_approval',
   SENT = 'sent',
   VIEWED = 'viewed',
   ACCEPTED = 'accepted',
@@ -48,12 +50,20 @@ export enum ActivityType {
   QUOTE_REJECTED = 'quote_rejected',
   QUOTE_EXPIRED = 'quote_expired',
   QUOTE_CONVERTED = 'quote_converted',
+  QUOTE_REVISED = 'quote_revised',
   CUSTOMER_ADDED = 'customer_added',
   CUSTOMER_UPDATED = 'customer_updated',
   CUSTOMER_DELETED = 'customer_deleted',
+  CUSTOMER_MERGED = 'customer_merged',
+  CUSTOMER_MERGE_UNDONE = 'customer_merge_undone',
   PRODUCT_ADDED = 'product_added',
   NOTE_ADDED = 'note_added',
   STATUS_CHANGED = 'status_changed',
+  EMAIL_DELIVERED = 'email_delivered',
+  EMAIL_OPENED = 'email_opened',
+  EMAIL_CLICKED = 'email_clicked',
+  EMAIL_BOUNCED = 'email_bounced',
+  EMAIL_COMPLAINED = 'email_complained',
 }
 
 /**
@@ -66,6 +76,16 @@ export enum QuotePriority {
   URGENT = 'urgent',
 }
 
+/**
+ * Role of a user in a shop's workspace, from most to least privileged
+ */
+export enum MemberRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  SALES = 'sales',
+  VIEWER = 'viewer',
+}
+
 /**
  * Address structure for customers
  */
@@ -107,6 +127,42 @@ export interface Customer {
   createdAt: Date;
   updatedAt: Date;
   status: CustomerStatus;
+  /** Set when email to this customer hard-bounced */
+  emailBouncedAt?: Date;
+  emailBounceReason?: string;
+  /** Marked exempt in Shopify; customers with a tax ID are exempt too */
+  taxExempt?: boolean;
+  /** Linked Shopify customer (GID); for a company location, its main contact */
+  shopifyCustomerId?: string;
+  /** Linked Shopify B2B company location (GID) */
+  shopifyCompanyLocationId?: string;
+  /** People at the account; the primary contact first */
+  contacts?: CustomerContact[];
+}
+
+/**
+ * What a contact does at the customer's company
+ */
+export type CustomerContactRole = 'purchasing' | 'finance' | 'approver';
+
+/**
+ * A person at a customer account (customer_contacts)
+ */
+export interface CustomerContact {
+  id: string;
+  customerId: string;
+  name: string;
+  email: string;
+  phone?: string;
+  title?: string;
+  roles: CustomerContactRole[];
+  /** The customer's main contact; at most one per customer */
+  isPrimary: boolean;
+  /** Receives quote emails; finance contacts are copied in on them */
+  notifyQuotes: boolean;
+  preferredChannel: 'email' | 'phone';
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 /**
@@ -118,6 +174,8 @@ export interface ProductVariant {
   sku: string;
   price: number;
   compareAtPrice?: number;
+  /** Shopify cost per item; only read when the shop granted read_inventory */
+  unitCost?: number;
   inventoryQuantity: number;
   options: Record<string, string>;
 }
@@ -152,9 +210,14 @@ export interface LineItem {
   quantity: number;
   unitPrice: number;
   originalPrice?: number;
+  /** Current catalog price, set when it has drifted from the quoted price */
+  catalogPrice?: number;
+  /** What the item costs the shop, for margin checks */
+  unitCost?: number;
   discountAmount: number;
   discountPercentage?: number;
-  taxRate: number;
+  /** Percent for this item alone; unset takes the quote's rate */
+  taxRate?: number;
   taxAmount: number;
   subtotal: number;
   total: number;
@@ -172,8 +235,14 @@ export interface LineItemInput {
   quantity: number;
   unit_price: number;
   product_id?: string;
+  variant_id?: string;
+  /** Catalog price at the time the item was added */
+  original_price?: number;
+  /** What the item costs the shop, for margin checks */
+  unit_cost?: number;
   sku?: string;
   discount_percent?: number;
+  /** Percent for this item alone; unset takes the quote's rate */
   tax_rate?: number;
 }
 
@@ -201,6 +270,9 @@ export interface QuoteMetadata {
   updatedByName?: string;
   ipAddress?: string;
   userAgent?: string;
+  /** Name the buyer typed to accept the quote */
+  signatureName?: string;
+  signedAt?: string;
   source: 'web' | 'api' | 'import';
 }
 
@@ -212,12 +284,20 @@ export interface Quote {
   quoteNumber: string;
   customerId: string;
   customer: Customer;
+  /** The customer contact the quote is addressed to */
+  contactId?: string;
   title: string;
   status: QuoteStatus;
   priority: QuotePriority;
   lineItems: LineItem[];
   subtotal: number;
   discountTotal: number;
+  /** Rate (percent) for line items without their own, from the customer's region */
+  taxRate?: number;
+  /** Unit prices already include tax, which is worked out of them */
+  pricesIncludeTax?: boolean;
+  /** The customer had a tax ID when the quote was priced, so no tax is charged */
+  taxExempt?: boolean;
   taxTotal: number;
   shippingTotal: number;
   total: number;
@@ -230,26 +310,169 @@ export interface Quote {
   rejectedAt?: Date;
   convertedAt?: Date;
   rejectionReason?: string;
+  /** Set when a catalog price on one of the line items has changed */
+  priceDriftDetectedAt?: Date;
+  /** Shop's base currency when the quote was last sent */
+  baseCurrency?: string;
+  /** Units of the quote currency per unit of baseCurrency when it was last sent */
+  exchangeRate?: number;
+  /** Shopify draft order created from the quote */
+  shopifyDraftOrderId?: string;
+  shopifyDraftOrderName?: string;
+  /** Checkout link Shopify generated for the draft order */
+  shopifyInvoiceUrl?: string;
+  /** Shopify order the quote was converted to */
+  shopifyOrderId?: string;
+  /** Template the quote was started from */
+  templateId?: string;
+  pdfTemplate?: QuotePdfTemplate;
+  headerText?: string;
+  footerText?: string;
+  /** Version number, bumped each time a sent or viewed quote is edited */
+  revision?: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * One version of a quote. The latest is the live quote; earlier ones are
+ * frozen as they stood when they were superseded.
+ */
+export interface QuoteRevision {
+  quoteId: string;
+  revision: number;
+  isCurrent: boolean;
+  title: string;
+  status: QuoteStatus;
+  lineItems: LineItem[];
+  terms: QuoteTerms;
+  subtotal: number;
+  discountTotal: number;
+  taxRate: number;
+  taxTotal: number;
+  shippingTotal: number;
+  total: number;
+  expiresAt?: Date;
+  sentAt?: Date;
+  /** When the next revision replaced this one; unset for the current version */
+  supersededAt?: Date;
+  supersededByName?: string;
+}
+
 /**
  * Supabase Quote schema (raw database shape)
  */
 export interface SupabaseQuote {
   id: string;
   shop_id: string;
-  product_id: string;
-  product_title: string;
+  quote_number: string;
+  customer_id?: string;
+  contact_id?: string | null;
+  title: string;
+  priority: QuotePriority;
+  product_id?: string;
+  product_title?: string;
   customer_email: string;
   customer_name?: string;
   customer_phone?: string;
   quantity?: number;
   message?: string;
-  status: 'pending' | 'quoted' | 'accepted' | 'declined';
+  status: QuoteStatus;
   admin_notes?: string;
   quote_amount?: number;
+  subtotal: number;
+  discount_total: number;
+  tax_rate?: number;
+  prices_include_tax?: boolean;
+  tax_exempt?: boolean;
+  tax_total: number;
+  shipping_total: number;
+  total: number;
+  currency: string;
+  terms: Partial<QuoteTerms>;
+  metadata: Partial<QuoteMetadata>;
+  expires_at?: string;
+  sent_at?: string;
+  viewed_at?: string;
+  accepted_at?: string;
+  rejected_at?: string;
+  converted_at?: string;
+  rejection_reason?: string;
+  price_drift_detected_at?: string | null;
+  /** Shop's base currency and the rate to it, stamped when the quote is sent */
+  base_currency?: string | null;
+  exchange_rate?: number | null;
+  shopify_draft_order_id?: string | null;
+  shopify_draft_order_name?: string | null;
+  shopify_invoice_url?: string | null;
+  shopify_order_id?: string | null;
+  template_id?: string | null;
+  pdf_template?: QuotePdfTemplate;
+  header_text?: string | null;
+  footer_text?: string | null;
+  revision?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Supabase quote line item schema (raw database shape)
+ */
+export interface SupabaseLineItem {
+  id: string;
+  quote_id: string;
+  position: number;
+  product_id?: string;
+  variant_id?: string;
+  title: string;
+  variant_title?: string;
+  sku: string;
+  quantity: number;
+  unit_price: number;
+  original_price?: number;
+  catalog_price?: number | null;
+  unit_cost?: number | null;
+  discount_amount: number;
+  discount_percentage?: number;
+  /** Null takes the quote's rate */
+  tax_rate: number | null;
+  tax_amount: number;
+  subtotal: number;
+  total: number;
+  image_url?: string;
+  notes?: string;
+  custom_fields?: Record<string, string>;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Supabase customer schema (raw database shape)
+ */
+export interface SupabaseCustomer {
+  id: string;
+  shop_id: string;
+  email: string;
+  company_name: string;
+  contact_name: string;
+  phone?: string;
+  billing_address?: CustomerAddress;
+  shipping_address?: CustomerAddress;
+  tax_id?: string;
+  tags: string[];
+  notes?: string;
+  logo_url?: string;
+  status: CustomerStatus;
+  customer_since: string;
+  email_bounced_at?: string | null;
+  email_bounce_reason?: string | null;
+  /** Shopify customer GID; for a company location, its main contact */
+  shopify_customer_id?: string | null;
+  shopify_company_id?: string | null;
+  shopify_company_location_id?: string | null;
+  shopify_company_contact_id?: string | null;
+  tax_exempt?: boolean;
+  shopify_synced_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -268,6 +491,19 @@ export interface ShopSettings {
   require_phone: boolean;
 }
 
+/**
+ * A user's membership of a shop's workspace (shop_members)
+ */
+export interface ShopMember {
+  id: string;
+  shopId: string;
+  userId: string;
+  email: string;
+  name: string;
+  role: MemberRole;
+  createdAt: Date;
+}
+
 /**
  * Activity log entry
  */
@@ -327,22 +563,94 @@ export enum WebhookEvent {
   CUSTOMER_UPDATED = 'customer.updated',
 }
 
+/**
+ * PDF layout a quote is rendered with
+ */
+export type QuotePdfTemplate = 'modern' | 'classic' | 'minimal' | 'professional';
+
+/**
+ * Line item a template starts new quotes with
+ */
+export interface TemplateLineItem {
+  title: string;
+  description?: string;
+  productId?: string;
+  variantId?: string;
+  sku?: string;
+  quantity: number;
+  unitPrice: number;
+  discountPercentage?: number;
+  taxRate?: number;
+}
+
 /**
  * Quote template
  */
 export interface QuoteTemplate {
   id: string;
+  shopId: string;
   name: string;
   description?: string;
+  category: string;
   isDefault: boolean;
-  headerHtml?: string;
-  footerHtml?: string;
-  cssStyles?: string;
-  termsDefault?: Partial<QuoteTerms>;
+  pdfTemplate: QuotePdfTemplate;
+  /** Printed above the line items on the PDF */
+  headerText?: string;
+  /** Printed at the foot of the PDF */
+  footerText?: string;
+  termsDefault: Partial<QuoteTerms>;
+  lineItems: TemplateLineItem[];
+  /** Quotes started from the template */
+  usageCount: number;
+  lastUsedAt?: Date;
+  createdBy?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * A status in a shop's quote workflow. Every workflow has the QuoteStatus
+ * values; shops can add their own intermediate ones (e.g. awaiting_approval).
+ */
+export interface WorkflowStatusDefinition {
+  /** Stored in quotes.status: a QuoteStatus value or a lowercase custom key */
+  key: string;
+  label: string;
+  description: string;
+  /** Badge color class, one of the built-in statuses' colors */
+  color: string;
+  icon: string;
+  isFinal: boolean;
+  canEdit: boolean;
+  isCustom: boolean;
+}
+
+/**
+ * A move between workflow statuses offered as a quote action
+ */
+export interface WorkflowTransitionDefinition {
+  from: string[];
+  to: string;
+  action: string;
+  requiresConfirmation: boolean;
+  confirmationMessage?: string;
+  /** The member must say why, e.g. when declining */
+  requiresComment: boolean;
+  /** Roles that may take the transition; empty for every role that can write quotes */
+  allowedRoles: MemberRole[];
+}
+
+/**
+ * A shop's quote workflow (quote_workflows), or the default one
+ */
+export interface QuoteWorkflowDefinition {
+  statuses: WorkflowStatusDefinition[];
+  transitions: WorkflowTransitionDefinition[];
+  /** True until the shop saves its own workflow */
+  isDefault: boolean;
+  updatedAt?: Date;
+}
+
 // ============================================================================
 // 2. API TYPES
 // ============================================================================
@@ -665,6 +973,8 @@ export interface StatCardProps extends BaseProps {
   color: 'blue' | 'green' | 'yellow' | 'red' | 'purple' | 'indigo';
   isLoading?: boolean;
   format?: 'number' | 'currency' | 'percent';
+  /** ISO currency for the 'currency' format */
+  currency?: string;
   delay?: number;
 }
 
@@ -757,7 +1067,15 @@ export interface QuoteFormData {
     email: string;
     phone: string;
     company: string;
+    /** Shipping address; its country and state pick the tax rate */
     address: Address;
+    /** A customer with a tax ID is not charged tax */
+    tax_id?: string;
+    /** A customer marked tax exempt in Shopify is not charged tax */
+    tax_exempt?: boolean;
+    /** Saved customer the quote is for, and which of their contacts it goes to */
+    customer_id?: string;
+    contact_id?: string;
   };
   line_items: LineItemInput[];
   title: string;
@@ -767,6 +1085,16 @@ export interface QuoteFormData {
   valid_until: string;
   discount_total: number;
   tax_rate: number;
+  currency?: string;
+  delivery_terms?: string;
+  deposit_required?: boolean;
+  deposit_percentage?: number;
+  internal_notes?: string;
+  /** Template the quote was started from */
+  template_id?: string;
+  pdf_template?: QuotePdfTemplate;
+  header_text?: string;
+  footer_text?: string;
 }
 
 // ============================================================================
@@ -803,6 +1131,8 @@ export interface QuoteWithRelations extends QuoteWithCustomer, QuoteWithItems {
 export interface CustomerStats {
   totalQuotes: number;
   totalRevenue: number;
+  /** Currency the amounts are in: the shop's base currency */
+  currency?: string;
   avgQuoteValue: number;
   acceptedQuotes: number;
   declinedQuotes: number;
@@ -827,16 +1157,149 @@ export interface CustomerWithStats extends Customer {
 export interface CustomerActivity {
   id: string;
   customerId: string;
-  type: 'quote_created' | 'quote_sent' | 'quote_viewed' | 'quote_accepted' | 'quote_rejected' | 'quote_expired' | 'note_added' | 'customer_updated';
+  type: 'quote_created' | 'quote_sent' | 'quote_viewed' | 'quote_accepted' | 'quote_rejected' | 'quote_expired' | 'note_added' | 'customer_updated' | 'customer_merged' | 'customer_merge_undone';
   description: string;
   metadata?: Record<string, unknown>;
   quoteId?: string;
   quoteNumber?: string;
   amount?: number;
+  /** Currency of amount; USD when not given */
+  currency?: string;
   createdAt: Date;
   createdBy?: string;
 }
 
+/**
+ * Customer fields a spreadsheet column can be imported into; addresses are
+ * addressed by part, e.g. billingAddress.city
+ */
+export type CustomerImportField =
+  | 'email'
+  | 'companyName'
+  | 'contactName'
+  | 'phone'
+  | 'taxId'
+  | 'tags'
+  | 'notes'
+  | 'logoUrl'
+  | `${'billingAddress' | 'shippingAddress'}.${keyof CustomerAddress}`;
+
+/**
+ * Column index in the file for each mapped field
+ */
+export type CustomerImportMapping = Partial<Record<CustomerImportField, number>>;
+
+/**
+ * What to do with a row that matches an existing customer: leave the customer
+ * alone, fill in only the fields it is missing, or replace its fields
+ */
+export type CustomerImportDuplicateAction = 'skip' | 'merge' | 'overwrite';
+
+export type CustomerImportStatus = 'draft' | 'processing' | 'completed';
+
+/**
+ * A problem with one row of an import; rows are numbered as in the file,
+ * counting the header row
+ */
+export interface CustomerImportRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+/**
+ * A row matching a customer that already exists
+ */
+export interface CustomerImportDuplicate {
+  row: number;
+  matchedOn: 'email' | 'companyName';
+  customerId: string;
+  companyName: string;
+  email: string;
+  action: CustomerImportDuplicateAction;
+}
+
+/**
+ * Customer import job (customer_imports). Rows are processed in batches from
+ * nextRow, so an interrupted import carries on where it stopped.
+ */
+export interface CustomerImport {
+  id: string;
+  fileName: string;
+  status: CustomerImportStatus;
+  headers: string[];
+  mapping: CustomerImportMapping;
+  duplicateAction: CustomerImportDuplicateAction;
+  /** Per-row choices that override duplicateAction, by row number */
+  rowActions: Record<string, CustomerImportDuplicateAction>;
+  totalRows: number;
+  /** Index of the next data row to process */
+  nextRow: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  errorCount: number;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Dry run of an import with its current mapping
+ */
+export interface CustomerImportPreview {
+  validRows: number;
+  invalidRows: number;
+  /** The first rows, as they would be imported */
+  sampleRows: Array<Partial<Record<CustomerImportField, string>>>;
+  /** The first of the row errors; invalidRows counts them all */
+  errors: CustomerImportRowError[];
+  duplicates: CustomerImportDuplicate[];
+}
+
+/**
+ * What two customers have in common that makes them look like duplicates
+ */
+export type CustomerDuplicateReason = 'email' | 'emailDomain' | 'companyName' | 'phone' | 'address';
+
+/**
+ * A customer that may be a duplicate of another, scored from 0 to 100
+ */
+export interface CustomerDuplicate {
+  customer: Customer;
+  score: number;
+  reasons: CustomerDuplicateReason[];
+}
+
+/**
+ * Customer fields a merge keeps one customer's value of
+ */
+export type CustomerMergeField =
+  | 'email'
+  | 'companyName'
+  | 'contactName'
+  | 'phone'
+  | 'billingAddress'
+  | 'shippingAddress'
+  | 'taxId'
+  | 'logoUrl';
+
+/**
+ * Duplicates merged into a surviving customer (customer_merges); the merge
+ * can be undone until undoUntil
+ */
+export interface CustomerMerge {
+  id: string;
+  survivorId: string;
+  mergedCustomers: Array<Pick<Customer, 'id' | 'companyName' | 'email'>>;
+  mergedBy?: string;
+  mergedByName?: string;
+  createdAt: Date;
+  undoUntil: Date;
+  undoneAt?: Date;
+}
+
 /**
  * Dashboard statistics
  */
@@ -868,6 +1331,8 @@ export interface QuoteStats {
   totalRevenue: number;
   avgQuoteValue: number;
   avgResponseTime: number;
+  /** Currency the amounts are in: the shop's base currency */
+  currency?: string;
   periodChange: {
     totalQuotes: number;
     conversionRate: number;
@@ -965,6 +1430,8 @@ export interface WizardStepConfig {
 export interface CustomerInfoData {
   customer?: Customer;
   customerId?: string;
+  /** The customer's contact the quote goes to; email, contactName and phone are theirs */
+  contactId?: string;
   email: string;
   companyName: string;
   contactName: string;
@@ -1030,6 +1497,12 @@ export interface QuoteCalculations {
   discountTotal: number;
   taxTotal: number;
   total: number;
+  /** Rate of items without their own */
+  taxRate: number;
+  /** Tax per rate charged, lowest rate first */
+  taxBreakdown: TaxBreakdownLine[];
+  pricesIncludeTax: boolean;
+  taxExempt: boolean;
 }
 
 /**
@@ -1057,6 +1530,8 @@ export interface StatusChangeRecord {
   changedAt: string;
   comment?: string;
   metadata?: Record<string, unknown>;
+  /** Quote revision the transition applied to */
+  revision?: number;
 }
 
 /**
@@ -1121,6 +1596,17 @@ export interface CompanyInfo {
   email: string;
   website?: string;
   logoUrl?: string;
+  taxId?: string;
+}
+
+/**
+ * Email sender settings
+ */
+export interface EmailSettings {
+  senderName: string;
+  senderEmail: string;
+  replyToEmail: string;
+  emailFooter: string;
 }
 
 /**
@@ -1128,17 +1614,83 @@ export interface CompanyInfo {
  */
 export interface QuoteSettings {
   defaultCurrency: string;
+  /** Currency analytics report in; other quotes are converted at their sent rate */
+  baseCurrency: string;
   defaultValidityPeriod: number;
   defaultPaymentTerms: string;
-  defaultDeliveryTerms: string;
+  defaultDeliveryTerms?: string;
+  /** Rate where no regional tax rule matches the customer's address */
   taxRate: number;
+  /** Prices are entered with tax included */
+  pricesIncludeTax: boolean;
   enableAutoReminders: boolean;
-  reminderDays: number[];
+  reminderDays?: number[];
   emailTemplate?: string;
   companyLogo?: string;
   companyInfo?: CompanyInfo;
 }
 
+/**
+ * Limits past which a quote needs an approver before it is sent; null is no limit
+ */
+export interface ApprovalThresholds {
+  /** Highest discount_percent on any line item */
+  maxLineDiscount: number | null;
+  /** Highest share of the list price given away across the quote, in percent */
+  maxTotalDiscount: number | null;
+  /** Lowest margin over the items with a known cost, in percent */
+  minMargin: number | null;
+}
+
+export type ExchangeRateSource = 'manual' | 'import';
+
+/**
+ * Rate from the shop's base currency to another currency (exchange_rates)
+ */
+export interface ExchangeRate {
+  currency: string;
+  /** Units of `currency` that one unit of the base currency buys */
+  rate: number;
+  source: ExchangeRateSource;
+  updatedAt: Date;
+}
+
+/**
+ * Tax rate for customers shipping to a country, or to one state of it (tax_rules)
+ */
+export interface TaxRule {
+  id: string;
+  /** Shown on quotes, e.g. "California sales tax" */
+  name: string;
+  /** ISO 3166 country code */
+  country: string;
+  /** State or province as written on addresses; empty for the whole country */
+  region: string;
+  rate: number;
+  updatedAt: Date;
+}
+
+/**
+ * Tax charged at one rate on a quote
+ */
+export interface TaxBreakdownLine {
+  rate: number;
+  /** The amount taxed at this rate, net of tax */
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+/**
+ * Merchant settings edited on the Settings page (merchant_settings)
+ */
+export interface MerchantSettings {
+  shopId: string;
+  company: CompanyInfo;
+  email: EmailSettings;
+  quotes: QuoteSettings;
+  approvals: ApprovalThresholds;
+}
+
 /**
  * Notification item
  */
@@ -1308,6 +1860,7 @@ export const WIZARD_STEPS: WizardStepConfig[] = [
 export const QuoteStatusLabels: Record<QuoteStatus, string> = {
   [QuoteStatus.DRAFT]: 'Draft',
   [QuoteStatus.PENDING]: 'Pending',
+  [QuoteStatus.PENDING_APPROVAL]: 'Awaiting Approval',
   [QuoteStatus.SENT]: 'Sent',
   [QuoteStatus.VIEWED]: 'Viewed',
   [QuoteStatus.ACCEPTED]: 'Accepted',
@@ -1322,6 +1875,7 @@ export const QuoteStatusLabels: Record<QuoteStatus, string> = {
 export const QuoteStatusColors: Record<QuoteStatus, string> = {
   [QuoteStatus.DRAFT]: 'bg-slate-500/10 text-slate-400 border-slate-500/20',
   [QuoteStatus.PENDING]: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  [QuoteStatus.PENDING_APPROVAL]: 'bg-orange-500/10 text-orange-400 border-orange-500/20',
   [QuoteStatus.SENT]: 'bg-indigo-500/10 text-indigo-400 border-indigo-500/20',
   [QuoteStatus.VIEWED]: 'bg-purple-500/10 text-purple-400 border-purple-500/20',
   [QuoteStatus.ACCEPTED]: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
@@ -1348,97 +1902,6 @@ export const CustomerStatusColors: Record<CustomerStatus, string> = {
   [CustomerStatus.ARCHIVED]: 'bg-gray-500/10 text-gray-400 border-gray-500/20',
 };
 
-/**
- * Status metadata for workflow
- */
-export const STATUS_METADATA: Record<QuoteStatus, {
-  label: string;
-  description: string;
-  color: string;
-  icon: string;
-  isFinal: boolean;
-  canEdit: boolean;
-}> = {
-  [QuoteStatus.DRAFT]: {
-    label: 'Draft',
-    description: 'Quote is being prepared',
-    color: 'bg-slate-500',
-    icon: 'PencilIcon',
-    isFinal: false,
-    canEdit: true,
-  },
-  [QuoteStatus.PENDING]: {
-    label: 'Pending',
-    description: 'Quote is ready to be sent',
-    color: 'bg-amber-500',
-    icon: 'ClockIcon',
-    isFinal: false,
-    canEdit: true,
-  },
-  [QuoteStatus.SENT]: {
-    label: 'Sent',
-    description: 'Quote has been sent to customer',
-    color: 'bg-indigo-500',
-    icon: 'PaperAirplaneIcon',
-    isFinal: false,
-    canEdit: false,
-  },
-  [QuoteStatus.VIEWED]: {
-    label: 'Viewed',
-    description: 'Customer has viewed the quote',
-    color: 'bg-purple-500',
-    icon: 'EyeIcon',
-    isFinal: false,
-    canEdit: false,
-  },
-  [QuoteStatus.ACCEPTED]: {
-    label: 'Accepted',
-    description: 'Quote has been accepted by customer',
-    color: 'bg-emerald-500',
-    icon: 'CheckCircleIcon',
-    isFinal: true,
-    canEdit: false,
-  },
-  [QuoteStatus.REJECTED]: {
-    label: 'Declined',
-    description: 'Quote has been declined',
-    color: 'bg-red-500',
-    icon: 'XCircleIcon',
-    isFinal: true,
-    canEdit: false,
-  },
-  [QuoteStatus.EXPIRED]: {
-    label: 'Expired',
-    description: 'Quote has expired',
-    color: 'bg-gray-500',
-    icon: 'CalendarIcon',
-    isFinal: false,
-    canEdit: false,
-  },
-  [QuoteStatus.CONVERTED]: {
-    label: 'Converted',
-    description: 'Quote converted to order',
-    color: 'bg-blue-500',
-    icon: 'ShoppingCartIcon',
-    isFinal: true,
-    canEdit: false,
-  },
-};
-
-/**
- * Valid status transitions for workflow
- */
-export const STATUS_FLOW: Record<QuoteStatus, QuoteStatus[]> = {
-  [QuoteStatus.DRAFT]: [QuoteStatus.SENT, QuoteStatus.PENDING],
-  [QuoteStatus.PENDING]: [QuoteStatus.SENT, QuoteStatus.DRAFT],
-  [QuoteStatus.SENT]: [QuoteStatus.VIEWED, QuoteStatus.ACCEPTED, QuoteStatus.REJECTED, QuoteStatus.EXPIRED, QuoteStatus.SENT],
-  [QuoteStatus.VIEWED]: [QuoteStatus.ACCEPTED, QuoteStatus.REJECTED, QuoteStatus.EXPIRED],
-  [QuoteStatus.ACCEPTED]: [],
-  [QuoteStatus.REJECTED]: [QuoteStatus.DRAFT],
-  [QuoteStatus.EXPIRED]: [QuoteStatus.SENT, QuoteStatus.DRAFT],
-  [QuoteStatus.CONVERTED]: [],
-};
-
 // ============================================================================
 // API CLIENT TYPES
 // ============================================================================
@@ -1678,12 +2141,11 @@ export default {
   CustomerStatus,
   ActivityType,
   QuotePriority,
+  MemberRole,
   WebhookEvent,
   WIZARD_STEPS,
   QuoteStatusLabels,
   QuoteStatusColors,
   CustomerStatusLabels,
   CustomerStatusColors,
-  STATUS_METADATA,
-  STATUS_FLOW,
 };
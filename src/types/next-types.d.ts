@@ -15,6 +15,7 @@ declare module 'next/server.js' {
 declare module 'next/server' {
   import { NextRequest, NextResponse } from 'next';
   export { NextRequest, NextResponse };
+  export { after } from 'next/dist/server/after';
   
   export type ResolvingMetadata = {
     icons: any;
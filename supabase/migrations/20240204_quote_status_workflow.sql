@@ -7,7 +7,7 @@
 -- Tracks all status changes for quotes
 CREATE TABLE IF NOT EXISTS quote_status_history (
   id TEXT PRIMARY KEY,
-  quote_id TEXT NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
   from_status TEXT NOT NULL,
   to_status TEXT NOT NULL,
   changed_by TEXT NOT NULL,
@@ -43,7 +43,7 @@ CREATE INDEX IF NOT EXISTS idx_quote_status_history_quote_changed
 -- Tracks sent expiration reminders to prevent duplicates
 CREATE TABLE IF NOT EXISTS quote_reminders (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  quote_id TEXT NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
   days_before_expiry INTEGER NOT NULL,
   sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   
@@ -69,7 +69,7 @@ CREATE INDEX IF NOT EXISTS idx_quote_reminders_sent_at
 CREATE TABLE IF NOT EXISTS activities (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   type TEXT NOT NULL,
-  quote_id TEXT REFERENCES quotes(id) ON DELETE SET NULL,
+  quote_id UUID REFERENCES quotes(id) ON DELETE SET NULL,
   quote_number TEXT,
   customer_id TEXT,
   customer_name TEXT,
@@ -158,7 +158,7 @@ CREATE POLICY "System can create activities"
 -- Functions
 
 -- Function to get quote status summary
-CREATE OR REPLACE FUNCTION get_quote_status_summary(quote_id_param TEXT)
+CREATE OR REPLACE FUNCTION get_quote_status_summary(quote_id_param UUID)
 RETURNS TABLE (
   total_changes BIGINT,
   first_status TEXT,
@@ -0,0 +1,215 @@
+-- ============================================================================
+-- Unified Quote Schema
+-- Brings the storefront `quotes` table (single product request) in line with
+-- the rich Quote model: customers, line items, totals and the 8-state
+-- QuoteStatus workflow. Legacy rows are migrated into single-line-item quotes.
+-- ============================================================================
+
+-- ============================================================================
+-- Customers Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  company_name TEXT NOT NULL,
+  contact_name TEXT NOT NULL,
+  phone TEXT,
+  billing_address JSONB,
+  shipping_address JSONB,
+  tax_id TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  logo_url TEXT,
+  status TEXT NOT NULL DEFAULT 'active',
+  customer_since TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_customer_status CHECK (status IN ('active', 'inactive', 'archived')),
+  CONSTRAINT unique_customer_email_per_shop UNIQUE (shop_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_shop_id
+  ON customers(shop_id);
+
+CREATE INDEX IF NOT EXISTS idx_customers_company_name
+  ON customers(shop_id, company_name);
+
+CREATE TRIGGER update_customers_updated_at BEFORE UPDATE ON customers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Rich Quote Columns
+-- ============================================================================
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS quote_number TEXT,
+  ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS title TEXT,
+  ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'medium',
+  ADD COLUMN IF NOT EXISTS subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS shipping_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS terms JSONB NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}';
+
+-- Rich quotes carry their products on line items, not on the quote row
+ALTER TABLE quotes ALTER COLUMN product_id DROP NOT NULL;
+
+ALTER TABLE quotes
+  ADD CONSTRAINT valid_quote_priority CHECK (priority IN ('low', 'medium', 'high', 'urgent'));
+
+-- ============================================================================
+-- Quote Line Items Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quote_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  product_id TEXT,
+  variant_id TEXT,
+  title TEXT NOT NULL,
+  variant_title TEXT,
+  sku TEXT NOT NULL DEFAULT '',
+  quantity INTEGER NOT NULL DEFAULT 1,
+  unit_price DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  original_price DECIMAL(12, 2),
+  discount_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  discount_percentage DECIMAL(5, 2),
+  tax_rate DECIMAL(6, 3) NOT NULL DEFAULT 0,
+  tax_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  image_url TEXT,
+  notes TEXT,
+  custom_fields JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT positive_quantity CHECK (quantity > 0),
+  CONSTRAINT non_negative_unit_price CHECK (unit_price >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_line_items_quote_id
+  ON quote_line_items(quote_id, position);
+
+CREATE TRIGGER update_quote_line_items_updated_at BEFORE UPDATE ON quote_line_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Status Workflow
+-- Replace the storefront status set with the QuoteStatus workflow states.
+-- ============================================================================
+
+ALTER TABLE quotes DROP CONSTRAINT IF EXISTS quotes_status_check;
+
+-- ============================================================================
+-- Data Migration
+-- Convert legacy storefront requests into single-line-item quotes.
+-- ============================================================================
+
+-- Map legacy statuses onto the workflow (quoted -> sent, declined -> rejected)
+UPDATE quotes SET status = 'sent' WHERE status = 'quoted';
+UPDATE quotes SET status = 'rejected' WHERE status = 'declined';
+
+-- Create a customer for every distinct requester email per shop
+INSERT INTO customers (shop_id, email, company_name, contact_name, phone, customer_since, created_at)
+SELECT DISTINCT ON (q.shop_id, LOWER(q.customer_email))
+  q.shop_id,
+  LOWER(q.customer_email),
+  COALESCE(NULLIF(q.customer_name, ''), q.customer_email),
+  COALESCE(NULLIF(q.customer_name, ''), q.customer_email),
+  q.customer_phone,
+  q.created_at,
+  q.created_at
+FROM quotes q
+WHERE q.customer_id IS NULL
+  AND q.customer_email IS NOT NULL
+ORDER BY q.shop_id, LOWER(q.customer_email), q.created_at ASC
+ON CONFLICT (shop_id, email) DO NOTHING;
+
+UPDATE quotes q
+SET customer_id = c.id
+FROM customers c
+WHERE q.customer_id IS NULL
+  AND c.shop_id = q.shop_id
+  AND c.email = LOWER(q.customer_email);
+
+-- One line item per legacy request, priced from the merchant's quote amount
+INSERT INTO quote_line_items (
+  quote_id, position, product_id, title, quantity, unit_price,
+  subtotal, total, notes, created_at
+)
+SELECT
+  q.id,
+  0,
+  q.product_id,
+  COALESCE(q.product_title, 'Product ' || q.product_id),
+  GREATEST(COALESCE(q.quantity, 1), 1),
+  ROUND(COALESCE(q.quote_amount, 0) / GREATEST(COALESCE(q.quantity, 1), 1), 2),
+  COALESCE(q.quote_amount, 0),
+  COALESCE(q.quote_amount, 0),
+  q.message,
+  q.created_at
+FROM quotes q
+WHERE q.product_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM quote_line_items li WHERE li.quote_id = q.id);
+
+UPDATE quotes
+SET
+  quote_number = COALESCE(
+    quote_number,
+    'QT-' || TO_CHAR(created_at, 'YYYYMMDD') || '-' || UPPER(SUBSTRING(REPLACE(id::TEXT, '-', '') FROM 1 FOR 6))
+  ),
+  title = COALESCE(title, product_title, 'Quote Request'),
+  subtotal = COALESCE(quote_amount, subtotal),
+  total = COALESCE(quote_amount, total),
+  terms = CASE
+    WHEN admin_notes IS NOT NULL THEN terms || jsonb_build_object('internalNotes', admin_notes)
+    ELSE terms
+  END,
+  metadata = metadata || jsonb_build_object('source', 'web', 'migratedFrom', 'storefront_request')
+WHERE quote_number IS NULL;
+
+ALTER TABLE quotes ALTER COLUMN status SET DEFAULT 'draft';
+
+ALTER TABLE quotes
+  ADD CONSTRAINT valid_quote_status CHECK (
+    status IN ('draft', 'pending', 'sent', 'viewed', 'accepted', 'rejected', 'expired', 'converted')
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_shop_quote_number
+  ON quotes(shop_id, quote_number)
+  WHERE quote_number IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_customer_id
+  ON quotes(customer_id);
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quote_line_items ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Shops can only see their own customers
+CREATE POLICY shop_customers_policy ON customers
+  FOR ALL
+  USING (shop_id = current_setting('app.current_shop_id', true));
+
+-- Policy: Line items follow the visibility of their quote
+CREATE POLICY shop_quote_line_items_policy ON quote_line_items
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotes
+      WHERE quotes.id = quote_line_items.quote_id
+        AND quotes.shop_id = current_setting('app.current_shop_id', true)
+    )
+  );
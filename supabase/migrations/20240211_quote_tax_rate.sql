@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Quote Tax Rate
+-- Persist the quote-level tax rate so the API can recompute totals whenever
+-- line items, discounts or shipping change.
+-- ============================================================================
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(6, 3) NOT NULL DEFAULT 0;
+
+-- Backfill from existing totals where the rate can be derived
+UPDATE quotes
+SET tax_rate = ROUND(tax_total / NULLIF(subtotal - discount_total, 0) * 100, 3)
+WHERE tax_rate = 0
+  AND tax_total > 0
+  AND subtotal - discount_total > 0;
+
+-- Quote list filters and sorting
+CREATE INDEX IF NOT EXISTS idx_quotes_shop_total
+  ON quotes(shop_id, total);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_shop_updated_at
+  ON quotes(shop_id, updated_at DESC);
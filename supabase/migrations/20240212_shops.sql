@@ -0,0 +1,26 @@
+-- ============================================================================
+-- Shops
+-- One row per installed shop, written by the OAuth callback. The Admin API
+-- access token is stored AES-256-GCM encrypted (see src/lib/encryption.ts).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS shops (
+  shop_id TEXT PRIMARY KEY,
+  access_token_encrypted TEXT NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  installed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  uninstalled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_shop_domain CHECK (shop_id ~ '^[a-zA-Z0-9][-a-zA-Z0-9]*\.myshopify\.com$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_shops_installed
+  ON shops(shop_id) WHERE uninstalled_at IS NULL;
+
+CREATE TRIGGER update_shops_updated_at BEFORE UPDATE ON shops
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS on with no policies: only the service role can read or write tokens
+ALTER TABLE shops ENABLE ROW LEVEL SECURITY;
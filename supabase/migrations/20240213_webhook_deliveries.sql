@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Webhook Deliveries
+-- Shopify retries deliveries and may send the same webhook more than once,
+-- so every delivery is recorded by X-Shopify-Webhook-Id before it is acted on.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  webhook_id TEXT PRIMARY KEY,
+  shop_id TEXT NOT NULL,
+  topic TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing',
+  error TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+
+  CONSTRAINT valid_delivery_status CHECK (status IN ('processing', 'processed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_shop_topic
+  ON webhook_deliveries(shop_id, topic, received_at DESC);
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Product Snapshots
+-- Latest catalog state per product, refreshed by products/update
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS shopify_products (
+  shop_id TEXT NOT NULL,
+  product_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  handle TEXT,
+  variants JSONB NOT NULL DEFAULT '[]',
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (shop_id, product_id)
+);
+
+ALTER TABLE shopify_products ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- Shop Uninstall
+-- app/uninstalled revokes the token and schedules the shop's data for cleanup
+-- ============================================================================
+
+ALTER TABLE shops
+  ALTER COLUMN access_token_encrypted DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS cleanup_scheduled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_shops_cleanup_scheduled
+  ON shops(cleanup_scheduled_at) WHERE cleanup_scheduled_at IS NOT NULL;
+
+-- ============================================================================
+-- Price Drift and Order Conversion
+-- ============================================================================
+
+-- Current catalog price when it differs from the price the item was quoted from
+ALTER TABLE quote_line_items
+  ADD COLUMN IF NOT EXISTS catalog_price DECIMAL(12, 2);
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS price_drift_detected_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS shopify_order_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_quote_line_items_variant_id
+  ON quote_line_items(variant_id) WHERE variant_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_shopify_order_id
+  ON quotes(shop_id, shopify_order_id) WHERE shopify_order_id IS NOT NULL;
@@ -0,0 +1,42 @@
+-- ============================================================================
+-- Compliance Requests
+-- Log of Shopify's mandatory GDPR webhooks (customers/data_request,
+-- customers/redact, shop/redact). Data requests keep the generated export
+-- so it can be handed to the merchant.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS compliance_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id TEXT NOT NULL,
+  topic TEXT NOT NULL,
+  shopify_customer_id TEXT,
+  customer_email TEXT,
+  data_request_id TEXT,
+  status TEXT NOT NULL DEFAULT 'processing',
+  export JSONB,
+  rows_affected INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+
+  CONSTRAINT valid_compliance_topic CHECK (
+    topic IN ('customers/data_request', 'customers/redact', 'shop/redact')
+  ),
+  CONSTRAINT valid_compliance_status CHECK (status IN ('processing', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_requests_shop
+  ON compliance_requests(shop_id, requested_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_compliance_requests_status
+  ON compliance_requests(status) WHERE status <> 'completed';
+
+-- RLS on with no policies: exports contain customer data and are service-role only
+ALTER TABLE compliance_requests ENABLE ROW LEVEL SECURITY;
+
+-- Customer lookups by email for data requests and redaction
+CREATE INDEX IF NOT EXISTS idx_quotes_shop_customer_email
+  ON quotes(shop_id, LOWER(customer_email));
+
+CREATE INDEX IF NOT EXISTS idx_activities_customer_id
+  ON activities(customer_id) WHERE customer_id IS NOT NULL;
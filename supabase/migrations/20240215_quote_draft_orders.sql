@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Quote Draft Orders
+-- Accepted quotes are converted into Shopify draft orders; the draft order
+-- and its invoice URL are kept on the quote.
+-- ============================================================================
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS shopify_draft_order_id TEXT,
+  ADD COLUMN IF NOT EXISTS shopify_draft_order_name TEXT,
+  ADD COLUMN IF NOT EXISTS shopify_invoice_url TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_shopify_draft_order_id
+  ON quotes(shopify_draft_order_id) WHERE shopify_draft_order_id IS NOT NULL;
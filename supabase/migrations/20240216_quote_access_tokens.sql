@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Quote Access Tokens
+-- Unguessable links that let a buyer view, accept or reject a quote without
+-- logging in. Only a SHA-256 hash of each token is stored; a link stops
+-- working when it is revoked or when the quote expires.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quote_access_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_access_tokens_quote_id ON quote_access_tokens(quote_id);
+
+-- Only the service role reads tokens; the public quote routes resolve them server-side
+ALTER TABLE quote_access_tokens ENABLE ROW LEVEL SECURITY;
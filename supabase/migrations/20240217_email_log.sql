@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Email Log
+-- Every outgoing email is recorded with the transport that sent it and the
+-- provider's message ID, so delivery can be checked and traced later.
+-- Shops can also set the sender identity their emails go out under.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS email_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id TEXT,
+  quote_id UUID REFERENCES quotes(id) ON DELETE SET NULL,
+  type TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  attachments TEXT[] NOT NULL DEFAULT '{}',
+  provider_message_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_log_quote_id ON email_log(quote_id);
+CREATE INDEX IF NOT EXISTS idx_email_log_shop_id_created_at ON email_log(shop_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_log_provider_message_id
+  ON email_log(provider_message_id) WHERE provider_message_id IS NOT NULL;
+
+ALTER TABLE email_log ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE shop_settings
+  ADD COLUMN IF NOT EXISTS sender_name TEXT,
+  ADD COLUMN IF NOT EXISTS sender_email TEXT,
+  ADD COLUMN IF NOT EXISTS reply_to_email TEXT;
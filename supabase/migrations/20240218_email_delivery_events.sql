@@ -0,0 +1,39 @@
+-- ============================================================================
+-- Email Delivery Events
+-- Delivery events posted back by the mail provider (Resend, signed with Svix).
+-- Each event is stored once by its svix-id and rolled up onto email_log, so a
+-- quote's emails show whether they were delivered, opened, clicked or bounced.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS email_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id TEXT NOT NULL UNIQUE,
+  email_log_id UUID REFERENCES email_log(id) ON DELETE CASCADE,
+  provider_message_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  occurred_at TIMESTAMPTZ NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_email_event_type CHECK (type IN ('delivered', 'bounced', 'complained', 'opened', 'clicked'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_email_log_id ON email_events(email_log_id, occurred_at);
+
+ALTER TABLE email_events ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE email_log
+  ADD COLUMN IF NOT EXISTS delivery_status TEXT
+    CHECK (delivery_status IN ('delivered', 'bounced', 'complained')),
+  ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS first_opened_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS first_clicked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS open_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS click_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS bounced_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS bounce_reason TEXT;
+
+-- Set on a hard bounce so reps stop sending to a dead address
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS email_bounced_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS email_bounce_reason TEXT;
@@ -0,0 +1,52 @@
+-- ============================================================================
+-- Merchant Settings
+-- What the Settings page edits: company details printed on quotes, the email
+-- sender identity and the defaults new quotes start from. One row per shop;
+-- shops without a row use the application defaults.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS merchant_settings (
+  shop_id TEXT PRIMARY KEY,
+
+  -- Company (quote PDF header)
+  company_name TEXT NOT NULL DEFAULT '',
+  company_address TEXT NOT NULL DEFAULT '',
+  company_phone TEXT NOT NULL DEFAULT '',
+  company_email TEXT NOT NULL DEFAULT '',
+  company_website TEXT NOT NULL DEFAULT '',
+  company_tax_id TEXT NOT NULL DEFAULT '',
+  company_logo_url TEXT,
+
+  -- Email sender
+  sender_name TEXT NOT NULL DEFAULT '',
+  sender_email TEXT NOT NULL DEFAULT '',
+  reply_to_email TEXT NOT NULL DEFAULT '',
+  email_footer TEXT NOT NULL DEFAULT '',
+
+  -- Quote defaults
+  default_currency TEXT NOT NULL DEFAULT 'USD' CHECK (char_length(default_currency) = 3),
+  default_validity_days INTEGER NOT NULL DEFAULT 30 CHECK (default_validity_days BETWEEN 1 AND 365),
+  default_payment_terms TEXT NOT NULL DEFAULT 'Net 30',
+  default_tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (default_tax_rate BETWEEN 0 AND 100),
+  auto_reminders_enabled BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_merchant_settings_updated_at BEFORE UPDATE ON merchant_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE merchant_settings ENABLE ROW LEVEL SECURITY;
+
+-- The sender identity moves here from shop_settings
+INSERT INTO merchant_settings (shop_id, sender_name, sender_email, reply_to_email)
+SELECT shop_id, COALESCE(sender_name, ''), COALESCE(sender_email, ''), COALESCE(reply_to_email, '')
+FROM shop_settings
+WHERE sender_name IS NOT NULL OR sender_email IS NOT NULL OR reply_to_email IS NOT NULL
+ON CONFLICT (shop_id) DO NOTHING;
+
+ALTER TABLE shop_settings
+  DROP COLUMN IF EXISTS sender_name,
+  DROP COLUMN IF EXISTS sender_email,
+  DROP COLUMN IF EXISTS reply_to_email;
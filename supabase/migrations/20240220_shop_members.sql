@@ -0,0 +1,35 @@
+-- ============================================================================
+-- Shop Members
+-- Supabase Auth users who work in a shop's workspace, with their role:
+--   owner  - everything, including managing admins
+--   admin  - everything except managing the owner
+--   sales  - creates and works quotes and customers
+--   viewer - read-only
+-- The API middleware resolves the signed-in user to their membership on
+-- every request and passes it on as x-user-id / x-user-name / x-member-role.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS shop_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  role TEXT NOT NULL DEFAULT 'sales',
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT valid_member_role CHECK (role IN ('owner', 'admin', 'sales', 'viewer')),
+  CONSTRAINT unique_shop_member UNIQUE (shop_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shop_members_user_id ON shop_members(user_id);
+
+-- A workspace has exactly one owner
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shop_members_owner ON shop_members(shop_id) WHERE role = 'owner';
+
+CREATE TRIGGER update_shop_members_updated_at BEFORE UPDATE ON shop_members
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE shop_members ENABLE ROW LEVEL SECURITY;
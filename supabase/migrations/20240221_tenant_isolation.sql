@@ -0,0 +1,212 @@
+-- ============================================================================
+-- Tenant Isolation
+-- Every shop table carries shop_id, and row level security keys on the shops
+-- the signed-in member belongs to. Supabase Auth puts those in the access
+-- token as the shop_roles claim ({ "<shop_id>": "<role>" }) through
+-- custom_access_token_hook below; enable it in the dashboard under
+-- Authentication > Hooks (or [auth.hook.custom_access_token] in config.toml).
+--
+-- Route handlers query as the signed-in user. The service role, which
+-- bypasses RLS, is left to background jobs, webhooks and the public quote page.
+-- Replaces the policies keyed on current_setting('app.current_shop_id'),
+-- which nothing ever set, and the USING (true) ones.
+-- ============================================================================
+
+-- ============================================================================
+-- shop_id on Child Tables
+-- ============================================================================
+
+ALTER TABLE quote_line_items ADD COLUMN IF NOT EXISTS shop_id TEXT;
+ALTER TABLE quote_status_history ADD COLUMN IF NOT EXISTS shop_id TEXT;
+ALTER TABLE quote_reminders ADD COLUMN IF NOT EXISTS shop_id TEXT;
+ALTER TABLE activities ADD COLUMN IF NOT EXISTS shop_id TEXT;
+
+UPDATE quote_line_items li SET shop_id = q.shop_id
+FROM quotes q WHERE q.id = li.quote_id AND li.shop_id IS NULL;
+
+UPDATE quote_status_history h SET shop_id = q.shop_id
+FROM quotes q WHERE q.id = h.quote_id AND h.shop_id IS NULL;
+
+UPDATE quote_reminders r SET shop_id = q.shop_id
+FROM quotes q WHERE q.id = r.quote_id AND r.shop_id IS NULL;
+
+UPDATE activities a SET shop_id = q.shop_id
+FROM quotes q WHERE q.id = a.quote_id AND a.shop_id IS NULL;
+
+UPDATE activities a SET shop_id = c.shop_id
+FROM customers c WHERE c.id::TEXT = a.customer_id AND a.shop_id IS NULL;
+
+-- Activities for deleted quotes and customers belong to no shop anyone could see
+DELETE FROM activities WHERE shop_id IS NULL;
+
+ALTER TABLE quote_line_items ALTER COLUMN shop_id SET NOT NULL;
+ALTER TABLE quote_status_history ALTER COLUMN shop_id SET NOT NULL;
+ALTER TABLE quote_reminders ALTER COLUMN shop_id SET NOT NULL;
+ALTER TABLE activities ALTER COLUMN shop_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quote_line_items_shop_id ON quote_line_items(shop_id);
+CREATE INDEX IF NOT EXISTS idx_quote_status_history_shop_id ON quote_status_history(shop_id);
+CREATE INDEX IF NOT EXISTS idx_quote_reminders_shop_id ON quote_reminders(shop_id);
+CREATE INDEX IF NOT EXISTS idx_activities_shop_id_created_at ON activities(shop_id, created_at DESC);
+
+-- Rows hanging off a quote (or, for activities, a customer) always take the
+-- parent's shop, so writers never pass it and cannot point it elsewhere. The
+-- lookup runs under the writer's RLS: another shop's quote yields no shop_id
+-- and the NOT NULL constraint rejects the row.
+CREATE OR REPLACE FUNCTION set_shop_id_from_parent()
+RETURNS TRIGGER AS $$
+DECLARE
+  row_data JSONB := to_jsonb(NEW);
+BEGIN
+  IF row_data ->> 'quote_id' IS NOT NULL THEN
+    SELECT shop_id INTO NEW.shop_id FROM quotes WHERE id = (row_data ->> 'quote_id')::UUID;
+  ELSIF row_data ->> 'customer_id' IS NOT NULL THEN
+    SELECT shop_id INTO NEW.shop_id FROM customers WHERE id::TEXT = row_data ->> 'customer_id';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_quote_line_items_shop_id BEFORE INSERT ON quote_line_items
+  FOR EACH ROW EXECUTE FUNCTION set_shop_id_from_parent();
+
+CREATE TRIGGER set_quote_status_history_shop_id BEFORE INSERT ON quote_status_history
+  FOR EACH ROW EXECUTE FUNCTION set_shop_id_from_parent();
+
+CREATE TRIGGER set_quote_reminders_shop_id BEFORE INSERT ON quote_reminders
+  FOR EACH ROW EXECUTE FUNCTION set_shop_id_from_parent();
+
+CREATE TRIGGER set_activities_shop_id BEFORE INSERT ON activities
+  FOR EACH ROW EXECUTE FUNCTION set_shop_id_from_parent();
+
+-- ============================================================================
+-- Shop Claim
+-- ============================================================================
+
+-- Adds shop_roles to every access token Supabase Auth issues. Membership
+-- changes reach a user's token at its next refresh.
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  shop_roles JSONB;
+BEGIN
+  SELECT COALESCE(jsonb_object_agg(shop_id, role), '{}'::JSONB)
+  INTO shop_roles
+  FROM public.shop_members
+  WHERE user_id = (event ->> 'user_id')::UUID;
+
+  RETURN jsonb_set(event, '{claims,shop_roles}', shop_roles);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.custom_access_token_hook(JSONB) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.custom_access_token_hook(JSONB) FROM authenticated, anon, public;
+GRANT SELECT ON TABLE public.shop_members TO supabase_auth_admin;
+
+CREATE POLICY shop_members_token_hook ON shop_members
+  FOR SELECT TO supabase_auth_admin
+  USING (true);
+
+-- The signed-in member's role in a shop, or NULL when they are not a member
+CREATE OR REPLACE FUNCTION public.member_shop_role(target_shop_id TEXT)
+RETURNS TEXT AS $$
+  SELECT auth.jwt() -> 'shop_roles' ->> target_shop_id
+$$ LANGUAGE sql STABLE;
+
+-- Whether the signed-in member holds one of the roles in a shop
+CREATE OR REPLACE FUNCTION public.has_shop_role(target_shop_id TEXT, roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.member_shop_role(target_shop_id) = ANY(roles), false)
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- Policies
+-- Members read their shops' rows; owners, admins and sales write them
+-- (viewers are read-only). Settings and customer deletes are for owners and
+-- admins, mirroring ROLE_PERMISSIONS in lib/permissions.
+-- ============================================================================
+
+DROP POLICY IF EXISTS shop_quotes_policy ON quotes;
+DROP POLICY IF EXISTS shop_settings_policy ON shop_settings;
+DROP POLICY IF EXISTS shop_customers_policy ON customers;
+DROP POLICY IF EXISTS shop_quote_line_items_policy ON quote_line_items;
+DROP POLICY IF EXISTS "Users can view quote status history" ON quote_status_history;
+DROP POLICY IF EXISTS "System can insert quote status history" ON quote_status_history;
+DROP POLICY IF EXISTS "Users can view activities" ON activities;
+DROP POLICY IF EXISTS "System can create activities" ON activities;
+
+-- Quotes
+CREATE POLICY quotes_member_read ON quotes FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY quotes_member_insert ON quotes FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY quotes_member_update ON quotes FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY quotes_member_delete ON quotes FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+
+-- Quote line items
+CREATE POLICY quote_line_items_member_read ON quote_line_items FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY quote_line_items_member_insert ON quote_line_items FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY quote_line_items_member_update ON quote_line_items FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY quote_line_items_member_delete ON quote_line_items FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+
+-- Quote status history (append-only)
+CREATE POLICY quote_status_history_member_read ON quote_status_history FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY quote_status_history_member_insert ON quote_status_history FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+
+-- Quote reminders (written by the expiration job)
+CREATE POLICY quote_reminders_member_read ON quote_reminders FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+
+-- Activities (append-only)
+CREATE POLICY activities_member_read ON activities FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY activities_member_insert ON activities FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+
+-- Customers
+CREATE POLICY customers_member_read ON customers FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY customers_member_insert ON customers FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY customers_member_update ON customers FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY customers_member_delete ON customers FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+
+-- Merchant settings
+CREATE POLICY merchant_settings_member_read ON merchant_settings FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY merchant_settings_admin_insert ON merchant_settings FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+CREATE POLICY merchant_settings_admin_update ON merchant_settings FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+
+-- Storefront button settings
+CREATE POLICY shop_settings_member_read ON shop_settings FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY shop_settings_admin_insert ON shop_settings FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+CREATE POLICY shop_settings_admin_update ON shop_settings FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+
+-- Shop members (invites and removals go through the Auth admin API)
+CREATE POLICY shop_members_member_read ON shop_members FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+
+-- shops, webhook_deliveries, shopify_products, compliance_requests,
+-- quote_access_tokens, email_log and email_events keep RLS without policies:
+-- they hold credentials or provider data and are service-role only.
@@ -0,0 +1,78 @@
+-- ============================================================================
+-- Quote Templates
+-- Reusable starting points for the quote wizard: default terms, preset line
+-- items, the PDF layout and header/footer text. At most one template per shop
+-- is the default. Quotes remember the template they were started from, which
+-- is what usage_count and last_used_at count.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quote_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 120),
+  description TEXT,
+  category TEXT NOT NULL DEFAULT 'Standard',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+
+  -- What a new quote starts with
+  pdf_template TEXT NOT NULL DEFAULT 'modern'
+    CHECK (pdf_template IN ('modern', 'classic', 'minimal', 'professional')),
+  terms_default JSONB NOT NULL DEFAULT '{}'::JSONB,
+  line_items JSONB NOT NULL DEFAULT '[]'::JSONB CHECK (jsonb_typeof(line_items) = 'array'),
+  header_text TEXT,
+  footer_text TEXT,
+
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_templates_shop_id ON quote_templates(shop_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quote_templates_one_default
+  ON quote_templates(shop_id) WHERE is_default;
+
+CREATE TRIGGER update_quote_templates_updated_at BEFORE UPDATE ON quote_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE quote_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY quote_templates_member_read ON quote_templates FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY quote_templates_member_insert ON quote_templates FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY quote_templates_member_update ON quote_templates FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY quote_templates_member_delete ON quote_templates FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+
+-- What each quote was started from and how its PDF is laid out
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES quote_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS pdf_template TEXT NOT NULL DEFAULT 'modern'
+    CHECK (pdf_template IN ('modern', 'classic', 'minimal', 'professional')),
+  ADD COLUMN IF NOT EXISTS header_text TEXT,
+  ADD COLUMN IF NOT EXISTS footer_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_template_id ON quotes(template_id) WHERE template_id IS NOT NULL;
+
+-- Counts a use whenever a quote is created from a template. Runs as the
+-- definer so the count also moves for quotes created by the service role.
+CREATE OR REPLACE FUNCTION record_quote_template_use()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE quote_templates
+  SET usage_count = usage_count + 1,
+      last_used_at = NOW()
+  WHERE id = NEW.template_id
+    AND shop_id = NEW.shop_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_quote_template_use AFTER INSERT ON quotes
+  FOR EACH ROW WHEN (NEW.template_id IS NOT NULL)
+  EXECUTE FUNCTION record_quote_template_use();
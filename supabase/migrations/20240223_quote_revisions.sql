@@ -0,0 +1,78 @@
+-- ============================================================================
+-- Quote Revisions
+-- Editing a sent or viewed quote turns it into its next revision instead of
+-- a new quote. The quotes row always holds the latest version, so the
+-- customer link keeps pointing at it; each superseded version is frozen in
+-- quote_revisions. Status history records the revision every transition
+-- applied to.
+-- ============================================================================
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1 CHECK (revision >= 1);
+
+CREATE TABLE IF NOT EXISTS quote_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  shop_id TEXT NOT NULL,
+  revision INTEGER NOT NULL CHECK (revision >= 1),
+
+  -- The version as it stood when it was superseded
+  title TEXT NOT NULL,
+  status TEXT NOT NULL,
+  line_items JSONB NOT NULL DEFAULT '[]'::JSONB CHECK (jsonb_typeof(line_items) = 'array'),
+  terms JSONB NOT NULL DEFAULT '{}'::JSONB,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  discount_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  tax_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  shipping_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ,
+  sent_at TIMESTAMPTZ,
+
+  superseded_by TEXT,
+  superseded_by_name TEXT,
+  superseded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (quote_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_revisions_shop_id ON quote_revisions(shop_id);
+
+CREATE TRIGGER set_quote_revisions_shop_id BEFORE INSERT ON quote_revisions
+  FOR EACH ROW EXECUTE FUNCTION set_shop_id_from_parent();
+
+-- Snapshots are written once and never changed: there is no update or
+-- delete policy, and rows go away only with their quote
+ALTER TABLE quote_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY quote_revisions_member_read ON quote_revisions FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY quote_revisions_member_insert ON quote_revisions FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+
+-- ============================================================================
+-- Status history per revision
+-- ============================================================================
+
+ALTER TABLE quote_status_history ADD COLUMN IF NOT EXISTS revision INTEGER;
+
+UPDATE quote_status_history SET revision = 1 WHERE revision IS NULL;
+
+ALTER TABLE quote_status_history ALTER COLUMN revision SET NOT NULL;
+
+-- Every writer (status route, public link, expiry job) inserts history rows
+-- directly; stamping the quote's current revision here covers them all.
+CREATE OR REPLACE FUNCTION set_status_history_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.revision IS NULL THEN
+    SELECT revision INTO NEW.revision FROM quotes WHERE id = NEW.quote_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_quote_status_history_revision BEFORE INSERT ON quote_status_history
+  FOR EACH ROW EXECUTE FUNCTION set_status_history_revision();
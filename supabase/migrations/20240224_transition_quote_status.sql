@@ -0,0 +1,79 @@
+-- ============================================================================
+-- Atomic Quote Status Transitions
+-- One function moves a quote between statuses: compare-and-set on the status
+-- the caller read, the matching timestamp column, the status history row and
+-- the activity, all in one transaction. Callers run it through RPC with their
+-- own client, so RLS decides which quotes they can move.
+--
+-- Errors use PostgREST's PTxxx codes, which become the HTTP status:
+--   PT404  the quote does not exist (or is not visible to the caller)
+--   PT409  the quote is no longer in p_from_status
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION transition_quote_status(
+  p_quote_id UUID,
+  p_from_status TEXT,
+  p_to_status TEXT,
+  p_history_id TEXT,
+  p_changed_by TEXT,
+  p_changed_by_name TEXT,
+  p_activity_type TEXT,
+  p_activity_description TEXT,
+  p_comment TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS quotes
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  transitioned_at TIMESTAMPTZ := NOW();
+  updated_quote quotes;
+BEGIN
+  UPDATE quotes SET
+    status = p_to_status,
+    updated_at = transitioned_at,
+    sent_at = CASE WHEN p_to_status = 'sent' THEN transitioned_at ELSE sent_at END,
+    viewed_at = CASE WHEN p_to_status = 'viewed' THEN transitioned_at ELSE viewed_at END,
+    accepted_at = CASE WHEN p_to_status = 'accepted' THEN transitioned_at ELSE accepted_at END,
+    rejected_at = CASE WHEN p_to_status = 'rejected' THEN transitioned_at ELSE rejected_at END,
+    converted_at = CASE WHEN p_to_status = 'converted' THEN transitioned_at ELSE converted_at END,
+    rejection_reason = CASE
+      WHEN p_to_status = 'rejected' AND p_comment IS NOT NULL THEN p_comment
+      ELSE rejection_reason
+    END
+  WHERE id = p_quote_id AND status = p_from_status
+  RETURNING * INTO updated_quote;
+
+  IF NOT FOUND THEN
+    IF EXISTS (SELECT 1 FROM quotes WHERE id = p_quote_id) THEN
+      RAISE EXCEPTION 'Quote % is no longer %', p_quote_id, p_from_status
+        USING ERRCODE = 'PT409';
+    END IF;
+    RAISE EXCEPTION 'Quote % not found', p_quote_id
+      USING ERRCODE = 'PT404';
+  END IF;
+
+  -- shop_id and revision are stamped from the quote by their triggers
+  INSERT INTO quote_status_history (
+    id, quote_id, from_status, to_status, changed_by, changed_by_name, changed_at, comment, metadata
+  ) VALUES (
+    p_history_id, p_quote_id, p_from_status, p_to_status, p_changed_by, p_changed_by_name, transitioned_at,
+    p_comment, COALESCE(p_metadata, '{}'::JSONB)
+  );
+
+  INSERT INTO activities (
+    type, quote_id, quote_number, customer_id, customer_name, user_id, user_name, description, metadata, created_at
+  ) VALUES (
+    p_activity_type, p_quote_id, updated_quote.quote_number, updated_quote.customer_id,
+    updated_quote.customer_name, p_changed_by, p_changed_by_name, p_activity_description,
+    COALESCE(p_metadata, '{}'::JSONB), transitioned_at
+  );
+
+  RETURN updated_quote;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_quote_status(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION transition_quote_status(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB)
+  TO authenticated, service_role;
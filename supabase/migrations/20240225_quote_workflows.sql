@@ -0,0 +1,50 @@
+-- ============================================================================
+-- Per-Shop Quote Workflows
+-- A shop can replace the default status graph: add its own intermediate
+-- statuses (e.g. awaiting_approval), require a comment on a transition and
+-- restrict a transition to some roles. Shops without a row use the default
+-- workflow defined in lib/quoteWorkflow.ts.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS quote_workflows (
+  shop_id TEXT PRIMARY KEY,
+  -- Custom statuses only; the built-in ones are part of every workflow
+  statuses JSONB NOT NULL DEFAULT '[]'::JSONB CHECK (jsonb_typeof(statuses) = 'array'),
+  -- The whole graph, built-in transitions included
+  transitions JSONB NOT NULL CHECK (jsonb_typeof(transitions) = 'array'),
+  updated_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_quote_workflows_updated_at BEFORE UPDATE ON quote_workflows
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE quote_workflows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY quote_workflows_member_read ON quote_workflows FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY quote_workflows_admin_insert ON quote_workflows FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+CREATE POLICY quote_workflows_admin_update ON quote_workflows FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+CREATE POLICY quote_workflows_admin_delete ON quote_workflows FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+
+-- ============================================================================
+-- Custom Status Values
+-- Quotes and their history can now hold a shop's own status keys, so the
+-- fixed status lists give way to the key format; the API checks statuses
+-- against the shop's workflow.
+-- ============================================================================
+
+ALTER TABLE quotes DROP CONSTRAINT IF EXISTS valid_quote_status;
+ALTER TABLE quotes
+  ADD CONSTRAINT valid_quote_status CHECK (status ~ '^[a-z][a-z0-9_]*$');
+
+ALTER TABLE quote_status_history DROP CONSTRAINT IF EXISTS valid_from_status;
+ALTER TABLE quote_status_history DROP CONSTRAINT IF EXISTS valid_to_status;
+ALTER TABLE quote_status_history
+  ADD CONSTRAINT valid_from_status CHECK (from_status ~ '^[a-z][a-z0-9_]*$'),
+  ADD CONSTRAINT valid_to_status CHECK (to_status ~ '^[a-z][a-z0-9_]*$');
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Discount Approvals
+-- A shop can set limits on line discounts, the overall discount and the
+-- margin. A quote past any of them is held in pending_approval instead of
+-- being sent, until a member with quotes:approve approves or rejects it; the
+-- decision is kept in quote_status_history.metadata. NULL means no limit.
+-- ============================================================================
+
+ALTER TABLE merchant_settings
+  ADD COLUMN IF NOT EXISTS approval_max_line_discount DECIMAL(5,2)
+    CHECK (approval_max_line_discount BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS approval_max_total_discount DECIMAL(5,2)
+    CHECK (approval_max_total_discount BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS approval_min_margin DECIMAL(5,2)
+    CHECK (approval_min_margin BETWEEN 0 AND 100);
+
+-- What the item cost the shop when it was quoted (Shopify cost per item);
+-- the margin limit only looks at items that have one
+ALTER TABLE quote_line_items
+  ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(12, 2) CHECK (unit_cost >= 0);
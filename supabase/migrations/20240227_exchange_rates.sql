@@ -0,0 +1,96 @@
+-- ============================================================================
+-- Multi-Currency Quotes
+-- Quotes can be priced in any ISO currency. Each shop has a base currency
+-- that analytics report in and a table of rates from it, kept by hand or
+-- imported from a rates file. When a quote is sent, the rate to the base
+-- currency is stamped on it, so later rate changes do not move its numbers.
+-- ============================================================================
+
+ALTER TABLE merchant_settings
+  ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'USD'
+    CHECK (base_currency ~ '^[A-Z]{3}$');
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  shop_id TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  -- Units of `currency` that one unit of the base currency buys
+  rate DECIMAL(20, 10) NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  updated_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (shop_id, currency)
+);
+
+CREATE TRIGGER update_exchange_rates_updated_at BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY exchange_rates_member_read ON exchange_rates FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY exchange_rates_admin_insert ON exchange_rates FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+CREATE POLICY exchange_rates_admin_update ON exchange_rates FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+CREATE POLICY exchange_rates_admin_delete ON exchange_rates FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+
+-- The rate a quote was last sent at
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS base_currency TEXT CHECK (base_currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(20, 10) CHECK (exchange_rate > 0);
+
+-- ============================================================================
+-- Rate Snapshot
+-- Every send stamps sent_at (the status transition function, and revisions
+-- of sent quotes), so the snapshot hangs off that column. A quote in a
+-- currency without a rate cannot be sent: PT422 becomes HTTP 422.
+-- Runs as the definer so sales members, who cannot edit rates, still read them.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION snapshot_quote_exchange_rate()
+RETURNS TRIGGER AS $$
+DECLARE
+  shop_base_currency TEXT;
+  current_rate DECIMAL(20, 10);
+BEGIN
+  SELECT base_currency INTO shop_base_currency
+  FROM merchant_settings
+  WHERE shop_id = NEW.shop_id;
+  shop_base_currency := COALESCE(shop_base_currency, 'USD');
+
+  IF NEW.currency = shop_base_currency THEN
+    current_rate := 1;
+  ELSE
+    SELECT rate INTO current_rate
+    FROM exchange_rates
+    WHERE shop_id = NEW.shop_id AND currency = NEW.currency;
+
+    IF current_rate IS NULL THEN
+      RAISE EXCEPTION 'No exchange rate from % to %', shop_base_currency, NEW.currency
+        USING ERRCODE = 'PT422';
+    END IF;
+  END IF;
+
+  NEW.base_currency := shop_base_currency;
+  NEW.exchange_rate := current_rate;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER snapshot_quote_exchange_rate BEFORE UPDATE OF sent_at ON quotes
+  FOR EACH ROW WHEN (NEW.sent_at IS NOT NULL AND NEW.sent_at IS DISTINCT FROM OLD.sent_at)
+  EXECUTE FUNCTION snapshot_quote_exchange_rate();
+
+-- Quotes already sent in the shop's base currency convert at 1; others have
+-- no rate on record and convert at today's rate until they are sent again
+UPDATE quotes q
+SET base_currency = COALESCE(ms.base_currency, 'USD'),
+    exchange_rate = 1
+FROM (SELECT DISTINCT shop_id FROM quotes) shops
+LEFT JOIN merchant_settings ms ON ms.shop_id = shops.shop_id
+WHERE q.shop_id = shops.shop_id
+  AND q.sent_at IS NOT NULL
+  AND q.currency = COALESCE(ms.base_currency, 'USD');
@@ -0,0 +1,55 @@
+-- ============================================================================
+-- Regional Tax
+-- Each shop keeps a table of tax rates by country, or by state within a
+-- country; a quote takes the rate for its customer's shipping address, or
+-- the shop's default rate when no rule matches. Line items may still set a
+-- rate of their own. Customers with a tax ID are exempt, and shops can enter
+-- prices with tax included.
+-- ============================================================================
+
+ALTER TABLE merchant_settings
+  ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS tax_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  -- ISO 3166 country code
+  country TEXT NOT NULL CHECK (country ~ '^[A-Z]{2}$'),
+  -- State or province as written on addresses; empty for the whole country
+  region TEXT NOT NULL DEFAULT '',
+  rate DECIMAL(6, 3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (shop_id, country, region)
+);
+
+CREATE TRIGGER update_tax_rules_updated_at BEFORE UPDATE ON tax_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tax_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tax_rules_member_read ON tax_rules FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY tax_rules_admin_insert ON tax_rules FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+CREATE POLICY tax_rules_admin_update ON tax_rules FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+CREATE POLICY tax_rules_admin_delete ON tax_rules FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin']));
+
+-- How a quote was taxed when it was priced, so later changes to the rules,
+-- the settings or the customer do not move its numbers
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS tax_exempt BOOLEAN NOT NULL DEFAULT false;
+
+-- A line item without a rate takes the quote's. Totals used to apply only
+-- the quote rate, so existing line rates were never charged; clearing them
+-- keeps every saved total as it was.
+ALTER TABLE quote_line_items
+  ALTER COLUMN tax_rate DROP NOT NULL,
+  ALTER COLUMN tax_rate DROP DEFAULT;
+
+UPDATE quote_line_items SET tax_rate = NULL;
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- Customer Statistics
+-- Quote counts, revenue and dates per customer, aggregated in the database
+-- instead of by loading every quote into the API. Amounts are in the shop's
+-- base currency: sent quotes convert at the rate stamped when they were sent,
+-- others at today's rate, and quotes in a currency without a rate are left
+-- out of the sums (as lib/exchangeRates does). Runs as the caller, so RLS
+-- decides which customers and quotes count.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION customer_stats(p_customer_ids UUID[])
+RETURNS TABLE (
+  customer_id UUID,
+  currency TEXT,
+  total_quotes INTEGER,
+  accepted_quotes INTEGER,
+  declined_quotes INTEGER,
+  pending_quotes INTEGER,
+  total_revenue NUMERIC,
+  avg_quote_value NUMERIC,
+  first_quote_at TIMESTAMPTZ,
+  last_quote_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH customer_base AS (
+    SELECT c.id, c.shop_id, COALESCE(ms.base_currency, 'USD') AS base_currency
+    FROM customers c
+    LEFT JOIN merchant_settings ms ON ms.shop_id = c.shop_id
+    WHERE c.id = ANY(p_customer_ids)
+  ),
+  customer_quotes AS (
+    SELECT
+      cb.id AS customer_id,
+      q.status,
+      q.created_at,
+      ROUND(q.total / CASE
+        WHEN q.exchange_rate IS NOT NULL AND q.base_currency = cb.base_currency THEN q.exchange_rate
+        WHEN COALESCE(q.currency, 'USD') = cb.base_currency THEN 1
+        ELSE er.rate
+      END, 2) AS base_total
+    FROM customer_base cb
+    JOIN quotes q ON q.customer_id = cb.id
+    LEFT JOIN exchange_rates er ON er.shop_id = cb.shop_id AND er.currency = q.currency
+  )
+  SELECT
+    cb.id,
+    cb.base_currency,
+    COUNT(cq.status)::INTEGER,
+    (COUNT(cq.status) FILTER (WHERE cq.status = 'accepted'))::INTEGER,
+    (COUNT(cq.status) FILTER (WHERE cq.status = 'rejected'))::INTEGER,
+    (COUNT(cq.status) FILTER (
+      WHERE cq.status IN ('draft', 'pending', 'pending_approval', 'sent', 'viewed')
+    ))::INTEGER,
+    COALESCE(SUM(cq.base_total) FILTER (WHERE cq.status = 'accepted'), 0),
+    COALESCE(ROUND(COALESCE(SUM(cq.base_total), 0) / NULLIF(COUNT(cq.status), 0), 2), 0),
+    MIN(cq.created_at),
+    MAX(cq.created_at)
+  FROM customer_base cb
+  LEFT JOIN customer_quotes cq ON cq.customer_id = cb.id
+  GROUP BY cb.id, cb.base_currency;
+$$;
+
+REVOKE ALL ON FUNCTION customer_stats(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION customer_stats(UUID[]) TO authenticated, service_role;
+
+-- The activity feed on a customer's page reads newest first
+CREATE INDEX IF NOT EXISTS idx_activities_customer_id_created_at
+  ON activities(customer_id, created_at DESC) WHERE customer_id IS NOT NULL;
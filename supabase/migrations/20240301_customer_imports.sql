@@ -0,0 +1,78 @@
+-- ============================================================================
+-- Customer Imports
+-- A CSV or XLSX file of customers is uploaded once and kept with its column
+-- mapping and duplicate choices. Rows are then imported in batches from
+-- next_row on the server, so an import that is interrupted (a timeout, a deploy)
+-- carries on from where it stopped. Row errors are kept for the error report.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS customer_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  -- draft while the mapping is chosen, processing once rows are imported
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'processing', 'completed')),
+  headers JSONB NOT NULL DEFAULT '[]',
+  -- Data rows as arrays of cell text, header row excluded
+  rows JSONB NOT NULL DEFAULT '[]',
+  mapping JSONB NOT NULL DEFAULT '{}',
+  duplicate_action TEXT NOT NULL DEFAULT 'skip'
+    CHECK (duplicate_action IN ('skip', 'merge', 'overwrite')),
+  row_actions JSONB NOT NULL DEFAULT '{}',
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  next_row INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]',
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_imports_shop_id_created_at
+  ON customer_imports(shop_id, created_at DESC);
+
+CREATE TRIGGER update_customer_imports_updated_at BEFORE UPDATE ON customer_imports
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE customer_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY customer_imports_member_read ON customer_imports FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+CREATE POLICY customer_imports_member_insert ON customer_imports FOR INSERT TO authenticated
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY customer_imports_member_update ON customer_imports FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']))
+  WITH CHECK (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+CREATE POLICY customer_imports_member_delete ON customer_imports FOR DELETE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']));
+
+-- ============================================================================
+-- Duplicate Lookup
+-- Existing customers with any of the given emails or company names. Callers
+-- pass both lower-cased, and company names with their whitespace collapsed,
+-- which is how they are compared here. Runs as the caller, so RLS keeps the
+-- match to their shop.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION find_matching_customers(p_emails TEXT[], p_company_names TEXT[])
+RETURNS SETOF customers
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT *
+  FROM customers
+  WHERE lower(email) = ANY(p_emails)
+    OR lower(regexp_replace(btrim(company_name), '\s+', ' ', 'g')) = ANY(p_company_names);
+$$;
+
+REVOKE ALL ON FUNCTION find_matching_customers(TEXT[], TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION find_matching_customers(TEXT[], TEXT[]) TO authenticated, service_role;
+
+CREATE INDEX IF NOT EXISTS idx_customers_lower_email
+  ON customers(shop_id, lower(email));
@@ -0,0 +1,25 @@
+-- ============================================================================
+-- Shopify Customer Sync
+-- Customers are linked to the shop's Shopify customers, or to a B2B company
+-- location and its main contact, by Shopify GID. Linked customers are kept in
+-- step by a full sync and the customers/* webhooks, and quotes for them are
+-- converted to orders placed for that customer or company. Shopify can mark
+-- a customer tax exempt without a tax ID, so exemption gets its own flag.
+-- ============================================================================
+
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS shopify_customer_id TEXT,
+  ADD COLUMN IF NOT EXISTS shopify_company_id TEXT,
+  ADD COLUMN IF NOT EXISTS shopify_company_location_id TEXT,
+  ADD COLUMN IF NOT EXISTS shopify_company_contact_id TEXT,
+  ADD COLUMN IF NOT EXISTS tax_exempt BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS shopify_synced_at TIMESTAMPTZ;
+
+-- A Shopify customer, and a company location, is linked to at most one customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_shopify_customer_id
+  ON customers(shop_id, shopify_customer_id)
+  WHERE shopify_customer_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_shopify_company_location_id
+  ON customers(shop_id, shopify_company_location_id)
+  WHERE shopify_company_location_id IS NOT NULL;
@@ -0,0 +1,293 @@
+-- ============================================================================
+-- Customer Merges
+-- Duplicate customers are merged into one survivor: their quotes and
+-- activities (notes included) move to the survivor, the duplicates are
+-- deleted and the survivor takes the field values the merchant picked. Each
+-- merge keeps snapshots of the rows it changed so it can be undone until
+-- undo_until.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS customer_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id TEXT NOT NULL,
+  survivor_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  -- The survivor row before the merge, and the deleted duplicate rows
+  survivor_before JSONB NOT NULL,
+  merged_customers JSONB NOT NULL,
+  -- Quote and activity IDs moved off each duplicate: {"<id>": {"quotes": [], "activities": []}}
+  moved_rows JSONB NOT NULL DEFAULT '{}',
+  merged_by TEXT,
+  merged_by_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  undo_until TIMESTAMPTZ NOT NULL,
+  undone_at TIMESTAMPTZ,
+  undone_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_merges_survivor_id_created_at
+  ON customer_merges(survivor_id, created_at DESC);
+
+ALTER TABLE customer_merges ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the merge functions below
+CREATE POLICY customer_merges_member_read ON customer_merges FOR SELECT TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']));
+
+-- ============================================================================
+-- Duplicate Candidates
+-- Customers in the same shop sharing an email domain (other than the
+-- p_common_domains everyone uses), the last seven digits of a phone number,
+-- the first word of the company name or a billing street and ZIP code. This
+-- only narrows the shop down; lib/customerMerge scores the candidates. Runs
+-- as the caller, so RLS keeps the lookup to their shop.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION find_duplicate_customers(p_customer_id UUID, p_common_domains TEXT[])
+RETURNS SETOF customers
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT
+      shop_id,
+      split_part(lower(email), '@', 2) AS email_domain,
+      right(regexp_replace(COALESCE(phone, ''), '\D', '', 'g'), 7) AS phone_tail,
+      split_part(lower(btrim(company_name)), ' ', 1) AS company_word,
+      lower(btrim(billing_address ->> 'street')) AS street,
+      lower(btrim(billing_address ->> 'zipCode')) AS zip_code
+    FROM customers
+    WHERE id = p_customer_id
+  )
+  SELECT c.*
+  FROM customers c, target t
+  WHERE c.shop_id = t.shop_id
+    AND c.id <> p_customer_id
+    AND (
+      (split_part(lower(c.email), '@', 2) = t.email_domain AND NOT t.email_domain = ANY(p_common_domains))
+      OR (length(t.phone_tail) = 7 AND right(regexp_replace(COALESCE(c.phone, ''), '\D', '', 'g'), 7) = t.phone_tail)
+      OR (t.company_word <> '' AND split_part(lower(btrim(c.company_name)), ' ', 1) = t.company_word)
+      OR (lower(btrim(c.billing_address ->> 'street')) = t.street
+        AND lower(btrim(c.billing_address ->> 'zipCode')) = t.zip_code)
+    )
+  ORDER BY c.created_at
+  LIMIT 200;
+$$;
+
+REVOKE ALL ON FUNCTION find_duplicate_customers(UUID, TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION find_duplicate_customers(UUID, TEXT[]) TO authenticated, service_role;
+
+-- ============================================================================
+-- Merge
+-- One transaction: snapshot, move quotes and activities, delete the
+-- duplicates (freeing their email and Shopify links), then update the
+-- survivor from p_values, a customers row as JSON holding the columns to
+-- change. Activities are append-only to members, so this runs as the definer
+-- and checks the caller is an owner or admin of the shop itself, as for
+-- customer deletes.
+--
+-- Errors use PostgREST's PTxxx codes, which become the HTTP status:
+--   PT404  the survivor or a duplicate does not exist in the caller's shop
+--   PT403  the caller may not delete customers in the shop
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION merge_customers(
+  p_survivor_id UUID,
+  p_duplicate_ids UUID[],
+  p_values JSONB,
+  p_undo_window INTERVAL,
+  p_merged_by TEXT,
+  p_merged_by_name TEXT
+)
+RETURNS customer_merges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  survivor customers;
+  updated_survivor customers;
+  duplicates JSONB;
+  moved JSONB;
+  merge_record customer_merges;
+BEGIN
+  SELECT * INTO survivor FROM customers WHERE id = p_survivor_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_shop_role(survivor.shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']) THEN
+    RAISE EXCEPTION 'Customer % not found', p_survivor_id
+      USING ERRCODE = 'PT404';
+  END IF;
+  IF NOT public.has_shop_role(survivor.shop_id, ARRAY['owner', 'admin']) THEN
+    RAISE EXCEPTION 'Only owners and admins can merge customers'
+      USING ERRCODE = 'PT403';
+  END IF;
+
+  SELECT jsonb_agg(to_jsonb(c)), jsonb_object_agg(c.id::TEXT, jsonb_build_object(
+    'quotes', COALESCE((SELECT jsonb_agg(q.id) FROM quotes q WHERE q.customer_id = c.id), '[]'::JSONB),
+    'activities', COALESCE((SELECT jsonb_agg(a.id) FROM activities a WHERE a.customer_id = c.id::TEXT), '[]'::JSONB)
+  ))
+  INTO duplicates, moved
+  FROM customers c
+  WHERE c.id = ANY(p_duplicate_ids)
+    AND c.id <> p_survivor_id
+    AND c.shop_id = survivor.shop_id;
+
+  IF COALESCE(jsonb_array_length(duplicates), 0) <> cardinality(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Duplicate customers not found'
+      USING ERRCODE = 'PT404';
+  END IF;
+
+  UPDATE quotes SET customer_id = p_survivor_id
+  WHERE customer_id = ANY(p_duplicate_ids);
+
+  UPDATE activities SET customer_id = p_survivor_id::TEXT
+  WHERE customer_id = ANY(p_duplicate_ids::TEXT[]);
+
+  DELETE FROM customers WHERE id = ANY(p_duplicate_ids);
+
+  UPDATE customers c SET
+    email = v.email,
+    company_name = v.company_name,
+    contact_name = v.contact_name,
+    phone = v.phone,
+    billing_address = v.billing_address,
+    shipping_address = v.shipping_address,
+    tax_id = v.tax_id,
+    tax_exempt = v.tax_exempt,
+    tags = v.tags,
+    notes = v.notes,
+    logo_url = v.logo_url,
+    customer_since = v.customer_since,
+    shopify_customer_id = v.shopify_customer_id,
+    shopify_company_id = v.shopify_company_id,
+    shopify_company_location_id = v.shopify_company_location_id,
+    shopify_company_contact_id = v.shopify_company_contact_id
+  FROM jsonb_populate_record(survivor, COALESCE(p_values, '{}'::JSONB)) v
+  WHERE c.id = p_survivor_id
+  RETURNING c.* INTO updated_survivor;
+
+  INSERT INTO customer_merges (
+    shop_id, survivor_id, survivor_before, merged_customers, moved_rows, merged_by, merged_by_name, undo_until
+  ) VALUES (
+    survivor.shop_id, p_survivor_id, to_jsonb(survivor), duplicates, moved, p_merged_by, p_merged_by_name,
+    NOW() + p_undo_window
+  )
+  RETURNING * INTO merge_record;
+
+  INSERT INTO activities (type, customer_id, customer_name, user_id, user_name, description, metadata)
+  VALUES (
+    'customer_merged', p_survivor_id::TEXT, updated_survivor.company_name, p_merged_by, p_merged_by_name,
+    CASE WHEN cardinality(p_duplicate_ids) = 1
+      THEN 'Merged ' || (duplicates -> 0 ->> 'company_name') || ' into this customer'
+      ELSE 'Merged ' || cardinality(p_duplicate_ids) || ' customers into this customer'
+    END,
+    jsonb_build_object('mergeId', merge_record.id, 'mergedCustomerIds', to_jsonb(p_duplicate_ids))
+  );
+
+  RETURN merge_record;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION merge_customers(UUID, UUID[], JSONB, INTERVAL, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_customers(UUID, UUID[], JSONB, INTERVAL, TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- Undo
+-- Puts the survivor back as it was before the merge (edits made to it since
+-- are lost), re-creates the duplicates and moves their quotes and activities
+-- back. Activities logged against the survivor after the merge stay there.
+--
+--   PT404  the merge does not exist in the caller's shop
+--   PT403  the caller may not delete customers in the shop
+--   PT409  the merge was already undone
+--   PT410  the undo window has passed
+-- A duplicate's email or Shopify link taken by a customer created since
+-- fails the re-insert with a unique violation (23505).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION undo_customer_merge(
+  p_merge_id UUID,
+  p_undone_by TEXT,
+  p_undone_by_name TEXT
+)
+RETURNS customers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  merge_record customer_merges;
+  restored customers;
+  duplicate_id TEXT;
+  moved JSONB;
+BEGIN
+  SELECT * INTO merge_record FROM customer_merges WHERE id = p_merge_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_shop_role(merge_record.shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']) THEN
+    RAISE EXCEPTION 'Customer merge % not found', p_merge_id
+      USING ERRCODE = 'PT404';
+  END IF;
+  IF NOT public.has_shop_role(merge_record.shop_id, ARRAY['owner', 'admin']) THEN
+    RAISE EXCEPTION 'Only owners and admins can undo customer merges'
+      USING ERRCODE = 'PT403';
+  END IF;
+  IF merge_record.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Customer merge % was already undone', p_merge_id
+      USING ERRCODE = 'PT409';
+  END IF;
+  IF merge_record.undo_until < NOW() THEN
+    RAISE EXCEPTION 'Customer merge % can no longer be undone', p_merge_id
+      USING ERRCODE = 'PT410';
+  END IF;
+
+  -- The survivor first, so the duplicates' emails and Shopify links are free
+  UPDATE customers c SET
+    email = v.email,
+    company_name = v.company_name,
+    contact_name = v.contact_name,
+    phone = v.phone,
+    billing_address = v.billing_address,
+    shipping_address = v.shipping_address,
+    tax_id = v.tax_id,
+    tax_exempt = v.tax_exempt,
+    tags = v.tags,
+    notes = v.notes,
+    logo_url = v.logo_url,
+    customer_since = v.customer_since,
+    shopify_customer_id = v.shopify_customer_id,
+    shopify_company_id = v.shopify_company_id,
+    shopify_company_location_id = v.shopify_company_location_id,
+    shopify_company_contact_id = v.shopify_company_contact_id
+  FROM jsonb_populate_record(NULL::customers, merge_record.survivor_before) v
+  WHERE c.id = merge_record.survivor_id
+  RETURNING c.* INTO restored;
+
+  INSERT INTO customers
+  SELECT * FROM jsonb_populate_recordset(NULL::customers, merge_record.merged_customers);
+
+  FOR duplicate_id, moved IN SELECT * FROM jsonb_each(merge_record.moved_rows) LOOP
+    UPDATE quotes SET customer_id = duplicate_id::UUID
+    WHERE customer_id = merge_record.survivor_id
+      AND id IN (SELECT value::UUID FROM jsonb_array_elements_text(moved -> 'quotes'));
+
+    UPDATE activities SET customer_id = duplicate_id
+    WHERE customer_id = merge_record.survivor_id::TEXT
+      AND id IN (SELECT value::UUID FROM jsonb_array_elements_text(moved -> 'activities'));
+  END LOOP;
+
+  UPDATE customer_merges SET undone_at = NOW(), undone_by = p_undone_by
+  WHERE id = p_merge_id;
+
+  INSERT INTO activities (type, customer_id, customer_name, user_id, user_name, description, metadata)
+  VALUES (
+    'customer_merge_undone', merge_record.survivor_id::TEXT, restored.company_name, p_undone_by, p_undone_by_name,
+    'Undid a merge of ' || jsonb_array_length(merge_record.merged_customers) || ' customers into this customer',
+    jsonb_build_object('mergeId', p_merge_id)
+  );
+
+  RETURN restored;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION undo_customer_merge(UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION undo_customer_merge(UUID, TEXT, TEXT) TO authenticated;
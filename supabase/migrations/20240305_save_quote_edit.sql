@@ -0,0 +1,132 @@
+-- ============================================================================
+-- Atomic Quote Edits
+-- One function saves an edited quote: its content, and its line items when
+-- they were replaced. Saving a sent or viewed quote as its next revision also
+-- freezes the current version in quote_revisions, bumps the revision and
+-- moves the quote through transition_quote_status, so the snapshot, the new
+-- version and its status history land together or not at all. Callers run it
+-- through RPC with their own client, so RLS decides which quotes they can edit.
+--
+-- Errors use PostgREST's PTxxx codes, which become the HTTP status:
+--   PT404  the quote does not exist (or is not visible to the caller)
+--   PT409  the quote was revised, or changed status, since the caller read it
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION save_quote_edit(
+  p_quote_id UUID,
+  -- Quote columns to change; columns left out keep their value
+  p_changes JSONB,
+  -- quote_line_items rows replacing the current ones, or NULL to keep them
+  p_line_items JSONB DEFAULT NULL,
+  -- quote_revisions row for the version being superseded, or NULL for an
+  -- edit in place; the transition arguments below only apply with it
+  p_snapshot JSONB DEFAULT NULL,
+  p_from_status TEXT DEFAULT NULL,
+  p_to_status TEXT DEFAULT NULL,
+  p_history_id TEXT DEFAULT NULL,
+  p_changed_by TEXT DEFAULT NULL,
+  p_changed_by_name TEXT DEFAULT NULL,
+  p_activity_type TEXT DEFAULT NULL,
+  p_activity_description TEXT DEFAULT NULL,
+  p_comment TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::JSONB
+)
+RETURNS quotes
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  current_quote quotes;
+  edited quotes;
+  saved_quote quotes;
+BEGIN
+  SELECT * INTO current_quote FROM quotes WHERE id = p_quote_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote % not found', p_quote_id
+      USING ERRCODE = 'PT404';
+  END IF;
+
+  edited := jsonb_populate_record(current_quote, p_changes);
+
+  IF p_snapshot IS NOT NULL THEN
+    IF current_quote.revision <> (p_snapshot ->> 'revision')::INTEGER THEN
+      RAISE EXCEPTION 'Quote % is no longer revision %', p_quote_id, p_snapshot ->> 'revision'
+        USING ERRCODE = 'PT409';
+    END IF;
+
+    -- A version is never edited once sent, so a snapshot already stored for
+    -- it is identical. shop_id is stamped from the quote by its trigger.
+    INSERT INTO quote_revisions (
+      quote_id, revision, title, status, line_items, terms, currency, subtotal, discount_total, tax_rate,
+      tax_total, shipping_total, total, expires_at, sent_at, superseded_by, superseded_by_name
+    )
+    SELECT
+      p_quote_id, s.revision, s.title, s.status, s.line_items, s.terms, s.currency, s.subtotal, s.discount_total,
+      s.tax_rate, s.tax_total, s.shipping_total, s.total, s.expires_at, s.sent_at, s.superseded_by,
+      s.superseded_by_name
+    FROM jsonb_populate_record(NULL::quote_revisions, p_snapshot) AS s
+    ON CONFLICT (quote_id, revision) DO NOTHING;
+  END IF;
+
+  UPDATE quotes SET
+    title = edited.title,
+    priority = edited.priority,
+    customer_id = edited.customer_id,
+    customer_email = edited.customer_email,
+    customer_name = edited.customer_name,
+    customer_phone = edited.customer_phone,
+    subtotal = edited.subtotal,
+    discount_total = edited.discount_total,
+    tax_rate = edited.tax_rate,
+    tax_exempt = edited.tax_exempt,
+    tax_total = edited.tax_total,
+    shipping_total = edited.shipping_total,
+    total = edited.total,
+    terms = edited.terms,
+    currency = edited.currency,
+    metadata = edited.metadata,
+    expires_at = edited.expires_at,
+    price_drift_detected_at = edited.price_drift_detected_at,
+    -- The new version replaces the one on the customer link
+    revision = CASE WHEN p_snapshot IS NULL THEN revision ELSE revision + 1 END,
+    viewed_at = CASE WHEN p_snapshot IS NULL THEN viewed_at ELSE NULL END,
+    updated_at = NOW()
+  WHERE id = p_quote_id
+  RETURNING * INTO saved_quote;
+
+  IF p_line_items IS NOT NULL THEN
+    DELETE FROM quote_line_items WHERE quote_id = p_quote_id;
+
+    -- shop_id is stamped from the quote by its trigger
+    INSERT INTO quote_line_items (
+      quote_id, position, product_id, variant_id, title, variant_title, sku, quantity, unit_price,
+      original_price, unit_cost, discount_amount, discount_percentage, tax_rate, tax_amount, subtotal, total,
+      image_url, notes, custom_fields
+    )
+    SELECT
+      p_quote_id, li.position, li.product_id, li.variant_id, li.title, li.variant_title, li.sku, li.quantity,
+      li.unit_price, li.original_price, li.unit_cost, li.discount_amount, li.discount_percentage, li.tax_rate,
+      li.tax_amount, li.subtotal, li.total, li.image_url, li.notes, li.custom_fields
+    FROM jsonb_populate_recordset(NULL::quote_line_items, p_line_items) AS li;
+  END IF;
+
+  -- A revision goes out like a send (or waits for approval); history is
+  -- stamped with the new revision
+  IF p_snapshot IS NOT NULL THEN
+    saved_quote := transition_quote_status(
+      p_quote_id, p_from_status, p_to_status, p_history_id, p_changed_by, p_changed_by_name,
+      p_activity_type, p_activity_description, p_comment, p_metadata
+    );
+  END IF;
+
+  RETURN saved_quote;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_quote_edit(
+  UUID, JSONB, JSONB, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB
+) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_quote_edit(
+  UUID, JSONB, JSONB, JSONB, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB
+) TO authenticated, service_role;
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Webhook Delivery Leases
+-- A delivery stays processing while a request works on it. When that request
+-- crashes or times out the row is left processing; updated_at lets a later
+-- delivery of the same webhook take it over once the lease has run out.
+-- ============================================================================
+
+ALTER TABLE webhook_deliveries
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at BEFORE UPDATE ON webhook_deliveries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,141 @@
+-- ============================================================================
+-- Quote Status Approvers
+-- A quote held in pending_approval only goes out once an owner or admin
+-- approves it, but the database did not know that: transition_quote_status
+-- ran as the caller, and quotes_member_update let sales write the status
+-- column directly. Now:
+--   * sales can no longer change a quote's status with a plain UPDATE; their
+--     status changes go through transition_quote_status
+--   * transition_quote_status runs as its owner and checks the caller itself:
+--     the quote must be in one of their shops, and only owners and admins
+--     move it out of pending_approval. Withdrawing the request back to draft
+--     stays open to sales, as in the app's workflow.
+-- Calls with the service role (webhooks, the buyer's quote page, the expiry
+-- job) are not members of any shop and are not checked.
+--
+-- Errors use PostgREST's PTxxx codes, which become the HTTP status:
+--   PT403  the caller's role may not make this transition
+--   PT404  the quote does not exist (or is not in the caller's shops)
+--   PT409  the quote is no longer in p_from_status
+-- ============================================================================
+
+DROP POLICY IF EXISTS quotes_member_update ON quotes;
+
+-- The subquery reads the row as it was before the update
+CREATE POLICY quotes_member_update ON quotes FOR UPDATE TO authenticated
+  USING (public.has_shop_role(shop_id, ARRAY['owner', 'admin', 'sales']))
+  WITH CHECK (
+    public.has_shop_role(shop_id, ARRAY['owner', 'admin'])
+    OR (
+      public.has_shop_role(shop_id, ARRAY['sales'])
+      AND status = (SELECT q.status FROM quotes q WHERE q.id = quotes.id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION transition_quote_status(
+  p_quote_id UUID,
+  p_from_status TEXT,
+  p_to_status TEXT,
+  p_history_id TEXT,
+  p_changed_by TEXT,
+  p_changed_by_name TEXT,
+  p_activity_type TEXT,
+  p_activity_description TEXT,
+  p_comment TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::JSONB,
+  -- Other quote columns to set with the status; columns left out keep their value
+  p_changes JSONB DEFAULT '{}'::JSONB
+)
+RETURNS quotes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transitioned_at TIMESTAMPTZ := NOW();
+  changes JSONB := COALESCE(p_changes, '{}'::JSONB);
+  current_quote quotes;
+  updated_quote quotes;
+BEGIN
+  SELECT * INTO current_quote FROM quotes WHERE id = p_quote_id FOR UPDATE;
+
+  IF auth.jwt() ->> 'role' = 'authenticated' THEN
+    IF NOT FOUND OR NOT public.has_shop_role(current_quote.shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']) THEN
+      RAISE EXCEPTION 'Quote % not found', p_quote_id
+        USING ERRCODE = 'PT404';
+    END IF;
+    IF NOT public.has_shop_role(current_quote.shop_id, ARRAY['owner', 'admin', 'sales']) THEN
+      RAISE EXCEPTION 'Viewers cannot change quote status'
+        USING ERRCODE = 'PT403';
+    END IF;
+    IF current_quote.status = 'pending_approval' AND p_to_status <> 'draft'
+      AND NOT public.has_shop_role(current_quote.shop_id, ARRAY['owner', 'admin']) THEN
+      RAISE EXCEPTION 'Only owners and admins can decide on quotes pending approval'
+        USING ERRCODE = 'PT403';
+    END IF;
+  ELSIF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote % not found', p_quote_id
+      USING ERRCODE = 'PT404';
+  END IF;
+
+  IF current_quote.status IS DISTINCT FROM p_from_status THEN
+    RAISE EXCEPTION 'Quote % is no longer %', p_quote_id, p_from_status
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE quotes SET
+    status = p_to_status,
+    updated_at = transitioned_at,
+    sent_at = CASE WHEN p_to_status = 'sent' THEN transitioned_at ELSE sent_at END,
+    viewed_at = CASE WHEN p_to_status = 'viewed' THEN transitioned_at ELSE viewed_at END,
+    accepted_at = CASE WHEN p_to_status = 'accepted' THEN transitioned_at ELSE accepted_at END,
+    rejected_at = CASE WHEN p_to_status = 'rejected' THEN transitioned_at ELSE rejected_at END,
+    converted_at = CASE WHEN p_to_status = 'converted' THEN transitioned_at ELSE converted_at END,
+    rejection_reason = CASE
+      WHEN p_to_status = 'rejected' AND p_comment IS NOT NULL THEN p_comment
+      ELSE rejection_reason
+    END,
+    metadata = CASE WHEN changes ? 'metadata' THEN changes -> 'metadata' ELSE metadata END,
+    shopify_draft_order_id = CASE
+      WHEN changes ? 'shopify_draft_order_id' THEN changes ->> 'shopify_draft_order_id'
+      ELSE shopify_draft_order_id
+    END,
+    shopify_draft_order_name = CASE
+      WHEN changes ? 'shopify_draft_order_name' THEN changes ->> 'shopify_draft_order_name'
+      ELSE shopify_draft_order_name
+    END,
+    shopify_invoice_url = CASE
+      WHEN changes ? 'shopify_invoice_url' THEN changes ->> 'shopify_invoice_url'
+      ELSE shopify_invoice_url
+    END,
+    shopify_order_id = CASE
+      WHEN changes ? 'shopify_order_id' THEN changes ->> 'shopify_order_id'
+      ELSE shopify_order_id
+    END
+  WHERE id = p_quote_id
+  RETURNING * INTO updated_quote;
+
+  -- shop_id and revision are stamped from the quote by their triggers
+  INSERT INTO quote_status_history (
+    id, quote_id, from_status, to_status, changed_by, changed_by_name, changed_at, comment, metadata
+  ) VALUES (
+    p_history_id, p_quote_id, p_from_status, p_to_status, p_changed_by, p_changed_by_name, transitioned_at,
+    p_comment, COALESCE(p_metadata, '{}'::JSONB)
+  );
+
+  INSERT INTO activities (
+    type, quote_id, quote_number, customer_id, customer_name, user_id, user_name, description, metadata, created_at
+  ) VALUES (
+    p_activity_type, p_quote_id, updated_quote.quote_number, updated_quote.customer_id,
+    updated_quote.customer_name, p_changed_by, p_changed_by_name, p_activity_description,
+    COALESCE(p_metadata, '{}'::JSONB), transitioned_at
+  );
+
+  RETURN updated_quote;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_quote_status(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, JSONB)
+  FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION transition_quote_status(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, JSONB)
+  TO authenticated, service_role;
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- Customer Statistics Averages
+-- avg_quote_value divided the sum of the quotes with a rate by the count of
+-- all of them, drafts included, and pending_quotes counted drafts as waiting
+-- on the buyer. Now:
+--   * avg_quote_value averages the quotes that left draft and convert to the
+--     base currency; the same quotes make up its sum and its count
+--   * pending_quotes counts the quotes waiting on an approver or the buyer
+-- total_quotes still counts every quote, drafts and quotes without a rate
+-- included.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION customer_stats(p_customer_ids UUID[])
+RETURNS TABLE (
+  customer_id UUID,
+  currency TEXT,
+  total_quotes INTEGER,
+  accepted_quotes INTEGER,
+  declined_quotes INTEGER,
+  pending_quotes INTEGER,
+  total_revenue NUMERIC,
+  avg_quote_value NUMERIC,
+  first_quote_at TIMESTAMPTZ,
+  last_quote_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH customer_base AS (
+    SELECT c.id, c.shop_id, COALESCE(ms.base_currency, 'USD') AS base_currency
+    FROM customers c
+    LEFT JOIN merchant_settings ms ON ms.shop_id = c.shop_id
+    WHERE c.id = ANY(p_customer_ids)
+  ),
+  customer_quotes AS (
+    SELECT
+      cb.id AS customer_id,
+      q.status,
+      q.created_at,
+      ROUND(q.total / CASE
+        WHEN q.exchange_rate IS NOT NULL AND q.base_currency = cb.base_currency THEN q.exchange_rate
+        WHEN COALESCE(q.currency, 'USD') = cb.base_currency THEN 1
+        ELSE er.rate
+      END, 2) AS base_total
+    FROM customer_base cb
+    JOIN quotes q ON q.customer_id = cb.id
+    LEFT JOIN exchange_rates er ON er.shop_id = cb.shop_id AND er.currency = q.currency
+  )
+  SELECT
+    cb.id,
+    cb.base_currency,
+    COUNT(cq.status)::INTEGER,
+    (COUNT(cq.status) FILTER (WHERE cq.status = 'accepted'))::INTEGER,
+    (COUNT(cq.status) FILTER (WHERE cq.status = 'rejected'))::INTEGER,
+    (COUNT(cq.status) FILTER (
+      WHERE cq.status IN ('pending', 'pending_approval', 'sent', 'viewed')
+    ))::INTEGER,
+    COALESCE(SUM(cq.base_total) FILTER (WHERE cq.status = 'accepted'), 0),
+    COALESCE(ROUND(
+      AVG(cq.base_total) FILTER (WHERE cq.status <> 'draft' AND cq.base_total IS NOT NULL), 2
+    ), 0),
+    MIN(cq.created_at),
+    MAX(cq.created_at)
+  FROM customer_base cb
+  LEFT JOIN customer_quotes cq ON cq.customer_id = cb.id
+  GROUP BY cb.id, cb.base_currency;
+$$;
+
+REVOKE ALL ON FUNCTION customer_stats(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION customer_stats(UUID[]) TO authenticated, service_role;
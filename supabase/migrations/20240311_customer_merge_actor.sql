@@ -0,0 +1,216 @@
+-- ============================================================================
+-- Customer Merge Actor
+-- merge_customers and undo_customer_merge run as the definer but took who
+-- made the change, and how long a merge stays undoable, from the caller.
+-- Both now record the signed-in member (auth.uid(), named as in the shop's
+-- member list) and a merge can be undone for seven days
+-- (MERGE_UNDO_WINDOW_DAYS in lib/customerMerge).
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS merge_customers(UUID, UUID[], JSONB, INTERVAL, TEXT, TEXT);
+DROP FUNCTION IF EXISTS undo_customer_merge(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION merge_customers(
+  p_survivor_id UUID,
+  p_duplicate_ids UUID[],
+  p_values JSONB
+)
+RETURNS customer_merges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  survivor customers;
+  updated_survivor customers;
+  duplicates JSONB;
+  moved JSONB;
+  merge_record customer_merges;
+  actor_id TEXT := auth.uid()::TEXT;
+  actor_name TEXT;
+BEGIN
+  SELECT * INTO survivor FROM customers WHERE id = p_survivor_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_shop_role(survivor.shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']) THEN
+    RAISE EXCEPTION 'Customer % not found', p_survivor_id
+      USING ERRCODE = 'PT404';
+  END IF;
+  IF NOT public.has_shop_role(survivor.shop_id, ARRAY['owner', 'admin']) THEN
+    RAISE EXCEPTION 'Only owners and admins can merge customers'
+      USING ERRCODE = 'PT403';
+  END IF;
+
+  SELECT COALESCE(NULLIF(m.name, ''), m.email) INTO actor_name
+  FROM shop_members m
+  WHERE m.shop_id = survivor.shop_id AND m.user_id = auth.uid();
+
+  SELECT jsonb_agg(to_jsonb(c)), jsonb_object_agg(c.id::TEXT, jsonb_build_object(
+    'quotes', COALESCE((SELECT jsonb_agg(q.id) FROM quotes q WHERE q.customer_id = c.id), '[]'::JSONB),
+    'activities', COALESCE((SELECT jsonb_agg(a.id) FROM activities a WHERE a.customer_id = c.id::TEXT), '[]'::JSONB),
+    'contacts', COALESCE((SELECT jsonb_agg(cc.id) FROM customer_contacts cc WHERE cc.customer_id = c.id), '[]'::JSONB),
+    'primary_contact', (SELECT cc.id FROM customer_contacts cc WHERE cc.customer_id = c.id AND cc.is_primary)
+  ))
+  INTO duplicates, moved
+  FROM customers c
+  WHERE c.id = ANY(p_duplicate_ids)
+    AND c.id <> p_survivor_id
+    AND c.shop_id = survivor.shop_id;
+
+  IF COALESCE(jsonb_array_length(duplicates), 0) <> cardinality(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'Duplicate customers not found'
+      USING ERRCODE = 'PT404';
+  END IF;
+
+  UPDATE quotes SET customer_id = p_survivor_id
+  WHERE customer_id = ANY(p_duplicate_ids);
+
+  UPDATE activities SET customer_id = p_survivor_id::TEXT
+  WHERE customer_id = ANY(p_duplicate_ids::TEXT[]);
+
+  UPDATE customer_contacts SET customer_id = p_survivor_id, is_primary = false
+  WHERE customer_id = ANY(p_duplicate_ids);
+
+  DELETE FROM customers WHERE id = ANY(p_duplicate_ids);
+
+  UPDATE customers c SET
+    email = v.email,
+    company_name = v.company_name,
+    contact_name = v.contact_name,
+    phone = v.phone,
+    billing_address = v.billing_address,
+    shipping_address = v.shipping_address,
+    tax_id = v.tax_id,
+    tax_exempt = v.tax_exempt,
+    tags = v.tags,
+    notes = v.notes,
+    logo_url = v.logo_url,
+    customer_since = v.customer_since,
+    shopify_customer_id = v.shopify_customer_id,
+    shopify_company_id = v.shopify_company_id,
+    shopify_company_location_id = v.shopify_company_location_id,
+    shopify_company_contact_id = v.shopify_company_contact_id
+  FROM jsonb_populate_record(survivor, COALESCE(p_values, '{}'::JSONB)) v
+  WHERE c.id = p_survivor_id
+  RETURNING c.* INTO updated_survivor;
+
+  INSERT INTO customer_merges (
+    shop_id, survivor_id, survivor_before, merged_customers, moved_rows, merged_by, merged_by_name, undo_until
+  ) VALUES (
+    survivor.shop_id, p_survivor_id, to_jsonb(survivor), duplicates, moved, actor_id, actor_name,
+    NOW() + INTERVAL '7 days'
+  )
+  RETURNING * INTO merge_record;
+
+  INSERT INTO activities (type, customer_id, customer_name, user_id, user_name, description, metadata)
+  VALUES (
+    'customer_merged', p_survivor_id::TEXT, updated_survivor.company_name, actor_id, actor_name,
+    CASE WHEN cardinality(p_duplicate_ids) = 1
+      THEN 'Merged ' || (duplicates -> 0 ->> 'company_name') || ' into this customer'
+      ELSE 'Merged ' || cardinality(p_duplicate_ids) || ' customers into this customer'
+    END,
+    jsonb_build_object('mergeId', merge_record.id, 'mergedCustomerIds', to_jsonb(p_duplicate_ids))
+  );
+
+  RETURN merge_record;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION undo_customer_merge(
+  p_merge_id UUID
+)
+RETURNS customers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  merge_record customer_merges;
+  restored customers;
+  duplicate_id TEXT;
+  moved JSONB;
+  actor_id TEXT := auth.uid()::TEXT;
+  actor_name TEXT;
+BEGIN
+  SELECT * INTO merge_record FROM customer_merges WHERE id = p_merge_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.has_shop_role(merge_record.shop_id, ARRAY['owner', 'admin', 'sales', 'viewer']) THEN
+    RAISE EXCEPTION 'Customer merge % not found', p_merge_id
+      USING ERRCODE = 'PT404';
+  END IF;
+  IF NOT public.has_shop_role(merge_record.shop_id, ARRAY['owner', 'admin']) THEN
+    RAISE EXCEPTION 'Only owners and admins can undo customer merges'
+      USING ERRCODE = 'PT403';
+  END IF;
+  IF merge_record.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Customer merge % was already undone', p_merge_id
+      USING ERRCODE = 'PT409';
+  END IF;
+  IF merge_record.undo_until < NOW() THEN
+    RAISE EXCEPTION 'Customer merge % can no longer be undone', p_merge_id
+      USING ERRCODE = 'PT410';
+  END IF;
+
+  SELECT COALESCE(NULLIF(m.name, ''), m.email) INTO actor_name
+  FROM shop_members m
+  WHERE m.shop_id = merge_record.shop_id AND m.user_id = auth.uid();
+
+  -- The survivor first, so the duplicates' emails and Shopify links are free
+  UPDATE customers c SET
+    email = v.email,
+    company_name = v.company_name,
+    contact_name = v.contact_name,
+    phone = v.phone,
+    billing_address = v.billing_address,
+    shipping_address = v.shipping_address,
+    tax_id = v.tax_id,
+    tax_exempt = v.tax_exempt,
+    tags = v.tags,
+    notes = v.notes,
+    logo_url = v.logo_url,
+    customer_since = v.customer_since,
+    shopify_customer_id = v.shopify_customer_id,
+    shopify_company_id = v.shopify_company_id,
+    shopify_company_location_id = v.shopify_company_location_id,
+    shopify_company_contact_id = v.shopify_company_contact_id
+  FROM jsonb_populate_record(NULL::customers, merge_record.survivor_before) v
+  WHERE c.id = merge_record.survivor_id
+  RETURNING c.* INTO restored;
+
+  INSERT INTO customers
+  SELECT * FROM jsonb_populate_recordset(NULL::customers, merge_record.merged_customers);
+
+  FOR duplicate_id, moved IN SELECT * FROM jsonb_each(merge_record.moved_rows) LOOP
+    UPDATE quotes SET customer_id = duplicate_id::UUID
+    WHERE customer_id = merge_record.survivor_id
+      AND id IN (SELECT value::UUID FROM jsonb_array_elements_text(moved -> 'quotes'));
+
+    UPDATE activities SET customer_id = duplicate_id
+    WHERE customer_id = merge_record.survivor_id::TEXT
+      AND id IN (SELECT value::UUID FROM jsonb_array_elements_text(moved -> 'activities'));
+
+    -- Merges made before contacts existed have no contacts to move back
+    UPDATE customer_contacts
+    SET customer_id = duplicate_id::UUID, is_primary = id::TEXT IS NOT DISTINCT FROM moved ->> 'primary_contact'
+    WHERE customer_id = merge_record.survivor_id
+      AND id IN (SELECT value::UUID FROM jsonb_array_elements_text(COALESCE(moved -> 'contacts', '[]'::JSONB)));
+  END LOOP;
+
+  UPDATE customer_merges SET undone_at = NOW(), undone_by = actor_id
+  WHERE id = p_merge_id;
+
+  INSERT INTO activities (type, customer_id, customer_name, user_id, user_name, description, metadata)
+  VALUES (
+    'customer_merge_undone', merge_record.survivor_id::TEXT, restored.company_name, actor_id, actor_name,
+    'Undid a merge of ' || jsonb_array_length(merge_record.merged_customers) || ' customers into this customer',
+    jsonb_build_object('mergeId', p_merge_id)
+  );
+
+  RETURN restored;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION merge_customers(UUID, UUID[], JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_customers(UUID, UUID[], JSONB) TO authenticated;
+
+REVOKE ALL ON FUNCTION undo_customer_merge(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION undo_customer_merge(UUID) TO authenticated;
@@ -55,15 +55,7 @@ CREATE TRIGGER update_shop_settings_updated_at BEFORE UPDATE ON shop_settings
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- RLS Policies (Row Level Security)
+-- Policies key on the signed-in member's shops; see
+-- migrations/20240221_tenant_isolation.sql
 ALTER TABLE quotes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE shop_settings ENABLE ROW LEVEL SECURITY;
-
--- Policy: Shops can only see their own quotes
-CREATE POLICY shop_quotes_policy ON quotes
-    FOR ALL
-    USING (shop_id = current_setting('app.current_shop_id', true));
-
--- Policy: Shops can only see their own settings
-CREATE POLICY shop_settings_policy ON shop_settings
-    FOR ALL
-    USING (shop_id = current_setting('app.current_shop_id', true));
\ No newline at end of file
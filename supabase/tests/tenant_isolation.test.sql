@@ -0,0 +1,948 @@
+-- ============================================================================
+-- Tenant Isolation Tests
+-- Two shops with their own members and rows; each member must only reach
+-- their own shop's rows, and only with the writes their role allows.
+-- Run through supabase/tests/run.sh (npm run test:db).
+-- ============================================================================
+
+\set ON_ERROR_STOP 1
+\pset tuples_only on
+\pset format unaligned
+
+-- ============================================================================
+-- Helpers
+-- ============================================================================
+
+CREATE SCHEMA tests;
+GRANT USAGE ON SCHEMA tests TO anon, authenticated;
+
+CREATE FUNCTION tests.expect(actual BIGINT, expected BIGINT, description TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  IF actual IS DISTINCT FROM expected THEN
+    RAISE EXCEPTION 'not ok - %: expected %, got %', description, expected, actual;
+  END IF;
+  RETURN 'ok - ' || description;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Writes RLS filters out touch no rows rather than failing
+CREATE FUNCTION tests.expect_rows(statement TEXT, expected BIGINT, description TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  affected BIGINT;
+BEGIN
+  EXECUTE statement;
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN tests.expect(affected, expected, description);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Inserts outside the member's shops, and updates that would move a row out
+-- of them, fail the policy check or find no parent quote to take a shop_id from
+CREATE FUNCTION tests.expect_denied(statement TEXT, description TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  EXECUTE statement;
+  RAISE EXCEPTION 'not ok - %: statement was allowed', description;
+EXCEPTION
+  WHEN insufficient_privilege OR not_null_violation THEN
+    RETURN 'ok - ' || description;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Sign in as a user: the claims Supabase Auth would issue, via the token hook
+CREATE FUNCTION tests.act_as(member_user_id UUID)
+RETURNS VOID AS $$
+  SELECT set_config(
+    'request.jwt.claims',
+    (public.custom_access_token_hook(jsonb_build_object(
+      'user_id', member_user_id,
+      'claims', jsonb_build_object('sub', member_user_id, 'role', 'authenticated')
+    )) -> 'claims')::TEXT,
+    true
+  );
+$$ LANGUAGE sql;
+
+-- ============================================================================
+-- Fixtures
+-- Shop A: alice (owner), sam (sales), vera (viewer). Shop B: bob (owner).
+-- olly has an account but no shop.
+-- ============================================================================
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'alice@shop-a.test'),
+  ('00000000-0000-0000-0000-0000000000a2', 'sam@shop-a.test'),
+  ('00000000-0000-0000-0000-0000000000a3', 'vera@shop-a.test'),
+  ('00000000-0000-0000-0000-0000000000b1', 'bob@shop-b.test'),
+  ('00000000-0000-0000-0000-0000000000c1', 'olly@example.test');
+
+INSERT INTO shop_members (shop_id, user_id, email, role) VALUES
+  ('shop-a.myshopify.com', '00000000-0000-0000-0000-0000000000a1', 'alice@shop-a.test', 'owner'),
+  ('shop-a.myshopify.com', '00000000-0000-0000-0000-0000000000a2', 'sam@shop-a.test', 'sales'),
+  ('shop-a.myshopify.com', '00000000-0000-0000-0000-0000000000a3', 'vera@shop-a.test', 'viewer'),
+  ('shop-b.myshopify.com', '00000000-0000-0000-0000-0000000000b1', 'bob@shop-b.test', 'owner');
+
+INSERT INTO customers (id, shop_id, email, company_name, contact_name) VALUES
+  ('00000000-0000-0000-0000-00000000c0a0', 'shop-a.myshopify.com', 'buyer@a-corp.test', 'A Corp', 'Ann'),
+  ('00000000-0000-0000-0000-00000000c0b0', 'shop-b.myshopify.com', 'buyer@b-corp.test', 'B Corp', 'Ben');
+
+INSERT INTO quotes (id, shop_id, customer_id, customer_email, quote_number, title) VALUES
+  ('00000000-0000-0000-0000-00000000e0a0', 'shop-a.myshopify.com', '00000000-0000-0000-0000-00000000c0a0', 'buyer@a-corp.test', 'QT-A', 'A quote'),
+  ('00000000-0000-0000-0000-00000000e0b0', 'shop-b.myshopify.com', '00000000-0000-0000-0000-00000000c0b0', 'buyer@b-corp.test', 'QT-B', 'B quote');
+
+-- Child rows get their shop_id from the parent quote or customer
+INSERT INTO quote_line_items (quote_id, title) VALUES
+  ('00000000-0000-0000-0000-00000000e0a0', 'Widget'),
+  ('00000000-0000-0000-0000-00000000e0b0', 'Gadget');
+
+INSERT INTO quote_status_history (id, quote_id, from_status, to_status, changed_by, changed_by_name) VALUES
+  ('history-a', '00000000-0000-0000-0000-00000000e0a0', 'draft', 'sent', 'system', 'System'),
+  ('history-b', '00000000-0000-0000-0000-00000000e0b0', 'draft', 'sent', 'system', 'System');
+
+INSERT INTO quote_reminders (quote_id, days_before_expiry) VALUES
+  ('00000000-0000-0000-0000-00000000e0a0', 3),
+  ('00000000-0000-0000-0000-00000000e0b0', 3);
+
+INSERT INTO activities (type, quote_id, description) VALUES
+  ('quote_created', '00000000-0000-0000-0000-00000000e0a0', 'Quote QT-A created'),
+  ('quote_created', '00000000-0000-0000-0000-00000000e0b0', 'Quote QT-B created');
+
+INSERT INTO activities (type, customer_id, description) VALUES
+  ('customer_updated', '00000000-0000-0000-0000-00000000c0b0', 'B Corp updated');
+
+INSERT INTO merchant_settings (shop_id, company_name) VALUES
+  ('shop-a.myshopify.com', 'A Supplies'),
+  ('shop-b.myshopify.com', 'B Supplies');
+
+INSERT INTO shop_settings (shop_id) VALUES
+  ('shop-a.myshopify.com'),
+  ('shop-b.myshopify.com');
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quote_line_items WHERE shop_id = 'shop-b.myshopify.com'), 1,
+  'line items take the shop of their quote'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM activities WHERE shop_id = 'shop-b.myshopify.com'), 2,
+  'activities take the shop of their quote or customer'
+);
+
+-- ============================================================================
+-- Token Claim
+-- ============================================================================
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM jsonb_object_keys(
+    public.custom_access_token_hook('{"user_id": "00000000-0000-0000-0000-0000000000a1", "claims": {}}')
+      -> 'claims' -> 'shop_roles'
+  )), 1,
+  'the access token hook adds the member''s shops'
+);
+
+-- ============================================================================
+-- Shop A Owner
+-- ============================================================================
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a1');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM quotes), 1, 'owner A sees one quote');
+SELECT tests.expect((SELECT COUNT(*) FROM quotes WHERE shop_id = 'shop-b.myshopify.com'), 0, 'owner A cannot read shop B quotes');
+SELECT tests.expect((SELECT COUNT(*) FROM customers WHERE shop_id = 'shop-b.myshopify.com'), 0, 'owner A cannot read shop B customers');
+SELECT tests.expect((SELECT COUNT(*) FROM quote_line_items), 1, 'owner A sees only shop A line items');
+SELECT tests.expect((SELECT COUNT(*) FROM quote_status_history), 1, 'owner A sees only shop A status history');
+SELECT tests.expect((SELECT COUNT(*) FROM quote_reminders), 1, 'owner A sees only shop A reminders');
+SELECT tests.expect((SELECT COUNT(*) FROM activities), 1, 'owner A sees only shop A activities');
+SELECT tests.expect((SELECT COUNT(*) FROM merchant_settings), 1, 'owner A sees only shop A merchant settings');
+SELECT tests.expect((SELECT COUNT(*) FROM shop_settings), 1, 'owner A sees only shop A storefront settings');
+SELECT tests.expect((SELECT COUNT(*) FROM shop_members), 3, 'owner A sees only shop A members');
+
+SELECT tests.expect_denied(
+  $$INSERT INTO quotes (shop_id, customer_email) VALUES ('shop-b.myshopify.com', 'x@example.test')$$,
+  'owner A cannot create quotes in shop B'
+);
+SELECT tests.expect_denied(
+  $$INSERT INTO customers (shop_id, email, company_name, contact_name) VALUES ('shop-b.myshopify.com', 'x@example.test', 'X', 'X')$$,
+  'owner A cannot create customers in shop B'
+);
+SELECT tests.expect_denied(
+  $$INSERT INTO quote_line_items (quote_id, title) VALUES ('00000000-0000-0000-0000-00000000e0b0', 'Sneaky')$$,
+  'owner A cannot add line items to a shop B quote'
+);
+SELECT tests.expect_denied(
+  $$INSERT INTO activities (type, quote_id, description) VALUES ('note', '00000000-0000-0000-0000-00000000e0b0', 'Sneaky')$$,
+  'owner A cannot log activities on a shop B quote'
+);
+SELECT tests.expect_rows(
+  $$UPDATE quotes SET title = 'Hijacked' WHERE id = '00000000-0000-0000-0000-00000000e0b0'$$, 0,
+  'owner A cannot update shop B quotes'
+);
+SELECT tests.expect_denied(
+  $$UPDATE quotes SET shop_id = 'shop-b.myshopify.com' WHERE id = '00000000-0000-0000-0000-00000000e0a0'$$,
+  'owner A cannot move a quote to shop B'
+);
+SELECT tests.expect_rows(
+  $$DELETE FROM customers WHERE shop_id = 'shop-b.myshopify.com'$$, 0,
+  'owner A cannot delete shop B customers'
+);
+SELECT tests.expect_rows(
+  $$UPDATE merchant_settings SET company_name = 'Hijacked' WHERE shop_id = 'shop-b.myshopify.com'$$, 0,
+  'owner A cannot change shop B settings'
+);
+SELECT tests.expect_rows(
+  $$UPDATE quotes SET title = 'Revised' WHERE id = '00000000-0000-0000-0000-00000000e0a0'$$, 1,
+  'owner A can update shop A quotes'
+);
+SELECT tests.expect_rows(
+  $$INSERT INTO quote_status_history (id, quote_id, from_status, to_status, changed_by, changed_by_name)
+    VALUES ('history-a2', '00000000-0000-0000-0000-00000000e0a0', 'sent', 'viewed', 'alice', 'Alice')$$, 1,
+  'owner A can record status changes on shop A quotes'
+);
+ROLLBACK;
+
+-- ============================================================================
+-- Shop B Owner
+-- ============================================================================
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000b1');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM quotes WHERE quote_number = 'QT-B'), 1, 'owner B sees shop B quotes');
+SELECT tests.expect((SELECT COUNT(*) FROM quotes WHERE shop_id = 'shop-a.myshopify.com'), 0, 'owner B cannot read shop A quotes');
+SELECT tests.expect((SELECT COUNT(*) FROM activities), 2, 'owner B sees only shop B activities');
+SELECT tests.expect((SELECT COUNT(*) FROM shop_members), 1, 'owner B sees only shop B members');
+ROLLBACK;
+
+-- ============================================================================
+-- Roles Within a Shop
+-- ============================================================================
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect_rows(
+  $$UPDATE quotes SET title = 'Revised' WHERE id = '00000000-0000-0000-0000-00000000e0a0'$$, 1,
+  'sales can update shop quotes'
+);
+SELECT tests.expect_rows(
+  $$DELETE FROM customers WHERE id = '00000000-0000-0000-0000-00000000c0a0'$$, 0,
+  'sales cannot delete customers'
+);
+SELECT tests.expect_rows(
+  $$UPDATE merchant_settings SET company_name = 'Renamed' WHERE shop_id = 'shop-a.myshopify.com'$$, 0,
+  'sales cannot change settings'
+);
+ROLLBACK;
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a3');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM quotes), 1, 'viewers read shop quotes');
+SELECT tests.expect_denied(
+  $$INSERT INTO quotes (shop_id, customer_email) VALUES ('shop-a.myshopify.com', 'x@example.test')$$,
+  'viewers cannot create quotes'
+);
+SELECT tests.expect_rows(
+  $$UPDATE quotes SET title = 'Revised' WHERE id = '00000000-0000-0000-0000-00000000e0a0'$$, 0,
+  'viewers cannot update quotes'
+);
+ROLLBACK;
+
+-- ============================================================================
+-- Outsiders
+-- ============================================================================
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000c1');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM quotes), 0, 'users without a shop see no quotes');
+SELECT tests.expect((SELECT COUNT(*) FROM customers), 0, 'users without a shop see no customers');
+SELECT tests.expect((SELECT COUNT(*) FROM shop_members), 0, 'users without a shop see no members');
+ROLLBACK;
+
+BEGIN;
+SET LOCAL ROLE anon;
+
+SELECT tests.expect((SELECT COUNT(*) FROM quotes), 0, 'anonymous requests see no quotes');
+SELECT tests.expect((SELECT COUNT(*) FROM merchant_settings), 0, 'anonymous requests see no settings');
+SELECT tests.expect_denied(
+  $$INSERT INTO quotes (shop_id, customer_email) VALUES ('shop-a.myshopify.com', 'x@example.test')$$,
+  'anonymous requests cannot create quotes'
+);
+ROLLBACK;
+
+-- ============================================================================
+-- Quote Templates
+-- ============================================================================
+
+INSERT INTO quote_templates (id, shop_id, name, is_default) VALUES
+  ('00000000-0000-0000-0000-00000000f0a0', 'shop-a.myshopify.com', 'A Standard', true),
+  ('00000000-0000-0000-0000-00000000f0b0', 'shop-b.myshopify.com', 'B Standard', true);
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM quote_templates), 1, 'sales sees only shop A templates');
+SELECT tests.expect_rows(
+  $$UPDATE quote_templates SET name = 'Hijacked' WHERE id = '00000000-0000-0000-0000-00000000f0b0'$$, 0,
+  'sales A cannot update shop B templates'
+);
+SELECT tests.expect_rows(
+  $$INSERT INTO quotes (shop_id, customer_email, template_id)
+    VALUES ('shop-a.myshopify.com', 'x@example.test', '00000000-0000-0000-0000-00000000f0a0')$$, 1,
+  'sales can start a quote from a shop A template'
+);
+SELECT tests.expect(
+  (SELECT usage_count FROM quote_templates WHERE id = '00000000-0000-0000-0000-00000000f0a0'), 1,
+  'starting a quote counts a template use'
+);
+ROLLBACK;
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a3');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM quote_templates), 1, 'viewers read shop templates');
+SELECT tests.expect_rows(
+  $$DELETE FROM quote_templates WHERE id = '00000000-0000-0000-0000-00000000f0a0'$$, 0,
+  'viewers cannot delete templates'
+);
+ROLLBACK;
+
+DO $$
+BEGIN
+  INSERT INTO quote_templates (shop_id, name, is_default) VALUES ('shop-a.myshopify.com', 'Second default', true);
+  RAISE EXCEPTION 'not ok - a shop has at most one default template: statement was allowed';
+EXCEPTION
+  WHEN unique_violation THEN NULL;
+END $$;
+
+-- ============================================================================
+-- Quote Revisions
+-- ============================================================================
+
+INSERT INTO quote_revisions (quote_id, revision, title, status) VALUES
+  ('00000000-0000-0000-0000-00000000e0b0', 1, 'B quote', 'sent');
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect_rows(
+  $$INSERT INTO quote_revisions (quote_id, revision, title, status)
+    VALUES ('00000000-0000-0000-0000-00000000e0a0', 1, 'A quote', 'sent')$$, 1,
+  'sales can freeze a shop A quote version'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quote_revisions
+    WHERE quote_id = '00000000-0000-0000-0000-00000000e0a0' AND shop_id = 'shop-a.myshopify.com'), 1,
+  'revision snapshots take the quote''s shop'
+);
+SELECT tests.expect((SELECT COUNT(*) FROM quote_revisions), 1, 'sales sees only shop A revisions');
+SELECT tests.expect_rows(
+  $$UPDATE quote_revisions SET title = 'Rewritten' WHERE quote_id = '00000000-0000-0000-0000-00000000e0a0'$$, 0,
+  'revision snapshots cannot be changed'
+);
+SELECT tests.expect_rows(
+  $$DELETE FROM quote_revisions WHERE quote_id = '00000000-0000-0000-0000-00000000e0a0'$$, 0,
+  'revision snapshots cannot be deleted'
+);
+SELECT tests.expect_denied(
+  $$INSERT INTO quote_revisions (quote_id, revision, title, status)
+    VALUES ('00000000-0000-0000-0000-00000000e0b0', 2, 'B quote', 'sent')$$,
+  'sales A cannot freeze shop B quotes'
+);
+
+UPDATE quotes SET revision = 2 WHERE id = '00000000-0000-0000-0000-00000000e0a0';
+INSERT INTO quote_status_history (id, quote_id, from_status, to_status, changed_by, changed_by_name)
+  VALUES ('hist-rev-a', '00000000-0000-0000-0000-00000000e0a0', 'sent', 'viewed', 'a2', 'Sam');
+SELECT tests.expect(
+  (SELECT revision FROM quote_status_history WHERE id = 'hist-rev-a'), 2,
+  'status history records the revision it applied to'
+);
+ROLLBACK;
+
+-- ============================================================================
+-- Quote Status Transitions
+-- ============================================================================
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'draft', 'sent', 'hist-transition-a', 'a2', 'Sam',
+    'quote_sent', 'Quote status changed to sent'
+  ) WHERE status = 'sent' AND sent_at IS NOT NULL), 1,
+  'a transition moves the quote and stamps its timestamp'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quote_status_history
+    WHERE id = 'hist-transition-a' AND from_status = 'draft' AND shop_id = 'shop-a.myshopify.com'), 1,
+  'a transition records its status history'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM activities WHERE type = 'quote_sent' AND quote_number = 'QT-A'), 1,
+  'a transition records its activity'
+);
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'sent', 'viewed', 'hist-transition-a3', 'customer', 'John',
+    'quote_viewed', 'Quote viewed', p_changes => '{"metadata": {"ipAddress": "203.0.113.7"}}'
+  ) WHERE metadata ->> 'ipAddress' = '203.0.113.7' AND shopify_order_id IS NULL), 1,
+  'a transition writes the quote changes it is given and keeps the rest'
+);
+
+DO $$
+BEGIN
+  PERFORM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'draft', 'accepted', 'hist-transition-a2', 'a2', 'Sam',
+    'quote_accepted', 'Quote status changed to accepted'
+  );
+  RAISE EXCEPTION 'not ok - a stale transition conflicts: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT409' THEN NULL;
+END $$;
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quote_status_history WHERE id = 'hist-transition-a2'), 0,
+  'a conflicting transition writes no history'
+);
+
+DO $$
+BEGIN
+  PERFORM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0b0', 'draft', 'sent', 'hist-transition-b', 'a2', 'Sam',
+    'quote_sent', 'Quote status changed to sent'
+  );
+  RAISE EXCEPTION 'not ok - sales A cannot transition shop B quotes: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT404' THEN NULL;
+END $$;
+ROLLBACK;
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'draft', 'pending_approval', 'hist-approval-a', 'a2', 'Sam',
+    'status_changed', 'Quote held for discount approval'
+  )), 1,
+  'sales hold a quote for approval'
+);
+
+DO $$
+BEGIN
+  PERFORM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'pending_approval', 'sent', 'hist-approval-a2', 'a2', 'Sam',
+    'quote_sent', 'Discounts approved by Sam'
+  );
+  RAISE EXCEPTION 'not ok - sales cannot approve their own quote: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT403' THEN NULL;
+END $$;
+SELECT tests.expect_denied(
+  $$UPDATE quotes SET status = 'sent' WHERE id = '00000000-0000-0000-0000-00000000e0a0'$$,
+  'sales cannot send a quote pending approval directly'
+);
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'pending_approval', 'draft', 'hist-approval-a3', 'a2', 'Sam',
+    'status_changed', 'Quote status changed to draft'
+  ) WHERE status = 'draft'), 1,
+  'sales withdraw an approval request'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'draft', 'pending_approval', 'hist-approval-a4', 'a2', 'Sam',
+    'status_changed', 'Quote held for discount approval'
+  )), 1,
+  'sales hold the quote for approval again'
+);
+
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a3');
+DO $$
+BEGIN
+  PERFORM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'pending_approval', 'draft', 'hist-approval-a5', 'a3', 'Vera',
+    'status_changed', 'Quote status changed to draft'
+  );
+  RAISE EXCEPTION 'not ok - viewers cannot transition quotes: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT403' THEN NULL;
+END $$;
+
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a1');
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'pending_approval', 'sent', 'hist-approval-a6', 'a1', 'Alice',
+    'quote_sent', 'Discounts approved by Alice'
+  ) WHERE status = 'sent' AND sent_at IS NOT NULL), 1,
+  'owners approve a quote pending approval'
+);
+ROLLBACK;
+
+-- ============================================================================
+-- Quote Edits
+-- ============================================================================
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM save_quote_edit(
+    '00000000-0000-0000-0000-00000000e0a0', 'draft', '{"title": "Edited"}',
+    '[{"position": 0, "title": "Widget", "sku": "", "quantity": 2, "unit_price": 10, "discount_amount": 0,
+       "tax_amount": 0, "subtotal": 20, "total": 20}]'
+  ) WHERE title = 'Edited' AND revision = 1), 1,
+  'an edit saves the quote in place'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quote_line_items
+    WHERE quote_id = '00000000-0000-0000-0000-00000000e0a0' AND shop_id = 'shop-a.myshopify.com'), 1,
+  'an edit replaces the line items'
+);
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'draft', 'sent', 'hist-edit-a', 'a2', 'Sam',
+    'quote_sent', 'Quote status changed to sent'
+  )), 1,
+  'the edited quote is sent'
+);
+
+DO $$
+BEGIN
+  PERFORM save_quote_edit('00000000-0000-0000-0000-00000000e0a0', 'draft', '{"title": "Late edit"}');
+  RAISE EXCEPTION 'not ok - an edit of a quote sent since it was read conflicts: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT409' THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  PERFORM save_quote_edit(
+    '00000000-0000-0000-0000-00000000e0a0', 'sent', '{"title": "Stale"}', NULL, '{"revision": 2, "title": "Stale"}',
+    'sent', 'hist-edit-stale', 'a2', 'Sam', 'quote_revised', 'Quote revised'
+  );
+  RAISE EXCEPTION 'not ok - a revision of a stale version conflicts: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT409' THEN NULL;
+END $$;
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM save_quote_edit(
+    '00000000-0000-0000-0000-00000000e0a0', 'sent', '{"title": "Revised"}', NULL,
+    (SELECT to_jsonb(q) || '{"line_items": []}' FROM quotes q WHERE id = '00000000-0000-0000-0000-00000000e0a0'),
+    'sent', 'hist-edit-a2', 'a2', 'Sam', 'quote_revised', 'Quote revised'
+  ) WHERE title = 'Revised' AND revision = 2 AND status = 'sent' AND viewed_at IS NULL), 1,
+  'a revision bumps the quote and sends it again'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quote_revisions
+    WHERE quote_id = '00000000-0000-0000-0000-00000000e0a0' AND revision = 1 AND title = 'Edited'), 1,
+  'a revision freezes the superseded version'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quote_status_history WHERE id = 'hist-edit-a2' AND revision = 2), 1,
+  'a revision records its status history against the new revision'
+);
+
+DO $$
+BEGIN
+  PERFORM save_quote_edit('00000000-0000-0000-0000-00000000e0b0', 'draft', '{"title": "Hijacked"}');
+  RAISE EXCEPTION 'not ok - sales A cannot edit shop B quotes: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT404' THEN NULL;
+END $$;
+ROLLBACK;
+
+-- ============================================================================
+-- Quote Workflows
+-- ============================================================================
+
+INSERT INTO quote_workflows (shop_id, statuses, transitions) VALUES
+  ('shop-b.myshopify.com', '[]', '[{"from": ["draft"], "to": "sent", "action": "Send Quote"}]');
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM quote_workflows), 0, 'sales A cannot see the shop B workflow');
+SELECT tests.expect_denied(
+  $$INSERT INTO quote_workflows (shop_id, transitions) VALUES ('shop-a.myshopify.com', '[]')$$,
+  'sales cannot save the shop workflow'
+);
+SELECT tests.expect_denied(
+  $$UPDATE quotes SET status = 'negotiating' WHERE id = '00000000-0000-0000-0000-00000000e0a0'$$,
+  'sales cannot change a quote status outside a transition'
+);
+ROLLBACK;
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a1');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect_rows(
+  $$INSERT INTO quote_workflows (shop_id, statuses, transitions) VALUES ('shop-a.myshopify.com',
+    '[{"key": "negotiating", "label": "Negotiating"}]', '[{"from": ["sent"], "to": "negotiating", "action": "Negotiate"}]')$$, 1,
+  'owners save the shop workflow'
+);
+SELECT tests.expect_rows(
+  $$UPDATE quotes SET status = 'negotiating' WHERE id = '00000000-0000-0000-0000-00000000e0a0'$$, 1,
+  'quotes accept custom workflow statuses'
+);
+SELECT tests.expect_rows(
+  $$DELETE FROM quote_workflows WHERE shop_id = 'shop-b.myshopify.com'$$, 0,
+  'owner A cannot reset the shop B workflow'
+);
+ROLLBACK;
+
+DO $$
+BEGIN
+  UPDATE quotes SET status = 'Awaiting Approval' WHERE id = '00000000-0000-0000-0000-00000000e0a0';
+  RAISE EXCEPTION 'not ok - quote statuses keep the key format: statement was allowed';
+EXCEPTION
+  WHEN check_violation THEN NULL;
+END $$;
+
+-- ============================================================================
+-- Exchange Rates
+-- ============================================================================
+
+INSERT INTO exchange_rates (shop_id, currency, rate) VALUES
+  ('shop-b.myshopify.com', 'EUR', 0.9);
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM exchange_rates), 0, 'sales A cannot see shop B rates');
+SELECT tests.expect_denied(
+  $$INSERT INTO exchange_rates (shop_id, currency, rate) VALUES ('shop-a.myshopify.com', 'EUR', 0.92)$$,
+  'sales cannot edit the rates table'
+);
+
+UPDATE quotes SET currency = 'EUR' WHERE id = '00000000-0000-0000-0000-00000000e0a0';
+DO $$
+BEGIN
+  PERFORM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'draft', 'sent', 'hist-rate-a', 'a2', 'Sam',
+    'quote_sent', 'Quote status changed to sent'
+  );
+  RAISE EXCEPTION 'not ok - a quote without a rate cannot be sent: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT422' THEN NULL;
+END $$;
+ROLLBACK;
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a1');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect_rows(
+  $$INSERT INTO exchange_rates (shop_id, currency, rate, source) VALUES ('shop-a.myshopify.com', 'EUR', 0.92, 'import')$$, 1,
+  'owners add rates'
+);
+UPDATE quotes SET currency = 'EUR' WHERE id = '00000000-0000-0000-0000-00000000e0a0';
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'draft', 'sent', 'hist-rate-a2', 'a1', 'Alice',
+    'quote_sent', 'Quote status changed to sent'
+  ) WHERE base_currency = 'USD' AND exchange_rate = 0.92), 1,
+  'sending a quote stamps the rate to the base currency'
+);
+UPDATE exchange_rates SET rate = 0.95 WHERE shop_id = 'shop-a.myshopify.com';
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quotes WHERE id = '00000000-0000-0000-0000-00000000e0a0' AND exchange_rate = 0.92), 1,
+  'later rate changes leave sent quotes alone'
+);
+ROLLBACK;
+
+-- ============================================================================
+-- Tax Rules
+-- ============================================================================
+
+INSERT INTO tax_rules (shop_id, name, country, region, rate) VALUES
+  ('shop-b.myshopify.com', 'California sales tax', 'US', 'CA', 7.25);
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM tax_rules), 0, 'sales A cannot see shop B tax rules');
+SELECT tests.expect_denied(
+  $$INSERT INTO tax_rules (shop_id, name, country, rate) VALUES ('shop-a.myshopify.com', 'VAT', 'DE', 19)$$,
+  'sales cannot edit the tax rules'
+);
+ROLLBACK;
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a1');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect_rows(
+  $$INSERT INTO tax_rules (shop_id, name, country, rate) VALUES ('shop-a.myshopify.com', 'VAT', 'DE', 19)$$, 1,
+  'owners add tax rules'
+);
+SELECT tests.expect_rows(
+  $$UPDATE tax_rules SET rate = 0 WHERE shop_id = 'shop-b.myshopify.com'$$, 0,
+  'owner A cannot change shop B tax rules'
+);
+ROLLBACK;
+
+-- ============================================================================
+-- Customer Statistics
+-- ============================================================================
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM customer_stats(ARRAY[
+    '00000000-0000-0000-0000-00000000c0a0', '00000000-0000-0000-0000-00000000c0b0'
+  ]::UUID[])), 1,
+  'sales A only gets stats for shop A customers'
+);
+SELECT tests.expect(
+  (SELECT total_quotes FROM customer_stats(ARRAY['00000000-0000-0000-0000-00000000c0a0']::UUID[])), 1,
+  'customer stats count the customer''s quotes'
+);
+SELECT tests.expect(
+  (SELECT pending_quotes + avg_quote_value::BIGINT
+    FROM customer_stats(ARRAY['00000000-0000-0000-0000-00000000c0a0']::UUID[])), 0,
+  'drafts are neither pending nor averaged'
+);
+
+UPDATE quotes SET total = 120 WHERE id = '00000000-0000-0000-0000-00000000e0a0';
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM transition_quote_status(
+    '00000000-0000-0000-0000-00000000e0a0', 'draft', 'sent', 'hist-stats-a', 'a2', 'Sam',
+    'quote_sent', 'Quote status changed to sent'
+  )), 1,
+  'the customer''s quote is sent'
+);
+INSERT INTO quotes (shop_id, customer_id, customer_email, quote_number, title, total) VALUES
+  ('shop-a.myshopify.com', '00000000-0000-0000-0000-00000000c0a0', 'buyer@a-corp.test', 'QT-A2', 'Draft', 40);
+SELECT tests.expect(
+  (SELECT pending_quotes FROM customer_stats(ARRAY['00000000-0000-0000-0000-00000000c0a0']::UUID[])), 1,
+  'sent quotes are pending'
+);
+SELECT tests.expect(
+  (SELECT avg_quote_value::BIGINT FROM customer_stats(ARRAY['00000000-0000-0000-0000-00000000c0a0']::UUID[])), 120,
+  'the average covers the quotes that left draft'
+);
+ROLLBACK;
+
+-- ============================================================================
+-- Customer Imports
+-- ============================================================================
+
+INSERT INTO customer_imports (shop_id, file_name) VALUES ('shop-b.myshopify.com', 'b-customers.csv');
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM customer_imports), 0, 'sales A cannot see shop B imports');
+SELECT tests.expect_rows(
+  $$INSERT INTO customer_imports (shop_id, file_name) VALUES ('shop-a.myshopify.com', 'a-customers.csv')$$, 1,
+  'sales upload imports'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM find_matching_customers(ARRAY['buyer@a-corp.test', 'buyer@b-corp.test'], ARRAY['b corp'])), 1,
+  'duplicate lookups only match shop A customers'
+);
+ROLLBACK;
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a3');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect_denied(
+  $$INSERT INTO customer_imports (shop_id, file_name) VALUES ('shop-a.myshopify.com', 'a-customers.csv')$$,
+  'viewers cannot import customers'
+);
+ROLLBACK;
+
+-- ============================================================================
+-- Customer Merges
+-- ============================================================================
+
+INSERT INTO customers (id, shop_id, email, company_name, contact_name) VALUES
+  ('00000000-0000-0000-0000-00000000c0a1', 'shop-a.myshopify.com', 'orders@a-corp.test', 'A Corp Inc', 'Ann');
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM find_duplicate_customers('00000000-0000-0000-0000-00000000c0a0', ARRAY['gmail.com'])), 1,
+  'duplicate candidates share the email domain'
+);
+DO $$
+BEGIN
+  PERFORM merge_customers(
+    '00000000-0000-0000-0000-00000000c0a0', ARRAY['00000000-0000-0000-0000-00000000c0a1']::UUID[], '{}'
+  );
+  RAISE EXCEPTION 'not ok - sales cannot merge customers: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT403' THEN NULL;
+END $$;
+ROLLBACK;
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a1');
+SET LOCAL ROLE authenticated;
+
+DO $$
+BEGIN
+  PERFORM merge_customers(
+    '00000000-0000-0000-0000-00000000c0a0', ARRAY['00000000-0000-0000-0000-00000000c0b0']::UUID[], '{}'
+  );
+  RAISE EXCEPTION 'not ok - owner A cannot merge a shop B customer: statement was allowed';
+EXCEPTION
+  WHEN SQLSTATE 'PT404' THEN NULL;
+END $$;
+
+UPDATE quotes SET customer_id = '00000000-0000-0000-0000-00000000c0a1'
+WHERE id = '00000000-0000-0000-0000-00000000e0a0';
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM merge_customers(
+    '00000000-0000-0000-0000-00000000c0a0', ARRAY['00000000-0000-0000-0000-00000000c0a1']::UUID[],
+    '{"email": "orders@a-corp.test"}'
+  )), 1,
+  'owners merge customers'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM customer_merges
+    WHERE merged_by = '00000000-0000-0000-0000-0000000000a1' AND merged_by_name = 'alice@shop-a.test'
+      AND undo_until = created_at + INTERVAL '7 days'), 1,
+  'a merge records the signed-in member and the undo window'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM customers WHERE id = '00000000-0000-0000-0000-00000000c0a0' AND email = 'orders@a-corp.test'), 1,
+  'the survivor takes the picked values'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quotes WHERE customer_id = '00000000-0000-0000-0000-00000000c0a0'), 1,
+  'merging moves the duplicate''s quotes to the survivor'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM undo_customer_merge(
+    (SELECT id FROM customer_merges WHERE survivor_id = '00000000-0000-0000-0000-00000000c0a0')
+  ) WHERE email = 'buyer@a-corp.test'), 1,
+  'undoing a merge restores the survivor'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM quotes WHERE customer_id = '00000000-0000-0000-0000-00000000c0a1'), 1,
+  'undoing a merge moves the quotes back'
+);
+ROLLBACK;
+
+DELETE FROM customers WHERE id = '00000000-0000-0000-0000-00000000c0a1';
+
+-- ============================================================================
+-- Customer Contacts
+-- ============================================================================
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a2');
+SET LOCAL ROLE authenticated;
+
+INSERT INTO customer_contacts (id, customer_id, name, email, roles, is_primary) VALUES
+  ('00000000-0000-0000-0000-00000000d0a0', '00000000-0000-0000-0000-00000000c0a0', 'Ann', 'buyer@a-corp.test', ARRAY['purchasing'], true);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM customer_contacts WHERE shop_id = 'shop-a.myshopify.com'), 1,
+  'contacts take their customer''s shop'
+);
+INSERT INTO customer_contacts (id, customer_id, name, email, roles, is_primary) VALUES
+  ('00000000-0000-0000-0000-00000000d0a1', '00000000-0000-0000-0000-00000000c0a0', 'Fay', 'ap@a-corp.test', ARRAY['finance'], true);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM customer_contacts WHERE is_primary AND id = '00000000-0000-0000-0000-00000000d0a1'), 1,
+  'a new primary contact replaces the previous one'
+);
+SELECT tests.expect_denied(
+  $$INSERT INTO customer_contacts (customer_id, name, email) VALUES ('00000000-0000-0000-0000-00000000c0b0', 'Ben', 'buyer@b-corp.test')$$,
+  'sales cannot add contacts to a shop B customer'
+);
+ROLLBACK;
+
+INSERT INTO customer_contacts (id, customer_id, name, email, roles, is_primary) VALUES
+  ('00000000-0000-0000-0000-00000000d0a0', '00000000-0000-0000-0000-00000000c0a0', 'Ann', 'buyer@a-corp.test', ARRAY['purchasing'], true);
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a3');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM customer_contacts), 1, 'viewers see their shop''s contacts');
+SELECT tests.expect_rows(
+  $$UPDATE customer_contacts SET notify_quotes = false$$, 0,
+  'viewers cannot change contacts'
+);
+ROLLBACK;
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000b1');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect((SELECT COUNT(*) FROM customer_contacts), 0, 'owner B sees no shop A contacts');
+SELECT tests.expect_rows(
+  $$DELETE FROM customer_contacts$$, 0,
+  'owner B cannot delete shop A contacts'
+);
+ROLLBACK;
+
+INSERT INTO customers (id, shop_id, email, company_name, contact_name) VALUES
+  ('00000000-0000-0000-0000-00000000c0a1', 'shop-a.myshopify.com', 'orders@a-corp.test', 'A Corp Inc', 'Ann');
+INSERT INTO customer_contacts (id, customer_id, name, email, roles, is_primary) VALUES
+  ('00000000-0000-0000-0000-00000000d0a2', '00000000-0000-0000-0000-00000000c0a1', 'Ola', 'orders@a-corp.test', ARRAY['purchasing'], true);
+
+BEGIN;
+SELECT tests.act_as('00000000-0000-0000-0000-0000000000a1');
+SET LOCAL ROLE authenticated;
+
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM merge_customers(
+    '00000000-0000-0000-0000-00000000c0a0', ARRAY['00000000-0000-0000-0000-00000000c0a1']::UUID[],
+    '{}'
+  )), 1,
+  'owners merge customers with contacts'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM customer_contacts WHERE customer_id = '00000000-0000-0000-0000-00000000c0a0'), 2,
+  'merging moves the duplicate''s contacts to the survivor'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM customer_contacts WHERE is_primary), 1,
+  'the survivor keeps its own primary contact'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM undo_customer_merge(
+    (SELECT id FROM customer_merges WHERE survivor_id = '00000000-0000-0000-0000-00000000c0a0')
+  )), 1,
+  'owners undo merges of customers with contacts'
+);
+SELECT tests.expect(
+  (SELECT COUNT(*) FROM customer_contacts
+   WHERE id = '00000000-0000-0000-0000-00000000d0a2'
+     AND customer_id = '00000000-0000-0000-0000-00000000c0a1'
+     AND is_primary), 1,
+  'undoing a merge gives the duplicate its contacts and primary contact back'
+);
+ROLLBACK;
+
+DELETE FROM customers WHERE id = '00000000-0000-0000-0000-00000000c0a1';